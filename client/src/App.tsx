@@ -16,9 +16,17 @@ const Dashboard = lazy(() => import("./pages/Dashboard")); // Create this as you
 const Orders = lazy(() => import("./pages/Orders"));
 const Projects = lazy(() => import("./pages/Projects"));
 const Competitions = lazy(() => import("./pages/Competitions"));
+const CompetitionJudging = lazy(() => import("./pages/CompetitionJudging"));
+const CompetitionResults = lazy(() => import("./pages/CompetitionResults"));
 const Teams = lazy(() => import("./pages/Teams"));
+const Requisitions = lazy(() => import("./pages/Requisitions"));
+const PurchaseOrders = lazy(() => import("./pages/PurchaseOrders"));
+const Loans = lazy(() => import("./pages/Loans"));
+const Stocktakes = lazy(() => import("./pages/Stocktakes"));
+const StocktakeDetail = lazy(() => import("./pages/StocktakeDetail"));
 const Posts = lazy(() => import("./pages/Posts"));
 const AdminDashboard = lazy(() => import("./pages/AdminDashboard"));
+const FinanceDashboard = lazy(() => import("./pages/FinanceDashboard"));
 const NotFound = lazy(() => import("./pages/NotFound"));
 const Profile = lazy(() => import("./pages/Profile"));
 const Settings = lazy(() => import("./pages/Settings"));
@@ -58,7 +66,12 @@ const TrainerSessionDetail = lazy(() => import("./pages/TrainerSessionDetail"));
 const TrainerTakeAttendance = lazy(() => import("./pages/TrainerTakeAttendance"));
 const TrainerSessionEvaluations = lazy(() => import("./pages/TrainerSessionEvaluations"));
 const TrainerQuizzes = lazy(() => import("./pages/TrainerQuizzes"));
+const TrainerQuizAnalytics = lazy(() => import("./pages/TrainerQuizAnalytics"));
 const TrainerQuizBuilder = lazy(() => import("./pages/TrainerQuizBuilder"));
+const TrainerQuestionBank = lazy(() => import("./pages/TrainerQuestionBank"));
+const TrainerAssignments = lazy(() => import("./pages/TrainerAssignments"));
+const TrainerAssignmentSubmissions = lazy(() => import("./pages/TrainerAssignmentSubmissions"));
+const TrainerResources = lazy(() => import("./pages/TrainerResources"));
 
 // Reception Dashboard pages
 const ReceptionDashboard = lazy(() => import("./pages/ReceptionDashboard"));
@@ -66,6 +79,7 @@ const UserManagement = lazy(() => import("./pages/reception/UserManagement"));
 const EnrollmentManagement = lazy(() => import("./pages/reception/EnrollmentManagement"));
 const LeadManagement = lazy(() => import("./pages/reception/LeadManagement"));
 const Schedule = lazy(() => import("./pages/reception/Schedule"));
+const PaymentVerification = lazy(() => import("./pages/reception/PaymentVerification"));
 
 // CLO pages
 const CLODashboard = lazy(() => import("./pages/CLODashboard"));
@@ -97,7 +111,7 @@ const AdminRoute = () => {
     return <PageLoader />;
   }
 
-  if (!user || user.role !== UserRole.ADMIN) {
+  if (!user || (user.role !== UserRole.ADMIN && user.role !== UserRole.SUPERADMIN)) {
     return (
       <Navigate to={ROUTES.DASHBOARD} state={{ from: location }} replace />
     );
@@ -284,6 +298,7 @@ const App = () => {
 
           {/* Gallery page */}
           <Route path="/gallery" element={<GalleryPage />} />
+          <Route path={ROUTES.COMPETITION_RESULTS} element={<CompetitionResults />} />
 
           {/* Protected routes - WITH MainLayout (includes sidebar/navbar) */}
           <Route element={<ProtectedRoute />}>
@@ -293,6 +308,7 @@ const App = () => {
               <Route path={ROUTES.ORDERS} element={<Orders />} />
               <Route path={ROUTES.PROJECTS} element={<Projects />} />
               <Route path={ROUTES.COMPETITIONS} element={<Competitions />} />
+              <Route path={ROUTES.COMPETITION_JUDGING} element={<CompetitionJudging />} />
               <Route path={ROUTES.TEAMS} element={<Teams />} />
               <Route path={ROUTES.POSTS} element={<Posts />} />
               <Route path={ROUTES.PROFILE} element={<Profile />} />
@@ -330,6 +346,12 @@ const App = () => {
                 <Route path="/trainer/quizzes" element={<TrainerQuizzes />} />
                 <Route path="/trainer/quizzes/new" element={<TrainerQuizBuilder />} />
                 <Route path="/trainer/quizzes/:quizId/edit" element={<TrainerQuizBuilder />} />
+                <Route path="/trainer/quizzes/:quizId/analytics" element={<TrainerQuizAnalytics />} />
+                <Route path="/trainer/question-bank" element={<TrainerQuestionBank />} />
+                <Route path="/trainer/assignments" element={<TrainerAssignments />} />
+                <Route path="/trainer/assignments/:assignmentId/submissions" element={<TrainerAssignmentSubmissions />} />
+                <Route path="/trainer/resources" element={<TrainerResources />} />
+                <Route path="/trainer/resources/:resourceId" element={<TrainerResources />} />
               </Route>
 
               {/* Reception Dashboard routes (Reception role only) */}
@@ -339,6 +361,7 @@ const App = () => {
                 <Route path="/reception/enrollments" element={<EnrollmentManagement />} />
                 <Route path="/reception/leads" element={<LeadManagement />} />
                 <Route path="/reception/schedule" element={<Schedule />} />
+                <Route path="/reception/payments" element={<PaymentVerification />} />
               </Route>
 
               {/* CLO routes (Chief Learning Officer role only) */}
@@ -356,6 +379,12 @@ const App = () => {
               {/* Admin-only routes */}
               <Route element={<AdminRoute />}>
                 <Route path="/admin" element={<AdminDashboard />} />
+                <Route path={ROUTES.ADMIN_FINANCE} element={<FinanceDashboard />} />
+                <Route path={ROUTES.INVENTORY_REQUISITIONS} element={<Requisitions />} />
+                <Route path={ROUTES.INVENTORY_PURCHASE_ORDERS} element={<PurchaseOrders />} />
+                <Route path={ROUTES.INVENTORY_LOANS} element={<Loans />} />
+                <Route path={ROUTES.INVENTORY_STOCKTAKES} element={<Stocktakes />} />
+                <Route path={ROUTES.INVENTORY_STOCKTAKE_DETAIL} element={<StocktakeDetail />} />
               </Route>
             </Route>
           </Route>
@@ -0,0 +1,371 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Send,
+  Pin,
+  PinOff,
+  Pencil,
+  Trash2,
+  Megaphone,
+  MessageSquare,
+  AlertCircle,
+  RefreshCw,
+  X,
+  Check,
+} from "lucide-react";
+import { Button, Badge, LoadingState } from "../ui";
+import type { ChatMessage, UseGroupChatReturn } from "../../hooks/useGroupChat";
+
+const QUICK_REACTIONS = ["👍", "❤️", "😂", "🎉", "❓"];
+
+interface GroupChatPanelProps {
+  chat: UseGroupChatReturn;
+  /** Trainers can pin messages, post announcements and delete any message */
+  canModerate?: boolean;
+}
+
+const formatTime = (value: string) =>
+  new Date(value).toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+export default function GroupChatPanel({ chat, canModerate = false }: GroupChatPanelProps) {
+  const {
+    chat: info,
+    messages,
+    pinnedMessages,
+    unreadCount,
+    typingUsers,
+    currentUserId,
+    isLoading,
+    error,
+    hasMore,
+    refetch,
+    loadMore,
+    sendMessage,
+    editMessage,
+    deleteMessage,
+    togglePin,
+    toggleReaction,
+    markAsRead,
+    setTyping,
+  } = chat;
+
+  const [draft, setDraft] = useState("");
+  const [isAnnouncement, setIsAnnouncement] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState("");
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const typingTimeout = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const lastMessageId = messages[messages.length - 1]?._id;
+
+  // Keep the newest message in view and mark it read while the panel is open
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+    if (lastMessageId && unreadCount > 0) {
+      markAsRead();
+    }
+  }, [lastMessageId, unreadCount, markAsRead]);
+
+  useEffect(() => {
+    return () => {
+      if (typingTimeout.current) clearTimeout(typingTimeout.current);
+    };
+  }, []);
+
+  const handleDraftChange = (value: string) => {
+    setDraft(value);
+    setTyping(true);
+    if (typingTimeout.current) clearTimeout(typingTimeout.current);
+    typingTimeout.current = setTimeout(() => setTyping(false), 2000);
+  };
+
+  const handleSend = async () => {
+    const text = draft.trim();
+    if (!text || isSending) return;
+
+    setIsSending(true);
+    const ok = await sendMessage(text, isAnnouncement ? "announcement" : "text");
+    setIsSending(false);
+
+    if (ok) {
+      setDraft("");
+      setIsAnnouncement(false);
+      setTyping(false);
+    }
+  };
+
+  const handleSaveEdit = async (messageId: string) => {
+    const text = editDraft.trim();
+    if (!text) return;
+    if (await editMessage(messageId, text)) {
+      setEditingId(null);
+    }
+  };
+
+  const groupReactions = (message: ChatMessage) => {
+    const counts = new Map<string, { count: number; mine: boolean }>();
+    message.reactions.forEach((r) => {
+      const entry = counts.get(r.emoji) || { count: 0, mine: false };
+      entry.count += 1;
+      if (String(r.userId) === currentUserId) entry.mine = true;
+      counts.set(r.emoji, entry);
+    });
+    return Array.from(counts.entries());
+  };
+
+  if (isLoading) {
+    return <LoadingState type="skeleton" text="Loading chat..." />;
+  }
+
+  if (error && !info) {
+    return (
+      <div className="flex items-center gap-3 p-4 rounded-lg bg-red-500/10 border border-red-500/30 text-red-300">
+        <AlertCircle className="w-5 h-5 flex-shrink-0" />
+        <p className="flex-1 text-sm">{error}</p>
+        <Button
+          variant="ghost"
+          size="sm"
+          leftIcon={<RefreshCw className="w-4 h-4" />}
+          onClick={refetch}
+        >
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex flex-col h-[600px] rounded-xl bg-white/5 border border-white/10 overflow-hidden">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-3 border-b border-white/10">
+        <div className="flex items-center gap-2">
+          <MessageSquare className="w-5 h-5 text-primary" />
+          <h3 className="font-semibold">{info?.name || info?.groupName || "Group Chat"}</h3>
+        </div>
+        <span className="text-xs text-white/50">
+          {info?.participants.length || 0} participants
+        </span>
+      </div>
+
+      {/* Pinned messages */}
+      {pinnedMessages.length > 0 && (
+        <div className="px-4 py-2 border-b border-white/10 bg-primary/5 space-y-1">
+          {pinnedMessages.map((m) => (
+            <div key={m._id} className="flex items-center gap-2 text-sm">
+              <Pin className="w-3 h-3 text-primary flex-shrink-0" />
+              <span className="font-medium">{m.senderName}:</span>
+              <span className="truncate text-white/70">{m.message}</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Messages */}
+      <div className="flex-1 overflow-y-auto px-4 py-3 space-y-3">
+        {hasMore && (
+          <div className="text-center">
+            <Button variant="ghost" size="xs" onClick={loadMore}>
+              Load older messages
+            </Button>
+          </div>
+        )}
+
+        {messages.length === 0 && (
+          <div className="text-center py-12 text-white/40">
+            <MessageSquare className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No messages yet</p>
+            <p className="text-sm mt-2">Start the conversation with your group</p>
+          </div>
+        )}
+
+        {messages.map((message) => {
+          if (message.type === "system") {
+            return (
+              <p key={message._id} className="text-center text-xs text-white/40">
+                {message.message}
+              </p>
+            );
+          }
+
+          const isOwn = String(message.senderId) === currentUserId;
+          const isAnnouncementMsg = message.type === "announcement";
+          const canDelete = isOwn || canModerate;
+
+          return (
+            <div
+              key={message._id}
+              className={`group flex flex-col ${isOwn ? "items-end" : "items-start"}`}
+            >
+              <div className="flex items-center gap-2 mb-1 text-xs text-white/50">
+                <span className="font-medium text-white/70">{message.senderName}</span>
+                {message.senderRole === "trainer" && (
+                  <Badge variant="primary" size="sm">Trainer</Badge>
+                )}
+                <span>{formatTime(message.createdAt)}</span>
+                {message.isEdited && <span>(edited)</span>}
+                {message.isPinned && <Pin className="w-3 h-3 text-primary" />}
+              </div>
+
+              <div
+                className={`max-w-[80%] px-3 py-2 rounded-lg text-sm whitespace-pre-wrap break-words ${
+                  isAnnouncementMsg
+                    ? "bg-yellow-500/10 border border-yellow-500/30"
+                    : isOwn
+                    ? "bg-primary/20 border border-primary/30"
+                    : "bg-white/10 border border-white/10"
+                }`}
+              >
+                {isAnnouncementMsg && (
+                  <div className="flex items-center gap-1 mb-1 text-xs font-semibold text-yellow-400">
+                    <Megaphone className="w-3 h-3" />
+                    Announcement
+                  </div>
+                )}
+                {editingId === message._id ? (
+                  <div className="flex items-center gap-2">
+                    <input
+                      value={editDraft}
+                      onChange={(e) => setEditDraft(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") handleSaveEdit(message._id);
+                        if (e.key === "Escape") setEditingId(null);
+                      }}
+                      className="flex-1 bg-transparent border-b border-white/30 focus:outline-none"
+                      autoFocus
+                    />
+                    <button onClick={() => handleSaveEdit(message._id)} title="Save">
+                      <Check className="w-4 h-4 text-green-400" />
+                    </button>
+                    <button onClick={() => setEditingId(null)} title="Cancel">
+                      <X className="w-4 h-4 text-white/60" />
+                    </button>
+                  </div>
+                ) : (
+                  message.message
+                )}
+              </div>
+
+              {/* Reactions */}
+              {message.reactions.length > 0 && (
+                <div className="flex gap-1 mt-1">
+                  {groupReactions(message).map(([emoji, { count, mine }]) => (
+                    <button
+                      key={emoji}
+                      onClick={() => toggleReaction(message._id, emoji)}
+                      className={`px-1.5 py-0.5 rounded-full text-xs border ${
+                        mine ? "border-primary/60 bg-primary/10" : "border-white/10 bg-white/5"
+                      }`}
+                    >
+                      {emoji} {count}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Actions */}
+              <div className="hidden group-hover:flex items-center gap-1 mt-1 text-white/50">
+                {QUICK_REACTIONS.map((emoji) => (
+                  <button
+                    key={emoji}
+                    onClick={() => toggleReaction(message._id, emoji)}
+                    className="px-1 hover:scale-110 transition-transform"
+                  >
+                    {emoji}
+                  </button>
+                ))}
+                {isOwn && (
+                  <button
+                    onClick={() => {
+                      setEditingId(message._id);
+                      setEditDraft(message.message);
+                    }}
+                    title="Edit"
+                    className="p-1 hover:text-white"
+                  >
+                    <Pencil className="w-3 h-3" />
+                  </button>
+                )}
+                {canModerate && (
+                  <button
+                    onClick={() => togglePin(message)}
+                    title={message.isPinned ? "Unpin" : "Pin"}
+                    className="p-1 hover:text-white"
+                  >
+                    {message.isPinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                  </button>
+                )}
+                {canDelete && (
+                  <button
+                    onClick={() => deleteMessage(message._id)}
+                    title="Delete"
+                    className="p-1 hover:text-red-400"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })}
+        <div ref={bottomRef} />
+      </div>
+
+      {/* Typing indicator */}
+      {typingUsers.length > 0 && (
+        <p className="px-4 pb-1 text-xs text-white/50 italic">
+          {typingUsers.map((u) => u.userName || "Someone").join(", ")}{" "}
+          {typingUsers.length === 1 ? "is" : "are"} typing...
+        </p>
+      )}
+
+      {/* Composer */}
+      <div className="border-t border-white/10 p-3">
+        {error && info && <p className="text-xs text-red-400 mb-2">{error}</p>}
+        <div className="flex items-end gap-2">
+          <textarea
+            value={draft}
+            onChange={(e) => handleDraftChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter" && !e.shiftKey) {
+                e.preventDefault();
+                handleSend();
+              }
+            }}
+            rows={2}
+            maxLength={5000}
+            placeholder="Write a message..."
+            className="flex-1 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm resize-none focus:outline-none focus:border-primary/50"
+          />
+          <div className="flex flex-col gap-2">
+            {canModerate && (
+              <Button
+                variant={isAnnouncement ? "primary" : "ghost"}
+                size="xs"
+                leftIcon={<Megaphone className="w-3 h-3" />}
+                onClick={() => setIsAnnouncement((v) => !v)}
+                title="Post as announcement"
+              >
+                Announce
+              </Button>
+            )}
+            <Button
+              variant="primary"
+              size="sm"
+              leftIcon={<Send className="w-4 h-4" />}
+              onClick={handleSend}
+              isLoading={isSending}
+              disabled={!draft.trim()}
+            >
+              Send
+            </Button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,202 @@
+/**
+ * CompetitionFormModal Component
+ *
+ * Creates or edits a competition:
+ * - Title, description and event dates
+ * - Team limit (0 = unlimited)
+ * - Optional registration window
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Modal, Button } from '../ui';
+import type { Competition } from '../../hooks/useCompetitionsData';
+
+interface CompetitionFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Competition to edit; null to create one */
+  competition: Competition | null;
+  onSubmit: (data: Partial<Competition>) => Promise<{ success: boolean; error?: string }>;
+}
+
+interface FormState {
+  title: string;
+  description: string;
+  startDate: string;
+  endDate: string;
+  maxTeams: string;
+  registrationOpensAt: string;
+  registrationClosesAt: string;
+}
+
+const toDateInput = (value?: string | null) => (value ? value.slice(0, 10) : '');
+
+const emptyForm: FormState = {
+  title: '',
+  description: '',
+  startDate: '',
+  endDate: '',
+  maxTeams: '0',
+  registrationOpensAt: '',
+  registrationClosesAt: '',
+};
+
+export const CompetitionFormModal: React.FC<CompetitionFormModalProps> = ({
+  isOpen,
+  onClose,
+  competition,
+  onSubmit
+}) => {
+  const [form, setForm] = useState<FormState>(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError('');
+    setForm(
+      competition
+        ? {
+            title: competition.title,
+            description: competition.description || '',
+            startDate: toDateInput(competition.startDate),
+            endDate: toDateInput(competition.endDate),
+            maxTeams: String(competition.maxTeams ?? 0),
+            registrationOpensAt: toDateInput(competition.registrationOpensAt),
+            registrationClosesAt: toDateInput(competition.registrationClosesAt),
+          }
+        : emptyForm
+    );
+  }, [isOpen, competition]);
+
+  const update = (field: keyof FormState) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement>
+  ) => setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!form.title.trim() || !form.startDate || !form.endDate) {
+      setError('Title and dates are required');
+      return;
+    }
+    if (form.endDate < form.startDate) {
+      setError('The competition must end after it starts');
+      return;
+    }
+    if (form.registrationOpensAt && form.registrationClosesAt && form.registrationClosesAt <= form.registrationOpensAt) {
+      setError('Registration must close after it opens');
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await onSubmit({
+      title: form.title.trim(),
+      description: form.description.trim(),
+      startDate: form.startDate,
+      endDate: form.endDate,
+      maxTeams: Math.max(0, parseInt(form.maxTeams, 10) || 0),
+      // Registration closes at the end of the chosen day
+      registrationOpensAt: form.registrationOpensAt || null,
+      registrationClosesAt: form.registrationClosesAt ? `${form.registrationClosesAt}T23:59:59` : null,
+    });
+    setIsSaving(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error || 'Failed to save competition');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={competition ? 'Edit Competition' : 'New Competition'}
+      description={competition ? undefined : 'New competitions start as drafts'}
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="competition-title">Title</label>
+          <input id="competition-title" className="input" value={form.title} onChange={update('title')} required />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="competition-description">Description</label>
+          <textarea
+            id="competition-description"
+            className="input"
+            rows={3}
+            value={form.description}
+            onChange={update('description')}
+          />
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="competition-start">Starts</label>
+            <input id="competition-start" type="date" className="input" value={form.startDate} onChange={update('startDate')} required />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="competition-end">Ends</label>
+            <input id="competition-end" type="date" className="input" value={form.endDate} onChange={update('endDate')} required />
+          </div>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="competition-reg-open">Registration opens</label>
+            <input
+              id="competition-reg-open"
+              type="date"
+              className="input"
+              value={form.registrationOpensAt}
+              onChange={update('registrationOpensAt')}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="competition-reg-close">Registration closes</label>
+            <input
+              id="competition-reg-close"
+              type="date"
+              className="input"
+              value={form.registrationClosesAt}
+              onChange={update('registrationClosesAt')}
+            />
+          </div>
+        </div>
+        <p className="text-xs text-zinc-500 -mt-2">
+          Leave empty to accept teams for as long as the competition is in registration.
+        </p>
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="competition-max-teams">Max teams</label>
+          <input
+            id="competition-max-teams"
+            type="number"
+            min={0}
+            step={1}
+            className="input"
+            value={form.maxTeams}
+            onChange={update('maxTeams')}
+          />
+          <p className="text-xs text-zinc-500 mt-1">0 means unlimited. Pending registrations count towards the limit.</p>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-zinc-200">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSaving}>
+            {isSaving ? 'Saving...' : competition ? 'Save Changes' : 'Create Competition'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,195 @@
+/**
+ * RankingsModal Component
+ *
+ * Shows the ranking of a competition:
+ * - Rank, team score and number of judges
+ * - Per-criterion breakdown (average points and percentage)
+ * - Tie-break criterion that separated tied teams
+ * - Per-judge scores on expand
+ */
+
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, RefreshCw } from 'lucide-react';
+import { Modal, Button, Badge, LoadingState } from '../ui';
+import { useCompetitionRankings } from '../../hooks';
+import type { Competition } from '../../hooks/useCompetitionsData';
+
+interface RankingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  competition: Competition | null;
+}
+
+const percentColor = (percent: number) => {
+  if (percent >= 75) return 'bg-green-500';
+  if (percent >= 50) return 'bg-yellow-500';
+  return 'bg-red-400';
+};
+
+export const RankingsModal: React.FC<RankingsModalProps> = ({
+  isOpen,
+  onClose,
+  competition
+}) => {
+  const { data, isLoading, error, refetch } = useCompetitionRankings(isOpen && competition ? competition._id : null);
+  const [expandedTeam, setExpandedTeam] = useState<string | null>(null);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Rankings"
+      description={competition?.title}
+      size="xl"
+    >
+      {isLoading && !data ? (
+        <LoadingState type="spinner" text="Loading rankings..." />
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3 flex items-center justify-between">
+          <p className="text-sm text-red-700">{error}</p>
+          <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
+            Retry
+          </Button>
+        </div>
+      ) : data && (
+        <div className="space-y-4">
+          <div className="flex flex-wrap items-center gap-2 text-sm text-zinc-600">
+            <Badge variant="info" size="sm">
+              {data.scoringMethod === 'normalized' ? 'Judge-normalized' : 'Average'} scoring
+            </Badge>
+            <span>{data.judgeCount} judge{data.judgeCount === 1 ? '' : 's'}</span>
+            {data.tieBreakers.length > 0 && (
+              <span>
+                · Ties broken by{' '}
+                {data.tieBreakers
+                  .map((id) => data.criteria.find((c) => c._id === id)?.name)
+                  .filter(Boolean)
+                  .join(', then ')}
+              </span>
+            )}
+          </div>
+
+          {data.criteria.length === 0 && (
+            <p className="text-sm text-zinc-500">
+              No rubric defined yet — scores are the judges' raw totals.
+            </p>
+          )}
+
+          {data.excludedEvaluations > 0 && (
+            <p className="text-sm text-zinc-500">
+              {data.excludedEvaluations} evaluation{data.excludedEvaluations === 1 ? ' was' : 's were'} scored
+              before the rubric and {data.excludedEvaluations === 1 ? "isn't" : "aren't"} counted; ask those judges
+              to score again.
+            </p>
+          )}
+
+          {data.rankings.length === 0 ? (
+            <p className="text-sm text-zinc-500 text-center py-8">No teams registered yet</p>
+          ) : (
+            <div className="border border-zinc-200 rounded-lg divide-y divide-zinc-200">
+              {data.rankings.map((team) => {
+                const isExpanded = expandedTeam === team.teamId;
+
+                return (
+                  <div key={team.teamId}>
+                    <button
+                      type="button"
+                      className="w-full flex items-center gap-3 px-4 py-3 text-left hover:bg-zinc-50"
+                      onClick={() => setExpandedTeam(isExpanded ? null : team.teamId)}
+                    >
+                      {isExpanded ? (
+                        <ChevronDown className="w-4 h-4 text-zinc-400" />
+                      ) : (
+                        <ChevronRight className="w-4 h-4 text-zinc-400" />
+                      )}
+                      <span className="w-8 text-lg font-bold text-zinc-900">{team.rank ?? '—'}</span>
+                      <span className="flex-1 font-medium text-zinc-900">
+                        {team.teamName}
+                        {team.tieBrokenBy && (
+                          <span className="ml-2 text-xs font-normal text-zinc-500">
+                            (tie broken by {team.tieBrokenBy})
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-xs text-zinc-500">
+                        {team.judgeCount} judge{team.judgeCount === 1 ? '' : 's'}
+                      </span>
+                      <span className="w-16 text-right font-semibold text-zinc-900">
+                        {team.score !== null ? team.score.toFixed(2) : 'Not scored'}
+                      </span>
+                    </button>
+
+                    {isExpanded && (
+                      <div className="px-4 pb-4 space-y-4 bg-zinc-50">
+                        {team.criteria.length > 0 && (
+                          <div className="space-y-2 pt-3">
+                            {team.criteria.map((criterion) => (
+                              <div key={criterion.criterionId}>
+                                <div className="flex items-center justify-between text-sm mb-1">
+                                  <span className="text-zinc-700">
+                                    {criterion.name}
+                                    <span className="text-xs text-zinc-500 ml-1">×{criterion.weight}</span>
+                                  </span>
+                                  <span className="text-zinc-900">
+                                    {criterion.averagePoints} / {criterion.maxPoints}
+                                    <span className="text-xs text-zinc-500 ml-2">{criterion.percent}%</span>
+                                  </span>
+                                </div>
+                                <div className="h-2 rounded-full bg-zinc-200 overflow-hidden">
+                                  <div
+                                    className={`h-full ${percentColor(criterion.percent)}`}
+                                    style={{ width: `${Math.min(criterion.percent, 100)}%` }}
+                                  />
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        )}
+
+                        {team.judges.length > 0 ? (
+                          <table className="w-full text-sm">
+                            <thead>
+                              <tr className="text-left text-xs text-zinc-500">
+                                <th className="py-1 font-medium">Judge</th>
+                                <th className="py-1 font-medium text-right">Given</th>
+                                {data.scoringMethod === 'normalized' && (
+                                  <th className="py-1 font-medium text-right">Normalized</th>
+                                )}
+                                <th className="py-1 pl-4 font-medium">Comments</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {team.judges.map((judge) => (
+                                <tr key={judge.judgeId} className="border-t border-zinc-200">
+                                  <td className="py-1 text-zinc-900">
+                                    {judge.judgeName || 'Judge'}
+                                    {judge.excluded && (
+                                      <Badge variant="warning" size="sm" className="ml-2">Not counted</Badge>
+                                    )}
+                                  </td>
+                                  <td className="py-1 text-right text-zinc-900">{judge.rawScore.toFixed(2)}</td>
+                                  {data.scoringMethod === 'normalized' && (
+                                    <td className="py-1 text-right text-zinc-900">
+                                      {judge.score !== null ? judge.score.toFixed(2) : '—'}
+                                    </td>
+                                  )}
+                                  <td className="py-1 pl-4 text-zinc-600">{judge.comments || '—'}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        ) : (
+                          <p className="text-sm text-zinc-500 pt-3">No judge has scored this team yet</p>
+                        )}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      )}
+    </Modal>
+  );
+};
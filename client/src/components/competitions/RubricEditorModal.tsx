@@ -0,0 +1,233 @@
+/**
+ * RubricEditorModal Component
+ *
+ * Lets organizers define the judging rubric of a competition:
+ * - Criteria with max points and weight
+ * - Tie-break priority per criterion
+ * - Scoring method (average or judge-normalized)
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Modal, Button } from '../ui';
+import type { Competition, CompetitionRubric, CompetitionCriterion, ScoringMethod } from '../../hooks/useCompetitionsData';
+
+interface RubricEditorModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  competition: Competition | null;
+  onSave: (competitionId: string, rubric: CompetitionRubric) => Promise<{ success: boolean; error?: string }>;
+}
+
+const emptyCriterion = (): CompetitionCriterion => ({
+  name: '',
+  description: '',
+  maxPoints: 10,
+  weight: 1,
+  tieBreakPriority: null,
+});
+
+export const RubricEditorModal: React.FC<RubricEditorModalProps> = ({
+  isOpen,
+  onClose,
+  competition,
+  onSave
+}) => {
+  const [criteria, setCriteria] = useState<CompetitionCriterion[]>([]);
+  const [scoringMethod, setScoringMethod] = useState<ScoringMethod>('average');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  // Load the current rubric when the modal opens
+  useEffect(() => {
+    if (isOpen && competition) {
+      const current = competition.rubric;
+      setCriteria(current?.criteria.length ? current.criteria.map((c) => ({ ...c })) : [emptyCriterion()]);
+      setScoringMethod(current?.scoringMethod || 'average');
+      setError('');
+    }
+  }, [isOpen, competition]);
+
+  const updateCriterion = (index: number, changes: Partial<CompetitionCriterion>) => {
+    setCriteria((prev) => prev.map((c, i) => (i === index ? { ...c, ...changes } : c)));
+  };
+
+  const totalWeight = criteria.reduce((sum, c) => sum + (c.weight || 0), 0);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!competition) return;
+    setError('');
+
+    if (criteria.some((c) => !c.name.trim())) {
+      setError('Every criterion needs a name');
+      return;
+    }
+    if (criteria.some((c) => !c.maxPoints || c.maxPoints < 1)) {
+      setError('Max points must be at least 1');
+      return;
+    }
+    if (totalWeight <= 0) {
+      setError('At least one criterion needs a weight above 0');
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await onSave(competition._id, {
+      criteria: criteria.map((c) => ({ ...c, name: c.name.trim(), description: c.description?.trim() || '' })),
+      scoringMethod,
+    });
+    setIsSaving(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error || 'Failed to save rubric');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Judging Rubric"
+      description={competition?.title}
+      size="xl"
+    >
+      <form onSubmit={handleSubmit} className="space-y-5">
+        <div className="space-y-3">
+          {criteria.map((criterion, index) => (
+            <div key={criterion._id || `new-${index}`} className="border border-zinc-200 rounded-lg p-4 space-y-3">
+              <div className="flex gap-3">
+                <input
+                  className="input flex-1"
+                  placeholder="Criterion name (e.g. Design)"
+                  value={criterion.name}
+                  onChange={(e) => updateCriterion(index, { name: e.target.value })}
+                  maxLength={100}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setCriteria((prev) => prev.filter((_, i) => i !== index))}
+                  disabled={criteria.length === 1}
+                  className="text-red-600 hover:bg-red-50"
+                  aria-label="Remove criterion"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <input
+                className="input"
+                placeholder="What judges should look for (optional)"
+                value={criterion.description || ''}
+                onChange={(e) => updateCriterion(index, { description: e.target.value })}
+                maxLength={500}
+              />
+              <div className="grid grid-cols-3 gap-3">
+                <label className="text-xs text-zinc-600">
+                  Max points
+                  <input
+                    type="number"
+                    min={1}
+                    step={1}
+                    className="input mt-1"
+                    value={criterion.maxPoints}
+                    onChange={(e) => updateCriterion(index, { maxPoints: parseInt(e.target.value, 10) || 0 })}
+                  />
+                </label>
+                <label className="text-xs text-zinc-600">
+                  Weight
+                  <input
+                    type="number"
+                    min={0}
+                    step={0.5}
+                    className="input mt-1"
+                    value={criterion.weight}
+                    onChange={(e) => updateCriterion(index, { weight: parseFloat(e.target.value) || 0 })}
+                  />
+                  {totalWeight > 0 && (
+                    <span className="block mt-1 text-zinc-500">
+                      {Math.round(((criterion.weight || 0) / totalWeight) * 100)}% of the score
+                    </span>
+                  )}
+                </label>
+                <label className="text-xs text-zinc-600">
+                  Tie-break priority
+                  <select
+                    className="select w-full mt-1"
+                    value={criterion.tieBreakPriority ?? ''}
+                    onChange={(e) =>
+                      updateCriterion(index, { tieBreakPriority: e.target.value ? Number(e.target.value) : null })
+                    }
+                  >
+                    <option value="">Not used</option>
+                    {criteria.map((_, priority) => (
+                      <option key={priority} value={priority + 1}>
+                        {priority + 1}
+                      </option>
+                    ))}
+                  </select>
+                </label>
+              </div>
+            </div>
+          ))}
+
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            leftIcon={<Plus className="w-4 h-4" />}
+            onClick={() => setCriteria((prev) => [...prev, emptyCriterion()])}
+          >
+            Add Criterion
+          </Button>
+        </div>
+
+        <div>
+          <p className="text-sm font-medium text-zinc-700 mb-2">Scoring method</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+            {([
+              { value: 'average', label: 'Average', help: "Mean of the judges' weighted scores" },
+              { value: 'normalized', label: 'Normalized', help: "Rescales each judge's scores to the panel average first" },
+            ] as { value: ScoringMethod; label: string; help: string }[]).map((option) => (
+              <label
+                key={option.value}
+                className={`border rounded-lg p-3 cursor-pointer ${
+                  scoringMethod === option.value ? 'border-primary bg-primary/5' : 'border-zinc-200'
+                }`}
+              >
+                <input
+                  type="radio"
+                  name="scoringMethod"
+                  value={option.value}
+                  checked={scoringMethod === option.value}
+                  onChange={() => setScoringMethod(option.value)}
+                  className="mr-2"
+                />
+                <span className="font-medium text-zinc-900">{option.label}</span>
+                <p className="text-xs text-zinc-600 mt-1">{option.help}</p>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-zinc-200">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Save Rubric'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
@@ -0,0 +1,94 @@
+/**
+ * RevenueChart Component
+ *
+ * Lightweight bar chart for revenue rows:
+ * - "column" layout for time series (e.g. by month)
+ * - "bar" layout for ranked categories (e.g. by course or method)
+ *
+ * Each bar shows net revenue, with the refunded part stacked on top.
+ */
+
+import React from 'react';
+import type { RevenueRow } from '../../hooks/useFinanceReports';
+
+interface RevenueChartProps {
+  rows: RevenueRow[];
+  layout?: 'column' | 'bar';
+  formatLabel?: (label: string) => string;
+  formatValue?: (value: number) => string;
+  emptyText?: string;
+}
+
+const CHART_HEIGHT = 160;
+
+export const RevenueChart: React.FC<RevenueChartProps> = ({
+  rows,
+  layout = 'bar',
+  formatLabel = (label) => label,
+  formatValue = (value) => value.toFixed(2),
+  emptyText = 'No revenue in this period',
+}) => {
+  if (rows.length === 0) {
+    return <p className="text-sm text-white/40 py-8 text-center">{emptyText}</p>;
+  }
+
+  const max = Math.max(1, ...rows.map((row) => row.gross));
+
+  if (layout === 'column') {
+    return (
+      <div className="flex items-end gap-3 overflow-x-auto pb-2" style={{ height: CHART_HEIGHT + 48 }}>
+        {rows.map((row) => {
+          const netHeight = Math.round((Math.max(row.net, 0) / max) * CHART_HEIGHT);
+          const refundHeight = Math.round((row.refunds / max) * CHART_HEIGHT);
+
+          return (
+            <div
+              key={row.key ?? row.label}
+              className="flex flex-col items-center min-w-[3rem]"
+              title={`${formatLabel(row.label)}: net ${formatValue(row.net)}, refunds ${formatValue(row.refunds)}`}
+            >
+              <span className="text-xs text-white/60 mb-1">{formatValue(row.net)}</span>
+              <div className="w-8 flex flex-col justify-end" style={{ height: CHART_HEIGHT }}>
+                {refundHeight > 0 && (
+                  <div className="w-full bg-red-400/40 border border-red-400/50 rounded-t" style={{ height: refundHeight }} />
+                )}
+                <div
+                  className={`w-full bg-primary/40 border border-primary/60 ${refundHeight > 0 ? '' : 'rounded-t'}`}
+                  style={{ height: Math.max(netHeight, 2) }}
+                />
+              </div>
+              <span className="text-xs text-white/50 mt-1 whitespace-nowrap">{formatLabel(row.label)}</span>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
+  return (
+    <ul className="space-y-3">
+      {rows.map((row) => {
+        const netWidth = (Math.max(row.net, 0) / max) * 100;
+        const refundWidth = (row.refunds / max) * 100;
+
+        return (
+          <li key={row.key ?? row.label}>
+            <div className="flex items-center justify-between text-sm mb-1">
+              <span className="text-white/80 truncate pr-2">{formatLabel(row.label)}</span>
+              <span className="text-white font-medium whitespace-nowrap">
+                {formatValue(row.net)}
+                {row.refunds > 0 && (
+                  <span className="text-red-300/80 text-xs ml-2">−{formatValue(row.refunds)}</span>
+                )}
+              </span>
+            </div>
+            <div className="flex h-2 rounded-full bg-white/5 overflow-hidden">
+              <div className="bg-primary/60" style={{ width: `${netWidth}%` }} />
+              <div className="bg-red-400/50" style={{ width: `${refundWidth}%` }} />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
@@ -7,7 +7,9 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../../providers';
 import { ROUTES } from '../../shared/constants/routes.constants';
-import { Badge } from '../ui';
+import { Badge, useToast } from '../ui';
+import { useNotifications, type AppNotification } from '../../hooks';
+import { formatRelativeTime } from '../../lib/utils';
 
 interface TopNavProps {
   onMenuClick: () => void;
@@ -25,8 +27,25 @@ export const TopNav: React.FC<TopNavProps> = ({ onMenuClick }) => {
   const [scrolled, setScrolled] = useState(false);
   const location = useLocation();
 
-  // Mock notifications count
-  const unreadNotifications = 3;
+  const toast = useToast();
+  const { notifications, unreadCount, refetch, markAsRead } = useNotifications({
+    onReceive: (notification) => toast[notification.level](notification.title, notification.message),
+  });
+
+  // Latest notifications for the dropdown
+  useEffect(() => {
+    if (user) {
+      refetch({ limit: 5 });
+    }
+  }, [user, refetch]);
+
+  const openNotification = (notification: AppNotification) => {
+    if (!notification.isRead) {
+      markAsRead(notification._id);
+    }
+    navigate(notification.actionUrl || ROUTES.NOTIFICATIONS);
+    setIsNotificationsOpen(false);
+  };
 
   // Handle scroll effect
   useEffect(() => {
@@ -88,11 +107,8 @@ export const TopNav: React.FC<TopNavProps> = ({ onMenuClick }) => {
 
           {/* Right section: Notifications and User Menu */}
           <div className="flex items-center gap-2">
-            {/* ========================================
-                COMING SOON: Notifications Feature
-                ======================================== */}
             {/* Notifications with Dropdown */}
-            {/* <div className="relative" data-notifications-menu>
+            <div className="relative" data-notifications-menu>
               <motion.button
                 whileHover={{ scale: 1.05 }}
                 whileTap={{ scale: 0.95 }}
@@ -109,16 +125,16 @@ export const TopNav: React.FC<TopNavProps> = ({ onMenuClick }) => {
               >
                 <Bell className="h-5 w-5" />
 
-                {unreadNotifications > 0 && (
+                {unreadCount > 0 && (
                   <motion.div
                     initial={{ scale: 0 }}
                     animate={{ scale: 1 }}
-                    className="absolute -top-1 -right-1 w-5 h-5 bg-red-500 rounded-full
+                    className="absolute -top-1 -right-1 min-w-5 h-5 px-1 bg-red-500 rounded-full
                                flex items-center justify-center border-2 border-white
                                shadow-md"
                   >
                     <span className="text-[10px] font-bold text-white">
-                      {unreadNotifications}
+                      {unreadCount > 99 ? '99+' : unreadCount}
                     </span>
                   </motion.div>
                 )}
@@ -138,37 +154,50 @@ export const TopNav: React.FC<TopNavProps> = ({ onMenuClick }) => {
                     <div className="px-4 py-3 border-b border-primary/10 bg-gradient-to-r from-primary/5 to-transparent">
                       <div className="flex items-center justify-between">
                         <h3 className="text-sm font-bold text-[#003300]">Notifications</h3>
-                        <Badge variant="primary" size="sm">{unreadNotifications} New</Badge>
+                        {unreadCount > 0 && (
+                          <Badge variant="primary" size="sm">{unreadCount} New</Badge>
+                        )}
                       </div>
                     </div>
 
                     <div className="max-h-96 overflow-y-auto">
-                      {[1, 2, 3].map((i) => (
-                        <motion.div
-                          key={i}
-                          whileHover={{ backgroundColor: 'rgba(0, 51, 0, 0.03)' }}
-                          className="px-4 py-3 border-b border-primary/5 cursor-pointer transition-colors"
-                          onClick={() => {
-                            navigate('/notifications');
-                            setIsNotificationsOpen(false);
-                          }}
-                        >
-                          <div className="flex gap-3">
-                            <div className="w-2 h-2 bg-primary rounded-full mt-1.5 flex-shrink-0" />
-                            <div className="flex-1 min-w-0">
-                              <p className="text-sm text-[#003300] font-medium">New order received</p>
-                              <p className="text-xs text-[#003300]/60 mt-0.5">Order #123{i} needs attention</p>
-                              <p className="text-xs text-[#003300]/40 mt-1">{i}h ago</p>
+                      {notifications.length === 0 ? (
+                        <p className="px-4 py-6 text-sm text-center text-[#003300]/50">
+                          You're all caught up!
+                        </p>
+                      ) : (
+                        notifications.map((notification) => (
+                          <motion.div
+                            key={notification._id}
+                            whileHover={{ backgroundColor: 'rgba(0, 51, 0, 0.03)' }}
+                            className="px-4 py-3 border-b border-primary/5 cursor-pointer transition-colors"
+                            onClick={() => openNotification(notification)}
+                          >
+                            <div className="flex gap-3">
+                              <div
+                                className={`w-2 h-2 rounded-full mt-1.5 flex-shrink-0 ${
+                                  notification.isRead ? 'bg-transparent' : 'bg-primary'
+                                }`}
+                              />
+                              <div className="flex-1 min-w-0">
+                                <p className="text-sm text-[#003300] font-medium">{notification.title}</p>
+                                {notification.message && (
+                                  <p className="text-xs text-[#003300]/60 mt-0.5 line-clamp-2">{notification.message}</p>
+                                )}
+                                <p className="text-xs text-[#003300]/40 mt-1">
+                                  {formatRelativeTime(notification.createdAt)}
+                                </p>
+                              </div>
                             </div>
-                          </div>
-                        </motion.div>
-                      ))}
+                          </motion.div>
+                        ))
+                      )}
                     </div>
 
                     <motion.button
                       whileHover={{ backgroundColor: 'rgba(0, 51, 0, 0.05)' }}
                       onClick={() => {
-                        navigate('/notifications');
+                        navigate(ROUTES.NOTIFICATIONS);
                         setIsNotificationsOpen(false);
                       }}
                       className="w-full px-4 py-3 text-sm font-medium text-primary
@@ -179,7 +208,7 @@ export const TopNav: React.FC<TopNavProps> = ({ onMenuClick }) => {
                   </motion.div>
                 )}
               </AnimatePresence>
-            </div> */}
+            </div>
 
             {/* User Menu */}
             <div className="relative" data-user-menu>
@@ -1,6 +1,7 @@
 import React, { useState, useRef } from 'react';
 import { X, Upload, Image as ImageIcon, Save, Loader } from 'lucide-react';
 import { api } from '../../lib/api';
+import { useSuppliers } from '../../hooks';
 
 interface Part {
   _id?: string;
@@ -10,6 +11,12 @@ interface Part {
   sku: string;
   group?: string;
   partNumber?: string;
+  reorderPoint?: number;
+  reorderQty?: number;
+  supplierId?: string | null;
+  leadTimeDays?: number | null;
+  loanable?: boolean;
+  serialNumbers?: string[];
 }
 
 interface PartFormModalProps {
@@ -35,8 +42,15 @@ export const PartFormModal: React.FC<PartFormModalProps> = ({
     sku: part?.sku || '',
     group: part?.group || '',
     partNumber: (part as any)?.partNumber || '',
+    reorderPoint: String(part?.reorderPoint ?? 0),
+    reorderQty: String(part?.reorderQty ?? 0),
+    supplierId: part?.supplierId || '',
+    leadTimeDays: part?.leadTimeDays != null ? String(part.leadTimeDays) : '',
+    loanable: part?.loanable ?? false,
+    serialNumbers: (part?.serialNumbers || []).join('\n'),
   });
 
+  const { suppliers } = useSuppliers(true);
   const [customCategory, setCustomCategory] = useState('');
   const [showCustomCategory, setShowCustomCategory] = useState(false);
 
@@ -175,6 +189,12 @@ export const PartFormModal: React.FC<PartFormModalProps> = ({
         newErrors.partNumber = 'Part Number is required for Lego parts';
       }
     }
+
+    for (const field of ['reorderPoint', 'reorderQty', 'leadTimeDays'] as const) {
+      if (formData[field] !== '' && !/^\d+$/.test(formData[field])) {
+        newErrors[field] = 'Enter a whole number of 0 or more';
+      }
+    }
     
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
@@ -189,12 +209,22 @@ export const PartFormModal: React.FC<PartFormModalProps> = ({
     }
 
     setLoading(true);
-    
+
+    const payload = {
+      ...formData,
+      reorderPoint: parseInt(formData.reorderPoint, 10) || 0,
+      reorderQty: parseInt(formData.reorderQty, 10) || 0,
+      leadTimeDays: formData.leadTimeDays === '' ? null : parseInt(formData.leadTimeDays, 10),
+      supplierId: formData.supplierId || null,
+      // One serial number per line (or comma separated)
+      serialNumbers: [...new Set(formData.serialNumbers.split(/[\n,]/).map((s) => s.trim()).filter(Boolean))],
+    };
+
     try {
       if (isEditing) {
         let savedPart;
         // Update existing part
-        const response = await api.put(`/parts/${part._id}`, formData);
+        const response = await api.put(`/parts/${part._id}`, payload);
         savedPart = response.data;
         // If images selected in edit, upload all to this part
         if (selectedImages.length && savedPart) {
@@ -218,7 +248,7 @@ export const PartFormModal: React.FC<PartFormModalProps> = ({
         if (selectedImages.length > 0) {
           for (const file of selectedImages) {
             try {
-              const createRes = await api.post('/parts', formData);
+              const createRes = await api.post('/parts', payload);
               const createdPart = createRes.data;
               const imageFormData = new FormData();
               imageFormData.append('image', file);
@@ -238,7 +268,7 @@ export const PartFormModal: React.FC<PartFormModalProps> = ({
           }
         } else {
           // No images: create single part
-          await api.post('/parts', formData);
+          await api.post('/parts', payload);
         }
       }
 
@@ -486,6 +516,98 @@ export const PartFormModal: React.FC<PartFormModalProps> = ({
                 placeholder="Enter part description..."
               />
             </div>
+
+            {/* Replenishment */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-300 mb-1">Replenishment</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                When available stock drops below the reorder point, admins are alerted and a
+                purchase requisition for the reorder quantity is raised. Leave the point at 0 to
+                turn this off.
+              </p>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Reorder Point</label>
+                  <input
+                    type="number"
+                    min={0}
+                    className={`input w-full ${errors.reorderPoint ? 'border-red-500' : ''}`}
+                    value={formData.reorderPoint}
+                    onChange={(e) => handleInputChange('reorderPoint', e.target.value)}
+                  />
+                  {errors.reorderPoint && (
+                    <p className="text-red-400 text-sm mt-1">{errors.reorderPoint}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Reorder Qty</label>
+                  <input
+                    type="number"
+                    min={0}
+                    className={`input w-full ${errors.reorderQty ? 'border-red-500' : ''}`}
+                    value={formData.reorderQty}
+                    onChange={(e) => handleInputChange('reorderQty', e.target.value)}
+                  />
+                  {errors.reorderQty && (
+                    <p className="text-red-400 text-sm mt-1">{errors.reorderQty}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Lead Time (days)</label>
+                  <input
+                    type="number"
+                    min={0}
+                    className={`input w-full ${errors.leadTimeDays ? 'border-red-500' : ''}`}
+                    value={formData.leadTimeDays}
+                    onChange={(e) => handleInputChange('leadTimeDays', e.target.value)}
+                  />
+                  {errors.leadTimeDays && (
+                    <p className="text-red-400 text-sm mt-1">{errors.leadTimeDays}</p>
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Preferred Supplier</label>
+                  <select
+                    className="select w-full"
+                    value={formData.supplierId}
+                    onChange={(e) => handleInputChange('supplierId', e.target.value)}
+                  >
+                    <option value="">None</option>
+                    {suppliers.map((supplier) => (
+                      <option key={supplier._id} value={supplier._id}>{supplier.name}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+            </div>
+
+            {/* Equipment Loans */}
+            <div>
+              <h3 className="text-sm font-semibold text-gray-300 mb-1">Equipment Loans</h3>
+              <p className="text-xs text-gray-500 mb-3">
+                Reusable kits and tools can be checked out to students, teams and groups. Add serial
+                numbers to lend units individually; without them the part is lent by quantity.
+              </p>
+              <label className="flex items-center gap-2 text-sm text-gray-300 mb-3">
+                <input
+                  type="checkbox"
+                  checked={formData.loanable}
+                  onChange={(e) => handleInputChange('loanable', e.target.checked)}
+                />
+                Can be lent out
+              </label>
+              {formData.loanable && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Serial Numbers</label>
+                  <textarea
+                    className="input w-full h-24 resize-none font-mono"
+                    value={formData.serialNumbers}
+                    onChange={(e) => handleInputChange('serialNumbers', e.target.value)}
+                    placeholder="One per line, e.g. ARD-0001"
+                  />
+                </div>
+              )}
+            </div>
           </div>
 
           {/* Action Buttons */}
@@ -0,0 +1,223 @@
+/**
+ * PartsImportModal Component
+ *
+ * Bulk edit of the parts catalog through a spreadsheet: export the
+ * current parts with stock counts, edit the sheet, then preview what an
+ * import would create and update before applying it.
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Download, FileSpreadsheet, Upload } from 'lucide-react';
+import { Modal, Button, Badge } from '../ui';
+import { usePartsSheet, type ImportAction, type ImportResult, type ImportRow } from '../../hooks';
+
+interface PartsImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Called after an import was applied */
+  onImported: (result: ImportResult) => void;
+}
+
+const ACTION_VARIANTS: Record<ImportAction, 'success' | 'info' | 'default' | 'error'> = {
+  create: 'success',
+  update: 'info',
+  unchanged: 'default',
+  error: 'error',
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  sku: 'SKU',
+  name: 'Name',
+  category: 'Category',
+  group: 'Group',
+  partNumber: 'Part Number',
+  description: 'Description',
+  reorderPoint: 'Reorder Point',
+  reorderQty: 'Reorder Qty',
+  supplierId: 'Supplier',
+  leadTimeDays: 'Lead Time',
+  loanable: 'Loanable',
+  serialNumbers: 'Serial Numbers',
+};
+
+const describeRow = (row: ImportRow) => {
+  if (row.action === 'error') return row.errors.join('; ');
+  const fields = Object.keys(row.changes)
+    .filter((key) => row.action !== 'create' || key !== 'sku')
+    .map((key) => FIELD_LABELS[key] || key);
+  if (row.stock) fields.push(`On hand ${row.stock.from} → ${row.stock.to}`);
+  return fields.join(', ') || '-';
+};
+
+export const PartsImportModal: React.FC<PartsImportModalProps> = ({ isOpen, onClose, onImported }) => {
+  const { exportParts, preview, commit } = usePartsSheet();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setFile(null);
+    setResult(null);
+    setShowUnchanged(false);
+    setError('');
+  }, [isOpen]);
+
+  const handleExport = async (format: 'csv' | 'xlsx') => {
+    setError('');
+    const response = await exportParts(format);
+    if (!response.success) setError(response.error || 'Failed to export parts');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    e.target.value = '';
+    if (!chosen) return;
+
+    setFile(chosen);
+    setResult(null);
+    setError('');
+    setIsWorking(true);
+    const response = await preview(chosen);
+    setIsWorking(false);
+
+    if (response.success && response.result) {
+      setResult(response.result);
+    } else {
+      setError(response.error || 'Failed to read the sheet');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file) return;
+    setError('');
+    setIsWorking(true);
+    const response = await commit(file);
+    setIsWorking(false);
+
+    if (response.success && response.result) {
+      onImported(response.result);
+      onClose();
+    } else {
+      setError(response.error || 'Failed to import parts');
+    }
+  };
+
+  const summary = result?.summary;
+  const pending = summary ? summary.create + summary.update : 0;
+  const rows = result?.rows.filter((row) => showUnchanged || row.action !== 'unchanged') || [];
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Import Parts"
+      description="Create and update parts from a CSV or XLSX sheet, matched by SKU"
+      size="xl"
+    >
+      <div className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3 p-4 bg-zinc-50 border border-zinc-200 rounded-lg">
+          <p className="text-sm text-zinc-600">
+            Start from the current catalog; blank cells leave a part's field as it is.
+          </p>
+          <div className="flex gap-2">
+            <Button type="button" variant="ghost" size="sm" leftIcon={<Download className="w-4 h-4" />} onClick={() => handleExport('xlsx')}>
+              XLSX
+            </Button>
+            <Button type="button" variant="ghost" size="sm" leftIcon={<Download className="w-4 h-4" />} onClick={() => handleExport('csv')}>
+              CSV
+            </Button>
+          </div>
+        </div>
+
+        <div>
+          <input ref={fileInputRef} type="file" accept=".csv,.xlsx" className="hidden" onChange={handleFile} />
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isWorking}
+            className="w-full flex items-center justify-center gap-2 px-4 py-6 border-2 border-dashed border-zinc-300 rounded-lg text-zinc-600 hover:border-primary hover:text-primary transition-colors"
+          >
+            <FileSpreadsheet className="w-5 h-5" />
+            {file ? file.name : 'Choose a sheet to preview'}
+          </button>
+        </div>
+
+        {isWorking && !result && <p className="text-sm text-zinc-500">Reading sheet...</p>}
+
+        {summary && (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <Badge variant="success" size="sm">{summary.create} new</Badge>
+              <Badge variant="info" size="sm">{summary.update} updated</Badge>
+              <Badge variant="default" size="sm">{summary.unchanged} unchanged</Badge>
+              {summary.error > 0 && <Badge variant="error" size="sm">{summary.error} with errors</Badge>}
+              <label className="ml-auto flex items-center gap-2 text-zinc-600">
+                <input type="checkbox" checked={showUnchanged} onChange={(e) => setShowUnchanged(e.target.checked)} />
+                Show unchanged
+              </label>
+            </div>
+
+            <div className="max-h-80 overflow-y-auto border border-zinc-200 rounded-lg">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-zinc-50">
+                  <tr className="text-left text-zinc-500 border-b border-zinc-200">
+                    <th className="py-2 px-3 font-medium">Row</th>
+                    <th className="py-2 px-3 font-medium">SKU</th>
+                    <th className="py-2 px-3 font-medium">Part</th>
+                    <th className="py-2 px-3 font-medium">Action</th>
+                    <th className="py-2 px-3 font-medium">Changes</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.line} className="border-b border-zinc-100 align-top">
+                      <td className="py-2 px-3 text-zinc-500">{row.line}</td>
+                      <td className="py-2 px-3 font-mono text-zinc-700">{row.sku || '-'}</td>
+                      <td className="py-2 px-3 text-zinc-900">{row.name || '-'}</td>
+                      <td className="py-2 px-3">
+                        <Badge variant={ACTION_VARIANTS[row.action]} size="sm">{row.action}</Badge>
+                      </td>
+                      <td className={`py-2 px-3 ${row.action === 'error' ? 'text-red-600' : 'text-zinc-600'}`}>
+                        {describeRow(row)}
+                      </td>
+                    </tr>
+                  ))}
+                  {rows.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="py-4 text-center text-zinc-500">Nothing would change.</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-zinc-200">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isWorking}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            variant="primary"
+            leftIcon={<Upload className="w-4 h-4" />}
+            onClick={handleImport}
+            disabled={isWorking || !summary || summary.error > 0 || pending === 0}
+          >
+            {isWorking && result ? 'Importing...' : `Import ${pending} part${pending === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
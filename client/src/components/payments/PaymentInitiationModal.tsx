@@ -1,7 +1,8 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, DollarSign, CreditCard, Wallet, AlertCircle } from 'lucide-react';
+import { X, DollarSign, Wallet, Landmark, FileCheck, AlertCircle } from 'lucide-react';
 import { Button, Input, Alert } from '../ui';
+import type { VerifiablePaymentMethod } from '../../hooks/usePayments';
 
 interface PaymentInitiationModalProps {
   isOpen: boolean;
@@ -15,16 +16,15 @@ interface PaymentInitiationModalProps {
 export interface PaymentData {
   enrollmentId: string;
   amount: number;
-  paymentMethod: 'cash' | 'card' | 'bank_transfer' | 'sham_cash_app' | 'online';
+  paymentMethod: VerifiablePaymentMethod;
   installmentNumber?: number;
 }
 
-const paymentMethods = [
-  { value: 'cash', label: 'Cash', icon: DollarSign, description: 'Pay with cash at reception' },
-  { value: 'sham_cash_app', label: 'Sham Cash App', icon: Wallet, description: 'Pay via Sham Cash App' },
-  { value: 'card', label: 'Credit/Debit Card', icon: CreditCard, description: 'Pay online with card' },
-  { value: 'bank_transfer', label: 'Bank Transfer', icon: Wallet, description: 'Direct bank transfer' },
-  { value: 'online', label: 'Online Payment', icon: CreditCard, description: 'Pay online' },
+// Cash and card payments are taken at the reception desk
+const paymentMethods: { value: VerifiablePaymentMethod; label: string; icon: typeof Wallet; description: string }[] = [
+  { value: 'sham_cash_app', label: 'Sham Cash App', icon: Wallet, description: 'Pay via Sham Cash App and upload a screenshot' },
+  { value: 'bank_transfer', label: 'Bank Transfer', icon: Landmark, description: 'Direct bank transfer with its reference' },
+  { value: 'check', label: 'Check', icon: FileCheck, description: 'Upload a photo of the check' },
 ];
 
 export default function PaymentInitiationModal({
@@ -36,7 +36,7 @@ export default function PaymentInitiationModal({
   courseName
 }: PaymentInitiationModalProps) {
   const [amount, setAmount] = useState<string>('');
-  const [paymentMethod, setPaymentMethod] = useState<'cash' | 'card' | 'bank_transfer' | 'sham_cash_app' | 'online'>('cash');
+  const [paymentMethod, setPaymentMethod] = useState<VerifiablePaymentMethod>('sham_cash_app');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -67,7 +67,7 @@ export default function PaymentInitiationModal({
 
       // Reset form
       setAmount('');
-      setPaymentMethod('cash');
+      setPaymentMethod('sham_cash_app');
       onClose();
     } catch (err: any) {
       setError(err.message || 'Failed to initiate payment');
@@ -79,7 +79,7 @@ export default function PaymentInitiationModal({
   const handleClose = () => {
     if (!isSubmitting) {
       setAmount('');
-      setPaymentMethod('cash');
+      setPaymentMethod('sham_cash_app');
       setError(null);
       onClose();
     }
@@ -188,7 +188,7 @@ export default function PaymentInitiationModal({
                         <button
                           key={method.value}
                           type="button"
-                          onClick={() => setPaymentMethod(method.value as any)}
+                          onClick={() => setPaymentMethod(method.value)}
                           disabled={isSubmitting}
                           className={`w-full flex items-start gap-4 p-4 rounded-xl border-2 transition-all
                             ${isSelected
@@ -224,11 +224,10 @@ export default function PaymentInitiationModal({
                     <div className="text-sm text-blue-900">
                       <p className="font-medium mb-1">Important Information:</p>
                       <ul className="space-y-1 list-disc list-inside text-blue-800">
-                        <li>Payment will be marked as pending until confirmed by reception</li>
-                        <li>You will receive a receipt after payment confirmation</li>
-                        {paymentMethod === 'cash' && (
-                          <li>Please visit the reception desk to complete your payment</li>
-                        )}
+                        <li>After paying, submit your proof (screenshot, photo or transfer reference)</li>
+                        <li>Reception verifies the proof before the payment is applied</li>
+                        <li>You will receive a receipt once the payment is approved</li>
+                        <li>To pay by cash or card, please visit the reception desk</li>
                       </ul>
                     </div>
                   </div>
@@ -1,47 +1,67 @@
 import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { X, CheckCircle, AlertCircle, Hash } from 'lucide-react';
-import { Button, Input, Alert } from '../ui';
+import { X, Upload, AlertCircle, Hash, FileText } from 'lucide-react';
+import { Button, Alert } from '../ui';
+import type { PaymentProofData } from '../../hooks/usePayments';
 
-interface PaymentConfirmationModalProps {
+interface PaymentProofModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onConfirm: (paymentId: string, transactionId: string) => Promise<void>;
+  onSubmit: (paymentId: string, proof: PaymentProofData) => Promise<void>;
   paymentId: string;
   amount: number;
   paymentMethod: string;
+  /** Reason the previous proof was rejected, if resubmitting */
+  rejectionReason?: string | null;
 }
 
-export default function PaymentConfirmationModal({
+const MAX_FILE_SIZE = 5 * 1024 * 1024;
+const ACCEPTED_TYPES = '.jpg,.jpeg,.png,.webp,.pdf';
+
+export default function PaymentProofModal({
   isOpen,
   onClose,
-  onConfirm,
+  onSubmit,
   paymentId,
   amount,
-  paymentMethod
-}: PaymentConfirmationModalProps) {
-  const [transactionId, setTransactionId] = useState('');
+  paymentMethod,
+  rejectionReason
+}: PaymentProofModalProps) {
+  const [reference, setReference] = useState('');
+  const [file, setFile] = useState<File | null>(null);
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0] || null;
+    if (selected && selected.size > MAX_FILE_SIZE) {
+      setError('File must be 5MB or smaller');
+      e.target.value = '';
+      return;
+    }
+    setError(null);
+    setFile(selected);
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
 
-    if (!transactionId.trim()) {
-      setError('Please enter a transaction ID');
+    if (!file && !reference.trim()) {
+      setError('Please upload a proof file or enter a transfer reference');
       return;
     }
 
     try {
       setIsSubmitting(true);
-      await onConfirm(paymentId, transactionId.trim());
+      await onSubmit(paymentId, { reference: reference.trim(), file });
 
       // Reset form
-      setTransactionId('');
+      setReference('');
+      setFile(null);
       onClose();
-    } catch (err: any) {
-      setError(err.message || 'Failed to confirm payment');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to submit payment proof');
     } finally {
       setIsSubmitting(false);
     }
@@ -49,7 +69,8 @@ export default function PaymentConfirmationModal({
 
   const handleClose = () => {
     if (!isSubmitting) {
-      setTransactionId('');
+      setReference('');
+      setFile(null);
       setError(null);
       onClose();
     }
@@ -61,6 +82,7 @@ export default function PaymentConfirmationModal({
       case 'cash': return 'Cash';
       case 'bank_transfer': return 'Bank Transfer';
       case 'sham_cash_app': return 'Sham Cash App';
+      case 'check': return 'Check';
       case 'online': return 'Online Payment';
       default: return paymentMethod;
     }
@@ -93,11 +115,11 @@ export default function PaymentConfirmationModal({
               <div className="border-b border-gray-200 px-6 py-4 flex items-center justify-between rounded-t-2xl">
                 <div className="flex items-center gap-3">
                   <div className="p-2 bg-green-100 rounded-lg">
-                    <CheckCircle className="w-6 h-6 text-green-600" />
+                    <Upload className="w-6 h-6 text-green-600" />
                   </div>
                   <div>
-                    <h2 className="text-xl font-bold text-gray-900">Confirm Payment</h2>
-                    <p className="text-sm text-gray-600">Verify payment details</p>
+                    <h2 className="text-xl font-bold text-gray-900">Submit Payment Proof</h2>
+                    <p className="text-sm text-gray-600">Reception will verify your payment</p>
                   </div>
                 </div>
                 <button
@@ -127,6 +149,16 @@ export default function PaymentConfirmationModal({
                   </div>
                 </div>
 
+                {/* Previous Rejection */}
+                {rejectionReason && (
+                  <Alert variant="warning">
+                    <div className="text-sm">
+                      <p className="font-medium">Your previous proof was rejected</p>
+                      <p>{rejectionReason}</p>
+                    </div>
+                  </Alert>
+                )}
+
                 {/* Error Alert */}
                 {error && (
                   <Alert variant="error">
@@ -137,10 +169,37 @@ export default function PaymentConfirmationModal({
                   </Alert>
                 )}
 
-                {/* Transaction ID Input */}
+                {/* Proof File */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    Screenshot or Photo
+                  </label>
+                  <label
+                    className={`flex items-center gap-3 w-full px-4 py-3 border-2 border-dashed rounded-lg cursor-pointer transition-colors
+                      ${file ? 'border-primary bg-primary/5' : 'border-gray-300 hover:border-gray-400'}`}
+                  >
+                    {file ? (
+                      <FileText className="w-5 h-5 text-primary flex-shrink-0" />
+                    ) : (
+                      <Upload className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                    )}
+                    <span className={`text-sm truncate ${file ? 'text-gray-900' : 'text-gray-500'}`}>
+                      {file ? file.name : 'Choose an image or PDF (max 5MB)'}
+                    </span>
+                    <input
+                      type="file"
+                      accept={ACCEPTED_TYPES}
+                      onChange={handleFileChange}
+                      className="hidden"
+                      disabled={isSubmitting}
+                    />
+                  </label>
+                </div>
+
+                {/* Reference Input */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-2">
-                    Transaction ID / Reference Number *
+                    Transaction ID / Reference Number
                   </label>
                   <div className="relative">
                     <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
@@ -148,18 +207,18 @@ export default function PaymentConfirmationModal({
                     </div>
                     <input
                       type="text"
-                      value={transactionId}
-                      onChange={(e) => setTransactionId(e.target.value)}
-                      placeholder="Enter transaction ID"
+                      value={reference}
+                      onChange={(e) => setReference(e.target.value)}
+                      placeholder="Enter transfer reference"
+                      maxLength={200}
                       className="block w-full pl-11 pr-4 py-3 border border-gray-300 rounded-lg
                                 focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent
                                 bg-white text-gray-900"
-                      required
                       disabled={isSubmitting}
                     />
                   </div>
                   <p className="mt-2 text-xs text-gray-500">
-                    Enter the transaction ID from your payment receipt or bank statement
+                    Provide a file, a reference, or both
                   </p>
                 </div>
 
@@ -170,10 +229,7 @@ export default function PaymentConfirmationModal({
                     <div className="text-sm text-blue-900">
                       <p className="font-medium mb-1">Payment Verification:</p>
                       <p className="text-blue-800">
-                        {paymentMethod === 'cash'
-                          ? 'Your payment will be verified by reception staff. Please keep your cash receipt for reference.'
-                          : 'This transaction ID will be used to verify your payment. Please ensure it matches your bank statement.'
-                        }
+                        Your balance is updated and a receipt is issued only after reception approves this proof.
                       </p>
                     </div>
                   </div>
@@ -196,7 +252,7 @@ export default function PaymentConfirmationModal({
                     disabled={isSubmitting}
                     className="flex-1"
                   >
-                    {isSubmitting ? 'Confirming...' : 'Confirm Payment'}
+                    {isSubmitting ? 'Submitting...' : 'Submit Proof'}
                   </Button>
                 </div>
               </form>
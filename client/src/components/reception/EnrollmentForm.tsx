@@ -5,7 +5,7 @@
  * - Step 1: Select student
  * - Step 2: Select course
  * - Step 3: Select group (optional)
- * - Step 4: Set payment plan
+ * - Step 4: Set payment plan (down payment + installment schedule)
  * - Form validation and error handling
  *
  * UPDATED: Light mode with brand colors (dark green & cream)
@@ -37,7 +37,10 @@ interface FormData {
   courseId: string;
   groupId: string;
   totalAmount: string;
+  downPayment: string;
   numberOfInstallments: string;
+  intervalMonths: string;
+  startDate: string;
   notes: string;
 }
 
@@ -48,9 +51,82 @@ interface FormErrors {
   studentId?: string;
   courseId?: string;
   totalAmount?: string;
+  downPayment?: string;
   numberOfInstallments?: string;
 }
 
+/**
+ * Installment preview row
+ */
+interface ScheduleRow {
+  label: string;
+  amount: number;
+  dueDate: Date;
+}
+
+const INSTALLMENT_OPTIONS = [1, 2, 3, 4, 6, 9, 12, 18, 24];
+
+const INTERVAL_OPTIONS = [
+  { value: '1', label: 'Monthly' },
+  { value: '2', label: 'Every 2 months' },
+  { value: '3', label: 'Quarterly' },
+];
+
+/**
+ * Today's date as yyyy-mm-dd for date inputs
+ */
+const todayInputValue = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Add months to a date, clamping to the last day of the target month
+ */
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date);
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+};
+
+/**
+ * Preview the schedule the server will generate:
+ * down payment on the start date, then equal installments every interval
+ * with rounding leftovers on the last one
+ */
+const buildSchedulePreview = (
+  total: number,
+  downPayment: number,
+  count: number,
+  intervalMonths: number,
+  startDate: Date
+): ScheduleRow[] => {
+  const rows: ScheduleRow[] = [];
+  const down = Math.min(Math.round(downPayment * 100) / 100, total);
+
+  if (down > 0) {
+    rows.push({ label: 'Down payment', amount: down, dueDate: startDate });
+  }
+
+  const remaining = Math.round((total - down) * 100) / 100;
+  if (remaining <= 0) return rows;
+
+  const regular = Math.floor((remaining / count) * 100) / 100;
+  const offset = down > 0 ? 1 : 0;
+
+  for (let i = 0; i < count; i++) {
+    const isLast = i === count - 1;
+    rows.push({
+      label: count > 1 ? `Installment ${i + 1} of ${count}` : 'Full payment',
+      amount: isLast ? Math.round((remaining - regular * (count - 1)) * 100) / 100 : regular,
+      dueDate: addMonths(startDate, (i + offset) * intervalMonths),
+    });
+  }
+
+  return rows;
+};
+
 /**
  * EnrollmentForm Component
  */
@@ -70,7 +146,10 @@ export const EnrollmentForm: React.FC<EnrollmentFormProps> = ({
     courseId: '',
     groupId: '',
     totalAmount: '',
+    downPayment: '',
     numberOfInstallments: '1',
+    intervalMonths: '1',
+    startDate: todayInputValue(),
     notes: '',
   });
 
@@ -93,7 +172,10 @@ export const EnrollmentForm: React.FC<EnrollmentFormProps> = ({
         courseId: '',
         groupId: '',
         totalAmount: '',
+        downPayment: '',
         numberOfInstallments: '1',
+        intervalMonths: '1',
+        startDate: todayInputValue(),
         notes: '',
       });
       setErrors({});
@@ -143,9 +225,13 @@ export const EnrollmentForm: React.FC<EnrollmentFormProps> = ({
       if (!formData.totalAmount || parseFloat(formData.totalAmount) <= 0) {
         newErrors.totalAmount = 'Please enter a valid amount';
       }
+      const downPayment = parseFloat(formData.downPayment || '0');
+      if (isNaN(downPayment) || downPayment < 0 || downPayment > parseFloat(formData.totalAmount)) {
+        newErrors.downPayment = 'Down payment must be between 0 and the total amount';
+      }
       const installments = parseInt(formData.numberOfInstallments);
-      if (!installments || installments < 1 || installments > 12) {
-        newErrors.numberOfInstallments = 'Number of installments must be between 1 and 12';
+      if (!installments || installments < 1 || installments > 24) {
+        newErrors.numberOfInstallments = 'Number of installments must be between 1 and 24';
       }
     }
 
@@ -202,8 +288,10 @@ export const EnrollmentForm: React.FC<EnrollmentFormProps> = ({
         groupId: formData.groupId || undefined,
         totalAmount: parseFloat(formData.totalAmount),
         installmentPlan: {
+          downPayment: parseFloat(formData.downPayment || '0'),
           numberOfInstallments: parseInt(formData.numberOfInstallments),
-          startDate: new Date().toISOString(),
+          intervalMonths: parseInt(formData.intervalMonths),
+          startDate: new Date(formData.startDate || todayInputValue()).toISOString(),
         },
         notes: formData.notes || undefined,
       };
@@ -433,44 +521,114 @@ export const EnrollmentForm: React.FC<EnrollmentFormProps> = ({
               )}
             </div>
 
-            {/* Number of Installments */}
+            {/* Down Payment */}
             <div>
-              <label htmlFor="numberOfInstallments" className="block text-sm font-medium text-[#003300] mb-2">
-                Number of Installments <span className="text-red-400">*</span>
+              <label htmlFor="downPayment" className="block text-sm font-medium text-[#003300] mb-2">
+                Down Payment <span className="text-[#003300]/50 text-xs">(Optional, due on the start date)</span>
               </label>
-              <select
-                id="numberOfInstallments"
-                name="numberOfInstallments"
-                value={formData.numberOfInstallments}
+              <Input
+                id="downPayment"
+                name="downPayment"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formData.downPayment}
                 onChange={handleChange}
+                placeholder="0.00"
                 disabled={isSubmitting}
-                className={`w-full px-4 py-2 rounded-lg bg-white border ${
-                  errors.numberOfInstallments ? 'border-red-500' : 'border-primary/20'
-                } text-[#003300] focus:outline-none focus:border-primary/50 focus:ring-2 focus:ring-primary/20 transition-colors`}
-              >
-                <option value="1">1 - Full payment</option>
-                <option value="2">2 - Bi-monthly</option>
-                <option value="3">3 - Quarterly</option>
-                <option value="4">4 - Every 3 months</option>
-                <option value="6">6 - Bi-monthly</option>
-                <option value="12">12 - Monthly</option>
-              </select>
-              {errors.numberOfInstallments && (
-                <p className="text-red-400 text-sm mt-1">{errors.numberOfInstallments}</p>
+                className={errors.downPayment ? 'border-red-500' : ''}
+              />
+              {errors.downPayment && (
+                <p className="text-red-400 text-sm mt-1">{errors.downPayment}</p>
               )}
             </div>
 
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {/* Number of Installments */}
+              <div>
+                <label htmlFor="numberOfInstallments" className="block text-sm font-medium text-[#003300] mb-2">
+                  Installments <span className="text-red-400">*</span>
+                </label>
+                <select
+                  id="numberOfInstallments"
+                  name="numberOfInstallments"
+                  value={formData.numberOfInstallments}
+                  onChange={handleChange}
+                  disabled={isSubmitting}
+                  className={`w-full px-4 py-2 rounded-lg bg-white border ${
+                    errors.numberOfInstallments ? 'border-red-500' : 'border-primary/20'
+                  } text-[#003300] focus:outline-none focus:border-primary/50 focus:ring-2 focus:ring-primary/20 transition-colors`}
+                >
+                  {INSTALLMENT_OPTIONS.map((count) => (
+                    <option key={count} value={count}>
+                      {count === 1 ? '1 - Single payment' : `${count} installments`}
+                    </option>
+                  ))}
+                </select>
+                {errors.numberOfInstallments && (
+                  <p className="text-red-400 text-sm mt-1">{errors.numberOfInstallments}</p>
+                )}
+              </div>
+
+              {/* Interval */}
+              <div>
+                <label htmlFor="intervalMonths" className="block text-sm font-medium text-[#003300] mb-2">
+                  Frequency
+                </label>
+                <select
+                  id="intervalMonths"
+                  name="intervalMonths"
+                  value={formData.intervalMonths}
+                  onChange={handleChange}
+                  disabled={isSubmitting || formData.numberOfInstallments === '1'}
+                  className="w-full px-4 py-2 rounded-lg bg-white border border-primary/20 text-[#003300] focus:outline-none focus:border-primary/50 focus:ring-2 focus:ring-primary/20 transition-colors"
+                >
+                  {INTERVAL_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Start Date */}
+              <div>
+                <label htmlFor="startDate" className="block text-sm font-medium text-[#003300] mb-2">
+                  Start Date
+                </label>
+                <input
+                  id="startDate"
+                  name="startDate"
+                  type="date"
+                  value={formData.startDate}
+                  onChange={handleChange}
+                  disabled={isSubmitting}
+                  className="w-full px-4 py-2 rounded-lg bg-white border border-primary/20 text-[#003300] focus:outline-none focus:border-primary/50 focus:ring-2 focus:ring-primary/20 transition-colors"
+                />
+              </div>
+            </div>
+
             {/* Installment Preview */}
             {formData.totalAmount && parseFloat(formData.totalAmount) > 0 && (
               <div className="p-4 bg-cyan-50 border border-cyan-200 rounded-lg">
-                <p className="text-sm text-cyan-700 font-medium mb-2">Payment Plan Preview:</p>
-                <p className="text-[#003300]">
-                  {formData.numberOfInstallments} installment(s) of{' '}
-                  <span className="font-bold">
-                    ${(parseFloat(formData.totalAmount) / parseInt(formData.numberOfInstallments)).toFixed(2)}
-                  </span>{' '}
-                  each
-                </p>
+                <p className="text-sm text-cyan-700 font-medium mb-2">Payment Schedule Preview:</p>
+                <div className="space-y-1 max-h-48 overflow-y-auto">
+                  {buildSchedulePreview(
+                    parseFloat(formData.totalAmount),
+                    parseFloat(formData.downPayment || '0') || 0,
+                    parseInt(formData.numberOfInstallments) || 1,
+                    parseInt(formData.intervalMonths) || 1,
+                    new Date(formData.startDate || todayInputValue())
+                  ).map((row) => (
+                    <div key={row.label} className="flex items-center justify-between text-sm text-[#003300]">
+                      <span>{row.label}</span>
+                      <span>
+                        <span className="font-bold">${row.amount.toFixed(2)}</span>
+                        <span className="text-[#003300]/60"> · {row.dueDate.toLocaleDateString()}</span>
+                      </span>
+                    </div>
+                  ))}
+                </div>
               </div>
             )}
 
@@ -11,7 +11,7 @@
  */
 
 import React from 'react';
-import { Calendar, DollarSign, Edit2, BookOpen, Download } from 'lucide-react';
+import { Calendar, DollarSign, Edit2, BookOpen, Download, History } from 'lucide-react';
 import { Badge, Button } from '../ui';
 import type { Enrollment } from '../../hooks/useReceptionEnrollments';
 
@@ -23,6 +23,7 @@ interface EnrollmentListProps {
   onEdit?: (enrollment: Enrollment) => void;
   onRecordPayment?: (enrollment: Enrollment) => void;
   onDownloadReceipt?: (enrollmentId: string) => void;
+  onViewPayments?: (enrollment: Enrollment) => void;
   isLoading?: boolean;
 }
 
@@ -71,6 +72,7 @@ export const EnrollmentList: React.FC<EnrollmentListProps> = ({
   onEdit,
   onRecordPayment,
   onDownloadReceipt,
+  onViewPayments,
   isLoading = false,
 }) => {
   /**
@@ -109,7 +111,7 @@ export const EnrollmentList: React.FC<EnrollmentListProps> = ({
             <th className="text-left py-4 px-4 text-sm font-semibold text-[#003300]/70 uppercase tracking-wider">
               Enrolled
             </th>
-            {onEdit && (
+            {(onEdit || onRecordPayment || onDownloadReceipt || onViewPayments) && (
               <th className="text-right py-4 px-4 text-sm font-semibold text-[#003300]/70 uppercase tracking-wider">
                 Actions
               </th>
@@ -181,7 +183,7 @@ export const EnrollmentList: React.FC<EnrollmentListProps> = ({
               </td>
 
               {/* Actions Column */}
-              {(onEdit || onRecordPayment || onDownloadReceipt) && (
+              {(onEdit || onRecordPayment || onDownloadReceipt || onViewPayments) && (
                 <td className="py-4 px-4">
                   <div className="flex items-center justify-end gap-2">
                     {/* Show Payment button if there's remaining balance */}
@@ -210,6 +212,19 @@ export const EnrollmentList: React.FC<EnrollmentListProps> = ({
                       </Button>
                     )}
 
+                    {/* Payment history (refunds/voids) once something was paid */}
+                    {onViewPayments && enrollment.payment.paidAmount > 0 && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        leftIcon={<History className="w-4 h-4" />}
+                        onClick={() => onViewPayments(enrollment)}
+                        className="text-zinc-600 hover:text-zinc-700 hover:bg-zinc-100"
+                      >
+                        History
+                      </Button>
+                    )}
+
                     {onEdit && (
                       <Button
                         variant="ghost"
@@ -0,0 +1,355 @@
+/**
+ * PaymentLedgerModal Component
+ *
+ * Payment history of one enrollment for reception staff:
+ * - Every recorded payment with its refunds and voids (who, when, why)
+ * - Full or partial refund and void of completed payments
+ * - Credit note downloads
+ * - Receipts recorded before payments were tracked (read-only)
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Download, RotateCcw, Ban, FileText } from 'lucide-react';
+import { Modal, Button, Badge, LoadingState, useToast } from '../ui';
+import { usePaymentLedger } from '../../hooks/usePaymentLedger';
+import type { LedgerPayment, PaymentAdjustmentType } from '../../hooks/usePaymentLedger';
+
+interface PaymentLedgerModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  enrollmentId: string | null;
+  /** Called after a refund or void so the caller can refresh balances */
+  onAdjusted?: () => void;
+}
+
+/**
+ * Reversal being entered for a payment
+ */
+interface PendingReversal {
+  payment: LedgerPayment;
+  type: PaymentAdjustmentType;
+}
+
+const formatMoney = (amount: number): string => `$${amount.toFixed(2)}`;
+
+const formatDate = (dateString: string | null): string => {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+};
+
+const getStatusBadge = (payment: LedgerPayment): { variant: 'success' | 'warning' | 'error' | 'info' | 'default'; label: string } => {
+  switch (payment.status) {
+    case 'completed':
+      return payment.refund && payment.refund.amount > 0
+        ? { variant: 'warning', label: 'Partially refunded' }
+        : { variant: 'success', label: 'Completed' };
+    case 'refunded':
+      return { variant: 'info', label: 'Refunded' };
+    case 'cancelled':
+      return { variant: 'error', label: 'Voided' };
+    case 'failed':
+      return { variant: 'error', label: 'Rejected' };
+    default:
+      return { variant: 'default', label: payment.status };
+  }
+};
+
+export const PaymentLedgerModal: React.FC<PaymentLedgerModalProps> = ({
+  isOpen,
+  onClose,
+  enrollmentId,
+  onAdjusted
+}) => {
+  const toast = useToast();
+  const { ledger, isLoading, error, refundPayment, voidPayment, downloadCreditNote } =
+    usePaymentLedger(isOpen ? enrollmentId : null);
+
+  const [reversal, setReversal] = useState<PendingReversal | null>(null);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [formError, setFormError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Reset the form when the modal opens/closes
+  useEffect(() => {
+    setReversal(null);
+  }, [isOpen, enrollmentId]);
+
+  const startReversal = (payment: LedgerPayment, type: PaymentAdjustmentType) => {
+    setReversal({ payment, type });
+    setAmount(payment.refundableAmount.toString());
+    setReason('');
+    setFormError('');
+  };
+
+  const handleDownloadCreditNote = async (creditNoteId: string, creditNoteNumber?: string) => {
+    try {
+      await downloadCreditNote(creditNoteId, creditNoteNumber);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to download credit note');
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reversal) return;
+    setFormError('');
+
+    const refundAmount = parseFloat(amount);
+
+    if (!reason.trim()) {
+      setFormError('Please provide a reason');
+      return;
+    }
+    if (reversal.type === 'refund' && (!refundAmount || refundAmount <= 0 || refundAmount > reversal.payment.refundableAmount)) {
+      setFormError(`Refund amount must be between 0 and ${formatMoney(reversal.payment.refundableAmount)}`);
+      return;
+    }
+
+    try {
+      setIsSubmitting(true);
+      const creditNote = reversal.type === 'refund'
+        ? await refundPayment(reversal.payment._id, refundAmount, reason.trim())
+        : await voidPayment(reversal.payment._id, reason.trim());
+
+      toast.success(reversal.type === 'refund' ? 'Refund recorded' : 'Payment voided');
+      setReversal(null);
+      onAdjusted?.();
+
+      if (creditNote) {
+        await handleDownloadCreditNote(creditNote.creditNoteId, creditNote.creditNoteNumber);
+      } else {
+        toast.warning('The credit note could not be generated');
+      }
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : 'Failed to reverse payment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Payment History" size="lg">
+      {isLoading && !ledger ? (
+        <LoadingState type="spinner" text="Loading payment history..." />
+      ) : error ? (
+        <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+          <p className="text-sm text-red-700">{error}</p>
+        </div>
+      ) : ledger ? (
+        <div className="space-y-6">
+          {/* Balance */}
+          <div className="bg-zinc-50 p-4 rounded-lg">
+            <p className="font-semibold text-zinc-900">{ledger.enrollment.student.name}</p>
+            <p className="text-sm text-zinc-600 mb-3">{ledger.enrollment.course.title}</p>
+            <div className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <p className="text-zinc-600">Total</p>
+                <p className="font-bold text-zinc-900">{formatMoney(ledger.enrollment.payment.totalAmount)}</p>
+              </div>
+              <div>
+                <p className="text-zinc-600">Paid</p>
+                <p className="font-bold text-green-600">{formatMoney(ledger.enrollment.payment.paidAmount)}</p>
+              </div>
+              <div>
+                <p className="text-zinc-600">Remaining</p>
+                <p className="font-bold text-red-600">{formatMoney(ledger.enrollment.payment.remainingAmount)}</p>
+              </div>
+            </div>
+          </div>
+
+          {/* Payments */}
+          <div>
+            <h3 className="text-sm font-semibold text-zinc-900 mb-3">Payments</h3>
+            {ledger.payments.length === 0 ? (
+              <p className="text-sm text-zinc-500">No payments recorded yet.</p>
+            ) : (
+              <div className="space-y-3">
+                {ledger.payments.map((payment) => {
+                  const badge = getStatusBadge(payment);
+
+                  return (
+                    <div key={payment._id} className="border border-zinc-200 rounded-lg p-4">
+                      <div className="flex items-start justify-between gap-3">
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <span className="font-bold text-zinc-900">{formatMoney(payment.amount)}</span>
+                            <Badge variant={badge.variant} size="sm">{badge.label}</Badge>
+                          </div>
+                          <p className="text-xs text-zinc-600 mt-1">
+                            {payment.paymentMethod.replace(/_/g, ' ')} · {formatDate(payment.paidAt || payment.createdAt)}
+                            {payment.receiptId && ` · Receipt ${payment.receiptId.receiptNumber}`}
+                            {payment.processedBy && ` · by ${payment.processedBy.name}`}
+                          </p>
+                        </div>
+
+                        {payment.refundableAmount > 0 && (
+                          <div className="flex gap-2">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              leftIcon={<RotateCcw className="w-4 h-4" />}
+                              onClick={() => startReversal(payment, 'refund')}
+                              className="text-amber-600 hover:text-amber-700 hover:bg-amber-50"
+                            >
+                              Refund
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              leftIcon={<Ban className="w-4 h-4" />}
+                              onClick={() => startReversal(payment, 'void')}
+                              className="text-red-600 hover:text-red-700 hover:bg-red-50"
+                            >
+                              Void
+                            </Button>
+                          </div>
+                        )}
+                      </div>
+
+                      {/* Audit trail */}
+                      {payment.adjustments.length > 0 && (
+                        <ul className="mt-3 space-y-1 border-t border-zinc-100 pt-3">
+                          {payment.adjustments.map((adjustment) => (
+                            <li key={adjustment._id} className="text-xs text-zinc-600">
+                              <span className="font-semibold text-zinc-800">
+                                {adjustment.type === 'refund' ? 'Refunded' : 'Voided'} {formatMoney(adjustment.amount)}
+                              </span>
+                              {' '}on {formatDate(adjustment.performedAt)}
+                              {adjustment.performedBy && ` by ${adjustment.performedBy.name}`}: {adjustment.reason}
+                            </li>
+                          ))}
+                        </ul>
+                      )}
+
+                      {/* Reversal form */}
+                      {reversal?.payment._id === payment._id && (
+                        <form onSubmit={handleSubmit} className="mt-3 space-y-3 border-t border-zinc-100 pt-3">
+                          {reversal.type === 'refund' ? (
+                            <div>
+                              <label className="block text-sm font-medium text-zinc-700 mb-1">
+                                Refund amount <span className="text-red-500">*</span>
+                              </label>
+                              <input
+                                type="number"
+                                step="0.01"
+                                min="0"
+                                max={payment.refundableAmount}
+                                value={amount}
+                                onChange={(e) => setAmount(e.target.value)}
+                                className="w-full px-4 py-2 rounded-lg border border-zinc-300 bg-white text-zinc-900 focus:outline-none focus:border-cyan-500 focus:ring-2 focus:ring-cyan-500/20 transition-colors"
+                              />
+                              <p className="text-xs text-zinc-500 mt-1">
+                                Up to {formatMoney(payment.refundableAmount)}
+                              </p>
+                            </div>
+                          ) : (
+                            <p className="text-sm text-zinc-700">
+                              Voiding removes the remaining {formatMoney(payment.refundableAmount)} of this payment from the balance.
+                            </p>
+                          )}
+                          <div>
+                            <label className="block text-sm font-medium text-zinc-700 mb-1">
+                              Reason <span className="text-red-500">*</span>
+                            </label>
+                            <textarea
+                              value={reason}
+                              onChange={(e) => setReason(e.target.value)}
+                              rows={2}
+                              maxLength={500}
+                              placeholder={reversal.type === 'refund' ? 'Why is this payment being refunded?' : 'What was recorded wrongly?'}
+                              className="w-full px-4 py-2 rounded-lg border border-zinc-300 bg-white text-zinc-900 focus:outline-none focus:border-cyan-500 focus:ring-2 focus:ring-cyan-500/20 transition-colors resize-none"
+                            />
+                          </div>
+
+                          {formError && (
+                            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+                              <p className="text-sm text-red-700">{formError}</p>
+                            </div>
+                          )}
+
+                          <div className="flex justify-end gap-2">
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setReversal(null)}
+                              disabled={isSubmitting}
+                            >
+                              Cancel
+                            </Button>
+                            <Button
+                              type="submit"
+                              variant={reversal.type === 'refund' ? 'primary' : 'danger'}
+                              size="sm"
+                              disabled={isSubmitting}
+                            >
+                              {isSubmitting ? 'Saving...' : reversal.type === 'refund' ? 'Confirm Refund' : 'Confirm Void'}
+                            </Button>
+                          </div>
+                        </form>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+
+          {/* Credit notes */}
+          {ledger.creditNotes.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-zinc-900 mb-3">Credit Notes</h3>
+              <div className="space-y-2">
+                {ledger.creditNotes.map((note) => (
+                  <div key={note._id} className="flex items-center justify-between border border-zinc-200 rounded-lg px-4 py-2">
+                    <div className="flex items-center gap-2 text-sm">
+                      <FileText className="w-4 h-4 text-zinc-500" />
+                      <span className="font-semibold text-zinc-900">{note.creditNoteNumber}</span>
+                      <span className="text-zinc-600">
+                        {note.type === 'refund' ? 'Refund' : 'Void'} of {formatMoney(note.amount)} · {formatDate(note.createdAt)}
+                      </span>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<Download className="w-4 h-4" />}
+                      onClick={() => handleDownloadCreditNote(note._id, note.creditNoteNumber)}
+                      className="text-purple-600 hover:text-purple-700 hover:bg-purple-50"
+                    >
+                      PDF
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Legacy receipts */}
+          {ledger.unlinkedReceipts.length > 0 && (
+            <div>
+              <h3 className="text-sm font-semibold text-zinc-900 mb-1">Earlier Receipts</h3>
+              <p className="text-xs text-zinc-500 mb-3">
+                Recorded before individual payment tracking; these can't be refunded here.
+              </p>
+              <div className="space-y-2">
+                {ledger.unlinkedReceipts.map((receipt) => (
+                  <div key={receipt._id} className="flex items-center justify-between text-sm border border-zinc-200 rounded-lg px-4 py-2">
+                    <span className="font-semibold text-zinc-900">{receipt.receiptNumber}</span>
+                    <span className="text-zinc-600">
+                      {formatMoney(receipt.payment.amount)} · {formatDate(receipt.payment.date)}
+                    </span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      ) : null}
+    </Modal>
+  );
+};
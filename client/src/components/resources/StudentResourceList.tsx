@@ -0,0 +1,196 @@
+import { useState } from "react";
+import {
+  FileText,
+  Download,
+  Eye,
+  Lock,
+  FolderOpen,
+  AlertCircle,
+  RefreshCw,
+} from "lucide-react";
+import { Button, Badge, LoadingState, CardComponent, CardBody } from "../ui";
+import { useStudentResources } from "../../hooks";
+import type { StudentResource } from "../../hooks";
+
+interface StudentResourceListProps {
+  courseId: string;
+}
+
+type ResourceAction = "view" | "download";
+
+export default function StudentResourceList({ courseId }: StudentResourceListProps) {
+  const { resources, isLoading, error, refetch, openResource, downloadResource } =
+    useStudentResources(courseId);
+
+  // Password-protected resources ask for the password before the action runs
+  const [pending, setPending] = useState<{ resource: StudentResource; action: ResourceAction } | null>(null);
+  const [password, setPassword] = useState("");
+  const [busy, setBusy] = useState<{ id: string; action: ResourceAction } | null>(null);
+  const [actionError, setActionError] = useState<{ id: string; message: string } | null>(null);
+
+  const runAction = async (resource: StudentResource, action: ResourceAction, pwd?: string) => {
+    setBusy({ id: resource._id, action });
+    setActionError(null);
+    const message =
+      action === "view"
+        ? await openResource(resource, pwd)
+        : await downloadResource(resource, pwd);
+    setBusy(null);
+
+    if (message) {
+      setActionError({ id: resource._id, message });
+      return;
+    }
+    setPending(null);
+    setPassword("");
+  };
+
+  const handleAction = (resource: StudentResource, action: ResourceAction) => {
+    if (resource.requiresPassword) {
+      setPending({ resource, action });
+      setPassword("");
+      setActionError(null);
+      return;
+    }
+    runAction(resource, action);
+  };
+
+  if (isLoading) {
+    return <LoadingState type="skeleton" text="Loading resources..." />;
+  }
+
+  if (error) {
+    return (
+      <div className="flex items-center gap-3 p-4 rounded-lg bg-red-500/10 border border-red-500/30 text-red-300">
+        <AlertCircle className="w-5 h-5 flex-shrink-0" />
+        <p className="flex-1 text-sm">{error}</p>
+        <Button
+          variant="ghost"
+          size="sm"
+          leftIcon={<RefreshCw className="w-4 h-4" />}
+          onClick={refetch}
+        >
+          Retry
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <CardComponent variant="glass">
+      <CardBody>
+        <h2 className="text-2xl font-semibold mb-6">Course Resources</h2>
+
+        {resources.length === 0 ? (
+          <div className="text-center py-12 text-white/40">
+            <FolderOpen className="w-12 h-12 mx-auto mb-4 opacity-50" />
+            <p>No resources shared yet</p>
+            <p className="text-sm mt-2">Your trainer's lecture files and templates will appear here</p>
+          </div>
+        ) : (
+          <div className="space-y-3">
+            {resources.map((resource) => (
+              <div
+                key={resource._id}
+                className="p-4 rounded-lg bg-white/5 border border-white/10"
+              >
+                <div className="flex items-start gap-4">
+                  <div className="w-10 h-10 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                    <FileText className="w-5 h-5 text-primary" />
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <h3 className="font-medium">{resource.title}</h3>
+                      <Badge variant="secondary" size="sm">{resource.category}</Badge>
+                      {resource.requiresPassword && (
+                        <Badge variant="warning" size="sm">
+                          <Lock className="w-3 h-3 inline mr-1" />
+                          Protected
+                        </Badge>
+                      )}
+                    </div>
+                    {resource.description && (
+                      <p className="text-sm text-white/60 mb-2">{resource.description}</p>
+                    )}
+                    <div className="flex flex-wrap items-center gap-3 text-xs text-white/50">
+                      <span>{resource.fileType.toUpperCase()}</span>
+                      <span>{resource.fileSizeFormatted}</span>
+                      {resource.sessionId && <span>Session: {resource.sessionId.title}</span>}
+                      {resource.trainerId && <span>By {resource.trainerId.name}</span>}
+                      <span>{new Date(resource.createdAt).toLocaleDateString()}</span>
+                    </div>
+                    {resource.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {resource.tags.map((tag) => (
+                          <span key={tag} className="px-2 py-0.5 rounded-full bg-white/10 text-xs text-white/60">
+                            #{tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex items-center gap-2">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<Eye className="w-4 h-4" />}
+                      onClick={() => handleAction(resource, "view")}
+                      isLoading={busy?.id === resource._id && busy.action === "view" && !pending}
+                    >
+                      Open
+                    </Button>
+                    {resource.isDownloadable && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        leftIcon={<Download className="w-4 h-4" />}
+                        onClick={() => handleAction(resource, "download")}
+                        isLoading={busy?.id === resource._id && busy.action === "download" && !pending}
+                      >
+                        Download
+                      </Button>
+                    )}
+                  </div>
+                </div>
+
+                {pending?.resource._id === resource._id && (
+                  <div className="flex items-center gap-2 mt-3">
+                    <input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter" && password) runAction(resource, pending.action, password);
+                      }}
+                      placeholder="Resource password"
+                      className="flex-1 px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-sm focus:outline-none focus:border-primary/50"
+                      autoFocus
+                    />
+                    <Button
+                      variant="primary"
+                      size="sm"
+                      onClick={() => runAction(resource, pending.action, password)}
+                      isLoading={busy?.id === resource._id}
+                      disabled={!password}
+                    >
+                      {pending.action === "view" ? "Open" : "Download"}
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => setPending(null)}>
+                      Cancel
+                    </Button>
+                  </div>
+                )}
+
+                {actionError?.id === resource._id && (
+                  <p className="text-xs text-red-400 mt-2">{actionError.message}</p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </CardBody>
+    </CardComponent>
+  );
+}
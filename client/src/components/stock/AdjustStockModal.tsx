@@ -1,36 +1,117 @@
-import { useState } from "react";
+import { useState, useCallback, useRef } from "react";
 import { api } from "../../lib/api";
+import { useStockScan, type ScannedPart } from "../../hooks";
+import { ScanInput } from "./ScanInput";
 
 type Props = {
-  partId: string;
-  partName: string;
+  /** Part to adjust; leave out to pick parts by scanning */
+  partId?: string;
+  partName?: string;
+  /** Start in scan mode */
+  scanMode?: boolean;
   onClose: () => void;
   onSuccess: () => void;
 };
 
 const REASONS = [
-  { value: "purchase", label: "Purchase (increase)" },
+  { value: "purchase", label: "Receive (increase)" },
+  { value: "used", label: "Issue (decrease)" },
+  { value: "return", label: "Return to stock (increase)" },
   { value: "adjustment", label: "Adjustment" },
 ];
 
+// Quantities entered as positive numbers; issues are booked as decreases
+const ONE_STEP_REASONS: Record<string, "receive" | "issue" | "return"> = {
+  purchase: "receive",
+  used: "issue",
+  return: "return",
+};
+
+type ScanLogEntry = { id: number; text: string; ok: boolean };
+
 export default function AdjustStockModal({
   partId,
   partName,
+  scanMode = !partId,
   onClose,
   onSuccess,
 }: Props) {
-  const [qtyChange, setQtyChange] = useState<number>(0);
+  const [qtyChange, setQtyChange] = useState<number>(scanMode ? 1 : 0);
   const [reason, setReason] = useState<string>(REASONS[0].value);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [scanning, setScanning] = useState(scanMode);
+  const [oneStep, setOneStep] = useState(true);
+  const [target, setTarget] = useState<{ id: string; name: string } | null>(
+    partId ? { id: partId, name: partName || "" } : null
+  );
+  const [matches, setMatches] = useState<ScannedPart[]>([]);
+  const [log, setLog] = useState<ScanLogEntry[]>([]);
+  const logIdRef = useRef(0);
+  const { lookup, apply } = useStockScan();
+
+  const oneStepOperation = ONE_STEP_REASONS[reason];
+
+  const addLog = (text: string, ok: boolean) =>
+    setLog((prev) => [{ id: ++logIdRef.current, text, ok }, ...prev].slice(0, 8));
+
+  /** Run the selected operation on a scanned part straight away */
+  const applyOneStep = useCallback(
+    async (part: ScannedPart) => {
+      if (!oneStepOperation || qtyChange === 0) return;
+      setLoading(true);
+      const result = await apply(part._id, oneStepOperation, qtyChange);
+      setLoading(false);
+      if (result.success) {
+        addLog(`${oneStepOperation} ${Math.abs(qtyChange)} x ${part.name}`, true);
+        onSuccess();
+      } else {
+        addLog(`${part.name}: ${result.error}`, false);
+      }
+    },
+    [apply, oneStepOperation, qtyChange, onSuccess]
+  );
+
+  const selectPart = (part: ScannedPart) => {
+    setMatches([]);
+    setTarget({ id: part._id, name: part.name });
+    if (oneStep && oneStepOperation) {
+      applyOneStep(part);
+    }
+  };
+
+  const handleScan = async (code: string) => {
+    setError(null);
+    const result = await lookup(code);
+    if (!result.success) {
+      setError(result.error || "Lookup failed");
+      return;
+    }
+    if (result.parts.length === 0) {
+      addLog(`No part found for "${code}"`, false);
+      return;
+    }
+    // A bin label matches every part in the bin; let the user pick one
+    if (result.parts.length > 1) {
+      setTarget(null);
+      setMatches(result.parts);
+      return;
+    }
+    selectPart(result.parts[0]);
+  };
 
   async function submit() {
+    if (!target) return;
     setLoading(true);
     setError(null);
     try {
-      await api.post("/stock/adjust", { partId, qtyChange, reason });
+      await api.post("/stock/adjust", { partId: target.id, qtyChange, reason });
       onSuccess();
-      onClose();
+      if (scanning) {
+        addLog(`${reason} ${qtyChange} x ${target.name}`, true);
+      } else {
+        onClose();
+      }
     } catch (e: any) {
       setError(e?.response?.data?.message || "Failed to adjust stock");
     } finally {
@@ -39,12 +120,47 @@ export default function AdjustStockModal({
   }
 
   return (
-    <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4">
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-50">
       <div className="card max-w-md w-full">
-        <div className="text-lg font-semibold mb-2">Adjust Stock</div>
-        <div className="text-sm text-gray-400 mb-4">{partName}</div>
+        <div className="flex items-center justify-between mb-2">
+          <div className="text-lg font-semibold">Adjust Stock</div>
+          <label className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={scanning}
+              onChange={(e) => setScanning(e.target.checked)}
+            />
+            Scan mode
+          </label>
+        </div>
+        <div className="text-sm text-gray-400 mb-4">
+          {target ? target.name : "Scan a part or bin label"}
+        </div>
 
         <div className="space-y-3">
+          {scanning && (
+            <>
+              <ScanInput onScan={handleScan} disabled={loading} />
+              {matches.length > 0 && (
+                <div className="border border-gray-700 rounded-lg divide-y divide-gray-700">
+                  <div className="px-3 py-2 text-xs text-gray-400">
+                    {matches.length} parts in this bin; pick one
+                  </div>
+                  {matches.map((part) => (
+                    <button
+                      key={part._id}
+                      type="button"
+                      className="w-full text-left px-3 py-2 hover:bg-gray-800 flex justify-between"
+                      onClick={() => selectPart(part)}
+                    >
+                      <span className="text-gray-200">{part.name}</span>
+                      <span className="text-xs text-gray-400">{part.onHandQty} on hand</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </>
+          )}
           <div>
             <label className="block mb-1 text-sm text-gray-300">Reason</label>
             <select
@@ -70,23 +186,46 @@ export default function AdjustStockModal({
               onChange={(e) => setQtyChange(Number(e.target.value))}
             />
             <div className="text-xs text-gray-400 mt-1">
-              Positive increases available quantity; negative decreases.
+              {reason === "adjustment"
+                ? "Positive increases available quantity; negative decreases."
+                : "Enter how many; issued parts are taken off the shelf."}
             </div>
           </div>
+          {scanning && oneStepOperation && (
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={oneStep}
+                onChange={(e) => setOneStep(e.target.checked)}
+              />
+              Apply on scan ({oneStepOperation} {Math.abs(qtyChange)} per scan)
+            </label>
+          )}
           {error && <div className="text-red-400 text-sm">{error}</div>}
+          {log.length > 0 && (
+            <ul className="text-xs space-y-1 max-h-32 overflow-y-auto">
+              {log.map((entry) => (
+                <li key={entry.id} className={entry.ok ? "text-green-400" : "text-red-400"}>
+                  {entry.text}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
 
         <div className="mt-4 flex items-center justify-end gap-2">
           <button className="btn-outline" onClick={onClose} disabled={loading}>
-            Cancel
-          </button>
-          <button
-            className="btn"
-            onClick={submit}
-            disabled={loading || qtyChange === 0}
-          >
-            {loading ? "Saving..." : "Save"}
+            {scanning ? "Done" : "Cancel"}
           </button>
+          {!(scanning && oneStep && oneStepOperation) && (
+            <button
+              className="btn"
+              onClick={submit}
+              disabled={loading || qtyChange === 0 || !target}
+            >
+              {loading ? "Saving..." : "Save"}
+            </button>
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,149 @@
+/**
+ * LabelsModal Component
+ *
+ * Prints QR or barcode label sheets for parts or for bins (one label
+ * per SKU). Starts with the parts currently shown in the inventory.
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Modal, Button } from '../ui';
+import { usePartLabels, type LabelFormat, type PartWithStock } from '../../hooks';
+
+interface LabelsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Parts to choose from */
+  parts: PartWithStock[];
+}
+
+type LabelScope = 'part' | 'bin';
+
+export const LabelsModal: React.FC<LabelsModalProps> = ({ isOpen, onClose, parts }) => {
+  const { download } = usePartLabels();
+  const [scope, setScope] = useState<LabelScope>('part');
+  const [format, setFormat] = useState<LabelFormat>('qr');
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [isPrinting, setIsPrinting] = useState(false);
+  const [error, setError] = useState('');
+
+  // One option per part, or per SKU for bins
+  const options = useMemo(() => {
+    if (scope === 'part') {
+      return parts.map((part) => ({ key: part._id, label: part.name, detail: part.sku }));
+    }
+    const bins = new Map<string, number>();
+    parts.forEach((part) => bins.set(part.sku, (bins.get(part.sku) || 0) + 1));
+    return [...bins.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([sku, count]) => ({ key: sku, label: `Bin ${sku}`, detail: `${count} part${count === 1 ? '' : 's'}` }));
+  }, [parts, scope]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError('');
+    setSelected(new Set(options.map((option) => option.key)));
+  }, [isOpen, options]);
+
+  const toggle = (key: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const allSelected = selected.size === options.length;
+
+  const handlePrint = async () => {
+    setError('');
+    setIsPrinting(true);
+    const keys = [...selected];
+    const result = await download(
+      scope === 'part' ? { scope, format, partIds: keys } : { scope, format, skus: keys }
+    );
+    setIsPrinting(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error || 'Failed to generate labels');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Print Labels"
+      description="A4 sheets of 24 labels; scan them to find parts and move stock"
+      size="lg"
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="labels-scope">Labels for</label>
+            <select
+              id="labels-scope"
+              className="select w-full"
+              value={scope}
+              onChange={(e) => setScope(e.target.value as LabelScope)}
+            >
+              <option value="part">Each part</option>
+              <option value="bin">Each bin (SKU)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="labels-format">Code</label>
+            <select
+              id="labels-format"
+              className="select w-full"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as LabelFormat)}
+            >
+              <option value="qr">QR code</option>
+              <option value="barcode">Barcode (Code 128)</option>
+            </select>
+          </div>
+        </div>
+
+        <div className="border border-zinc-200 rounded-lg">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-zinc-200">
+            <span className="text-sm text-zinc-600">{selected.size} of {options.length} selected</span>
+            <button
+              type="button"
+              className="text-sm text-primary hover:underline"
+              onClick={() => setSelected(allSelected ? new Set() : new Set(options.map((option) => option.key)))}
+            >
+              {allSelected ? 'Select none' : 'Select all'}
+            </button>
+          </div>
+          <div className="max-h-72 overflow-y-auto divide-y divide-zinc-100">
+            {options.map((option) => (
+              <label key={option.key} className="flex items-center gap-3 px-3 py-2 cursor-pointer hover:bg-zinc-50">
+                <input type="checkbox" checked={selected.has(option.key)} onChange={() => toggle(option.key)} />
+                <span className="flex-1 text-sm text-zinc-800">{option.label}</span>
+                <span className="text-xs text-zinc-500 font-mono">{option.detail}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-zinc-200">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isPrinting}>
+            Cancel
+          </Button>
+          <Button variant="primary" onClick={handlePrint} disabled={isPrinting || selected.size === 0}>
+            {isPrinting ? 'Generating...' : `Download ${selected.size} Label${selected.size === 1 ? '' : 's'}`}
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
@@ -0,0 +1,192 @@
+/**
+ * LoanCheckInModal Component
+ *
+ * Checks a loan back in with a condition report. Damaged units are
+ * written off the stock; for serialized loans they are picked by serial
+ * number.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Modal, Button } from '../ui';
+import { loanBorrowerName, type CheckInInput, type Loan, type ReturnCondition } from '../../hooks';
+
+interface LoanCheckInModalProps {
+  /** Loan to check in; null when closed */
+  loan: Loan | null;
+  onClose: () => void;
+  onSubmit: (loanId: string, data: CheckInInput) => Promise<{ success: boolean; error?: string }>;
+}
+
+const CONDITIONS: { value: ReturnCondition; label: string }[] = [
+  { value: 'good', label: 'Good' },
+  { value: 'worn', label: 'Worn but working' },
+  { value: 'damaged', label: 'Damaged' },
+];
+
+export const LoanCheckInModal: React.FC<LoanCheckInModalProps> = ({ loan, onClose, onSubmit }) => {
+  const [condition, setCondition] = useState<ReturnCondition>('good');
+  const [damagedQty, setDamagedQty] = useState('');
+  const [damagedSerials, setDamagedSerials] = useState<string[]>([]);
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!loan) return;
+    setCondition('good');
+    setDamagedQty(String(loan.qty));
+    setDamagedSerials(loan.serialNumbers);
+    setNotes('');
+    setError('');
+  }, [loan]);
+
+  if (!loan) return null;
+
+  const serialized = loan.serialNumbers.length > 0;
+
+  const toggleSerial = (serial: string) => {
+    setDamagedSerials((prev) => (prev.includes(serial) ? prev.filter((s) => s !== serial) : [...prev, serial]));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const data: CheckInInput = { condition, notes: notes.trim() || undefined };
+
+    if (condition === 'damaged') {
+      if (serialized) {
+        if (damagedSerials.length === 0) {
+          setError('Pick the damaged units');
+          return;
+        }
+        data.damagedSerials = damagedSerials;
+      } else {
+        const qty = parseInt(damagedQty, 10);
+        if (!qty || qty < 1 || qty > loan.qty) {
+          setError(`Enter between 1 and ${loan.qty} damaged`);
+          return;
+        }
+        data.damagedQty = qty;
+      }
+      if (!data.notes) {
+        setError('Describe the damage');
+        return;
+      }
+    }
+
+    setIsSaving(true);
+    const result = await onSubmit(loan._id, data);
+    setIsSaving(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error || 'Failed to check in equipment');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={!!loan}
+      onClose={onClose}
+      title="Check In Equipment"
+      description={`${loan.qty} x ${loan.partId?.name || 'Deleted part'} from ${loanBorrowerName(loan)}`}
+      size="md"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <span className="block text-sm font-medium text-zinc-700 mb-1">Condition</span>
+          <div className="flex gap-2">
+            {CONDITIONS.map((option) => (
+              <label
+                key={option.value}
+                className={`flex-1 text-center px-3 py-2 rounded-lg border text-sm cursor-pointer ${
+                  condition === option.value ? 'border-primary bg-primary/10 text-primary' : 'border-zinc-300 text-zinc-700'
+                }`}
+              >
+                <input
+                  type="radio"
+                  className="sr-only"
+                  name="loan-condition"
+                  checked={condition === option.value}
+                  onChange={() => setCondition(option.value)}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {condition === 'damaged' && (serialized ? (
+          <div>
+            <span className="block text-sm font-medium text-zinc-700 mb-1">Damaged units</span>
+            <div className="flex flex-wrap gap-2">
+              {loan.serialNumbers.map((serial) => (
+                <label
+                  key={serial}
+                  className={`px-3 py-1 rounded-lg border text-sm font-mono cursor-pointer ${
+                    damagedSerials.includes(serial) ? 'border-red-400 bg-red-50 text-red-700' : 'border-zinc-300 text-zinc-700'
+                  }`}
+                >
+                  <input
+                    type="checkbox"
+                    className="sr-only"
+                    checked={damagedSerials.includes(serial)}
+                    onChange={() => toggleSerial(serial)}
+                  />
+                  {serial}
+                </label>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="loan-damaged-qty">Damaged quantity</label>
+            <input
+              id="loan-damaged-qty"
+              type="number"
+              min={1}
+              max={loan.qty}
+              className="input w-full"
+              value={damagedQty}
+              onChange={(e) => setDamagedQty(e.target.value)}
+            />
+          </div>
+        ))}
+        {condition === 'damaged' && (
+          <p className="text-xs text-zinc-500 -mt-2">Damaged units are written off the stock as damaged.</p>
+        )}
+
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="loan-check-in-notes">
+            Condition report{condition === 'damaged' ? '' : ' (optional)'}
+          </label>
+          <textarea
+            id="loan-check-in-notes"
+            className="input w-full"
+            rows={3}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Missing accessories, wear, what broke..."
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-zinc-200">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSaving}>
+            {isSaving ? 'Checking in...' : 'Check In'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
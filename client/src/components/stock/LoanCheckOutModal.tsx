@@ -0,0 +1,266 @@
+/**
+ * LoanCheckOutModal Component
+ *
+ * Checks equipment out to a student, team or group with a due date.
+ * Serialized parts are lent by picking serial numbers; pooled parts by
+ * quantity.
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { Modal, Button } from '../ui';
+import {
+  useLoanBorrowers,
+  type BorrowerType,
+  type CheckOutInput,
+  type Loan,
+  type PartWithStock
+} from '../../hooks';
+
+interface LoanCheckOutModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  /** Loanable parts */
+  parts: PartWithStock[];
+  /** Open loans, to tell which serial numbers are out */
+  openLoans: Loan[];
+  onSubmit: (data: CheckOutInput) => Promise<{ success: boolean; error?: string }>;
+}
+
+const DEFAULT_LOAN_DAYS = 7;
+
+const inDays = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+export const LoanCheckOutModal: React.FC<LoanCheckOutModalProps> = ({
+  isOpen,
+  onClose,
+  parts,
+  openLoans,
+  onSubmit
+}) => {
+  const borrowers = useLoanBorrowers(isOpen);
+  const [partId, setPartId] = useState('');
+  const [qty, setQty] = useState('1');
+  const [serials, setSerials] = useState<string[]>([]);
+  const [borrowerType, setBorrowerType] = useState<BorrowerType>('student');
+  const [borrowerId, setBorrowerId] = useState('');
+  const [dueAt, setDueAt] = useState(inDays(DEFAULT_LOAN_DAYS));
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setPartId('');
+    setQty('1');
+    setSerials([]);
+    setBorrowerId('');
+    setDueAt(inDays(DEFAULT_LOAN_DAYS));
+    setNotes('');
+    setError('');
+  }, [isOpen]);
+
+  const part = parts.find((p) => p._id === partId);
+  const serialized = (part?.serialNumbers?.length || 0) > 0;
+
+  // Serial numbers of the chosen part not already out on a loan
+  const freeSerials = useMemo(() => {
+    if (!part?.serialNumbers) return [];
+    const out = new Set(
+      openLoans.filter((loan) => loan.partId?._id === part._id).flatMap((loan) => loan.serialNumbers)
+    );
+    return part.serialNumbers.filter((serial) => !out.has(serial));
+  }, [part, openLoans]);
+
+  const borrowerOptions = {
+    student: borrowers.students.map((s) => ({ _id: s._id, label: s.email ? `${s.name} (${s.email})` : s.name })),
+    team: borrowers.teams.map((t) => ({ _id: t._id, label: t.name })),
+    group: borrowers.groups.map((g) => ({ _id: g._id, label: g.name })),
+  }[borrowerType];
+
+  const toggleSerial = (serial: string) => {
+    setSerials((prev) => (prev.includes(serial) ? prev.filter((s) => s !== serial) : [...prev, serial]));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!part || !borrowerId || !dueAt) {
+      setError('Choose the equipment, the borrower and a due date');
+      return;
+    }
+    if (serialized && serials.length === 0) {
+      setError('Pick at least one serial number');
+      return;
+    }
+    const quantity = parseInt(qty, 10);
+    if (!serialized && (!quantity || quantity < 1)) {
+      setError('Enter a quantity of at least 1');
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await onSubmit({
+      partId: part._id,
+      ...(serialized ? { serialNumbers: serials } : { qty: quantity }),
+      borrowerType,
+      [`${borrowerType}Id`]: borrowerId,
+      // Due at the end of the chosen day
+      dueAt: new Date(`${dueAt}T23:59:59`).toISOString(),
+      notes: notes.trim() || undefined,
+    });
+    setIsSaving(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error || 'Failed to check out equipment');
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Check Out Equipment" size="lg">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="loan-part">Equipment</label>
+          <select
+            id="loan-part"
+            className="select w-full"
+            value={partId}
+            onChange={(e) => {
+              setPartId(e.target.value);
+              setSerials([]);
+            }}
+            required
+          >
+            <option value="">Select equipment...</option>
+            {parts.map((p) => (
+              <option key={p._id} value={p._id}>
+                {p.name} ({p.availableQty} available)
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {part && (serialized ? (
+          <div>
+            <span className="block text-sm font-medium text-zinc-700 mb-1">Units</span>
+            {freeSerials.length === 0 ? (
+              <p className="text-sm text-zinc-500">Every unit is out on loan.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {freeSerials.map((serial) => (
+                  <label
+                    key={serial}
+                    className={`px-3 py-1 rounded-lg border text-sm font-mono cursor-pointer ${
+                      serials.includes(serial) ? 'border-primary bg-primary/10 text-primary' : 'border-zinc-300 text-zinc-700'
+                    }`}
+                  >
+                    <input
+                      type="checkbox"
+                      className="sr-only"
+                      checked={serials.includes(serial)}
+                      onChange={() => toggleSerial(serial)}
+                    />
+                    {serial}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="loan-qty">Quantity</label>
+            <input
+              id="loan-qty"
+              type="number"
+              min={1}
+              max={part.availableQty}
+              className="input w-full"
+              value={qty}
+              onChange={(e) => setQty(e.target.value)}
+            />
+          </div>
+        ))}
+
+        <div className="grid grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="loan-borrower-type">Lend to</label>
+            <select
+              id="loan-borrower-type"
+              className="select w-full"
+              value={borrowerType}
+              onChange={(e) => {
+                setBorrowerType(e.target.value as BorrowerType);
+                setBorrowerId('');
+              }}
+            >
+              <option value="student">Student</option>
+              <option value="team">Team</option>
+              <option value="group">Group</option>
+            </select>
+          </div>
+          <div className="col-span-2">
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="loan-borrower">Borrower</label>
+            <select
+              id="loan-borrower"
+              className="select w-full"
+              value={borrowerId}
+              onChange={(e) => setBorrowerId(e.target.value)}
+              required
+            >
+              <option value="">Select...</option>
+              {borrowerOptions.map((option) => (
+                <option key={option._id} value={option._id}>{option.label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="loan-due">Due back</label>
+          <input
+            id="loan-due"
+            type="date"
+            className="input w-full"
+            min={inDays(0)}
+            value={dueAt}
+            onChange={(e) => setDueAt(e.target.value)}
+            required
+          />
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="loan-notes">Notes</label>
+          <textarea
+            id="loan-notes"
+            className="input w-full"
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Condition when lent, accessories included..."
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-zinc-200">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSaving}>
+            {isSaving ? 'Checking out...' : 'Check Out'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
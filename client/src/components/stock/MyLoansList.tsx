@@ -0,0 +1,103 @@
+/**
+ * MyLoansList Component
+ *
+ * Equipment the current user has borrowed, directly or through their
+ * team or group, with overdue loans first.
+ */
+
+import React, { useMemo } from 'react';
+import { AlertTriangle, Wrench } from 'lucide-react';
+import { useMyLoans, loanBorrowerName } from '../../hooks';
+import { LoadingState, Alert, Badge } from '../ui';
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : '-';
+
+export const MyLoansList: React.FC = () => {
+  const { loans, isLoading, error } = useMyLoans();
+
+  const [open, returned] = useMemo(() => {
+    const out = loans
+      .filter((loan) => loan.status === 'out')
+      .sort((a, b) => Number(b.isOverdue) - Number(a.isOverdue) || a.dueAt.localeCompare(b.dueAt));
+    return [out, loans.filter((loan) => loan.status === 'returned')];
+  }, [loans]);
+
+  if (isLoading) return <LoadingState text="Loading your loans..." />;
+  if (error) return <Alert variant="error">{error}</Alert>;
+
+  if (loans.length === 0) {
+    return (
+      <div className="p-6 bg-[#f9fafb] border border-primary/10 rounded-xl text-center">
+        <Wrench className="w-8 h-8 text-primary/40 mx-auto mb-2" />
+        <p className="text-[#003300]/70">You have no equipment on loan.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {open.some((loan) => loan.isOverdue) && (
+        <Alert variant="error">
+          <div className="flex items-center gap-2">
+            <AlertTriangle className="w-4 h-4" />
+            Some equipment is past its due date. Please return it to the lab.
+          </div>
+        </Alert>
+      )}
+
+      <div>
+        <h3 className="text-lg font-semibold text-[#003300] mb-3">On Loan</h3>
+        {open.length === 0 ? (
+          <p className="text-sm text-[#003300]/70">Nothing out right now.</p>
+        ) : (
+          <div className="space-y-2">
+            {open.map((loan) => (
+              <div
+                key={loan._id}
+                className={`flex items-center justify-between gap-4 p-4 rounded-xl border ${
+                  loan.isOverdue ? 'bg-red-50 border-red-200' : 'bg-[#f9fafb] border-primary/10'
+                }`}
+              >
+                <div>
+                  <p className="font-medium text-[#003300]">{loan.qty} x {loan.partId?.name || 'Deleted part'}</p>
+                  {loan.serialNumbers.length > 0 && (
+                    <p className="text-xs text-[#003300]/60 font-mono">{loan.serialNumbers.join(', ')}</p>
+                  )}
+                  {loan.borrowerType !== 'student' && (
+                    <p className="text-xs text-[#003300]/60">Lent to {loanBorrowerName(loan)}</p>
+                  )}
+                </div>
+                <div className="text-right">
+                  <Badge variant={loan.isOverdue ? 'error' : 'info'} size="sm">
+                    {loan.isOverdue ? 'overdue' : 'out'}
+                  </Badge>
+                  <p className={`text-xs mt-1 ${loan.isOverdue ? 'text-red-700 font-semibold' : 'text-[#003300]/60'}`}>
+                    Due {formatDate(loan.dueAt)}
+                  </p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {returned.length > 0 && (
+        <div>
+          <h3 className="text-lg font-semibold text-[#003300] mb-3">Returned</h3>
+          <div className="space-y-2">
+            {returned.map((loan) => (
+              <div key={loan._id} className="flex items-center justify-between gap-4 p-3 rounded-xl border border-primary/10">
+                <p className="text-sm text-[#003300]">{loan.qty} x {loan.partId?.name || 'Deleted part'}</p>
+                <p className="text-xs text-[#003300]/60">
+                  Returned {formatDate(loan.checkIn?.checkedInAt)}
+                  {loan.checkIn?.condition === 'damaged' && ' · damaged'}
+                </p>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,276 @@
+/**
+ * PurchaseOrderFormModal Component
+ *
+ * Creates or edits a draft purchase order:
+ * - Supplier, expected delivery and notes
+ * - Lines of part, quantity and unit cost; unit costs default to the
+ *   part's last purchase cost
+ * - Lines raised from requisitions keep their link so receiving the
+ *   order also closes the requisitions
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import { Modal, Button } from '../ui';
+import type {
+  PartWithStock,
+  PurchaseOrder,
+  PurchaseOrderInput,
+  PurchaseOrderLineInput,
+  Supplier
+} from '../../hooks';
+
+interface PurchaseOrderFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  parts: PartWithStock[];
+  suppliers: Supplier[];
+  /** Draft order to edit; null to create one */
+  order: PurchaseOrder | null;
+  /** Prefill for a new order, e.g. from requisitions */
+  initial?: { supplierId?: string; lines: PurchaseOrderLineInput[] } | null;
+  /** Last unit cost per part id */
+  lastCosts?: Record<string, number>;
+  onSubmit: (data: PurchaseOrderInput) => Promise<{ success: boolean; error?: string }>;
+}
+
+interface LineState {
+  partId: string;
+  qty: string;
+  unitCost: string;
+  requisitionId?: string | null;
+}
+
+const toDateInput = (value?: string | null) => (value ? value.slice(0, 10) : '');
+
+export const PurchaseOrderFormModal: React.FC<PurchaseOrderFormModalProps> = ({
+  isOpen,
+  onClose,
+  parts,
+  suppliers,
+  order,
+  initial,
+  lastCosts = {},
+  onSubmit
+}) => {
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedAt, setExpectedAt] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<LineState[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const costFor = (partId: string) => (lastCosts[partId] !== undefined ? String(lastCosts[partId]) : '');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError('');
+
+    if (order) {
+      setSupplierId(order.supplierId?._id || '');
+      setExpectedAt(toDateInput(order.expectedAt));
+      setNotes(order.notes || '');
+      setLines(order.lines.map((line) => ({
+        partId: line.partId?._id || '',
+        qty: String(line.qty),
+        unitCost: String(line.unitCost),
+        requisitionId: line.requisitionId,
+      })));
+    } else {
+      setSupplierId(initial?.supplierId || '');
+      setExpectedAt('');
+      setNotes('');
+      setLines(
+        initial?.lines.length
+          ? initial.lines.map((line) => ({
+              partId: line.partId,
+              qty: String(line.qty),
+              unitCost: line.unitCost ? String(line.unitCost) : costFor(line.partId),
+              requisitionId: line.requisitionId,
+            }))
+          : [{ partId: '', qty: '1', unitCost: '' }]
+      );
+    }
+    // Prefill only when the modal opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, order, initial]);
+
+  const updateLine = (index: number, patch: Partial<LineState>) =>
+    setLines((prev) => prev.map((line, i) => (i === index ? { ...line, ...patch } : line)));
+
+  const changePart = (index: number, partId: string) =>
+    // A different part no longer fulfils the requisition the line came from
+    updateLine(index, { partId, unitCost: costFor(partId), requisitionId: null });
+
+  const total = lines.reduce(
+    (sum, line) => sum + (parseInt(line.qty, 10) || 0) * (parseFloat(line.unitCost) || 0),
+    0
+  );
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (!supplierId) {
+      setError('Select a supplier');
+      return;
+    }
+    if (lines.length === 0) {
+      setError('Add at least one line');
+      return;
+    }
+
+    const parsed: PurchaseOrderLineInput[] = [];
+    for (const line of lines) {
+      const qty = parseInt(line.qty, 10);
+      const unitCost = parseFloat(line.unitCost);
+      if (!line.partId || !qty || qty < 1 || Number.isNaN(unitCost) || unitCost < 0) {
+        setError('Every line needs a part, a quantity of at least 1 and a unit cost');
+        return;
+      }
+      parsed.push({ partId: line.partId, qty, unitCost, requisitionId: line.requisitionId || null });
+    }
+
+    setIsSaving(true);
+    const result = await onSubmit({
+      supplierId,
+      lines: parsed,
+      expectedAt: expectedAt || null,
+      notes: notes.trim(),
+    });
+    setIsSaving(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error || 'Failed to save purchase order');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={order ? `Edit ${order.orderNumber}` : 'New Purchase Order'}
+      description={order ? undefined : 'Orders are saved as drafts until placed'}
+      size="xl"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="po-supplier">Supplier</label>
+            <select
+              id="po-supplier"
+              className="select w-full"
+              value={supplierId}
+              onChange={(e) => setSupplierId(e.target.value)}
+              required
+            >
+              <option value="">Select supplier...</option>
+              {suppliers.map((supplier) => (
+                <option key={supplier._id} value={supplier._id}>{supplier.name}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="po-expected">Expected delivery</label>
+            <input
+              id="po-expected"
+              type="date"
+              className="input"
+              value={expectedAt}
+              onChange={(e) => setExpectedAt(e.target.value)}
+            />
+          </div>
+        </div>
+
+        <div>
+          <div className="flex items-center justify-between mb-2">
+            <span className="text-sm font-medium text-zinc-700">Lines</span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              leftIcon={<Plus className="w-4 h-4" />}
+              onClick={() => setLines((prev) => [...prev, { partId: '', qty: '1', unitCost: '' }])}
+            >
+              Add line
+            </Button>
+          </div>
+          <div className="space-y-2">
+            {lines.map((line, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <select
+                  className="select col-span-6"
+                  value={line.partId}
+                  onChange={(e) => changePart(index, e.target.value)}
+                  aria-label="Part"
+                >
+                  <option value="">Select part...</option>
+                  {parts.map((part) => (
+                    <option key={part._id} value={part._id}>{part.name} ({part.sku})</option>
+                  ))}
+                </select>
+                <input
+                  type="number"
+                  min={1}
+                  className="input col-span-2"
+                  value={line.qty}
+                  onChange={(e) => updateLine(index, { qty: e.target.value })}
+                  aria-label="Quantity"
+                />
+                <input
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  className="input col-span-3"
+                  value={line.unitCost}
+                  onChange={(e) => updateLine(index, { unitCost: e.target.value })}
+                  placeholder="Unit cost"
+                  aria-label="Unit cost"
+                />
+                <button
+                  type="button"
+                  onClick={() => setLines((prev) => prev.filter((_, i) => i !== index))}
+                  className="col-span-1 p-2 text-zinc-400 hover:text-red-600"
+                  aria-label="Remove line"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))}
+          </div>
+          <p className="text-right text-sm text-zinc-700 mt-3">
+            Total: <span className="font-semibold">{total.toFixed(2)}</span>
+          </p>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="po-notes">Notes</label>
+          <textarea
+            id="po-notes"
+            className="input"
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-zinc-200">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSaving}>
+            {isSaving ? 'Saving...' : order ? 'Save Changes' : 'Create Draft'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
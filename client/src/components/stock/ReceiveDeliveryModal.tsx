@@ -0,0 +1,145 @@
+/**
+ * ReceiveDeliveryModal Component
+ *
+ * Books a delivery against a purchase order. Each line defaults to its
+ * outstanding quantity; lines left at 0 are not received.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Modal, Button } from '../ui';
+import type { PurchaseOrder } from '../../hooks';
+
+interface ReceiveDeliveryModalProps {
+  order: PurchaseOrder | null;
+  onClose: () => void;
+  onSubmit: (
+    orderId: string,
+    lines: { lineId: string; qty: number }[],
+    notes?: string
+  ) => Promise<{ success: boolean; error?: string }>;
+}
+
+export const ReceiveDeliveryModal: React.FC<ReceiveDeliveryModalProps> = ({ order, onClose, onSubmit }) => {
+  const [quantities, setQuantities] = useState<Record<string, string>>({});
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!order) return;
+    setError('');
+    setNotes('');
+    setQuantities(Object.fromEntries(
+      order.lines.map((line) => [line._id, String(line.qty - line.receivedQty)])
+    ));
+  }, [order]);
+
+  if (!order) return null;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const lines = [];
+    for (const line of order.lines) {
+      const qty = parseInt(quantities[line._id] || '0', 10) || 0;
+      const outstanding = line.qty - line.receivedQty;
+      if (qty < 0 || qty > outstanding) {
+        setError(`${line.partId?.name || 'A line'} has only ${outstanding} outstanding`);
+        return;
+      }
+      if (qty > 0) lines.push({ lineId: line._id, qty });
+    }
+
+    if (lines.length === 0) {
+      setError('Enter a quantity for at least one line');
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await onSubmit(order._id, lines, notes.trim() || undefined);
+    setIsSaving(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error || 'Failed to receive delivery');
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={!!order}
+      onClose={onClose}
+      title={`Receive ${order.orderNumber}`}
+      description={order.supplierId?.name}
+      size="lg"
+    >
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-zinc-500 border-b border-zinc-200">
+              <th className="py-2 pr-4 font-medium">Part</th>
+              <th className="py-2 pr-4 font-medium text-right">Ordered</th>
+              <th className="py-2 pr-4 font-medium text-right">Received</th>
+              <th className="py-2 font-medium text-right">Receiving now</th>
+            </tr>
+          </thead>
+          <tbody>
+            {order.lines.map((line) => {
+              const outstanding = line.qty - line.receivedQty;
+              return (
+                <tr key={line._id} className="border-b border-zinc-100">
+                  <td className="py-2 pr-4 text-zinc-900">{line.partId?.name || 'Deleted part'}</td>
+                  <td className="py-2 pr-4 text-right text-zinc-700">{line.qty}</td>
+                  <td className="py-2 pr-4 text-right text-zinc-700">{line.receivedQty}</td>
+                  <td className="py-2 text-right">
+                    {outstanding > 0 ? (
+                      <input
+                        type="number"
+                        min={0}
+                        max={outstanding}
+                        className="input w-24 text-right"
+                        value={quantities[line._id] ?? ''}
+                        onChange={(e) => setQuantities((prev) => ({ ...prev, [line._id]: e.target.value }))}
+                        aria-label={`Quantity of ${line.partId?.name || 'part'} received`}
+                      />
+                    ) : (
+                      <span className="text-green-600">Complete</span>
+                    )}
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="receive-notes">Notes</label>
+          <input
+            id="receive-notes"
+            className="input"
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            placeholder="Delivery note number, condition..."
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-zinc-200">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSaving}>
+            {isSaving ? 'Receiving...' : 'Receive into Stock'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
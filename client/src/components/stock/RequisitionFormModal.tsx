@@ -0,0 +1,181 @@
+/**
+ * RequisitionFormModal Component
+ *
+ * Raises a purchase requisition by hand. The part can be preselected
+ * (e.g. from the low-stock list), in which case quantity and supplier
+ * are prefilled from its reorder settings.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Modal, Button } from '../ui';
+import type { PartWithStock, RequisitionInput, Supplier } from '../../hooks';
+
+interface RequisitionFormModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  parts: PartWithStock[];
+  suppliers: Supplier[];
+  /** Part to preselect */
+  initialPartId?: string | null;
+  onSubmit: (data: RequisitionInput) => Promise<{ success: boolean; error?: string }>;
+}
+
+export const RequisitionFormModal: React.FC<RequisitionFormModalProps> = ({
+  isOpen,
+  onClose,
+  parts,
+  suppliers,
+  initialPartId,
+  onSubmit
+}) => {
+  const [partId, setPartId] = useState('');
+  const [qty, setQty] = useState('1');
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedAt, setExpectedAt] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const prefillFromPart = (id: string) => {
+    const part = parts.find((p) => p._id === id);
+    setPartId(id);
+    if (!part) return;
+    const shortfall = (part.reorderPoint || 0) - part.availableQty;
+    setQty(String(Math.max(part.reorderQty || 0, shortfall, 1)));
+    setSupplierId(part.supplierId || '');
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setError('');
+    setQty('1');
+    setSupplierId('');
+    setExpectedAt('');
+    setNotes('');
+    if (initialPartId) {
+      prefillFromPart(initialPartId);
+    } else {
+      setPartId('');
+    }
+    // Prefill only when the modal opens
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen, initialPartId]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    const quantity = parseInt(qty, 10);
+    if (!partId) {
+      setError('Select a part');
+      return;
+    }
+    if (!quantity || quantity < 1) {
+      setError('Quantity must be at least 1');
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await onSubmit({
+      partId,
+      qty: quantity,
+      supplierId: supplierId || null,
+      notes: notes.trim() || undefined,
+      expectedAt: expectedAt || null,
+    });
+    setIsSaving(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error || 'Failed to raise requisition');
+    }
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="New Requisition" size="md">
+      <form onSubmit={handleSubmit} className="space-y-4">
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="requisition-part">Part</label>
+          <select
+            id="requisition-part"
+            className="select w-full"
+            value={partId}
+            onChange={(e) => prefillFromPart(e.target.value)}
+            required
+          >
+            <option value="">Select part...</option>
+            {parts.map((part) => (
+              <option key={part._id} value={part._id}>
+                {part.name} ({part.sku}) - {part.availableQty} available
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="requisition-qty">Quantity</label>
+            <input
+              id="requisition-qty"
+              type="number"
+              min={1}
+              className="input"
+              value={qty}
+              onChange={(e) => setQty(e.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="requisition-expected">Expected by</label>
+            <input
+              id="requisition-expected"
+              type="date"
+              className="input"
+              value={expectedAt}
+              onChange={(e) => setExpectedAt(e.target.value)}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="requisition-supplier">Supplier</label>
+          <select
+            id="requisition-supplier"
+            className="select w-full"
+            value={supplierId}
+            onChange={(e) => setSupplierId(e.target.value)}
+          >
+            <option value="">Not decided yet</option>
+            {suppliers.map((supplier) => (
+              <option key={supplier._id} value={supplier._id}>{supplier.name}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-zinc-700 mb-1" htmlFor="requisition-notes">Notes</label>
+          <textarea
+            id="requisition-notes"
+            className="input"
+            rows={2}
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+          />
+        </div>
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-3 pt-4 border-t border-zinc-200">
+          <Button type="button" variant="ghost" onClick={onClose} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button type="submit" variant="primary" disabled={isSaving}>
+            {isSaving ? 'Saving...' : 'Raise Requisition'}
+          </Button>
+        </div>
+      </form>
+    </Modal>
+  );
+};
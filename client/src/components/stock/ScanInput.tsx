@@ -0,0 +1,156 @@
+/**
+ * ScanInput Component
+ *
+ * Reads part and bin labels from either source:
+ * - USB keyboard-wedge scanners, which type the code and press Enter
+ * - The device camera, where the browser supports BarcodeDetector
+ */
+
+import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { Camera, CameraOff, ScanLine } from 'lucide-react';
+
+// BarcodeDetector is not in the TypeScript DOM lib yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+type BarcodeDetectorConstructor = new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+// Formats printed on our labels plus common supplier barcodes
+const CAMERA_FORMATS = ['qr_code', 'code_128', 'ean_13', 'ean_8', 'upc_a', 'code_39'];
+
+// Ignore the same code while it stays in front of the camera
+const REPEAT_DELAY_MS = 2000;
+
+interface ScanInputProps {
+  onScan: (code: string) => void;
+  disabled?: boolean;
+  placeholder?: string;
+}
+
+export const ScanInput: React.FC<ScanInputProps> = ({
+  onScan,
+  disabled = false,
+  placeholder = 'Scan a label or type a SKU, then press Enter'
+}) => {
+  const [value, setValue] = useState('');
+  const [cameraOn, setCameraOn] = useState(false);
+  const [cameraError, setCameraError] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const lastScanRef = useRef({ code: '', at: 0 });
+  const cameraSupported = !!getBarcodeDetector() && !!navigator.mediaDevices?.getUserMedia;
+
+  const emit = useCallback((code: string) => {
+    const trimmed = code.trim();
+    if (!trimmed) return;
+
+    const now = Date.now();
+    if (lastScanRef.current.code === trimmed && now - lastScanRef.current.at < REPEAT_DELAY_MS) return;
+    lastScanRef.current = { code: trimmed, at: now };
+
+    onScan(trimmed);
+  }, [onScan]);
+
+  // Keep the field focused so the next wedge scan lands in it
+  useEffect(() => {
+    if (!disabled) inputRef.current?.focus();
+  }, [disabled]);
+
+  useEffect(() => {
+    if (!cameraOn) return;
+
+    const Detector = getBarcodeDetector();
+    if (!Detector) return;
+
+    let stream: MediaStream | null = null;
+    let timer: number | undefined;
+    let stopped = false;
+
+    const start = async () => {
+      try {
+        stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+        if (stopped || !videoRef.current) return;
+
+        videoRef.current.srcObject = stream;
+        await videoRef.current.play();
+
+        const detector = new Detector({ formats: CAMERA_FORMATS });
+        timer = window.setInterval(async () => {
+          if (!videoRef.current || videoRef.current.readyState < 2) return;
+          try {
+            const [barcode] = await detector.detect(videoRef.current);
+            if (barcode) emit(barcode.rawValue);
+          } catch {
+            // A frame that cannot be read is skipped
+          }
+        }, 300);
+      } catch (err) {
+        console.error('Error starting camera:', err);
+        setCameraError('Could not open the camera');
+        setCameraOn(false);
+      }
+    };
+
+    setCameraError('');
+    start();
+
+    return () => {
+      stopped = true;
+      window.clearInterval(timer);
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [cameraOn, emit]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key !== 'Enter') return;
+    e.preventDefault();
+    // Wedge scans repeat legitimately (e.g. receiving one unit at a time)
+    lastScanRef.current = { code: '', at: 0 };
+    emit(value);
+    setValue('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <div className="flex-1 relative">
+          <ScanLine className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 w-5 h-5" />
+          <input
+            ref={inputRef}
+            type="text"
+            className="input pl-11 w-full font-mono"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            onKeyDown={handleKeyDown}
+            placeholder={placeholder}
+            disabled={disabled}
+            autoComplete="off"
+            spellCheck={false}
+          />
+        </div>
+        <button
+          type="button"
+          className="btn-outline flex items-center gap-2"
+          onClick={() => setCameraOn((on) => !on)}
+          disabled={!cameraSupported || disabled}
+          title={cameraSupported ? undefined : 'Camera scanning is not supported in this browser; use a USB scanner'}
+        >
+          {cameraOn ? <CameraOff className="w-4 h-4" /> : <Camera className="w-4 h-4" />}
+          {cameraOn ? 'Stop' : 'Camera'}
+        </button>
+      </div>
+      {cameraOn && (
+        <video ref={videoRef} className="w-full max-h-64 rounded-lg bg-black object-cover" muted playsInline />
+      )}
+      {cameraError && <p className="text-sm text-red-400">{cameraError}</p>}
+    </div>
+  );
+};
@@ -12,10 +12,11 @@ interface PartWithStock {
   group?: string;
   createdAt: string;
   updatedAt: string;
+  onHandQty: number;
+  reservedQty: number;
   availableQty: number;
   usedQty: number;
   damagedQty: number;
-  reservedQty?: number;
   totalQty: number;
   imageUrl?: string;
 }
@@ -186,7 +187,17 @@ export const StockDetailsModal: React.FC<StockDetailsModalProps> = ({
                 
                 <div className="space-y-4">
                   <div className="flex justify-between items-center">
-                    <span className="text-gray-400">Available:</span>
+                    <span className="text-gray-400">On Hand:</span>
+                    <span className="text-xl font-semibold text-gray-200">{part.onHandQty}</span>
+                  </div>
+
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-400">Reserved:</span>
+                    <span className="text-xl font-semibold text-blue-400">{part.reservedQty}</span>
+                  </div>
+
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-400" title="On hand minus reserved">Available to Promise:</span>
                     <div className="flex items-center gap-2">
                       <span className={`text-2xl font-bold ${lowStock ? 'text-yellow-400' : 'text-green-400'}`}>
                         {part.availableQty}
@@ -196,7 +207,7 @@ export const StockDetailsModal: React.FC<StockDetailsModalProps> = ({
                   </div>
                   
                   <div className="flex justify-between items-center">
-                    <span className="text-gray-400">In Use:</span>
+                    <span className="text-gray-400">Used:</span>
                     <span className="text-xl font-semibold text-yellow-400">{part.usedQty}</span>
                   </div>
                   
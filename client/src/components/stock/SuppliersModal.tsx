@@ -0,0 +1,166 @@
+/**
+ * SuppliersModal Component
+ *
+ * Manages the supplier catalog: add, edit, deactivate and delete.
+ * Suppliers with purchase orders are deactivated on delete so past
+ * orders keep their supplier.
+ */
+
+import React, { useState } from 'react';
+import { Edit2, Trash2 } from 'lucide-react';
+import { Modal, Button, Badge } from '../ui';
+import type { Supplier, SupplierInput } from '../../hooks';
+
+interface SuppliersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  suppliers: Supplier[];
+  actions: {
+    create: (data: Partial<SupplierInput>) => Promise<{ success: boolean; error?: string }>;
+    update: (id: string, data: Partial<SupplierInput>) => Promise<{ success: boolean; error?: string }>;
+    delete: (id: string) => Promise<{ success: boolean; error?: string; message?: string }>;
+  };
+}
+
+const emptyForm = { name: '', contactName: '', email: '', phone: '', website: '', notes: '' };
+
+export const SuppliersModal: React.FC<SuppliersModalProps> = ({ isOpen, onClose, suppliers, actions }) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState('');
+
+  const resetForm = () => {
+    setEditingId(null);
+    setForm(emptyForm);
+    setError('');
+  };
+
+  const startEdit = (supplier: Supplier) => {
+    setEditingId(supplier._id);
+    setError('');
+    setForm({
+      name: supplier.name,
+      contactName: supplier.contactName || '',
+      email: supplier.email || '',
+      phone: supplier.phone || '',
+      website: supplier.website || '',
+      notes: supplier.notes || '',
+    });
+  };
+
+  const update = (field: keyof typeof emptyForm) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form.name.trim()) {
+      setError('Name is required');
+      return;
+    }
+
+    setIsSaving(true);
+    const data = { ...form, name: form.name.trim() };
+    const result = editingId ? await actions.update(editingId, data) : await actions.create(data);
+    setIsSaving(false);
+
+    if (result.success) {
+      resetForm();
+    } else {
+      setError(result.error || 'Failed to save supplier');
+    }
+  };
+
+  const handleToggleActive = async (supplier: Supplier) => {
+    const result = await actions.update(supplier._id, { isActive: !supplier.isActive });
+    if (!result.success) setError(result.error || 'Failed to update supplier');
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    if (!window.confirm(`Delete supplier "${supplier.name}"?`)) return;
+    const result = await actions.delete(supplier._id);
+    if (!result.success) {
+      setError(result.error || 'Failed to delete supplier');
+    } else if (result.message && result.message !== 'Supplier deleted') {
+      setError(result.message);
+    }
+    if (editingId === supplier._id) resetForm();
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Suppliers" size="xl">
+      <div className="space-y-6">
+        {suppliers.length === 0 ? (
+          <p className="text-sm text-zinc-500">No suppliers yet.</p>
+        ) : (
+          <ul className="divide-y divide-zinc-100 max-h-72 overflow-y-auto">
+            {suppliers.map((supplier) => (
+              <li key={supplier._id} className="flex items-center justify-between py-2 gap-4">
+                <div className="min-w-0">
+                  <p className="font-medium text-zinc-900 flex items-center gap-2">
+                    {supplier.name}
+                    {!supplier.isActive && <Badge variant="default" size="sm">inactive</Badge>}
+                  </p>
+                  <p className="text-xs text-zinc-500 truncate">
+                    {[supplier.contactName, supplier.email, supplier.phone].filter(Boolean).join(' · ') || 'No contact details'}
+                    {' · '}{supplier.partCount || 0} part{supplier.partCount === 1 ? '' : 's'}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1 flex-shrink-0">
+                  <Button variant="ghost" size="sm" onClick={() => handleToggleActive(supplier)}>
+                    {supplier.isActive ? 'Deactivate' : 'Activate'}
+                  </Button>
+                  <button
+                    type="button"
+                    onClick={() => startEdit(supplier)}
+                    className="p-2 text-zinc-400 hover:text-zinc-700"
+                    aria-label={`Edit ${supplier.name}`}
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => handleDelete(supplier)}
+                    className="p-2 text-zinc-400 hover:text-red-600"
+                    aria-label={`Delete ${supplier.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-3 pt-4 border-t border-zinc-200">
+          <h3 className="text-sm font-semibold text-zinc-900">{editingId ? 'Edit supplier' : 'Add supplier'}</h3>
+          <div className="grid grid-cols-2 gap-3">
+            <input className="input" placeholder="Name *" value={form.name} onChange={update('name')} aria-label="Name" />
+            <input className="input" placeholder="Contact person" value={form.contactName} onChange={update('contactName')} aria-label="Contact person" />
+            <input className="input" type="email" placeholder="Email" value={form.email} onChange={update('email')} aria-label="Email" />
+            <input className="input" placeholder="Phone" value={form.phone} onChange={update('phone')} aria-label="Phone" />
+            <input className="input" placeholder="Website" value={form.website} onChange={update('website')} aria-label="Website" />
+            <input className="input" placeholder="Notes" value={form.notes} onChange={update('notes')} aria-label="Notes" />
+          </div>
+
+          {error && (
+            <div className="bg-red-50 border border-red-200 rounded-lg p-3">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3">
+            {editingId && (
+              <Button type="button" variant="ghost" onClick={resetForm} disabled={isSaving}>
+                Cancel edit
+              </Button>
+            )}
+            <Button type="submit" variant="primary" disabled={isSaving}>
+              {isSaving ? 'Saving...' : editingId ? 'Save Supplier' : 'Add Supplier'}
+            </Button>
+          </div>
+        </form>
+      </div>
+    </Modal>
+  );
+};
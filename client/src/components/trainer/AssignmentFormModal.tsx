@@ -0,0 +1,440 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { X, Save, Plus, Trash2, AlertCircle } from "lucide-react";
+import { CardComponent, CardBody, Button, Input, Alert } from "../ui";
+import type {
+  AssignmentFormData,
+  CourseModule,
+  RubricCriterion,
+  TrainerAssignment,
+} from "../../hooks/useTrainerAssignments";
+
+interface AssignmentFormModalProps {
+  assignment?: TrainerAssignment | null;
+  courses: Array<{ _id: string; title: string }>;
+  loadModules: (courseId: string) => Promise<CourseModule[]>;
+  onClose: () => void;
+  onSubmit: (data: AssignmentFormData) => Promise<boolean>;
+}
+
+const FILE_TYPES = ["pdf", "doc", "docx", "txt", "jpg", "jpeg", "png", "zip", "rar"];
+
+// datetime-local inputs work in local time without a zone suffix
+const toLocalInput = (iso?: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16);
+};
+
+export default function AssignmentFormModal({
+  assignment,
+  courses,
+  loadModules,
+  onClose,
+  onSubmit,
+}: AssignmentFormModalProps) {
+  const isEditing = !!assignment;
+
+  const [courseId, setCourseId] = useState(assignment?.course._id || "");
+  const [moduleId, setModuleId] = useState("");
+  const [loadedModules, setLoadedModules] = useState<{ courseId: string; items: CourseModule[] } | null>(null);
+  const [title, setTitle] = useState(assignment?.title || "");
+  const [description, setDescription] = useState(assignment?.description || "");
+  const [instructions, setInstructions] = useState(assignment?.instructions || "");
+  const [dueDate, setDueDate] = useState(toLocalInput(assignment?.dueDate));
+  const [maxScore, setMaxScore] = useState(assignment?.maxScore ?? 100);
+  const [allowedFileTypes, setAllowedFileTypes] = useState<string[]>(assignment?.allowedFileTypes || []);
+  const [maxFileSize, setMaxFileSize] = useState(assignment?.maxFileSize ?? 5);
+  const [maxFiles, setMaxFiles] = useState(assignment?.maxFiles ?? 5);
+  const [allowLateSubmission, setAllowLateSubmission] = useState(assignment?.allowLateSubmission ?? false);
+  const [lateDeadline, setLateDeadline] = useState(toLocalInput(assignment?.lateSubmissionDeadline));
+  const [latePenalty, setLatePenalty] = useState(assignment?.latePenalty ?? 0);
+  const [rubric, setRubric] = useState<RubricCriterion[]>(assignment?.rubric || []);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load modules of the selected course; modules that already hold an assignment are skipped
+  useEffect(() => {
+    if (isEditing || !courseId) return;
+    let active = true;
+    loadModules(courseId).then((data) => {
+      if (active) setLoadedModules({ courseId, items: data.filter((m) => !m.assignment) });
+    });
+    return () => {
+      active = false;
+    };
+  }, [courseId, isEditing, loadModules]);
+
+  const modules = loadedModules?.courseId === courseId ? loadedModules.items : [];
+
+  const rubricTotal = rubric.reduce((sum, item) => sum + (Number(item.points) || 0), 0);
+
+  const toggleFileType = (type: string) => {
+    setAllowedFileTypes((prev) =>
+      prev.includes(type) ? prev.filter((t) => t !== type) : [...prev, type]
+    );
+  };
+
+  const updateCriterion = (index: number, changes: Partial<RubricCriterion>) => {
+    setRubric((prev) => prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!courseId) {
+      setError("Please select a course");
+      return;
+    }
+    if (!title.trim() || !description.trim()) {
+      setError("Please enter a title and description");
+      return;
+    }
+    if (!dueDate) {
+      setError("Please set a due date");
+      return;
+    }
+    if (allowLateSubmission && lateDeadline && new Date(lateDeadline) <= new Date(dueDate)) {
+      setError("The late submission deadline must be after the due date");
+      return;
+    }
+    if (rubric.some((item) => !item.criteria.trim() || item.points <= 0)) {
+      setError("Every rubric criterion needs a name and positive points");
+      return;
+    }
+
+    setIsSaving(true);
+    const ok = await onSubmit({
+      courseId: isEditing ? undefined : courseId,
+      moduleId: isEditing ? undefined : moduleId || undefined,
+      title: title.trim(),
+      description: description.trim(),
+      instructions: instructions.trim() || undefined,
+      dueDate: new Date(dueDate).toISOString(),
+      maxScore,
+      allowedFileTypes,
+      maxFileSize,
+      maxFiles,
+      allowLateSubmission,
+      lateSubmissionDeadline: allowLateSubmission && lateDeadline ? new Date(lateDeadline).toISOString() : null,
+      latePenalty: allowLateSubmission ? latePenalty : 0,
+      rubric: rubric.map((item) => ({ ...item, criteria: item.criteria.trim() })),
+    });
+    setIsSaving(false);
+
+    if (ok) {
+      onClose();
+    } else {
+      setError(isEditing ? "Failed to update assignment" : "Failed to create assignment");
+    }
+  };
+
+  const fieldClass =
+    "w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white focus:outline-none focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CardComponent variant="glass">
+          <CardBody>
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold">{isEditing ? "Edit Assignment" : "New Assignment"}</h2>
+              <button
+                onClick={onClose}
+                className="text-white/60 hover:text-white transition-colors"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && (
+              <Alert variant="error" className="mb-6">
+                <AlertCircle className="w-5 h-5" />
+                <span>{error}</span>
+              </Alert>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {/* Course & Module */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Course <span className="text-red-400">*</span>
+                  </label>
+                  <select
+                    value={courseId}
+                    onChange={(e) => {
+                      setCourseId(e.target.value);
+                      setModuleId("");
+                    }}
+                    disabled={isEditing}
+                    className={fieldClass}
+                  >
+                    <option value="" className="bg-zinc-900">Select a course</option>
+                    {courses.map((course) => (
+                      <option key={course._id} value={course._id} className="bg-zinc-900">
+                        {course.title}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Module</label>
+                  {isEditing ? (
+                    <Input value={assignment?.module?.title || ""} disabled />
+                  ) : (
+                    <select
+                      value={moduleId}
+                      onChange={(e) => setModuleId(e.target.value)}
+                      disabled={!courseId}
+                      className={fieldClass}
+                    >
+                      <option value="" className="bg-zinc-900">Create a new module</option>
+                      {modules.map((module) => (
+                        <option key={module._id} value={module._id} className="bg-zinc-900">
+                          {module.order}. {module.title}
+                        </option>
+                      ))}
+                    </select>
+                  )}
+                </div>
+              </div>
+
+              {/* Title */}
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Title <span className="text-red-400">*</span>
+                </label>
+                <Input
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="e.g., Build a line-following robot"
+                  maxLength={200}
+                />
+              </div>
+
+              {/* Description */}
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Description <span className="text-red-400">*</span>
+                </label>
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={3}
+                  maxLength={2000}
+                  className={`${fieldClass} resize-none`}
+                />
+              </div>
+
+              {/* Instructions */}
+              <div>
+                <label className="block text-sm font-medium mb-2">Instructions</label>
+                <textarea
+                  value={instructions}
+                  onChange={(e) => setInstructions(e.target.value)}
+                  rows={4}
+                  maxLength={5000}
+                  className={`${fieldClass} resize-none`}
+                />
+              </div>
+
+              {/* Due date & score */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">
+                    Due Date <span className="text-red-400">*</span>
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={dueDate}
+                    onChange={(e) => setDueDate(e.target.value)}
+                    className={fieldClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Max Score</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={maxScore}
+                    onChange={(e) => setMaxScore(Number(e.target.value))}
+                  />
+                </div>
+              </div>
+
+              {/* Files */}
+              <div>
+                <label className="block text-sm font-medium mb-2">Allowed file types</label>
+                <div className="flex flex-wrap gap-2">
+                  {FILE_TYPES.map((type) => (
+                    <button
+                      key={type}
+                      type="button"
+                      onClick={() => toggleFileType(type)}
+                      className={`px-3 py-1.5 rounded-lg text-sm border transition-all ${
+                        allowedFileTypes.includes(type)
+                          ? "bg-primary/20 border-primary text-white"
+                          : "bg-white/5 border-white/10 text-white/60 hover:text-white"
+                      }`}
+                    >
+                      .{type}
+                    </button>
+                  ))}
+                </div>
+                <p className="text-xs text-white/40 mt-1">Leave empty to accept all supported types</p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium mb-2">Max file size (MB)</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={maxFileSize}
+                    onChange={(e) => setMaxFileSize(Number(e.target.value))}
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Max files</label>
+                  <Input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={maxFiles}
+                    onChange={(e) => setMaxFiles(Number(e.target.value))}
+                  />
+                </div>
+              </div>
+
+              {/* Late submissions */}
+              <div className="p-4 rounded-lg bg-white/5 border border-white/10 space-y-3">
+                <label className="flex items-center gap-2 text-sm">
+                  <input
+                    type="checkbox"
+                    checked={allowLateSubmission}
+                    onChange={(e) => setAllowLateSubmission(e.target.checked)}
+                  />
+                  Accept late submissions
+                </label>
+                {allowLateSubmission && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label className="block text-sm font-medium mb-2">Late deadline</label>
+                      <input
+                        type="datetime-local"
+                        value={lateDeadline}
+                        min={dueDate || undefined}
+                        onChange={(e) => setLateDeadline(e.target.value)}
+                        className={fieldClass}
+                      />
+                      <p className="text-xs text-white/40 mt-1">Leave empty for no cut-off</p>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium mb-2">Late penalty (%)</label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={100}
+                        value={latePenalty}
+                        onChange={(e) => setLatePenalty(Number(e.target.value))}
+                      />
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              {/* Rubric */}
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="block text-sm font-medium">
+                    Rubric {rubric.length > 0 && <span className="text-white/40">({rubricTotal} pts)</span>}
+                  </label>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="xs"
+                    leftIcon={<Plus className="w-3 h-3" />}
+                    onClick={() => setRubric((prev) => [...prev, { criteria: "", points: 10 }])}
+                  >
+                    Add Criterion
+                  </Button>
+                </div>
+                {rubric.length === 0 ? (
+                  <p className="text-sm text-white/40">
+                    Without a rubric the submission is graded with a single score out of {maxScore}
+                  </p>
+                ) : (
+                  <div className="space-y-2">
+                    {rubric.map((item, index) => (
+                      <div key={item._id || index} className="flex items-center gap-2">
+                        <div className="flex-1">
+                          <Input
+                            value={item.criteria}
+                            onChange={(e) => updateCriterion(index, { criteria: e.target.value })}
+                            placeholder="e.g., Circuit works as specified"
+                          />
+                        </div>
+                        <div className="w-24">
+                          <Input
+                            type="number"
+                            min={1}
+                            value={item.points}
+                            onChange={(e) => updateCriterion(index, { points: Number(e.target.value) })}
+                          />
+                        </div>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRubric((prev) => prev.filter((_, i) => i !== index))}
+                          className="text-error hover:text-error"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                    <p className="text-xs text-white/40">
+                      Rubric points are scaled to the max score of {maxScore}
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {/* Action Buttons */}
+              <div className="flex justify-end gap-3 pt-4 border-t border-white/10">
+                <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  variant="primary"
+                  leftIcon={<Save className="w-5 h-5" />}
+                  isLoading={isSaving}
+                >
+                  {isEditing ? "Save Changes" : "Create Assignment"}
+                </Button>
+              </div>
+            </form>
+          </CardBody>
+        </CardComponent>
+      </motion.div>
+    </motion.div>
+  );
+}
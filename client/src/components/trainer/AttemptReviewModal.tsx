@@ -0,0 +1,269 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { X, CheckCircle, AlertCircle, XCircle } from "lucide-react";
+import { CardComponent, CardBody, Button, Alert, Badge, Input, LoadingState } from "../ui";
+import { QUESTION_TYPE_LABELS } from "../../hooks/useTrainerQuizzes";
+import type { QuizReviewGrade } from "../../hooks/useTrainerQuizzes";
+import type { QuizAttemptDetail } from "../../hooks/useQuizAnalytics";
+
+type AttemptAnswer = QuizAttemptDetail["answers"][number];
+
+interface AttemptReviewModalProps {
+  attemptId: string;
+  onClose: () => void;
+  onSaved: () => void;
+  fetchAttempt: (attemptId: string) => Promise<{ success: boolean; attempt?: QuizAttemptDetail; error?: string }>;
+  onReview: (attemptId: string, grades: QuizReviewGrade[]) => Promise<{ success: boolean; error?: string }>;
+}
+
+// What the student gave, in words
+function StudentAnswer({ answer }: { answer: AttemptAnswer }) {
+  const none = <span className="italic text-white/40">No answer</span>;
+
+  switch (answer.type) {
+    case "single":
+    case "multiple":
+    case "true_false":
+      return (
+        <ul className="space-y-1">
+          {answer.options.map((text, idx) => {
+            const chosen = answer.selectedOptions.includes(idx);
+            const correct = answer.correctOptions.includes(idx);
+            return (
+              <li key={idx} className={`flex items-center gap-2 ${chosen ? "text-white" : "text-white/50"}`}>
+                {chosen ? (
+                  correct ? <CheckCircle className="w-4 h-4 text-success" /> : <XCircle className="w-4 h-4 text-error" />
+                ) : (
+                  <span className="w-4 h-4" />
+                )}
+                <span>{text}</span>
+                {correct && <span className="text-xs text-success">correct</span>}
+              </li>
+            );
+          })}
+        </ul>
+      );
+    case "ordering":
+      return answer.selectedOptions.length > 0
+        ? <p>{answer.selectedOptions.map((idx) => answer.options[idx]).join(" → ")}</p>
+        : none;
+    case "matching":
+      return answer.selectedOptions.some((idx) => idx >= 0) ? (
+        <ul className="space-y-1">
+          {(answer.pairs || []).map((pair, position) => (
+            <li key={position}>
+              {pair.left} → {answer.pairs?.[answer.selectedOptions[position]]?.right ?? "—"}
+            </li>
+          ))}
+        </ul>
+      ) : none;
+    default:
+      return answer.textAnswer
+        ? <p className="whitespace-pre-wrap">{answer.textAnswer}</p>
+        : none;
+  }
+}
+
+// Essays waiting for a grade start blank rather than at 0
+const initialPoints = (answer: AttemptAnswer): number | "" => (answer.needsReview ? "" : answer.pointsEarned);
+
+export default function AttemptReviewModal({ attemptId, onClose, onSaved, fetchAttempt, onReview }: AttemptReviewModalProps) {
+  const [attempt, setAttempt] = useState<QuizAttemptDetail | null>(null);
+  const [points, setPoints] = useState<Record<string, number | "">>({});
+  const [feedback, setFeedback] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchAttempt(attemptId).then((result) => {
+      if (result.success && result.attempt) {
+        setAttempt(result.attempt);
+        setPoints(Object.fromEntries(result.attempt.answers.map((answer) => [answer.questionId, initialPoints(answer)])));
+        setFeedback(Object.fromEntries(result.attempt.answers.map((answer) => [answer.questionId, answer.feedback || ""])));
+      } else {
+        setError(result.error || "Failed to load the attempt");
+      }
+    });
+  }, [attemptId, fetchAttempt]);
+
+  const handleSave = async () => {
+    if (!attempt) return;
+    setError(null);
+
+    // Only what the trainer changed is sent
+    const changed = attempt.answers.filter(
+      (answer) =>
+        points[answer.questionId] !== initialPoints(answer) ||
+        (feedback[answer.questionId] || "") !== (answer.feedback || "")
+    );
+    if (changed.length === 0) {
+      onClose();
+      return;
+    }
+
+    const invalid = changed.find((answer) => {
+      const value = points[answer.questionId];
+      return value === "" || value === undefined || value < 0 || value > answer.points;
+    });
+    if (invalid) {
+      setError(`Points for "${invalid.question}" must be between 0 and ${invalid.points}`);
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await onReview(
+      attempt._id,
+      changed.map((answer) => ({
+        questionId: answer.questionId,
+        pointsEarned: Number(points[answer.questionId]),
+        feedback: feedback[answer.questionId]?.trim() || undefined,
+      }))
+    );
+    setIsSaving(false);
+
+    if (result.success) {
+      onSaved();
+      onClose();
+    } else {
+      setError(result.error || "Failed to save review");
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CardComponent variant="glass">
+          <CardBody>
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h2 className="text-2xl font-bold">{attempt?.student?.name || "Student"}</h2>
+                {attempt && (
+                  <p className="text-sm text-white/60 mt-1">
+                    {attempt.quiz.title} · attempt {attempt.attemptNumber} · submitted{" "}
+                    {new Date(attempt.submittedAt).toLocaleString()}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={onClose}
+                className="text-white/60 hover:text-white transition-colors"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && (
+              <Alert variant="error" className="mb-6">
+                <AlertCircle className="w-5 h-5" />
+                <span>{error}</span>
+              </Alert>
+            )}
+
+            {!attempt ? (
+              !error && <LoadingState type="spinner" text="Loading attempt..." />
+            ) : (
+              <>
+                <p className="text-sm text-white/60 mb-6">
+                  {attempt.earnedPoints}/{attempt.totalPoints} points ({attempt.score}%),{" "}
+                  {attempt.passed ? "passed" : "not passed"}; passing is {attempt.quiz.passingScore}%.
+                  {attempt.pendingReview && " Essay answers are still waiting for a grade."}
+                </p>
+
+                {/* Answers */}
+                <div className="space-y-6">
+                  {attempt.answers.map((answer, index) => (
+                    <div key={answer.questionId} className="p-4 rounded-lg bg-white/5 border border-white/10">
+                      <div className="flex flex-wrap items-center gap-2 mb-2">
+                        <Badge variant="secondary" size="sm">{QUESTION_TYPE_LABELS[answer.type]}</Badge>
+                        {answer.needsReview ? (
+                          <Badge variant="warning" size="sm">Needs review</Badge>
+                        ) : (
+                          <Badge variant={answer.isCorrect ? "success" : "error"} size="sm">
+                            {answer.isCorrect ? "Correct" : "Incorrect"}
+                          </Badge>
+                        )}
+                        {answer.scoreOverride !== null && (
+                          <Badge variant="info" size="sm">Points fixed for everyone</Badge>
+                        )}
+                        {answer.reviewedAt && answer.scoreOverride === null && (
+                          <Badge variant="default" size="sm">Graded by hand</Badge>
+                        )}
+                      </div>
+                      <p className="font-semibold mb-2">
+                        {index + 1}. {answer.question}
+                      </p>
+                      {answer.code && (
+                        <pre className="text-xs bg-black/40 rounded p-3 mb-3 overflow-x-auto">{answer.code}</pre>
+                      )}
+                      <div className="text-sm text-white/80 mb-3">
+                        <StudentAnswer answer={answer} />
+                      </div>
+                      {answer.correctAnswer && (
+                        <p className="text-xs text-white/50 mb-3">Correct answer: {answer.correctAnswer}</p>
+                      )}
+                      <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                        <div>
+                          <label className="block text-sm font-medium mb-1">Points (max {answer.points})</label>
+                          <Input
+                            type="number"
+                            min={0}
+                            max={answer.points}
+                            step="any"
+                            value={points[answer.questionId] ?? ""}
+                            onChange={(e) =>
+                              setPoints((prev) => ({
+                                ...prev,
+                                [answer.questionId]: e.target.value === "" ? "" : Number(e.target.value),
+                              }))
+                            }
+                          />
+                        </div>
+                        <div className="md:col-span-3">
+                          <label className="block text-sm font-medium mb-1">Feedback</label>
+                          <Input
+                            type="text"
+                            value={feedback[answer.questionId] || ""}
+                            onChange={(e) => setFeedback((prev) => ({ ...prev, [answer.questionId]: e.target.value }))}
+                            placeholder="Optional comment for the student"
+                          />
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {/* Actions */}
+            <div className="flex justify-end gap-3 mt-6">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                leftIcon={<CheckCircle className="w-4 h-4" />}
+                onClick={handleSave}
+                disabled={isSaving || !attempt}
+              >
+                {isSaving ? "Saving..." : "Save Grades"}
+              </Button>
+            </div>
+          </CardBody>
+        </CardComponent>
+      </motion.div>
+    </motion.div>
+  );
+}
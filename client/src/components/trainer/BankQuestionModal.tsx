@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { X, Save, AlertCircle } from "lucide-react";
+import { CardComponent, CardBody, Button, Alert, Input } from "../ui";
+import QuestionEditor from "./QuestionEditor";
+import { DIFFICULTY_LABELS, createQuestion } from "../../hooks/useTrainerQuizzes";
+import type { QuestionDifficulty, QuizQuestion } from "../../hooks/useTrainerQuizzes";
+import type { BankQuestion, BankQuestionData } from "../../hooks/useQuestionBank";
+
+interface BankQuestionModalProps {
+  /** The question to edit; null adds a new one */
+  item: BankQuestion | null;
+  /** Tags already used in the bank, offered as suggestions */
+  knownTags: string[];
+  onClose: () => void;
+  onSubmit: (data: BankQuestionData) => Promise<{ success: boolean; error?: string }>;
+}
+
+export default function BankQuestionModal({ item, knownTags, onClose, onSubmit }: BankQuestionModalProps) {
+  const [question, setQuestion] = useState<QuizQuestion>(item || createQuestion("single"));
+  const [difficulty, setDifficulty] = useState<QuestionDifficulty>(item?.difficulty || "medium");
+  const [tags, setTags] = useState(item?.tags.join(", ") || "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    if (!question.question.trim()) {
+      setError("Question text is required");
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    // The server checks the rest of the question, as for quizzes
+    const result = await onSubmit({
+      ...question,
+      question: question.question.trim(),
+      options: question.options.map((opt) => ({ ...opt, text: opt.text.trim() })),
+      pairs: question.pairs?.map((pair) => ({ left: pair.left.trim(), right: pair.right.trim() })),
+      acceptedAnswers: question.acceptedAnswers
+        ?.filter((answer) => answer.trim())
+        .map((answer) => (question.type === "code_output" ? answer : answer.trim())),
+      difficulty,
+      tags: tags.split(",").map((tag) => tag.trim().toLowerCase()).filter(Boolean),
+    });
+    setIsSaving(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setError(result.error || "Failed to save question");
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CardComponent variant="glass">
+          <CardBody>
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold">{item ? "Edit Bank Question" : "New Bank Question"}</h2>
+              <button
+                onClick={onClose}
+                className="text-white/60 hover:text-white transition-colors"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && (
+              <Alert variant="error" className="mb-6">
+                <AlertCircle className="w-5 h-5" />
+                <span>{error}</span>
+              </Alert>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+              <div>
+                <label className="block text-sm font-medium mb-1">Difficulty</label>
+                <select
+                  value={difficulty}
+                  onChange={(e) => setDifficulty(e.target.value as QuestionDifficulty)}
+                  className="w-full px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:border-primary"
+                >
+                  {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map((level) => (
+                    <option key={level} value={level} className="bg-zinc-900">
+                      {DIFFICULTY_LABELS[level]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-2">
+                <label className="block text-sm font-medium mb-1">Tags (comma separated)</label>
+                <Input
+                  type="text"
+                  list="bank-question-tags"
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                  placeholder="e.g. motors, sensors"
+                />
+                <datalist id="bank-question-tags">
+                  {knownTags.map((tag) => (
+                    <option key={tag} value={tag} />
+                  ))}
+                </datalist>
+              </div>
+            </div>
+
+            <QuestionEditor question={question} onChange={setQuestion} />
+
+            {/* Actions */}
+            <div className="flex justify-end gap-3 mt-6">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                leftIcon={<Save className="w-4 h-4" />}
+                onClick={handleSave}
+                disabled={isSaving}
+              >
+                {isSaving ? "Saving..." : item ? "Save Question" : "Add Question"}
+              </Button>
+            </div>
+          </CardBody>
+        </CardComponent>
+      </motion.div>
+    </motion.div>
+  );
+}
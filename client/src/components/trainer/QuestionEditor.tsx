@@ -1,14 +1,16 @@
-import { useState } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Trash2, CheckCircle, Circle } from 'lucide-react';
+import { Plus, Trash2, CheckCircle, Circle, ArrowUp, ArrowDown, ArrowRight } from 'lucide-react';
 import { Button, Input } from '../ui';
-import type { QuizQuestion } from '../../hooks/useTrainerQuizzes';
+import { QUESTION_TYPE_LABELS, createQuestion } from '../../hooks/useTrainerQuizzes';
+import type { QuizQuestion, QuestionType } from '../../hooks/useTrainerQuizzes';
 
 interface QuestionEditorProps {
   question: QuizQuestion;
-  index: number;
+  /** Shown as "Question N"; omit for a lone question */
+  index?: number;
   onChange: (question: QuizQuestion) => void;
-  onDelete: () => void;
+  /** Omit to hide the delete button */
+  onDelete?: () => void;
 }
 
 export default function QuestionEditor({ question, index, onChange, onDelete }: QuestionEditorProps) {
@@ -46,6 +48,67 @@ export default function QuestionEditor({ question, index, onChange, onDelete }:
     onChange({ ...question, options: newOptions });
   };
 
+  // Ordering items are authored in their correct order
+  const moveOption = (optionIndex: number, offset: number) => {
+    const target = optionIndex + offset;
+    if (target < 0 || target >= question.options.length) return;
+    const newOptions = [...question.options];
+    [newOptions[optionIndex], newOptions[target]] = [newOptions[target], newOptions[optionIndex]];
+    onChange({ ...question, options: newOptions });
+  };
+
+  const setCorrectOption = (optionIndex: number) => {
+    onChange({
+      ...question,
+      options: question.options.map((opt, idx) => ({ ...opt, isCorrect: idx === optionIndex })),
+    });
+  };
+
+  const pairs = question.pairs || [];
+
+  const handlePairChange = (pairIndex: number, side: 'left' | 'right', value: string) => {
+    onChange({
+      ...question,
+      pairs: pairs.map((pair, idx) => (idx === pairIndex ? { ...pair, [side]: value } : pair)),
+    });
+  };
+
+  const addPair = () => {
+    onChange({ ...question, pairs: [...pairs, { left: '', right: '' }] });
+  };
+
+  const removePair = (pairIndex: number) => {
+    if (pairs.length <= 2) {
+      alert('A matching question must have at least 2 pairs');
+      return;
+    }
+    onChange({ ...question, pairs: pairs.filter((_, idx) => idx !== pairIndex) });
+  };
+
+  const acceptedAnswers = question.acceptedAnswers || [];
+
+  const handleAcceptedChange = (answerIndex: number, value: string) => {
+    onChange({
+      ...question,
+      acceptedAnswers: acceptedAnswers.map((answer, idx) => (idx === answerIndex ? value : answer)),
+    });
+  };
+
+  const addAccepted = () => {
+    onChange({ ...question, acceptedAnswers: [...acceptedAnswers, ''] });
+  };
+
+  const removeAccepted = (answerIndex: number) => {
+    onChange({ ...question, acceptedAnswers: acceptedAnswers.filter((_, idx) => idx !== answerIndex) });
+  };
+
+  const handleTypeChange = (type: QuestionType) => {
+    if (type !== question.type) onChange(createQuestion(type, question));
+  };
+
+  const isChoice = question.type === 'single' || question.type === 'multiple';
+  const isCodeOutput = question.type === 'code_output';
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -55,15 +118,19 @@ export default function QuestionEditor({ question, index, onChange, onDelete }:
     >
       {/* Question Header */}
       <div className="flex items-center justify-between mb-4">
-        <h3 className="text-lg font-semibold text-gray-900">Question {index + 1}</h3>
-        <Button
-          variant="ghost"
-          size="sm"
-          onClick={onDelete}
-          className="text-error hover:text-error"
-        >
-          <Trash2 className="w-4 h-4" />
-        </Button>
+        <h3 className="text-lg font-semibold text-gray-900">
+          {index === undefined ? 'Question' : `Question ${index + 1}`}
+        </h3>
+        {onDelete && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onDelete}
+            className="text-error hover:text-error"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        )}
       </div>
 
       {/* Question Text */}
@@ -86,76 +153,153 @@ export default function QuestionEditor({ question, index, onChange, onDelete }:
         <label className="block text-sm font-medium text-gray-700 mb-2">
           Question Type
         </label>
-        <div className="flex gap-4">
-          <label className="flex items-center gap-2 cursor-pointer">
-            <input
-              type="radio"
-              name={`type-${index}`}
-              value="single"
-              checked={question.type === 'single'}
-              onChange={() => handleQuestionChange('type', 'single')}
-              className="w-4 h-4 text-primary"
-            />
-            <span className="text-sm text-gray-700">Single Choice</span>
-          </label>
-          <label className="flex items-center gap-2 cursor-pointer">
-            <input
-              type="radio"
-              name={`type-${index}`}
-              value="multiple"
-              checked={question.type === 'multiple'}
-              onChange={() => handleQuestionChange('type', 'multiple')}
-              className="w-4 h-4 text-primary"
-            />
-            <span className="text-sm text-gray-700">Multiple Choice</span>
-          </label>
-        </div>
+        <select
+          value={question.type}
+          onChange={(e) => handleTypeChange(e.target.value as QuestionType)}
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-white text-gray-900"
+        >
+          {(Object.keys(QUESTION_TYPE_LABELS) as QuestionType[]).map(type => (
+            <option key={type} value={type}>
+              {QUESTION_TYPE_LABELS[type]}
+            </option>
+          ))}
+        </select>
       </div>
 
       {/* Options */}
-      <div className="mb-4">
-        <label className="block text-sm font-medium text-gray-700 mb-2">
-          Answer Options * (Check correct answer{question.type === 'multiple' ? 's' : ''})
-        </label>
-        <div className="space-y-3">
-          <AnimatePresence>
+      {isChoice && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Answer Options * (Check correct answer{question.type === 'multiple' ? 's' : ''})
+          </label>
+          <div className="space-y-3">
+            <AnimatePresence>
+              {question.options.map((option, optionIndex) => (
+                <motion.div
+                  key={optionIndex}
+                  initial={{ opacity: 0, x: -20 }}
+                  animate={{ opacity: 1, x: 0 }}
+                  exit={{ opacity: 0, x: 20 }}
+                  className="flex items-center gap-3"
+                >
+                  {/* Correct answer checkbox */}
+                  <button
+                    type="button"
+                    onClick={() => handleOptionChange(optionIndex, 'isCorrect', !option.isCorrect)}
+                    className={`flex-shrink-0 transition-colors ${
+                      option.isCorrect ? 'text-success' : 'text-gray-400 hover:text-gray-600'
+                    }`}
+                    title={option.isCorrect ? 'Correct answer' : 'Mark as correct'}
+                  >
+                    {option.isCorrect ? (
+                      <CheckCircle className="w-5 h-5" />
+                    ) : (
+                      <Circle className="w-5 h-5" />
+                    )}
+                  </button>
+
+                  {/* Option text input */}
+                  <Input
+                    type="text"
+                    value={option.text}
+                    onChange={(e) => handleOptionChange(optionIndex, 'text', e.target.value)}
+                    placeholder={`Option ${optionIndex + 1}`}
+                    className="flex-1"
+                    required
+                  />
+
+                  {/* Remove option button */}
+                  {question.options.length > 2 && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeOption(optionIndex)}
+                      className="text-error hover:text-error"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </motion.div>
+              ))}
+            </AnimatePresence>
+          </div>
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={addOption}
+            leftIcon={<Plus className="w-4 h-4" />}
+            className="mt-3"
+          >
+            Add Option
+          </Button>
+        </div>
+      )}
+
+      {/* True / False */}
+      {question.type === 'true_false' && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Correct Answer *
+          </label>
+          <div className="flex gap-3">
             {question.options.map((option, optionIndex) => (
-              <motion.div
+              <Button
                 key={optionIndex}
-                initial={{ opacity: 0, x: -20 }}
-                animate={{ opacity: 1, x: 0 }}
-                exit={{ opacity: 0, x: 20 }}
-                className="flex items-center gap-3"
+                type="button"
+                variant={option.isCorrect ? 'primary' : 'outline'}
+                size="sm"
+                leftIcon={option.isCorrect ? <CheckCircle className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+                onClick={() => setCorrectOption(optionIndex)}
               >
-                {/* Correct answer checkbox */}
-                <button
-                  type="button"
-                  onClick={() => handleOptionChange(optionIndex, 'isCorrect', !option.isCorrect)}
-                  className={`flex-shrink-0 transition-colors ${
-                    option.isCorrect ? 'text-success' : 'text-gray-400 hover:text-gray-600'
-                  }`}
-                  title={option.isCorrect ? 'Correct answer' : 'Mark as correct'}
-                >
-                  {option.isCorrect ? (
-                    <CheckCircle className="w-5 h-5" />
-                  ) : (
-                    <Circle className="w-5 h-5" />
-                  )}
-                </button>
+                {option.text}
+              </Button>
+            ))}
+          </div>
+        </div>
+      )}
 
-                {/* Option text input */}
+      {/* Ordering */}
+      {question.type === 'ordering' && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Items * (in the correct order; students see them shuffled)
+          </label>
+          <div className="space-y-3">
+            {question.options.map((option, optionIndex) => (
+              <div key={optionIndex} className="flex items-center gap-3">
+                <span className="w-6 text-sm font-semibold text-gray-500 text-right">{optionIndex + 1}.</span>
                 <Input
                   type="text"
                   value={option.text}
                   onChange={(e) => handleOptionChange(optionIndex, 'text', e.target.value)}
-                  placeholder={`Option ${optionIndex + 1}`}
+                  placeholder={`Item ${optionIndex + 1}`}
                   className="flex-1"
                   required
                 />
-
-                {/* Remove option button */}
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveOption(optionIndex, -1)}
+                  disabled={optionIndex === 0}
+                  title="Move up"
+                >
+                  <ArrowUp className="w-4 h-4" />
+                </Button>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => moveOption(optionIndex, 1)}
+                  disabled={optionIndex === question.options.length - 1}
+                  title="Move down"
+                >
+                  <ArrowDown className="w-4 h-4" />
+                </Button>
                 {question.options.length > 2 && (
                   <Button
+                    type="button"
                     variant="ghost"
                     size="sm"
                     onClick={() => removeOption(optionIndex)}
@@ -164,21 +308,208 @@ export default function QuestionEditor({ question, index, onChange, onDelete }:
                     <Trash2 className="w-4 h-4" />
                   </Button>
                 )}
-              </motion.div>
+              </div>
             ))}
-          </AnimatePresence>
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addOption}
+            leftIcon={<Plus className="w-4 h-4" />}
+            className="mt-3"
+          >
+            Add Item
+          </Button>
         </div>
+      )}
 
-        <Button
-          variant="outline"
-          size="sm"
-          onClick={addOption}
-          leftIcon={<Plus className="w-4 h-4" />}
-          className="mt-3"
-        >
-          Add Option
-        </Button>
-      </div>
+      {/* Matching */}
+      {question.type === 'matching' && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Pairs * (students match each left item with its right item)
+          </label>
+          <div className="space-y-3">
+            {pairs.map((pair, pairIndex) => (
+              <div key={pairIndex} className="flex items-center gap-3">
+                <Input
+                  type="text"
+                  value={pair.left}
+                  onChange={(e) => handlePairChange(pairIndex, 'left', e.target.value)}
+                  placeholder={`Item ${pairIndex + 1}`}
+                  className="flex-1"
+                  required
+                />
+                <ArrowRight className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                <Input
+                  type="text"
+                  value={pair.right}
+                  onChange={(e) => handlePairChange(pairIndex, 'right', e.target.value)}
+                  placeholder={`Match ${pairIndex + 1}`}
+                  className="flex-1"
+                  required
+                />
+                {pairs.length > 2 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removePair(pairIndex)}
+                    className="text-error hover:text-error"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={addPair}
+            leftIcon={<Plus className="w-4 h-4" />}
+            className="mt-3"
+          >
+            Add Pair
+          </Button>
+        </div>
+      )}
+
+      {/* Numeric */}
+      {question.type === 'numeric' && (
+        <div className="grid grid-cols-2 gap-4 mb-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Correct Answer *
+            </label>
+            <Input
+              type="number"
+              step="any"
+              value={question.numericAnswer ?? ''}
+              onChange={(e) => handleQuestionChange('numericAnswer', e.target.value === '' ? null : parseFloat(e.target.value))}
+              placeholder="e.g. 4.7"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              Tolerance (±)
+            </label>
+            <Input
+              type="number"
+              step="any"
+              min="0"
+              value={question.tolerance ?? 0}
+              onChange={(e) => handleQuestionChange('tolerance', Math.abs(parseFloat(e.target.value)) || 0)}
+            />
+          </div>
+        </div>
+      )}
+
+      {/* Code */}
+      {isCodeOutput && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            Code *
+          </label>
+          <Input
+            type="text"
+            value={question.language || ''}
+            onChange={(e) => handleQuestionChange('language', e.target.value)}
+            placeholder="Language, e.g. Python or Arduino C++"
+            className="mb-2"
+          />
+          <textarea
+            value={question.code || ''}
+            onChange={(e) => handleQuestionChange('code', e.target.value)}
+            placeholder="Code students read to work out the output..."
+            className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent font-mono text-sm"
+            rows={6}
+            spellCheck={false}
+            required
+          />
+        </div>
+      )}
+
+      {/* Accepted Answers */}
+      {(question.type === 'short_text' || isCodeOutput) && (
+        <div className="mb-4">
+          <label className="block text-sm font-medium text-gray-700 mb-2">
+            {isCodeOutput ? 'Expected Output *' : 'Accepted Answers *'}
+          </label>
+          <div className="space-y-3">
+            {acceptedAnswers.map((answer, answerIndex) => (
+              <div key={answerIndex} className="flex items-start gap-3">
+                {isCodeOutput ? (
+                  <textarea
+                    value={answer}
+                    onChange={(e) => handleAcceptedChange(answerIndex, e.target.value)}
+                    placeholder={answerIndex === 0 ? 'Output' : 'Another accepted output'}
+                    className="flex-1 px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent font-mono text-sm"
+                    rows={3}
+                    spellCheck={false}
+                  />
+                ) : (
+                  <Input
+                    type="text"
+                    value={answer}
+                    onChange={(e) => handleAcceptedChange(answerIndex, e.target.value)}
+                    placeholder={answerIndex === 0 ? 'Answer' : 'Another accepted spelling'}
+                    className="flex-1"
+                  />
+                )}
+                {acceptedAnswers.length > 1 && (
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeAccepted(answerIndex)}
+                    className="text-error hover:text-error"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            {isCodeOutput
+              ? 'Trailing spaces and blank lines around the output are ignored.'
+              : 'Extra spaces are ignored when comparing.'}
+          </p>
+          <div className="flex items-center gap-4 mt-3">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={addAccepted}
+              leftIcon={<Plus className="w-4 h-4" />}
+            >
+              {isCodeOutput ? 'Add Output' : 'Add Variant'}
+            </Button>
+            {question.type === 'short_text' && (
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={!!question.caseSensitive}
+                  onChange={(e) => handleQuestionChange('caseSensitive', e.target.checked)}
+                  className="w-4 h-4 text-primary rounded"
+                />
+                <span className="text-sm text-gray-700">Case sensitive</span>
+              </label>
+            )}
+          </div>
+        </div>
+      )}
+
+      {/* Essay */}
+      {question.type === 'essay' && (
+        <p className="mb-4 text-sm text-gray-600">
+          Essay answers go to the review queue; you grade them by hand after the quiz is submitted.
+        </p>
+      )}
 
       {/* Points */}
       <div className="grid grid-cols-2 gap-4">
@@ -199,12 +530,12 @@ export default function QuestionEditor({ question, index, onChange, onDelete }:
         {/* Explanation (optional) */}
         <div className="col-span-2">
           <label className="block text-sm font-medium text-gray-700 mb-2">
-            Explanation (Optional)
+            {question.type === 'essay' ? 'Grading Notes (Optional)' : 'Explanation (Optional)'}
           </label>
           <textarea
             value={question.explanation || ''}
             onChange={(e) => handleQuestionChange('explanation', e.target.value)}
-            placeholder="Explain the correct answer..."
+            placeholder={question.type === 'essay' ? 'What a good answer covers...' : 'Explain the correct answer...'}
             className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent resize-none"
             rows={2}
           />
@@ -0,0 +1,136 @@
+import { useEffect } from 'react';
+import { Plus, Trash2, Shuffle } from 'lucide-react';
+import { Button, Input } from '../ui';
+import { useQuestionBank } from '../../hooks/useQuestionBank';
+import { DIFFICULTY_LABELS } from '../../hooks/useTrainerQuizzes';
+import type { QuestionDifficulty, QuizQuestionRule } from '../../hooks/useTrainerQuizzes';
+
+interface QuestionRulesEditorProps {
+  courseId: string;
+  rules: QuizQuestionRule[];
+  onChange: (rules: QuizQuestionRule[]) => void;
+}
+
+const parseTags = (value: string) =>
+  value.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean);
+
+export default function QuestionRulesEditor({ courseId, rules, onChange }: QuestionRulesEditorProps) {
+  const { questions: bank, tags, refetch } = useQuestionBank();
+
+  useEffect(() => {
+    if (courseId) refetch(courseId);
+  }, [courseId, refetch]);
+
+  const updateRule = (ruleIndex: number, changes: Partial<QuizQuestionRule>) => {
+    onChange(rules.map((rule, idx) => (idx === ruleIndex ? { ...rule, ...changes } : rule)));
+  };
+
+  const addRule = () => {
+    onChange([...rules, { count: 1, difficulty: null, tags: [] }]);
+  };
+
+  const removeRule = (ruleIndex: number) => {
+    onChange(rules.filter((_, idx) => idx !== ruleIndex));
+  };
+
+  // Bank questions a rule can draw; the server also keeps rules from sharing questions
+  const available = (rule: QuizQuestionRule) =>
+    bank.filter(item =>
+      (!rule.difficulty || item.difficulty === rule.difficulty) &&
+      rule.tags.every(tag => item.tags.includes(tag))
+    ).length;
+
+  return (
+    <div className="border border-gray-300 rounded-lg p-6 bg-white shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Shuffle className="w-5 h-5" />
+          Random Questions
+        </h3>
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          leftIcon={<Plus className="w-4 h-4" />}
+          onClick={addRule}
+          disabled={!courseId}
+        >
+          Add Rule
+        </Button>
+      </div>
+      <p className="text-sm text-gray-600 mb-4">
+        {courseId
+          ? `Each attempt draws its own questions from the course's question bank (${bank.length} questions).`
+          : 'Select a course to draw questions from its question bank.'}
+      </p>
+
+      <div className="space-y-3">
+        {rules.map((rule, ruleIndex) => {
+          const count = available(rule);
+          return (
+            <div key={ruleIndex} className="grid grid-cols-1 md:grid-cols-12 gap-3 items-start">
+              <div className="md:col-span-2">
+                <label className="block text-xs font-medium text-gray-700 mb-1">Questions</label>
+                <Input
+                  type="number"
+                  min="1"
+                  value={rule.count}
+                  onChange={(e) => updateRule(ruleIndex, { count: parseInt(e.target.value) || 1 })}
+                />
+              </div>
+              <div className="md:col-span-3">
+                <label className="block text-xs font-medium text-gray-700 mb-1">Difficulty</label>
+                <select
+                  value={rule.difficulty || ''}
+                  onChange={(e) =>
+                    updateRule(ruleIndex, { difficulty: (e.target.value || null) as QuestionDifficulty | null })
+                  }
+                  className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent bg-white text-gray-900"
+                >
+                  <option value="">Any</option>
+                  {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map(difficulty => (
+                    <option key={difficulty} value={difficulty}>
+                      {DIFFICULTY_LABELS[difficulty]}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div className="md:col-span-5">
+                <label className="block text-xs font-medium text-gray-700 mb-1">Tags (all required)</label>
+                {/* Uncontrolled so commas can be typed; the key resets it when rules move */}
+                <Input
+                  key={`${ruleIndex}:${rule.tags.join(',')}`}
+                  type="text"
+                  list="question-bank-tags"
+                  defaultValue={rule.tags.join(', ')}
+                  onBlur={(e) => updateRule(ruleIndex, { tags: parseTags(e.target.value) })}
+                  placeholder="e.g. motors, sensors"
+                />
+                <p className={`text-xs mt-1 ${count < rule.count ? 'text-error' : 'text-gray-500'}`}>
+                  {count} matching in the bank
+                </p>
+              </div>
+              <div className="md:col-span-2 md:pt-5">
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeRule(ruleIndex)}
+                  className="text-error hover:text-error"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <datalist id="question-bank-tags">
+        {tags.map(tag => (
+          <option key={tag} value={tag} />
+        ))}
+      </datalist>
+    </div>
+  );
+}
@@ -0,0 +1,253 @@
+import { useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { X, Upload, FileText, AlertCircle, Plus } from "lucide-react";
+import { CardComponent, CardBody, Button, Alert, Badge } from "../ui";
+import {
+  useQuizFiles,
+  QUIZ_CSV_COLUMNS,
+  QUIZ_FILE_FORMATS,
+  QUIZ_IMPORT_ACCEPT,
+  type QuizImportPreview,
+} from "../../hooks/useQuizFiles";
+import type { QuizQuestion } from "../../hooks/useTrainerQuizzes";
+
+interface QuizImportModalProps {
+  onClose: () => void;
+  /** Courses to import the file's quizzes into */
+  courses?: { _id: string; title: string }[];
+  defaultCourseId?: string;
+  /** Called with how many quizzes were created in the course */
+  onImported?: (count: number) => void;
+  /** Builder mode: take one quiz's questions from the file instead of creating quizzes */
+  onPick?: (questions: QuizQuestion[]) => void;
+}
+
+export default function QuizImportModal({ onClose, courses = [], defaultCourseId, onImported, onPick }: QuizImportModalProps) {
+  const { previewImport, importToCourse } = useQuizFiles();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<QuizImportPreview | null>(null);
+  const [courseId, setCourseId] = useState(defaultCourseId || courses[0]?._id || "");
+  const [showColumns, setShowColumns] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const chosen = e.target.files?.[0];
+    e.target.value = "";
+    if (!chosen) return;
+
+    setFile(chosen);
+    setPreview(null);
+    setError(null);
+    setIsWorking(true);
+    const response = await previewImport(chosen);
+    setIsWorking(false);
+
+    if (response.success && response.preview) {
+      setPreview(response.preview);
+    } else {
+      setError(response.error || "Failed to read the quiz file");
+    }
+  };
+
+  const handleImport = async () => {
+    if (!file || !courseId) return;
+    setError(null);
+    setIsWorking(true);
+    const response = await importToCourse(file, courseId);
+    setIsWorking(false);
+
+    if (response.success) {
+      onImported?.(response.imported || 0);
+      onClose();
+    } else {
+      setError(response.error || "Failed to import quizzes");
+    }
+  };
+
+  const summary = preview?.summary;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CardComponent variant="glass">
+          <CardBody>
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h2 className="text-2xl font-bold">{onPick ? "Import Questions" : "Import Quizzes"}</h2>
+                <p className="text-sm text-white/60 mt-1">
+                  GIFT, Moodle XML, CSV or XLSX; nothing is saved until you confirm the preview
+                </p>
+              </div>
+              <button
+                onClick={onClose}
+                className="text-white/60 hover:text-white transition-colors"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            <div className="space-y-4">
+              <div>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept={QUIZ_IMPORT_ACCEPT}
+                  className="hidden"
+                  onChange={handleFile}
+                />
+                <button
+                  type="button"
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={isWorking}
+                  className="w-full flex items-center justify-center gap-2 px-4 py-6 border-2 border-dashed border-white/20 rounded-lg text-white/60 hover:border-primary hover:text-primary transition-colors"
+                >
+                  <FileText className="w-5 h-5" />
+                  {file ? file.name : "Choose a quiz file to preview"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowColumns(!showColumns)}
+                  className="mt-2 text-sm text-white/60 hover:text-white"
+                >
+                  {showColumns ? "Hide" : "Show"} the CSV layout
+                </button>
+                {showColumns && (
+                  <div className="mt-2 p-3 rounded-lg bg-white/5 text-sm space-y-1">
+                    {QUIZ_CSV_COLUMNS.map((column) => (
+                      <p key={column.header}>
+                        <span className="font-medium text-white">{column.header}</span>
+                        <span className="text-white/60"> — {column.description}</span>
+                      </p>
+                    ))}
+                    <p className="text-white/60 pt-1">
+                      One row per question. Separate list items with | and write \| for a literal bar.
+                    </p>
+                  </div>
+                )}
+              </div>
+
+              {isWorking && !preview && <p className="text-sm text-white/60">Reading file...</p>}
+
+              {preview && summary && (
+                <>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <Badge variant="secondary" size="sm">{QUIZ_FILE_FORMATS[preview.format].label}</Badge>
+                    <Badge variant="info" size="sm">
+                      {summary.quizzes} quiz{summary.quizzes === 1 ? "" : "zes"}
+                    </Badge>
+                    <Badge variant="success" size="sm">
+                      {summary.questions} question{summary.questions === 1 ? "" : "s"}
+                    </Badge>
+                    {summary.errors > 0 && (
+                      <Badge variant="error" size="sm">
+                        {summary.errors} error{summary.errors === 1 ? "" : "s"}
+                      </Badge>
+                    )}
+                  </div>
+
+                  <div className="space-y-3 max-h-80 overflow-y-auto">
+                    {preview.quizzes.map((quiz, index) => (
+                      <div key={index} className="p-4 rounded-lg bg-white/5 border border-white/10">
+                        <div className="flex items-center justify-between gap-4">
+                          <div className="min-w-0">
+                            <p className="font-semibold text-white">{quiz.title}</p>
+                            <p className="text-sm text-white/60">
+                              {quiz.questions.length} question{quiz.questions.length === 1 ? "" : "s"}
+                            </p>
+                          </div>
+                          {onPick && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              leftIcon={<Plus className="w-4 h-4" />}
+                              onClick={() => {
+                                onPick(quiz.questions);
+                                onClose();
+                              }}
+                              disabled={quiz.errors.length > 0 || quiz.questions.length === 0}
+                            >
+                              Add Questions
+                            </Button>
+                          )}
+                        </div>
+                        {quiz.errors.length > 0 && (
+                          <ul className="mt-2 space-y-1 text-sm text-error">
+                            {quiz.errors.map((message, i) => (
+                              <li key={i}>{message}</li>
+                            ))}
+                          </ul>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </>
+              )}
+
+              {error && (
+                <Alert variant="error">
+                  <AlertCircle className="w-5 h-5" />
+                  <span>{error}</span>
+                </Alert>
+              )}
+
+              {/* Actions */}
+              {!onPick && (
+                <div className="flex flex-wrap items-end justify-end gap-3 pt-4 border-t border-white/10">
+                  <div className="mr-auto">
+                    <label className="block text-sm font-medium mb-1">Course</label>
+                    <select
+                      value={courseId}
+                      onChange={(e) => setCourseId(e.target.value)}
+                      className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:border-primary"
+                    >
+                      {courses.length === 0 && <option value="" className="bg-zinc-900">No courses</option>}
+                      {courses.map((course) => (
+                        <option key={course._id} value={course._id} className="bg-zinc-900">
+                          {course.title}
+                        </option>
+                      ))}
+                    </select>
+                  </div>
+                  <Button variant="outline" onClick={onClose} disabled={isWorking}>
+                    Cancel
+                  </Button>
+                  <Button
+                    variant="primary"
+                    leftIcon={<Upload className="w-4 h-4" />}
+                    onClick={handleImport}
+                    disabled={isWorking || !summary || summary.errors > 0 || !courseId}
+                  >
+                    {isWorking && preview
+                      ? "Importing..."
+                      : `Import ${summary?.quizzes || 0} quiz${summary?.quizzes === 1 ? "" : "zes"}`}
+                  </Button>
+                </div>
+              )}
+            </div>
+
+            {!onPick && (
+              <p className="mt-4 text-xs text-white/40">
+                Imported quizzes aren't linked to a group or session yet; edit them to assign one before students can take them.
+              </p>
+            )}
+          </CardBody>
+        </CardComponent>
+      </motion.div>
+    </motion.div>
+  );
+}
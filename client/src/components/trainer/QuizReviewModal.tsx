@@ -0,0 +1,160 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { X, CheckCircle, AlertCircle } from "lucide-react";
+import { CardComponent, CardBody, Button, Alert, Input } from "../ui";
+import type { QuizReviewGrade, QuizReviewItem } from "../../hooks/useTrainerQuizzes";
+
+interface QuizReviewModalProps {
+  item: QuizReviewItem;
+  onClose: () => void;
+  onSaved: () => void;
+  onReview: (attemptId: string, grades: QuizReviewGrade[]) => Promise<{ success: boolean; error?: string }>;
+}
+
+export default function QuizReviewModal({ item, onClose, onSaved, onReview }: QuizReviewModalProps) {
+  const [points, setPoints] = useState<Record<string, number | "">>({});
+  const [feedback, setFeedback] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSave = async () => {
+    setError(null);
+
+    const missing = item.answers.find((answer) => {
+      const value = points[answer.questionId];
+      return value === "" || value === undefined || value < 0 || value > answer.points;
+    });
+    if (missing) {
+      setError(`Points for "${missing.question}" must be between 0 and ${missing.points}`);
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await onReview(
+      item._id,
+      item.answers.map((answer) => ({
+        questionId: answer.questionId,
+        pointsEarned: Number(points[answer.questionId]),
+        feedback: feedback[answer.questionId]?.trim() || undefined,
+      }))
+    );
+    setIsSaving(false);
+
+    if (result.success) {
+      onSaved();
+      onClose();
+    } else {
+      setError(result.error || "Failed to save review");
+    }
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CardComponent variant="glass">
+          <CardBody>
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h2 className="text-2xl font-bold">{item.student?.name || "Student"}</h2>
+                <p className="text-sm text-white/60 mt-1">
+                  {item.quiz.title} · attempt {item.attemptNumber} · submitted{" "}
+                  {new Date(item.submittedAt).toLocaleString()}
+                </p>
+              </div>
+              <button
+                onClick={onClose}
+                className="text-white/60 hover:text-white transition-colors"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && (
+              <Alert variant="error" className="mb-6">
+                <AlertCircle className="w-5 h-5" />
+                <span>{error}</span>
+              </Alert>
+            )}
+
+            <p className="text-sm text-white/60 mb-6">
+              Auto-graded so far: {item.earnedPoints}/{item.totalPoints} points ({item.score}%). Passing is{" "}
+              {item.quiz.passingScore}%.
+            </p>
+
+            {/* Answers */}
+            <div className="space-y-6">
+              {item.answers.map((answer, index) => (
+                <div key={answer.questionId} className="p-4 rounded-lg bg-white/5 border border-white/10">
+                  <p className="font-semibold mb-2">
+                    {index + 1}. {answer.question}
+                  </p>
+                  <p className="text-sm text-white/80 whitespace-pre-wrap mb-3">
+                    {answer.textAnswer || <span className="italic text-white/40">No answer</span>}
+                  </p>
+                  {answer.explanation && (
+                    <p className="text-xs text-white/50 mb-3">Grading notes: {answer.explanation}</p>
+                  )}
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+                    <div>
+                      <label className="block text-sm font-medium mb-1">Points (max {answer.points})</label>
+                      <Input
+                        type="number"
+                        min={0}
+                        max={answer.points}
+                        step="any"
+                        value={points[answer.questionId] ?? ""}
+                        onChange={(e) =>
+                          setPoints((prev) => ({
+                            ...prev,
+                            [answer.questionId]: e.target.value === "" ? "" : Number(e.target.value),
+                          }))
+                        }
+                      />
+                    </div>
+                    <div className="md:col-span-3">
+                      <label className="block text-sm font-medium mb-1">Feedback</label>
+                      <Input
+                        type="text"
+                        value={feedback[answer.questionId] || ""}
+                        onChange={(e) => setFeedback((prev) => ({ ...prev, [answer.questionId]: e.target.value }))}
+                        placeholder="Optional comment for the student"
+                      />
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Actions */}
+            <div className="flex justify-end gap-3 mt-6">
+              <Button variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button
+                variant="primary"
+                leftIcon={<CheckCircle className="w-4 h-4" />}
+                onClick={handleSave}
+                disabled={isSaving}
+              >
+                {isSaving ? "Saving..." : "Save Review"}
+              </Button>
+            </div>
+          </CardBody>
+        </CardComponent>
+      </motion.div>
+    </motion.div>
+  );
+}
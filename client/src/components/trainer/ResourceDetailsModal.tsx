@@ -0,0 +1,243 @@
+import { useEffect, useRef, useState } from "react";
+import { motion } from "framer-motion";
+import { X, Eye, Download, Share2, Upload, Users, AlertCircle } from "lucide-react";
+import { CardComponent, CardBody, Button, Badge, Alert, LoadingState } from "../ui";
+import type { TrainerResource } from "../../hooks/useTrainerResources";
+import type { TrainerGroup } from "../../hooks/useTrainerGroups";
+
+interface ResourceDetailsModalProps {
+  resourceId: string;
+  groups: TrainerGroup[];
+  onClose: () => void;
+  loadResource: (resourceId: string) => Promise<TrainerResource | null>;
+  onShare: (resourceId: string, groupIds: string[]) => Promise<boolean>;
+  onUnshare: (resourceId: string, groupId: string) => Promise<boolean>;
+  onReplaceFile: (resourceId: string, file: File) => Promise<TrainerResource | null>;
+}
+
+export default function ResourceDetailsModal({
+  resourceId,
+  groups,
+  onClose,
+  loadResource,
+  onShare,
+  onUnshare,
+  onReplaceFile,
+}: ResourceDetailsModalProps) {
+  const [resource, setResource] = useState<TrainerResource | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    let active = true;
+    loadResource(resourceId).then((data) => {
+      if (!active) return;
+      setResource(data);
+      setIsLoading(false);
+    });
+    return () => {
+      active = false;
+    };
+  }, [resourceId, loadResource]);
+
+  // Reload so the access log and populated groups stay accurate
+  const refresh = async () => {
+    setResource(await loadResource(resourceId));
+  };
+
+  const runAction = async (action: () => Promise<unknown>, failure: string) => {
+    setIsBusy(true);
+    setError(null);
+    const result = await action();
+    if (!result) {
+      setError(failure);
+    }
+    await refresh();
+    setIsBusy(false);
+  };
+
+  const sharedIds = new Set(
+    (resource?.sharedWith || []).map((share) => share.groupId?._id).filter(Boolean)
+  );
+  const unsharedGroups = groups.filter((group) => !sharedIds.has(group._id));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CardComponent variant="glass">
+          <CardBody>
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h2 className="text-2xl font-bold">{resource?.title || "Resource"}</h2>
+                {resource && (
+                  <p className="text-sm text-white/60 mt-1">
+                    {resource.originalName} · {resource.fileSizeFormatted} · v{resource.version}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={onClose}
+                className="text-white/60 hover:text-white transition-colors"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && (
+              <Alert variant="error" className="mb-6">
+                <AlertCircle className="w-5 h-5" />
+                <span>{error}</span>
+              </Alert>
+            )}
+
+            {isLoading ? (
+              <LoadingState type="skeleton" text="Loading resource..." />
+            ) : !resource ? (
+              <p className="text-white/60">Resource not found</p>
+            ) : (
+              <div className="space-y-6">
+                {/* Usage */}
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="p-4 rounded-lg bg-white/5 border border-white/10">
+                    <p className="text-xs text-white/60 flex items-center gap-1"><Eye className="w-3 h-3" /> Views</p>
+                    <p className="text-2xl font-bold">{resource.stats.views}</p>
+                  </div>
+                  <div className="p-4 rounded-lg bg-white/5 border border-white/10">
+                    <p className="text-xs text-white/60 flex items-center gap-1"><Download className="w-3 h-3" /> Downloads</p>
+                    <p className="text-2xl font-bold">{resource.stats.downloads}</p>
+                  </div>
+                  <div className="p-4 rounded-lg bg-white/5 border border-white/10">
+                    <p className="text-xs text-white/60 flex items-center gap-1"><Share2 className="w-3 h-3" /> Groups</p>
+                    <p className="text-2xl font-bold">{resource.sharedWith.length}</p>
+                  </div>
+                </div>
+
+                {/* Sharing */}
+                <div>
+                  <h3 className="text-lg font-semibold mb-3">Shared with</h3>
+                  <div className="flex flex-wrap gap-2 mb-3">
+                    {resource.sharedWith.length === 0 && (
+                      <p className="text-sm text-white/40">Not shared with any group yet</p>
+                    )}
+                    {resource.sharedWith.map((share) => share.groupId && (
+                      <span
+                        key={share.groupId._id}
+                        className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-primary/10 border border-primary/30 text-sm"
+                      >
+                        <Users className="w-3 h-3" />
+                        {share.groupId.name}
+                        <button
+                          onClick={() => runAction(
+                            () => onUnshare(resource._id, share.groupId!._id),
+                            "Failed to unshare resource"
+                          )}
+                          disabled={isBusy}
+                          title="Stop sharing"
+                          className="text-white/50 hover:text-red-400"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                  {unsharedGroups.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {unsharedGroups.map((group) => (
+                        <Button
+                          key={group._id}
+                          variant="ghost"
+                          size="xs"
+                          leftIcon={<Share2 className="w-3 h-3" />}
+                          disabled={isBusy}
+                          onClick={() => runAction(
+                            () => onShare(resource._id, [group._id]),
+                            "Failed to share resource"
+                          )}
+                        >
+                          {group.name}
+                        </Button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+
+                {/* New version */}
+                <div className="flex items-center justify-between p-4 rounded-lg bg-white/5 border border-white/10">
+                  <div>
+                    <p className="font-medium">Version {resource.version}</p>
+                    <p className="text-xs text-white/60">
+                      Upload a corrected file; students get the new version, stats are kept
+                    </p>
+                  </div>
+                  <input
+                    ref={fileInput}
+                    type="file"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      e.target.value = "";
+                      if (file) {
+                        runAction(() => onReplaceFile(resource._id, file), "Failed to upload new version");
+                      }
+                    }}
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    leftIcon={<Upload className="w-4 h-4" />}
+                    onClick={() => fileInput.current?.click()}
+                    isLoading={isBusy}
+                  >
+                    New Version
+                  </Button>
+                </div>
+
+                {/* Access log */}
+                <div>
+                  <h3 className="text-lg font-semibold mb-3">Recent access</h3>
+                  {resource.accessLog && resource.accessLog.length > 0 ? (
+                    <div className="space-y-2 max-h-64 overflow-y-auto">
+                      {[...resource.accessLog].reverse().map((entry, index) => (
+                        <div
+                          key={`${entry.timestamp}-${index}`}
+                          className="flex items-center justify-between p-2 rounded-lg bg-white/5 text-sm"
+                        >
+                          <span>{entry.userId?.name || "Unknown student"}</span>
+                          <div className="flex items-center gap-3">
+                            <Badge variant={entry.action === "download" ? "success" : "info"} size="sm">
+                              {entry.action}
+                            </Badge>
+                            <span className="text-xs text-white/50">
+                              {new Date(entry.timestamp).toLocaleString()}
+                            </span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <p className="text-sm text-white/40">No students have opened this resource yet</p>
+                  )}
+                </div>
+              </div>
+            )}
+          </CardBody>
+        </CardComponent>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { motion } from "framer-motion";
+import { X, Upload, AlertCircle } from "lucide-react";
+import {
+  CardComponent,
+  CardBody,
+  Button,
+  Input,
+  Alert,
+} from "../ui";
+import {
+  RESOURCE_CATEGORIES,
+  type ResourceCategory,
+  type ResourceFormData,
+} from "../../hooks/useTrainerResources";
+import type { TrainerGroup } from "../../hooks/useTrainerGroups";
+import type { TrainerSession } from "../../hooks/useTrainerSessions";
+
+interface ResourceUploadModalProps {
+  groups: TrainerGroup[];
+  sessions: TrainerSession[];
+  onClose: () => void;
+  onSubmit: (file: File, data: ResourceFormData) => Promise<boolean>;
+}
+
+const MAX_FILE_SIZE = 100 * 1024 * 1024;
+
+// Expiry must be in the future, so the earliest choice is tomorrow
+const minExpiryDate = () => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return date.toISOString().split("T")[0];
+};
+
+export default function ResourceUploadModal({
+  groups,
+  sessions,
+  onClose,
+  onSubmit,
+}: ResourceUploadModalProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [title, setTitle] = useState("");
+  const [description, setDescription] = useState("");
+  const [category, setCategory] = useState<ResourceCategory>("lecture");
+  const [tags, setTags] = useState("");
+  const [groupIds, setGroupIds] = useState<string[]>([]);
+  const [sessionId, setSessionId] = useState("");
+  const [isDownloadable, setIsDownloadable] = useState(true);
+  const [requiresPassword, setRequiresPassword] = useState(false);
+  const [password, setPassword] = useState("");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    if (selected && !title) {
+      setTitle(selected.name.replace(/\.[^.]+$/, ""));
+    }
+  };
+
+  const toggleGroup = (groupId: string) => {
+    setGroupIds((prev) =>
+      prev.includes(groupId) ? prev.filter((id) => id !== groupId) : [...prev, groupId]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+
+    if (!file) {
+      setError("Please choose a file to upload");
+      return;
+    }
+    if (file.size > MAX_FILE_SIZE) {
+      setError("File size cannot exceed 100MB");
+      return;
+    }
+    if (!title.trim()) {
+      setError("Please enter a title");
+      return;
+    }
+    if (requiresPassword && !password) {
+      setError("Please enter a password for this resource");
+      return;
+    }
+
+    setIsSaving(true);
+    const ok = await onSubmit(file, {
+      title: title.trim(),
+      description: description.trim() || undefined,
+      category,
+      tags: tags.split(",").map((t) => t.trim()).filter(Boolean),
+      groupIds,
+      sessionId: sessionId || undefined,
+      isDownloadable,
+      requiresPassword,
+      password: requiresPassword ? password : undefined,
+      expiresAt: expiresAt || undefined,
+    });
+    setIsSaving(false);
+
+    if (ok) {
+      onClose();
+    } else {
+      setError("Failed to upload resource. Please try again.");
+    }
+  };
+
+  const fieldClass =
+    "w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white focus:outline-none focus:border-primary focus:ring-2 focus:ring-primary/20 transition-all";
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="w-full max-w-2xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CardComponent variant="glass">
+          <CardBody>
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-2xl font-bold">Upload Resource</h2>
+              <button
+                onClick={onClose}
+                className="text-white/60 hover:text-white transition-colors"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && (
+              <Alert variant="error" className="mb-6">
+                <AlertCircle className="w-5 h-5" />
+                <span>{error}</span>
+              </Alert>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              {/* File */}
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  File <span className="text-red-400">*</span>
+                </label>
+                <input
+                  type="file"
+                  onChange={(e) => handleFileChange(e.target.files?.[0] || null)}
+                  className="block w-full text-sm text-white/70 file:mr-4 file:px-4 file:py-2 file:rounded-lg file:border-0 file:bg-primary/20 file:text-primary hover:file:bg-primary/30"
+                />
+                <p className="text-xs text-white/40 mt-1">Documents, slides, code, video, archives — up to 100MB</p>
+              </div>
+
+              {/* Title */}
+              <div>
+                <label className="block text-sm font-medium mb-2">
+                  Title <span className="text-red-400">*</span>
+                </label>
+                <Input
+                  value={title}
+                  onChange={(e) => setTitle(e.target.value)}
+                  placeholder="e.g., Week 3 - Sensors and Actuators"
+                  maxLength={200}
+                />
+              </div>
+
+              {/* Description */}
+              <div>
+                <label className="block text-sm font-medium mb-2">Description</label>
+                <textarea
+                  value={description}
+                  onChange={(e) => setDescription(e.target.value)}
+                  rows={3}
+                  maxLength={2000}
+                  className={`${fieldClass} resize-none`}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* Category */}
+                <div>
+                  <label className="block text-sm font-medium mb-2">Category</label>
+                  <select
+                    value={category}
+                    onChange={(e) => setCategory(e.target.value as ResourceCategory)}
+                    className={fieldClass}
+                  >
+                    {RESOURCE_CATEGORIES.map((c) => (
+                      <option key={c} value={c} className="bg-zinc-900">
+                        {c.charAt(0).toUpperCase() + c.slice(1)}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                {/* Tags */}
+                <div>
+                  <label className="block text-sm font-medium mb-2">Tags</label>
+                  <Input
+                    value={tags}
+                    onChange={(e) => setTags(e.target.value)}
+                    placeholder="arduino, sensors"
+                  />
+                </div>
+              </div>
+
+              {/* Groups */}
+              <div>
+                <label className="block text-sm font-medium mb-2">Share with groups</label>
+                {groups.length > 0 ? (
+                  <div className="flex flex-wrap gap-2">
+                    {groups.map((group) => (
+                      <button
+                        key={group._id}
+                        type="button"
+                        onClick={() => toggleGroup(group._id)}
+                        className={`px-3 py-1.5 rounded-lg text-sm border transition-all ${
+                          groupIds.includes(group._id)
+                            ? "bg-primary/20 border-primary text-white"
+                            : "bg-white/5 border-white/10 text-white/60 hover:text-white"
+                        }`}
+                      >
+                        {group.name}
+                      </button>
+                    ))}
+                  </div>
+                ) : (
+                  <p className="text-sm text-white/40">You have no groups yet</p>
+                )}
+              </div>
+
+              {/* Session */}
+              <div>
+                <label className="block text-sm font-medium mb-2">Link to session</label>
+                <select
+                  value={sessionId}
+                  onChange={(e) => setSessionId(e.target.value)}
+                  className={fieldClass}
+                >
+                  <option value="" className="bg-zinc-900">No session</option>
+                  {sessions.map((session) => (
+                    <option key={session._id} value={session._id} className="bg-zinc-900">
+                      {session.title} — {session.groupId?.name} ({new Date(session.scheduledDate).toLocaleDateString()})
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-white/40 mt-1">The session's group gets access automatically</p>
+              </div>
+
+              {/* Access */}
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={isDownloadable}
+                      onChange={(e) => setIsDownloadable(e.target.checked)}
+                    />
+                    Students can download
+                  </label>
+                  <label className="flex items-center gap-2 text-sm">
+                    <input
+                      type="checkbox"
+                      checked={requiresPassword}
+                      onChange={(e) => setRequiresPassword(e.target.checked)}
+                    />
+                    Password protected
+                  </label>
+                  {requiresPassword && (
+                    <Input
+                      type="password"
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      placeholder="Resource password"
+                    />
+                  )}
+                </div>
+                <div>
+                  <label className="block text-sm font-medium mb-2">Expires on</label>
+                  <input
+                    type="date"
+                    value={expiresAt}
+                    min={minExpiryDate()}
+                    onChange={(e) => setExpiresAt(e.target.value)}
+                    className={fieldClass}
+                  />
+                </div>
+              </div>
+
+              {/* Action Buttons */}
+              <div className="flex justify-end gap-3 pt-4 border-t border-white/10">
+                <Button type="button" variant="outline" onClick={onClose} disabled={isSaving}>
+                  Cancel
+                </Button>
+                <Button
+                  type="submit"
+                  variant="primary"
+                  leftIcon={<Upload className="w-5 h-5" />}
+                  isLoading={isSaving}
+                >
+                  Upload
+                </Button>
+              </div>
+            </form>
+          </CardBody>
+        </CardComponent>
+      </motion.div>
+    </motion.div>
+  );
+}
@@ -0,0 +1,392 @@
+import { useEffect, useState } from "react";
+import { motion } from "framer-motion";
+import { X, FileText, Download, CheckCircle, RotateCcw, AlertCircle } from "lucide-react";
+import { CardComponent, CardBody, Button, Badge, Alert, Input, LoadingState } from "../ui";
+import type {
+  GradeData,
+  SubmissionDetails,
+  TrainerAssignment,
+  TrainerSubmission,
+} from "../../hooks/useTrainerAssignments";
+
+interface SubmissionGradingModalProps {
+  submissionId: string;
+  assignment: TrainerAssignment;
+  onClose: () => void;
+  onSaved: () => void;
+  loadSubmission: (submissionId: string) => Promise<SubmissionDetails | null>;
+  onGrade: (submissionId: string, data: GradeData) => Promise<TrainerSubmission | null>;
+  onRequestResubmission: (
+    submissionId: string,
+    feedback?: string,
+    deadline?: string
+  ) => Promise<TrainerSubmission | null>;
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+export default function SubmissionGradingModal({
+  submissionId,
+  assignment,
+  onClose,
+  onSaved,
+  loadSubmission,
+  onGrade,
+  onRequestResubmission,
+}: SubmissionGradingModalProps) {
+  const [details, setDetails] = useState<SubmissionDetails | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [points, setPoints] = useState<Record<string, number | "">>({});
+  const [score, setScore] = useState<number | "">("");
+  const [feedback, setFeedback] = useState("");
+  const [showResubmit, setShowResubmit] = useState(false);
+  const [resubmitDeadline, setResubmitDeadline] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    loadSubmission(submissionId).then((data) => {
+      if (!active) return;
+      setDetails(data);
+      // Start from the existing grade when re-grading
+      if (data) {
+        const grade = data.submission.grade;
+        setPoints(
+          Object.fromEntries(grade.rubricScores.map((r) => [r.criteriaId, r.pointsEarned]))
+        );
+        setScore(grade.rawScore ?? "");
+        setFeedback(grade.feedback || "");
+      }
+      setIsLoading(false);
+    });
+    return () => {
+      active = false;
+    };
+  }, [submissionId, loadSubmission]);
+
+  const submission = details?.submission;
+  const history = details?.history || [];
+  const hasRubric = assignment.rubric.length > 0;
+  const rubricTotal = assignment.rubric.reduce((sum, item) => sum + item.points, 0);
+
+  // Mirrors the server calculation so the trainer sees the final score before saving
+  const rawPoints = hasRubric
+    ? assignment.rubric.reduce((sum, item) => sum + (Number(points[item._id || ""]) || 0), 0)
+    : Number(score) || 0;
+  const rawScore = hasRubric && rubricTotal > 0 ? (rawPoints / rubricTotal) * assignment.maxScore : rawPoints;
+  const penalty = submission?.isLate ? assignment.latePenalty : 0;
+  const finalScore = rawScore * (1 - penalty / 100);
+
+  const handleGrade = async () => {
+    setError(null);
+
+    if (hasRubric) {
+      const missing = assignment.rubric.find((item) => {
+        const value = points[item._id || ""];
+        return value === "" || value === undefined || value < 0 || value > item.points;
+      });
+      if (missing) {
+        setError(`Score for "${missing.criteria}" must be between 0 and ${missing.points}`);
+        return;
+      }
+    } else if (score === "" || score < 0 || score > assignment.maxScore) {
+      setError(`Score must be between 0 and ${assignment.maxScore}`);
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await onGrade(submissionId, {
+      rubricScores: hasRubric
+        ? assignment.rubric.map((item) => ({
+            criteriaId: item._id || "",
+            pointsEarned: Number(points[item._id || ""]),
+          }))
+        : undefined,
+      score: hasRubric ? undefined : Number(score),
+      feedback: feedback.trim() || undefined,
+    });
+    setIsSaving(false);
+
+    if (result) {
+      onSaved();
+      onClose();
+    } else {
+      setError("Failed to save grade");
+    }
+  };
+
+  const handleResubmit = async () => {
+    setError(null);
+    setIsSaving(true);
+    const result = await onRequestResubmission(
+      submissionId,
+      feedback.trim() || undefined,
+      resubmitDeadline ? new Date(resubmitDeadline).toISOString() : undefined
+    );
+    setIsSaving(false);
+
+    if (result) {
+      onSaved();
+      onClose();
+    } else {
+      setError("Failed to request resubmission");
+    }
+  };
+
+  const student = submission && typeof submission.student === "object" ? submission.student : null;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4"
+      onClick={onClose}
+    >
+      <motion.div
+        initial={{ scale: 0.9, opacity: 0 }}
+        animate={{ scale: 1, opacity: 1 }}
+        exit={{ scale: 0.9, opacity: 0 }}
+        className="w-full max-w-3xl max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <CardComponent variant="glass">
+          <CardBody>
+            {/* Header */}
+            <div className="flex items-center justify-between mb-6">
+              <div>
+                <h2 className="text-2xl font-bold">{student?.name || "Submission"}</h2>
+                {submission && (
+                  <p className="text-sm text-white/60 mt-1">
+                    Version {submission.version} · submitted {new Date(submission.submittedAt).toLocaleString()}
+                  </p>
+                )}
+              </div>
+              <button
+                onClick={onClose}
+                className="text-white/60 hover:text-white transition-colors"
+              >
+                <X className="w-6 h-6" />
+              </button>
+            </div>
+
+            {error && (
+              <Alert variant="error" className="mb-6">
+                <AlertCircle className="w-5 h-5" />
+                <span>{error}</span>
+              </Alert>
+            )}
+
+            {isLoading ? (
+              <LoadingState type="skeleton" text="Loading submission..." />
+            ) : !submission ? (
+              <p className="text-white/60">Submission not found</p>
+            ) : (
+              <div className="space-y-6">
+                {/* Status */}
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={submission.status === "graded" ? "success" : "info"} size="sm">
+                    {submission.status.replace("_", " ")}
+                  </Badge>
+                  {submission.isLate && (
+                    <Badge variant="warning" size="sm">
+                      Late · -{assignment.latePenalty}%
+                    </Badge>
+                  )}
+                  {submission.version > 1 && (
+                    <Badge variant="default" size="sm">Resubmission</Badge>
+                  )}
+                </div>
+
+                {/* Files */}
+                <div>
+                  <h3 className="text-lg font-semibold mb-3">Files</h3>
+                  <div className="space-y-2">
+                    {submission.files.map((file) => (
+                      <a
+                        key={file._id}
+                        href={file.fileUrl}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center justify-between p-3 rounded-lg bg-white/5 border border-white/10 hover:border-primary/50 transition-colors"
+                      >
+                        <span className="flex items-center gap-2 text-sm">
+                          <FileText className="w-4 h-4 text-primary" />
+                          {file.originalName}
+                        </span>
+                        <span className="flex items-center gap-2 text-xs text-white/50">
+                          {(file.fileSize / 1024 / 1024).toFixed(2)} MB
+                          <Download className="w-4 h-4" />
+                        </span>
+                      </a>
+                    ))}
+                  </div>
+                </div>
+
+                {/* Rubric / score */}
+                <div>
+                  <h3 className="text-lg font-semibold mb-3">Grade</h3>
+                  {hasRubric ? (
+                    <div className="space-y-2">
+                      {assignment.rubric.map((item) => (
+                        <div
+                          key={item._id}
+                          className="flex items-center justify-between gap-4 p-3 rounded-lg bg-white/5 border border-white/10"
+                        >
+                          <span className="text-sm flex-1">{item.criteria}</span>
+                          <div className="flex items-center gap-2">
+                            <div className="w-24">
+                              <Input
+                                type="number"
+                                min={0}
+                                max={item.points}
+                                step="0.5"
+                                value={points[item._id || ""] ?? ""}
+                                onChange={(e) =>
+                                  setPoints((prev) => ({
+                                    ...prev,
+                                    [item._id || ""]: e.target.value === "" ? "" : Number(e.target.value),
+                                  }))
+                                }
+                              />
+                            </div>
+                            <span className="text-sm text-white/50 w-16">/ {item.points}</span>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  ) : (
+                    <div className="flex items-center gap-2">
+                      <div className="w-32">
+                        <Input
+                          type="number"
+                          min={0}
+                          max={assignment.maxScore}
+                          value={score}
+                          onChange={(e) => setScore(e.target.value === "" ? "" : Number(e.target.value))}
+                        />
+                      </div>
+                      <span className="text-sm text-white/50">/ {assignment.maxScore}</span>
+                    </div>
+                  )}
+
+                  {/* Score preview */}
+                  <div className="mt-4 p-4 rounded-lg bg-primary/10 border border-primary/30 text-sm space-y-1">
+                    {hasRubric && (
+                      <p>Rubric points: {round(rawPoints)} / {rubricTotal}</p>
+                    )}
+                    <p>Score: {round(rawScore)} / {assignment.maxScore}</p>
+                    {penalty > 0 && (
+                      <p className="text-amber-300">Late penalty: -{penalty}%</p>
+                    )}
+                    <p className="font-semibold">Final score: {round(finalScore)} / {assignment.maxScore}</p>
+                  </div>
+                </div>
+
+                {/* Feedback */}
+                <div>
+                  <label className="block text-sm font-medium mb-2">Feedback</label>
+                  <textarea
+                    value={feedback}
+                    onChange={(e) => setFeedback(e.target.value)}
+                    rows={4}
+                    maxLength={2000}
+                    className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white focus:outline-none focus:border-primary resize-none"
+                  />
+                </div>
+
+                {/* Resubmission deadline */}
+                {showResubmit && (
+                  <div className="p-4 rounded-lg bg-white/5 border border-white/10">
+                    <label className="block text-sm font-medium mb-2">Resubmission deadline</label>
+                    <input
+                      type="datetime-local"
+                      value={resubmitDeadline}
+                      onChange={(e) => setResubmitDeadline(e.target.value)}
+                      className="w-full px-4 py-2.5 rounded-xl bg-white/5 border border-white/10 text-white focus:outline-none focus:border-primary"
+                    />
+                    <p className="text-xs text-white/40 mt-1">
+                      Leave empty for no deadline. Resubmissions within the deadline are not penalised.
+                    </p>
+                  </div>
+                )}
+
+                {/* Earlier versions */}
+                {history.length > 0 && (
+                  <div>
+                    <h3 className="text-lg font-semibold mb-3">Earlier versions</h3>
+                    <div className="space-y-2">
+                      {history.map((version) => (
+                        <div
+                          key={version._id}
+                          className="flex items-center justify-between p-2 rounded-lg bg-white/5 text-sm"
+                        >
+                          <span>
+                            Version {version.version} · {new Date(version.submittedAt).toLocaleDateString()}
+                          </span>
+                          <div className="flex items-center gap-3">
+                            {version.files.map((file) => (
+                              <a
+                                key={file._id}
+                                href={file.fileUrl}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="text-xs text-primary hover:underline"
+                              >
+                                {file.originalName}
+                              </a>
+                            ))}
+                            <Badge variant="default" size="sm">{version.status.replace("_", " ")}</Badge>
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {/* Action Buttons */}
+                <div className="flex justify-end gap-3 pt-4 border-t border-white/10">
+                  {showResubmit ? (
+                    <>
+                      <Button variant="outline" onClick={() => setShowResubmit(false)} disabled={isSaving}>
+                        Back
+                      </Button>
+                      <Button
+                        variant="primary"
+                        leftIcon={<RotateCcw className="w-5 h-5" />}
+                        onClick={handleResubmit}
+                        isLoading={isSaving}
+                      >
+                        Send Back to Student
+                      </Button>
+                    </>
+                  ) : (
+                    <>
+                      <Button
+                        variant="outline"
+                        leftIcon={<RotateCcw className="w-4 h-4" />}
+                        onClick={() => setShowResubmit(true)}
+                        disabled={isSaving || submission.status === "resubmit_required"}
+                      >
+                        Request Resubmission
+                      </Button>
+                      <Button
+                        variant="primary"
+                        leftIcon={<CheckCircle className="w-5 h-5" />}
+                        onClick={handleGrade}
+                        isLoading={isSaving}
+                      >
+                        Save Grade
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+          </CardBody>
+        </CardComponent>
+      </motion.div>
+    </motion.div>
+  );
+}
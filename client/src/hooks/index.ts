@@ -3,10 +3,22 @@ export * from './useDebounce';
 export * from './useDashboardStats';
 export * from './useRealtimeUpdates';
 export * from './useInventoryData';
+export * from './useRequisitions';
+export * from './useSuppliers';
+export * from './usePurchaseOrders';
+export * from './useInventoryValuation';
+export * from './useStockScan';
+export * from './useLoans';
+export * from './usePartsSheet';
+export * from './useStocktakes';
 export * from './useOrdersData';
 export * from './useProjectsData';
 export * from './useTeamsData';
 export * from './useCompetitionsData';
+export * from './useCompetitionRankings';
+export * from './useCompetitionJudging';
+export * from './useCompetitionResults';
+export * from './useNotifications';
 
 // Student Dashboard Hooks
 export * from './useStudentCourses';
@@ -17,6 +29,7 @@ export * from './useFileUpload';
 export * from './useAttendance';
 export * from './useAttendanceOverview';
 export * from './usePayments';
+export * from './useStudentResources';
 
 // Trainer Dashboard Hooks
 export * from './useTrainerDashboard';
@@ -24,6 +37,12 @@ export * from './useTrainerGroups';
 export * from './useTrainerSessions';
 export * from './useStudentEvaluations';
 export * from './useTrainerQuizzes';
+export * from './useQuestionBank';
+export * from './useQuizFiles';
+export * from './useQuizAnalytics';
+export * from './useGroupChat';
+export * from './useTrainerResources';
+export * from './useTrainerAssignments';
 
 // Reception Dashboard Hooks
 export * from './useReceptionDashboard';
@@ -31,6 +50,8 @@ export * from './useReceptionUsers';
 export * from './useReceptionEnrollments';
 export * from './useReceptionLeads';
 export * from './useReceptionInterests';
+export * from './useReceptionPayments';
+export * from './usePaymentLedger';
 export * from './useContactHistory';
 
 // CLO Hooks
@@ -42,3 +63,5 @@ export * from './useCLOEvaluations';
 export * from './useCLOAttendance';
 export * from './useCLOInterests';
 
+// Admin Hooks
+export * from './useFinanceReports';
@@ -0,0 +1,115 @@
+/**
+ * Custom hook for the judging sheet of a competition
+ *
+ * Loads the rubric, the teams and the judge's own evaluations, and saves a
+ * judge's scores for a team (submitting again replaces the earlier scores).
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+import type { CompetitionRubric, CompetitionStatus } from './useCompetitionsData';
+
+export interface CriterionScore {
+  criterionId: string;
+  points: number;
+}
+
+export interface JudgeEvaluation {
+  _id: string;
+  teamId: string;
+  /** Missing on evaluations saved before the competition had a rubric */
+  criterionScores?: CriterionScore[];
+  totalScore: number;
+  weightedScore?: number;
+  comments?: string;
+  updatedAt: string;
+}
+
+export interface JudgingTeam {
+  _id: string;
+  name: string;
+  members: string[];
+}
+
+export interface JudgingSheet {
+  competition: { _id: string; title: string; startDate: string; endDate: string; status: CompetitionStatus };
+  rubric: CompetitionRubric;
+  teams: JudgingTeam[];
+  evaluations: JudgeEvaluation[];
+}
+
+/**
+ * Return type for the hook
+ */
+interface UseCompetitionJudgingReturn {
+  sheet: JudgingSheet | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  submitEvaluation: (teamId: string, criterionScores: CriterionScore[], comments?: string) => Promise<void>;
+}
+
+/**
+ * Hook for a judge scoring the teams of a competition
+ *
+ * @param competitionId - Competition being judged
+ */
+export const useCompetitionJudging = (competitionId: string | undefined): UseCompetitionJudgingReturn => {
+  const [sheet, setSheet] = useState<JudgingSheet | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSheet = useCallback(async () => {
+    if (!competitionId) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get(`/competitions/${competitionId}/judging`);
+      setSheet(response.data);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to load judging sheet'));
+      console.error('Error loading judging sheet:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [competitionId]);
+
+  /**
+   * Save the judge's scores for a team
+   */
+  const submitEvaluation = useCallback(async (teamId: string, criterionScores: CriterionScore[], comments?: string) => {
+    try {
+      const response = await api.post(`/competitions/${competitionId}/evaluations`, {
+        teamId,
+        criterionScores,
+        comments: comments || ''
+      });
+      const saved: JudgeEvaluation = response.data;
+
+      setSheet((prev) => prev && {
+        ...prev,
+        evaluations: [
+          ...prev.evaluations.filter((evaluation) => evaluation.teamId !== teamId),
+          saved
+        ]
+      });
+    } catch (err) {
+      console.error('Error saving evaluation:', err);
+      throw new Error(getApiErrorMessage(err, 'Failed to save scores'));
+    }
+  }, [competitionId]);
+
+  useEffect(() => {
+    fetchSheet();
+  }, [fetchSheet]);
+
+  return {
+    sheet,
+    isLoading,
+    error,
+    refetch: fetchSheet,
+    submitEvaluation
+  };
+};
@@ -0,0 +1,106 @@
+/**
+ * Custom hook for competition rankings
+ *
+ * Team scores are the mean (or judge-normalized mean) of each judge's
+ * weighted rubric score, with a per-criterion breakdown.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+import type { CompetitionCriterion, ScoringMethod } from './useCompetitionsData';
+
+export interface CriterionBreakdown {
+  criterionId: string;
+  name: string;
+  maxPoints: number;
+  weight: number;
+  averagePoints: number;
+  percent: number;
+}
+
+export interface JudgeScore {
+  judgeId: string;
+  judgeName: string | null;
+  /** Weighted score the judge gave (0-100); a raw total when excluded */
+  rawScore: number;
+  /** Score used for the ranking (differs from rawScore when normalized) */
+  score: number | null;
+  /** Scored before the rubric existed, so left out of the ranking */
+  excluded: boolean;
+  comments: string;
+}
+
+export interface TeamRanking {
+  teamId: string;
+  teamName: string;
+  /** Null until at least one judge scored the team */
+  rank: number | null;
+  score: number | null;
+  judgeCount: number;
+  /** Tie-break criterion that placed the team below the one above it */
+  tieBrokenBy: string | null;
+  criteria: CriterionBreakdown[];
+  judges: JudgeScore[];
+}
+
+export interface CompetitionRankings {
+  scoringMethod: ScoringMethod;
+  criteria: CompetitionCriterion[];
+  tieBreakers: string[];
+  judgeCount: number;
+  /** Evaluations made before the rubric, not counted */
+  excludedEvaluations: number;
+  rankings: TeamRanking[];
+}
+
+/**
+ * Return type for the hook
+ */
+interface UseCompetitionRankingsReturn {
+  data: CompetitionRankings | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook to load the rankings of a competition
+ *
+ * @param competitionId - Competition to rank (nothing is fetched while null)
+ */
+export const useCompetitionRankings = (competitionId: string | null): UseCompetitionRankingsReturn => {
+  const [data, setData] = useState<CompetitionRankings | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRankings = useCallback(async () => {
+    if (!competitionId) {
+      setData(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get(`/competitions/${competitionId}/rankings`);
+      setData(response.data);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to load rankings'));
+      console.error('Error loading rankings:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [competitionId]);
+
+  useEffect(() => {
+    fetchRankings();
+  }, [fetchRankings]);
+
+  return {
+    data,
+    isLoading,
+    error,
+    refetch: fetchRankings
+  };
+};
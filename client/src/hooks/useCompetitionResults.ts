@@ -0,0 +1,83 @@
+/**
+ * Custom hook for the public results of a competition
+ *
+ * Works without signing in; the server only answers once the organizers
+ * have published the results.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+import type { ScoringMethod } from './useCompetitionsData';
+
+export interface PublicTeamResult {
+  rank: number;
+  teamId: string;
+  teamName: string;
+  members: string[];
+  score: number;
+  tieBrokenBy: string | null;
+  criteria: { criterionId: string; name: string; percent: number }[];
+}
+
+export interface CompetitionResults {
+  competition: {
+    _id: string;
+    title: string;
+    description?: string;
+    startDate: string;
+    endDate: string;
+    resultsPublishedAt: string;
+  };
+  scoringMethod: ScoringMethod;
+  criteria: { _id: string; name: string; weight: number }[];
+  rankings: PublicTeamResult[];
+}
+
+/**
+ * Return type for the hook
+ */
+interface UseCompetitionResultsReturn {
+  results: CompetitionResults | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+}
+
+/**
+ * Hook to load the published results of a competition
+ *
+ * @param competitionId - Competition to load
+ */
+export const useCompetitionResults = (competitionId: string | undefined): UseCompetitionResultsReturn => {
+  const [results, setResults] = useState<CompetitionResults | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchResults = useCallback(async () => {
+    if (!competitionId) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get(`/competitions/${competitionId}/results`);
+      setResults(response.data);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'These results are not available'));
+      console.error('Error loading results:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [competitionId]);
+
+  useEffect(() => {
+    fetchResults();
+  }, [fetchResults]);
+
+  return {
+    results,
+    isLoading,
+    error,
+    refetch: fetchResults
+  };
+};
@@ -1,5 +1,34 @@
 import { useState, useEffect, useCallback } from 'react';
-import { api } from '../lib/api';
+import { api, getApiErrorMessage } from '../lib/api';
+
+export interface CompetitionCriterion {
+  _id?: string;
+  name: string;
+  description?: string;
+  maxPoints: number;
+  weight: number;
+  /** Criteria with a priority break ties between equal scores, lowest first */
+  tieBreakPriority?: number | null;
+}
+
+export type ScoringMethod = 'average' | 'normalized';
+
+export interface CompetitionRubric {
+  criteria: CompetitionCriterion[];
+  scoringMethod: ScoringMethod;
+}
+
+export type CompetitionStatus = 'draft' | 'registration' | 'judging' | 'results_published';
+
+/**
+ * Phases a competition can move to from each status (mirrors the server)
+ */
+export const COMPETITION_TRANSITIONS: Record<CompetitionStatus, CompetitionStatus[]> = {
+  draft: ['registration'],
+  registration: ['draft', 'judging'],
+  judging: ['registration', 'results_published'],
+  results_published: ['judging'],
+};
 
 export interface Competition {
   _id: string;
@@ -8,18 +37,26 @@ export interface Competition {
   startDate?: string;
   endDate?: string;
   location?: string;
-  status?: 'upcoming' | 'ongoing' | 'completed' | 'cancelled';
-  teams?: any[];
+  /** Competitions created before the lifecycle have none and load as drafts */
+  status: CompetitionStatus;
+  maxTeams?: number;
+  registrationOpensAt?: string | null;
+  registrationClosesAt?: string | null;
+  resultsPublishedAt?: string | null;
+  rubric?: CompetitionRubric;
   createdAt: string;
   updatedAt: string;
+  /** Pending and approved teams */
   teamCount: number;
+  pendingTeamCount: number;
+  registrationOpen: boolean;
 }
 
 export interface CompetitionsStats {
   total: number;
-  upcoming: number;
-  ongoing: number;
-  completed: number;
+  registration: number;
+  judging: number;
+  published: number;
   totalTeams: number;
 }
 
@@ -35,18 +72,20 @@ export const useCompetitionsData = () => {
       setError(null);
 
       const response = await api.get('/competitions');
-      const data: Competition[] = response.data.map((comp: any) => ({
+      const data: Competition[] = response.data.map((comp: Competition) => ({
         ...comp,
-        teamCount: comp.teams?.length || 0
+        status: comp.status || 'draft',
+        teamCount: comp.teamCount || 0,
+        pendingTeamCount: comp.pendingTeamCount || 0
       }));
 
       setCompetitions(data);
 
       const stats = {
         total: data.length,
-        upcoming: data.filter(c => c.status === 'upcoming').length,
-        ongoing: data.filter(c => c.status === 'ongoing').length,
-        completed: data.filter(c => c.status === 'completed').length,
+        registration: data.filter(c => c.status === 'registration').length,
+        judging: data.filter(c => c.status === 'judging').length,
+        published: data.filter(c => c.status === 'results_published').length,
         totalTeams: data.reduce((sum, c) => sum + c.teamCount, 0)
       };
 
@@ -93,6 +132,26 @@ export const useCompetitionsData = () => {
     }
   }, [fetchCompetitions]);
 
+  const updateRubric = useCallback(async (id: string, rubric: CompetitionRubric) => {
+    try {
+      await api.put(`/competitions/${id}/rubric`, rubric);
+      await fetchCompetitions();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to save rubric') };
+    }
+  }, [fetchCompetitions]);
+
+  const updateStatus = useCallback(async (id: string, status: CompetitionStatus) => {
+    try {
+      await api.patch(`/competitions/${id}/status`, { status });
+      await fetchCompetitions();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to change competition status') };
+    }
+  }, [fetchCompetitions]);
+
   return {
     competitions,
     stats,
@@ -102,7 +161,9 @@ export const useCompetitionsData = () => {
     actions: {
       create: createCompetition,
       update: updateCompetition,
-      delete: deleteCompetition
+      delete: deleteCompetition,
+      updateRubric,
+      updateStatus
     }
   };
 };
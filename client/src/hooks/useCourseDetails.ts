@@ -51,6 +51,18 @@ export interface CourseDetails {
   enrolledStudents: number;
 }
 
+export interface StudentGroup {
+  _id: string;
+  name: string;
+  status: string;
+  trainerId?: {
+    _id: string;
+    name: string;
+    email: string;
+  };
+  chatUnreadCount: number;
+}
+
 export interface CourseProgress {
   completedModules: string[];
   currentModule?: string;
@@ -61,6 +73,7 @@ interface UseCourseDetailsReturn {
   course: CourseDetails | null;
   sessions: Session[];
   progress: CourseProgress | null;
+  group: StudentGroup | null;
   isLoading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
@@ -70,6 +83,7 @@ export const useCourseDetails = (courseId: string): UseCourseDetailsReturn => {
   const [course, setCourse] = useState<CourseDetails | null>(null);
   const [sessions, setSessions] = useState<Session[]>([]);
   const [progress, setProgress] = useState<CourseProgress | null>(null);
+  const [group, setGroup] = useState<StudentGroup | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -80,15 +94,17 @@ export const useCourseDetails = (courseId: string): UseCourseDetailsReturn => {
       setIsLoading(true);
       setError(null);
 
-      // Fetch course details and sessions in parallel
-      const [courseRes, sessionsRes] = await Promise.all([
+      // Fetch course details, sessions and the student's group in parallel
+      const [courseRes, sessionsRes, groupsRes] = await Promise.all([
         api.get(`/student/courses/${courseId}`),
         api.get(`/student/courses/${courseId}/sessions`),
+        api.get('/student/groups', { params: { courseId } }),
       ]);
 
       setCourse(courseRes.data.data.course);
       setSessions(sessionsRes.data.data || []);
       setProgress(courseRes.data.data.enrollment?.progress || null);
+      setGroup(groupsRes.data.data?.[0] || null);
     } catch (err: any) {
       setError(err.response?.data?.message || 'Failed to fetch course details');
       console.error('Error fetching course details:', err);
@@ -105,6 +121,7 @@ export const useCourseDetails = (courseId: string): UseCourseDetailsReturn => {
     course,
     sessions,
     progress,
+    group,
     isLoading,
     error,
     refetch: fetchCourseDetails,
@@ -0,0 +1,214 @@
+/**
+ * Custom hook for the admin finance reports
+ *
+ * Loads revenue (by course, group, method and month), outstanding balances
+ * per student and the daily cash-drawer reconciliation, and downloads any
+ * of them as CSV or XLSX.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+
+export type RevenueGrouping = 'course' | 'group' | 'method' | 'month';
+export type FinanceReport = 'revenue' | 'outstanding' | 'reconciliation';
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface RevenueRow {
+  key: string | null;
+  label: string;
+  payments: number;
+  gross: number;
+  refunds: number;
+  net: number;
+}
+
+export interface RevenueReport {
+  groupBy: RevenueGrouping;
+  rows: RevenueRow[];
+  totals: { payments: number; gross: number; refunds: number; net: number };
+}
+
+export interface OutstandingRow {
+  studentId: string;
+  name: string;
+  email: string;
+  courses: string[];
+  totalAmount: number;
+  paidAmount: number;
+  remainingAmount: number;
+  overdueAmount: number;
+  nextDueDate: string | null;
+}
+
+export interface OutstandingReport {
+  rows: OutstandingRow[];
+  totals: { students: number; remainingAmount: number; overdueAmount: number };
+}
+
+export interface ReconciliationMethodTotals {
+  payments: number;
+  collected: number;
+  refunds: number;
+  refunded: number;
+}
+
+export interface ReconciliationRow {
+  userId: string;
+  name: string;
+  byMethod: Record<string, ReconciliationMethodTotals>;
+  collected: number;
+  refunded: number;
+  cashCollected: number;
+  cashRefunded: number;
+  expectedCash: number;
+}
+
+export interface ReconciliationReport {
+  date: string;
+  rows: ReconciliationRow[];
+  totals: { collected: number; refunded: number; expectedCash: number };
+}
+
+export interface FinanceFilters {
+  from?: string;
+  to?: string;
+  courseId?: string;
+  overdueOnly?: boolean;
+}
+
+/**
+ * Return type for the hook
+ */
+interface UseFinanceReportsReturn {
+  revenue: Record<RevenueGrouping, RevenueReport | null>;
+  outstanding: OutstandingReport | null;
+  reconciliation: ReconciliationReport | null;
+  isLoading: boolean;
+  error: string | null;
+  filters: FinanceFilters;
+  setFilters: (filters: FinanceFilters) => void;
+  reconciliationDate: string;
+  setReconciliationDate: (date: string) => void;
+  refetch: () => Promise<void>;
+  exportReport: (report: FinanceReport, format: ExportFormat, groupBy?: RevenueGrouping) => Promise<void>;
+}
+
+const REVENUE_GROUPINGS: RevenueGrouping[] = ['month', 'method', 'course', 'group'];
+
+const today = () => {
+  const now = new Date();
+  return [
+    now.getFullYear(),
+    String(now.getMonth() + 1).padStart(2, '0'),
+    String(now.getDate()).padStart(2, '0'),
+  ].join('-');
+};
+
+/**
+ * Hook to load and export the finance reports
+ *
+ * @returns Reports for the current filters plus an export action
+ *
+ * @example
+ * const { revenue, outstanding, exportReport } = useFinanceReports();
+ */
+export const useFinanceReports = (): UseFinanceReportsReturn => {
+  const [revenue, setRevenue] = useState<Record<RevenueGrouping, RevenueReport | null>>({
+    month: null,
+    method: null,
+    course: null,
+    group: null,
+  });
+  const [outstanding, setOutstanding] = useState<OutstandingReport | null>(null);
+  const [reconciliation, setReconciliation] = useState<ReconciliationReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<FinanceFilters>({});
+  const [reconciliationDate, setReconciliationDate] = useState(today());
+
+  /**
+   * Fetch every report for the current filters
+   */
+  const fetchReports = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const { from, to, courseId, overdueOnly } = filters;
+
+      const [revenueResponses, outstandingResponse, reconciliationResponse] = await Promise.all([
+        Promise.all(
+          REVENUE_GROUPINGS.map((groupBy) =>
+            api.get('/admin/finance/revenue', { params: { groupBy, from, to, courseId } })
+          )
+        ),
+        api.get('/admin/finance/outstanding', { params: { courseId, overdueOnly } }),
+        api.get('/admin/finance/reconciliation', { params: { date: reconciliationDate } }),
+      ]);
+
+      setRevenue(
+        REVENUE_GROUPINGS.reduce(
+          (acc, groupBy, index) => ({ ...acc, [groupBy]: revenueResponses[index].data.data }),
+          {} as Record<RevenueGrouping, RevenueReport | null>
+        )
+      );
+      setOutstanding(outstandingResponse.data.data);
+      setReconciliation(reconciliationResponse.data.data);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to load finance reports'));
+      console.error('Error loading finance reports:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters, reconciliationDate]);
+
+  /**
+   * Download a report with the current filters
+   */
+  const exportReport = useCallback(async (report: FinanceReport, format: ExportFormat, groupBy?: RevenueGrouping) => {
+    const { from, to, courseId, overdueOnly } = filters;
+    const params =
+      report === 'revenue'
+        ? { groupBy, from, to, courseId, format }
+        : report === 'outstanding'
+          ? { courseId, overdueOnly, format }
+          : { date: reconciliationDate, format };
+
+    try {
+      const response = await api.get(`/admin/finance/${report}`, {
+        params,
+        responseType: 'blob',
+      });
+
+      const url = window.URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${report}${groupBy ? `-by-${groupBy}` : ''}${report === 'reconciliation' ? `-${reconciliationDate}` : ''}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting report:', err);
+      throw new Error(getApiErrorMessage(err, 'Failed to export report'));
+    }
+  }, [filters, reconciliationDate]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  return {
+    revenue,
+    outstanding,
+    reconciliation,
+    isLoading,
+    error,
+    filters,
+    setFilters,
+    reconciliationDate,
+    setReconciliationDate,
+    refetch: fetchReports,
+    exportReport,
+  };
+};
@@ -0,0 +1,371 @@
+/**
+ * useGroupChat Hook
+ *
+ * Custom hook for real-time group chat.
+ * Loads chat details and messages over REST and keeps them live
+ * through the group's Socket.IO room.
+ *
+ * @hook useGroupChat
+ * @version 1.0.0
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+import { socket } from '../lib/socket';
+import { subscribe } from '../lib/realtime';
+import { useAuth } from '../providers/AuthProvider';
+
+/**
+ * Which API the chat is accessed through
+ */
+export type ChatScope = 'trainer' | 'student';
+
+export interface ChatReaction {
+  userId: string;
+  emoji: string;
+  reactedAt: string;
+}
+
+export interface ChatMessage {
+  _id: string;
+  senderId: string;
+  senderName: string;
+  senderRole: 'trainer' | 'student';
+  message: string;
+  type: 'text' | 'file' | 'announcement' | 'system';
+  isPinned: boolean;
+  reactions: ChatReaction[];
+  readBy: Array<{ userId: string; readAt: string }>;
+  isEdited: boolean;
+  editedAt?: string | null;
+  createdAt: string;
+}
+
+export interface ChatParticipant {
+  userId: {
+    _id: string;
+    name: string;
+    email: string;
+    role: string;
+  } | null;
+  role: 'trainer' | 'student';
+  lastReadAt: string;
+}
+
+export interface GroupChatInfo {
+  _id: string;
+  groupId: string;
+  groupName: string;
+  name?: string;
+  role: ChatScope;
+  participants: ChatParticipant[];
+  pinnedMessages: ChatMessage[];
+  unreadCount: number;
+}
+
+export interface TypingUser {
+  userId: string;
+  userName?: string;
+}
+
+/**
+ * Hook return type
+ */
+export interface UseGroupChatReturn {
+  chat: GroupChatInfo | null;
+  messages: ChatMessage[];
+  pinnedMessages: ChatMessage[];
+  unreadCount: number;
+  typingUsers: TypingUser[];
+  currentUserId: string | undefined;
+  isLoading: boolean;
+  error: string | null;
+  hasMore: boolean;
+  refetch: () => Promise<void>;
+  loadMore: () => Promise<void>;
+  sendMessage: (message: string, type?: 'text' | 'announcement') => Promise<boolean>;
+  editMessage: (messageId: string, message: string) => Promise<boolean>;
+  deleteMessage: (messageId: string) => Promise<boolean>;
+  togglePin: (message: ChatMessage) => Promise<boolean>;
+  toggleReaction: (messageId: string, emoji: string) => Promise<boolean>;
+  markAsRead: () => Promise<void>;
+  setTyping: (isTyping: boolean) => void;
+}
+
+const PAGE_SIZE = 50;
+
+/**
+ * Insert or replace a message, keeping chronological order
+ */
+const upsertMessage = (list: ChatMessage[], message: ChatMessage): ChatMessage[] => {
+  const exists = list.some(m => m._id === message._id);
+  const next = exists
+    ? list.map(m => (m._id === message._id ? message : m))
+    : [...list, message];
+  return next.sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+};
+
+/**
+ * Custom hook for a group's chat
+ * @param scope - 'trainer' or 'student' API
+ * @param groupId - Group to chat in (hook is idle while undefined)
+ * @returns Chat data and actions
+ */
+export const useGroupChat = (scope: ChatScope, groupId?: string): UseGroupChatReturn => {
+  const { user } = useAuth();
+  const currentUserId = user?.id || user?._id;
+
+  const [chat, setChat] = useState<GroupChatInfo | null>(null);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [typingUsers, setTypingUsers] = useState<TypingUser[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [page, setPage] = useState(1);
+  const [hasMore, setHasMore] = useState(false);
+
+  const currentUserRef = useRef(currentUserId);
+  currentUserRef.current = currentUserId;
+
+  const basePath = `/${scope}/groups/${groupId}/chat`;
+
+  /**
+   * Fetch chat details and the latest page of messages
+   */
+  const fetchChat = useCallback(async () => {
+    if (!groupId) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [chatRes, messagesRes] = await Promise.all([
+        api.get(basePath),
+        api.get(`${basePath}/messages`, { params: { page: 1, limit: PAGE_SIZE } }),
+      ]);
+
+      const chatData: GroupChatInfo = chatRes.data.data;
+      setChat(chatData);
+      setUnreadCount(chatData.unreadCount || 0);
+      setMessages([...(messagesRes.data.data || [])].reverse());
+      setHasMore(!!messagesRes.data.pagination?.hasMore);
+      setPage(1);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to load chat'));
+      console.error('Error fetching group chat:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [groupId, basePath]);
+
+  /**
+   * Load the next page of older messages
+   */
+  const loadMore = useCallback(async () => {
+    if (!groupId || !hasMore) return;
+
+    try {
+      const nextPage = page + 1;
+      const response = await api.get(`${basePath}/messages`, {
+        params: { page: nextPage, limit: PAGE_SIZE },
+      });
+      const older: ChatMessage[] = [...(response.data.data || [])].reverse();
+
+      setMessages(prev => {
+        const ids = new Set(prev.map(m => m._id));
+        return [...older.filter(m => !ids.has(m._id)), ...prev];
+      });
+      setHasMore(!!response.data.pagination?.hasMore);
+      setPage(nextPage);
+    } catch (err) {
+      console.error('Error loading older messages:', err);
+    }
+  }, [groupId, basePath, hasMore, page]);
+
+  /**
+   * Send a message (announcements are trainer-only)
+   */
+  const sendMessage = useCallback(async (
+    message: string,
+    type: 'text' | 'announcement' = 'text'
+  ): Promise<boolean> => {
+    try {
+      const response = await api.post(`${basePath}/messages`, { message, type });
+      setMessages(prev => upsertMessage(prev, response.data.data));
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to send message'));
+      console.error('Error sending message:', err);
+      return false;
+    }
+  }, [basePath]);
+
+  /**
+   * Edit own message
+   */
+  const editMessage = useCallback(async (messageId: string, message: string): Promise<boolean> => {
+    try {
+      const response = await api.put(`${basePath}/messages/${messageId}`, { message });
+      setMessages(prev => upsertMessage(prev, response.data.data));
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to edit message'));
+      console.error('Error editing message:', err);
+      return false;
+    }
+  }, [basePath]);
+
+  /**
+   * Delete a message
+   */
+  const deleteMessage = useCallback(async (messageId: string): Promise<boolean> => {
+    try {
+      await api.delete(`${basePath}/messages/${messageId}`);
+      setMessages(prev => prev.filter(m => m._id !== messageId));
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to delete message'));
+      console.error('Error deleting message:', err);
+      return false;
+    }
+  }, [basePath]);
+
+  /**
+   * Pin or unpin a message (trainer only)
+   */
+  const togglePin = useCallback(async (message: ChatMessage): Promise<boolean> => {
+    try {
+      const url = `${basePath}/messages/${message._id}/pin`;
+      const response = message.isPinned ? await api.delete(url) : await api.post(url);
+      setMessages(prev => upsertMessage(prev, response.data.data));
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to update pin'));
+      console.error('Error toggling pin:', err);
+      return false;
+    }
+  }, [basePath]);
+
+  /**
+   * Toggle an emoji reaction
+   */
+  const toggleReaction = useCallback(async (messageId: string, emoji: string): Promise<boolean> => {
+    try {
+      const response = await api.post(`${basePath}/messages/${messageId}/reactions`, { emoji });
+      setMessages(prev => upsertMessage(prev, response.data.data));
+      return true;
+    } catch (err) {
+      console.error('Error toggling reaction:', err);
+      return false;
+    }
+  }, [basePath]);
+
+  /**
+   * Mark all messages as read
+   */
+  const markAsRead = useCallback(async () => {
+    if (!groupId) return;
+
+    try {
+      setUnreadCount(0);
+      await api.post(`${basePath}/read`);
+    } catch (err) {
+      console.error('Error marking chat as read:', err);
+    }
+  }, [groupId, basePath]);
+
+  /**
+   * Broadcast typing state to the group
+   */
+  const setTyping = useCallback((isTyping: boolean) => {
+    if (groupId && socket.connected) {
+      socket.emit('chat:typing', { groupId, isTyping });
+    }
+  }, [groupId]);
+
+  // Initial fetch
+  useEffect(() => {
+    fetchChat();
+  }, [fetchChat]);
+
+  // Real-time updates through the group's socket room
+  useEffect(() => {
+    if (!groupId) return;
+
+    const join = () => {
+      socket.emit('chat:join', { groupId }, (res?: { success: boolean; message?: string }) => {
+        if (res && !res.success) {
+          console.warn('[Chat] Could not join group room:', res.message);
+        }
+      });
+    };
+
+    if (!socket.connected) {
+      socket.connect();
+    }
+    join();
+
+    // Rejoin the room after reconnects
+    socket.on('connect', join);
+
+    const unsubscribers = [
+      subscribe('chat:message', (data) => {
+        if (data.groupId !== groupId) return;
+        // Each new message is broadcast once; own messages are never unread
+        if (String(data.message.senderId) !== currentUserRef.current) {
+          setUnreadCount(count => count + 1);
+        }
+        setMessages(prev => upsertMessage(prev, data.message));
+      }),
+      subscribe('chat:message:updated', (data) => {
+        if (data.groupId !== groupId) return;
+        setMessages(prev => upsertMessage(prev, data.message));
+      }),
+      subscribe('chat:message:deleted', (data) => {
+        if (data.groupId !== groupId) return;
+        setMessages(prev => prev.filter(m => m._id !== data.messageId));
+      }),
+      subscribe('chat:typing', (data) => {
+        if (data.groupId !== groupId || data.userId === currentUserRef.current) return;
+        setTypingUsers(prev => {
+          const others = prev.filter(u => u.userId !== data.userId);
+          return data.isTyping ? [...others, { userId: data.userId, userName: data.userName }] : others;
+        });
+      }),
+    ];
+
+    return () => {
+      socket.off('connect', join);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      setTypingUsers([]);
+    };
+  }, [groupId]);
+
+  // Pinned messages may be older than the loaded pages
+  const loadedIds = new Set(messages.map(m => m._id));
+  const pinnedMessages = [
+    ...(chat?.pinnedMessages || []).filter(m => !loadedIds.has(m._id)),
+    ...messages.filter(m => m.isPinned),
+  ];
+
+  return {
+    chat,
+    messages,
+    pinnedMessages,
+    unreadCount,
+    typingUsers,
+    currentUserId,
+    isLoading,
+    error,
+    hasMore,
+    refetch: fetchChat,
+    loadMore,
+    sendMessage,
+    editMessage,
+    deleteMessage,
+    togglePin,
+    toggleReaction,
+    markAsRead,
+    setTyping,
+  };
+};
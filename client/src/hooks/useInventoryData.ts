@@ -9,10 +9,26 @@ export interface Part {
   sku: string;
   group?: string;
   partNumber?: string;
+  /** Physically in stock, including parts reserved by open orders */
+  onHandQty?: number;
+  /** Held by pending and approved orders */
+  reservedQty?: number;
+  /** Available to promise: on hand minus reserved */
   availableQty: number;
   usedQty?: number;
   damagedQty?: number;
-  reservedQty?: number;
+  /** Alert and reorder once available stock drops below this (0 = off) */
+  reorderPoint?: number;
+  reorderQty?: number;
+  /** Preferred supplier */
+  supplierId?: string | null;
+  leadTimeDays?: number | null;
+  /** Can be checked out on equipment loans */
+  loanable?: boolean;
+  /** Serialized loan units; empty for parts lent by quantity */
+  serialNumbers?: string[];
+  /** Out with borrowers on loans */
+  onLoanQty?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -20,13 +36,18 @@ export interface Part {
 export interface StockLevel {
   _id: string;
   partId: string;
+  onHandQty: number;
+  reservedQty: number;
   availableQty: number;
   usedQty: number;
   damagedQty: number;
+  onLoanQty?: number;
   updatedAt: string;
 }
 
 export interface PartWithStock extends Part {
+  onHandQty: number;
+  reservedQty: number;
   stockLevel?: StockLevel;
   totalQty: number;
   imageUrl?: string;
@@ -36,6 +57,8 @@ export interface BoxGroup {
   sku: string;
   parts: PartWithStock[];
   totalQty: number;
+  onHandQty: number;
+  reservedQty: number;
   availableQty: number;
   usedQty: number;
   damagedQty: number;
@@ -48,6 +71,8 @@ interface InventoryStats {
   totalBoxes: number;
   lowStockCount: number;
   outOfStockCount: number;
+  totalOnHand: number;
+  totalReserved: number;
   totalAvailable: number;
   totalInUse: number;
   totalDamaged: number;
@@ -55,6 +80,15 @@ interface InventoryStats {
   groups: string[];
 }
 
+/** Threshold for parts without a reorder point of their own */
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5;
+
+/**
+ * Whether a part is below its reorder point (or the default threshold)
+ */
+export const isLowStock = (part: Pick<Part, 'availableQty' | 'reorderPoint'>) =>
+  (part.availableQty || 0) < (part.reorderPoint || DEFAULT_LOW_STOCK_THRESHOLD);
+
 /**
  * Custom hook for managing inventory data
  * Fetches parts, calculates stats, and provides refresh capability
@@ -73,10 +107,13 @@ export const useInventoryData = () => {
       const response = await api.get('/parts');
       const partsData: PartWithStock[] = response.data.map((part: Part) => ({
         ...part,
+        onHandQty: part.onHandQty ?? part.availableQty ?? 0,
+        reservedQty: part.reservedQty || 0,
         availableQty: part.availableQty || 0,
         usedQty: part.usedQty || 0,
         damagedQty: part.damagedQty || 0,
-        totalQty: (part.availableQty || 0) + (part.usedQty || 0) + (part.damagedQty || 0),
+        // Everything ever stocked: still on the shelf, used up or written off
+        totalQty: (part.onHandQty ?? part.availableQty ?? 0) + (part.onLoanQty || 0) + (part.usedQty || 0) + (part.damagedQty || 0),
         imageUrl: `/api/images/by/part/${part._id}`
       }));
 
@@ -86,8 +123,10 @@ export const useInventoryData = () => {
       const categories = [...new Set(partsData.map(p => p.category).filter(Boolean))].sort();
       const groups = [...new Set(partsData.map(p => (p.group || '').trim()).filter(Boolean))].sort();
 
-      const lowStockCount = partsData.filter(p => p.availableQty > 0 && p.availableQty < 5).length;
-      const outOfStockCount = partsData.filter(p => p.availableQty === 0).length;
+      const lowStockCount = partsData.filter(p => p.availableQty > 0 && isLowStock(p)).length;
+      const outOfStockCount = partsData.filter(p => p.availableQty <= 0).length;
+      const totalOnHand = partsData.reduce((sum, p) => sum + p.onHandQty, 0);
+      const totalReserved = partsData.reduce((sum, p) => sum + p.reservedQty, 0);
       const totalAvailable = partsData.reduce((sum, p) => sum + (p.availableQty || 0), 0);
       const totalInUse = partsData.reduce((sum, p) => sum + (p.usedQty || 0), 0);
       const totalDamaged = partsData.reduce((sum, p) => sum + (p.damagedQty || 0), 0);
@@ -100,6 +139,8 @@ export const useInventoryData = () => {
             sku: part.sku,
             parts: [],
             totalQty: 0,
+            onHandQty: 0,
+            reservedQty: 0,
             availableQty: 0,
             usedQty: 0,
             damagedQty: 0,
@@ -110,6 +151,8 @@ export const useInventoryData = () => {
 
         boxGroupsMap[part.sku].parts.push(part);
         boxGroupsMap[part.sku].totalQty += part.totalQty;
+        boxGroupsMap[part.sku].onHandQty += part.onHandQty;
+        boxGroupsMap[part.sku].reservedQty += part.reservedQty;
         boxGroupsMap[part.sku].availableQty += part.availableQty || 0;
         boxGroupsMap[part.sku].usedQty += part.usedQty || 0;
         boxGroupsMap[part.sku].damagedQty += part.damagedQty || 0;
@@ -118,7 +161,7 @@ export const useInventoryData = () => {
           boxGroupsMap[part.sku].categories.push(part.category);
         }
 
-        if ((part.availableQty || 0) < 5) {
+        if (isLowStock(part)) {
           boxGroupsMap[part.sku].lowStock = true;
         }
       });
@@ -130,6 +173,8 @@ export const useInventoryData = () => {
         totalBoxes: boxGroups.length,
         lowStockCount,
         outOfStockCount,
+        totalOnHand,
+        totalReserved,
         totalAvailable,
         totalInUse,
         totalDamaged,
@@ -0,0 +1,99 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+
+export interface ValuationItem {
+  partId: string;
+  name: string;
+  sku?: string;
+  category?: string;
+  group?: string;
+  onHandQty: number;
+  /** Weighted average purchase cost; null when never bought with a cost */
+  avgUnitCost: number | null;
+  lastUnitCost: number | null;
+  lastPurchasedAt: string | null;
+  value: number | null;
+}
+
+export interface InventoryValuation {
+  items: ValuationItem[];
+  totals: {
+    totalValue: number;
+    onHandQty: number;
+    costedParts: number;
+    uncostedParts: number;
+  };
+}
+
+export interface UnitCostEntry {
+  _id: string;
+  qtyChange: number;
+  unitCost: number;
+  createdAt: string;
+  notes?: string;
+  purchaseOrderId?: {
+    _id: string;
+    orderNumber: string;
+    supplierId?: { _id: string; name: string } | null;
+  } | null;
+}
+
+/**
+ * Value of the stock on hand at average purchase cost
+ * @param enabled - Only fetch when the report is shown
+ */
+export const useInventoryValuation = (enabled = true) => {
+  const [valuation, setValuation] = useState<InventoryValuation | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchValuation = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('/stock/valuation');
+      setValuation(response.data);
+    } catch (err) {
+      console.error('Error fetching stock valuation:', err);
+      setError(getApiErrorMessage(err, 'Failed to load stock valuation'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) fetchValuation();
+  }, [enabled, fetchValuation]);
+
+  return { valuation, isLoading, error, refetch: fetchValuation };
+};
+
+/**
+ * Unit costs a part was bought at, newest first
+ */
+export const useUnitCostHistory = (partId: string | null) => {
+  const [history, setHistory] = useState<UnitCostEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!partId) return;
+    let cancelled = false;
+
+    setIsLoading(true);
+    api.get(`/stock/costs/${partId}`)
+      .then((response) => {
+        if (!cancelled) setHistory(response.data);
+      })
+      .catch((err) => console.error('Error fetching unit cost history:', err))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [partId]);
+
+  return { history, isLoading };
+};
@@ -0,0 +1,186 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+
+export type LoanStatus = 'out' | 'returned';
+export type BorrowerType = 'student' | 'team' | 'group';
+export type ReturnCondition = 'good' | 'worn' | 'damaged';
+
+export interface Loan {
+  _id: string;
+  partId: { _id: string; name: string; sku: string; serialNumbers?: string[] } | null;
+  qty: number;
+  serialNumbers: string[];
+  borrowerType: BorrowerType;
+  studentId?: { _id: string; name: string; email?: string } | null;
+  teamId?: { _id: string; name: string } | null;
+  groupId?: { _id: string; name: string } | null;
+  status: LoanStatus;
+  dueAt: string;
+  notes?: string;
+  checkedOutBy?: { _id: string; name: string } | null;
+  checkedOutAt: string;
+  checkIn?: {
+    condition: ReturnCondition;
+    damagedQty: number;
+    damagedSerials: string[];
+    notes?: string;
+    checkedInBy?: { _id: string; name: string } | null;
+    checkedInAt: string;
+  } | null;
+  /** Still out after the due date */
+  isOverdue: boolean;
+}
+
+export interface LoanFilters {
+  status?: LoanStatus;
+  overdue?: boolean;
+  studentId?: string;
+  borrowerType?: BorrowerType;
+}
+
+export interface CheckOutInput {
+  partId: string;
+  qty?: number;
+  serialNumbers?: string[];
+  borrowerType: BorrowerType;
+  studentId?: string;
+  teamId?: string;
+  groupId?: string;
+  dueAt: string;
+  notes?: string;
+}
+
+export interface CheckInInput {
+  condition: ReturnCondition;
+  damagedQty?: number;
+  damagedSerials?: string[];
+  notes?: string;
+}
+
+export interface LoanBorrowers {
+  students: { _id: string; name: string; email?: string }[];
+  teams: { _id: string; name: string }[];
+  groups: { _id: string; name: string }[];
+}
+
+/** Display name of a loan's borrower */
+export const loanBorrowerName = (loan: Loan) =>
+  loan.studentId?.name || loan.teamId?.name || loan.groupId?.name || 'Unknown borrower';
+
+/**
+ * Equipment loans for staff: check out, extend and check in
+ * @param filters - Server-side filters
+ */
+export const useLoans = (filters: LoanFilters = {}) => {
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { status, overdue, studentId, borrowerType } = filters;
+
+  const fetchLoans = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('/loans', {
+        params: { status, overdue: overdue || undefined, studentId, borrowerType },
+      });
+      setLoans(response.data);
+    } catch (err) {
+      console.error('Error fetching loans:', err);
+      setError(getApiErrorMessage(err, 'Failed to load loans'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status, overdue, studentId, borrowerType]);
+
+  useEffect(() => {
+    fetchLoans();
+  }, [fetchLoans]);
+
+  const run = useCallback(async (request: () => Promise<unknown>, fallback: string) => {
+    try {
+      await request();
+      await fetchLoans();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, fallback) };
+    }
+  }, [fetchLoans]);
+
+  const checkOut = useCallback((data: CheckOutInput) =>
+    run(() => api.post('/loans', data), 'Failed to check out equipment'), [run]);
+
+  const update = useCallback((id: string, data: { dueAt?: string; notes?: string }) =>
+    run(() => api.patch(`/loans/${id}`, data), 'Failed to update loan'), [run]);
+
+  const checkIn = useCallback((id: string, data: CheckInInput) =>
+    run(() => api.post(`/loans/${id}/check-in`, data), 'Failed to check in equipment'), [run]);
+
+  return {
+    loans,
+    isLoading,
+    error,
+    refetch: fetchLoans,
+    actions: {
+      checkOut,
+      update,
+      checkIn,
+    },
+  };
+};
+
+/**
+ * Loans the current user answers for: their own, their team's and their groups'
+ */
+export const useMyLoans = () => {
+  const [loans, setLoans] = useState<Loan[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchLoans = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('/loans/mine');
+      setLoans(response.data);
+    } catch (err) {
+      console.error('Error fetching my loans:', err);
+      setError(getApiErrorMessage(err, 'Failed to load your loans'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLoans();
+  }, [fetchLoans]);
+
+  return { loans, isLoading, error, refetch: fetchLoans };
+};
+
+/**
+ * Students, teams and groups equipment can be lent to
+ * @param enabled - Only fetch when the check-out form is shown
+ */
+export const useLoanBorrowers = (enabled = true) => {
+  const [borrowers, setBorrowers] = useState<LoanBorrowers>({ students: [], teams: [], groups: [] });
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+
+    api.get('/loans/borrowers')
+      .then((response) => {
+        if (!cancelled) setBorrowers(response.data);
+      })
+      .catch((err) => console.error('Error fetching loan borrowers:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled]);
+
+  return borrowers;
+};
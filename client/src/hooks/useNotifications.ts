@@ -0,0 +1,291 @@
+/**
+ * useNotifications Hook
+ *
+ * Custom hook for the persistent notification center.
+ * Loads notifications over REST and keeps the list and unread count
+ * live through the user's Socket.IO room.
+ *
+ * @hook useNotifications
+ * @version 1.0.0
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+import { socket } from '../lib/socket';
+import { subscribe } from '../lib/realtime';
+
+export type NotificationType =
+  | 'order'
+  | 'assignment'
+  | 'quiz'
+  | 'payment'
+  | 'session'
+  | 'evaluation'
+  | 'resource'
+  | 'inventory'
+  | 'competition'
+  | 'system';
+
+export type NotificationLevel = 'info' | 'success' | 'warning' | 'error';
+
+/**
+ * Notification interface matching backend model
+ */
+export interface AppNotification {
+  _id: string;
+  userId: string;
+  type: NotificationType;
+  level: NotificationLevel;
+  title: string;
+  message?: string;
+  isImportant: boolean;
+  actionUrl: string | null;
+  actionLabel: string | null;
+  entity?: { kind: string | null; id: string | null };
+  isRead: boolean;
+  readAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Notification list filters
+ */
+export interface NotificationFilters {
+  unread?: boolean;
+  important?: boolean;
+  type?: NotificationType;
+  limit?: number;
+}
+
+export interface NotificationPagination {
+  total: number;
+  page: number;
+  limit: number;
+  totalPages: number;
+  hasMore: boolean;
+}
+
+interface UseNotificationsOptions {
+  /** Called for every notification received live */
+  onReceive?: (notification: AppNotification) => void;
+}
+
+/**
+ * Hook return type
+ */
+interface UseNotificationsReturn {
+  notifications: AppNotification[];
+  unreadCount: number;
+  pagination: NotificationPagination | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: (filters?: NotificationFilters) => Promise<void>;
+  loadMore: () => Promise<void>;
+  markAsRead: (notificationId: string) => Promise<boolean>;
+  markAllAsRead: () => Promise<boolean>;
+  deleteNotification: (notificationId: string) => Promise<boolean>;
+}
+
+/**
+ * Whether a live notification belongs in the currently loaded list
+ */
+const matchesFilters = (notification: AppNotification, filters: NotificationFilters) => {
+  if (filters.unread && notification.isRead) return false;
+  if (filters.important && !notification.isImportant) return false;
+  if (filters.type && notification.type !== filters.type) return false;
+  return true;
+};
+
+/**
+ * Custom hook for the current user's notifications
+ * Call refetch() with the desired filters to load the list.
+ * @param options - Optional live notification callback
+ * @returns Hook utilities and data
+ */
+export const useNotifications = (options: UseNotificationsOptions = {}): UseNotificationsReturn => {
+  const [notifications, setNotifications] = useState<AppNotification[]>([]);
+  const [unreadCount, setUnreadCount] = useState(0);
+  const [pagination, setPagination] = useState<NotificationPagination | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const filtersRef = useRef<NotificationFilters>({});
+  const onReceiveRef = useRef(options.onReceive);
+
+  useEffect(() => {
+    onReceiveRef.current = options.onReceive;
+  }, [options.onReceive]);
+
+  /**
+   * Fetch one page of notifications
+   */
+  const fetchPage = useCallback(async (filters: NotificationFilters, page: number) => {
+    const response = await api.get('/notifications', {
+      params: {
+        unread: filters.unread || undefined,
+        important: filters.important || undefined,
+        type: filters.type,
+        limit: filters.limit,
+        page,
+      },
+    });
+
+    setUnreadCount(response.data.unreadCount || 0);
+    setPagination(response.data.pagination || null);
+    return (response.data.data || []) as AppNotification[];
+  }, []);
+
+  /**
+   * Load the first page for the given filters
+   */
+  const refetch = useCallback(async (filters: NotificationFilters = {}) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      filtersRef.current = filters;
+
+      const data = await fetchPage(filters, 1);
+      setNotifications(data);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to fetch notifications'));
+      console.error('Error fetching notifications:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fetchPage]);
+
+  /**
+   * Append the next page
+   */
+  const loadMore = useCallback(async () => {
+    if (!pagination?.hasMore) return;
+
+    try {
+      const data = await fetchPage(filtersRef.current, pagination.page + 1);
+      setNotifications(prev => {
+        const known = new Set(prev.map(n => n._id));
+        return [...prev, ...data.filter(n => !known.has(n._id))];
+      });
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to load more notifications'));
+      console.error('Error loading notifications:', err);
+    }
+  }, [pagination, fetchPage]);
+
+  /**
+   * Mark a notification as read
+   */
+  const markAsRead = useCallback(async (notificationId: string): Promise<boolean> => {
+    try {
+      await api.patch(`/notifications/${notificationId}/read`);
+
+      setNotifications(prev => {
+        const target = prev.find(n => n._id === notificationId);
+        if (target && !target.isRead) {
+          setUnreadCount(count => Math.max(count - 1, 0));
+        }
+        return filtersRef.current.unread
+          ? prev.filter(n => n._id !== notificationId)
+          : prev.map(n =>
+              n._id === notificationId ? { ...n, isRead: true, readAt: new Date().toISOString() } : n
+            );
+      });
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to mark notification as read'));
+      console.error('Error marking notification as read:', err);
+      return false;
+    }
+  }, []);
+
+  /**
+   * Mark every notification as read
+   */
+  const markAllAsRead = useCallback(async (): Promise<boolean> => {
+    try {
+      await api.patch('/notifications/read-all');
+
+      const readAt = new Date().toISOString();
+      setNotifications(prev =>
+        filtersRef.current.unread ? [] : prev.map(n => (n.isRead ? n : { ...n, isRead: true, readAt }))
+      );
+      setUnreadCount(0);
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to mark notifications as read'));
+      console.error('Error marking notifications as read:', err);
+      return false;
+    }
+  }, []);
+
+  /**
+   * Delete a notification
+   */
+  const deleteNotification = useCallback(async (notificationId: string): Promise<boolean> => {
+    try {
+      await api.delete(`/notifications/${notificationId}`);
+
+      setNotifications(prev => {
+        const target = prev.find(n => n._id === notificationId);
+        if (target && !target.isRead) {
+          setUnreadCount(count => Math.max(count - 1, 0));
+        }
+        return prev.filter(n => n._id !== notificationId);
+      });
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to delete notification'));
+      console.error('Error deleting notification:', err);
+      return false;
+    }
+  }, []);
+
+  // Live updates through the user's room
+  useEffect(() => {
+    // Catch up on anything missed while disconnected
+    const onConnect = async () => {
+      try {
+        const response = await api.get('/notifications/unread-count');
+        setUnreadCount(response.data.data?.unreadCount || 0);
+      } catch (err) {
+        console.error('Error fetching unread count:', err);
+      }
+    };
+
+    const unsubscribeNotification = subscribe('notification', ({ notification, unreadCount: count }) => {
+      setUnreadCount(count);
+      if (matchesFilters(notification, filtersRef.current)) {
+        setNotifications(prev =>
+          prev.some(n => n._id === notification._id) ? prev : [notification, ...prev]
+        );
+      }
+      onReceiveRef.current?.(notification);
+    });
+
+    const unsubscribeCount = subscribe('notification:count', ({ unreadCount: count }) => {
+      setUnreadCount(count);
+    });
+
+    socket.on('connect', onConnect);
+
+    return () => {
+      unsubscribeNotification();
+      unsubscribeCount();
+      socket.off('connect', onConnect);
+    };
+  }, []);
+
+  return {
+    notifications,
+    unreadCount,
+    pagination,
+    isLoading,
+    error,
+    refetch,
+    loadMore,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+  };
+};
@@ -1,42 +1,67 @@
 import { useState, useEffect, useCallback } from 'react';
-import { api } from '../lib/api';
+import { api, getApiErrorMessage, getBlobErrorMessage } from '../lib/api';
+import { saveBlob } from '../lib/utils';
 
+export type OrderStatus = 'pending' | 'approved' | 'partially_fulfilled' | 'rejected' | 'fulfilled' | 'cancelled';
+
+interface OrderPart {
+  _id: string;
+  name: string;
+  sku?: string;
+}
+
+/**
+ * An order line; lines are addressed by their index in items
+ */
 export interface OrderItem {
-  partId: {
-    _id: string;
-    name: string;
-    sku?: string;
-  };
+  partId: OrderPart | null;
   qty: number;
-  _id: string;
+  /** Taken from stock; null until the order is reviewed */
+  approvedQty: number | null;
+  /** Promised, handed out once in stock */
+  backorderQty: number;
+  reservedQty: number;
+  fulfilledQty: number;
+  returnedQty: number;
+  /** Part originally requested, when substituted */
+  substitutedFrom?: OrderPart | null;
+  note?: string;
+}
+
+export interface OrderHistoryEntry {
+  type: 'created' | 'reviewed' | 'handout' | 'return' | 'closed' | 'rejected' | 'cancelled';
+  at: string;
+  by?: { _id: string; name: string } | null;
+  lines: {
+    index: number;
+    partId?: string;
+    qty: number;
+    backorderQty?: number;
+    substitutedFrom?: string;
+  }[];
+  notes?: string;
 }
 
 export interface Order {
   _id: string;
-  orderNumber?: string;
-  userId: {
+  studentId: {
     _id: string;
     name: string;
     email: string;
-  };
+  } | null;
+  projectId?: string;
   items: OrderItem[];
-  status: 'pending' | 'approved' | 'rejected' | 'fulfilled' | 'cancelled';
+  status: OrderStatus;
+  history: OrderHistoryEntry[];
   totalQty: number;
-  notes?: string;
   createdAt: string;
-  updatedAt: string;
-  approvedBy?: {
-    _id: string;
-    name: string;
-  };
-  approvedAt?: string;
-  fulfilledAt?: string;
 }
 
 export interface OrdersStats {
   total: number;
   pending: number;
   approved: number;
+  partiallyFulfilled: number;
   rejected: number;
   fulfilled: number;
   cancelled: number;
@@ -44,6 +69,31 @@ export interface OrdersStats {
   recentOrders: Order[];
 }
 
+export interface OrderReviewLine {
+  index: number;
+  approvedQty: number;
+  backorderQty?: number;
+  substitutePartId?: string;
+  note?: string;
+}
+
+export interface OrderLineQty {
+  index: number;
+  qty: number;
+}
+
+/**
+ * Parts still to hand out on a line; unreviewed lines count what was requested
+ */
+export const outstandingQty = (item: OrderItem): number =>
+  Math.max((item.approvedQty ?? item.qty) + (item.backorderQty || 0) - (item.fulfilledQty || 0), 0);
+
+/**
+ * Parts handed out on a line and not yet returned
+ */
+export const returnableQty = (item: OrderItem): number =>
+  Math.max((item.fulfilledQty || 0) - (item.returnedQty || 0), 0);
+
 /**
  * Custom hook for managing orders data
  * Fetches orders, calculates stats, and provides filtering/actions
@@ -62,6 +112,7 @@ export const useOrdersData = () => {
       const response = await api.get('/orders');
       const ordersData: Order[] = response.data.map((order: any) => ({
         ...order,
+        history: order.history || [],
         totalQty: order.items?.reduce((sum: number, item: OrderItem) => sum + (item.qty || 0), 0) || 0
       }));
 
@@ -71,6 +122,7 @@ export const useOrdersData = () => {
       const total = ordersData.length;
       const pending = ordersData.filter(o => o.status === 'pending').length;
       const approved = ordersData.filter(o => o.status === 'approved').length;
+      const partiallyFulfilled = ordersData.filter(o => o.status === 'partially_fulfilled').length;
       const rejected = ordersData.filter(o => o.status === 'rejected').length;
       const fulfilled = ordersData.filter(o => o.status === 'fulfilled').length;
       const cancelled = ordersData.filter(o => o.status === 'cancelled').length;
@@ -85,6 +137,7 @@ export const useOrdersData = () => {
         total,
         pending,
         approved,
+        partiallyFulfilled,
         rejected,
         fulfilled,
         cancelled,
@@ -94,8 +147,7 @@ export const useOrdersData = () => {
 
     } catch (err: any) {
       console.error('Error fetching orders:', err);
-      const errorMessage = err.response?.data?.message || err.message || 'Failed to load orders';
-      setError(errorMessage);
+      setError(getApiErrorMessage(err, 'Failed to load orders'));
     } finally {
       setIsLoading(false);
     }
@@ -111,9 +163,18 @@ export const useOrdersData = () => {
       await api.post(`/orders/${orderId}/approve`);
       await fetchOrders();
       return { success: true };
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || 'Failed to approve order';
-      return { success: false, error: errorMessage };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to approve order') };
+    }
+  }, [fetchOrders]);
+
+  const reviewOrder = useCallback(async (orderId: string, lines: OrderReviewLine[], notes?: string) => {
+    try {
+      await api.post(`/orders/${orderId}/review`, { lines, notes });
+      await fetchOrders();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to review order') };
     }
   }, [fetchOrders]);
 
@@ -122,9 +183,8 @@ export const useOrdersData = () => {
       await api.post(`/orders/${orderId}/reject`);
       await fetchOrders();
       return { success: true };
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || 'Failed to reject order';
-      return { success: false, error: errorMessage };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to reject order') };
     }
   }, [fetchOrders]);
 
@@ -133,9 +193,38 @@ export const useOrdersData = () => {
       await api.post(`/orders/${orderId}/fulfill`);
       await fetchOrders();
       return { success: true };
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || 'Failed to fulfill order';
-      return { success: false, error: errorMessage };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to fulfill order') };
+    }
+  }, [fetchOrders]);
+
+  const handOut = useCallback(async (orderId: string, lines: OrderLineQty[], notes?: string) => {
+    try {
+      await api.post(`/orders/${orderId}/handouts`, { lines, notes });
+      await fetchOrders();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to hand out parts') };
+    }
+  }, [fetchOrders]);
+
+  const returnParts = useCallback(async (orderId: string, lines: OrderLineQty[], notes?: string) => {
+    try {
+      await api.post(`/orders/${orderId}/returns`, { lines, notes });
+      await fetchOrders();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to return parts') };
+    }
+  }, [fetchOrders]);
+
+  const closeOrder = useCallback(async (orderId: string) => {
+    try {
+      await api.post(`/orders/${orderId}/close`);
+      await fetchOrders();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to close order') };
     }
   }, [fetchOrders]);
 
@@ -144,12 +233,22 @@ export const useOrdersData = () => {
       await api.post(`/orders/${orderId}/cancel`);
       await fetchOrders();
       return { success: true };
-    } catch (err: any) {
-      const errorMessage = err.response?.data?.message || 'Failed to cancel order';
-      return { success: false, error: errorMessage };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to cancel order') };
     }
   }, [fetchOrders]);
 
+  // Every order with parts to hand out when no ids are given
+  const downloadPickList = useCallback(async (orderIds?: string[]) => {
+    try {
+      const response = await api.post('/orders/pick-list', { orderIds }, { responseType: 'blob' });
+      saveBlob(response.data, `pick-list-${new Date().toISOString().slice(0, 10)}.pdf`);
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: await getBlobErrorMessage(err, 'Failed to generate pick list') };
+    }
+  }, []);
+
   return {
     orders,
     stats,
@@ -158,9 +257,14 @@ export const useOrdersData = () => {
     refetch: fetchOrders,
     actions: {
       approve: approveOrder,
+      review: reviewOrder,
       reject: rejectOrder,
       fulfill: fulfillOrder,
-      cancel: cancelOrder
+      handOut,
+      returnParts,
+      close: closeOrder,
+      cancel: cancelOrder,
+      downloadPickList
     }
   };
 };
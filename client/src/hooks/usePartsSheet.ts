@@ -0,0 +1,74 @@
+import { useCallback } from 'react';
+import { api, getApiErrorMessage, getBlobErrorMessage } from '../lib/api';
+
+export type SheetFormat = 'csv' | 'xlsx';
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'error';
+
+export interface ImportFieldChange {
+  from: unknown;
+  to: unknown;
+}
+
+export interface ImportRow {
+  /** Row number in the sheet, counting the header as 1 */
+  line: number;
+  sku: string;
+  name: string;
+  partId: string | null;
+  action: ImportAction;
+  changes: Record<string, ImportFieldChange>;
+  /** On-hand count change */
+  stock?: { from: number; to: number };
+  errors: string[];
+}
+
+export interface ImportResult {
+  dryRun: boolean;
+  summary: Record<ImportAction, number> & { total: number };
+  rows: ImportRow[];
+}
+
+/**
+ * Spreadsheet round-trip of the parts catalog: export with stock counts,
+ * preview an edited sheet, then import it
+ */
+export const usePartsSheet = () => {
+  const exportParts = useCallback(async (format: SheetFormat) => {
+    try {
+      const response = await api.get('/parts/export', { params: { format }, responseType: 'blob' });
+
+      const url = window.URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `parts-${new Date().toISOString().slice(0, 10)}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: await getBlobErrorMessage(err, 'Failed to export parts') };
+    }
+  }, []);
+
+  const importParts = useCallback(async (file: File, dryRun: boolean) => {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('dryRun', String(dryRun));
+
+      const response = await api.post('/parts/import', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      return { success: true, result: response.data as ImportResult };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, dryRun ? 'Failed to read the sheet' : 'Failed to import parts') };
+    }
+  }, []);
+
+  return {
+    exportParts,
+    preview: (file: File) => importParts(file, true),
+    commit: (file: File) => importParts(file, false),
+  };
+};
@@ -0,0 +1,203 @@
+/**
+ * Custom hook for an enrollment's payment ledger
+ *
+ * Lists every payment recorded for an enrollment with its refunds and
+ * voids, and lets reception reverse a completed payment. Each reversal
+ * updates the enrollment balance and issues a credit note.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+
+export type PaymentAdjustmentType = 'refund' | 'void';
+
+/**
+ * Refund or void recorded against a payment
+ */
+export interface PaymentAdjustment {
+  _id: string;
+  type: PaymentAdjustmentType;
+  amount: number;
+  reason: string;
+  performedBy: { _id: string; name: string } | null;
+  performedAt: string;
+  creditNoteId: string | null;
+}
+
+/**
+ * Payment as listed in the ledger
+ */
+export interface LedgerPayment {
+  _id: string;
+  amount: number;
+  paymentMethod: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'cancelled';
+  paidAt: string | null;
+  processedBy: { _id: string; name: string } | null;
+  receiptId: { _id: string; receiptNumber: string } | null;
+  refund: { amount: number } | null;
+  refundableAmount: number;
+  adjustments: PaymentAdjustment[];
+  notes?: string;
+  createdAt: string;
+}
+
+export interface CreditNote {
+  _id: string;
+  creditNoteNumber: string;
+  type: PaymentAdjustmentType;
+  payment: string;
+  amount: number;
+  reason: string;
+  issuedBy: { _id: string; name: string } | null;
+  downloadUrl: string;
+  createdAt: string;
+}
+
+/**
+ * Receipt recorded before payments were tracked individually (read-only)
+ */
+export interface UnlinkedReceipt {
+  _id: string;
+  receiptNumber: string;
+  payment: { amount: number; method: string; date: string };
+  createdAt: string;
+}
+
+export interface PaymentLedger {
+  enrollment: {
+    _id: string;
+    student: { _id: string; name: string; email: string };
+    course: { _id: string; title: string };
+    payment: { totalAmount: number; paidAmount: number; remainingAmount: number };
+  };
+  payments: LedgerPayment[];
+  creditNotes: CreditNote[];
+  unlinkedReceipts: UnlinkedReceipt[];
+}
+
+/**
+ * Credit note issued for a reversal
+ */
+export interface IssuedCreditNote {
+  creditNoteId: string;
+  creditNoteNumber: string;
+  downloadUrl: string;
+}
+
+/**
+ * Return type for the hook
+ */
+interface UsePaymentLedgerReturn {
+  ledger: PaymentLedger | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  refundPayment: (paymentId: string, amount: number, reason: string) => Promise<IssuedCreditNote | null>;
+  voidPayment: (paymentId: string, reason: string) => Promise<IssuedCreditNote | null>;
+  downloadCreditNote: (creditNoteId: string, creditNoteNumber?: string) => Promise<void>;
+}
+
+/**
+ * Hook to view and reverse the payments of an enrollment
+ *
+ * @param enrollmentId - Enrollment to load (nothing is fetched while null)
+ * @returns Ledger plus refund/void actions
+ *
+ * @example
+ * const { ledger, refundPayment } = usePaymentLedger(enrollment?._id ?? null);
+ */
+export const usePaymentLedger = (enrollmentId: string | null): UsePaymentLedgerReturn => {
+  const [ledger, setLedger] = useState<PaymentLedger | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch the ledger of the current enrollment
+   */
+  const fetchLedger = useCallback(async () => {
+    if (!enrollmentId) {
+      setLedger(null);
+      return;
+    }
+
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get(`/reception/enrollments/${enrollmentId}/ledger`);
+      setLedger(response.data.data || null);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to fetch payment history'));
+      console.error('Error fetching payment ledger:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [enrollmentId]);
+
+  /**
+   * Refund part or all of a completed payment
+   */
+  const refundPayment = useCallback(async (paymentId: string, amount: number, reason: string) => {
+    try {
+      const response = await api.post(`/reception/payments/${paymentId}/refund`, { amount, reason });
+      await fetchLedger();
+      return (response.data.creditNote || null) as IssuedCreditNote | null;
+    } catch (err) {
+      console.error('Error refunding payment:', err);
+      throw new Error(getApiErrorMessage(err, 'Failed to refund payment'));
+    }
+  }, [fetchLedger]);
+
+  /**
+   * Void a wrongly recorded payment
+   */
+  const voidPayment = useCallback(async (paymentId: string, reason: string) => {
+    try {
+      const response = await api.post(`/reception/payments/${paymentId}/void`, { reason });
+      await fetchLedger();
+      return (response.data.creditNote || null) as IssuedCreditNote | null;
+    } catch (err) {
+      console.error('Error voiding payment:', err);
+      throw new Error(getApiErrorMessage(err, 'Failed to void payment'));
+    }
+  }, [fetchLedger]);
+
+  /**
+   * Download a credit note PDF
+   */
+  const downloadCreditNote = useCallback(async (creditNoteId: string, creditNoteNumber?: string) => {
+    try {
+      const response = await api.get(`/reception/credit-notes/${creditNoteId}/download`, {
+        responseType: 'blob'
+      });
+
+      const blob = new Blob([response.data], { type: 'application/pdf' });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${creditNoteNumber || `credit-note-${creditNoteId}`}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading credit note:', err);
+      throw new Error(getApiErrorMessage(err, 'Failed to download credit note'));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchLedger();
+  }, [fetchLedger]);
+
+  return {
+    ledger,
+    isLoading,
+    error,
+    refetch: fetchLedger,
+    refundPayment,
+    voidPayment,
+    downloadCreditNote
+  };
+};
@@ -1,12 +1,14 @@
 import { useState, useEffect, useCallback } from 'react';
-import { api } from '../lib/api';
+import { api, getApiErrorMessage } from '../lib/api';
 
 export interface Payment {
   _id: string;
   amount: number;
   paymentMethod: 'cash' | 'card' | 'bank_transfer' | 'online';
   transactionId?: string;
-  status: 'pending' | 'completed' | 'failed' | 'refunded';
+  status: 'pending' | 'completed' | 'failed' | 'refunded' | 'cancelled';
+  /** Amount refunded so far (partial refunds keep the payment completed) */
+  refundedAmount?: number;
   paidAt?: string;
   receipt: {
     receiptNumber?: string;
@@ -33,27 +35,85 @@ export interface PaymentSummary {
   };
 }
 
+export interface ScheduledInstallment {
+  _id: string;
+  label: string | null;
+  amount: number;
+  paidAmount: number;
+  outstanding: number;
+  dueDate: string;
+  paidDate: string | null;
+  status: 'pending' | 'paid' | 'overdue';
+  isOverdue: boolean;
+}
+
+export interface InstallmentSchedule {
+  enrollmentId: string;
+  course: { _id: string; title: string } | null;
+  totalAmount: number;
+  paidAmount: number;
+  remainingAmount: number;
+  installments: ScheduledInstallment[];
+}
+
+/**
+ * Methods a student can pay by themselves; reception verifies the proof
+ */
+export type VerifiablePaymentMethod = 'sham_cash_app' | 'bank_transfer' | 'check';
+
 export interface InitiatePaymentData {
   enrollmentId: string;
   amount: number;
-  paymentMethod: 'cash' | 'card' | 'bank_transfer';
+  paymentMethod: VerifiablePaymentMethod;
   installmentNumber?: number;
 }
 
+/**
+ * Student-initiated payment going through staff verification
+ */
+export interface PaymentRequest {
+  _id: string;
+  enrollment: string;
+  course: { _id: string; title: string } | null;
+  amount: number;
+  paymentMethod: VerifiablePaymentMethod;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+  proof: {
+    originalName: string | null;
+    reference: string | null;
+    submittedAt: string | null;
+  };
+  verification: {
+    reviewedAt: string | null;
+    rejectionReason: string | null;
+  };
+  receiptId: string | null;
+  createdAt: string;
+}
+
+export interface PaymentProofData {
+  reference?: string;
+  file?: File | null;
+}
+
 interface UsePaymentsReturn {
   payments: Payment[];
   summary: PaymentSummary | null;
+  schedules: InstallmentSchedule[];
+  requests: PaymentRequest[];
   isLoading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
   downloadReceipt: (paymentId: string) => Promise<void>;
-  initiatePayment: (data: InitiatePaymentData) => Promise<any>;
-  confirmPayment: (paymentId: string, transactionId: string) => Promise<void>;
+  initiatePayment: (data: InitiatePaymentData) => Promise<PaymentRequest>;
+  submitProof: (paymentId: string, proof: PaymentProofData) => Promise<void>;
 }
 
 export const usePayments = (courseId?: string): UsePaymentsReturn => {
   const [payments, setPayments] = useState<Payment[]>([]);
   const [summary, setSummary] = useState<PaymentSummary | null>(null);
+  const [schedules, setSchedules] = useState<InstallmentSchedule[]>([]);
+  const [requests, setRequests] = useState<PaymentRequest[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -63,18 +123,28 @@ export const usePayments = (courseId?: string): UsePaymentsReturn => {
       setError(null);
 
       if (courseId) {
-        // Fetch payments for a specific course
-        const response = await api.get(`/student/payments/courses/${courseId}`);
+        // Fetch payments and the installment schedule for a specific course
+        const [response, schedulesRes, requestsRes] = await Promise.all([
+          api.get(`/student/payments/courses/${courseId}`),
+          api.get('/student/payments/installments', { params: { courseId } }),
+          api.get('/student/payments/requests', { params: { courseId } }),
+        ]);
         setPayments(response.data.data || []);
+        setSchedules(schedulesRes.data.data || []);
+        setRequests(requestsRes.data.data || []);
       } else {
-        // Fetch all payments and summary
-        const [paymentsRes, summaryRes] = await Promise.all([
+        // Fetch all payments, summary, installment schedules and payment requests
+        const [paymentsRes, summaryRes, schedulesRes, requestsRes] = await Promise.all([
           api.get('/student/payments'),
           api.get('/student/payments/summary'),
+          api.get('/student/payments/installments'),
+          api.get('/student/payments/requests'),
         ]);
 
         setPayments(paymentsRes.data.data || []);
         setSummary(summaryRes.data.data || null);
+        setSchedules(schedulesRes.data.data || []);
+        setRequests(requestsRes.data.data || []);
       }
     } catch (err: any) {
       setError(err.response?.data?.message || 'Failed to fetch payments');
@@ -122,25 +192,33 @@ export const usePayments = (courseId?: string): UsePaymentsReturn => {
     }
   }, [fetchPayments]);
 
-  const confirmPayment = useCallback(async (paymentId: string, transactionId: string) => {
+  const submitProof = useCallback(async (paymentId: string, proof: PaymentProofData) => {
+    const formData = new FormData();
+    if (proof.reference) formData.append('reference', proof.reference);
+    if (proof.file) formData.append('proof', proof.file);
+
     try {
-      await api.post(`/student/payments/${paymentId}/confirm`, { transactionId });
-      // Refresh payments after confirmation
+      await api.post(`/student/payments/${paymentId}/proof`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      // Refresh so the request shows as under review
       await fetchPayments();
-    } catch (err: any) {
-      console.error('Error confirming payment:', err);
-      throw new Error(err.response?.data?.message || 'Failed to confirm payment');
+    } catch (err) {
+      console.error('Error submitting payment proof:', err);
+      throw new Error(getApiErrorMessage(err, 'Failed to submit payment proof'));
     }
   }, [fetchPayments]);
 
   return {
     payments,
     summary,
+    schedules,
+    requests,
     isLoading,
     error,
     refetch: fetchPayments,
     downloadReceipt,
     initiatePayment,
-    confirmPayment,
+    submitProof,
   };
 };
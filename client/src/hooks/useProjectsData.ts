@@ -1,5 +1,6 @@
 import { useState, useEffect, useCallback } from 'react';
-import { api } from '../lib/api';
+import axios from 'axios';
+import { api, getApiErrorMessage } from '../lib/api';
 
 export interface ProjectPart {
   partId: string | {
@@ -37,6 +38,39 @@ export interface Part {
   category?: string;
 }
 
+export interface ProjectBomLine {
+  partId: string;
+  name: string | null;
+  sku: string | null;
+  category: string | null;
+  /** Part was deleted from inventory */
+  missing: boolean;
+  requiredQty: number;
+  /** On pending or approved orders */
+  openQty: number;
+  fulfilledQty: number;
+  shortfallQty: number;
+  availableQty: number;
+  /** Part of the shortfall stock can cover now */
+  orderableQty: number;
+  unitCost: number | null;
+  estimatedCost: number | null;
+  shortfallCost: number | null;
+}
+
+export interface ProjectBom {
+  projectId: string;
+  title: string;
+  lines: ProjectBomLine[];
+  totals: {
+    estimatedCost: number;
+    shortfallCost: number;
+    uncostedParts: number;
+    shortfallLines: number;
+    orderableLines: number;
+  };
+}
+
 export interface ProjectsStats {
   total: number;
   planning: number;
@@ -182,3 +216,55 @@ export const useProjectsData = () => {
     }
   };
 };
+
+/**
+ * Bill of materials of one project, with ordering of its shortfall
+ * @param projectId - Project id
+ */
+export const useProjectBom = (projectId: string) => {
+  const [bom, setBom] = useState<ProjectBom | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBom = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get(`/projects/${projectId}/bom`);
+      setBom(response.data);
+    } catch (err) {
+      console.error('Error fetching project BOM:', err);
+      setError(getApiErrorMessage(err, 'Failed to load bill of materials'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchBom();
+  }, [fetchBom]);
+
+  /**
+   * Order the shortfall for the project's owner
+   * @param partial - Order what stock allows when some parts run short
+   */
+  const orderShortfall = useCallback(async (partial = false) => {
+    try {
+      await api.post(`/projects/${projectId}/bom/order`, { partial });
+      await fetchBom();
+      return { success: true };
+    } catch (err) {
+      const code: string | undefined = axios.isAxiosError(err) ? err.response?.data?.error?.code : undefined;
+      return { success: false, error: getApiErrorMessage(err, 'Failed to order parts'), code };
+    }
+  }, [projectId, fetchBom]);
+
+  return {
+    bom,
+    isLoading,
+    error,
+    refetch: fetchBom,
+    actions: { orderShortfall }
+  };
+};
@@ -0,0 +1,125 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+
+export type PurchaseOrderStatus = 'draft' | 'ordered' | 'partially_received' | 'received' | 'cancelled';
+
+export interface PurchaseOrderLine {
+  _id: string;
+  partId: { _id: string; name: string; sku?: string } | null;
+  qty: number;
+  unitCost: number;
+  receivedQty: number;
+  requisitionId?: string | null;
+}
+
+export interface PurchaseOrder {
+  _id: string;
+  orderNumber: string;
+  supplierId: { _id: string; name: string; email?: string; phone?: string } | null;
+  status: PurchaseOrderStatus;
+  lines: PurchaseOrderLine[];
+  totalCost: number;
+  expectedAt?: string | null;
+  notes?: string;
+  createdBy?: { _id: string; name: string } | null;
+  orderedAt?: string;
+  receivedAt?: string;
+  cancelledAt?: string;
+  createdAt: string;
+}
+
+export interface PurchaseOrderLineInput {
+  partId: string;
+  qty: number;
+  unitCost: number;
+  requisitionId?: string | null;
+}
+
+export interface PurchaseOrderInput {
+  supplierId: string;
+  lines: PurchaseOrderLineInput[];
+  expectedAt?: string | null;
+  notes?: string;
+}
+
+/**
+ * Purchase orders placed with suppliers, from draft to receipt
+ */
+export const usePurchaseOrders = () => {
+  const [orders, setOrders] = useState<PurchaseOrder[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchOrders = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('/purchase-orders');
+      setOrders(response.data);
+    } catch (err) {
+      console.error('Error fetching purchase orders:', err);
+      setError(getApiErrorMessage(err, 'Failed to load purchase orders'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchOrders();
+  }, [fetchOrders]);
+
+  const createOrder = useCallback(async (data: PurchaseOrderInput) => {
+    try {
+      await api.post('/purchase-orders', data);
+      await fetchOrders();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to create purchase order') };
+    }
+  }, [fetchOrders]);
+
+  const updateOrder = useCallback(async (id: string, data: PurchaseOrderInput) => {
+    try {
+      await api.put(`/purchase-orders/${id}`, data);
+      await fetchOrders();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to update purchase order') };
+    }
+  }, [fetchOrders]);
+
+  const updateStatus = useCallback(async (id: string, status: 'ordered' | 'cancelled') => {
+    try {
+      await api.patch(`/purchase-orders/${id}/status`, { status });
+      await fetchOrders();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to change purchase order status') };
+    }
+  }, [fetchOrders]);
+
+  /** Receive a delivery: quantities per line id */
+  const receive = useCallback(async (id: string, lines: { lineId: string; qty: number }[], notes?: string) => {
+    try {
+      await api.post(`/purchase-orders/${id}/receive`, { lines, notes });
+      await fetchOrders();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to receive delivery') };
+    }
+  }, [fetchOrders]);
+
+  return {
+    orders,
+    isLoading,
+    error,
+    refetch: fetchOrders,
+    actions: {
+      create: createOrder,
+      update: updateOrder,
+      updateStatus,
+      receive,
+    },
+  };
+};
@@ -0,0 +1,175 @@
+/**
+ * useQuestionBank Hook
+ *
+ * Custom hook for a course's question bank.
+ * Provides functionality to list bank questions by difficulty and tag,
+ * add, edit and delete them, copy a quiz's questions in and refresh
+ * their statistics.
+ *
+ * @hook useQuestionBank
+ * @version 1.0.0
+ */
+
+import { useState, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+import type { QuestionDifficulty, QuizQuestion } from './useTrainerQuizzes';
+
+/**
+ * Bank question interface matching backend model
+ */
+export interface BankQuestion extends QuizQuestion {
+  _id: string;
+  course: string;
+  tags: string[];
+  difficulty: QuestionDifficulty;
+  /** From finished attempts that drew the question */
+  stats: {
+    attempts: number;
+    /** 0-100; null before anyone answered it */
+    percentCorrect: number | null;
+    /** -1 to 1; null until enough attempts */
+    discrimination: number | null;
+    updatedAt: string | null;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BankQuestionData extends QuizQuestion {
+  tags: string[];
+  difficulty: QuestionDifficulty;
+}
+
+export interface BankFilters {
+  difficulty?: QuestionDifficulty;
+  tag?: string;
+}
+
+/**
+ * Hook return type
+ */
+interface UseQuestionBankReturn {
+  questions: BankQuestion[];
+  tags: string[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: (courseId: string, filters?: BankFilters) => Promise<void>;
+  createQuestion: (courseId: string, data: BankQuestionData) => Promise<{ success: boolean; error?: string }>;
+  updateQuestion: (questionId: string, data: BankQuestionData) => Promise<{ success: boolean; error?: string }>;
+  deleteQuestion: (questionId: string) => Promise<boolean>;
+  copyQuizToBank: (quizId: string) => Promise<{ success: boolean; count?: number; error?: string }>;
+  refreshStats: (courseId: string) => Promise<boolean>;
+}
+
+/**
+ * Custom hook for managing a course's question bank
+ * Call refetch() with a course to load its questions.
+ * @returns Hook utilities and data
+ */
+export const useQuestionBank = (): UseQuestionBankReturn => {
+  const [questions, setQuestions] = useState<BankQuestion[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch a course's bank, optionally by difficulty or tag
+   */
+  const fetchQuestions = useCallback(async (courseId: string, filters: BankFilters = {}) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await api.get(`/trainer/question-bank/course/${courseId}`, { params: filters });
+      setQuestions(response.data.data || []);
+      setTags(response.data.tags || []);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to fetch question bank'));
+      console.error('Error fetching question bank:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Add a question to a course's bank
+   */
+  const createQuestion = useCallback(async (courseId: string, data: BankQuestionData) => {
+    try {
+      const response = await api.post('/trainer/question-bank', { ...data, courseId });
+      setQuestions(prev => [response.data.data, ...prev]);
+      return { success: true };
+    } catch (err) {
+      console.error('Error creating bank question:', err);
+      return { success: false, error: getApiErrorMessage(err, 'Failed to add question') };
+    }
+  }, []);
+
+  /**
+   * Update a bank question
+   */
+  const updateQuestion = useCallback(async (questionId: string, data: BankQuestionData) => {
+    try {
+      const response = await api.put(`/trainer/question-bank/${questionId}`, data);
+      setQuestions(prev => prev.map(q => (q._id === questionId ? response.data.data : q)));
+      return { success: true };
+    } catch (err) {
+      console.error('Error updating bank question:', err);
+      return { success: false, error: getApiErrorMessage(err, 'Failed to update question') };
+    }
+  }, []);
+
+  /**
+   * Delete a bank question
+   */
+  const deleteQuestion = useCallback(async (questionId: string): Promise<boolean> => {
+    try {
+      await api.delete(`/trainer/question-bank/${questionId}`);
+      setQuestions(prev => prev.filter(q => q._id !== questionId));
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to delete question'));
+      console.error('Error deleting bank question:', err);
+      return false;
+    }
+  }, []);
+
+  /**
+   * Copy a quiz's questions into its course's bank
+   */
+  const copyQuizToBank = useCallback(async (quizId: string) => {
+    try {
+      const response = await api.post(`/trainer/question-bank/from-quiz/${quizId}`);
+      return { success: true, count: response.data.count as number };
+    } catch (err) {
+      console.error('Error copying quiz to bank:', err);
+      return { success: false, error: getApiErrorMessage(err, 'Failed to copy questions to the bank') };
+    }
+  }, []);
+
+  /**
+   * Recompute the statistics of every question in a course's bank
+   */
+  const refreshStats = useCallback(async (courseId: string): Promise<boolean> => {
+    try {
+      await api.post(`/trainer/question-bank/course/${courseId}/stats`);
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to refresh statistics'));
+      console.error('Error refreshing question statistics:', err);
+      return false;
+    }
+  }, []);
+
+  return {
+    questions,
+    tags,
+    isLoading,
+    error,
+    refetch: fetchQuestions,
+    createQuestion,
+    updateQuestion,
+    deleteQuestion,
+    copyQuizToBank,
+    refreshStats,
+  };
+};
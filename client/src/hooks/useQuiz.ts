@@ -1,16 +1,40 @@
-import { useState, useEffect, useCallback } from 'react';
-import { api } from '../lib/api';
+import { useState, useEffect, useCallback, useRef } from 'react';
+import axios from 'axios';
+import { api, getApiErrorMessage } from '../lib/api';
+import type { QuestionType } from './useTrainerQuizzes';
+
+// How often answers changed since the last save are sent to the server
+const AUTOSAVE_INTERVAL_MS = 15000;
 
 export interface QuizOption {
+  /** Position in the authored question */
+  index: number;
+  text: string;
+}
+
+/**
+ * An ordering item or match, under a token only the attempt's server side
+ * can map back to its position
+ */
+export interface QuizItem {
+  token: string;
   text: string;
-  isCorrect: boolean;
 }
 
 export interface QuizQuestion {
   _id: string;
   question: string;
-  type: 'single' | 'multiple';
+  type: QuestionType;
   options: QuizOption[];
+  /** Ordering: items to put in order, shuffled; handed out with the attempt */
+  items?: QuizItem[];
+  /** Matching: left items, in order */
+  prompts?: string[];
+  /** Matching: right items, shuffled; handed out with the attempt */
+  matches?: QuizItem[];
+  /** Code output: the snippet to read */
+  code?: string;
+  language?: string;
   points: number;
 }
 
@@ -24,16 +48,39 @@ export interface Quiz {
   timeLimit?: number;
   maxAttempts: number;
   questions: QuizQuestion[];
+  /** Questions per attempt, counting those drawn from the question bank */
+  questionCount?: number;
 }
 
 export interface QuizAnswer {
   questionId: string;
+  /** Chosen options */
   selectedOptions: number[];
+  /** Item tokens; ordering: in the order given; matching: chosen match per prompt, '' when unset */
+  selectedItems?: string[];
+  /** Numeric, short text, code output and essay answers */
+  textAnswer?: string;
 }
 
+export type QuizAnswerValue = Omit<QuizAnswer, 'questionId'>;
+
+/**
+ * Whether anything was given for a question
+ */
+export const isAnswered = (answer?: QuizAnswerValue): boolean =>
+  !!answer &&
+  (!!answer.textAnswer?.trim() ||
+    answer.selectedOptions.some(idx => idx >= 0) ||
+    !!answer.selectedItems?.some(Boolean));
+
 export interface QuizAttempt {
   _id: string;
   attemptNumber: number;
+  status: 'submitted' | 'expired';
+  /** Finalized by the server when time ran out */
+  autoSubmitted?: boolean;
+  /** Essay answers still to be graded; the score may go up */
+  pendingReview?: boolean;
   score: number;
   passed: boolean;
   startedAt: string;
@@ -41,30 +88,136 @@ export interface QuizAttempt {
   timeSpent?: number;
 }
 
+/**
+ * Feedback on one answer, for quizzes that show feedback
+ */
+export interface QuizAnswerFeedback {
+  questionId: string;
+  question: string;
+  type: QuestionType;
+  selectedOptions: number[];
+  textAnswer?: string;
+  /** Choice questions: the correct options */
+  correctOptions: number[];
+  /** Other questions: the right answer, written out; null for essays */
+  correctAnswer: string | null;
+  isCorrect: boolean;
+  pointsEarned: number;
+  points: number;
+  needsReview?: boolean;
+  feedback?: string;
+  explanation?: string;
+}
+
+/**
+ * The graded attempt, as the server hands it back on submit
+ */
+export interface QuizSubmitResult {
+  attemptId: string;
+  attemptNumber: number;
+  status: QuizAttempt['status'];
+  autoSubmitted: boolean;
+  pendingReview: boolean;
+  score: number;
+  earnedPoints: number;
+  totalPoints: number;
+  passed: boolean;
+  /** Seconds */
+  timeSpent: number;
+  /** Null unless the quiz shows feedback */
+  detailedResults: QuizAnswerFeedback[] | null;
+}
+
+/**
+ * An attempt in progress, as the server hands it back to resume it
+ */
+interface AttemptState {
+  attemptId: string;
+  attemptNumber: number;
+  startedAt: string;
+  expiresAt: string | null;
+  /** Seconds left by the server's clock; null when untimed */
+  remainingSeconds: number | null;
+  lastSavedAt: string | null;
+  answers: QuizAnswer[];
+  /** The questions as this attempt answers them */
+  questions: QuizQuestion[];
+}
+
 interface UseQuizReturn {
   quiz: Quiz | null;
   currentQuestion: number;
-  answers: Record<string, number[]>;
-  timeRemaining: number;
+  answers: Record<string, QuizAnswerValue>;
+  /** Seconds left on the attempt; null when untimed or not started */
+  timeRemaining: number | null;
   attempts: QuizAttempt[];
+  /** Attempt in progress, restored after a reload */
+  attemptId: string | null;
+  lastSavedAt: string | null;
+  /** Set when the server finalized the attempt because time ran out */
+  timeUpMessage: string | null;
   isLoading: boolean;
   error: string | null;
   setCurrentQuestion: (index: number) => void;
   selectOption: (questionId: string, optionIndex: number, isMultiple: boolean) => void;
-  submitQuiz: (attemptId: string) => Promise<any>;
+  /** Answers that aren't a pick of options: ordering, matching and typed answers */
+  setAnswer: (questionId: string, answer: QuizAnswerValue) => void;
+  /** Resolves to nothing when no attempt is running */
+  submitQuiz: () => Promise<QuizSubmitResult | undefined>;
   startQuiz: () => Promise<string | null>;
   fetchQuiz: () => Promise<void>;
 }
 
+const toAnswerList = (answers: Record<string, QuizAnswerValue>): QuizAnswer[] =>
+  Object.entries(answers).map(([questionId, answer]) => ({ questionId, ...answer }));
+
 export const useQuiz = (quizId: string): UseQuizReturn => {
   const [quiz, setQuiz] = useState<Quiz | null>(null);
   const [currentQuestion, setCurrentQuestion] = useState(0);
-  const [answers, setAnswers] = useState<Record<string, number[]>>({});
-  const [timeRemaining, setTimeRemaining] = useState<number>(0);
+  const [answers, setAnswers] = useState<Record<string, QuizAnswerValue>>({});
+  const [timeRemaining, setTimeRemaining] = useState<number | null>(null);
+  const [deadline, setDeadline] = useState<number | null>(null);
   const [attempts, setAttempts] = useState<QuizAttempt[]>([]);
+  const [attemptId, setAttemptId] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [timeUpMessage, setTimeUpMessage] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
+  // Answers changed since the last autosave
+  const dirtyRef = useRef(false);
+  const answersRef = useRef(answers);
+
+  useEffect(() => {
+    answersRef.current = answers;
+  }, [answers]);
+
+  // Take over an attempt from the server: its saved answers and deadline.
+  // The deadline is kept on the local clock from the server's remaining
+  // seconds, so a wrong device clock can't stretch the time
+  const resumeAttempt = useCallback((state: AttemptState | null) => {
+    dirtyRef.current = false;
+    if (!state) {
+      setAttemptId(null);
+      setDeadline(null);
+      setTimeRemaining(null);
+      setLastSavedAt(null);
+      return;
+    }
+
+    setAttemptId(state.attemptId);
+    setLastSavedAt(state.lastSavedAt);
+    setQuiz((prev) => prev && { ...prev, questions: state.questions });
+    setAnswers(Object.fromEntries(state.answers.map(({ questionId, ...answer }) => [questionId, answer])));
+    if (state.remainingSeconds === null) {
+      setDeadline(null);
+      setTimeRemaining(null);
+    } else {
+      setDeadline(Date.now() + state.remainingSeconds * 1000);
+      setTimeRemaining(state.remainingSeconds);
+    }
+  }, []);
+
   const fetchQuiz = useCallback(async () => {
     if (!quizId) return;
 
@@ -72,70 +225,95 @@ export const useQuiz = (quizId: string): UseQuizReturn => {
       setIsLoading(true);
       setError(null);
 
-      const [quizRes, attemptsRes] = await Promise.all([
+      const [quizRes, attemptsRes, currentRes] = await Promise.all([
         api.get(`/student/quizzes/${quizId}`),
         api.get(`/student/quizzes/${quizId}/attempts`),
+        api.get(`/student/quizzes/${quizId}/attempts/current`),
       ]);
 
       setQuiz(quizRes.data.data);
       setAttempts(attemptsRes.data.data || []);
-
-      // Initialize time remaining if there's a time limit
-      if (quizRes.data.data.timeLimit) {
-        setTimeRemaining(quizRes.data.data.timeLimit * 60); // Convert minutes to seconds
-      }
-    } catch (err: any) {
-      setError(err.response?.data?.message || 'Failed to fetch quiz');
+      resumeAttempt(currentRes.data.data);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to fetch quiz'));
       console.error('Error fetching quiz:', err);
     } finally {
       setIsLoading(false);
     }
-  }, [quizId]);
+  }, [quizId, resumeAttempt]);
 
   useEffect(() => {
     fetchQuiz();
   }, [fetchQuiz]);
 
-  // Timer countdown
+  // Timer countdown against the deadline
   useEffect(() => {
-    if (timeRemaining > 0) {
-      const timer = setInterval(() => {
-        setTimeRemaining((prev) => {
-          if (prev <= 1) {
-            clearInterval(timer);
-            return 0;
-          }
-          return prev - 1;
-        });
-      }, 1000);
+    if (deadline === null) return;
 
-      return () => clearInterval(timer);
+    const tick = () => setTimeRemaining(Math.max(Math.ceil((deadline - Date.now()) / 1000), 0));
+    tick();
+    const timer = setInterval(tick, 1000);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  // The server closed the attempt (time ran out); show where it ended up
+  const handleTimeUp = useCallback(async (message: string) => {
+    setTimeUpMessage(message);
+    await fetchQuiz();
+  }, [fetchQuiz]);
+
+  const saveAnswers = useCallback(async () => {
+    if (!quizId || !attemptId || !dirtyRef.current) return;
+
+    dirtyRef.current = false;
+    try {
+      const response = await api.put(`/student/quizzes/${quizId}/attempts/${attemptId}/answers`, {
+        answers: toAnswerList(answersRef.current),
+      });
+      setLastSavedAt(response.data.data.lastSavedAt);
+    } catch (err) {
+      if (axios.isAxiosError(err) && err.response?.data?.error?.code === 'ATTEMPT_EXPIRED') {
+        await handleTimeUp(getApiErrorMessage(err, 'Time is up'));
+        return;
+      }
+      // Try again on the next round
+      dirtyRef.current = true;
+      console.error('Error saving quiz answers:', err);
     }
-  }, [timeRemaining]);
+  }, [quizId, attemptId, handleTimeUp]);
+
+  // Autosave
+  useEffect(() => {
+    if (!attemptId) return;
+
+    const timer = setInterval(saveAnswers, AUTOSAVE_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [attemptId, saveAnswers]);
 
   const selectOption = useCallback(
     (questionId: string, optionIndex: number, isMultiple: boolean) => {
+      dirtyRef.current = true;
       setAnswers((prev) => {
-        const current = prev[questionId] || [];
+        const current = prev[questionId]?.selectedOptions || [];
 
         if (isMultiple) {
           // Multiple choice - toggle selection
           if (current.includes(optionIndex)) {
             return {
               ...prev,
-              [questionId]: current.filter((idx) => idx !== optionIndex),
+              [questionId]: { selectedOptions: current.filter((idx) => idx !== optionIndex) },
             };
           } else {
             return {
               ...prev,
-              [questionId]: [...current, optionIndex],
+              [questionId]: { selectedOptions: [...current, optionIndex] },
             };
           }
         } else {
           // Single choice - replace selection
           return {
             ...prev,
-            [questionId]: [optionIndex],
+            [questionId]: { selectedOptions: [optionIndex] },
           };
         }
       });
@@ -143,46 +321,49 @@ export const useQuiz = (quizId: string): UseQuizReturn => {
     []
   );
 
+  const setAnswer = useCallback((questionId: string, answer: QuizAnswerValue) => {
+    dirtyRef.current = true;
+    setAnswers((prev) => ({ ...prev, [questionId]: answer }));
+  }, []);
+
   const startQuiz = useCallback(async () => {
     if (!quizId) return null;
 
     try {
+      setTimeUpMessage(null);
       const response = await api.post(`/student/quizzes/${quizId}/start`);
-      return response.data.data.attemptId;
-    } catch (err: any) {
-      setError(err.response?.data?.message || 'Failed to start quiz');
+      const state: AttemptState = response.data.data;
+      setCurrentQuestion(0);
+      resumeAttempt(state);
+      return state.attemptId;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to start quiz'));
       console.error('Error starting quiz:', err);
       return null;
     }
-  }, [quizId]);
+  }, [quizId, resumeAttempt]);
 
   const submitQuiz = useCallback(
-    async (attemptId: string) => {
-      if (!quizId) return;
+    async (): Promise<QuizSubmitResult | undefined> => {
+      if (!quizId || !attemptId) return;
 
       try {
-        // Convert answers to array format
-        const answersArray = Object.entries(answers).map(([questionId, selectedOptions]) => ({
-          questionId,
-          selectedOptions,
-        }));
-
         const response = await api.post(`/student/quizzes/${quizId}/submit`, {
           attemptId,
-          answers: answersArray,
+          answers: toAnswerList(answersRef.current),
         });
 
         // Refresh attempts list
         await fetchQuiz();
 
         return response.data.data;
-      } catch (err: any) {
-        setError(err.response?.data?.message || 'Failed to submit quiz');
+      } catch (err) {
+        setError(getApiErrorMessage(err, 'Failed to submit quiz'));
         console.error('Error submitting quiz:', err);
         throw err;
       }
     },
-    [quizId, answers, fetchQuiz]
+    [quizId, attemptId, fetchQuiz]
   );
 
   return {
@@ -191,10 +372,14 @@ export const useQuiz = (quizId: string): UseQuizReturn => {
     answers,
     timeRemaining,
     attempts,
+    attemptId,
+    lastSavedAt,
+    timeUpMessage,
     isLoading,
     error,
     setCurrentQuestion,
     selectOption,
+    setAnswer,
     submitQuiz,
     startQuiz,
     fetchQuiz,
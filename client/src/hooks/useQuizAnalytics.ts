@@ -0,0 +1,199 @@
+/**
+ * useQuizAnalytics Hook
+ *
+ * Custom hook for how students did on a quiz.
+ * Provides functionality to load a quiz's score distribution, pass rates
+ * per group, time spent and item analysis, open any finished attempt,
+ * and fix the points everyone earns on a question.
+ *
+ * @hook useQuizAnalytics
+ * @version 1.0.0
+ */
+
+import { useState, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+import type { QuestionType } from './useTrainerQuizzes';
+
+/**
+ * Students, pass rate, score and time over a set of attempts
+ * Pass rates count students: one passing attempt is enough.
+ */
+export interface QuizOutcome {
+  attempts: number;
+  students: number;
+  passed: number;
+  /** 0-100; null without attempts */
+  passRate: number | null;
+  averageScore: number | null;
+  /** Seconds */
+  averageTimeSpent: number | null;
+}
+
+export interface QuizGroupOutcome extends QuizOutcome {
+  /** null for students in no group of the course */
+  groupId: string | null;
+  name: string;
+  enrolled: number | null;
+}
+
+export interface QuizItemAnalysis {
+  questionId: string;
+  question: string;
+  type: QuestionType;
+  points: number;
+  /** Drawn from the question bank by some attempts */
+  fromBank: boolean;
+  /** Points everyone earns, when a trainer fixed them */
+  scoreOverride: number | null;
+  /** Attempts that had the question */
+  seen: number;
+  answered: number;
+  percentCorrect: number | null;
+  averagePoints: number | null;
+  pendingReview: number;
+  /** Choice questions: how often each option was chosen */
+  options: {
+    index: number;
+    text: string;
+    isCorrect: boolean;
+    count: number;
+    percent: number | null;
+  }[];
+  /** Typed questions: the most common answers */
+  topAnswers: { text: string; count: number }[];
+}
+
+export interface QuizAttemptSummary {
+  _id: string;
+  student: { _id: string; name: string; email: string } | null;
+  attemptNumber: number;
+  status: 'submitted' | 'expired';
+  score: number;
+  passed: boolean;
+  earnedPoints: number;
+  totalPoints: number;
+  timeSpent: number;
+  autoSubmitted: boolean;
+  pendingReview: boolean;
+  submittedAt: string;
+}
+
+export interface QuizAnalytics {
+  quiz: { _id: string; title: string; passingScore: number };
+  summary: QuizOutcome & { pendingReview: number };
+  scoreDistribution: { from: number; to: number; count: number }[];
+  groups: QuizGroupOutcome[];
+  questions: QuizItemAnalysis[];
+  attempts: QuizAttemptSummary[];
+}
+
+/**
+ * A finished attempt with every answer, for review
+ */
+export interface QuizAttemptDetail extends QuizAttemptSummary {
+  quiz: { _id: string; title: string; passingScore: number };
+  answers: {
+    questionId: string;
+    question: string;
+    type: QuestionType;
+    selectedOptions: number[];
+    textAnswer?: string;
+    correctOptions: number[];
+    /** The right answer of non-choice questions, described */
+    correctAnswer: string | null;
+    isCorrect: boolean;
+    pointsEarned: number;
+    points: number;
+    needsReview: boolean;
+    feedback?: string;
+    explanation?: string;
+    /** Option texts; for ordering, the items in their correct order */
+    options: string[];
+    pairs?: { left: string; right: string }[];
+    code?: string;
+    language?: string;
+    scoreOverride: number | null;
+    /** Set when a trainer graded the answer by hand */
+    reviewedAt?: string;
+  }[];
+}
+
+/**
+ * Hook return type
+ */
+interface UseQuizAnalyticsReturn {
+  analytics: QuizAnalytics | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: (quizId: string) => Promise<void>;
+  fetchAttempt: (attemptId: string) => Promise<{ success: boolean; attempt?: QuizAttemptDetail; error?: string }>;
+  overrideQuestion: (
+    quizId: string,
+    questionId: string,
+    pointsEarned: number | null
+  ) => Promise<{ success: boolean; regraded?: number; error?: string }>;
+}
+
+/**
+ * Custom hook for a quiz's analytics
+ * Call refetch() with a quiz to load them.
+ * @returns Hook utilities and data
+ */
+export const useQuizAnalytics = (): UseQuizAnalyticsReturn => {
+  const [analytics, setAnalytics] = useState<QuizAnalytics | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch a quiz's analytics
+   */
+  const fetchAnalytics = useCallback(async (quizId: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await api.get(`/trainer/quizzes/${quizId}/analytics`);
+      setAnalytics(response.data.data);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to fetch quiz analytics'));
+      console.error('Error fetching quiz analytics:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Fetch one attempt with its answers
+   */
+  const fetchAttempt = useCallback(async (attemptId: string) => {
+    try {
+      const response = await api.get(`/trainer/quizzes/attempts/${attemptId}`);
+      return { success: true, attempt: response.data.data as QuizAttemptDetail };
+    } catch (err) {
+      console.error('Error fetching quiz attempt:', err);
+      return { success: false, error: getApiErrorMessage(err, 'Failed to fetch quiz attempt') };
+    }
+  }, []);
+
+  /**
+   * Fix the points everyone earns on a question, or clear the fix with
+   * null; every attempt is regraded
+   */
+  const overrideQuestion = useCallback(async (quizId: string, questionId: string, pointsEarned: number | null) => {
+    try {
+      const response = await api.put(`/trainer/quizzes/${quizId}/questions/${questionId}/override`, { pointsEarned });
+      return { success: true, regraded: response.data.regraded as number };
+    } catch (err) {
+      console.error('Error overriding question score:', err);
+      return { success: false, error: getApiErrorMessage(err, 'Failed to override question score') };
+    }
+  }, []);
+
+  return {
+    analytics,
+    isLoading,
+    error,
+    refetch: fetchAnalytics,
+    fetchAttempt,
+    overrideQuestion,
+  };
+};
@@ -0,0 +1,135 @@
+/**
+ * useQuizFiles Hook
+ *
+ * Custom hook for moving quizzes in and out as files.
+ * Provides functionality to export a quiz or a whole course as GIFT,
+ * Moodle XML, CSV or XLSX, preview a quiz file with its validation
+ * errors, and import it into a course.
+ *
+ * @hook useQuizFiles
+ * @version 1.0.0
+ */
+
+import { useCallback } from 'react';
+import { api, getApiErrorMessage, getBlobErrorMessage } from '../lib/api';
+import { saveBlob } from '../lib/utils';
+import type { Quiz, QuizQuestion } from './useTrainerQuizzes';
+
+export type QuizFileFormat = 'gift' | 'moodle_xml' | 'csv' | 'xlsx';
+
+export const QUIZ_FILE_FORMATS: Record<QuizFileFormat, { label: string; extension: string }> = {
+  gift: { label: 'GIFT', extension: 'gift' },
+  moodle_xml: { label: 'Moodle XML', extension: 'xml' },
+  csv: { label: 'CSV', extension: 'csv' },
+  xlsx: { label: 'Excel', extension: 'xlsx' },
+};
+
+/** File types the import accepts */
+export const QUIZ_IMPORT_ACCEPT = '.gift,.txt,.xml,.csv,.xlsx';
+
+/**
+ * Columns of the CSV/XLSX layout, one row per question.
+ * Lists are separated by | (write \| for a literal bar).
+ */
+export const QUIZ_CSV_COLUMNS: { header: string; description: string }[] = [
+  { header: 'Quiz', description: 'Quiz title; rows with the same title form one quiz' },
+  { header: 'Type', description: 'single, multiple, true_false, numeric, short_text, ordering, matching, code_output or essay' },
+  { header: 'Question', description: 'Question text' },
+  { header: 'Points', description: 'Defaults to 1' },
+  { header: 'Options', description: 'Choices, ordering items in their correct order, or matching pairs as left -> right' },
+  { header: 'Answer', description: 'Numbers of the correct choices from 1, true or false, the number, or the accepted answers' },
+  { header: 'Tolerance', description: 'Numeric: accepted distance from the answer' },
+  { header: 'Case Sensitive', description: 'Short text: yes or no' },
+  { header: 'Code', description: 'Code output: the snippet' },
+  { header: 'Language', description: 'Code output: the language' },
+  { header: 'Explanation', description: 'Shown after submission; grading notes for essays' },
+];
+
+export interface QuizImportPreview {
+  dryRun: boolean;
+  format: QuizFileFormat;
+  summary: {
+    quizzes: number;
+    questions: number;
+    errors: number;
+  };
+  /** One per quiz (or category) in the file */
+  quizzes: {
+    title: string;
+    questions: QuizQuestion[];
+    errors: string[];
+  }[];
+}
+
+// Matches the download name the server would pick
+const fileSlug = (title: string) =>
+  title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'quiz';
+
+/**
+ * Custom hook for quiz import and export
+ * @returns Hook utilities
+ */
+export const useQuizFiles = () => {
+  /**
+   * Download one quiz
+   */
+  const exportQuiz = useCallback(async (quiz: Pick<Quiz, '_id' | 'title'>, format: QuizFileFormat) => {
+    try {
+      const response = await api.get(`/trainer/quizzes/${quiz._id}/export`, {
+        params: { format },
+        responseType: 'blob',
+      });
+      saveBlob(response.data, `${fileSlug(quiz.title)}.${QUIZ_FILE_FORMATS[format].extension}`);
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: await getBlobErrorMessage(err, 'Failed to export quiz') };
+    }
+  }, []);
+
+  /**
+   * Download every quiz of a course
+   */
+  const exportCourse = useCallback(async (course: { _id: string; title: string }, format: QuizFileFormat) => {
+    try {
+      const response = await api.get(`/trainer/quizzes/course/${course._id}/export`, {
+        params: { format },
+        responseType: 'blob',
+      });
+      saveBlob(response.data, `${fileSlug(course.title)}-quizzes.${QUIZ_FILE_FORMATS[format].extension}`);
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: await getBlobErrorMessage(err, 'Failed to export course quizzes') };
+    }
+  }, []);
+
+  const importQuizzes = useCallback(async (file: File, courseId?: string) => {
+    const dryRun = !courseId;
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('dryRun', String(dryRun));
+      if (courseId) formData.append('courseId', courseId);
+
+      const response = await api.post('/trainer/quizzes/import', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      return {
+        success: true,
+        preview: response.data as QuizImportPreview,
+        /** Quizzes created; 0 for a preview */
+        imported: (response.data.data || []).length as number,
+      };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, dryRun ? 'Failed to read the quiz file' : 'Failed to import quizzes') };
+    }
+  }, []);
+
+  return {
+    exportQuiz,
+    exportCourse,
+    /** Parse and validate a file without saving anything */
+    previewImport: (file: File) => importQuizzes(file),
+    /** Create one quiz in the course per quiz in the file */
+    importToCourse: (file: File, courseId: string) => importQuizzes(file, courseId),
+  };
+};
@@ -1,148 +1,61 @@
-import { useEffect } from 'react';
+import { useEffect, useRef } from 'react';
 import { socket } from '../lib/socket';
+import { subscribe } from '../lib/realtime';
 import { useToast } from '../components/ui';
-
-interface RealtimeUpdateHandlers {
-  onStockUpdate?: (data: any) => void;
-  onOrderCreated?: (data: any) => void;
-  onOrderUpdated?: (data: any) => void;
-  onProjectUpdated?: (data: any) => void;
-  onTeamUpdate?: (data: any) => void;
-  onNotification?: (data: any) => void;
-}
+import type {
+  OrderEvent,
+  RealtimeEvent,
+  RealtimeEventName
+} from '../shared/types/realtime.types';
 
 /**
- * Hook for handling real-time Socket.io updates
- * @param handlers - Object containing event handlers
- * @param enabled - Whether to enable real-time updates (default: true)
+ * Listen for one event of the realtime catalog while mounted
+ * The handler may change between renders without resubscribing.
+ * @param event - Event name
+ * @param handler - Called with each typed payload
+ * @param enabled - Whether to listen (default: true)
  */
-export const useRealtimeUpdates = (
-  handlers: RealtimeUpdateHandlers = {},
+export const useRealtimeEvent = <E extends RealtimeEventName>(
+  event: E,
+  handler: (payload: RealtimeEvent<E>) => void,
   enabled: boolean = true
 ) => {
-  const toast = useToast();
+  const handlerRef = useRef(handler);
 
   useEffect(() => {
-    if (!enabled || !socket) return;
-
-    // Connect socket if not already connected
-    if (!socket.connected) {
-      socket.connect();
-    }
-
-    // Stock updates
-    if (handlers.onStockUpdate) {
-      socket.on('stock:updated', (data) => {
-        handlers.onStockUpdate?.(data);
-        toast.info('Stock Updated', `${data.partName || 'Part'} stock updated`);
-      });
-    }
-
-    // Order created
-    if (handlers.onOrderCreated) {
-      socket.on('order:created', (data) => {
-        handlers.onOrderCreated?.(data);
-        toast.success('New Order', `Order #${data.orderNumber || data._id} created`);
-      });
-    }
+    handlerRef.current = handler;
+  });
 
-    // Order updated
-    if (handlers.onOrderUpdated) {
-      socket.on('order:updated', (data) => {
-        handlers.onOrderUpdated?.(data);
-        toast.info('Order Updated', `Order #${data.orderNumber || data._id} updated`);
-      });
-    }
-
-    // Project updated
-    if (handlers.onProjectUpdated) {
-      socket.on('project:updated', (data) => {
-        handlers.onProjectUpdated?.(data);
-        toast.info('Project Updated', data.name || 'A project was updated');
-      });
-    }
-
-    // Team updates
-    if (handlers.onTeamUpdate) {
-      socket.on('team:updated', (data) => {
-        handlers.onTeamUpdate?.(data);
-      });
-    }
-
-    // General notifications
-    if (handlers.onNotification) {
-      socket.on('notification', (data) => {
-        handlers.onNotification?.(data);
-
-        const variant = data.type === 'error' ? 'error' :
-                       data.type === 'warning' ? 'warning' :
-                       data.type === 'success' ? 'success' : 'info';
-
-        toast[variant](data.title || 'Notification', data.message);
-      });
-    }
-
-    // Cleanup on unmount
-    return () => {
-      socket.off('stock:updated');
-      socket.off('order:created');
-      socket.off('order:updated');
-      socket.off('project:updated');
-      socket.off('team:updated');
-      socket.off('notification');
-    };
-  }, [enabled, handlers, toast]);
+  useEffect(() => {
+    if (!enabled) return;
+    return subscribe(event, (payload) => handlerRef.current(payload));
+  }, [event, enabled]);
+};
 
-  return {
-    socket,
-    isConnected: socket?.connected || false,
-  };
+const ORDER_STATUS_TOASTS: Record<OrderEvent['status'], { variant: 'success' | 'info' | 'warning' | 'error'; title: string }> = {
+  pending: { variant: 'info', title: 'Order Updated' },
+  approved: { variant: 'success', title: 'Order Approved' },
+  partially_fulfilled: { variant: 'info', title: 'Order Partly Handed Out' },
+  rejected: { variant: 'error', title: 'Order Rejected' },
+  fulfilled: { variant: 'success', title: 'Order Fulfilled' },
+  cancelled: { variant: 'warning', title: 'Order Cancelled' },
 };
 
+const shortId = (id: string) => id.slice(-6).toUpperCase();
+
 /**
  * Hook specifically for dashboard real-time updates
- * Combines all relevant events for the dashboard
+ * Refreshes stats on stock movements and order changes
  */
 export const useDashboardRealtimeUpdates = (refetchStats: () => void) => {
   const toast = useToast();
 
-  useEffect(() => {
-    if (!socket) return;
-
-    if (!socket.connected) {
-      socket.connect();
-    }
-
-    // Refresh stats on any significant change
-    const handleUpdate = (eventName: string, data?: any) => {
-      console.log(`[Realtime] ${eventName}:`, data);
-      refetchStats();
-    };
-
-    socket.on('stock:updated', (data) => handleUpdate('stock:updated', data));
-    socket.on('order:created', (data) => {
-      handleUpdate('order:created', data);
-      toast.success('New Order', `Order created successfully`);
-    });
-    socket.on('order:updated', (data) => handleUpdate('order:updated', data));
-    socket.on('project:updated', (data) => handleUpdate('project:updated', data));
-    socket.on('team:updated', (data) => handleUpdate('team:updated', data));
-
-    // Admin notifications
-    socket.on('admin:notification', (data) => {
-      toast.info('Admin Alert', data.message);
-      refetchStats();
-    });
-
-    return () => {
-      socket.off('stock:updated');
-      socket.off('order:created');
-      socket.off('order:updated');
-      socket.off('project:updated');
-      socket.off('team:updated');
-      socket.off('admin:notification');
-    };
-  }, [refetchStats, toast]);
+  useRealtimeEvent('stock:updated', () => refetchStats());
+  useRealtimeEvent('order:created', () => {
+    refetchStats();
+    toast.success('New Order', 'Order created successfully');
+  });
+  useRealtimeEvent('order:updated', () => refetchStats());
 
   return {
     socket,
@@ -152,69 +65,16 @@ export const useDashboardRealtimeUpdates = (refetchStats: () => void) => {
 
 /**
  * Hook specifically for inventory real-time updates
- * Listens to stock updates and part changes
+ * Refreshes on stock movements and warns when a part runs low
  */
 export const useInventoryRealtimeUpdates = (refetchInventory: () => void) => {
   const toast = useToast();
 
-  useEffect(() => {
-    if (!socket) return;
-
-    if (!socket.connected) {
-      socket.connect();
-    }
-
-    // Stock updates
-    socket.on('stock:updated', (data) => {
-      console.log('[Realtime] Stock updated:', data);
-      refetchInventory();
-      toast.info('Stock Updated', data.partName ? `${data.partName} stock updated` : 'Part stock updated');
-    });
-
-    // Part created
-    socket.on('part:created', (data) => {
-      console.log('[Realtime] Part created:', data);
-      refetchInventory();
-      toast.success('Part Added', data.name || 'New part added to inventory');
-    });
-
-    // Part updated
-    socket.on('part:updated', (data) => {
-      console.log('[Realtime] Part updated:', data);
-      refetchInventory();
-      toast.info('Part Updated', data.name || 'Part information updated');
-    });
-
-    // Part deleted
-    socket.on('part:deleted', (data) => {
-      console.log('[Realtime] Part deleted:', data);
-      refetchInventory();
-      toast.warning('Part Removed', data.name || 'Part removed from inventory');
-    });
-
-    // Low stock alerts
-    socket.on('stock:low', (data) => {
-      console.log('[Realtime] Low stock alert:', data);
-      toast.warning('Low Stock Alert', `${data.partName} is running low (${data.quantity} remaining)`);
-      refetchInventory();
-    });
-
-    // Out of stock alerts
-    socket.on('stock:out', (data) => {
-      console.log('[Realtime] Out of stock:', data);
-      toast.error('Out of Stock', `${data.partName} is out of stock`);
-      refetchInventory();
-    });
-
-    return () => {
-      socket.off('stock:updated');
-      socket.off('part:created');
-      socket.off('part:updated');
-      socket.off('part:deleted');
-      socket.off('stock:low');
-      socket.off('stock:out');
-    };
-  }, [refetchInventory, toast]);
+  useRealtimeEvent('stock:updated', () => refetchInventory());
+  useRealtimeEvent('stock:low', (data) => {
+    toast.warning('Low Stock Alert', `${data.partName} is running low (${data.availableQty} available)`);
+    refetchInventory();
+  });
 
   return {
     socket,
@@ -224,82 +84,21 @@ export const useInventoryRealtimeUpdates = (refetchInventory: () => void) => {
 
 /**
  * Hook specifically for orders real-time updates
- * Listens to order status changes and new orders
+ * Listens to new orders and status changes
  */
 export const useOrdersRealtimeUpdates = (refetchOrders: () => void) => {
   const toast = useToast();
 
-  useEffect(() => {
-    if (!socket) return;
-
-    if (!socket.connected) {
-      socket.connect();
-    }
-
-    // Order created
-    socket.on('order:created', (data) => {
-      console.log('[Realtime] Order created:', data);
-      refetchOrders();
-      toast.success('New Order', `Order #${data.orderNumber || data._id} created`);
-    });
-
-    // Order updated (generic)
-    socket.on('order:updated', (data) => {
-      console.log('[Realtime] Order updated:', data);
-      refetchOrders();
-      toast.info('Order Updated', `Order #${data.orderNumber || data._id} updated`);
-    });
-
-    // Order approved
-    socket.on('order:approved', (data) => {
-      console.log('[Realtime] Order approved:', data);
-      refetchOrders();
-      toast.success('Order Approved', `Order #${data.orderNumber || data._id} has been approved`);
-    });
-
-    // Order rejected
-    socket.on('order:rejected', (data) => {
-      console.log('[Realtime] Order rejected:', data);
-      refetchOrders();
-      toast.error('Order Rejected', `Order #${data.orderNumber || data._id} has been rejected`);
-    });
+  useRealtimeEvent('order:created', (data) => {
+    refetchOrders();
+    toast.success('New Order', `Order #${shortId(data.orderId)} created`);
+  });
 
-    // Order fulfilled
-    socket.on('order:fulfilled', (data) => {
-      console.log('[Realtime] Order fulfilled:', data);
-      refetchOrders();
-      toast.success('Order Fulfilled', `Order #${data.orderNumber || data._id} has been fulfilled`);
-    });
-
-    // Order cancelled
-    socket.on('order:cancelled', (data) => {
-      console.log('[Realtime] Order cancelled:', data);
-      refetchOrders();
-      toast.warning('Order Cancelled', `Order #${data.orderNumber || data._id} has been cancelled`);
-    });
-
-    // Legacy event names (for backward compatibility)
-    socket.on('order:new', (data) => {
-      console.log('[Realtime] New order (legacy):', data);
-      refetchOrders();
-    });
-
-    socket.on('order:update', (data) => {
-      console.log('[Realtime] Order update (legacy):', data);
-      refetchOrders();
-    });
-
-    return () => {
-      socket.off('order:created');
-      socket.off('order:updated');
-      socket.off('order:approved');
-      socket.off('order:rejected');
-      socket.off('order:fulfilled');
-      socket.off('order:cancelled');
-      socket.off('order:new');
-      socket.off('order:update');
-    };
-  }, [refetchOrders, toast]);
+  useRealtimeEvent('order:updated', (data) => {
+    refetchOrders();
+    const { variant, title } = ORDER_STATUS_TOASTS[data.status] || ORDER_STATUS_TOASTS.pending;
+    toast[variant](title, `Order #${shortId(data.orderId)} is now ${data.status.replace('_', ' ')}`);
+  });
 
   return {
     socket,
@@ -307,6 +106,26 @@ export const useOrdersRealtimeUpdates = (refetchOrders: () => void) => {
   };
 };
 
+/**
+ * Hook for sessions real-time updates
+ * Refreshes when a session of one of the user's groups changes
+ */
+export const useSessionsRealtimeUpdates = (refetchSessions: () => void) => {
+  useRealtimeEvent('session:updated', () => refetchSessions());
+
+  return { socket, isConnected: socket?.connected || false };
+};
+
+/**
+ * Hook for payments real-time updates
+ * Refreshes when a payment the user can see changes
+ */
+export const usePaymentsRealtimeUpdates = (refetchPayments: () => void) => {
+  useRealtimeEvent('payment:updated', () => refetchPayments());
+
+  return { socket, isConnected: socket?.connected || false };
+};
+
 /**
  * Hook specifically for projects real-time updates
  * Listens to project changes and updates
@@ -346,7 +165,7 @@ export const useProjectsRealtimeUpdates = (refetchProjects: () => void) => {
     socket.on('project:status', (data) => {
       console.log('[Realtime] Project status changed:', data);
       refetchProjects();
-      toast.info('Status Changed', `${data.title} is now ${data.status}`);
+      toast.info('Status Changed', `${data.title} is now ${data.status.replace('_', ' ')}`);
     });
 
     return () => {
@@ -6,6 +6,7 @@
  * - Recent enrollments
  * - Pending payments (count and total amount)
  * - Active groups
+ * - Overdue installments
  */
 
 import { useState, useEffect, useCallback } from 'react';
@@ -22,6 +23,26 @@ export interface ReceptionDashboardStats {
   pendingPayments: number;
   pendingPaymentsAmount: number;
   activeGroups: number;
+  overdueInstallments: number;
+  overdueAmount: number;
+}
+
+/**
+ * Unpaid installment past its due date
+ */
+export interface OverdueInstallment {
+  enrollmentId: string;
+  student: { _id: string; name: string; email: string } | null;
+  course: { _id: string; title: string } | null;
+  installment: {
+    _id: string;
+    label: string | null;
+    amount: number;
+    paidAmount: number;
+    outstanding: number;
+    dueDate: string;
+  };
+  daysOverdue: number;
 }
 
 /**
@@ -29,6 +50,7 @@ export interface ReceptionDashboardStats {
  */
 interface UseReceptionDashboardReturn {
   stats: ReceptionDashboardStats | null;
+  overdue: OverdueInstallment[];
   isLoading: boolean;
   error: string | null;
   refetch: () => Promise<void>;
@@ -44,6 +66,7 @@ interface UseReceptionDashboardReturn {
  */
 export const useReceptionDashboard = (): UseReceptionDashboardReturn => {
   const [stats, setStats] = useState<ReceptionDashboardStats | null>(null);
+  const [overdue, setOverdue] = useState<OverdueInstallment[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -55,11 +78,15 @@ export const useReceptionDashboard = (): UseReceptionDashboardReturn => {
       setIsLoading(true);
       setError(null);
 
-      // Fetch dashboard stats from reception endpoint
-      const response = await api.get('/reception/dashboard');
+      // Fetch dashboard stats and the oldest overdue installments
+      const [response, overdueRes] = await Promise.all([
+        api.get('/reception/dashboard'),
+        api.get('/reception/enrollments/overdue', { params: { limit: 5 } }),
+      ]);
 
       // Set stats from API response
       setStats(response.data.data || null);
+      setOverdue(overdueRes.data.data || []);
     } catch (err: any) {
       // Handle errors
       setError(err.response?.data?.message || 'Failed to fetch dashboard data');
@@ -78,6 +105,7 @@ export const useReceptionDashboard = (): UseReceptionDashboardReturn => {
 
   return {
     stats,
+    overdue,
     isLoading,
     error,
     refetch: fetchDashboardData,
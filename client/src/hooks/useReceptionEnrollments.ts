@@ -47,7 +47,10 @@ export interface Enrollment {
  * Installment interface
  */
 export interface Installment {
+  _id: string;
+  label?: string | null;
   amount: number;
+  paidAmount?: number;
   dueDate: string;
   paidDate?: string;
   status: 'pending' | 'paid' | 'overdue';
@@ -125,7 +128,9 @@ export interface CreateEnrollmentRequest {
   groupId?: string;
   totalAmount: number;
   installmentPlan?: {
+    downPayment?: number;
     numberOfInstallments: number;
+    intervalMonths?: number;
     startDate?: string;
   };
   notes?: string;
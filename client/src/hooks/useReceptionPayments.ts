@@ -0,0 +1,226 @@
+/**
+ * Custom hook for the reception payment verification queue
+ *
+ * Students pay by Sham Cash, bank transfer or check and upload proof;
+ * reception reviews the proof here and approves or rejects the payment.
+ * Only approval updates the enrollment balance and issues a receipt.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+import type { VerifiablePaymentMethod } from './usePayments';
+
+// Content types the server serves proofs as
+const PROOF_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'application/pdf'];
+
+export type PaymentVerificationStatus = 'pending' | 'processing' | 'completed' | 'failed';
+
+/**
+ * Payment as listed in the verification queue
+ */
+export interface VerificationPayment {
+  _id: string;
+  student: { _id: string; name: string; email: string } | null;
+  course: { _id: string; title: string } | null;
+  enrollment: {
+    _id: string;
+    payment: { totalAmount: number; paidAmount: number; remainingAmount: number };
+  } | null;
+  amount: number;
+  paymentMethod: VerifiablePaymentMethod;
+  status: PaymentVerificationStatus;
+  proof: {
+    filePath: string | null;
+    originalName: string | null;
+    mimeType: string | null;
+    size: number | null;
+    reference: string | null;
+    submittedAt: string | null;
+  };
+  verification: {
+    reviewedBy: { _id: string; name: string } | null;
+    reviewedAt: string | null;
+    rejectionReason: string | null;
+  };
+  receiptId: string | null;
+  notes?: string;
+  createdAt: string;
+}
+
+/**
+ * Number of payments per verification status
+ */
+export type VerificationSummary = Record<PaymentVerificationStatus, number>;
+
+export interface VerificationFilters {
+  status: PaymentVerificationStatus;
+  method?: VerifiablePaymentMethod;
+  page?: number;
+  limit?: number;
+}
+
+export interface VerificationPagination {
+  total: number;
+  page: number;
+  pages: number;
+}
+
+/**
+ * Receipt issued when a payment is approved
+ */
+export interface ApprovedReceipt {
+  receiptId: string;
+  receiptNumber: string;
+  downloadUrl: string;
+}
+
+/**
+ * Return type for the hook
+ */
+interface UseReceptionPaymentsReturn {
+  payments: VerificationPayment[];
+  summary: VerificationSummary | null;
+  pagination: VerificationPagination | null;
+  isLoading: boolean;
+  error: string | null;
+  filters: VerificationFilters;
+  setFilters: (filters: VerificationFilters) => void;
+  refetch: () => Promise<void>;
+  approvePayment: (id: string, notes?: string) => Promise<ApprovedReceipt | null>;
+  rejectPayment: (id: string, reason: string) => Promise<void>;
+  openProof: (id: string) => Promise<void>;
+  downloadReceipt: (receiptId: string, receiptNumber?: string) => Promise<void>;
+}
+
+/**
+ * Hook to review student payment proofs
+ *
+ * @returns Queue for the selected status, per-status counts and review actions
+ *
+ * @example
+ * const { payments, approvePayment, rejectPayment } = useReceptionPayments();
+ */
+export const useReceptionPayments = (): UseReceptionPaymentsReturn => {
+  const [payments, setPayments] = useState<VerificationPayment[]>([]);
+  const [summary, setSummary] = useState<VerificationSummary | null>(null);
+  const [pagination, setPagination] = useState<VerificationPagination | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [filters, setFilters] = useState<VerificationFilters>({
+    status: 'processing',
+    page: 1,
+    limit: 20
+  });
+
+  /**
+   * Fetch payments for the current filters
+   */
+  const fetchPayments = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('/reception/payments', { params: filters });
+
+      setPayments(response.data.data || []);
+      setSummary(response.data.summary || null);
+      setPagination(response.data.pagination || null);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to fetch payments'));
+      console.error('Error fetching payments:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [filters]);
+
+  /**
+   * Approve a payment; returns the issued receipt (null if generation failed)
+   */
+  const approvePayment = useCallback(async (id: string, notes?: string) => {
+    try {
+      const response = await api.post(`/reception/payments/${id}/approve`, { notes });
+      await fetchPayments();
+      return (response.data.receipt || null) as ApprovedReceipt | null;
+    } catch (err) {
+      console.error('Error approving payment:', err);
+      throw new Error(getApiErrorMessage(err, 'Failed to approve payment'));
+    }
+  }, [fetchPayments]);
+
+  /**
+   * Reject a payment with a reason shown to the student
+   */
+  const rejectPayment = useCallback(async (id: string, reason: string) => {
+    try {
+      await api.post(`/reception/payments/${id}/reject`, { reason });
+      await fetchPayments();
+    } catch (err) {
+      console.error('Error rejecting payment:', err);
+      throw new Error(getApiErrorMessage(err, 'Failed to reject payment'));
+    }
+  }, [fetchPayments]);
+
+  /**
+   * Open a payment's proof file in a new tab
+   * The file is served through an authenticated endpoint, so fetch it as a blob
+   */
+  const openProof = useCallback(async (id: string) => {
+    try {
+      const response = await api.get(`/reception/payments/${id}/proof`, {
+        responseType: 'blob'
+      });
+      // The blob URL runs in the app's origin, so only open known proof types
+      const type = PROOF_TYPES.includes(response.data.type) ? response.data.type : 'application/octet-stream';
+      const url = window.URL.createObjectURL(new Blob([response.data], { type }));
+      window.open(url, '_blank', 'noopener');
+      // Give the new tab time to load before releasing the blob
+      setTimeout(() => window.URL.revokeObjectURL(url), 60 * 1000);
+    } catch (err) {
+      console.error('Error opening payment proof:', err);
+      throw new Error(getApiErrorMessage(err, 'Failed to open proof'));
+    }
+  }, []);
+
+  /**
+   * Download the receipt issued for an approved payment
+   */
+  const downloadReceipt = useCallback(async (receiptId: string, receiptNumber?: string) => {
+    try {
+      const response = await api.get(`/reception/receipts/${receiptId}/download`, {
+        responseType: 'blob'
+      });
+
+      const blob = new Blob([response.data], { type: 'application/pdf' });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${receiptNumber || `receipt-${receiptId}`}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading receipt:', err);
+      throw new Error(getApiErrorMessage(err, 'Failed to download receipt'));
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchPayments();
+  }, [fetchPayments]);
+
+  return {
+    payments,
+    summary,
+    pagination,
+    isLoading,
+    error,
+    filters,
+    setFilters,
+    refetch: fetchPayments,
+    approvePayment,
+    rejectPayment,
+    openProof,
+    downloadReceipt
+  };
+};
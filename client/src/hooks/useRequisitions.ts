@@ -0,0 +1,123 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+
+export type RequisitionStatus = 'requested' | 'ordered' | 'received' | 'cancelled';
+
+export interface Requisition {
+  _id: string;
+  partId: {
+    _id: string;
+    name: string;
+    sku?: string;
+    supplierId?: string | null;
+  };
+  qty: number;
+  receivedQty: number;
+  status: RequisitionStatus;
+  /** low_stock requisitions are raised automatically at the reorder point */
+  source: 'manual' | 'low_stock';
+  supplierId?: { _id: string; name: string } | null;
+  /** Purchase order carrying the requisition; it is received there */
+  purchaseOrderId?: { _id: string; orderNumber: string; status: string } | null;
+  notes?: string;
+  expectedAt?: string | null;
+  requestedBy?: { _id: string; name: string } | null;
+  orderedAt?: string;
+  receivedAt?: string;
+  cancelledAt?: string;
+  createdAt: string;
+}
+
+export interface LowStockPart {
+  partId: string;
+  name: string;
+  sku?: string;
+  availableQty: number;
+  reorderPoint: number;
+  reorderQty: number;
+  openRequisition?: {
+    _id: string;
+    qty: number;
+    status: RequisitionStatus;
+    expectedAt?: string | null;
+  };
+}
+
+export interface RequisitionInput {
+  partId: string;
+  qty: number;
+  supplierId?: string | null;
+  notes?: string;
+  expectedAt?: string | null;
+}
+
+/**
+ * Purchase requisitions and the parts below their reorder point
+ */
+export const useRequisitions = () => {
+  const [requisitions, setRequisitions] = useState<Requisition[]>([]);
+  const [lowStock, setLowStock] = useState<LowStockPart[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRequisitions = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [requisitionsRes, lowStockRes] = await Promise.all([
+        api.get('/requisitions'),
+        api.get('/stock/low'),
+      ]);
+
+      setRequisitions(requisitionsRes.data);
+      setLowStock(lowStockRes.data);
+    } catch (err) {
+      console.error('Error fetching requisitions:', err);
+      setError(getApiErrorMessage(err, 'Failed to load requisitions'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRequisitions();
+  }, [fetchRequisitions]);
+
+  const run = useCallback(async (request: () => Promise<unknown>, fallback: string) => {
+    try {
+      await request();
+      await fetchRequisitions();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, fallback) };
+    }
+  }, [fetchRequisitions]);
+
+  const create = useCallback((data: RequisitionInput) =>
+    run(() => api.post('/requisitions', data), 'Failed to raise requisition'), [run]);
+
+  const markOrdered = useCallback((id: string, data: { supplierId?: string | null; expectedAt?: string | null } = {}) =>
+    run(() => api.patch(`/requisitions/${id}/status`, { status: 'ordered', ...data }), 'Failed to mark requisition as ordered'), [run]);
+
+  const cancel = useCallback((id: string) =>
+    run(() => api.patch(`/requisitions/${id}/status`, { status: 'cancelled' }), 'Failed to cancel requisition'), [run]);
+
+  /** Book a delivery into stock; receives everything outstanding without a qty */
+  const receive = useCallback((id: string, qty?: number) =>
+    run(() => api.post(`/requisitions/${id}/receive`, qty ? { qty } : {}), 'Failed to receive requisition'), [run]);
+
+  return {
+    requisitions,
+    lowStock,
+    isLoading,
+    error,
+    refetch: fetchRequisitions,
+    actions: {
+      create,
+      markOrdered,
+      cancel,
+      receive,
+    },
+  };
+};
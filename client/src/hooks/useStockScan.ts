@@ -0,0 +1,82 @@
+import { useCallback } from 'react';
+import { api, getApiErrorMessage, getBlobErrorMessage } from '../lib/api';
+import type { PartWithStock } from './useInventoryData';
+
+/** Part resolved from a scan, with the code its own label carries */
+export interface ScannedPart extends PartWithStock {
+  scanCode: string;
+}
+
+/** One-step stock operations run from a scan */
+export type ScanOperation = 'receive' | 'issue' | 'return';
+
+/** Ledger reason each scan operation is booked under */
+export const SCAN_OPERATION_REASONS: Record<ScanOperation, string> = {
+  receive: 'purchase',
+  issue: 'used',
+  return: 'return',
+};
+
+export type LabelFormat = 'qr' | 'barcode';
+
+export type LabelRequest =
+  | { scope: 'part'; format: LabelFormat; partIds: string[] }
+  | { scope: 'bin'; format: LabelFormat; skus: string[] };
+
+/**
+ * Resolve scanned labels and barcodes to parts, and book stock against them
+ */
+export const useStockScan = () => {
+  /** Parts a scanned code refers to: one for a part label, several for a bin */
+  const lookup = useCallback(async (code: string) => {
+    try {
+      const response = await api.get('/parts/scan', { params: { code } });
+      return { success: true, parts: response.data.parts as ScannedPart[] };
+    } catch (err) {
+      return { success: false, parts: [] as ScannedPart[], error: getApiErrorMessage(err, 'Failed to look up scanned code') };
+    }
+  }, []);
+
+  /** Receive, issue or return a quantity of a part */
+  const apply = useCallback(async (partId: string, operation: ScanOperation, qty: number, notes?: string) => {
+    try {
+      await api.post('/stock/adjust', {
+        partId,
+        // Issued parts leave the shelf; the server books "used" as a decrease
+        qtyChange: Math.abs(qty),
+        reason: SCAN_OPERATION_REASONS[operation],
+        ...(notes ? { notes } : {}),
+      });
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to update stock') };
+    }
+  }, []);
+
+  return { lookup, apply };
+};
+
+/**
+ * Download printable label sheets for parts or bins
+ */
+export const usePartLabels = () => {
+  const download = useCallback(async (request: LabelRequest) => {
+    try {
+      const response = await api.post('/parts/labels', request, { responseType: 'blob' });
+
+      const url = window.URL.createObjectURL(response.data);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${request.scope}-labels.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: await getBlobErrorMessage(err, 'Failed to generate labels') };
+    }
+  }, []);
+
+  return { download };
+};
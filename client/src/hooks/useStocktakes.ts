@@ -0,0 +1,229 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+import { subscribe } from '../lib/realtime';
+
+export type StocktakeStatus = 'counting' | 'approved' | 'cancelled';
+export type StocktakeScope = 'category' | 'group';
+
+interface StocktakeBase {
+  _id: string;
+  reference: string;
+  scopeType: StocktakeScope;
+  scopeValue: string;
+  status: StocktakeStatus;
+  notes?: string;
+  createdBy?: { _id: string; name: string } | null;
+  approvedBy?: { _id: string; name: string } | null;
+  approvedAt?: string | null;
+  cancelledAt?: string | null;
+  createdAt: string;
+  countedLines: number;
+}
+
+export interface StocktakeSummary extends StocktakeBase {
+  totalLines: number;
+  varianceLines: number;
+}
+
+export interface StocktakeLine {
+  partId: { _id: string; name: string; sku: string; category: string; group?: string; partNumber?: string };
+  countedQty: number | null;
+  /** On hand per the ledger when counted */
+  expectedQty: number | null;
+  countedBy?: { _id: string; name: string } | null;
+  countedAt?: string | null;
+  /** Adjustment posted on approval */
+  postedQty: number | null;
+  /** Current on hand */
+  onHandQty: number;
+  variance: number | null;
+}
+
+export interface Stocktake extends StocktakeBase {
+  lines: StocktakeLine[];
+}
+
+export interface StocktakeCount {
+  partId: string;
+  countedQty: number;
+}
+
+export interface VarianceReportItem {
+  partId: string;
+  name: string;
+  sku: string;
+  category: string;
+  group?: string;
+  lostQty: number;
+  foundQty: number;
+  netQty: number;
+  stocktakeCount: number;
+  lastCountedAt: string;
+  avgUnitCost: number | null;
+  netValue: number | null;
+}
+
+export interface VarianceReport {
+  items: VarianceReportItem[];
+  categories: { category: string; lostQty: number; foundQty: number; netQty: number; netValue: number; parts: number }[];
+  totals: { lostQty: number; foundQty: number; netQty: number; netValue: number };
+}
+
+export interface VarianceReportFilters {
+  from?: string;
+  to?: string;
+  category?: string;
+  group?: string;
+}
+
+/**
+ * Stocktake sessions, newest first
+ * @param status - Only sessions in this status
+ */
+export const useStocktakes = (status?: StocktakeStatus) => {
+  const [stocktakes, setStocktakes] = useState<StocktakeSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStocktakes = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('/stocktakes', { params: { status } });
+      setStocktakes(response.data);
+    } catch (err) {
+      console.error('Error fetching stocktakes:', err);
+      setError(getApiErrorMessage(err, 'Failed to load stocktakes'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [status]);
+
+  useEffect(() => {
+    fetchStocktakes();
+  }, [fetchStocktakes]);
+
+  const create = useCallback(async (data: { scopeType: StocktakeScope; scopeValue: string; notes?: string }) => {
+    try {
+      const response = await api.post('/stocktakes', data);
+      await fetchStocktakes();
+      return { success: true, stocktake: response.data as StocktakeSummary };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to start stocktake') };
+    }
+  }, [fetchStocktakes]);
+
+  return {
+    stocktakes,
+    isLoading,
+    error,
+    refetch: fetchStocktakes,
+    actions: { create },
+  };
+};
+
+/**
+ * One stocktake with its counts. Counts recorded on other devices show up
+ * as they come in.
+ * @param id - Stocktake id
+ */
+export const useStocktake = (id: string | undefined) => {
+  const [stocktake, setStocktake] = useState<Stocktake | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchStocktake = useCallback(async () => {
+    if (!id) return;
+    try {
+      setError(null);
+      const response = await api.get(`/stocktakes/${id}`);
+      setStocktake(response.data);
+    } catch (err) {
+      console.error('Error fetching stocktake:', err);
+      setError(getApiErrorMessage(err, 'Failed to load stocktake'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchStocktake();
+  }, [fetchStocktake]);
+
+  useEffect(() => {
+    if (!id) return;
+    return subscribe('stocktake:count', (data) => {
+      if (data.stocktakeId === id) fetchStocktake();
+    });
+  }, [id, fetchStocktake]);
+
+  const run = useCallback(async (request: () => Promise<{ data: Stocktake }>, fallback: string) => {
+    try {
+      const response = await request();
+      setStocktake(response.data);
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, fallback) };
+    }
+  }, []);
+
+  const recordCounts = useCallback((counts: StocktakeCount[]) =>
+    run(() => api.patch(`/stocktakes/${id}/counts`, { counts }), 'Failed to save counts'), [id, run]);
+
+  const approve = useCallback(() =>
+    run(() => api.post(`/stocktakes/${id}/approve`), 'Failed to approve stocktake'), [id, run]);
+
+  const cancel = useCallback(async () => {
+    try {
+      await api.post(`/stocktakes/${id}/cancel`);
+      await fetchStocktake();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to cancel stocktake') };
+    }
+  }, [id, fetchStocktake]);
+
+  return {
+    stocktake,
+    isLoading,
+    error,
+    refetch: fetchStocktake,
+    actions: { recordCounts, approve, cancel },
+  };
+};
+
+/**
+ * Stocktake variance history: where stock goes missing
+ * @param filters - Period, category and group
+ */
+export const useStocktakeVarianceReport = (filters: VarianceReportFilters = {}) => {
+  const [report, setReport] = useState<VarianceReport | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const { from, to, category, group } = filters;
+
+  const fetchReport = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('/stocktakes/variance-report', {
+        // Through the end of the last day
+        params: { from: from || undefined, to: to ? `${to}T23:59:59` : undefined, category: category || undefined, group: group || undefined },
+      });
+      setReport(response.data);
+    } catch (err) {
+      console.error('Error fetching variance report:', err);
+      setError(getApiErrorMessage(err, 'Failed to load variance report'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [from, to, category, group]);
+
+  useEffect(() => {
+    fetchReport();
+  }, [fetchReport]);
+
+  return { report, isLoading, error, refetch: fetchReport };
+};
@@ -0,0 +1,136 @@
+/**
+ * useStudentResources Hook
+ *
+ * Custom hook for browsing the resources trainers shared with
+ * the student's groups in a course. Opening and downloading go through
+ * the API so that views and downloads are counted.
+ *
+ * @hook useStudentResources
+ * @version 1.0.0
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { api, getApiErrorMessage, getBlobErrorMessage } from '../lib/api';
+import { saveBlob } from '../lib/utils';
+import type { ResourceCategory, ResourceFileType } from './useTrainerResources';
+
+export interface StudentResource {
+  _id: string;
+  title: string;
+  description?: string;
+  originalName: string;
+  fileType: ResourceFileType;
+  mimeType: string;
+  fileSizeFormatted: string;
+  category: ResourceCategory;
+  tags: string[];
+  trainerId: { _id: string; name: string } | null;
+  sessionId: { _id: string; title: string; scheduledDate: string } | null;
+  isDownloadable: boolean;
+  requiresPassword: boolean;
+  version: number;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+// Types a browser would run as a page (HTML, SVG, XML)
+const ACTIVE_MIME_TYPES = /html|svg|xml/i;
+
+interface UseStudentResourcesReturn {
+  resources: StudentResource[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: () => Promise<void>;
+  /** Opens the file in a new tab; resolves to an error message on failure */
+  openResource: (resource: StudentResource, password?: string) => Promise<string | null>;
+  /** Downloads the file; resolves to an error message on failure */
+  downloadResource: (resource: StudentResource, password?: string) => Promise<string | null>;
+}
+
+/**
+ * Custom hook for a course's shared resources
+ * @param courseId - Course to list resources for (hook is idle while undefined)
+ * @returns Resources and actions
+ */
+export const useStudentResources = (courseId?: string): UseStudentResourcesReturn => {
+  const [resources, setResources] = useState<StudentResource[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchResources = useCallback(async () => {
+    if (!courseId) return;
+
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await api.get('/student/resources', { params: { courseId } });
+      setResources(response.data.data || []);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to load resources'));
+      console.error('Error fetching resources:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [courseId]);
+
+  const openResource = useCallback(async (
+    resource: StudentResource,
+    password?: string
+  ): Promise<string | null> => {
+    // Open the tab synchronously so popup blockers allow it
+    const tab = window.open('', '_blank');
+    try {
+      const response = await api.post(
+        `/student/resources/${resource._id}/view`,
+        { password },
+        { responseType: 'blob' }
+      );
+      // A blob URL runs in the app's origin, so markup is shown as text
+      const type = ACTIVE_MIME_TYPES.test(resource.mimeType) ? 'text/plain' : resource.mimeType;
+      const url = window.URL.createObjectURL(new Blob([response.data], { type }));
+      if (tab) {
+        tab.location.href = url;
+      } else {
+        window.open(url, '_blank');
+      }
+      // Give the new tab time to load before releasing the blob
+      setTimeout(() => window.URL.revokeObjectURL(url), 60000);
+      return null;
+    } catch (err) {
+      tab?.close();
+      console.error('Error opening resource:', err);
+      return getBlobErrorMessage(err, 'Failed to open resource');
+    }
+  }, []);
+
+  const downloadResource = useCallback(async (
+    resource: StudentResource,
+    password?: string
+  ): Promise<string | null> => {
+    try {
+      const response = await api.post(
+        `/student/resources/${resource._id}/download`,
+        { password },
+        { responseType: 'blob' }
+      );
+      saveBlob(response.data, resource.originalName);
+      return null;
+    } catch (err) {
+      console.error('Error downloading resource:', err);
+      return getBlobErrorMessage(err, 'Failed to download resource');
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchResources();
+  }, [fetchResources]);
+
+  return {
+    resources,
+    isLoading,
+    error,
+    refetch: fetchResources,
+    openResource,
+    downloadResource,
+  };
+};
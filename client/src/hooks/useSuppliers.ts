@@ -0,0 +1,88 @@
+import { useState, useEffect, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+
+export interface Supplier {
+  _id: string;
+  name: string;
+  contactName?: string;
+  email?: string;
+  phone?: string;
+  website?: string;
+  notes?: string;
+  isActive: boolean;
+  /** Parts naming this supplier as preferred */
+  partCount?: number;
+}
+
+export type SupplierInput = Omit<Supplier, '_id' | 'partCount'>;
+
+/**
+ * Supplier catalog
+ * @param activeOnly - Skip deactivated suppliers (e.g. for pickers)
+ */
+export const useSuppliers = (activeOnly = false) => {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSuppliers = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const response = await api.get('/suppliers', { params: activeOnly ? { active: 'true' } : {} });
+      setSuppliers(response.data);
+    } catch (err) {
+      console.error('Error fetching suppliers:', err);
+      setError(getApiErrorMessage(err, 'Failed to load suppliers'));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [activeOnly]);
+
+  useEffect(() => {
+    fetchSuppliers();
+  }, [fetchSuppliers]);
+
+  const createSupplier = useCallback(async (data: Partial<SupplierInput>) => {
+    try {
+      await api.post('/suppliers', data);
+      await fetchSuppliers();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to create supplier') };
+    }
+  }, [fetchSuppliers]);
+
+  const updateSupplier = useCallback(async (id: string, data: Partial<SupplierInput>) => {
+    try {
+      await api.put(`/suppliers/${id}`, data);
+      await fetchSuppliers();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to update supplier') };
+    }
+  }, [fetchSuppliers]);
+
+  const deleteSupplier = useCallback(async (id: string) => {
+    try {
+      const response = await api.delete(`/suppliers/${id}`);
+      await fetchSuppliers();
+      return { success: true, message: response.data?.message as string | undefined };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to delete supplier') };
+    }
+  }, [fetchSuppliers]);
+
+  return {
+    suppliers,
+    isLoading,
+    error,
+    refetch: fetchSuppliers,
+    actions: {
+      create: createSupplier,
+      update: updateSupplier,
+      delete: deleteSupplier,
+    },
+  };
+};
@@ -1,5 +1,5 @@
 import { useState, useEffect, useCallback } from 'react';
-import { api } from '../lib/api';
+import { api, getApiErrorMessage } from '../lib/api';
 
 export interface TeamMember {
   _id: string;
@@ -8,9 +8,16 @@ export interface TeamMember {
   role?: string;
 }
 
+export type TeamStatus = 'pending' | 'approved' | 'rejected';
+
 export interface Team {
   _id: string;
   name: string;
+  /** Teams registered before approval existed load as approved */
+  status: TeamStatus;
+  rejectionReason?: string;
+  reviewedAt?: string | null;
+  coachId?: string;
   members: string[] | TeamMember[];
   competitionId?: string | {
     _id: string;
@@ -59,6 +66,7 @@ export const useTeamsData = () => {
 
       const teamsData: Team[] = teamsRes.data.map((team: any) => ({
         ...team,
+        status: team.status || 'approved',
         memberCount: Array.isArray(team.members) ? team.members.length : 0
       }));
 
@@ -135,6 +143,16 @@ export const useTeamsData = () => {
     }
   }, [fetchTeams]);
 
+  const reviewTeam = useCallback(async (teamId: string, status: Exclude<TeamStatus, 'pending'>, reason?: string) => {
+    try {
+      await api.patch(`/teams/${teamId}/review`, { status, reason: reason || '' });
+      await fetchTeams();
+      return { success: true };
+    } catch (err) {
+      return { success: false, error: getApiErrorMessage(err, 'Failed to review team') };
+    }
+  }, [fetchTeams]);
+
   return {
     teams,
     competitions,
@@ -145,7 +163,8 @@ export const useTeamsData = () => {
     actions: {
       create: createTeam,
       update: updateTeam,
-      delete: deleteTeam
+      delete: deleteTeam,
+      review: reviewTeam
     }
   };
 };
@@ -0,0 +1,362 @@
+/**
+ * useTrainerAssignments Hook
+ *
+ * Custom hook for trainer assignment authoring and grading.
+ * Provides functionality to create assignments per module, list submissions
+ * per group, grade against the rubric and request resubmissions.
+ *
+ * @hook useTrainerAssignments
+ * @version 1.0.0
+ */
+
+import { useState, useCallback } from 'react';
+import { api, getApiErrorMessage } from '../lib/api';
+
+export type SubmissionStatus = 'submitted' | 'grading' | 'graded' | 'returned' | 'resubmit_required';
+
+export interface RubricCriterion {
+  _id?: string;
+  criteria: string;
+  points: number;
+}
+
+/**
+ * Assignment interface matching backend model
+ */
+export interface TrainerAssignment {
+  _id: string;
+  course: { _id: string; title: string; category?: string };
+  module: { _id: string; title: string; order: number } | null;
+  title: string;
+  description: string;
+  instructions?: string;
+  dueDate: string;
+  maxScore: number;
+  allowedFileTypes: string[];
+  maxFileSize: number;
+  maxFiles: number;
+  allowLateSubmission: boolean;
+  lateSubmissionDeadline: string | null;
+  latePenalty: number;
+  rubric: RubricCriterion[];
+  submissionStats?: {
+    submitted: number;
+    pendingGrading: number;
+  };
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface SubmissionGrade {
+  score: number | null;
+  rawScore: number | null;
+  latePenalty: number;
+  feedback?: string;
+  rubricScores: Array<{ criteriaId: string; pointsEarned: number }>;
+  gradedBy: { _id: string; name: string } | string | null;
+  gradedAt?: string;
+}
+
+export interface TrainerSubmission {
+  _id: string;
+  student: { _id: string; name: string; email: string } | string;
+  assignment: TrainerAssignment | string;
+  files: Array<{
+    _id: string;
+    filename: string;
+    originalName: string;
+    fileUrl: string;
+    fileType: string;
+    fileSize: number;
+  }>;
+  submittedAt: string;
+  isLate: boolean;
+  status: SubmissionStatus;
+  grade: SubmissionGrade;
+  resubmission: {
+    allowed: boolean;
+    count: number;
+    deadline: string | null;
+  };
+  comments?: Array<{
+    _id: string;
+    author: { _id: string; name: string; role?: string } | null;
+    text: string;
+    createdAt: string;
+  }>;
+  version: number;
+}
+
+export interface StudentSubmissionRow {
+  student: { _id: string; name: string; email: string };
+  group: { _id: string; name: string };
+  submission: TrainerSubmission | null;
+  submissionCount: number;
+}
+
+export interface AssignmentSubmissionsData {
+  assignment: TrainerAssignment;
+  groups: Array<{ _id: string; name: string }>;
+  students: StudentSubmissionRow[];
+  summary: {
+    totalStudents: number;
+    submitted: number;
+    graded: number;
+    pendingGrading: number;
+    resubmitRequired: number;
+    late: number;
+  };
+}
+
+export interface SubmissionDetails {
+  submission: TrainerSubmission;
+  history: Array<Pick<TrainerSubmission, '_id' | 'version' | 'submittedAt' | 'isLate' | 'status' | 'files'> & {
+    grade?: { score: number | null };
+  }>;
+}
+
+export interface CourseModule {
+  _id: string;
+  title: string;
+  order: number;
+  type: string;
+  assignment: string | null;
+}
+
+/**
+ * Create / edit form data
+ */
+export interface AssignmentFormData {
+  courseId?: string;
+  moduleId?: string;
+  title: string;
+  description: string;
+  instructions?: string;
+  dueDate: string;
+  maxScore?: number;
+  allowedFileTypes?: string[];
+  maxFileSize?: number;
+  maxFiles?: number;
+  allowLateSubmission?: boolean;
+  lateSubmissionDeadline?: string | null;
+  latePenalty?: number;
+  rubric?: RubricCriterion[];
+}
+
+export interface GradeData {
+  rubricScores?: Array<{ criteriaId: string; pointsEarned: number }>;
+  score?: number;
+  feedback?: string;
+}
+
+/**
+ * Hook return type
+ */
+interface UseTrainerAssignmentsReturn {
+  assignments: TrainerAssignment[];
+  isLoading: boolean;
+  error: string | null;
+  refetch: (courseId?: string) => Promise<void>;
+  getAssignmentById: (assignmentId: string) => Promise<TrainerAssignment | null>;
+  getCourseModules: (courseId: string) => Promise<CourseModule[]>;
+  createAssignment: (data: AssignmentFormData) => Promise<TrainerAssignment | null>;
+  updateAssignment: (assignmentId: string, data: Partial<AssignmentFormData>) => Promise<TrainerAssignment | null>;
+  deleteAssignment: (assignmentId: string) => Promise<boolean>;
+  getSubmissions: (assignmentId: string, groupId?: string) => Promise<AssignmentSubmissionsData | null>;
+  getSubmissionById: (submissionId: string) => Promise<SubmissionDetails | null>;
+  gradeSubmission: (submissionId: string, data: GradeData) => Promise<TrainerSubmission | null>;
+  requestResubmission: (submissionId: string, feedback?: string, deadline?: string) => Promise<TrainerSubmission | null>;
+}
+
+/**
+ * Custom hook for managing assignments and grading submissions
+ * Call refetch() to load the assignment list.
+ * @returns Hook utilities and data
+ */
+export const useTrainerAssignments = (): UseTrainerAssignmentsReturn => {
+  const [assignments, setAssignments] = useState<TrainerAssignment[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch assignments, optionally for one course
+   */
+  const fetchAssignments = useCallback(async (courseId?: string) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await api.get('/trainer/assignments', { params: { courseId } });
+      setAssignments(response.data.data || []);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to fetch assignments'));
+      console.error('Error fetching assignments:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Get a single assignment
+   */
+  const getAssignmentById = useCallback(async (assignmentId: string): Promise<TrainerAssignment | null> => {
+    try {
+      const response = await api.get(`/trainer/assignments/${assignmentId}`);
+      return response.data.data;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to fetch assignment'));
+      console.error('Error fetching assignment:', err);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Get the modules of a course
+   */
+  const getCourseModules = useCallback(async (courseId: string): Promise<CourseModule[]> => {
+    try {
+      const response = await api.get(`/trainer/assignments/course/${courseId}/modules`);
+      return response.data.data || [];
+    } catch (err) {
+      console.error('Error fetching course modules:', err);
+      return [];
+    }
+  }, []);
+
+  /**
+   * Create a new assignment
+   */
+  const createAssignment = useCallback(async (data: AssignmentFormData): Promise<TrainerAssignment | null> => {
+    try {
+      const response = await api.post('/trainer/assignments', data);
+      const newAssignment = response.data.data;
+      setAssignments(prev => [newAssignment, ...prev]);
+      return newAssignment;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to create assignment'));
+      console.error('Error creating assignment:', err);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Update an assignment
+   */
+  const updateAssignment = useCallback(async (
+    assignmentId: string,
+    data: Partial<AssignmentFormData>
+  ): Promise<TrainerAssignment | null> => {
+    try {
+      const response = await api.put(`/trainer/assignments/${assignmentId}`, data);
+      const updated = response.data.data;
+      setAssignments(prev => prev.map(a => (a._id === assignmentId ? { ...a, ...updated } : a)));
+      return updated;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to update assignment'));
+      console.error('Error updating assignment:', err);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Delete an assignment
+   */
+  const deleteAssignment = useCallback(async (assignmentId: string): Promise<boolean> => {
+    try {
+      await api.delete(`/trainer/assignments/${assignmentId}`);
+      setAssignments(prev => prev.filter(a => a._id !== assignmentId));
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to delete assignment'));
+      console.error('Error deleting assignment:', err);
+      return false;
+    }
+  }, []);
+
+  /**
+   * Get the latest submission of every student, optionally for one group
+   */
+  const getSubmissions = useCallback(async (
+    assignmentId: string,
+    groupId?: string
+  ): Promise<AssignmentSubmissionsData | null> => {
+    try {
+      setError(null);
+      const response = await api.get(`/trainer/assignments/${assignmentId}/submissions`, {
+        params: { groupId },
+      });
+      return response.data.data;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to fetch submissions'));
+      console.error('Error fetching submissions:', err);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Get a submission with its earlier versions
+   */
+  const getSubmissionById = useCallback(async (submissionId: string): Promise<SubmissionDetails | null> => {
+    try {
+      const response = await api.get(`/trainer/assignments/submissions/${submissionId}`);
+      return response.data.data;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to fetch submission'));
+      console.error('Error fetching submission:', err);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Grade a submission; the server applies the late penalty
+   */
+  const gradeSubmission = useCallback(async (
+    submissionId: string,
+    data: GradeData
+  ): Promise<TrainerSubmission | null> => {
+    try {
+      const response = await api.put(`/trainer/assignments/submissions/${submissionId}/grade`, data);
+      return response.data.data;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to grade submission'));
+      console.error('Error grading submission:', err);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Ask the student for a new version
+   */
+  const requestResubmission = useCallback(async (
+    submissionId: string,
+    feedback?: string,
+    deadline?: string
+  ): Promise<TrainerSubmission | null> => {
+    try {
+      const response = await api.post(`/trainer/assignments/submissions/${submissionId}/resubmit`, {
+        feedback,
+        deadline,
+      });
+      return response.data.data;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to request resubmission'));
+      console.error('Error requesting resubmission:', err);
+      return null;
+    }
+  }, []);
+
+  return {
+    assignments,
+    isLoading,
+    error,
+    refetch: fetchAssignments,
+    getAssignmentById,
+    getCourseModules,
+    createAssignment,
+    updateAssignment,
+    deleteAssignment,
+    getSubmissions,
+    getSubmissionById,
+    gradeSubmission,
+    requestResubmission,
+  };
+};
@@ -9,6 +9,11 @@ export interface TrainerDashboardStats {
   totalStudents: number;
   upcomingSessions: number;
   averageRating: number;
+  resources?: {
+    total: number;
+    views: number;
+    downloads: number;
+  };
   todaysSessionsList?: TodaySession[];
 }
 
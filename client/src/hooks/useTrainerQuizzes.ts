@@ -1,17 +1,150 @@
 import { useState, useCallback } from 'react';
-import { api } from '../lib/api';
+import { api, getApiErrorMessage } from '../lib/api';
+
+export type QuestionDifficulty = 'easy' | 'medium' | 'hard';
+
+export const DIFFICULTY_LABELS: Record<QuestionDifficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+export type QuestionType =
+  | 'single'
+  | 'multiple'
+  | 'true_false'
+  | 'numeric'
+  | 'short_text'
+  | 'ordering'
+  | 'matching'
+  | 'code_output'
+  | 'essay';
+
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  single: 'Single Choice',
+  multiple: 'Multiple Choice',
+  true_false: 'True / False',
+  numeric: 'Numeric',
+  short_text: 'Short Text',
+  ordering: 'Ordering',
+  matching: 'Matching',
+  code_output: 'Code Output',
+  essay: 'Essay (graded by hand)',
+};
 
 export interface QuizQuestion {
   question: string;
-  type: 'single' | 'multiple';
+  type: QuestionType;
+  /** Choices; for ordering, the items in their correct order */
   options: {
     text: string;
     isCorrect: boolean;
   }[];
+  /** Matching: each left item with the right item it belongs to */
+  pairs?: {
+    left: string;
+    right: string;
+  }[];
+  numericAnswer?: number | null;
+  tolerance?: number;
+  /** Short text and code output: every answer that counts as correct */
+  acceptedAnswers?: string[];
+  caseSensitive?: boolean;
+  /** Code output: the snippet whose output students give */
+  code?: string;
+  language?: string;
   points: number;
   explanation?: string;
 }
 
+/**
+ * A blank question of the given type, keeping the shared fields of `base`
+ */
+export const createQuestion = (type: QuestionType, base?: QuizQuestion): QuizQuestion => {
+  const question: QuizQuestion = {
+    question: base?.question || '',
+    type,
+    options: [],
+    points: base?.points || 1,
+    explanation: base?.explanation || '',
+  };
+
+  switch (type) {
+    case 'single':
+    case 'multiple':
+      // Choices carry over between single and multiple choice
+      question.options = base && (base.type === 'single' || base.type === 'multiple')
+        ? base.options
+        : [{ text: '', isCorrect: false }, { text: '', isCorrect: false }];
+      break;
+    case 'true_false':
+      question.options = [{ text: 'True', isCorrect: true }, { text: 'False', isCorrect: false }];
+      break;
+    case 'ordering':
+      question.options = [{ text: '', isCorrect: false }, { text: '', isCorrect: false }];
+      break;
+    case 'matching':
+      question.pairs = [{ left: '', right: '' }, { left: '', right: '' }];
+      break;
+    case 'numeric':
+      question.numericAnswer = null;
+      question.tolerance = 0;
+      break;
+    case 'short_text':
+      question.acceptedAnswers = [''];
+      question.caseSensitive = false;
+      break;
+    case 'code_output':
+      question.code = '';
+      question.language = '';
+      question.acceptedAnswers = [''];
+      break;
+    default:
+      break;
+  }
+  return question;
+};
+
+/**
+ * Essay answers of a submitted attempt waiting for a trainer
+ */
+export interface QuizReviewItem {
+  _id: string;
+  student: { _id: string; name: string; email: string } | null;
+  course: { _id: string; title: string } | null;
+  quiz: { _id: string; title: string; passingScore: number };
+  attemptNumber: number;
+  submittedAt: string;
+  score: number;
+  earnedPoints: number;
+  totalPoints: number;
+  answers: {
+    questionId: string;
+    question: string;
+    textAnswer?: string;
+    /** Most the answer can earn */
+    points: number;
+    explanation?: string;
+  }[];
+}
+
+/**
+ * Draws `count` random questions from the course's question bank for each
+ * attempt; no difficulty or tags means any bank question
+ */
+export interface QuizQuestionRule {
+  count: number;
+  difficulty: QuestionDifficulty | null;
+  /** The drawn questions carry every one of these tags */
+  tags: string[];
+}
+
+export interface QuizReviewGrade {
+  questionId: string;
+  pointsEarned: number;
+  feedback?: string;
+}
+
 export interface Quiz {
   _id: string;
   course: {
@@ -34,6 +167,7 @@ export interface Quiz {
   shuffleOptions: boolean;
   showFeedback: boolean;
   questions: QuizQuestion[];
+  questionRules?: QuizQuestionRule[];
   status: string;
   createdAt: string;
   updatedAt: string;
@@ -52,6 +186,7 @@ export interface CreateQuizData {
   shuffleOptions?: boolean;
   showFeedback?: boolean;
   questions: QuizQuestion[];
+  questionRules?: QuizQuestionRule[];
 }
 
 export const useTrainerQuizzes = () => {
@@ -189,6 +324,33 @@ export const useTrainerQuizzes = () => {
     }
   }, []);
 
+  /**
+   * Fetch essay answers waiting for review
+   */
+  const fetchReviewQueue = useCallback(async (): Promise<QuizReviewItem[]> => {
+    try {
+      const response = await api.get('/trainer/quizzes/reviews');
+      return response.data.data || [];
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to fetch review queue'));
+      console.error('Error fetching review queue:', err);
+      return [];
+    }
+  }, []);
+
+  /**
+   * Grade the essay answers of an attempt
+   */
+  const reviewAttempt = useCallback(async (attemptId: string, grades: QuizReviewGrade[]) => {
+    try {
+      await api.post(`/trainer/quizzes/reviews/${attemptId}`, { grades });
+      return { success: true };
+    } catch (err) {
+      console.error('Error reviewing attempt:', err);
+      return { success: false, error: getApiErrorMessage(err, 'Failed to save review') };
+    }
+  }, []);
+
   return {
     quizzes,
     isLoading,
@@ -200,5 +362,7 @@ export const useTrainerQuizzes = () => {
     updateQuiz,
     deleteQuiz,
     duplicateQuiz,
+    fetchReviewQueue,
+    reviewAttempt,
   };
 };
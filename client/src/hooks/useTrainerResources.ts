@@ -0,0 +1,395 @@
+/**
+ * useTrainerResources Hook
+ *
+ * Custom hook for the trainer's resource library.
+ * Provides functionality to upload, share, version and archive resources
+ * and to read their view/download statistics.
+ *
+ * @hook useTrainerResources
+ * @version 1.0.0
+ */
+
+import { useState, useCallback } from 'react';
+import { api, getApiErrorMessage, getBlobErrorMessage } from '../lib/api';
+import { saveBlob } from '../lib/utils';
+
+export type ResourceCategory =
+  | 'lecture'
+  | 'assignment'
+  | 'reference'
+  | 'tutorial'
+  | 'solution'
+  | 'template'
+  | 'other';
+
+export type ResourceFileType =
+  | 'pdf'
+  | 'doc'
+  | 'docx'
+  | 'ppt'
+  | 'pptx'
+  | 'xls'
+  | 'xlsx'
+  | 'txt'
+  | 'video'
+  | 'audio'
+  | 'image'
+  | 'code'
+  | 'zip'
+  | 'other';
+
+export const RESOURCE_CATEGORIES: ResourceCategory[] = [
+  'lecture',
+  'assignment',
+  'reference',
+  'tutorial',
+  'solution',
+  'template',
+  'other',
+];
+
+export interface ResourceStats {
+  downloads: number;
+  views: number;
+  shares: number;
+  lastAccessed: string | null;
+}
+
+/**
+ * Resource interface matching backend model
+ */
+export interface TrainerResource {
+  _id: string;
+  title: string;
+  description?: string;
+  originalName: string;
+  fileType: ResourceFileType;
+  mimeType: string;
+  fileSize: number;
+  fileSizeFormatted: string;
+  category: ResourceCategory;
+  tags: string[];
+  courseId: { _id: string; title: string } | null;
+  sessionId: { _id: string; title: string; scheduledDate: string } | null;
+  sharedWith: Array<{
+    groupId: { _id: string; name: string } | null;
+    sharedAt: string;
+    notifyStudents: boolean;
+  }>;
+  isDownloadable: boolean;
+  requiresPassword: boolean;
+  status: 'active' | 'archived' | 'deleted';
+  stats: ResourceStats;
+  accessLog?: Array<{
+    userId: { _id: string; name: string; email: string } | null;
+    action: 'view' | 'download' | 'share';
+    timestamp: string;
+  }>;
+  version: number;
+  expiresAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface ResourceLibraryStats {
+  totalResources: number;
+  totalDownloads: number;
+  totalViews: number;
+  totalShares: number;
+  totalSize: number;
+  byCategory: Record<string, number>;
+  byFileType: Record<string, number>;
+  mostDownloaded: Array<Pick<TrainerResource, '_id' | 'title' | 'fileType' | 'stats'>>;
+  recentlyAccessed: Array<Pick<TrainerResource, '_id' | 'title' | 'fileType' | 'stats'>>;
+}
+
+/**
+ * Resource filters
+ */
+export interface ResourceFilters {
+  category?: ResourceCategory;
+  courseId?: string;
+  groupId?: string;
+  tag?: string;
+  status?: 'active' | 'archived';
+  search?: string;
+}
+
+/**
+ * Upload / edit form data
+ */
+export interface ResourceFormData {
+  title: string;
+  description?: string;
+  category?: ResourceCategory;
+  tags?: string[];
+  groupIds?: string[];
+  sessionId?: string;
+  isDownloadable?: boolean;
+  requiresPassword?: boolean;
+  password?: string;
+  expiresAt?: string;
+}
+
+/**
+ * Hook return type
+ */
+interface UseTrainerResourcesReturn {
+  resources: TrainerResource[];
+  stats: ResourceLibraryStats | null;
+  isLoading: boolean;
+  error: string | null;
+  refetch: (filters?: ResourceFilters) => Promise<void>;
+  getResourceById: (resourceId: string) => Promise<TrainerResource | null>;
+  uploadResource: (file: File, data: ResourceFormData) => Promise<TrainerResource | null>;
+  updateResource: (resourceId: string, data: Partial<ResourceFormData>) => Promise<TrainerResource | null>;
+  replaceFile: (resourceId: string, file: File) => Promise<TrainerResource | null>;
+  shareResource: (resourceId: string, groupIds: string[]) => Promise<boolean>;
+  unshareResource: (resourceId: string, groupId: string) => Promise<boolean>;
+  archiveResource: (resourceId: string) => Promise<boolean>;
+  restoreResource: (resourceId: string) => Promise<boolean>;
+  deleteResource: (resourceId: string) => Promise<boolean>;
+  downloadResource: (resource: TrainerResource) => Promise<void>;
+}
+
+/**
+ * Custom hook for managing the trainer's resource library
+ * Call refetch() with the desired filters to load resources.
+ * @returns Hook utilities and data
+ */
+export const useTrainerResources = (): UseTrainerResourcesReturn => {
+  const [resources, setResources] = useState<TrainerResource[]>([]);
+  const [stats, setStats] = useState<ResourceLibraryStats | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch resources and library statistics
+   */
+  const fetchResources = useCallback(async (filters?: ResourceFilters) => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [resourcesRes, statsRes] = await Promise.all([
+        api.get('/trainer/resources', { params: filters }),
+        api.get('/trainer/resources/stats'),
+      ]);
+
+      setResources(resourcesRes.data.data || []);
+      setStats(statsRes.data.data || null);
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to fetch resources'));
+      console.error('Error fetching resources:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  /**
+   * Replace a resource in local state
+   */
+  const replaceLocal = (updated: TrainerResource) => {
+    setResources(prev => prev.map(r => (r._id === updated._id ? updated : r)));
+  };
+
+  /**
+   * Get a single resource with its access log
+   */
+  const getResourceById = useCallback(async (resourceId: string): Promise<TrainerResource | null> => {
+    try {
+      const response = await api.get(`/trainer/resources/${resourceId}`);
+      return response.data.data;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to fetch resource'));
+      console.error('Error fetching resource:', err);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Upload a new resource
+   */
+  const uploadResource = useCallback(async (
+    file: File,
+    data: ResourceFormData
+  ): Promise<TrainerResource | null> => {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      formData.append('title', data.title);
+      if (data.description) formData.append('description', data.description);
+      if (data.category) formData.append('category', data.category);
+      if (data.tags?.length) formData.append('tags', JSON.stringify(data.tags));
+      if (data.groupIds?.length) formData.append('groupIds', JSON.stringify(data.groupIds));
+      if (data.sessionId) formData.append('sessionId', data.sessionId);
+      if (data.isDownloadable !== undefined) formData.append('isDownloadable', String(data.isDownloadable));
+      if (data.requiresPassword) {
+        formData.append('requiresPassword', 'true');
+        formData.append('password', data.password || '');
+      }
+      if (data.expiresAt) formData.append('expiresAt', data.expiresAt);
+
+      const response = await api.post('/trainer/resources', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      const newResource = response.data.data;
+
+      setResources(prev => [newResource, ...prev]);
+
+      return newResource;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to upload resource'));
+      console.error('Error uploading resource:', err);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Update resource details
+   */
+  const updateResource = useCallback(async (
+    resourceId: string,
+    data: Partial<ResourceFormData>
+  ): Promise<TrainerResource | null> => {
+    try {
+      const response = await api.put(`/trainer/resources/${resourceId}`, data);
+      const updated = response.data.data;
+      replaceLocal(updated);
+      return updated;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to update resource'));
+      console.error('Error updating resource:', err);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Upload a new version of a resource file
+   */
+  const replaceFile = useCallback(async (resourceId: string, file: File): Promise<TrainerResource | null> => {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+
+      const response = await api.put(`/trainer/resources/${resourceId}/file`, formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+      const updated = response.data.data;
+      replaceLocal(updated);
+      return updated;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to replace file'));
+      console.error('Error replacing resource file:', err);
+      return null;
+    }
+  }, []);
+
+  /**
+   * Share a resource with groups
+   */
+  const shareResource = useCallback(async (resourceId: string, groupIds: string[]): Promise<boolean> => {
+    try {
+      const response = await api.post(`/trainer/resources/${resourceId}/share`, { groupIds });
+      replaceLocal(response.data.data);
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to share resource'));
+      console.error('Error sharing resource:', err);
+      return false;
+    }
+  }, []);
+
+  /**
+   * Stop sharing a resource with a group
+   */
+  const unshareResource = useCallback(async (resourceId: string, groupId: string): Promise<boolean> => {
+    try {
+      const response = await api.delete(`/trainer/resources/${resourceId}/share/${groupId}`);
+      replaceLocal(response.data.data);
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to unshare resource'));
+      console.error('Error unsharing resource:', err);
+      return false;
+    }
+  }, []);
+
+  /**
+   * Archive a resource (hidden from students, kept for the trainer)
+   */
+  const archiveResource = useCallback(async (resourceId: string): Promise<boolean> => {
+    try {
+      await api.patch(`/trainer/resources/${resourceId}/archive`);
+      setResources(prev => prev.filter(r => r._id !== resourceId));
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to archive resource'));
+      console.error('Error archiving resource:', err);
+      return false;
+    }
+  }, []);
+
+  /**
+   * Restore an archived resource
+   */
+  const restoreResource = useCallback(async (resourceId: string): Promise<boolean> => {
+    try {
+      await api.patch(`/trainer/resources/${resourceId}/restore`);
+      setResources(prev => prev.filter(r => r._id !== resourceId));
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to restore resource'));
+      console.error('Error restoring resource:', err);
+      return false;
+    }
+  }, []);
+
+  /**
+   * Delete a resource
+   */
+  const deleteResource = useCallback(async (resourceId: string): Promise<boolean> => {
+    try {
+      await api.delete(`/trainer/resources/${resourceId}`);
+      setResources(prev => prev.filter(r => r._id !== resourceId));
+      return true;
+    } catch (err) {
+      setError(getApiErrorMessage(err, 'Failed to delete resource'));
+      console.error('Error deleting resource:', err);
+      return false;
+    }
+  }, []);
+
+  /**
+   * Download the resource file (not counted in usage stats)
+   */
+  const downloadResource = useCallback(async (resource: TrainerResource) => {
+    try {
+      const response = await api.get(`/trainer/resources/${resource._id}/download`, {
+        responseType: 'blob',
+      });
+      saveBlob(response.data, resource.originalName);
+    } catch (err) {
+      setError(await getBlobErrorMessage(err, 'Failed to download resource'));
+      console.error('Error downloading resource:', err);
+    }
+  }, []);
+
+  return {
+    resources,
+    stats,
+    isLoading,
+    error,
+    refetch: fetchResources,
+    getResourceById,
+    uploadResource,
+    updateResource,
+    replaceFile,
+    shareResource,
+    unshareResource,
+    archiveResource,
+    restoreResource,
+    deleteResource,
+    downloadResource,
+  };
+};
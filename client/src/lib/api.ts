@@ -134,5 +134,35 @@ export const apiDelete = <T = any>(
   config?: ApiRequestConfig
 ): Promise<AxiosResponse<T>> => api.delete<T>(url, config);
 
+/**
+ * Extract a user-facing message from an API error
+ * Handles both `{ message }` and `{ error: { message } }` response bodies
+ * @param err - The caught error
+ * @param fallback - Message used when the response has none
+ */
+export const getApiErrorMessage = (err: unknown, fallback: string): string => {
+  const data = axios.isAxiosError(err) ? err.response?.data : undefined;
+  return data?.error?.message || data?.message || fallback;
+};
+
+/**
+ * Extract a user-facing message from a failed `responseType: 'blob'` request,
+ * whose JSON error body arrives as a Blob
+ * @param err - The caught error
+ * @param fallback - Message used when the response has none
+ */
+export const getBlobErrorMessage = async (err: unknown, fallback: string): Promise<string> => {
+  const data = axios.isAxiosError(err) ? err.response?.data : undefined;
+  if (data instanceof Blob) {
+    try {
+      const body = JSON.parse(await data.text());
+      return body?.error?.message || body?.message || fallback;
+    } catch {
+      return fallback;
+    }
+  }
+  return getApiErrorMessage(err, fallback);
+};
+
 // Export axios instance type for type safety
 export type { AxiosInstance, AxiosResponse, AxiosError };
@@ -0,0 +1,38 @@
+import { socket } from './socket';
+import { REALTIME_EVENT_VERSION } from '../shared/constants/realtime.constants';
+import type { RealtimeEvent, RealtimeEventName } from '../shared/types/realtime.types';
+
+// Events already reported as sent with another catalog version
+const versionWarned = new Set<string>();
+
+/**
+ * Listen for a server event with its typed payload
+ * Connects the socket if needed.
+ * @param event - Event name from the realtime catalog
+ * @param handler - Called with each payload
+ * @returns Unsubscribe function
+ */
+export function subscribe<E extends RealtimeEventName>(
+  event: E,
+  handler: (payload: RealtimeEvent<E>) => void
+): () => void {
+  if (!socket.connected) {
+    socket.connect();
+  }
+
+  const listener = (payload: RealtimeEvent<E>) => {
+    // Usually a tab left open across a deploy; the payload may have changed shape
+    if (payload?.v !== REALTIME_EVENT_VERSION && !versionWarned.has(event)) {
+      versionWarned.add(event);
+      console.warn(`[Realtime] ${event} sent with catalog v${payload?.v}, expected v${REALTIME_EVENT_VERSION}; reload to update`);
+    }
+    handler(payload);
+  };
+
+  // The catalog names are plain strings to the untyped socket
+  const name: string = event;
+  socket.on(name, listener);
+  return () => {
+    socket.off(name, listener);
+  };
+}
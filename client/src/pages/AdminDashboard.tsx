@@ -1,7 +1,7 @@
 import { useEffect, useState } from "react";
 import { Routes, Route } from "react-router-dom";
 import { api } from "../lib/api";
-import { socket } from "../lib/socket";
+import { subscribe } from "../lib/realtime";
 import Posts from "./Posts";
 import Projects from "./Projects";
 import Teams from "./Teams";
@@ -9,6 +9,7 @@ import Competitions from "./Competitions";
 import AdjustStockModal from "../components/stock/AdjustStockModal";
 import { PartFormModal } from "../components/parts/PartFormModal";
 import AdminHeader from "../components/AdminHeader";
+import { isLowStock, DEFAULT_LOW_STOCK_THRESHOLD } from "../hooks";
 
 type Order = {
   _id: string;
@@ -26,6 +27,7 @@ type Part = {
   sku?: string;
   availableQty: number;
   reservedQty: number;
+  reorderPoint?: number;
 };
 
 function Dashboard() {
@@ -59,9 +61,7 @@ function Dashboard() {
           totalOrders: orders.length,
           pendingOrders: orders.filter((o: Order) => o.status === "pending")
             .length,
-          lowStockParts: parts.filter(
-            (p: Part) => (p.availableQty || 0) <= 5
-          ).length,
+          lowStockParts: parts.filter((p: Part) => isLowStock(p)).length,
           totalParts: parts.length,
         });
 
@@ -99,12 +99,12 @@ function Dashboard() {
         // Low stock list
         setLowStock(
           parts
-            .filter((p: Part) => (p.availableQty || 0) <= 5)
+            .filter((p: Part) => isLowStock(p))
             .slice(0, 5)
             .map((p: Part) => ({
               name: p.name,
               availableQty: p.availableQty,
-              reorderPoint: 5,
+              reorderPoint: p.reorderPoint || DEFAULT_LOW_STOCK_THRESHOLD,
             }))
         );
       } catch (error) {
@@ -114,27 +114,15 @@ function Dashboard() {
 
     loadStats();
 
-    const onStockLow = (p: {
-      partName?: string;
-      partId: string;
-      availableQty: number;
-      reorderPoint?: number;
-    }) => {
+    // Admins receive stock:low through their role room
+    return subscribe("stock:low", (p) => {
       setAlerts((prev) =>
         [
           `Low stock: ${p.partName || p.partId} (${p.availableQty} available)`,
           ...prev,
         ].slice(0, 5)
       );
-    };
-
-    socket.emit("admin:join");
-    socket.on("stock:low", onStockLow);
-
-    return () => {
-      socket.emit("admin:leave");
-      socket.off("stock:low", onStockLow);
-    };
+    });
   }, []);
 
   const statCards = [
@@ -369,15 +357,12 @@ function OrdersManagement() {
   useEffect(() => {
     loadOrders();
 
-    const onNew = () => loadOrders();
-    const onUpdate = () => loadOrders();
-
-    socket.on("order:new", onNew);
-    socket.on("order:update", onUpdate);
+    const unsubscribeCreated = subscribe("order:created", () => loadOrders());
+    const unsubscribeUpdated = subscribe("order:updated", () => loadOrders());
 
     return () => {
-      socket.off("order:new", onNew);
-      socket.off("order:update", onUpdate);
+      unsubscribeCreated();
+      unsubscribeUpdated();
     };
   }, []);
 
@@ -639,7 +624,7 @@ function PartsManagement() {
 
               {/* Reorder point and price removed */}
 
-              {(part.availableQty || 0) <= 5 && (
+              {isLowStock(part) && (
                 <div className="bg-red-900/20 border border-red-900/30 text-red-400 px-3 py-2 rounded-lg text-sm mb-4">
                   <span className="font-medium">Low Stock Alert!</span>
                 </div>
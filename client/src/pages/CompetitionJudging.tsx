@@ -0,0 +1,290 @@
+import { useState, useEffect, useMemo } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { ArrowLeft, AlertCircle, RefreshCw, CheckCircle, Circle, Save, Gavel } from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useCompetitionJudging } from '../hooks';
+import { LoadingState, Alert, Button, CardComponent, Badge, useToast } from '../components/ui';
+import { ROUTES } from '../shared/constants/routes.constants';
+
+/**
+ * Judging sheet for a competition: the judge picks a team, scores every
+ * rubric criterion and sees the weighted score before saving.
+ */
+export default function CompetitionJudging() {
+  const { competitionId } = useParams<{ competitionId: string }>();
+  const navigate = useNavigate();
+  const toast = useToast();
+  const { sheet, isLoading, error, refetch, submitEvaluation } = useCompetitionJudging(competitionId);
+
+  const [selectedTeamId, setSelectedTeamId] = useState<string | null>(null);
+  const [points, setPoints] = useState<Record<string, string>>({});
+  const [comments, setComments] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const criteria = useMemo(() => sheet?.rubric.criteria ?? [], [sheet]);
+
+  const evaluationFor = (teamId: string) => sheet?.evaluations.find((evaluation) => evaluation.teamId === teamId);
+
+  // Select the first team once the sheet loads
+  useEffect(() => {
+    if (sheet && !selectedTeamId && sheet.teams.length > 0) {
+      setSelectedTeamId(sheet.teams[0]._id);
+    }
+  }, [sheet, selectedTeamId]);
+
+  // Load the judge's earlier scores for the selected team
+  useEffect(() => {
+    if (!sheet || !selectedTeamId) return;
+    const existing = sheet.evaluations.find((evaluation) => evaluation.teamId === selectedTeamId);
+    setPoints(
+      Object.fromEntries(
+        criteria.map((criterion) => {
+          const score = existing?.criterionScores?.find((cs) => cs.criterionId === criterion._id);
+          return [criterion._id as string, score ? String(score.points) : ''];
+        })
+      )
+    );
+    setComments(existing?.comments || '');
+    // Only reset when switching teams, not after every save
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedTeamId, criteria]);
+
+  const preview = useMemo(() => {
+    let weighted = 0;
+    let total = 0;
+    let complete = true;
+
+    for (const criterion of criteria) {
+      const value = points[criterion._id as string];
+      const parsed = value === '' || value === undefined ? NaN : Number(value);
+      if (Number.isNaN(parsed) || parsed < 0 || parsed > criterion.maxPoints) {
+        complete = false;
+        continue;
+      }
+      total += parsed;
+      weighted += (parsed / criterion.maxPoints) * criterion.weight;
+    }
+
+    const allWeight = criteria.reduce((sum, criterion) => sum + criterion.weight, 0);
+    return {
+      complete,
+      total,
+      weightedScore: allWeight > 0 ? (weighted / allWeight) * 100 : 0,
+    };
+  }, [criteria, points]);
+
+  const handleSave = async () => {
+    if (!selectedTeamId || !preview.complete) return;
+
+    try {
+      setIsSaving(true);
+      await submitEvaluation(
+        selectedTeamId,
+        criteria.map((criterion) => ({
+          criterionId: criterion._id as string,
+          points: Number(points[criterion._id as string]),
+        })),
+        comments.trim()
+      );
+      toast.success('Scores saved');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to save scores');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  if (isLoading && !sheet) return <LoadingState type="skeleton" text="Loading judging sheet..." />;
+
+  if (error) {
+    return (
+      <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+        <Alert variant="error">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5" />
+            <div className="flex-1">
+              <p className="font-semibold">Failed to load judging sheet</p>
+              <p className="text-sm">{error}</p>
+            </div>
+            <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
+              Retry
+            </Button>
+          </div>
+        </Alert>
+      </motion.div>
+    );
+  }
+
+  if (!sheet) return null;
+
+  const isJudgingOpen = sheet.competition.status === 'judging';
+  const selectedTeam = sheet.teams.find((team) => team._id === selectedTeamId);
+  const scoredCount = sheet.teams.filter((team) => evaluationFor(team._id)).length;
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Button
+            variant="ghost"
+            size="sm"
+            leftIcon={<ArrowLeft className="w-4 h-4" />}
+            onClick={() => navigate(ROUTES.COMPETITIONS)}
+            className="mb-2"
+          >
+            Competitions
+          </Button>
+          <h1 className="text-3xl font-bold text-primary">{sheet.competition.title}</h1>
+          <p className="text-gray-400 mt-1">
+            Judging sheet · {scoredCount} of {sheet.teams.length} teams scored
+          </p>
+        </div>
+      </div>
+
+      {!isJudgingOpen && (
+        <Alert variant="warning">
+          Judging is not open for this competition. You can review your scores but not change them.
+        </Alert>
+      )}
+
+      {criteria.length === 0 ? (
+        <CardComponent variant="glass" className="p-12 text-center">
+          <Gavel className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-300 mb-2">No rubric yet</h3>
+          <p className="text-gray-400">The organizers haven't defined the judging criteria for this competition.</p>
+        </CardComponent>
+      ) : sheet.teams.length === 0 ? (
+        <CardComponent variant="glass" className="p-12 text-center">
+          <Gavel className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+          <h3 className="text-xl font-semibold text-gray-300 mb-2">No teams to judge</h3>
+          <p className="text-gray-400">No team has registered for this competition yet.</p>
+        </CardComponent>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+          <CardComponent variant="glass" className="p-4">
+            <h2 className="text-sm font-semibold text-white/60 uppercase tracking-wide mb-3 px-2">Teams</h2>
+            <ul className="space-y-1">
+              {sheet.teams.map((team) => {
+                const evaluation = evaluationFor(team._id);
+                const isSelected = team._id === selectedTeamId;
+
+                return (
+                  <li key={team._id}>
+                    <button
+                      type="button"
+                      onClick={() => setSelectedTeamId(team._id)}
+                      className={`w-full flex items-center gap-3 px-3 py-2 rounded-lg text-left transition-colors ${
+                        isSelected ? 'bg-primary/20 border border-primary/40' : 'hover:bg-white/5 border border-transparent'
+                      }`}
+                    >
+                      {evaluation ? (
+                        <CheckCircle className="w-4 h-4 text-green-400 flex-shrink-0" />
+                      ) : (
+                        <Circle className="w-4 h-4 text-white/30 flex-shrink-0" />
+                      )}
+                      <span className="flex-1 text-white truncate">{team.name}</span>
+                      {evaluation?.weightedScore !== undefined && (
+                        <span className="text-xs text-white/60">{evaluation.weightedScore.toFixed(1)}</span>
+                      )}
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          </CardComponent>
+
+          {selectedTeam && (
+            <CardComponent variant="glass" className="p-6 lg:col-span-2 space-y-5">
+              <div className="flex items-start justify-between">
+                <div>
+                  <h2 className="text-xl font-semibold text-white">{selectedTeam.name}</h2>
+                  {selectedTeam.members.length > 0 && (
+                    <p className="text-sm text-gray-400 mt-1">{selectedTeam.members.join(', ')}</p>
+                  )}
+                </div>
+                {evaluationFor(selectedTeam._id) ? (
+                  <Badge variant="success" size="sm">Scored</Badge>
+                ) : (
+                  <Badge variant="warning" size="sm">Not scored</Badge>
+                )}
+              </div>
+
+              <div className="space-y-4">
+                {criteria.map((criterion) => {
+                  const id = criterion._id as string;
+                  const value = points[id] ?? '';
+                  const parsed = Number(value);
+                  const invalid = value !== '' && (Number.isNaN(parsed) || parsed < 0 || parsed > criterion.maxPoints);
+
+                  return (
+                    <div key={id} className="bg-white/5 border border-white/10 rounded-lg p-4">
+                      <div className="flex items-start justify-between gap-4">
+                        <div className="flex-1">
+                          <p className="text-white font-medium">
+                            {criterion.name}
+                            <span className="text-xs text-white/50 ml-2">weight {criterion.weight}</span>
+                          </p>
+                          {criterion.description && (
+                            <p className="text-sm text-gray-400 mt-1">{criterion.description}</p>
+                          )}
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <input
+                            type="number"
+                            min={0}
+                            max={criterion.maxPoints}
+                            step={0.5}
+                            className={`input w-24 text-right ${invalid ? 'border-red-400' : ''}`}
+                            value={value}
+                            onChange={(e) => setPoints((prev) => ({ ...prev, [id]: e.target.value }))}
+                            aria-label={`${criterion.name} points`}
+                          />
+                          <span className="text-sm text-white/60 whitespace-nowrap">/ {criterion.maxPoints}</span>
+                        </div>
+                      </div>
+                      {invalid && (
+                        <p className="text-xs text-red-400 mt-2">Enter a value between 0 and {criterion.maxPoints}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+
+              <div>
+                <label className="block text-sm text-white/60 mb-2" htmlFor="judge-comments">Comments</label>
+                <textarea
+                  id="judge-comments"
+                  className="input w-full"
+                  rows={3}
+                  maxLength={1000}
+                  placeholder="Feedback for the team (optional)"
+                  value={comments}
+                  onChange={(e) => setComments(e.target.value)}
+                />
+              </div>
+
+              <div className="flex items-center justify-between pt-4 border-t border-white/10">
+                <div>
+                  <p className="text-xs text-white/60">Weighted score</p>
+                  <p className="text-2xl font-bold text-primary">
+                    {preview.weightedScore.toFixed(2)}
+                    <span className="text-sm text-white/50 font-normal ml-1">/ 100</span>
+                  </p>
+                  <p className="text-xs text-white/50">{preview.total} raw points</p>
+                </div>
+                <Button
+                  variant="primary"
+                  leftIcon={<Save className="w-4 h-4" />}
+                  onClick={handleSave}
+                  disabled={!isJudgingOpen || !preview.complete || isSaving}
+                >
+                  {isSaving ? 'Saving...' : evaluationFor(selectedTeam._id) ? 'Update Scores' : 'Save Scores'}
+                </Button>
+              </div>
+            </CardComponent>
+          )}
+        </div>
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useParams } from "react-router-dom";
+import { motion } from "framer-motion";
+import { Trophy, Medal, Calendar } from "lucide-react";
+import { SEO } from "../components/seo/SEO";
+import { LandingHeader } from "../components/layout/LandingHeader";
+import { Footer } from "../components/layout/Footer";
+import { LoadingState } from "../components/ui";
+import { useCompetitionResults } from "../hooks";
+
+const PODIUM_STYLES: Record<number, string> = {
+  1: "bg-yellow-400/15 border-yellow-400/60 text-yellow-600",
+  2: "bg-gray-300/20 border-gray-400/60 text-gray-500",
+  3: "bg-orange-400/15 border-orange-400/60 text-orange-600",
+};
+
+const formatDate = (dateString?: string) =>
+  dateString
+    ? new Date(dateString).toLocaleDateString("en-US", { month: "short", day: "numeric", year: "numeric" })
+    : "";
+
+/**
+ * Public results page of a competition, available once results are published
+ */
+export default function CompetitionResults() {
+  const { competitionId } = useParams<{ competitionId: string }>();
+  const { results, isLoading, error } = useCompetitionResults(competitionId);
+
+  return (
+    <div className="bg-background min-h-screen">
+      <SEO
+        title={results ? `${results.competition.title} Results` : "Competition Results"}
+        description={results ? `Final ranking of ${results.competition.title}.` : "Robotrick competition results."}
+      />
+
+      <LandingHeader />
+
+      <main className="pt-32 pb-24 px-6 sm:px-8 lg:px-12">
+        <div className="max-w-4xl mx-auto">
+          {isLoading ? (
+            <LoadingState type="spinner" text="Loading results..." />
+          ) : error || !results ? (
+            <div className="text-center py-20">
+              <Trophy className="w-16 h-16 text-gray-300 mx-auto mb-4" />
+              <h1 className="text-2xl font-black text-text-primary mb-2">Results not available</h1>
+              <p className="text-text-secondary">The results of this competition haven't been published yet.</p>
+            </div>
+          ) : (
+            <>
+              <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} className="text-center mb-12">
+                <div className="inline-flex items-center gap-2 px-4 py-2 rounded-full bg-white border border-border shadow-sm mb-6">
+                  <Trophy className="w-4 h-4 text-primary" />
+                  <span className="text-xs font-bold text-text-primary tracking-wider uppercase">Official Results</span>
+                </div>
+                <h1 className="text-4xl md:text-5xl font-black text-text-primary mb-4">{results.competition.title}</h1>
+                <p className="text-text-secondary flex items-center justify-center gap-2">
+                  <Calendar className="w-4 h-4" />
+                  {formatDate(results.competition.startDate)} - {formatDate(results.competition.endDate)}
+                </p>
+              </motion.div>
+
+              {results.rankings.length === 0 ? (
+                <p className="text-center text-text-secondary">No team was ranked in this competition.</p>
+              ) : (
+                <ol className="space-y-4">
+                  {results.rankings.map((team, index) => (
+                    <motion.li
+                      key={team.teamId}
+                      initial={{ opacity: 0, y: 10 }}
+                      animate={{ opacity: 1, y: 0 }}
+                      transition={{ delay: Math.min(index, 10) * 0.05 }}
+                      className={`flex items-start gap-4 p-5 rounded-2xl border bg-white ${
+                        PODIUM_STYLES[team.rank] ?? "border-border"
+                      }`}
+                    >
+                      <div className="w-12 flex-shrink-0 text-center">
+                        {team.rank <= 3 && <Medal className="w-8 h-8 mx-auto" />}
+                        <span className="block text-xl font-black text-text-primary">#{team.rank}</span>
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-baseline justify-between gap-4">
+                          <h2 className="text-lg font-bold text-text-primary truncate">{team.teamName}</h2>
+                          <span className="text-2xl font-black text-primary">{team.score.toFixed(2)}</span>
+                        </div>
+                        {team.members.length > 0 && (
+                          <p className="text-sm text-text-secondary mt-1">{team.members.join(", ")}</p>
+                        )}
+                        {team.criteria.length > 0 && (
+                          <div className="flex flex-wrap gap-2 mt-3">
+                            {team.criteria.map((criterion) => (
+                              <span
+                                key={criterion.criterionId}
+                                className="px-2 py-1 rounded-lg bg-primary/5 text-xs text-text-primary"
+                              >
+                                {criterion.name}: {criterion.percent}%
+                              </span>
+                            ))}
+                          </div>
+                        )}
+                        {team.tieBrokenBy && (
+                          <p className="text-xs text-text-secondary mt-2">Tie broken by {team.tieBrokenBy}</p>
+                        )}
+                      </div>
+                    </motion.li>
+                  ))}
+                </ol>
+              )}
+
+              <p className="text-center text-xs text-text-secondary mt-10">
+                Published {formatDate(results.competition.resultsPublishedAt)} ·{" "}
+                {results.scoringMethod === "normalized" ? "Judge-normalized" : "Average"} scoring out of 100
+              </p>
+            </>
+          )}
+        </div>
+      </main>
+
+      <Footer />
+    </div>
+  );
+}
@@ -1,20 +1,50 @@
 import React, { useState, useMemo } from 'react';
-import { Search, Trophy, Plus, Edit2, Trash2, AlertCircle, RefreshCw, Filter, Calendar, MapPin } from 'lucide-react';
+import { useNavigate } from 'react-router-dom';
+import { Search, Trophy, Plus, Edit2, Trash2, AlertCircle, RefreshCw, Filter, Calendar, MapPin, ListChecks, BarChart3, Gavel, ClipboardList, ExternalLink, ArrowRight, Undo2 } from 'lucide-react';
 import { useAuth } from '../providers/AuthProvider';
 import { useCompetitionsData, useCompetitionsRealtimeUpdates } from '../hooks';
+import { COMPETITION_TRANSITIONS, type Competition, type CompetitionStatus } from '../hooks/useCompetitionsData';
 import { LoadingState, Alert, Button, CardComponent, Badge } from '../components/ui';
+import { RubricEditorModal } from '../components/competitions/RubricEditorModal';
+import { RankingsModal } from '../components/competitions/RankingsModal';
+import { CompetitionFormModal } from '../components/competitions/CompetitionFormModal';
+import { ROUTES } from '../shared/constants/routes.constants';
 import { motion } from 'framer-motion';
 
-type StatusFilter = 'all' | 'upcoming' | 'ongoing' | 'completed' | 'cancelled';
+type StatusFilter = 'all' | CompetitionStatus;
+
+const STATUS_LABELS: Record<CompetitionStatus, string> = {
+  draft: 'Draft',
+  registration: 'Registration',
+  judging: 'Judging',
+  results_published: 'Results published',
+};
+
+// Button label for moving a competition to a status
+const TRANSITION_LABELS: Record<CompetitionStatus, string> = {
+  draft: 'Back to draft',
+  registration: 'Open registration',
+  judging: 'Start judging',
+  results_published: 'Publish results',
+};
+
+const STATUS_ORDER: CompetitionStatus[] = ['draft', 'registration', 'judging', 'results_published'];
 
 export default function Competitions() {
   const { user } = useAuth();
+  const navigate = useNavigate();
   const { competitions, stats, isLoading, error, refetch, actions } = useCompetitionsData();
   useCompetitionsRealtimeUpdates(refetch);
 
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editingCompetition, setEditingCompetition] = useState<Competition | null>(null);
+  const [rubricCompetition, setRubricCompetition] = useState<Competition | null>(null);
+  const [rankingsCompetition, setRankingsCompetition] = useState<Competition | null>(null);
   const canManage = user?.role === 'admin' || user?.role === 'superadmin';
+  const canOrganize = canManage || user?.role === 'organizer';
+  const isJudge = user?.role === 'judge';
 
   const filteredCompetitions = useMemo(() => {
     return competitions.filter(comp => {
@@ -26,6 +56,20 @@ export default function Competitions() {
     });
   }, [competitions, searchQuery, statusFilter]);
 
+  const openForm = (comp: Competition | null) => {
+    setEditingCompetition(comp);
+    setIsFormOpen(true);
+  };
+
+  const handleSubmitForm = (data: Partial<Competition>) =>
+    editingCompetition ? actions.update(editingCompetition._id, data) : actions.create(data);
+
+  const handleStatusChange = async (comp: Competition, status: CompetitionStatus) => {
+    if (!window.confirm(`${TRANSITION_LABELS[status]} for "${comp.title}"?`)) return;
+    const result = await actions.updateStatus(comp._id, status);
+    if (!result.success) alert(result.error);
+  };
+
   const handleDelete = async (id: string, title: string) => {
     if (!window.confirm(`Delete competition "${title}"?`)) return;
     const result = await actions.delete(id);
@@ -37,12 +81,11 @@ export default function Competitions() {
     return new Date(dateString).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' });
   };
 
-  const getStatusVariant = (status?: string): 'primary' | 'secondary' | 'error' | 'warning' | 'success' | 'info' => {
+  const getStatusVariant = (status: CompetitionStatus): 'primary' | 'secondary' | 'error' | 'warning' | 'success' | 'info' => {
     switch (status) {
-      case 'upcoming': return 'warning';
-      case 'ongoing': return 'primary';
-      case 'completed': return 'success';
-      case 'cancelled': return 'error';
+      case 'registration': return 'warning';
+      case 'judging': return 'primary';
+      case 'results_published': return 'success';
       default: return 'info';
     }
   };
@@ -79,8 +122,8 @@ export default function Competitions() {
           <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
             Refresh
           </Button>
-          {canManage && (
-            <Button variant="primary" size="sm" leftIcon={<Plus className="w-4 h-4" />}>
+          {canOrganize && (
+            <Button variant="primary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={() => openForm(null)}>
               New Competition
             </Button>
           )}
@@ -101,8 +144,8 @@ export default function Competitions() {
           <CardComponent variant="glass" className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-gray-400 text-xs mb-1">Upcoming</p>
-                <p className="text-2xl font-bold text-yellow-400">{stats.upcoming}</p>
+                <p className="text-gray-400 text-xs mb-1">Registration</p>
+                <p className="text-2xl font-bold text-yellow-400">{stats.registration}</p>
               </div>
               <Calendar className="w-8 h-8 text-yellow-400/50" />
             </div>
@@ -110,8 +153,8 @@ export default function Competitions() {
           <CardComponent variant="glass" className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-gray-400 text-xs mb-1">Ongoing</p>
-                <p className="text-2xl font-bold text-primary">{stats.ongoing}</p>
+                <p className="text-gray-400 text-xs mb-1">Judging</p>
+                <p className="text-2xl font-bold text-primary">{stats.judging}</p>
               </div>
               <Trophy className="w-8 h-8 text-primary/50" />
             </div>
@@ -119,8 +162,8 @@ export default function Competitions() {
           <CardComponent variant="glass" className="p-4">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-gray-400 text-xs mb-1">Completed</p>
-                <p className="text-2xl font-bold text-green-400">{stats.completed}</p>
+                <p className="text-gray-400 text-xs mb-1">Published</p>
+                <p className="text-2xl font-bold text-green-400">{stats.published}</p>
               </div>
               <Trophy className="w-8 h-8 text-green-400/50" />
             </div>
@@ -153,10 +196,9 @@ export default function Competitions() {
             <Filter className="w-5 h-5 text-gray-400" />
             <select className="select" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as StatusFilter)}>
               <option value="all">All Status</option>
-              <option value="upcoming">Upcoming</option>
-              <option value="ongoing">Ongoing</option>
-              <option value="completed">Completed</option>
-              <option value="cancelled">Cancelled</option>
+              {STATUS_ORDER.filter(status => status !== 'draft' || canOrganize).map(status => (
+                <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+              ))}
             </select>
           </div>
         </div>
@@ -181,11 +223,9 @@ export default function Competitions() {
               <CardComponent variant="glass" hover className="p-6">
                 <div className="flex items-start justify-between mb-4">
                   <h3 className="text-lg font-semibold text-white flex-1">{comp.title}</h3>
-                  {comp.status && (
-                    <Badge variant={getStatusVariant(comp.status)} size="sm">
-                      {comp.status}
-                    </Badge>
-                  )}
+                  <Badge variant={getStatusVariant(comp.status)} size="sm">
+                    {STATUS_LABELS[comp.status]}
+                  </Badge>
                 </div>
                 {comp.description && <p className="text-sm text-gray-400 mb-4 line-clamp-2">{comp.description}</p>}
                 <div className="space-y-2 text-sm text-gray-400 mb-4">
@@ -201,14 +241,92 @@ export default function Competitions() {
                       <span>{comp.location}</span>
                     </div>
                   )}
+                  {(comp.registrationOpensAt || comp.registrationClosesAt) && (
+                    <div className="flex items-center gap-2">
+                      <ClipboardList className="w-4 h-4" />
+                      <span>
+                        Registration {formatDate(comp.registrationOpensAt || undefined)} - {formatDate(comp.registrationClosesAt || undefined)}
+                      </span>
+                    </div>
+                  )}
                   <div className="flex items-center gap-2">
                     <Trophy className="w-4 h-4" />
-                    <span>{comp.teamCount} teams</span>
+                    <span>
+                      {comp.teamCount}{comp.maxTeams ? ` / ${comp.maxTeams}` : ''} teams
+                      {canOrganize && comp.pendingTeamCount > 0 && (
+                        <span className="text-yellow-400"> · {comp.pendingTeamCount} awaiting approval</span>
+                      )}
+                    </span>
+                    {comp.registrationOpen && <Badge variant="success" size="sm">Open</Badge>}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <ListChecks className="w-4 h-4" />
+                    <span>
+                      {comp.rubric?.criteria.length
+                        ? `${comp.rubric.criteria.length} judging criteria`
+                        : 'No rubric yet'}
+                    </span>
                   </div>
                 </div>
-                {canManage && (
-                  <div className="flex gap-2 pt-4 border-t border-gray-700">
-                    <Button variant="ghost" size="sm" leftIcon={<Edit2 className="w-4 h-4" />}>Edit</Button>
+                <div className="flex flex-wrap gap-2 pt-4 border-t border-gray-700">
+                  {(canOrganize || isJudge || comp.status === 'results_published') && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<BarChart3 className="w-4 h-4" />}
+                      onClick={() => setRankingsCompetition(comp)}
+                    >
+                      Rankings
+                    </Button>
+                  )}
+                  {comp.status === 'results_published' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<ExternalLink className="w-4 h-4" />}
+                      onClick={() => navigate(ROUTES.COMPETITION_RESULTS.replace(':competitionId', comp._id))}
+                    >
+                      Public Results
+                    </Button>
+                  )}
+                  {isJudge && comp.status === 'judging' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<Gavel className="w-4 h-4" />}
+                      onClick={() => navigate(ROUTES.COMPETITION_JUDGING.replace(':competitionId', comp._id))}
+                    >
+                      Judge
+                    </Button>
+                  )}
+                  {canOrganize && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<ListChecks className="w-4 h-4" />}
+                      onClick={() => setRubricCompetition(comp)}
+                    >
+                      Rubric
+                    </Button>
+                  )}
+                  {canOrganize && COMPETITION_TRANSITIONS[comp.status].map(next => {
+                    const forward = STATUS_ORDER.indexOf(next) > STATUS_ORDER.indexOf(comp.status);
+                    return (
+                      <Button
+                        key={next}
+                        variant={forward ? 'outline' : 'ghost'}
+                        size="sm"
+                        leftIcon={forward ? <ArrowRight className="w-4 h-4" /> : <Undo2 className="w-4 h-4" />}
+                        onClick={() => handleStatusChange(comp, next)}
+                      >
+                        {TRANSITION_LABELS[next]}
+                      </Button>
+                    );
+                  })}
+                  {canOrganize && (
+                    <Button variant="ghost" size="sm" leftIcon={<Edit2 className="w-4 h-4" />} onClick={() => openForm(comp)}>Edit</Button>
+                  )}
+                  {canManage && (
                     <Button
                       variant="ghost"
                       size="sm"
@@ -218,13 +336,33 @@ export default function Competitions() {
                     >
                       Delete
                     </Button>
-                  </div>
-                )}
+                  )}
+                </div>
               </CardComponent>
             </motion.div>
           ))}
         </div>
       )}
+
+      <CompetitionFormModal
+        isOpen={isFormOpen}
+        onClose={() => setIsFormOpen(false)}
+        competition={editingCompetition}
+        onSubmit={handleSubmitForm}
+      />
+
+      <RubricEditorModal
+        isOpen={!!rubricCompetition}
+        onClose={() => setRubricCompetition(null)}
+        competition={rubricCompetition}
+        onSave={actions.updateRubric}
+      />
+
+      <RankingsModal
+        isOpen={!!rankingsCompetition}
+        onClose={() => setRankingsCompetition(null)}
+        competition={rankingsCompetition}
+      />
     </motion.div>
   );
 }
@@ -0,0 +1,397 @@
+/**
+ * FinanceDashboard Page
+ *
+ * Financial reports for management:
+ * - Revenue by month, payment method, course and group
+ * - Outstanding balances per student
+ * - Daily cash-drawer reconciliation per reception user
+ * - CSV/XLSX export of every report
+ */
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  RefreshCw,
+  AlertCircle,
+  TrendingUp,
+  RotateCcw,
+  Wallet,
+  AlertTriangle,
+  FileSpreadsheet,
+  FileText,
+} from 'lucide-react';
+import { useFinanceReports } from '../hooks';
+import type { FinanceReport, ExportFormat, RevenueGrouping } from '../hooks';
+import { RevenueChart } from '../components/finance/RevenueChart';
+import { LoadingState, Alert, Button, Badge, CardComponent, CardBody, StatsCard, useToast } from '../components/ui';
+
+const METHOD_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  bank_transfer: 'Bank Transfer',
+  online: 'Online',
+  sham_cash_app: 'Sham Cash App',
+  check: 'Check',
+  other: 'Other',
+};
+
+const formatAmount = (amount: number) => `${amount.toFixed(2)} DZD`;
+
+const formatMonth = (month: string) => {
+  const [year, monthIndex] = month.split('-').map(Number);
+  if (!year || !monthIndex) return month;
+  return new Date(year, monthIndex - 1, 1).toLocaleDateString('en-US', { month: 'short', year: '2-digit' });
+};
+
+const inputClassName =
+  'px-4 py-2 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:border-accent [color-scheme:dark]';
+
+/**
+ * CSV/XLSX download buttons for one report
+ */
+const ExportButtons: React.FC<{ onExport: (format: ExportFormat) => void }> = ({ onExport }) => (
+  <div className="flex gap-2">
+    <Button
+      variant="ghost"
+      size="sm"
+      leftIcon={<FileText className="w-4 h-4" />}
+      onClick={() => onExport('csv')}
+      className="text-white/70 hover:text-white hover:bg-white/10"
+    >
+      CSV
+    </Button>
+    <Button
+      variant="ghost"
+      size="sm"
+      leftIcon={<FileSpreadsheet className="w-4 h-4" />}
+      onClick={() => onExport('xlsx')}
+      className="text-white/70 hover:text-white hover:bg-white/10"
+    >
+      XLSX
+    </Button>
+  </div>
+);
+
+const FinanceDashboard: React.FC = () => {
+  const {
+    revenue,
+    outstanding,
+    reconciliation,
+    isLoading,
+    error,
+    filters,
+    setFilters,
+    reconciliationDate,
+    setReconciliationDate,
+    refetch,
+    exportReport,
+  } = useFinanceReports();
+  const toast = useToast();
+
+  const [from, setFrom] = useState(filters.from || '');
+  const [to, setTo] = useState(filters.to || '');
+
+  // Animation variants
+  const containerVariants = {
+    hidden: { opacity: 0 },
+    visible: {
+      opacity: 1,
+      transition: {
+        staggerChildren: 0.1
+      }
+    }
+  };
+
+  const itemVariants = {
+    hidden: { opacity: 0, y: 20 },
+    visible: { opacity: 1, y: 0 }
+  };
+
+  const handleExport = async (report: FinanceReport, format: ExportFormat, groupBy?: RevenueGrouping) => {
+    try {
+      await exportReport(report, format, groupBy);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to export report');
+    }
+  };
+
+  const applyDateRange = () => {
+    setFilters({ ...filters, from: from || undefined, to: to || undefined });
+  };
+
+  const totals = revenue.month?.totals;
+
+  return (
+    <motion.div
+      initial="hidden"
+      animate="visible"
+      variants={containerVariants}
+      className="space-y-8"
+    >
+      {/* Page Header */}
+      <motion.div variants={itemVariants} className="flex flex-col md:flex-row md:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-primary via-accent to-secondary bg-clip-text text-transparent">
+            Finance
+          </h1>
+          <p className="mt-2 text-white/60">
+            Revenue, outstanding balances and daily cash reconciliation
+          </p>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            type="date"
+            value={from}
+            onChange={(e) => setFrom(e.target.value)}
+            className={inputClassName}
+            aria-label="From date"
+          />
+          <span className="text-white/40">to</span>
+          <input
+            type="date"
+            value={to}
+            onChange={(e) => setTo(e.target.value)}
+            className={inputClassName}
+            aria-label="To date"
+          />
+          <Button variant="primary" size="sm" onClick={applyDateRange}>
+            Apply
+          </Button>
+          <Button
+            variant="ghost"
+            leftIcon={<RefreshCw className="w-4 h-4" />}
+            onClick={refetch}
+            className="text-white/70 hover:text-white hover:bg-white/10 px-4"
+          >
+            <span className="hidden lg:inline">Refresh</span>
+          </Button>
+        </div>
+      </motion.div>
+
+      {/* Error Alert */}
+      {error && (
+        <motion.div variants={itemVariants}>
+          <Alert variant="error">
+            <div className="flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <p className="font-semibold mb-1">Error Loading Reports</p>
+                <p className="text-sm opacity-90">{error}</p>
+              </div>
+            </div>
+          </Alert>
+        </motion.div>
+      )}
+
+      {isLoading && !totals ? (
+        <LoadingState type="skeleton" text="Loading finance reports..." />
+      ) : (
+        <>
+          {/* Stats Cards */}
+          <motion.div variants={itemVariants} className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <StatsCard
+              label="Net Revenue"
+              value={formatAmount(totals?.net ?? 0)}
+              icon={<TrendingUp className="w-6 h-6" />}
+            />
+            <StatsCard
+              label="Refunds"
+              value={formatAmount(totals?.refunds ?? 0)}
+              icon={<RotateCcw className="w-6 h-6" />}
+            />
+            <StatsCard
+              label="Outstanding"
+              value={formatAmount(outstanding?.totals.remainingAmount ?? 0)}
+              icon={<Wallet className="w-6 h-6" />}
+            />
+            <StatsCard
+              label="Overdue"
+              value={formatAmount(outstanding?.totals.overdueAmount ?? 0)}
+              icon={<AlertTriangle className="w-6 h-6" />}
+            />
+          </motion.div>
+
+          {/* Revenue by Month */}
+          <motion.div variants={itemVariants}>
+            <CardComponent variant="glass">
+              <CardBody>
+                <div className="flex items-center justify-between mb-4">
+                  <h2 className="text-lg font-semibold text-white">Revenue by Month</h2>
+                  <ExportButtons onExport={(format) => handleExport('revenue', format, 'month')} />
+                </div>
+                <RevenueChart
+                  rows={revenue.month?.rows ?? []}
+                  layout="column"
+                  formatLabel={formatMonth}
+                  formatValue={(value) => value.toFixed(0)}
+                />
+              </CardBody>
+            </CardComponent>
+          </motion.div>
+
+          {/* Revenue by Method / Course / Group */}
+          <motion.div variants={itemVariants} className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+            {([
+              { groupBy: 'method', title: 'By Payment Method' },
+              { groupBy: 'course', title: 'By Course' },
+              { groupBy: 'group', title: 'By Group' },
+            ] as { groupBy: RevenueGrouping; title: string }[]).map(({ groupBy, title }) => (
+              <CardComponent key={groupBy} variant="glass">
+                <CardBody>
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold text-white">{title}</h2>
+                    <ExportButtons onExport={(format) => handleExport('revenue', format, groupBy)} />
+                  </div>
+                  <RevenueChart
+                    rows={revenue[groupBy]?.rows ?? []}
+                    formatLabel={groupBy === 'method' ? (label) => METHOD_LABELS[label] || label : undefined}
+                    formatValue={formatAmount}
+                  />
+                </CardBody>
+              </CardComponent>
+            ))}
+          </motion.div>
+
+          {/* Outstanding Balances */}
+          <motion.div variants={itemVariants}>
+            <CardComponent variant="glass">
+              <CardBody>
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+                  <h2 className="text-lg font-semibold text-white">Outstanding Balances</h2>
+                  <div className="flex items-center gap-4">
+                    <label className="flex items-center gap-2 text-sm text-white/70 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!!filters.overdueOnly}
+                        onChange={(e) => setFilters({ ...filters, overdueOnly: e.target.checked || undefined })}
+                        className="w-4 h-4 rounded"
+                      />
+                      Overdue only
+                    </label>
+                    <ExportButtons onExport={(format) => handleExport('outstanding', format)} />
+                  </div>
+                </div>
+
+                {outstanding && outstanding.rows.length > 0 ? (
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-white/50 border-b border-white/10">
+                          <th className="py-2 pr-4 font-medium">Student</th>
+                          <th className="py-2 pr-4 font-medium">Courses</th>
+                          <th className="py-2 pr-4 font-medium text-right">Paid</th>
+                          <th className="py-2 pr-4 font-medium text-right">Remaining</th>
+                          <th className="py-2 pr-4 font-medium text-right">Overdue</th>
+                          <th className="py-2 font-medium">Next Due</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {outstanding.rows.map((row) => (
+                          <tr key={row.studentId} className="border-b border-white/5">
+                            <td className="py-2 pr-4">
+                              <p className="text-white">{row.name}</p>
+                              <p className="text-xs text-white/40">{row.email}</p>
+                            </td>
+                            <td className="py-2 pr-4 text-white/70">{row.courses.join(', ')}</td>
+                            <td className="py-2 pr-4 text-right text-white/70">{formatAmount(row.paidAmount)}</td>
+                            <td className="py-2 pr-4 text-right text-white">{formatAmount(row.remainingAmount)}</td>
+                            <td className="py-2 pr-4 text-right">
+                              {row.overdueAmount > 0 ? (
+                                <Badge variant="error" size="sm">{formatAmount(row.overdueAmount)}</Badge>
+                              ) : (
+                                <span className="text-white/40">-</span>
+                              )}
+                            </td>
+                            <td className="py-2 text-white/60">
+                              {row.nextDueDate ? new Date(row.nextDueDate).toLocaleDateString() : '-'}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                ) : (
+                  <p className="text-sm text-white/40 py-8 text-center">No outstanding balances</p>
+                )}
+              </CardBody>
+            </CardComponent>
+          </motion.div>
+
+          {/* Cash Reconciliation */}
+          <motion.div variants={itemVariants}>
+            <CardComponent variant="glass">
+              <CardBody>
+                <div className="flex flex-col md:flex-row md:items-center justify-between gap-3 mb-4">
+                  <div>
+                    <h2 className="text-lg font-semibold text-white">Cash Reconciliation</h2>
+                    <p className="text-xs text-white/50">
+                      Payments processed and refunds made by each staff member on the selected day
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="date"
+                      value={reconciliationDate}
+                      onChange={(e) => e.target.value && setReconciliationDate(e.target.value)}
+                      className={inputClassName}
+                      aria-label="Reconciliation date"
+                    />
+                    <ExportButtons onExport={(format) => handleExport('reconciliation', format)} />
+                  </div>
+                </div>
+
+                {reconciliation && reconciliation.rows.length > 0 ? (
+                  <div className="space-y-4">
+                    {reconciliation.rows.map((row) => (
+                      <div key={row.userId} className="p-4 rounded-lg bg-white/5 border border-white/10">
+                        <div className="flex items-center justify-between mb-3">
+                          <p className="font-semibold text-white">{row.name}</p>
+                          <div className="text-right">
+                            <p className="text-xs text-white/50">Expected cash in drawer</p>
+                            <p className="text-lg font-bold text-white">{formatAmount(row.expectedCash)}</p>
+                          </div>
+                        </div>
+                        <table className="w-full text-sm">
+                          <thead>
+                            <tr className="text-left text-white/50">
+                              <th className="py-1 pr-4 font-medium">Method</th>
+                              <th className="py-1 pr-4 font-medium text-right">Payments</th>
+                              <th className="py-1 pr-4 font-medium text-right">Collected</th>
+                              <th className="py-1 font-medium text-right">Refunded</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {Object.entries(row.byMethod).map(([method, totalsByMethod]) => (
+                              <tr key={method} className="border-t border-white/5">
+                                <td className="py-1 pr-4 text-white/80">{METHOD_LABELS[method] || method}</td>
+                                <td className="py-1 pr-4 text-right text-white/60">{totalsByMethod.payments}</td>
+                                <td className="py-1 pr-4 text-right text-white">{formatAmount(totalsByMethod.collected)}</td>
+                                <td className="py-1 text-right text-red-300/80">
+                                  {totalsByMethod.refunded > 0 ? formatAmount(totalsByMethod.refunded) : '-'}
+                                </td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    ))}
+                    <div className="flex justify-end gap-6 text-sm text-white/70">
+                      <span>Collected: <strong className="text-white">{formatAmount(reconciliation.totals.collected)}</strong></span>
+                      <span>Refunded: <strong className="text-white">{formatAmount(reconciliation.totals.refunded)}</strong></span>
+                      <span>Cash expected: <strong className="text-white">{formatAmount(reconciliation.totals.expectedCash)}</strong></span>
+                    </div>
+                  </div>
+                ) : (
+                  <p className="text-sm text-white/40 py-8 text-center">No payments processed on this day</p>
+                )}
+              </CardBody>
+            </CardComponent>
+          </motion.div>
+        </>
+      )}
+    </motion.div>
+  );
+};
+
+export default FinanceDashboard;
@@ -12,21 +12,37 @@ import {
   Grid,
   List,
   RefreshCw,
-  AlertCircle
+  AlertCircle,
+  ClipboardList,
+  FileText,
+  DollarSign,
+  ScanLine,
+  Tag,
+  Wrench,
+  FileSpreadsheet,
+  ClipboardCheck
 } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { api } from '../lib/api';
+import { ROUTES } from '../shared/constants/routes.constants';
 import { useAuth } from '../providers/AuthProvider';
 import { PartFormModal } from '../components/parts/PartFormModal';
+import { PartsImportModal } from '../components/parts/PartsImportModal';
+import AdjustStockModal from '../components/stock/AdjustStockModal';
+import { LabelsModal } from '../components/stock/LabelsModal';
 import {
   useInventoryData,
   useInventoryRealtimeUpdates,
+  isLowStock,
+  useInventoryValuation,
+  useUnitCostHistory,
   type PartWithStock,
   type BoxGroup
 } from '../hooks';
 import { LoadingState, Alert, Button } from '../components/ui';
 import { motion } from 'framer-motion';
 
-type ViewMode = 'parts' | 'boxes';
+type ViewMode = 'parts' | 'boxes' | 'valuation';
 
 /**
  * Professional Inventory Management Page
@@ -49,6 +65,9 @@ export default function Inventory() {
   const [editingPart, setEditingPart] = useState<PartWithStock | null>(null);
   const [showStockModal, setShowStockModal] = useState<PartWithStock | null>(null);
   const [selectedBox, setSelectedBox] = useState<BoxGroup | null>(null);
+  const [showScanModal, setShowScanModal] = useState(false);
+  const [showLabelsModal, setShowLabelsModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
 
   // Use stats from hook instead of calculating here
   const categories = stats?.categories || [];
@@ -64,6 +83,8 @@ export default function Inventory() {
           sku: part.sku,
           parts: [],
           totalQty: 0,
+          onHandQty: 0,
+          reservedQty: 0,
           availableQty: 0,
           usedQty: 0,
           damagedQty: 0,
@@ -74,6 +95,8 @@ export default function Inventory() {
       
       groups[part.sku].parts.push(part);
       groups[part.sku].totalQty += part.totalQty;
+      groups[part.sku].onHandQty += part.onHandQty;
+      groups[part.sku].reservedQty += part.reservedQty;
       groups[part.sku].availableQty += part.availableQty || 0;
       groups[part.sku].usedQty += part.usedQty || 0;
       groups[part.sku].damagedQty += part.damagedQty || 0;
@@ -83,7 +106,7 @@ export default function Inventory() {
       }
       
       // Check if any part in this SKU group has low stock
-      if ((part.availableQty || 0) < 5) {
+      if (isLowStock(part)) {
         groups[part.sku].lowStock = true;
       }
     });
@@ -266,6 +289,43 @@ export default function Inventory() {
 
           {canManageParts && (
             <>
+              <button
+                onClick={() => setShowScanModal(true)}
+                className="btn-outline flex items-center gap-2"
+              >
+                <ScanLine className="w-5 h-5" />
+                Scan
+              </button>
+              <button
+                onClick={() => setShowLabelsModal(true)}
+                className="btn-outline flex items-center gap-2"
+              >
+                <Tag className="w-5 h-5" />
+                Labels
+              </button>
+              <button
+                onClick={() => setShowImportModal(true)}
+                className="btn-outline flex items-center gap-2"
+              >
+                <FileSpreadsheet className="w-5 h-5" />
+                Import / Export
+              </button>
+              <Link to={ROUTES.INVENTORY_REQUISITIONS} className="btn-outline flex items-center gap-2">
+                <ClipboardList className="w-5 h-5" />
+                Requisitions
+              </Link>
+              <Link to={ROUTES.INVENTORY_PURCHASE_ORDERS} className="btn-outline flex items-center gap-2">
+                <FileText className="w-5 h-5" />
+                Purchase Orders
+              </Link>
+              <Link to={ROUTES.INVENTORY_LOANS} className="btn-outline flex items-center gap-2">
+                <Wrench className="w-5 h-5" />
+                Loans
+              </Link>
+              <Link to={ROUTES.INVENTORY_STOCKTAKES} className="btn-outline flex items-center gap-2">
+                <ClipboardCheck className="w-5 h-5" />
+                Stocktakes
+              </Link>
               <button
                 onClick={() => setShowBoxModal(true)}
                 className="btn-outline flex items-center gap-2"
@@ -312,6 +372,19 @@ export default function Inventory() {
               <Grid className="w-4 h-4" />
               Boxes View
             </button>
+            {canManageParts && (
+              <button
+                onClick={() => setViewMode('valuation')}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg transition-all ${
+                  viewMode === 'valuation'
+                    ? 'bg-primary text-white shadow-lg'
+                    : 'text-gray-400 hover:text-gray-300'
+                }`}
+              >
+                <DollarSign className="w-4 h-4" />
+                Valuation
+              </button>
+            )}
           </div>
         </div>
 
@@ -321,7 +394,7 @@ export default function Inventory() {
             <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
             <input
               type="text"
-              placeholder={`Search ${viewMode} by name, SKU, or category...`}
+              placeholder={`Search ${viewMode === 'boxes' ? 'boxes' : 'parts'} by name, SKU, or category...`}
               className="input pl-12 w-full"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
@@ -351,6 +424,7 @@ export default function Inventory() {
             ))}
           </select>
 
+            {viewMode !== 'valuation' && (
             <select
               className="select min-w-[120px]"
               value={`${sortBy}-${sortOrder}`}
@@ -367,11 +441,13 @@ export default function Inventory() {
               <option value="qty-asc">Stock Low-High</option>
               {viewMode === 'parts' && <option value="updated-desc">Recently Updated</option>}
             </select>
+            )}
           </div>
         </div>
 
         {/* Stats Summary */}
-        <div className="grid grid-cols-4 gap-6 mt-6 pt-6 border-t border-gray-700">
+        {viewMode !== 'valuation' && (
+        <div className="grid grid-cols-3 md:grid-cols-6 gap-6 mt-6 pt-6 border-t border-gray-700">
           <div className="text-center">
             <div className="text-2xl font-bold text-primary">
               {viewMode === 'parts' ? stats?.totalParts : stats?.totalBoxes}
@@ -380,6 +456,18 @@ export default function Inventory() {
               Total {viewMode === 'parts' ? 'Parts' : 'Boxes'}
             </div>
           </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-gray-200">
+              {stats?.totalOnHand || 0}
+            </div>
+            <div className="text-sm text-gray-400">On Hand</div>
+          </div>
+          <div className="text-center">
+            <div className="text-2xl font-bold text-blue-400">
+              {stats?.totalReserved || 0}
+            </div>
+            <div className="text-sm text-gray-400">Reserved</div>
+          </div>
           <div className="text-center">
             <div className="text-2xl font-bold text-green-400">
               {stats?.totalAvailable || 0}
@@ -390,7 +478,7 @@ export default function Inventory() {
             <div className="text-2xl font-bold text-yellow-400">
               {stats?.totalInUse || 0}
             </div>
-            <div className="text-sm text-gray-400">In Use</div>
+            <div className="text-sm text-gray-400">Used</div>
           </div>
           <div className="text-center">
             <div className="text-2xl font-bold text-red-400">
@@ -399,10 +487,17 @@ export default function Inventory() {
             <div className="text-sm text-gray-400">Damaged</div>
           </div>
         </div>
+        )}
       </div>
 
       {/* Content Grid */}
-      {currentItems.length === 0 ? (
+      {viewMode === 'valuation' ? (
+        <ValuationReport
+          searchQuery={searchQuery}
+          selectedCategory={selectedCategory}
+          selectedGroup={selectedGroup}
+        />
+      ) : currentItems.length === 0 ? (
         <div className="bg-surface border border-gray-700 rounded-2xl p-12 text-center">
           <Package className="w-16 h-16 text-gray-600 mx-auto mb-4" />
           <h3 className="text-xl font-semibold text-gray-300 mb-2">
@@ -475,6 +570,7 @@ export default function Inventory() {
           part={showStockModal}
           onClose={() => setShowStockModal(null)}
           onStockUpdated={refetch}
+          showCosts={canManageParts}
         />
       )}
 
@@ -485,6 +581,26 @@ export default function Inventory() {
         />
       )}
 
+      {showScanModal && (
+        <AdjustStockModal
+          scanMode
+          onClose={() => setShowScanModal(false)}
+          onSuccess={refetch}
+        />
+      )}
+
+      <LabelsModal
+        isOpen={showLabelsModal}
+        onClose={() => setShowLabelsModal(false)}
+        parts={filteredParts}
+      />
+
+      <PartsImportModal
+        isOpen={showImportModal}
+        onClose={() => setShowImportModal(false)}
+        onImported={refetch}
+      />
+
       {showBoxModal && (
         <BoxFormModal
           onClose={() => setShowBoxModal(false)}
@@ -505,8 +621,8 @@ interface PartCardProps {
 }
 
 const PartCard: React.FC<PartCardProps> = ({ part, onEdit, onDelete, onViewStock }) => {
-  const lowStock = (part.availableQty || 0) < 5;
-  const outOfStock = (part.availableQty || 0) === 0;
+  const lowStock = isLowStock(part);
+  const outOfStock = (part.availableQty || 0) <= 0;
   
   return (
     <div className={`bg-surface border rounded-2xl p-6 hover:border-primary/30 transition-all duration-300 group relative overflow-hidden ${
@@ -568,6 +684,18 @@ const PartCard: React.FC<PartCardProps> = ({ part, onEdit, onDelete, onViewStock
 
         {/* Stock Levels */}
         <div className="space-y-2 bg-gray-800/30 rounded-xl p-3 border border-gray-700/30">
+          <div className="flex justify-between text-sm">
+            <span className="text-gray-400">On Hand:</span>
+            <span className="text-gray-200 font-semibold">{part.onHandQty}</span>
+          </div>
+
+          {part.reservedQty > 0 && (
+            <div className="flex justify-between text-sm">
+              <span className="text-gray-400">Reserved:</span>
+              <span className="text-blue-400 font-semibold">{part.reservedQty}</span>
+            </div>
+          )}
+
           <div className="flex justify-between text-sm">
             <span className="text-gray-400">Available:</span>
             <span className={`font-semibold ${
@@ -579,7 +707,7 @@ const PartCard: React.FC<PartCardProps> = ({ part, onEdit, onDelete, onViewStock
           
           {(part.usedQty || 0) > 0 && (
             <div className="flex justify-between text-sm">
-              <span className="text-gray-400">In Use:</span>
+              <span className="text-gray-400">Used:</span>
               <span className="text-yellow-400 font-semibold">{part.usedQty}</span>
             </div>
           )}
@@ -676,13 +804,21 @@ const BoxCard: React.FC<BoxCardProps> = ({ box, onClick }) => {
         </div>
         
         <div className="grid grid-cols-3 gap-2 text-center bg-gray-800/30 rounded-xl p-3 border border-gray-700/30">
+          <div>
+            <div className="text-sm font-semibold text-gray-200">{box.onHandQty}</div>
+            <div className="text-xs text-gray-500">On Hand</div>
+          </div>
+          <div>
+            <div className="text-sm font-semibold text-blue-400">{box.reservedQty}</div>
+            <div className="text-xs text-gray-500">Reserved</div>
+          </div>
           <div>
             <div className="text-sm font-semibold text-green-400">{box.availableQty}</div>
             <div className="text-xs text-gray-500">Available</div>
           </div>
           <div>
             <div className="text-sm font-semibold text-yellow-400">{box.usedQty}</div>
-            <div className="text-xs text-gray-500">In Use</div>
+            <div className="text-xs text-gray-500">Used</div>
           </div>
           <div>
             <div className="text-sm font-semibold text-red-400">{box.damagedQty}</div>
@@ -722,18 +858,26 @@ const BoxDetailsModal: React.FC<{
 
         {/* Box Stats */}
         <div className="p-6 border-b border-gray-700">
-          <div className="grid grid-cols-4 gap-4">
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-4">
             <div className="text-center">
               <div className="text-2xl font-bold text-primary">{box.totalQty}</div>
               <div className="text-sm text-gray-400">Total Stock</div>
             </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-gray-200">{box.onHandQty}</div>
+              <div className="text-sm text-gray-400">On Hand</div>
+            </div>
+            <div className="text-center">
+              <div className="text-2xl font-bold text-blue-400">{box.reservedQty}</div>
+              <div className="text-sm text-gray-400">Reserved</div>
+            </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-green-400">{box.availableQty}</div>
               <div className="text-sm text-gray-400">Available</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-yellow-400">{box.usedQty}</div>
-              <div className="text-sm text-gray-400">In Use</div>
+              <div className="text-sm text-gray-400">Used</div>
             </div>
             <div className="text-center">
               <div className="text-2xl font-bold text-red-400">{box.damagedQty}</div>
@@ -776,6 +920,14 @@ const BoxDetailsModal: React.FC<{
                 </div>
                 
                 <div className="space-y-1 text-xs">
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">On Hand:</span>
+                    <span className="text-gray-200 font-medium">{part.onHandQty}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-gray-400">Reserved:</span>
+                    <span className="text-blue-400 font-medium">{part.reservedQty}</span>
+                  </div>
                   <div className="flex justify-between">
                     <span className="text-gray-400">Available:</span>
                     <span className="text-green-400 font-medium">{part.availableQty}</span>
@@ -843,10 +995,14 @@ const StockDetailsModal: React.FC<{
   part: PartWithStock;
   onClose: () => void;
   onStockUpdated: () => void;
-}> = ({ part, onClose, onStockUpdated }) => {
+  /** Show purchase costs (admins only) */
+  showCosts?: boolean;
+}> = ({ part, onClose, onStockUpdated, showCosts = false }) => {
   const [adjustmentQty, setAdjustmentQty] = useState(0);
   const [adjustmentReason, setAdjustmentReason] = useState('adjustment');
+  const [unitCost, setUnitCost] = useState('');
   const [loading, setLoading] = useState(false);
+  const { history: costHistory } = useUnitCostHistory(showCosts ? part._id : null);
 
   const handleStockAdjustment = async () => {
     if (adjustmentQty === 0) return;
@@ -856,10 +1012,13 @@ const StockDetailsModal: React.FC<{
       await api.post('/stock/adjust', {
         partId: part._id,
         qtyChange: adjustmentQty,
-        reason: adjustmentReason
+        reason: adjustmentReason,
+        // Purchases with a cost feed the stock valuation
+        ...(adjustmentReason === 'purchase' && unitCost !== '' ? { unitCost: Number(unitCost) } : {})
       });
       onStockUpdated();
       setAdjustmentQty(0);
+      setUnitCost('');
     } catch (error) {
       alert('Failed to adjust stock');
     } finally {
@@ -867,7 +1026,7 @@ const StockDetailsModal: React.FC<{
     }
   };
 
-  const lowStock = part.availableQty < 5;
+  const lowStock = isLowStock(part);
 
   return (
     <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-50">
@@ -891,7 +1050,17 @@ const StockDetailsModal: React.FC<{
             
             <div className="space-y-4">
               <div className="flex justify-between items-center">
-                <span className="text-gray-400">Available:</span>
+                <span className="text-gray-400">On Hand:</span>
+                <span className="text-xl font-semibold text-gray-200">{part.onHandQty}</span>
+              </div>
+
+              <div className="flex justify-between items-center">
+                <span className="text-gray-400">Reserved:</span>
+                <span className="text-xl font-semibold text-blue-400">{part.reservedQty}</span>
+              </div>
+
+              <div className="flex justify-between items-center">
+                <span className="text-gray-400" title="On hand minus reserved">Available to Promise:</span>
                 <div className="flex items-center gap-2">
                   <span className={`text-2xl font-bold ${lowStock ? 'text-yellow-400' : 'text-green-400'}`}>
                     {part.availableQty}
@@ -900,8 +1069,15 @@ const StockDetailsModal: React.FC<{
                 </div>
               </div>
               
+              {(part.onLoanQty || 0) > 0 && (
+                <div className="flex justify-between items-center">
+                  <span className="text-gray-400">On Loan:</span>
+                  <span className="text-xl font-semibold text-purple-400">{part.onLoanQty}</span>
+                </div>
+              )}
+
               <div className="flex justify-between items-center">
-                <span className="text-gray-400">In Use:</span>
+                <span className="text-gray-400">Used:</span>
                 <span className="text-xl font-semibold text-yellow-400">{part.usedQty}</span>
               </div>
               
@@ -953,6 +1129,23 @@ const StockDetailsModal: React.FC<{
                 </select>
               </div>
 
+              {adjustmentReason === 'purchase' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    Unit Cost (optional)
+                  </label>
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    className="input w-full"
+                    value={unitCost}
+                    onChange={(e) => setUnitCost(e.target.value)}
+                    placeholder="Price paid per unit"
+                  />
+                </div>
+              )}
+
               <button
                 onClick={handleStockAdjustment}
                 disabled={loading || adjustmentQty === 0}
@@ -964,10 +1157,159 @@ const StockDetailsModal: React.FC<{
           </div>
         </div>
 
+        {showCosts && (
+          <div className="bg-gray-800/50 rounded-xl p-6 mt-6">
+            <h3 className="text-lg font-semibold mb-4 flex items-center gap-2">
+              <DollarSign className="w-5 h-5" />
+              Unit Cost History
+            </h3>
+            {costHistory.length === 0 ? (
+              <p className="text-sm text-gray-400">No purchases with a recorded cost yet.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700">
+                    <th className="py-2 pr-4 font-medium">Date</th>
+                    <th className="py-2 pr-4 font-medium">Source</th>
+                    <th className="py-2 pr-4 font-medium text-right">Qty</th>
+                    <th className="py-2 font-medium text-right">Unit Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {costHistory.map((entry) => (
+                    <tr key={entry._id} className="border-b border-gray-800">
+                      <td className="py-2 pr-4 text-gray-300">{new Date(entry.createdAt).toLocaleDateString()}</td>
+                      <td className="py-2 pr-4 text-gray-300">
+                        {entry.purchaseOrderId
+                          ? `${entry.purchaseOrderId.orderNumber}${entry.purchaseOrderId.supplierId ? ` · ${entry.purchaseOrderId.supplierId.name}` : ''}`
+                          : 'Manual purchase'}
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-300">{entry.qtyChange}</td>
+                      <td className="py-2 text-right text-gray-200">{entry.unitCost.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        )}
+
         <div className="flex justify-end mt-6">
           <button onClick={onClose} className="btn-outline">Close</button>
         </div>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
+
+/**
+ * Inventory Valuation Report
+ *
+ * Stock on hand valued at average purchase cost; parts never bought
+ * with a cost are listed but left out of the total
+ */
+const ValuationReport: React.FC<{
+  searchQuery: string;
+  selectedCategory: string;
+  selectedGroup: string;
+}> = ({ searchQuery, selectedCategory, selectedGroup }) => {
+  const { valuation, isLoading, error, refetch } = useInventoryValuation();
+
+  const items = useMemo(() => {
+    const query = searchQuery.toLowerCase();
+    return (valuation?.items || [])
+      .filter(item =>
+        (!query ||
+          item.name.toLowerCase().includes(query) ||
+          (item.sku || '').toLowerCase().includes(query) ||
+          (item.category || '').toLowerCase().includes(query)) &&
+        (selectedCategory === 'all' || item.category === selectedCategory) &&
+        (selectedGroup === 'all' || (item.group || '') === selectedGroup)
+      )
+      .sort((a, b) => (b.value ?? -1) - (a.value ?? -1));
+  }, [valuation, searchQuery, selectedCategory, selectedGroup]);
+
+  if (isLoading || (!valuation && !error)) {
+    return <LoadingState type="skeleton" text="Valuing stock..." />;
+  }
+
+  if (error || !valuation) {
+    return (
+      <Alert variant="error">
+        <div className="flex items-center gap-3">
+          <span className="flex-1">{error || 'Failed to load valuation'}</span>
+          <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
+            Retry
+          </Button>
+        </div>
+      </Alert>
+    );
+  }
+
+  const { totals } = valuation;
+  const formatCost = (value: number | null) => (value === null ? '-' : value.toFixed(2));
+
+  return (
+    <div className="bg-surface border border-gray-700 rounded-2xl p-6 space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-6">
+        <div className="text-center">
+          <div className="text-2xl font-bold text-primary">{totals.totalValue.toFixed(2)}</div>
+          <div className="text-sm text-gray-400">Stock Value</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-gray-200">{totals.onHandQty}</div>
+          <div className="text-sm text-gray-400">Units On Hand</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-green-400">{totals.costedParts}</div>
+          <div className="text-sm text-gray-400">Parts Costed</div>
+        </div>
+        <div className="text-center">
+          <div className="text-2xl font-bold text-yellow-400">{totals.uncostedParts}</div>
+          <div className="text-sm text-gray-400" title="On hand but never purchased with a unit cost">
+            Parts Without Cost
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-400 border-b border-gray-700">
+              <th className="py-2 pr-4 font-medium">Part</th>
+              <th className="py-2 pr-4 font-medium">Category</th>
+              <th className="py-2 pr-4 font-medium text-right">On Hand</th>
+              <th className="py-2 pr-4 font-medium text-right">Avg Cost</th>
+              <th className="py-2 pr-4 font-medium text-right">Last Cost</th>
+              <th className="py-2 pr-4 font-medium">Last Purchased</th>
+              <th className="py-2 font-medium text-right">Value</th>
+            </tr>
+          </thead>
+          <tbody>
+            {items.map(item => (
+              <tr key={item.partId} className="border-b border-gray-800">
+                <td className="py-2 pr-4">
+                  <span className="text-white">{item.name}</span>
+                  {item.sku && <span className="text-gray-500 font-mono text-xs ml-2">{item.sku}</span>}
+                </td>
+                <td className="py-2 pr-4 text-gray-300">{item.category || '-'}</td>
+                <td className="py-2 pr-4 text-right text-gray-300">{item.onHandQty}</td>
+                <td className="py-2 pr-4 text-right text-gray-300">{formatCost(item.avgUnitCost)}</td>
+                <td className="py-2 pr-4 text-right text-gray-300">{formatCost(item.lastUnitCost)}</td>
+                <td className="py-2 pr-4 text-gray-300">
+                  {item.lastPurchasedAt ? new Date(item.lastPurchasedAt).toLocaleDateString() : '-'}
+                </td>
+                <td className={`py-2 text-right font-semibold ${item.value === null ? 'text-yellow-400' : 'text-gray-200'}`}>
+                  {item.value === null ? 'No cost' : item.value.toFixed(2)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {items.length === 0 && (
+          <p className="text-gray-400 text-sm text-center py-6">No parts match the current filters.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,335 @@
+import { useState, useMemo } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowLeft,
+  CalendarClock,
+  PackageCheck,
+  Plus,
+  RefreshCw,
+  Wrench,
+  X
+} from 'lucide-react';
+import { motion } from 'framer-motion';
+import {
+  useInventoryData,
+  useLoans,
+  loanBorrowerName,
+  type BorrowerType,
+  type Loan,
+  type LoanStatus
+} from '../hooks';
+import { LoadingState, Alert, Button, CardComponent, Badge, useToast } from '../components/ui';
+import { LoanCheckOutModal } from '../components/stock/LoanCheckOutModal';
+import { LoanCheckInModal } from '../components/stock/LoanCheckInModal';
+import { ROUTES } from '../shared/constants/routes.constants';
+
+const CONDITION_VARIANTS = {
+  good: 'success',
+  worn: 'warning',
+  damaged: 'error',
+} as const;
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : '-';
+
+/**
+ * Equipment loans: what is out, with whom, what is overdue and what came
+ * back damaged
+ */
+export default function Loans() {
+  const toast = useToast();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const studentId = searchParams.get('studentId') || undefined;
+  const [borrowerType, setBorrowerType] = useState<BorrowerType | ''>('');
+  const [statusFilter, setStatusFilter] = useState<'all' | LoanStatus>('out');
+
+  const { loans, isLoading, error, refetch, actions } = useLoans({
+    studentId,
+    borrowerType: borrowerType || undefined,
+  });
+  const { parts, refetch: refetchParts } = useInventoryData();
+
+  const [showCheckOut, setShowCheckOut] = useState(false);
+  const [checkInLoan, setCheckInLoan] = useState<Loan | null>(null);
+
+  const loanableParts = useMemo(() => parts.filter((part) => part.loanable), [parts]);
+  const openLoans = useMemo(() => loans.filter((loan) => loan.status === 'out'), [loans]);
+  const overdue = useMemo(() => openLoans.filter((loan) => loan.isOverdue), [openLoans]);
+  const filtered = useMemo(
+    () => (statusFilter === 'all' ? loans : loans.filter((loan) => loan.status === statusFilter)),
+    [loans, statusFilter]
+  );
+  const filteredStudent = studentId ? loans.find((loan) => loan.studentId?._id === studentId)?.studentId : null;
+
+  const showStudent = (id: string) => setSearchParams({ studentId: id });
+
+  const handleCheckOut: typeof actions.checkOut = async (data) => {
+    const result = await actions.checkOut(data);
+    if (result.success) {
+      toast.success('Equipment checked out');
+      refetchParts();
+    }
+    return result;
+  };
+
+  const handleCheckIn: typeof actions.checkIn = async (id, data) => {
+    const result = await actions.checkIn(id, data);
+    if (result.success) {
+      toast.success(data.condition === 'damaged' ? 'Checked in; damaged units written off' : 'Equipment checked in');
+      refetchParts();
+    }
+    return result;
+  };
+
+  const handleExtend = async (loan: Loan) => {
+    const input = window.prompt(
+      `New due date for ${loan.partId?.name || 'this loan'} (YYYY-MM-DD)`,
+      new Date(loan.dueAt).toISOString().slice(0, 10)
+    );
+    if (input === null) return;
+    const dueAt = new Date(`${input}T23:59:59`);
+    if (Number.isNaN(dueAt.getTime())) {
+      toast.error('Enter the date as YYYY-MM-DD');
+      return;
+    }
+    const result = await actions.update(loan._id, { dueAt: dueAt.toISOString() });
+    if (result.success) {
+      toast.success(`Due date moved to ${formatDate(dueAt.toISOString())}`);
+    } else {
+      toast.error(result.error || 'Something went wrong');
+    }
+  };
+
+  if (isLoading && loans.length === 0) return <LoadingState type="skeleton" text="Loading loans..." />;
+
+  if (error) {
+    return (
+      <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+        <Alert variant="error">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5" />
+            <div className="flex-1">
+              <p className="font-semibold">Failed to load loans</p>
+              <p className="text-sm">{error}</p>
+            </div>
+            <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
+              Retry
+            </Button>
+          </div>
+        </Alert>
+      </motion.div>
+    );
+  }
+
+  const renderBorrower = (loan: Loan) => (
+    <>
+      {loan.studentId ? (
+        <button type="button" className="text-white hover:text-primary" onClick={() => showStudent(loan.studentId!._id)}>
+          {loan.studentId.name}
+        </button>
+      ) : (
+        <span className="text-white">{loanBorrowerName(loan)}</span>
+      )}
+      <p className="text-xs text-gray-500 capitalize">{loan.borrowerType}</p>
+    </>
+  );
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link to={ROUTES.INVENTORY} className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-primary mb-2">
+            <ArrowLeft className="w-4 h-4" />
+            Inventory
+          </Link>
+          <h1 className="text-3xl font-bold text-primary">Equipment Loans</h1>
+          <p className="text-gray-400 mt-1">Lend tools and kits to students, teams and groups</p>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
+            Refresh
+          </Button>
+          <Button
+            variant="primary"
+            size="sm"
+            leftIcon={<Plus className="w-4 h-4" />}
+            onClick={() => setShowCheckOut(true)}
+            disabled={loanableParts.length === 0}
+            title={loanableParts.length === 0 ? 'Mark a part as loanable first' : undefined}
+          >
+            Check Out
+          </Button>
+        </div>
+      </div>
+
+      {filteredStudent && (
+        <div className="flex items-center gap-2 text-sm text-gray-300">
+          Showing loans of <span className="text-white font-medium">{filteredStudent.name}</span>
+          <button type="button" className="text-gray-400 hover:text-white" onClick={() => setSearchParams({})} aria-label="Clear student filter">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Overdue */}
+      {overdue.length > 0 && (
+        <CardComponent variant="glass" className="p-6">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2 mb-4">
+            <AlertTriangle className="w-5 h-5 text-red-400" />
+            Overdue ({overdue.length})
+          </h2>
+          <div className="space-y-2">
+            {overdue.map((loan) => (
+              <div key={loan._id} className="flex items-center justify-between gap-4 rounded-lg bg-red-500/10 px-4 py-2">
+                <div className="text-sm">
+                  <span className="text-white">{loan.qty} x {loan.partId?.name || 'Deleted part'}</span>
+                  <span className="text-gray-400"> with </span>
+                  {loan.studentId ? (
+                    <button type="button" className="text-white hover:text-primary" onClick={() => showStudent(loan.studentId!._id)}>
+                      {loan.studentId.name}
+                    </button>
+                  ) : (
+                    <span className="text-white">{loanBorrowerName(loan)}</span>
+                  )}
+                  <span className="text-red-400"> · due {formatDate(loan.dueAt)}</span>
+                </div>
+                <Button variant="ghost" size="sm" leftIcon={<PackageCheck className="w-4 h-4" />} onClick={() => setCheckInLoan(loan)}>
+                  Check In
+                </Button>
+              </div>
+            ))}
+          </div>
+        </CardComponent>
+      )}
+
+      {/* Loans */}
+      <CardComponent variant="glass" className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+            <Wrench className="w-5 h-5 text-primary" />
+            Loans
+          </h2>
+          <div className="flex items-center gap-3">
+            <select
+              className="select"
+              value={borrowerType}
+              onChange={(e) => setBorrowerType(e.target.value as BorrowerType | '')}
+              aria-label="Borrower type"
+            >
+              <option value="">All borrowers</option>
+              <option value="student">Students</option>
+              <option value="team">Teams</option>
+              <option value="group">Groups</option>
+            </select>
+            <select
+              className="select"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+              aria-label="Status"
+            >
+              <option value="out">Out</option>
+              <option value="returned">Returned</option>
+              <option value="all">All</option>
+            </select>
+          </div>
+        </div>
+
+        {filtered.length === 0 ? (
+          <p className="text-gray-400 text-sm">No loans to show.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4 font-medium">Equipment</th>
+                  <th className="py-2 pr-4 font-medium">Borrower</th>
+                  <th className="py-2 pr-4 font-medium">Out</th>
+                  <th className="py-2 pr-4 font-medium">Due</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map((loan) => (
+                  <tr key={loan._id} className="border-b border-gray-800 align-top">
+                    <td className="py-3 pr-4">
+                      <p className="text-white">{loan.qty} x {loan.partId?.name || 'Deleted part'}</p>
+                      {loan.serialNumbers.length > 0 && (
+                        <p className="text-xs text-gray-400 font-mono">{loan.serialNumbers.join(', ')}</p>
+                      )}
+                      {loan.notes && <p className="text-xs text-gray-400 mt-1">{loan.notes}</p>}
+                    </td>
+                    <td className="py-3 pr-4">{renderBorrower(loan)}</td>
+                    <td className="py-3 pr-4 text-gray-300">
+                      {formatDate(loan.checkedOutAt)}
+                      {loan.checkedOutBy && <p className="text-xs text-gray-500">by {loan.checkedOutBy.name}</p>}
+                    </td>
+                    <td className={`py-3 pr-4 ${loan.isOverdue ? 'text-red-400 font-semibold' : 'text-gray-300'}`}>
+                      {formatDate(loan.dueAt)}
+                    </td>
+                    <td className="py-3 pr-4">
+                      {loan.status === 'out' ? (
+                        <Badge variant={loan.isOverdue ? 'error' : 'info'} size="sm">
+                          {loan.isOverdue ? 'overdue' : 'out'}
+                        </Badge>
+                      ) : (
+                        <>
+                          <Badge variant={CONDITION_VARIANTS[loan.checkIn?.condition || 'good']} size="sm">
+                            {loan.checkIn?.condition || 'returned'}
+                          </Badge>
+                          <p className="text-xs text-gray-500 mt-1">{formatDate(loan.checkIn?.checkedInAt)}</p>
+                          {!!loan.checkIn?.damagedQty && (
+                            <p className="text-xs text-red-400">
+                              {loan.checkIn.damagedQty} damaged
+                              {loan.checkIn.damagedSerials.length > 0 && ` (${loan.checkIn.damagedSerials.join(', ')})`}
+                            </p>
+                          )}
+                          {loan.checkIn?.notes && <p className="text-xs text-gray-400 mt-1">{loan.checkIn.notes}</p>}
+                        </>
+                      )}
+                    </td>
+                    <td className="py-3">
+                      {loan.status === 'out' && (
+                        <div className="flex justify-end gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            leftIcon={<CalendarClock className="w-4 h-4" />}
+                            onClick={() => handleExtend(loan)}
+                          >
+                            Extend
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            leftIcon={<PackageCheck className="w-4 h-4" />}
+                            onClick={() => setCheckInLoan(loan)}
+                            className="text-green-400 hover:bg-green-400/10"
+                          >
+                            Check In
+                          </Button>
+                        </div>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardComponent>
+
+      <LoanCheckOutModal
+        isOpen={showCheckOut}
+        onClose={() => setShowCheckOut(false)}
+        parts={loanableParts}
+        openLoans={openLoans}
+        onSubmit={handleCheckOut}
+      />
+
+      <LoanCheckInModal loan={checkInLoan} onClose={() => setCheckInLoan(null)} onSubmit={handleCheckIn} />
+    </motion.div>
+  );
+}
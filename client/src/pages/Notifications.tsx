@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
 import {
   Button,
   Badge,
@@ -11,168 +12,125 @@ import {
 import {
   Bell,
   ShoppingCart,
-  FolderKanban,
-  Users,
+  ClipboardList,
+  FileQuestion,
+  CreditCard,
+  CalendarX,
+  Star,
+  FolderOpen,
   Package,
+  Trophy,
   Settings,
   Check,
   Trash2,
   CheckCheck,
   Filter,
+  AlertCircle,
 } from "lucide-react";
+import {
+  useNotifications,
+  type AppNotification,
+  type NotificationType,
+} from "../hooks";
 
-interface Notification {
-  id: string;
-  type: "order" | "project" | "team" | "system" | "inventory";
-  title: string;
-  message: string;
-  timestamp: Date;
-  isRead: boolean;
-  isImportant: boolean;
-  actionUrl?: string;
-  actionLabel?: string;
-}
+const TYPE_CONFIG: Record<
+  NotificationType,
+  {
+    label: string;
+    icon: typeof Bell;
+    iconClass: string;
+    badge: "primary" | "secondary" | "success" | "error" | "warning" | "info";
+  }
+> = {
+  order: { label: "Orders", icon: ShoppingCart, iconClass: "bg-primary/10 text-primary", badge: "primary" },
+  assignment: { label: "Assignments", icon: ClipboardList, iconClass: "bg-secondary/10 text-secondary", badge: "secondary" },
+  quiz: { label: "Quizzes", icon: FileQuestion, iconClass: "bg-secondary/10 text-secondary", badge: "secondary" },
+  payment: { label: "Payments", icon: CreditCard, iconClass: "bg-yellow-500/10 text-yellow-400", badge: "warning" },
+  session: { label: "Sessions", icon: CalendarX, iconClass: "bg-accent/10 text-accent", badge: "info" },
+  evaluation: { label: "Evaluations", icon: Star, iconClass: "bg-green-500/10 text-green-400", badge: "success" },
+  resource: { label: "Resources", icon: FolderOpen, iconClass: "bg-accent/10 text-accent", badge: "info" },
+  inventory: { label: "Inventory", icon: Package, iconClass: "bg-red-500/10 text-red-400", badge: "error" },
+  competition: { label: "Competitions", icon: Trophy, iconClass: "bg-yellow-500/10 text-yellow-400", badge: "warning" },
+  system: { label: "System", icon: Settings, iconClass: "bg-purple-500/10 text-purple-400", badge: "info" },
+};
 
 export default function Notifications() {
   const toast = useToast();
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const navigate = useNavigate();
+  const {
+    notifications,
+    unreadCount,
+    pagination,
+    isLoading,
+    error,
+    refetch,
+    loadMore,
+    markAsRead,
+    markAllAsRead,
+    deleteNotification,
+  } = useNotifications();
   const [filter, setFilter] = useState<"all" | "unread" | "important">("all");
-  const [typeFilter, setTypeFilter] = useState<"all" | Notification["type"]>(
+  const [typeFilter, setTypeFilter] = useState<"all" | NotificationType>(
     "all"
   );
-  const [isLoading, setIsLoading] = useState(true);
   const [selectedNotifications, setSelectedNotifications] = useState<string[]>(
     []
   );
 
-  // Mock notifications data
+  // Filters are applied server-side so paging stays correct
   useEffect(() => {
-    setTimeout(() => {
-      const mockNotifications: Notification[] = [
-        {
-          id: "1",
-          type: "order",
-          title: "Order #1234 Shipped",
-          message:
-            "Your order containing Arduino Uno R3 and sensors has been shipped and is on its way.",
-          timestamp: new Date(Date.now() - 1000 * 60 * 30),
-          isRead: false,
-          isImportant: true,
-          actionUrl: "/orders/1234",
-          actionLabel: "Track Order",
-        },
-        {
-          id: "2",
-          type: "project",
-          title: "Project Update: Autonomous Robot",
-          message:
-            "John Davidson commented on your project and suggested improvements to the navigation system.",
-          timestamp: new Date(Date.now() - 1000 * 60 * 60 * 2),
-          isRead: false,
-          isImportant: false,
-          actionUrl: "/projects/autonomous-robot",
-          actionLabel: "View Project",
-        },
-        {
-          id: "3",
-          type: "team",
-          title: "Team Invitation",
-          message:
-            'You have been invited to join the "Advanced Robotics" team by Maria Santos.',
-          timestamp: new Date(Date.now() - 1000 * 60 * 60 * 4),
-          isRead: true,
-          isImportant: true,
-          actionUrl: "/teams/invitations",
-          actionLabel: "View Invitation",
-        },
-        {
-          id: "4",
-          type: "inventory",
-          title: "Low Stock Alert",
-          message:
-            "Arduino Nano boards are running low in stock. Only 5 units remaining.",
-          timestamp: new Date(Date.now() - 1000 * 60 * 60 * 6),
-          isRead: true,
-          isImportant: false,
-          actionUrl: "/inventory",
-          actionLabel: "View Inventory",
-        },
-        {
-          id: "5",
-          type: "system",
-          title: "System Maintenance Complete",
-          message:
-            "Scheduled maintenance has been completed. All services are now fully operational.",
-          timestamp: new Date(Date.now() - 1000 * 60 * 60 * 24),
-          isRead: true,
-          isImportant: false,
-        },
-        {
-          id: "6",
-          type: "project",
-          title: "Project Milestone Achieved",
-          message:
-            'Congratulations! Your "Industrial Drone" project has reached the testing phase.',
-          timestamp: new Date(Date.now() - 1000 * 60 * 60 * 48),
-          isRead: true,
-          isImportant: false,
-          actionUrl: "/projects/industrial-drone",
-          actionLabel: "View Project",
-        },
-      ];
-      setNotifications(mockNotifications);
-      setIsLoading(false);
-    }, 1000);
-  }, []);
-
-  // Filter notifications
-  const filteredNotifications = notifications.filter((notification) => {
-    if (filter === "unread" && notification.isRead) return false;
-    if (filter === "important" && !notification.isImportant) return false;
-    if (typeFilter !== "all" && notification.type !== typeFilter) return false;
-    return true;
-  });
+    refetch({
+      unread: filter === "unread",
+      important: filter === "important",
+      type: typeFilter === "all" ? undefined : typeFilter,
+      limit: 20,
+    });
+  }, [filter, typeFilter, refetch]);
 
   // Mark notification as read
-  const markAsRead = (id: string) => {
-    setNotifications((prev) =>
-      prev.map((notif) =>
-        notif.id === id ? { ...notif, isRead: true } : notif
-      )
-    );
-    toast.success("Marked as read");
+  const handleMarkAsRead = async (id: string) => {
+    if (await markAsRead(id)) {
+      toast.success("Marked as read");
+    }
   };
 
   // Mark all as read
-  const markAllAsRead = () => {
-    setNotifications((prev) =>
-      prev.map((notif) => ({ ...notif, isRead: true }))
-    );
-    toast.success("All notifications marked as read");
+  const handleMarkAllAsRead = async () => {
+    if (await markAllAsRead()) {
+      toast.success("All notifications marked as read");
+    }
   };
 
   // Delete notification
-  const deleteNotification = (id: string) => {
-    setNotifications((prev) => prev.filter((notif) => notif.id !== id));
-    toast.success("Notification deleted");
+  const handleDelete = async (id: string) => {
+    if (await deleteNotification(id)) {
+      setSelectedNotifications((prev) => prev.filter((nId) => nId !== id));
+      toast.success("Notification deleted");
+    }
+  };
+
+  // Open the notification's target page
+  const handleAction = (notification: AppNotification) => {
+    if (!notification.isRead) {
+      markAsRead(notification._id);
+    }
+    if (notification.actionUrl) {
+      navigate(notification.actionUrl);
+    }
   };
 
   // Bulk actions
-  const handleBulkAction = (action: "read" | "delete") => {
+  const handleBulkAction = async (action: "read" | "delete") => {
+    const ids = [...selectedNotifications];
     if (action === "read") {
-      setNotifications((prev) =>
-        prev.map((notif) =>
-          selectedNotifications.includes(notif.id)
-            ? { ...notif, isRead: true }
-            : notif
-        )
+      const unreadIds = ids.filter(
+        (id) => !notifications.find((n) => n._id === id)?.isRead
       );
-      toast.success(`${selectedNotifications.length} notifications marked as read`);
+      const results = await Promise.all(unreadIds.map((id) => markAsRead(id)));
+      toast.success(`${results.filter(Boolean).length} notifications marked as read`);
     } else if (action === "delete") {
-      setNotifications((prev) =>
-        prev.filter((notif) => !selectedNotifications.includes(notif.id))
-      );
-      toast.success(`${selectedNotifications.length} notifications deleted`);
+      const results = await Promise.all(ids.map((id) => deleteNotification(id)));
+      toast.success(`${results.filter(Boolean).length} notifications deleted`);
     }
     setSelectedNotifications([]);
   };
@@ -186,50 +144,30 @@ export default function Notifications() {
 
   // Select all visible notifications
   const selectAll = () => {
-    const visibleIds = filteredNotifications.map((n) => n.id);
+    const visibleIds = notifications.map((n) => n._id);
     setSelectedNotifications(visibleIds);
   };
 
   // Get notification icon
-  const getNotificationIcon = (type: Notification["type"]) => {
-    const icons = {
-      order: ShoppingCart,
-      project: FolderKanban,
-      team: Users,
-      inventory: Package,
-      system: Settings,
-    };
-    const Icon = icons[type];
+  const getNotificationIcon = (type: NotificationType) => {
+    const Icon = (TYPE_CONFIG[type] || TYPE_CONFIG.system).icon;
     return <Icon className="w-5 h-5" />;
   };
 
-  // Get type badge variant
-  const getTypeBadgeVariant = (type: Notification["type"]) => {
-    const variants = {
-      order: "primary" as const,
-      project: "secondary" as const,
-      team: "accent" as const,
-      inventory: "error" as const,
-      system: "info" as const,
-    };
-    return variants[type];
-  };
-
   // Format timestamp
-  const formatTimestamp = (timestamp: Date) => {
+  const formatTimestamp = (timestamp: string) => {
     const now = new Date();
-    const diff = now.getTime() - timestamp.getTime();
+    const diff = now.getTime() - new Date(timestamp).getTime();
     const minutes = Math.floor(diff / (1000 * 60));
     const hours = Math.floor(diff / (1000 * 60 * 60));
     const days = Math.floor(diff / (1000 * 60 * 60 * 24));
 
+    if (minutes < 1) return "just now";
     if (minutes < 60) return `${minutes}m ago`;
     if (hours < 24) return `${hours}h ago`;
     return `${days}d ago`;
   };
 
-  const unreadCount = notifications.filter((n) => !n.isRead).length;
-
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -255,7 +193,7 @@ export default function Notifications() {
             <Button
               variant="primary"
               leftIcon={<CheckCheck className="w-4 h-4" />}
-              onClick={markAllAsRead}
+              onClick={handleMarkAllAsRead}
             >
               Mark All Read
             </Button>
@@ -299,11 +237,11 @@ export default function Notifications() {
                   className="bg-background border border-border rounded-lg px-3 py-2 text-sm text-white focus:border-primary focus:ring-2 focus:ring-primary/20 focus:outline-none transition-all duration-300"
                 >
                   <option value="all">All Types</option>
-                  <option value="order">Orders</option>
-                  <option value="project">Projects</option>
-                  <option value="team">Teams</option>
-                  <option value="inventory">Inventory</option>
-                  <option value="system">System</option>
+                  {(Object.keys(TYPE_CONFIG) as NotificationType[]).map((type) => (
+                    <option key={type} value={type}>
+                      {TYPE_CONFIG[type].label}
+                    </option>
+                  ))}
                 </select>
               </div>
 
@@ -331,7 +269,7 @@ export default function Notifications() {
           </div>
 
           {/* Select All */}
-          {filteredNotifications.length > 0 && (
+          {notifications.length > 0 && (
             <div className="mt-4 pt-4 border-t border-border">
               <Button
                 variant="ghost"
@@ -339,7 +277,7 @@ export default function Notifications() {
                 onClick={selectAll}
                 className="text-primary hover:text-primary-dark"
               >
-                Select All ({filteredNotifications.length})
+                Select All ({notifications.length})
               </Button>
             </div>
           )}
@@ -348,7 +286,14 @@ export default function Notifications() {
 
       {/* Notifications List */}
       <div className="space-y-4">
-        {isLoading ? (
+        {error && notifications.length === 0 && !isLoading ? (
+          <Alert variant="error">
+            <div className="flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              <p>{error}</p>
+            </div>
+          </Alert>
+        ) : isLoading && notifications.length === 0 ? (
           // Loading state
           <div className="space-y-4">
             {[1, 2, 3, 4, 5].map((i) => (
@@ -366,7 +311,7 @@ export default function Notifications() {
               </CardComponent>
             ))}
           </div>
-        ) : filteredNotifications.length === 0 ? (
+        ) : notifications.length === 0 ? (
           // Empty state
           <CardComponent>
             <CardBody className="p-12 text-center">
@@ -385,9 +330,9 @@ export default function Notifications() {
           </CardComponent>
         ) : (
           // Notifications
-          filteredNotifications.map((notification) => (
+          notifications.map((notification) => (
             <CardComponent
-              key={notification.id}
+              key={notification._id}
               hover
               className={`${
                 !notification.isRead ? "border-l-4 border-l-primary" : ""
@@ -398,23 +343,15 @@ export default function Notifications() {
                   {/* Selection Checkbox */}
                   <input
                     type="checkbox"
-                    checked={selectedNotifications.includes(notification.id)}
-                    onChange={() => toggleSelection(notification.id)}
+                    checked={selectedNotifications.includes(notification._id)}
+                    onChange={() => toggleSelection(notification._id)}
                     className="mt-2 w-4 h-4 text-primary bg-background border-gray-600 rounded focus:ring-primary focus:ring-2 cursor-pointer"
                   />
 
                   {/* Notification Icon */}
                   <div
                     className={`w-10 h-10 rounded-xl flex items-center justify-center ${
-                      notification.type === "order"
-                        ? "bg-primary/10 text-primary"
-                        : notification.type === "project"
-                        ? "bg-secondary/10 text-secondary"
-                        : notification.type === "team"
-                        ? "bg-accent/10 text-accent"
-                        : notification.type === "inventory"
-                        ? "bg-red-500/10 text-red-400"
-                        : "bg-purple-500/10 text-purple-400"
+                      (TYPE_CONFIG[notification.type] || TYPE_CONFIG.system).iconClass
                     }`}
                   >
                     {getNotificationIcon(notification.type)}
@@ -441,17 +378,19 @@ export default function Notifications() {
                         )}
                       </div>
                       <span className="text-gray-400 text-xs md:text-sm whitespace-nowrap">
-                        {formatTimestamp(notification.timestamp)}
+                        {formatTimestamp(notification.createdAt)}
                       </span>
                     </div>
 
-                    <p
-                      className={`mb-4 text-sm md:text-base ${
-                        notification.isRead ? "text-gray-400" : "text-gray-300"
-                      }`}
-                    >
-                      {notification.message}
-                    </p>
+                    {notification.message && (
+                      <p
+                        className={`mb-4 text-sm md:text-base ${
+                          notification.isRead ? "text-gray-400" : "text-gray-300"
+                        }`}
+                      >
+                        {notification.message}
+                      </p>
+                    )}
 
                     {/* Actions */}
                     <div className="flex items-center justify-between flex-wrap gap-3">
@@ -460,13 +399,13 @@ export default function Notifications() {
                           <Button
                             variant="primary"
                             size="sm"
-                            onClick={() => markAsRead(notification.id)}
+                            onClick={() => handleAction(notification)}
                           >
-                            {notification.actionLabel}
+                            {notification.actionLabel || "Open"}
                           </Button>
                         )}
                         <Badge
-                          variant={getTypeBadgeVariant(notification.type)}
+                          variant={(TYPE_CONFIG[notification.type] || TYPE_CONFIG.system).badge}
                           size="sm"
                         >
                           {notification.type.charAt(0).toUpperCase() +
@@ -479,7 +418,7 @@ export default function Notifications() {
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => markAsRead(notification.id)}
+                            onClick={() => handleMarkAsRead(notification._id)}
                             className="text-primary hover:text-primary-dark"
                           >
                             Mark as Read
@@ -488,7 +427,7 @@ export default function Notifications() {
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => deleteNotification(notification.id)}
+                          onClick={() => handleDelete(notification._id)}
                           className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
                         >
                           <Trash2 className="w-4 h-4" />
@@ -503,6 +442,15 @@ export default function Notifications() {
         )}
       </div>
 
+      {/* Load more */}
+      {pagination?.hasMore && (
+        <div className="flex justify-center">
+          <Button variant="ghost" onClick={loadMore}>
+            Load more
+          </Button>
+        </div>
+      )}
+
       {/* Info Alert */}
       {notifications.length > 0 && (
         <Alert variant="info" className="mt-8">
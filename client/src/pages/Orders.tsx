@@ -11,24 +11,54 @@ import {
   Filter,
   ChevronDown,
   User,
-  Calendar
+  Calendar,
+  ClipboardCheck,
+  Printer,
+  PackageCheck,
+  Undo2,
+  History,
+  X
 } from 'lucide-react';
 import { useAuth } from '../providers/AuthProvider';
 import {
   useOrdersData,
   useOrdersRealtimeUpdates,
-  type Order
+  useInventoryData,
+  outstandingQty,
+  returnableQty,
+  type Order,
+  type OrderStatus,
+  type OrderHistoryEntry,
+  type OrderReviewLine,
+  type OrderLineQty
 } from '../hooks';
-import { LoadingState, Alert, Button, Badge, CardComponent } from '../components/ui';
+import { LoadingState, Alert, Button, Badge, CardComponent, useToast } from '../components/ui';
 import { motion, AnimatePresence } from 'framer-motion';
 
-type StatusFilter = 'all' | 'pending' | 'approved' | 'rejected' | 'fulfilled' | 'cancelled';
+type StatusFilter = 'all' | OrderStatus;
+
+type ActionResult = { success: boolean; error?: string };
+
+const shortId = (id: string) => id.slice(-6).toUpperCase();
+
+const statusLabel = (status: string) => status.replace('_', ' ');
+
+const HISTORY_LABELS: Record<OrderHistoryEntry['type'], string> = {
+  created: 'Placed',
+  reviewed: 'Reviewed',
+  handout: 'Handed out',
+  return: 'Returned',
+  closed: 'Closed',
+  rejected: 'Rejected',
+  cancelled: 'Cancelled'
+};
 
 /**
  * Premium Orders Management Page
  */
 export default function Orders() {
   const { user } = useAuth();
+  const toast = useToast();
   const { orders, stats, isLoading, error, refetch, actions } = useOrdersData();
 
   // Real-time updates
@@ -37,6 +67,10 @@ export default function Orders() {
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<StatusFilter>('all');
   const [expandedOrder, setExpandedOrder] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState<Order | null>(null);
+  const [handingOut, setHandingOut] = useState<Order | null>(null);
+  const [returning, setReturning] = useState<Order | null>(null);
+  const [printing, setPrinting] = useState(false);
 
   const canManageOrders = user?.role === 'admin' || user?.role === 'superadmin';
 
@@ -44,8 +78,8 @@ export default function Orders() {
   const filteredOrders = useMemo(() => {
     return orders.filter(order => {
       const matchesSearch = !searchQuery ||
-        order.orderNumber?.toLowerCase().includes(searchQuery.toLowerCase()) ||
-        order.userId?.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
+        shortId(order._id).toLowerCase().includes(searchQuery.toLowerCase()) ||
+        order.studentId?.name?.toLowerCase().includes(searchQuery.toLowerCase()) ||
         order.items.some(item => item.partId?.name?.toLowerCase().includes(searchQuery.toLowerCase()));
 
       const matchesStatus = statusFilter === 'all' || order.status === statusFilter;
@@ -55,34 +89,44 @@ export default function Orders() {
   }, [orders, searchQuery, statusFilter]);
 
   // Handle order actions
-  const handleApprove = async (orderId: string) => {
-    const result = await actions.approve(orderId);
-    if (!result.success && result.error) {
-      alert(result.error);
+  const report = (result: ActionResult, success: string) => {
+    if (result.success) {
+      toast.success(success);
+    } else {
+      toast.error(result.error || 'Something went wrong');
     }
   };
 
+  const handleApprove = async (orderId: string) => {
+    report(await actions.approve(orderId), 'Order approved');
+  };
+
   const handleReject = async (orderId: string) => {
     if (!window.confirm('Are you sure you want to reject this order?')) return;
-    const result = await actions.reject(orderId);
-    if (!result.success && result.error) {
-      alert(result.error);
-    }
+    report(await actions.reject(orderId), 'Order rejected');
   };
 
   const handleFulfill = async (orderId: string) => {
-    if (!window.confirm('Mark this order as fulfilled?')) return;
-    const result = await actions.fulfill(orderId);
-    if (!result.success && result.error) {
-      alert(result.error);
-    }
+    if (!window.confirm('Hand out everything still outstanding on this order?')) return;
+    report(await actions.fulfill(orderId), 'Order handed out');
+  };
+
+  const handleClose = async (orderId: string) => {
+    if (!window.confirm('Close this order? Parts not yet handed out are released and backorders dropped.')) return;
+    report(await actions.close(orderId), 'Order closed');
   };
 
   const handleCancel = async (orderId: string) => {
     if (!window.confirm('Are you sure you want to cancel this order?')) return;
-    const result = await actions.cancel(orderId);
-    if (!result.success && result.error) {
-      alert(result.error);
+    report(await actions.cancel(orderId), 'Order cancelled');
+  };
+
+  const handlePickList = async (orderIds?: string[]) => {
+    setPrinting(true);
+    const result = await actions.downloadPickList(orderIds);
+    setPrinting(false);
+    if (!result.success) {
+      toast.error(result.error || 'Failed to generate pick list');
     }
   };
 
@@ -97,6 +141,7 @@ export default function Orders() {
     switch (status) {
       case 'pending': return 'warning';
       case 'approved': return 'primary';
+      case 'partially_fulfilled': return 'info';
       case 'fulfilled': return 'success';
       case 'rejected': return 'error';
       case 'cancelled': return 'error';
@@ -109,6 +154,7 @@ export default function Orders() {
     switch (status) {
       case 'pending': return <Clock className="w-4 h-4" />;
       case 'approved': return <CheckCircle className="w-4 h-4" />;
+      case 'partially_fulfilled': return <PackageCheck className="w-4 h-4" />;
       case 'fulfilled': return <Package className="w-4 h-4" />;
       case 'rejected': return <XCircle className="w-4 h-4" />;
       case 'cancelled': return <XCircle className="w-4 h-4" />;
@@ -166,19 +212,32 @@ export default function Orders() {
           </p>
         </div>
 
-        <Button
-          variant="ghost"
-          size="sm"
-          leftIcon={<RefreshCw className="w-4 h-4" />}
-          onClick={refetch}
-        >
-          Refresh
-        </Button>
+        <div className="flex items-center gap-2">
+          {canManageOrders && (
+            <Button
+              variant="ghost"
+              size="sm"
+              leftIcon={<Printer className="w-4 h-4" />}
+              onClick={() => handlePickList()}
+              disabled={printing || !stats || stats.approved + stats.partiallyFulfilled === 0}
+            >
+              Pick List
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            leftIcon={<RefreshCw className="w-4 h-4" />}
+            onClick={refetch}
+          >
+            Refresh
+          </Button>
+        </div>
       </div>
 
       {/* Stats Cards */}
       {stats && (
-        <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
+        <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-4">
           <CardComponent variant="glass" className="p-4">
             <div className="flex items-center justify-between">
               <div>
@@ -209,6 +268,16 @@ export default function Orders() {
             </div>
           </CardComponent>
 
+          <CardComponent variant="glass" className="p-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <p className="text-gray-400 text-xs mb-1">Partly Out</p>
+                <p className="text-2xl font-bold text-blue-400">{stats.partiallyFulfilled}</p>
+              </div>
+              <PackageCheck className="w-8 h-8 text-blue-400/50" />
+            </div>
+          </CardComponent>
+
           <CardComponent variant="glass" className="p-4">
             <div className="flex items-center justify-between">
               <div>
@@ -267,6 +336,7 @@ export default function Orders() {
               <option value="all">All Status</option>
               <option value="pending">Pending</option>
               <option value="approved">Approved</option>
+              <option value="partially_fulfilled">Partly Handed Out</option>
               <option value="fulfilled">Fulfilled</option>
               <option value="rejected">Rejected</option>
               <option value="cancelled">Cancelled</option>
@@ -304,9 +374,15 @@ export default function Orders() {
                 expanded={expandedOrder === order._id}
                 onToggle={() => setExpandedOrder(expandedOrder === order._id ? null : order._id)}
                 canManage={canManageOrders}
+                isOwner={order.studentId?._id === user?.id}
                 onApprove={() => handleApprove(order._id)}
+                onReview={() => setReviewing(order)}
                 onReject={() => handleReject(order._id)}
+                onHandOut={() => setHandingOut(order)}
                 onFulfill={() => handleFulfill(order._id)}
+                onPickList={() => handlePickList([order._id])}
+                onReturn={() => setReturning(order)}
+                onClose={() => handleClose(order._id)}
                 onCancel={() => handleCancel(order._id)}
                 formatDate={formatDate}
                 getStatusVariant={getStatusVariant}
@@ -316,6 +392,44 @@ export default function Orders() {
           </AnimatePresence>
         </div>
       )}
+
+      <AnimatePresence>
+        {reviewing && (
+          <ReviewModal
+            order={reviewing}
+            onClose={() => setReviewing(null)}
+            onSubmit={async (lines, notes) => {
+              const result = await actions.review(reviewing._id, lines, notes);
+              if (result.success) toast.success('Order reviewed');
+              return result;
+            }}
+          />
+        )}
+        {handingOut && (
+          <LineQtyModal
+            mode="handout"
+            order={handingOut}
+            onClose={() => setHandingOut(null)}
+            onSubmit={async (lines, notes) => {
+              const result = await actions.handOut(handingOut._id, lines, notes);
+              if (result.success) toast.success('Parts handed out');
+              return result;
+            }}
+          />
+        )}
+        {returning && (
+          <LineQtyModal
+            mode="return"
+            order={returning}
+            onClose={() => setReturning(null)}
+            onSubmit={async (lines, notes) => {
+              const result = await actions.returnParts(returning._id, lines, notes);
+              if (result.success) toast.success('Parts returned');
+              return result;
+            }}
+          />
+        )}
+      </AnimatePresence>
     </motion.div>
   );
 }
@@ -328,9 +442,15 @@ interface OrderCardProps {
   expanded: boolean;
   onToggle: () => void;
   canManage: boolean;
+  isOwner: boolean;
   onApprove: () => void;
+  onReview: () => void;
   onReject: () => void;
+  onHandOut: () => void;
   onFulfill: () => void;
+  onPickList: () => void;
+  onReturn: () => void;
+  onClose: () => void;
   onCancel: () => void;
   formatDate: (date: string) => string;
   getStatusVariant: (status: string) => 'primary' | 'secondary' | 'error' | 'warning' | 'success' | 'info';
@@ -342,14 +462,26 @@ const OrderCard: React.FC<OrderCardProps> = ({
   expanded,
   onToggle,
   canManage,
+  isOwner,
   onApprove,
+  onReview,
   onReject,
+  onHandOut,
   onFulfill,
+  onPickList,
+  onReturn,
+  onClose,
   onCancel,
   formatDate,
   getStatusVariant,
   getStatusIcon
 }) => {
+  const inProgress = order.status === 'approved' || order.status === 'partially_fulfilled';
+  const canReturn = (canManage || isOwner)
+    && (order.status === 'partially_fulfilled' || order.status === 'fulfilled')
+    && order.items.some(item => returnableQty(item) > 0);
+  const canCancel = (canManage || isOwner) && (order.status === 'pending' || order.status === 'approved');
+
   return (
     <motion.div
       initial={{ opacity: 0, y: 20 }}
@@ -368,12 +500,12 @@ const OrderCard: React.FC<OrderCardProps> = ({
           <div className="flex-1">
             <div className="flex items-center gap-3 mb-2">
               <h3 className="text-lg font-semibold text-white">
-                Order #{order.orderNumber || order._id.slice(-6).toUpperCase()}
+                Order #{shortId(order._id)}
               </h3>
               <Badge variant={getStatusVariant(order.status)} size="sm">
                 <div className="flex items-center gap-1">
                   {getStatusIcon(order.status)}
-                  {order.status}
+                  {statusLabel(order.status)}
                 </div>
               </Badge>
             </div>
@@ -381,7 +513,7 @@ const OrderCard: React.FC<OrderCardProps> = ({
             <div className="flex items-center gap-4 text-sm text-gray-400">
               <div className="flex items-center gap-1">
                 <User className="w-4 h-4" />
-                {order.userId?.name || 'Unknown User'}
+                {order.studentId?.name || 'Unknown User'}
               </div>
               <div className="flex items-center gap-1">
                 <Calendar className="w-4 h-4" />
@@ -409,97 +541,174 @@ const OrderCard: React.FC<OrderCardProps> = ({
               animate={{ height: 'auto', opacity: 1 }}
               exit={{ height: 0, opacity: 0 }}
               transition={{ duration: 0.2 }}
-              className="overflow-hidden"
+              className="overflow-hidden cursor-default"
               onClick={(e) => e.stopPropagation()}
             >
               <div className="pt-4 border-t border-gray-700 space-y-4">
-                {/* Order Items */}
+                {/* Order Lines */}
                 <div>
                   <h4 className="text-sm font-semibold text-gray-300 mb-3">Order Items:</h4>
-                  <div className="space-y-2">
-                    {order.items.map((item, idx) => (
-                      <div
-                        key={idx}
-                        className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg border border-gray-700/50"
-                      >
-                        <div className="flex items-center gap-3">
-                          <Package className="w-5 h-5 text-primary" />
-                          <div>
-                            <p className="text-white font-medium">{item.partId?.name || 'Part'}</p>
-                            {item.partId?.sku && (
-                              <p className="text-xs text-gray-500">SKU: {item.partId.sku}</p>
-                            )}
-                          </div>
-                        </div>
-                        <span className="text-primary font-semibold">× {item.qty}</span>
-                      </div>
-                    ))}
+                  <div className="overflow-x-auto">
+                    <table className="w-full text-sm">
+                      <thead>
+                        <tr className="text-left text-xs text-gray-400 border-b border-gray-700">
+                          <th className="py-2 pr-3 font-medium">Part</th>
+                          <th className="py-2 px-2 font-medium text-right">Requested</th>
+                          <th className="py-2 px-2 font-medium text-right">Approved</th>
+                          <th className="py-2 px-2 font-medium text-right">Backorder</th>
+                          <th className="py-2 px-2 font-medium text-right">Handed Out</th>
+                          <th className="py-2 px-2 font-medium text-right">Returned</th>
+                          <th className="py-2 pl-2 font-medium text-right">Outstanding</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {order.items.map((item, idx) => (
+                          <tr key={idx} className="border-b border-gray-700/50">
+                            <td className="py-2 pr-3">
+                              <p className="text-white font-medium">{item.partId?.name || 'Part'}</p>
+                              {item.partId?.sku && (
+                                <p className="text-xs text-gray-500">SKU: {item.partId.sku}</p>
+                              )}
+                              {item.substitutedFrom && (
+                                <p className="text-xs text-yellow-400">Instead of {item.substitutedFrom.name}</p>
+                              )}
+                              {item.note && <p className="text-xs text-gray-400 italic">{item.note}</p>}
+                            </td>
+                            <td className="py-2 px-2 text-right text-gray-300">{item.qty}</td>
+                            <td className="py-2 px-2 text-right text-gray-300">{item.approvedQty ?? '—'}</td>
+                            <td className="py-2 px-2 text-right text-gray-300">{item.backorderQty || '—'}</td>
+                            <td className="py-2 px-2 text-right text-green-400">{item.fulfilledQty || '—'}</td>
+                            <td className="py-2 px-2 text-right text-gray-300">{item.returnedQty || '—'}</td>
+                            <td className="py-2 pl-2 text-right text-primary font-semibold">
+                              {order.status === 'rejected' || order.status === 'cancelled' ? '—' : outstandingQty(item)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
                   </div>
                 </div>
 
-                {/* Notes */}
-                {order.notes && (
-                  <div>
-                    <h4 className="text-sm font-semibold text-gray-300 mb-2">Notes:</h4>
-                    <p className="text-sm text-gray-400 bg-gray-800/30 p-3 rounded-lg border border-gray-700/30">
-                      {order.notes}
-                    </p>
-                  </div>
-                )}
-
                 {/* Action Buttons */}
-                {canManage && (
-                  <div className="flex items-center gap-2 pt-2">
-                    {order.status === 'pending' && (
-                      <>
-                        <Button
-                          variant="primary"
-                          size="sm"
-                          leftIcon={<CheckCircle className="w-4 h-4" />}
-                          onClick={onApprove}
-                        >
-                          Approve
-                        </Button>
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          leftIcon={<XCircle className="w-4 h-4" />}
-                          onClick={onReject}
-                          className="text-red-400 hover:text-red-300 hover:bg-red-400/10"
-                        >
-                          Reject
-                        </Button>
-                      </>
-                    )}
-
-                    {order.status === 'approved' && (
+                <div className="flex flex-wrap items-center gap-2 pt-2">
+                  {canManage && order.status === 'pending' && (
+                    <>
                       <Button
                         variant="primary"
                         size="sm"
+                        leftIcon={<CheckCircle className="w-4 h-4" />}
+                        onClick={onApprove}
+                      >
+                        Approve All
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        leftIcon={<ClipboardCheck className="w-4 h-4" />}
+                        onClick={onReview}
+                      >
+                        Review Lines
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        leftIcon={<XCircle className="w-4 h-4" />}
+                        onClick={onReject}
+                        className="text-red-400 hover:text-red-300 hover:bg-red-400/10"
+                      >
+                        Reject
+                      </Button>
+                    </>
+                  )}
+
+                  {canManage && inProgress && (
+                    <>
+                      <Button
+                        variant="primary"
+                        size="sm"
+                        leftIcon={<PackageCheck className="w-4 h-4" />}
+                        onClick={onHandOut}
+                      >
+                        Hand Out
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
                         leftIcon={<Package className="w-4 h-4" />}
                         onClick={onFulfill}
                       >
-                        Mark as Fulfilled
+                        Hand Out All
                       </Button>
-                    )}
-
-                    {(order.status === 'pending' || order.status === 'approved') && (
                       <Button
                         variant="ghost"
                         size="sm"
-                        onClick={onCancel}
-                        className="text-gray-400 hover:text-gray-300"
+                        leftIcon={<Printer className="w-4 h-4" />}
+                        onClick={onPickList}
                       >
-                        Cancel Order
+                        Pick List
                       </Button>
-                    )}
-                  </div>
-                )}
+                    </>
+                  )}
+
+                  {canManage && order.status === 'partially_fulfilled' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={onClose}
+                      className="text-gray-400 hover:text-gray-300"
+                    >
+                      Close Order
+                    </Button>
+                  )}
+
+                  {canReturn && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<Undo2 className="w-4 h-4" />}
+                      onClick={onReturn}
+                    >
+                      Return Parts
+                    </Button>
+                  )}
+
+                  {canCancel && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={onCancel}
+                      className="text-gray-400 hover:text-gray-300"
+                    >
+                      Cancel Order
+                    </Button>
+                  )}
+                </div>
 
-                {/* Approval Info */}
-                {order.approvedBy && (
-                  <div className="text-xs text-gray-500 pt-2 border-t border-gray-700/50">
-                    Approved by {order.approvedBy.name} on {formatDate(order.approvedAt || order.updatedAt)}
+                {/* History */}
+                {order.history.length > 0 && (
+                  <div className="pt-2 border-t border-gray-700/50">
+                    <h4 className="text-sm font-semibold text-gray-300 mb-3 flex items-center gap-2">
+                      <History className="w-4 h-4" />
+                      History
+                    </h4>
+                    <ol className="space-y-2">
+                      {order.history.map((entry, idx) => (
+                        <li key={idx} className="text-xs text-gray-400 flex gap-3">
+                          <span className="text-gray-500 whitespace-nowrap">{formatDate(entry.at)}</span>
+                          <div>
+                            <span className="text-white font-medium">{HISTORY_LABELS[entry.type]}</span>
+                            {entry.by?.name && <span> by {entry.by.name}</span>}
+                            {entry.lines.length > 0 && (
+                              <span>
+                                {': '}
+                                {entry.lines.map(line => describeHistoryLine(order, entry, line)).join(', ')}
+                              </span>
+                            )}
+                            {entry.notes && <p className="italic mt-0.5">{entry.notes}</p>}
+                          </div>
+                        </li>
+                      ))}
+                    </ol>
                   </div>
                 )}
               </div>
@@ -510,3 +719,297 @@ const OrderCard: React.FC<OrderCardProps> = ({
     </motion.div>
   );
 };
+
+// One line of a history entry, e.g. "3 × Arduino Uno (+2 backordered)"
+const describeHistoryLine = (
+  order: Order,
+  entry: OrderHistoryEntry,
+  line: OrderHistoryEntry['lines'][number]
+) => {
+  const item = order.items[line.index];
+  // Entries from before a substitution name the originally requested part
+  const name = line.partId && item?.substitutedFrom?._id === line.partId
+    ? item.substitutedFrom.name
+    : item?.partId?.name;
+  let text = `${line.qty} × ${name || `line ${line.index + 1}`}`;
+  if (entry.type === 'reviewed') {
+    if (line.backorderQty) text += ` (+${line.backorderQty} backordered)`;
+    if (line.substitutedFrom) text += ' (substituted)';
+  }
+  return text;
+};
+
+/**
+ * Review a pending order line by line: approve part of a line, backorder
+ * the rest or substitute another part
+ */
+interface ReviewModalProps {
+  order: Order;
+  onClose: () => void;
+  onSubmit: (lines: OrderReviewLine[], notes?: string) => Promise<ActionResult>;
+}
+
+const ReviewModal: React.FC<ReviewModalProps> = ({ order, onClose, onSubmit }) => {
+  const { parts } = useInventoryData();
+  const [lines, setLines] = useState<OrderReviewLine[]>(() =>
+    order.items.map((item, index) => ({ index, approvedQty: item.qty, backorderQty: 0, substitutePartId: '', note: '' }))
+  );
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const update = (index: number, changes: Partial<OrderReviewLine>) => {
+    setLines(current => current.map(line => (line.index === index ? { ...line, ...changes } : line)));
+  };
+
+  const invalid = lines.find(line => line.approvedQty + (line.backorderQty || 0) > order.items[line.index].qty);
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    setFormError(null);
+
+    const result = await onSubmit(
+      lines.map(line => ({
+        index: line.index,
+        approvedQty: line.approvedQty,
+        backorderQty: line.backorderQty || 0,
+        substitutePartId: line.substitutePartId || undefined,
+        note: line.note || undefined
+      })),
+      notes.trim() || undefined
+    );
+    setSaving(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setFormError(result.error || 'Failed to review order');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-surface border border-gray-700 rounded-2xl p-6 max-w-4xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-primary">Review Order #{shortId(order._id)}</h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          Approved parts are taken from stock; backordered parts are handed out once they are in stock.
+          Anything neither approved nor backordered is released.
+        </p>
+
+        {formError && <Alert variant="error" className="mb-4">{formError}</Alert>}
+
+        <div className="space-y-3">
+          {order.items.map((item, index) => {
+            const line = lines[index];
+            const over = line.approvedQty + (line.backorderQty || 0) > item.qty;
+            return (
+              <div key={index} className="p-3 bg-gray-800/50 rounded-lg border border-gray-700/50 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-white font-medium">{item.partId?.name || 'Part'}</p>
+                    {item.partId?.sku && <p className="text-xs text-gray-500">SKU: {item.partId.sku}</p>}
+                  </div>
+                  <span className="text-sm text-gray-400">Requested {item.qty}</span>
+                </div>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                  <label className="text-xs text-gray-400">
+                    Approve
+                    <input
+                      type="number"
+                      min={0}
+                      max={item.qty}
+                      className="input w-full mt-1"
+                      value={line.approvedQty}
+                      onChange={(e) => update(index, { approvedQty: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400">
+                    Backorder
+                    <input
+                      type="number"
+                      min={0}
+                      max={item.qty}
+                      className="input w-full mt-1"
+                      value={line.backorderQty || 0}
+                      onChange={(e) => update(index, { backorderQty: Math.max(0, Number(e.target.value) || 0) })}
+                    />
+                  </label>
+                  <label className="text-xs text-gray-400 col-span-2">
+                    Substitute with
+                    <select
+                      className="select w-full mt-1"
+                      value={line.substitutePartId}
+                      onChange={(e) => update(index, { substitutePartId: e.target.value })}
+                    >
+                      <option value="">Keep requested part</option>
+                      {parts
+                        .filter(part => part._id !== item.partId?._id)
+                        .map(part => (
+                          <option key={part._id} value={part._id}>
+                            {part.name} ({part.sku}) · {part.availableQty} available
+                          </option>
+                        ))}
+                    </select>
+                  </label>
+                </div>
+                <input
+                  type="text"
+                  className="input w-full"
+                  placeholder="Note for this line (optional)"
+                  value={line.note}
+                  maxLength={200}
+                  onChange={(e) => update(index, { note: e.target.value })}
+                />
+                {over && (
+                  <p className="text-xs text-red-400">Approved and backordered exceed the {item.qty} requested</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <textarea
+          className="input w-full mt-4"
+          rows={2}
+          placeholder="Notes for the student (optional)"
+          value={notes}
+          maxLength={500}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+
+        <div className="flex justify-end gap-2 mt-4">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={saving || !!invalid}>
+            {saving ? 'Saving...' : 'Save Review'}
+          </Button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
+
+/**
+ * Hand out some of an order's parts, or take back unused ones
+ */
+interface LineQtyModalProps {
+  mode: 'handout' | 'return';
+  order: Order;
+  onClose: () => void;
+  onSubmit: (lines: OrderLineQty[], notes?: string) => Promise<ActionResult>;
+}
+
+const LineQtyModal: React.FC<LineQtyModalProps> = ({ mode, order, onClose, onSubmit }) => {
+  const limitOf = mode === 'handout' ? outstandingQty : returnableQty;
+  const [quantities, setQuantities] = useState<number[]>(() =>
+    order.items.map(item => (mode === 'handout' ? limitOf(item) : 0))
+  );
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const lines = quantities
+    .map((qty, index) => ({ index, qty }))
+    .filter(line => line.qty > 0);
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    setFormError(null);
+
+    const result = await onSubmit(lines, notes.trim() || undefined);
+    setSaving(false);
+
+    if (result.success) {
+      onClose();
+    } else {
+      setFormError(result.error || (mode === 'handout' ? 'Failed to hand out parts' : 'Failed to return parts'));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-surface border border-gray-700 rounded-2xl p-6 max-w-2xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-2">
+          <h2 className="text-xl font-bold text-primary">
+            {mode === 'handout' ? 'Hand Out' : 'Return Parts'} - Order #{shortId(order._id)}
+          </h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-gray-400 mb-4">
+          {mode === 'handout'
+            ? 'Enter what is being handed out now; the rest stays on the order for a later hand-out.'
+            : 'Enter the unused parts being brought back; they go back into stock.'}
+        </p>
+
+        {formError && <Alert variant="error" className="mb-4">{formError}</Alert>}
+
+        <div className="space-y-2">
+          {order.items.map((item, index) => {
+            const limit = limitOf(item);
+            return (
+              <div
+                key={index}
+                className="flex items-center justify-between gap-4 p-3 bg-gray-800/50 rounded-lg border border-gray-700/50"
+              >
+                <div>
+                  <p className="text-white font-medium">{item.partId?.name || 'Part'}</p>
+                  <p className="text-xs text-gray-500">
+                    {mode === 'handout'
+                      ? `${limit} outstanding${item.reservedQty < limit ? `, ${limit - item.reservedQty} on backorder` : ''}`
+                      : `${limit} handed out and not returned`}
+                  </p>
+                </div>
+                <input
+                  type="number"
+                  min={0}
+                  max={limit}
+                  disabled={limit === 0}
+                  className="input w-24"
+                  value={quantities[index]}
+                  onChange={(e) => {
+                    const qty = Math.min(Math.max(0, Number(e.target.value) || 0), limit);
+                    setQuantities(current => current.map((value, i) => (i === index ? qty : value)));
+                  }}
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        <textarea
+          className="input w-full mt-4"
+          rows={2}
+          placeholder="Notes (optional)"
+          value={notes}
+          maxLength={500}
+          onChange={(e) => setNotes(e.target.value)}
+        />
+
+        <div className="flex justify-end gap-2 mt-4">
+          <Button variant="ghost" onClick={onClose}>Cancel</Button>
+          <Button variant="primary" onClick={handleSubmit} disabled={saving || lines.length === 0}>
+            {saving ? 'Saving...' : mode === 'handout' ? 'Hand Out' : 'Return'}
+          </Button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 import { useState } from "react";
-import { User as UserIcon, Mail, Lock, Globe, MapPin, Phone, Save, Camera } from "lucide-react";
+import { useSearchParams } from "react-router-dom";
+import { User as UserIcon, Mail, Lock, Globe, MapPin, Phone, Save, Camera, Wrench } from "lucide-react";
 import { useAuth } from "../providers/AuthProvider";
+import { MyLoansList } from "../components/stock/MyLoansList";
 import {
   Tabs,
   Input,
@@ -35,6 +37,7 @@ interface PasswordFormData {
 
 export default function Profile() {
   const { user } = useAuth();
+  const [searchParams] = useSearchParams();
   const toast = useToast();
 
   // Form states
@@ -392,8 +395,16 @@ export default function Profile() {
         </div>
       ),
     },
+    {
+      label: "Loans",
+      icon: <Wrench className="w-4 h-4" />,
+      content: <MyLoansList />,
+    },
   ];
 
+  // Overdue loan notifications link straight to the Loans tab
+  const defaultTab = Math.max(0, tabItems.findIndex((item) => item.label.toLowerCase() === searchParams.get("tab")));
+
   return (
     <div className="space-y-8">
       {/* Header */}
@@ -413,7 +424,7 @@ export default function Profile() {
 
       {/* Tabs */}
       <CardComponent>
-        <Tabs variant="pills" items={tabItems} />
+        <Tabs variant="pills" items={tabItems} defaultIndex={defaultTab} />
       </CardComponent>
     </div>
   );
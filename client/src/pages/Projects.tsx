@@ -13,17 +13,20 @@ import {
   CheckCircle,
   Clock,
   Archive,
-  X
+  X,
+  ClipboardList,
+  ShoppingCart
 } from 'lucide-react';
 import { useAuth } from '../providers/AuthProvider';
 import {
   useProjectsData,
   useProjectsRealtimeUpdates,
+  useProjectBom,
   type Project,
   type Part,
   type ProjectPart
 } from '../hooks';
-import { LoadingState, Alert, Button, Badge, CardComponent } from '../components/ui';
+import { LoadingState, Alert, Button, Badge, CardComponent, useToast } from '../components/ui';
 import { motion, AnimatePresence } from 'framer-motion';
 
 type StatusFilter = 'all' | 'planning' | 'active' | 'completed' | 'archived';
@@ -44,6 +47,7 @@ export default function Projects() {
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingProject, setEditingProject] = useState<Project | null>(null);
   const [managingParts, setManagingParts] = useState<Project | null>(null);
+  const [viewingBom, setViewingBom] = useState<Project | null>(null);
 
   const canManageProjects = user?.role === 'admin' || user?.role === 'superadmin';
 
@@ -300,6 +304,7 @@ export default function Projects() {
                 onEdit={() => setEditingProject(project)}
                 onDelete={() => handleDelete(project._id, project.title)}
                 onManageParts={() => setManagingParts(project)}
+                onViewBom={() => setViewingBom(project)}
                 formatDate={formatDate}
                 getStatusVariant={getStatusVariant}
                 getStatusIcon={getStatusIcon}
@@ -345,6 +350,13 @@ export default function Projects() {
           }}
         />
       )}
+
+      {viewingBom && (
+        <BomModal
+          project={viewingBom}
+          onClose={() => setViewingBom(null)}
+        />
+      )}
     </motion.div>
   );
 }
@@ -361,6 +373,7 @@ interface ProjectCardProps {
   onEdit: () => void;
   onDelete: () => void;
   onManageParts: () => void;
+  onViewBom: () => void;
   formatDate: (date: string) => string;
   getStatusVariant: (status?: string) => 'primary' | 'secondary' | 'error' | 'warning' | 'success' | 'info';
   getStatusIcon: (status?: string) => React.ReactNode;
@@ -375,6 +388,7 @@ const ProjectCard: React.FC<ProjectCardProps> = ({
   onEdit,
   onDelete,
   onManageParts,
+  onViewBom,
   formatDate,
   getStatusVariant,
   getStatusIcon
@@ -465,35 +479,47 @@ const ProjectCard: React.FC<ProjectCardProps> = ({
                 )}
 
                 {/* Action Buttons */}
-                {canManage && (
-                  <div className="flex flex-wrap items-center gap-2 pt-2">
-                    <Button
-                      variant="primary"
-                      size="sm"
-                      leftIcon={<Package className="w-4 h-4" />}
-                      onClick={onManageParts}
-                    >
-                      Manage Parts
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="sm"
-                      leftIcon={<Edit2 className="w-4 h-4" />}
-                      onClick={onEdit}
-                    >
-                      Edit
-                    </Button>
+                <div className="flex flex-wrap items-center gap-2 pt-2">
+                  {project.parts?.length > 0 && (
                     <Button
                       variant="ghost"
                       size="sm"
-                      leftIcon={<Trash2 className="w-4 h-4" />}
-                      onClick={onDelete}
-                      className="text-red-400 hover:text-red-300 hover:bg-red-400/10"
+                      leftIcon={<ClipboardList className="w-4 h-4" />}
+                      onClick={onViewBom}
                     >
-                      Delete
+                      BOM
                     </Button>
-                  </div>
-                )}
+                  )}
+                  {canManage && (
+                    <>
+                      <Button
+                        variant="primary"
+                        size="sm"
+                        leftIcon={<Package className="w-4 h-4" />}
+                        onClick={onManageParts}
+                      >
+                        Manage Parts
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        leftIcon={<Edit2 className="w-4 h-4" />}
+                        onClick={onEdit}
+                      >
+                        Edit
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        leftIcon={<Trash2 className="w-4 h-4" />}
+                        onClick={onDelete}
+                        className="text-red-400 hover:text-red-300 hover:bg-red-400/10"
+                      >
+                        Delete
+                      </Button>
+                    </>
+                  )}
+                </div>
 
                 {/* Metadata */}
                 <div className="text-xs text-gray-500 pt-2 border-t border-gray-700/50">
@@ -878,3 +904,176 @@ const ManagePartsModal: React.FC<ManagePartsModalProps> = ({ project, parts, onC
     </div>
   );
 };
+
+/**
+ * Bill of Materials Modal
+ */
+interface BomModalProps {
+  project: Project;
+  onClose: () => void;
+}
+
+const formatMoney = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const BomModal: React.FC<BomModalProps> = ({ project, onClose }) => {
+  const toast = useToast();
+  const { bom, isLoading, error, refetch, actions } = useProjectBom(project._id);
+  const [ordering, setOrdering] = useState(false);
+  const [stockError, setStockError] = useState<string | null>(null);
+
+  const handleOrder = async (partial: boolean) => {
+    setOrdering(true);
+    setStockError(null);
+
+    const result = await actions.orderShortfall(partial);
+    setOrdering(false);
+
+    if (result.success) {
+      toast.success(partial ? 'Ordered the parts in stock' : 'Order placed for the shortfall');
+    } else if (result.code === 'INSUFFICIENT_STOCK') {
+      setStockError(result.error || 'Not enough stock');
+    } else {
+      toast.error(result.error || 'Failed to order parts');
+    }
+  };
+
+  const lines = bom?.lines || [];
+  const totals = bom?.totals;
+
+  return (
+    <div className="fixed inset-0 bg-black/60 flex items-center justify-center p-4 z-50" onClick={onClose}>
+      <motion.div
+        initial={{ opacity: 0, scale: 0.95 }}
+        animate={{ opacity: 1, scale: 1 }}
+        exit={{ opacity: 0, scale: 0.95 }}
+        onClick={(e) => e.stopPropagation()}
+        className="bg-surface border border-gray-700 rounded-2xl p-6 max-w-5xl w-full max-h-[90vh] overflow-y-auto"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-primary">Bill of Materials - {project.title}</h2>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-300">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {isLoading && !bom ? (
+          <LoadingState type="spinner" text="Loading bill of materials..." />
+        ) : error ? (
+          <Alert variant="error" className="mb-4">
+            <div className="flex items-center justify-between gap-3">
+              <p className="text-sm">{error}</p>
+              <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
+                Retry
+              </Button>
+            </div>
+          </Alert>
+        ) : (
+          <>
+            {totals && (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 mb-4">
+                <div className="p-3 bg-gray-800/50 rounded-lg">
+                  <p className="text-xs text-gray-400">Estimated Cost</p>
+                  <p className="text-lg font-semibold text-white">{formatMoney(totals.estimatedCost)}</p>
+                </div>
+                <div className="p-3 bg-gray-800/50 rounded-lg">
+                  <p className="text-xs text-gray-400">Still to Order</p>
+                  <p className="text-lg font-semibold text-white">{formatMoney(totals.shortfallCost)}</p>
+                </div>
+                <div className="p-3 bg-gray-800/50 rounded-lg">
+                  <p className="text-xs text-gray-400">Parts Short</p>
+                  <p className="text-lg font-semibold text-white">{totals.shortfallLines} of {lines.length}</p>
+                </div>
+              </div>
+            )}
+
+            <div className="overflow-x-auto mb-4">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-gray-700">
+                    <th className="py-2 pr-4 font-medium">Part</th>
+                    <th className="py-2 pr-4 font-medium text-right">Required</th>
+                    <th className="py-2 pr-4 font-medium text-right">Ordered</th>
+                    <th className="py-2 pr-4 font-medium text-right">Fulfilled</th>
+                    <th className="py-2 pr-4 font-medium text-right">Short</th>
+                    <th className="py-2 pr-4 font-medium text-right">Available</th>
+                    <th className="py-2 pr-4 font-medium text-right">Unit Cost</th>
+                    <th className="py-2 font-medium text-right">Cost</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map((line) => (
+                    <tr key={line.partId} className="border-b border-gray-800">
+                      <td className="py-2 pr-4">
+                        {line.missing ? (
+                          <span className="text-gray-500 italic">Deleted part</span>
+                        ) : (
+                          <>
+                            <p className="text-white">{line.name}</p>
+                            {line.sku && <p className="text-xs text-gray-500 font-mono">{line.sku}</p>}
+                          </>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-right text-white">{line.requiredQty}</td>
+                      <td className="py-2 pr-4 text-right text-gray-300">{line.openQty}</td>
+                      <td className="py-2 pr-4 text-right text-gray-300">{line.fulfilledQty}</td>
+                      <td className="py-2 pr-4 text-right">
+                        {line.shortfallQty > 0
+                          ? <span className="text-yellow-400 font-semibold">{line.shortfallQty}</span>
+                          : <span className="text-green-400">0</span>}
+                      </td>
+                      <td className={`py-2 pr-4 text-right ${line.availableQty < line.shortfallQty ? 'text-red-400' : 'text-gray-300'}`}>
+                        {line.availableQty}
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-300">
+                        {line.unitCost === null ? <span className="text-gray-500">-</span> : formatMoney(line.unitCost)}
+                      </td>
+                      <td className="py-2 text-right text-gray-300">
+                        {line.estimatedCost === null ? <span className="text-gray-500">No cost</span> : formatMoney(line.estimatedCost)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+
+            {totals && totals.uncostedParts > 0 && (
+              <p className="text-xs text-gray-500 mb-4">
+                {totals.uncostedParts} part{totals.uncostedParts === 1 ? ' has' : 's have'} never been bought with a cost and
+                {totals.uncostedParts === 1 ? ' is' : ' are'} left out of the totals.
+              </p>
+            )}
+
+            {stockError && (
+              <Alert variant="warning" className="mb-4">
+                <p className="text-sm">{stockError}</p>
+                {totals && totals.orderableLines > 0 && (
+                  <p className="text-sm mt-1">You can order what is in stock now and the rest later.</p>
+                )}
+              </Alert>
+            )}
+          </>
+        )}
+
+        <div className="flex items-center justify-end gap-2 pt-4 border-t border-gray-700">
+          <Button variant="ghost" onClick={onClose} disabled={ordering}>
+            Close
+          </Button>
+          {stockError && totals && totals.orderableLines > 0 && (
+            <Button variant="ghost" onClick={() => handleOrder(true)} disabled={ordering}>
+              Order Available Only
+            </Button>
+          )}
+          <Button
+            variant="primary"
+            leftIcon={<ShoppingCart className="w-4 h-4" />}
+            onClick={() => handleOrder(false)}
+            disabled={ordering || !totals || totals.shortfallLines === 0}
+          >
+            {ordering ? 'Ordering...' : 'Order Shortfall'}
+          </Button>
+        </div>
+      </motion.div>
+    </div>
+  );
+};
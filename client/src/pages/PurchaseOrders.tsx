@@ -0,0 +1,349 @@
+import { useState, useMemo, useEffect } from 'react';
+import { Link, useLocation, useNavigate } from 'react-router-dom';
+import {
+  AlertCircle,
+  ArrowLeft,
+  ChevronDown,
+  ChevronUp,
+  Edit2,
+  FileText,
+  PackageCheck,
+  Plus,
+  RefreshCw,
+  Send,
+  Truck,
+  X
+} from 'lucide-react';
+import { motion } from 'framer-motion';
+import {
+  useInventoryData,
+  useInventoryValuation,
+  usePurchaseOrders,
+  useSuppliers,
+  type PurchaseOrder,
+  type PurchaseOrderLineInput,
+  type PurchaseOrderStatus
+} from '../hooks';
+import { LoadingState, Alert, Button, CardComponent, Badge, useToast } from '../components/ui';
+import { PurchaseOrderFormModal } from '../components/stock/PurchaseOrderFormModal';
+import { ReceiveDeliveryModal } from '../components/stock/ReceiveDeliveryModal';
+import { SuppliersModal } from '../components/stock/SuppliersModal';
+import { ROUTES } from '../shared/constants/routes.constants';
+
+const STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partially received',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_VARIANTS: Record<PurchaseOrderStatus, 'default' | 'info' | 'warning' | 'success' | 'error'> = {
+  draft: 'default',
+  ordered: 'info',
+  partially_received: 'warning',
+  received: 'success',
+  cancelled: 'error',
+};
+
+/** Prefill handed over by the requisitions page */
+interface PurchaseOrderPrefill {
+  supplierId?: string;
+  lines: PurchaseOrderLineInput[];
+}
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : '-';
+
+const formatMoney = (value: number) => value.toFixed(2);
+
+/**
+ * Purchase orders placed with suppliers: drafting, placing, and
+ * receiving deliveries into stock line by line
+ */
+export default function PurchaseOrders() {
+  const toast = useToast();
+  const location = useLocation();
+  const navigate = useNavigate();
+  const { orders, isLoading, error, refetch, actions } = usePurchaseOrders();
+  const { suppliers, actions: supplierActions } = useSuppliers();
+  const { parts } = useInventoryData();
+  const { valuation } = useInventoryValuation();
+
+  const [statusFilter, setStatusFilter] = useState<'open' | 'all' | PurchaseOrderStatus>('open');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [editingOrder, setEditingOrder] = useState<PurchaseOrder | null>(null);
+  const [prefill, setPrefill] = useState<PurchaseOrderPrefill | null>(null);
+  const [receivingOrder, setReceivingOrder] = useState<PurchaseOrder | null>(null);
+  const [showSuppliers, setShowSuppliers] = useState(false);
+
+  // Open the form prefilled when arriving from the requisitions page
+  useEffect(() => {
+    const state = location.state as { prefill?: PurchaseOrderPrefill } | null;
+    if (state?.prefill) {
+      setPrefill(state.prefill);
+      setEditingOrder(null);
+      setShowForm(true);
+      navigate(location.pathname, { replace: true, state: null });
+    }
+  }, [location, navigate]);
+
+  const lastCosts = useMemo(() => Object.fromEntries(
+    (valuation?.items || [])
+      .filter((item) => item.lastUnitCost !== null)
+      .map((item) => [item.partId, item.lastUnitCost as number])
+  ), [valuation]);
+
+  const activeSuppliers = useMemo(() => suppliers.filter((s) => s.isActive), [suppliers]);
+
+  const filtered = useMemo(() => orders.filter((order) => {
+    if (statusFilter === 'all') return true;
+    if (statusFilter === 'open') return ['draft', 'ordered', 'partially_received'].includes(order.status);
+    return order.status === statusFilter;
+  }), [orders, statusFilter]);
+
+  const openCreate = () => {
+    setPrefill(null);
+    setEditingOrder(null);
+    setShowForm(true);
+  };
+
+  const openEdit = (order: PurchaseOrder) => {
+    setPrefill(null);
+    setEditingOrder(order);
+    setShowForm(true);
+  };
+
+  const handlePlace = async (order: PurchaseOrder) => {
+    if (!window.confirm(`Place ${order.orderNumber} with ${order.supplierId?.name}?`)) return;
+    const result = await actions.updateStatus(order._id, 'ordered');
+    if (result.success) {
+      toast.success(`${order.orderNumber} placed`);
+    } else {
+      toast.error(result.error || 'Failed to place order');
+    }
+  };
+
+  const handleCancel = async (order: PurchaseOrder) => {
+    const warning = order.status === 'partially_received'
+      ? ' Parts already received stay in stock; the rest will no longer be expected.'
+      : '';
+    if (!window.confirm(`Cancel ${order.orderNumber}?${warning}`)) return;
+    const result = await actions.updateStatus(order._id, 'cancelled');
+    if (result.success) {
+      toast.success(`${order.orderNumber} cancelled`);
+    } else {
+      toast.error(result.error || 'Failed to cancel order');
+    }
+  };
+
+  const handleReceive = async (orderId: string, lines: { lineId: string; qty: number }[], notes?: string) => {
+    const result = await actions.receive(orderId, lines, notes);
+    if (result.success) toast.success('Delivery received into stock');
+    return result;
+  };
+
+  if (isLoading) return <LoadingState type="skeleton" text="Loading purchase orders..." />;
+
+  if (error) {
+    return (
+      <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+        <Alert variant="error">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5" />
+            <div className="flex-1">
+              <p className="font-semibold">Failed to load purchase orders</p>
+              <p className="text-sm">{error}</p>
+            </div>
+            <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
+              Retry
+            </Button>
+          </div>
+        </Alert>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link to={ROUTES.INVENTORY} className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-primary mb-2">
+            <ArrowLeft className="w-4 h-4" />
+            Inventory
+          </Link>
+          <h1 className="text-3xl font-bold text-primary">Purchase Orders</h1>
+          <p className="text-gray-400 mt-1">Orders with suppliers and what is still on its way</p>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
+            Refresh
+          </Button>
+          <Button variant="ghost" size="sm" leftIcon={<Truck className="w-4 h-4" />} onClick={() => setShowSuppliers(true)}>
+            Suppliers
+          </Button>
+          <Button variant="primary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={openCreate}>
+            New Order
+          </Button>
+        </div>
+      </div>
+
+      <CardComponent variant="glass" className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+            <FileText className="w-5 h-5 text-primary" />
+            Orders
+          </h2>
+          <select
+            className="select"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+          >
+            <option value="open">Open</option>
+            <option value="all">All</option>
+            {Object.entries(STATUS_LABELS).map(([status, label]) => (
+              <option key={status} value={status}>{label}</option>
+            ))}
+          </select>
+        </div>
+
+        {filtered.length === 0 ? (
+          <p className="text-gray-400 text-sm">No purchase orders to show.</p>
+        ) : (
+          <div className="space-y-3">
+            {filtered.map((order) => {
+              const isExpanded = expandedId === order._id;
+              const ordered = order.lines.reduce((sum, line) => sum + line.qty, 0);
+              const received = order.lines.reduce((sum, line) => sum + line.receivedQty, 0);
+              const canReceive = order.status === 'ordered' || order.status === 'partially_received';
+
+              return (
+                <div key={order._id} className="border border-gray-700 rounded-xl">
+                  <div className="flex flex-wrap items-center gap-4 p-4">
+                    <button
+                      type="button"
+                      onClick={() => setExpandedId(isExpanded ? null : order._id)}
+                      className="flex items-center gap-3 flex-1 min-w-0 text-left"
+                    >
+                      {isExpanded ? <ChevronUp className="w-4 h-4 text-gray-400" /> : <ChevronDown className="w-4 h-4 text-gray-400" />}
+                      <div className="min-w-0">
+                        <p className="text-white font-semibold">
+                          {order.orderNumber}
+                          <span className="text-gray-400 font-normal"> · {order.supplierId?.name || 'Unknown supplier'}</span>
+                        </p>
+                        <p className="text-xs text-gray-500">
+                          {order.lines.length} line{order.lines.length === 1 ? '' : 's'} · {received}/{ordered} received
+                          · expected {formatDate(order.expectedAt)}
+                        </p>
+                      </div>
+                    </button>
+                    <span className="text-white font-semibold">{formatMoney(order.totalCost)}</span>
+                    <Badge variant={STATUS_VARIANTS[order.status]} size="sm">{STATUS_LABELS[order.status]}</Badge>
+                    <div className="flex gap-1">
+                      {order.status === 'draft' && (
+                        <>
+                          <Button variant="ghost" size="sm" leftIcon={<Edit2 className="w-4 h-4" />} onClick={() => openEdit(order)}>
+                            Edit
+                          </Button>
+                          <Button variant="ghost" size="sm" leftIcon={<Send className="w-4 h-4" />} onClick={() => handlePlace(order)}>
+                            Place
+                          </Button>
+                        </>
+                      )}
+                      {canReceive && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          leftIcon={<PackageCheck className="w-4 h-4" />}
+                          onClick={() => setReceivingOrder(order)}
+                          className="text-green-400 hover:bg-green-400/10"
+                        >
+                          Receive
+                        </Button>
+                      )}
+                      {(order.status === 'draft' || canReceive) && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          leftIcon={<X className="w-4 h-4" />}
+                          onClick={() => handleCancel(order)}
+                          className="text-red-400 hover:bg-red-400/10"
+                        >
+                          Cancel
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+
+                  {isExpanded && (
+                    <div className="border-t border-gray-700 p-4">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-400">
+                            <th className="py-1 pr-4 font-medium">Part</th>
+                            <th className="py-1 pr-4 font-medium text-right">Qty</th>
+                            <th className="py-1 pr-4 font-medium text-right">Received</th>
+                            <th className="py-1 pr-4 font-medium text-right">Unit cost</th>
+                            <th className="py-1 font-medium text-right">Line total</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {order.lines.map((line) => (
+                            <tr key={line._id} className="border-t border-gray-800">
+                              <td className="py-2 pr-4 text-gray-200">
+                                {line.partId?.name || 'Deleted part'}
+                                {line.requisitionId && <span className="text-xs text-gray-500 ml-2">from requisition</span>}
+                              </td>
+                              <td className="py-2 pr-4 text-right text-gray-300">{line.qty}</td>
+                              <td className={`py-2 pr-4 text-right ${line.receivedQty >= line.qty ? 'text-green-400' : 'text-gray-300'}`}>
+                                {line.receivedQty}
+                              </td>
+                              <td className="py-2 pr-4 text-right text-gray-300">{formatMoney(line.unitCost)}</td>
+                              <td className="py-2 text-right text-gray-200">{formatMoney(line.qty * line.unitCost)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                      <p className="text-xs text-gray-500 mt-3">
+                        Created {formatDate(order.createdAt)}{order.createdBy ? ` by ${order.createdBy.name}` : ''}
+                        {order.orderedAt && ` · placed ${formatDate(order.orderedAt)}`}
+                        {order.receivedAt && ` · received ${formatDate(order.receivedAt)}`}
+                        {order.cancelledAt && ` · cancelled ${formatDate(order.cancelledAt)}`}
+                      </p>
+                      {order.notes && <p className="text-sm text-gray-400 mt-2">{order.notes}</p>}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardComponent>
+
+      <PurchaseOrderFormModal
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        parts={parts}
+        suppliers={activeSuppliers}
+        order={editingOrder}
+        initial={prefill}
+        lastCosts={lastCosts}
+        onSubmit={(data) => (editingOrder ? actions.update(editingOrder._id, data) : actions.create(data))}
+      />
+
+      <ReceiveDeliveryModal
+        order={receivingOrder}
+        onClose={() => setReceivingOrder(null)}
+        onSubmit={handleReceive}
+      />
+
+      <SuppliersModal
+        isOpen={showSuppliers}
+        onClose={() => setShowSuppliers(false)}
+        suppliers={suppliers}
+        actions={supplierActions}
+      />
+    </motion.div>
+  );
+}
@@ -5,6 +5,7 @@
  * - Student and trainer accounts
  * - Course enrollments
  * - Interested customer leads
+ * - Overdue installments
  *
  */
 
@@ -22,6 +23,7 @@ import {
   FileText,
   Clock,
   ArrowRight,
+  AlertTriangle,
 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
 import { useReceptionDashboard } from '../hooks';
@@ -32,7 +34,7 @@ import { useAuth } from '../providers/AuthProvider';
 const ReceptionDashboard: React.FC = () => {
   const navigate = useNavigate();
   const { user } = useAuth();
-  const { stats, isLoading, error, refetch } = useReceptionDashboard();
+  const { stats, overdue, isLoading, error, refetch } = useReceptionDashboard();
 
   const [recentEnrollments, setRecentEnrollments] = useState<any[]>([]);
   const [recentActivities, setRecentActivities] = useState<any[]>([]);
@@ -158,7 +160,7 @@ const ReceptionDashboard: React.FC = () => {
       {/* Stats Grid */}
       <motion.div
         variants={itemVariants}
-        className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6"
+        className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 xl:grid-cols-6 gap-6"
       >
         <StatsCard
           label="Total Students"
@@ -190,8 +192,77 @@ const ReceptionDashboard: React.FC = () => {
           value={stats?.activeGroups || 0}
           icon={<UsersRound className="w-6 h-6" />}
         />
+        <StatsCard
+          label="Overdue Installments"
+          value={stats?.overdueInstallments || 0}
+          icon={<AlertTriangle className="w-6 h-6" />}
+        />
       </motion.div>
 
+      {/* Overdue Installments */}
+      {overdue.length > 0 && (
+        <motion.div variants={itemVariants}>
+          <CardComponent variant="glass">
+            <CardBody>
+              <div className="flex items-center justify-between mb-6">
+                <div>
+                  <h2 className="text-xl font-bold text-white flex items-center gap-2">
+                    <AlertTriangle className="w-5 h-5 text-red-400" />
+                    Overdue Payments
+                  </h2>
+                  <p className="text-white/60 text-sm mt-1">
+                    {stats?.overdueInstallments || overdue.length} installment(s) · $
+                    {(stats?.overdueAmount || 0).toFixed(2)} outstanding
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => navigate('/reception/enrollments')}
+                  className="text-primary hover:text-primary/80"
+                >
+                  View All
+                  <ArrowRight className="w-4 h-4 ml-1" />
+                </Button>
+              </div>
+
+              <div className="space-y-3">
+                {overdue.map((item) => (
+                  <div
+                    key={item.installment._id}
+                    className="flex items-center gap-3 p-4 bg-white/5 rounded-lg border border-white/10"
+                  >
+                    <div className="w-10 h-10 rounded-full bg-red-500/20 flex items-center justify-center text-red-400 font-semibold text-sm flex-shrink-0">
+                      {item.student?.name?.charAt(0).toUpperCase() || '?'}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-white truncate">
+                        {item.student?.name || 'Unknown student'}
+                      </p>
+                      <p className="text-sm text-white/60 truncate">
+                        {item.course?.title || 'Unknown course'}
+                        {item.installment.label && ` · ${item.installment.label}`}
+                      </p>
+                    </div>
+                    <div className="text-right">
+                      <p className="font-semibold text-white">
+                        ${item.installment.outstanding.toFixed(2)}
+                      </p>
+                      <p className="text-xs text-white/50">
+                        Due {new Date(item.installment.dueDate).toLocaleDateString()}
+                      </p>
+                    </div>
+                    <Badge variant="error" size="sm">
+                      {item.daysOverdue}d overdue
+                    </Badge>
+                  </div>
+                ))}
+              </div>
+            </CardBody>
+          </CardComponent>
+        </motion.div>
+      )}
+
       {/* Quick Actions */}
       <motion.div variants={itemVariants}>
         <div className="mb-6">
@@ -0,0 +1,364 @@
+import { useState, useMemo } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  AlertCircle,
+  AlertTriangle,
+  ArrowLeft,
+  ClipboardList,
+  FileText,
+  PackageCheck,
+  Plus,
+  RefreshCw,
+  ShoppingCart,
+  X
+} from 'lucide-react';
+import { motion } from 'framer-motion';
+import {
+  useInventoryData,
+  useRequisitions,
+  useSuppliers,
+  type Requisition,
+  type RequisitionStatus
+} from '../hooks';
+import { LoadingState, Alert, Button, CardComponent, Badge, useToast } from '../components/ui';
+import { RequisitionFormModal } from '../components/stock/RequisitionFormModal';
+import { ROUTES } from '../shared/constants/routes.constants';
+
+const STATUS_VARIANTS: Record<RequisitionStatus, 'warning' | 'info' | 'success' | 'default'> = {
+  requested: 'warning',
+  ordered: 'info',
+  received: 'success',
+  cancelled: 'default',
+};
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : '-';
+
+/**
+ * Purchase requisitions: parts below their reorder point and the
+ * requisitions raised to restock them, from request to receipt
+ */
+export default function Requisitions() {
+  const toast = useToast();
+  const { requisitions, lowStock, isLoading, error, refetch, actions } = useRequisitions();
+  const { parts } = useInventoryData();
+  const { suppliers } = useSuppliers(true);
+  const navigate = useNavigate();
+
+  const [statusFilter, setStatusFilter] = useState<'open' | 'all' | RequisitionStatus>('open');
+  const [formPartId, setFormPartId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const filtered = useMemo(() => requisitions.filter((r) => {
+    if (statusFilter === 'all') return true;
+    if (statusFilter === 'open') return r.status === 'requested' || r.status === 'ordered';
+    return r.status === statusFilter;
+  }), [requisitions, statusFilter]);
+
+  // Only requested requisitions not yet on a purchase order can be bundled into one
+  const canBundle = (r: Requisition) => r.status === 'requested' && !r.purchaseOrderId && !!r.partId;
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((prev) => (prev.includes(id) ? prev.filter((x) => x !== id) : [...prev, id]));
+  };
+
+  const handleCreateOrder = () => {
+    const selected = requisitions.filter((r) => selectedIds.includes(r._id) && canBundle(r));
+    if (selected.length === 0) return;
+    const supplierIds = [...new Set(selected.map((r) => r.supplierId?._id || r.partId.supplierId || ''))];
+    navigate(ROUTES.INVENTORY_PURCHASE_ORDERS, {
+      state: {
+        prefill: {
+          supplierId: supplierIds.length === 1 ? supplierIds[0] || undefined : undefined,
+          lines: selected.map((r) => ({
+            partId: r.partId._id,
+            qty: r.qty - r.receivedQty,
+            unitCost: 0,
+            requisitionId: r._id,
+          })),
+        },
+      },
+    });
+  };
+
+  const openForm = (partId: string | null = null) => {
+    setFormPartId(partId);
+    setShowForm(true);
+  };
+
+  const report = (result: { success: boolean; error?: string }, message: string) => {
+    if (result.success) {
+      toast.success(message);
+    } else {
+      toast.error(result.error || 'Something went wrong');
+    }
+  };
+
+  const handleOrdered = async (requisition: Requisition) => {
+    report(await actions.markOrdered(requisition._id), 'Requisition marked as ordered');
+  };
+
+  const handleReceive = async (requisition: Requisition) => {
+    const outstanding = requisition.qty - requisition.receivedQty;
+    const input = window.prompt(
+      `Receive how many ${requisition.partId.name}? (${outstanding} outstanding)`,
+      String(outstanding)
+    );
+    if (input === null) return;
+    const qty = parseInt(input, 10);
+    if (!qty || qty < 1) {
+      toast.error('Enter a quantity of at least 1');
+      return;
+    }
+    report(await actions.receive(requisition._id, qty), `Received ${qty} into stock`);
+  };
+
+  const handleCancel = async (requisition: Requisition) => {
+    if (!window.confirm(`Cancel the requisition for ${requisition.qty} x ${requisition.partId.name}?`)) return;
+    report(await actions.cancel(requisition._id), 'Requisition cancelled');
+  };
+
+  if (isLoading) return <LoadingState type="skeleton" text="Loading requisitions..." />;
+
+  if (error) {
+    return (
+      <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+        <Alert variant="error">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5" />
+            <div className="flex-1">
+              <p className="font-semibold">Failed to load requisitions</p>
+              <p className="text-sm">{error}</p>
+            </div>
+            <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
+              Retry
+            </Button>
+          </div>
+        </Alert>
+      </motion.div>
+    );
+  }
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link to={ROUTES.INVENTORY} className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-primary mb-2">
+            <ArrowLeft className="w-4 h-4" />
+            Inventory
+          </Link>
+          <h1 className="text-3xl font-bold text-primary">Purchase Requisitions</h1>
+          <p className="text-gray-400 mt-1">Restock parts before they run out</p>
+        </div>
+        <div className="flex gap-3">
+          <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
+            Refresh
+          </Button>
+          <Link to={ROUTES.INVENTORY_PURCHASE_ORDERS}>
+            <Button variant="ghost" size="sm" leftIcon={<FileText className="w-4 h-4" />}>
+              Purchase Orders
+            </Button>
+          </Link>
+          <Button variant="primary" size="sm" leftIcon={<Plus className="w-4 h-4" />} onClick={() => openForm()}>
+            New Requisition
+          </Button>
+        </div>
+      </div>
+
+      {/* Low stock */}
+      <CardComponent variant="glass" className="p-6">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2 mb-4">
+          <AlertTriangle className="w-5 h-5 text-yellow-400" />
+          Below Reorder Point
+        </h2>
+        {lowStock.length === 0 ? (
+          <p className="text-gray-400 text-sm">All parts with a reorder point are above it.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4 font-medium">Part</th>
+                  <th className="py-2 pr-4 font-medium text-right">Available</th>
+                  <th className="py-2 pr-4 font-medium text-right">Reorder Point</th>
+                  <th className="py-2 pr-4 font-medium">Requisition</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {lowStock.map((part) => (
+                  <tr key={part.partId} className="border-b border-gray-800">
+                    <td className="py-2 pr-4">
+                      <span className="text-white">{part.name}</span>
+                      {part.sku && <span className="text-gray-500 font-mono text-xs ml-2">{part.sku}</span>}
+                    </td>
+                    <td className={`py-2 pr-4 text-right font-semibold ${part.availableQty <= 0 ? 'text-red-400' : 'text-yellow-400'}`}>
+                      {part.availableQty}
+                    </td>
+                    <td className="py-2 pr-4 text-right text-gray-300">{part.reorderPoint}</td>
+                    <td className="py-2 pr-4">
+                      {part.openRequisition ? (
+                        <Badge variant={STATUS_VARIANTS[part.openRequisition.status]} size="sm">
+                          {part.openRequisition.qty} {part.openRequisition.status}
+                        </Badge>
+                      ) : (
+                        <span className="text-gray-500">None</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      {!part.openRequisition && (
+                        <Button variant="ghost" size="sm" onClick={() => openForm(part.partId)}>
+                          Raise
+                        </Button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardComponent>
+
+      {/* Requisitions */}
+      <CardComponent variant="glass" className="p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-primary" />
+            Requisitions
+          </h2>
+          <div className="flex items-center gap-3">
+            {selectedIds.length > 0 && (
+              <Button variant="primary" size="sm" leftIcon={<FileText className="w-4 h-4" />} onClick={handleCreateOrder}>
+                Create Purchase Order ({selectedIds.length})
+              </Button>
+            )}
+            <select
+              className="select"
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value as typeof statusFilter)}
+            >
+            <option value="open">Open</option>
+            <option value="all">All</option>
+            <option value="requested">Requested</option>
+            <option value="ordered">Ordered</option>
+            <option value="received">Received</option>
+            <option value="cancelled">Cancelled</option>
+            </select>
+          </div>
+        </div>
+
+        {filtered.length === 0 ? (
+          <p className="text-gray-400 text-sm">No requisitions to show.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-2 w-6" />
+                  <th className="py-2 pr-4 font-medium">Part</th>
+                  <th className="py-2 pr-4 font-medium text-right">Received</th>
+                  <th className="py-2 pr-4 font-medium">Supplier</th>
+                  <th className="py-2 pr-4 font-medium">Expected</th>
+                  <th className="py-2 pr-4 font-medium">Status</th>
+                  <th className="py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {filtered.map((requisition) => {
+                  const isOpen = requisition.status === 'requested' || requisition.status === 'ordered';
+                  // Requisitions on a purchase order move with that order
+                  const onOrder = !!requisition.purchaseOrderId;
+                  return (
+                    <tr key={requisition._id} className="border-b border-gray-800 align-top">
+                      <td className="py-3 pr-2">
+                        {canBundle(requisition) && (
+                          <input
+                            type="checkbox"
+                            aria-label={`Select ${requisition.partId.name}`}
+                            checked={selectedIds.includes(requisition._id)}
+                            onChange={() => toggleSelected(requisition._id)}
+                          />
+                        )}
+                      </td>
+                      <td className="py-3 pr-4">
+                        <p className="text-white">{requisition.partId?.name || 'Deleted part'}</p>
+                        <p className="text-xs text-gray-500">
+                          {requisition.source === 'low_stock' ? 'Raised at reorder point' : `By ${requisition.requestedBy?.name || 'admin'}`}
+                          {' · '}{formatDate(requisition.createdAt)}
+                        </p>
+                        {requisition.notes && <p className="text-xs text-gray-400 mt-1">{requisition.notes}</p>}
+                      </td>
+                      <td className="py-3 pr-4 text-right text-gray-300">
+                        {requisition.receivedQty} / {requisition.qty}
+                      </td>
+                      <td className="py-3 pr-4 text-gray-300">
+                        {requisition.supplierId?.name || '-'}
+                        {requisition.purchaseOrderId && (
+                          <Link
+                            to={ROUTES.INVENTORY_PURCHASE_ORDERS}
+                            className="block text-xs text-primary hover:underline"
+                          >
+                            {requisition.purchaseOrderId.orderNumber}
+                          </Link>
+                        )}
+                      </td>
+                      <td className="py-3 pr-4 text-gray-300">{formatDate(requisition.expectedAt)}</td>
+                      <td className="py-3 pr-4">
+                        <Badge variant={STATUS_VARIANTS[requisition.status]} size="sm">{requisition.status}</Badge>
+                      </td>
+                      <td className="py-3">
+                        {isOpen && !onOrder && (
+                          <div className="flex justify-end gap-1">
+                            {requisition.status === 'requested' && (
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                leftIcon={<ShoppingCart className="w-4 h-4" />}
+                                onClick={() => handleOrdered(requisition)}
+                              >
+                                Ordered
+                              </Button>
+                            )}
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              leftIcon={<PackageCheck className="w-4 h-4" />}
+                              onClick={() => handleReceive(requisition)}
+                              className="text-green-400 hover:bg-green-400/10"
+                            >
+                              Receive
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              leftIcon={<X className="w-4 h-4" />}
+                              onClick={() => handleCancel(requisition)}
+                              className="text-red-400 hover:bg-red-400/10"
+                            >
+                              Cancel
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardComponent>
+
+      <RequisitionFormModal
+        isOpen={showForm}
+        onClose={() => setShowForm(false)}
+        parts={parts}
+        suppliers={suppliers}
+        initialPartId={formPartId}
+        onSubmit={actions.create}
+      />
+    </motion.div>
+  );
+}
@@ -0,0 +1,286 @@
+import { useState, useMemo } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import {
+  AlertCircle,
+  ArrowLeft,
+  Check,
+  RefreshCw,
+  Save,
+  Search,
+  X
+} from 'lucide-react';
+import { motion } from 'framer-motion';
+import { useStocktake, type StocktakeLine } from '../hooks';
+import { LoadingState, Alert, Button, CardComponent, Badge, useToast } from '../components/ui';
+import { ROUTES } from '../shared/constants/routes.constants';
+
+type LineFilter = 'all' | 'uncounted' | 'variance';
+
+const formatDateTime = (value?: string | null) =>
+  value ? new Date(value).toLocaleString('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }) : '-';
+
+const signed = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+/**
+ * Count sheet of one stocktake. Every saved count is compared with the
+ * ledger's on hand at that moment; approving posts the variances.
+ */
+export default function StocktakeDetail() {
+  const { stocktakeId } = useParams<{ stocktakeId: string }>();
+  const toast = useToast();
+  const { stocktake, isLoading, error, refetch, actions } = useStocktake(stocktakeId);
+
+  const [search, setSearch] = useState('');
+  const [filter, setFilter] = useState<LineFilter>('all');
+  const [drafts, setDrafts] = useState<Record<string, string>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const lines = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return (stocktake?.lines || [])
+      .filter((line) => {
+        if (filter === 'uncounted') return line.countedQty === null;
+        if (filter === 'variance') return !!line.variance;
+        return true;
+      })
+      .filter((line) => !term
+        || line.partId.name.toLowerCase().includes(term)
+        || line.partId.sku.toLowerCase().includes(term)
+        || (line.partId.partNumber || '').toLowerCase().includes(term))
+      .sort((a, b) => a.partId.sku.localeCompare(b.partId.sku) || a.partId.name.localeCompare(b.partId.name));
+  }, [stocktake, search, filter]);
+
+  const pendingDrafts = Object.entries(drafts).filter(([, value]) => value !== '');
+
+  const saveCounts = async (partIds: string[]) => {
+    const counts = partIds.map((partId) => ({ partId, countedQty: Number(drafts[partId]) }));
+    if (counts.some((count) => !Number.isInteger(count.countedQty) || count.countedQty < 0)) {
+      toast.error('Counts must be whole numbers of 0 or more');
+      return;
+    }
+
+    setIsSaving(true);
+    const result = await actions.recordCounts(counts);
+    setIsSaving(false);
+
+    if (result.success) {
+      setDrafts((prev) => {
+        const next = { ...prev };
+        partIds.forEach((partId) => delete next[partId]);
+        return next;
+      });
+    } else {
+      toast.error(result.error || 'Something went wrong');
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!stocktake) return;
+    const counted = stocktake.lines.filter((line) => line.countedQty !== null);
+    const variances = counted.filter((line) => line.variance);
+    const uncounted = stocktake.lines.length - counted.length;
+    const message = [
+      `Post ${variances.length} stock adjustment${variances.length === 1 ? '' : 's'} for ${stocktake.reference}?`,
+      uncounted > 0 ? `${uncounted} uncounted part${uncounted === 1 ? '' : 's'} will be left as they are.` : '',
+    ].filter(Boolean).join('\n');
+    if (!window.confirm(message)) return;
+
+    const result = await actions.approve();
+    if (result.success) {
+      toast.success('Stocktake approved; variances posted to the ledger');
+    } else {
+      toast.error(result.error || 'Something went wrong');
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!stocktake || !window.confirm(`Cancel ${stocktake.reference}? Nothing will be posted.`)) return;
+    const result = await actions.cancel();
+    if (result.success) {
+      toast.success('Stocktake cancelled');
+    } else {
+      toast.error(result.error || 'Something went wrong');
+    }
+  };
+
+  if (isLoading) return <LoadingState type="skeleton" text="Loading stocktake..." />;
+
+  if (error || !stocktake) {
+    return (
+      <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }}>
+        <Alert variant="error">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5" />
+            <div className="flex-1">
+              <p className="font-semibold">Failed to load stocktake</p>
+              <p className="text-sm">{error}</p>
+            </div>
+            <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
+              Retry
+            </Button>
+          </div>
+        </Alert>
+      </motion.div>
+    );
+  }
+
+  const isCounting = stocktake.status === 'counting';
+  const countedCount = stocktake.lines.filter((line) => line.countedQty !== null).length;
+
+  const renderVariance = (line: StocktakeLine) => {
+    if (line.variance === null) return <span className="text-gray-500">-</span>;
+    if (line.variance === 0) return <span className="text-green-400">0</span>;
+    return <span className={line.variance < 0 ? 'text-red-400 font-semibold' : 'text-yellow-400 font-semibold'}>{signed(line.variance)}</span>;
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link to={ROUTES.INVENTORY_STOCKTAKES} className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-primary mb-2">
+            <ArrowLeft className="w-4 h-4" />
+            Stocktakes
+          </Link>
+          <h1 className="text-3xl font-bold text-primary flex items-center gap-3">
+            {stocktake.reference}
+            <Badge variant={isCounting ? 'warning' : stocktake.status === 'approved' ? 'success' : 'default'}>
+              {stocktake.status}
+            </Badge>
+          </h1>
+          <p className="text-gray-400 mt-1">
+            <span className="capitalize">{stocktake.scopeType}</span> {stocktake.scopeValue}
+            {' · '}{countedCount} of {stocktake.lines.length} counted
+            {stocktake.approvedBy && ` · approved by ${stocktake.approvedBy.name}`}
+          </p>
+        </div>
+        {isCounting && (
+          <div className="flex gap-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              leftIcon={<X className="w-4 h-4" />}
+              onClick={handleCancel}
+              className="text-red-400 hover:bg-red-400/10"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              size="sm"
+              leftIcon={<Check className="w-4 h-4" />}
+              onClick={handleApprove}
+              disabled={countedCount === 0 || pendingDrafts.length > 0}
+              title={pendingDrafts.length > 0 ? 'Save or clear the unsaved counts first' : undefined}
+            >
+              Approve
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <CardComponent variant="glass" className="p-6">
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          <div className="relative flex-1 min-w-[200px]">
+            <Search className="w-4 h-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              className="input w-full pl-9"
+              placeholder="Search name, SKU or part number..."
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <select
+            className="select"
+            value={filter}
+            onChange={(e) => setFilter(e.target.value as LineFilter)}
+            aria-label="Show"
+          >
+            <option value="all">All parts</option>
+            <option value="uncounted">Uncounted</option>
+            <option value="variance">With variance</option>
+          </select>
+          {isCounting && pendingDrafts.length > 0 && (
+            <Button
+              variant="primary"
+              size="sm"
+              leftIcon={<Save className="w-4 h-4" />}
+              onClick={() => saveCounts(pendingDrafts.map(([partId]) => partId))}
+              disabled={isSaving}
+            >
+              Save {pendingDrafts.length} count{pendingDrafts.length === 1 ? '' : 's'}
+            </Button>
+          )}
+        </div>
+
+        {lines.length === 0 ? (
+          <p className="text-gray-400 text-sm">No parts to show.</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4 font-medium">Part</th>
+                  <th className="py-2 pr-4 font-medium">Bin</th>
+                  <th className="py-2 pr-4 font-medium text-right">Counted</th>
+                  <th className="py-2 pr-4 font-medium text-right">Expected</th>
+                  <th className="py-2 pr-4 font-medium text-right">Variance</th>
+                  <th className="py-2 font-medium">Counted By</th>
+                </tr>
+              </thead>
+              <tbody>
+                {lines.map((line) => {
+                  const partId = line.partId._id;
+                  const draft = drafts[partId];
+                  return (
+                    <tr key={partId} className="border-b border-gray-800">
+                      <td className="py-2 pr-4">
+                        <p className="text-white">{line.partId.name}</p>
+                        {line.partId.partNumber && <p className="text-xs text-gray-500">#{line.partId.partNumber}</p>}
+                      </td>
+                      <td className="py-2 pr-4 text-gray-300 font-mono">{line.partId.sku}</td>
+                      <td className="py-2 pr-4 text-right">
+                        {isCounting ? (
+                          <input
+                            type="number"
+                            min={0}
+                            className={`input w-24 text-right ${draft !== undefined && draft !== '' ? 'border-primary' : ''}`}
+                            aria-label={`Count of ${line.partId.name}`}
+                            value={draft ?? (line.countedQty ?? '')}
+                            onChange={(e) => setDrafts((prev) => ({ ...prev, [partId]: e.target.value }))}
+                            onKeyDown={(e) => {
+                              if (e.key === 'Enter' && draft !== undefined && draft !== '') saveCounts([partId]);
+                            }}
+                          />
+                        ) : (
+                          <span className="text-white">{line.countedQty ?? '-'}</span>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-right text-gray-300">
+                        {line.expectedQty ?? <span className="text-gray-500">{line.onHandQty}</span>}
+                      </td>
+                      <td className="py-2 pr-4 text-right">{renderVariance(line)}</td>
+                      <td className="py-2 text-gray-400">
+                        {line.countedBy ? (
+                          <>
+                            {line.countedBy.name}
+                            <p className="text-xs text-gray-500">{formatDateTime(line.countedAt)}</p>
+                          </>
+                        ) : '-'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {isCounting && (
+          <p className="text-xs text-gray-500 mt-4">
+            Press Enter to save a count. Counts saved on other devices appear here as they come in.
+          </p>
+        )}
+      </CardComponent>
+    </motion.div>
+  );
+}
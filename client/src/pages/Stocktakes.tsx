@@ -0,0 +1,384 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  AlertCircle,
+  ArrowLeft,
+  ClipboardCheck,
+  Play,
+  RefreshCw,
+  TrendingDown
+} from 'lucide-react';
+import { motion } from 'framer-motion';
+import {
+  useInventoryData,
+  useStocktakes,
+  useStocktakeVarianceReport,
+  type StocktakeScope,
+  type StocktakeStatus
+} from '../hooks';
+import { LoadingState, Alert, Button, CardComponent, Badge, useToast } from '../components/ui';
+import { ROUTES } from '../shared/constants/routes.constants';
+
+const STATUS_VARIANTS: Record<StocktakeStatus, 'warning' | 'success' | 'default'> = {
+  counting: 'warning',
+  approved: 'success',
+  cancelled: 'default',
+};
+
+const formatDate = (value?: string | null) =>
+  value ? new Date(value).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' }) : '-';
+
+const formatMoney = (value: number) =>
+  value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const signed = (value: number) => (value > 0 ? `+${value}` : String(value));
+
+type ViewMode = 'sessions' | 'variance';
+
+/**
+ * Physical stocktakes: count a category or group of parts against the
+ * ledger, approve the differences and see where stock goes missing
+ */
+export default function Stocktakes() {
+  const toast = useToast();
+  const navigate = useNavigate();
+  const { stats } = useInventoryData();
+  const [view, setView] = useState<ViewMode>('sessions');
+  const [statusFilter, setStatusFilter] = useState<StocktakeStatus | ''>('');
+  const { stocktakes, isLoading, error, refetch, actions } = useStocktakes(statusFilter || undefined);
+
+  const [scopeType, setScopeType] = useState<StocktakeScope>('category');
+  const [scopeValue, setScopeValue] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+
+  const scopeOptions = (scopeType === 'category' ? stats?.categories : stats?.groups) || [];
+
+  const handleStart = async () => {
+    if (!scopeValue) return;
+    setIsStarting(true);
+    const result = await actions.create({ scopeType, scopeValue });
+    setIsStarting(false);
+
+    if (result.success && result.stocktake) {
+      toast.success(`Stocktake ${result.stocktake.reference} started`);
+      navigate(ROUTES.INVENTORY_STOCKTAKE_DETAIL.replace(':stocktakeId', result.stocktake._id));
+    } else {
+      toast.error(result.error || 'Something went wrong');
+    }
+  };
+
+  return (
+    <motion.div initial={{ opacity: 0 }} animate={{ opacity: 1 }} className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <Link to={ROUTES.INVENTORY} className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-primary mb-2">
+            <ArrowLeft className="w-4 h-4" />
+            Inventory
+          </Link>
+          <h1 className="text-3xl font-bold text-primary">Stocktakes</h1>
+          <p className="text-gray-400 mt-1">Reconcile the shelves with the stock ledger</p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant={view === 'sessions' ? 'primary' : 'ghost'}
+            size="sm"
+            leftIcon={<ClipboardCheck className="w-4 h-4" />}
+            onClick={() => setView('sessions')}
+          >
+            Sessions
+          </Button>
+          <Button
+            variant={view === 'variance' ? 'primary' : 'ghost'}
+            size="sm"
+            leftIcon={<TrendingDown className="w-4 h-4" />}
+            onClick={() => setView('variance')}
+          >
+            Variance History
+          </Button>
+        </div>
+      </div>
+
+      {view === 'variance' ? (
+        <VarianceHistory categories={stats?.categories || []} groups={stats?.groups || []} />
+      ) : (
+        <>
+          {/* New stocktake */}
+          <CardComponent variant="glass" className="p-6">
+            <h2 className="text-lg font-semibold text-white mb-4">Start a Stocktake</h2>
+            <div className="flex flex-wrap items-end gap-3">
+              <div>
+                <label className="block text-sm text-gray-400 mb-1" htmlFor="stocktake-scope-type">Count by</label>
+                <select
+                  id="stocktake-scope-type"
+                  className="select"
+                  value={scopeType}
+                  onChange={(e) => {
+                    setScopeType(e.target.value as StocktakeScope);
+                    setScopeValue('');
+                  }}
+                >
+                  <option value="category">Category</option>
+                  <option value="group">Group</option>
+                </select>
+              </div>
+              <div className="flex-1 min-w-[200px]">
+                <label className="block text-sm text-gray-400 mb-1" htmlFor="stocktake-scope-value">
+                  {scopeType === 'category' ? 'Category' : 'Group'}
+                </label>
+                <select
+                  id="stocktake-scope-value"
+                  className="select w-full"
+                  value={scopeValue}
+                  onChange={(e) => setScopeValue(e.target.value)}
+                >
+                  <option value="">Select...</option>
+                  {scopeOptions.map((option) => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </div>
+              <Button
+                variant="primary"
+                leftIcon={<Play className="w-4 h-4" />}
+                onClick={handleStart}
+                disabled={!scopeValue || isStarting}
+              >
+                {isStarting ? 'Starting...' : 'Start Counting'}
+              </Button>
+            </div>
+          </CardComponent>
+
+          {/* Sessions */}
+          <CardComponent variant="glass" className="p-6">
+            <div className="flex items-center justify-between mb-4">
+              <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+                <ClipboardCheck className="w-5 h-5 text-primary" />
+                Sessions
+              </h2>
+              <div className="flex items-center gap-3">
+                <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
+                  Refresh
+                </Button>
+                <select
+                  className="select"
+                  value={statusFilter}
+                  onChange={(e) => setStatusFilter(e.target.value as StocktakeStatus | '')}
+                  aria-label="Status"
+                >
+                  <option value="">All</option>
+                  <option value="counting">Counting</option>
+                  <option value="approved">Approved</option>
+                  <option value="cancelled">Cancelled</option>
+                </select>
+              </div>
+            </div>
+
+            {isLoading ? (
+              <LoadingState text="Loading stocktakes..." />
+            ) : error ? (
+              <Alert variant="error">
+                <div className="flex items-center gap-2">
+                  <AlertCircle className="w-4 h-4" />
+                  {error}
+                </div>
+              </Alert>
+            ) : stocktakes.length === 0 ? (
+              <p className="text-gray-400 text-sm">No stocktakes yet.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-400 border-b border-gray-700">
+                      <th className="py-2 pr-4 font-medium">Reference</th>
+                      <th className="py-2 pr-4 font-medium">Scope</th>
+                      <th className="py-2 pr-4 font-medium text-right">Counted</th>
+                      <th className="py-2 pr-4 font-medium text-right">Variances</th>
+                      <th className="py-2 pr-4 font-medium">Started</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {stocktakes.map((stocktake) => (
+                      <tr key={stocktake._id} className="border-b border-gray-800">
+                        <td className="py-3 pr-4">
+                          <Link
+                            to={ROUTES.INVENTORY_STOCKTAKE_DETAIL.replace(':stocktakeId', stocktake._id)}
+                            className="text-primary hover:underline font-mono"
+                          >
+                            {stocktake.reference}
+                          </Link>
+                        </td>
+                        <td className="py-3 pr-4 text-white">
+                          <span className="text-gray-400 capitalize">{stocktake.scopeType}:</span> {stocktake.scopeValue}
+                        </td>
+                        <td className="py-3 pr-4 text-right text-gray-300">
+                          {stocktake.countedLines} / {stocktake.totalLines}
+                        </td>
+                        <td className={`py-3 pr-4 text-right ${stocktake.varianceLines > 0 ? 'text-yellow-400' : 'text-gray-300'}`}>
+                          {stocktake.varianceLines}
+                        </td>
+                        <td className="py-3 pr-4 text-gray-300">
+                          {formatDate(stocktake.createdAt)}
+                          {stocktake.createdBy && <p className="text-xs text-gray-500">by {stocktake.createdBy.name}</p>}
+                        </td>
+                        <td className="py-3 pr-4">
+                          <Badge variant={STATUS_VARIANTS[stocktake.status]} size="sm">{stocktake.status}</Badge>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardComponent>
+        </>
+      )}
+    </motion.div>
+  );
+}
+
+interface VarianceHistoryProps {
+  categories: string[];
+  groups: string[];
+}
+
+/**
+ * Approved stocktake variances per category and part; the biggest
+ * losses come first
+ */
+function VarianceHistory({ categories, groups }: VarianceHistoryProps) {
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [category, setCategory] = useState('');
+  const [group, setGroup] = useState('');
+  const { report, isLoading, error, refetch } = useStocktakeVarianceReport({ from, to, category, group });
+
+  return (
+    <CardComponent variant="glass" className="p-6 space-y-6">
+      <div className="flex flex-wrap items-end gap-3">
+        <div>
+          <label className="block text-sm text-gray-400 mb-1" htmlFor="variance-from">From</label>
+          <input id="variance-from" type="date" className="input" value={from} onChange={(e) => setFrom(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1" htmlFor="variance-to">To</label>
+          <input id="variance-to" type="date" className="input" value={to} onChange={(e) => setTo(e.target.value)} />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1" htmlFor="variance-category">Category</label>
+          <select id="variance-category" className="select" value={category} onChange={(e) => setCategory(e.target.value)}>
+            <option value="">All</option>
+            {categories.map((c) => <option key={c} value={c}>{c}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1" htmlFor="variance-group">Group</label>
+          <select id="variance-group" className="select" value={group} onChange={(e) => setGroup(e.target.value)}>
+            <option value="">All</option>
+            {groups.map((g) => <option key={g} value={g}>{g}</option>)}
+          </select>
+        </div>
+        <Button variant="ghost" size="sm" leftIcon={<RefreshCw className="w-4 h-4" />} onClick={refetch}>
+          Refresh
+        </Button>
+      </div>
+
+      {isLoading && !report ? (
+        <LoadingState text="Loading variance history..." />
+      ) : error ? (
+        <Alert variant="error">{error}</Alert>
+      ) : !report || report.items.length === 0 ? (
+        <p className="text-gray-400 text-sm">No approved stocktake variances in this period.</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <p className="text-sm text-gray-400">Missing</p>
+              <p className="text-2xl font-bold text-red-400">{report.totals.lostQty}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-400">Found</p>
+              <p className="text-2xl font-bold text-green-400">{report.totals.foundQty}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-400">Net</p>
+              <p className="text-2xl font-bold text-white">{signed(report.totals.netQty)}</p>
+            </div>
+            <div>
+              <p className="text-sm text-gray-400">Net Value</p>
+              <p className={`text-2xl font-bold ${report.totals.netValue < 0 ? 'text-red-400' : 'text-white'}`}>
+                {formatMoney(report.totals.netValue)}
+              </p>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-white font-semibold mb-2">By Category</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4 font-medium">Category</th>
+                  <th className="py-2 pr-4 font-medium text-right">Parts</th>
+                  <th className="py-2 pr-4 font-medium text-right">Missing</th>
+                  <th className="py-2 pr-4 font-medium text-right">Found</th>
+                  <th className="py-2 pr-4 font-medium text-right">Net</th>
+                  <th className="py-2 font-medium text-right">Net Value</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.categories.map((row) => (
+                  <tr key={row.category} className="border-b border-gray-800">
+                    <td className="py-2 pr-4 text-white">{row.category}</td>
+                    <td className="py-2 pr-4 text-right text-gray-300">{row.parts}</td>
+                    <td className="py-2 pr-4 text-right text-red-400">{row.lostQty}</td>
+                    <td className="py-2 pr-4 text-right text-green-400">{row.foundQty}</td>
+                    <td className="py-2 pr-4 text-right text-white">{signed(row.netQty)}</td>
+                    <td className="py-2 text-right text-gray-300">{formatMoney(row.netValue)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div>
+            <h3 className="text-white font-semibold mb-2">By Part</h3>
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-gray-700">
+                  <th className="py-2 pr-4 font-medium">Part</th>
+                  <th className="py-2 pr-4 font-medium text-right">Stocktakes</th>
+                  <th className="py-2 pr-4 font-medium text-right">Missing</th>
+                  <th className="py-2 pr-4 font-medium text-right">Found</th>
+                  <th className="py-2 pr-4 font-medium text-right">Net</th>
+                  <th className="py-2 pr-4 font-medium text-right">Net Value</th>
+                  <th className="py-2 font-medium">Last Counted</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.items.map((item) => (
+                  <tr key={item.partId} className="border-b border-gray-800">
+                    <td className="py-2 pr-4">
+                      <span className="text-white">{item.name}</span>
+                      <span className="text-gray-500 font-mono text-xs ml-2">{item.sku}</span>
+                      <p className="text-xs text-gray-500">{item.category}{item.group ? ` · ${item.group}` : ''}</p>
+                    </td>
+                    <td className="py-2 pr-4 text-right text-gray-300">{item.stocktakeCount}</td>
+                    <td className="py-2 pr-4 text-right text-red-400">{item.lostQty}</td>
+                    <td className="py-2 pr-4 text-right text-green-400">{item.foundQty}</td>
+                    <td className={`py-2 pr-4 text-right font-semibold ${item.netQty < 0 ? 'text-red-400' : 'text-white'}`}>
+                      {signed(item.netQty)}
+                    </td>
+                    <td className="py-2 pr-4 text-right text-gray-300">
+                      {item.netValue === null ? <span className="text-gray-500">No cost</span> : formatMoney(item.netValue)}
+                    </td>
+                    <td className="py-2 text-gray-300">{formatDate(item.lastCountedAt)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </CardComponent>
+  );
+}
@@ -11,6 +11,7 @@ import {
   AlertCircle,
   RefreshCw,
   Download,
+  RotateCcw,
 } from "lucide-react";
 import { useFileUpload } from "../hooks";
 import { api } from "../lib/api";
@@ -32,12 +33,23 @@ interface Assignment {
   maxScore: number;
   allowedFileTypes: string[];
   maxFileSize: number;
+  maxFiles: number;
   allowLateSubmission: boolean;
+  lateSubmissionDeadline: string | null;
+  latePenalty: number;
+  rubric: Array<{
+    _id: string;
+    criteria: string;
+    points: number;
+  }>;
   course: {
     _id: string;
     title: string;
   };
-  module: string;
+  module: {
+    _id: string;
+    title: string;
+  };
 }
 
 interface Submission {
@@ -51,21 +63,33 @@ interface Submission {
   }>;
   submittedAt: string;
   isLate: boolean;
-  status: "submitted" | "graded" | "returned";
+  status: "submitted" | "grading" | "graded" | "returned" | "resubmit_required";
   grade?: {
-    score: number;
-    feedback: string;
+    score: number | null;
+    rawScore: number | null;
+    latePenalty: number;
+    feedback?: string;
+    rubricScores: Array<{
+      criteriaId: string;
+      pointsEarned: number;
+    }>;
     gradedBy: {
       name: string;
-    };
-    gradedAt: string;
+    } | null;
+    gradedAt?: string;
+  };
+  resubmission: {
+    allowed: boolean;
+    deadline: string | null;
   };
+  version: number;
 }
 
 export default function StudentAssignment() {
   const { assignmentId } = useParams<{ assignmentId: string }>();
   const [assignment, setAssignment] = useState<Assignment | null>(null);
   const [submission, setSubmission] = useState<Submission | null>(null);
+  const [canSubmit, setCanSubmit] = useState(false);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [dragActive, setDragActive] = useState(false);
@@ -97,8 +121,9 @@ export default function StudentAssignment() {
         api.get(`/student/assignments/${assignmentId}/submission`).catch(() => null),
       ]);
 
-      setAssignment(assignmentRes.data.data);
-      setSubmission(submissionRes?.data?.data || null);
+      setAssignment(assignmentRes.data.data.assignment);
+      setCanSubmit(assignmentRes.data.data.canSubmit);
+      setSubmission(submissionRes?.data?.data?.latestSubmission || null);
     } catch (err: any) {
       setError(err.response?.data?.message || "Failed to load assignment");
       console.error("Error fetching assignment:", err);
@@ -155,7 +180,8 @@ export default function StudentAssignment() {
   };
 
   const isOverdue = assignment && new Date(assignment.dueDate) < new Date();
-  const canSubmit = assignment && (!isOverdue || assignment.allowLateSubmission);
+  const isGraded = submission?.status === "graded" && submission.grade?.score != null;
+  const resubmitRequested = submission?.status === "resubmit_required";
 
   // Show loading state
   if (isLoading) {
@@ -221,13 +247,19 @@ export default function StudentAssignment() {
       </div>
 
       {/* Overdue Warning */}
-      {isOverdue && (
+      {isOverdue && !submission && (
         <Alert variant="warning">
           <AlertCircle className="w-4 h-4" />
           <div>
             <p className="font-semibold">Assignment is overdue</p>
-            {assignment.allowLateSubmission ? (
-              <p className="text-sm">Late submissions are allowed but may receive penalties.</p>
+            {canSubmit ? (
+              <p className="text-sm">
+                Late submissions are accepted
+                {assignment.latePenalty > 0 && ` with a ${assignment.latePenalty}% penalty`}
+                {assignment.lateSubmissionDeadline &&
+                  ` until ${new Date(assignment.lateSubmissionDeadline).toLocaleString()}`}
+                .
+              </p>
             ) : (
               <p className="text-sm">Late submissions are not accepted.</p>
             )}
@@ -255,7 +287,7 @@ export default function StudentAssignment() {
                 variant={
                   submission.status === "graded"
                     ? "success"
-                    : submission.status === "returned"
+                    : submission.status === "returned" || resubmitRequested
                     ? "warning"
                     : "primary"
                 }
@@ -268,6 +300,11 @@ export default function StudentAssignment() {
                   </>
                 ) : submission.status === "returned" ? (
                   "Returned"
+                ) : resubmitRequested ? (
+                  <>
+                    <RotateCcw className="w-4 h-4 mr-1" />
+                    Resubmission requested
+                  </>
                 ) : (
                   "Submitted"
                 )}
@@ -297,8 +334,23 @@ export default function StudentAssignment() {
               ))}
             </div>
 
+            {/* Resubmission Request */}
+            {resubmitRequested && (
+              <div className="p-4 rounded-lg bg-warning/10 border border-warning/20">
+                <h4 className="font-semibold mb-2">Your trainer asked for a new version</h4>
+                {submission.grade?.feedback && (
+                  <p className="text-sm mb-2">{submission.grade.feedback}</p>
+                )}
+                <p className="text-xs text-white/60">
+                  {submission.resubmission.deadline
+                    ? `Submit again before ${new Date(submission.resubmission.deadline).toLocaleString()}`
+                    : "Submit your new version below"}
+                </p>
+              </div>
+            )}
+
             {/* Grade */}
-            {submission.grade && (
+            {isGraded && submission.grade && (
               <div className="p-4 rounded-lg bg-gradient-to-r from-success/10 to-success/5 border border-success/20">
                 <div className="flex items-center justify-between mb-3">
                   <h4 className="font-semibold">Grade</h4>
@@ -306,16 +358,46 @@ export default function StudentAssignment() {
                     {submission.grade.score}/{assignment.maxScore}
                   </div>
                 </div>
+
+                {/* Rubric Breakdown */}
+                {assignment.rubric.length > 0 && submission.grade.rubricScores.length > 0 && (
+                  <div className="space-y-1 mb-3">
+                    {assignment.rubric.map((item) => {
+                      const earned = submission.grade?.rubricScores.find(
+                        (r) => r.criteriaId === item._id
+                      );
+                      return (
+                        <div key={item._id} className="flex items-center justify-between text-sm">
+                          <span className="text-white/80">{item.criteria}</span>
+                          <span className="font-medium">
+                            {earned ? earned.pointsEarned : 0}/{item.points}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
+                {submission.grade.latePenalty > 0 && (
+                  <p className="text-sm text-warning mb-3">
+                    Late penalty of {submission.grade.latePenalty}% applied
+                    {submission.grade.rawScore != null &&
+                      ` (${submission.grade.rawScore}/${assignment.maxScore} before penalty)`}
+                  </p>
+                )}
+
                 {submission.grade.feedback && (
                   <div>
                     <p className="text-sm text-white/60 mb-1">Feedback:</p>
                     <p className="text-sm">{submission.grade.feedback}</p>
                   </div>
                 )}
-                <p className="text-xs text-white/40 mt-2">
-                  Graded by {submission.grade.gradedBy.name} on{" "}
-                  {new Date(submission.grade.gradedAt).toLocaleDateString()}
-                </p>
+                {submission.grade.gradedAt && (
+                  <p className="text-xs text-white/40 mt-2">
+                    Graded{submission.grade.gradedBy && ` by ${submission.grade.gradedBy.name}`} on{" "}
+                    {new Date(submission.grade.gradedAt).toLocaleDateString()}
+                  </p>
+                )}
               </div>
             )}
           </CardBody>
@@ -339,19 +421,38 @@ export default function StudentAssignment() {
           <div className="mt-4 p-3 rounded-lg bg-white/5 border border-white/10">
             <p className="text-sm text-white/60 mb-2">Submission Requirements:</p>
             <ul className="text-sm space-y-1">
-              <li>• Allowed file types: {assignment.allowedFileTypes.join(", ")}</li>
+              <li>
+                • Allowed file types:{" "}
+                {assignment.allowedFileTypes.length > 0 ? assignment.allowedFileTypes.join(", ") : "any"}
+              </li>
               <li>• Maximum file size: {assignment.maxFileSize}MB per file</li>
-              <li>• Maximum {10} files can be uploaded</li>
+              <li>• Maximum {assignment.maxFiles} files can be uploaded</li>
             </ul>
+
+            {assignment.rubric.length > 0 && (
+              <div className="mt-4">
+                <p className="text-sm text-white/60 mb-2">Grading Rubric:</p>
+                <ul className="text-sm space-y-1">
+                  {assignment.rubric.map((item) => (
+                    <li key={item._id} className="flex justify-between">
+                      <span>• {item.criteria}</span>
+                      <span className="text-white/60">{item.points} pts</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
           </div>
         </CardBody>
       </CardComponent>
 
       {/* File Upload */}
-      {canSubmit && !submission && (
+      {canSubmit && (
         <CardComponent variant="glass">
           <CardBody>
-            <h3 className="text-lg font-semibold mb-4">Submit Your Work</h3>
+            <h3 className="text-lg font-semibold mb-4">
+              {submission ? "Submit a New Version" : "Submit Your Work"}
+            </h3>
 
             {/* Drag & Drop Area */}
             <div
@@ -368,7 +469,7 @@ export default function StudentAssignment() {
               <input
                 type="file"
                 multiple
-                accept={assignment.allowedFileTypes.map((t) => `.${t}`).join(",")}
+                accept={assignment.allowedFileTypes.map((t) => `.${t}`).join(",") || undefined}
                 onChange={handleFileSelect}
                 className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
               />
@@ -437,7 +538,7 @@ export default function StudentAssignment() {
               loading={uploading}
               leftIcon={<Upload className="w-5 h-5" />}
             >
-              {uploading ? `Uploading ${progress}%` : "Submit Assignment"}
+              {uploading ? `Uploading ${progress}%` : submission ? "Resubmit Assignment" : "Submit Assignment"}
             </Button>
           </CardBody>
         </CardComponent>
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import { useParams, Link } from "react-router-dom";
 import { motion } from "framer-motion";
 import {
@@ -15,8 +16,10 @@ import {
   AlertCircle,
   RefreshCw,
   ArrowLeft,
+  MessageSquare,
+  FolderOpen,
 } from "lucide-react";
-import { useCourseDetails } from "../hooks";
+import { useCourseDetails, useGroupChat, useSessionsRealtimeUpdates } from "../hooks";
 import {
   CardComponent,
   CardBody,
@@ -25,10 +28,17 @@ import {
   LoadingState,
   Alert,
 } from "../components/ui";
+import GroupChatPanel from "../components/chat/GroupChatPanel";
+import StudentResourceList from "../components/resources/StudentResourceList";
 
 export default function StudentCourseDetails() {
   const { courseId } = useParams<{ courseId: string }>();
-  const { course, sessions, progress, isLoading, error, refetch } = useCourseDetails(courseId!);
+  const { course, sessions, progress, group, isLoading, error, refetch } = useCourseDetails(courseId!);
+
+  // Sessions the trainer schedules, starts or cancels
+  useSessionsRealtimeUpdates(refetch);
+  const [activeTab, setActiveTab] = useState<"sessions" | "resources" | "chat">("sessions");
+  const groupChat = useGroupChat("student", group?._id);
 
   // Get session icon based on type
   const getSessionIcon = (type: string) => {
@@ -263,154 +273,198 @@ export default function StudentCourseDetails() {
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         {/* Sessions List */}
         <motion.div variants={itemVariants} className="lg:col-span-2">
-          <CardComponent variant="glass">
-            <CardBody>
-              <h2 className="text-2xl font-semibold mb-6">Course Sessions</h2>
+          {/* Tabs (resources and chat are available once the student is placed in a group) */}
+          {group && (
+            <div className="flex gap-1 bg-surface/50 p-1 rounded-lg w-fit mb-4">
+              <button
+                onClick={() => setActiveTab("sessions")}
+                className={`flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-lg transition-all ${
+                  activeTab === "sessions" ? "bg-surface text-white shadow-sm" : "text-gray-400 hover:text-gray-200"
+                }`}
+              >
+                <BookOpen className="w-4 h-4" />
+                Sessions
+              </button>
+              <button
+                onClick={() => setActiveTab("resources")}
+                className={`flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-lg transition-all ${
+                  activeTab === "resources" ? "bg-surface text-white shadow-sm" : "text-gray-400 hover:text-gray-200"
+                }`}
+              >
+                <FolderOpen className="w-4 h-4" />
+                Resources
+              </button>
+              <button
+                onClick={() => setActiveTab("chat")}
+                className={`flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-lg transition-all ${
+                  activeTab === "chat" ? "bg-surface text-white shadow-sm" : "text-gray-400 hover:text-gray-200"
+                }`}
+              >
+                <MessageSquare className="w-4 h-4" />
+                Group Chat
+                {groupChat.unreadCount > 0 && (
+                  <Badge variant="error" size="sm">
+                    {groupChat.unreadCount}
+                  </Badge>
+                )}
+              </button>
+            </div>
+          )}
 
-              {sessions.length > 0 ? (
-                <div className="space-y-3">
-                  {sessions.map((session, index) => {
-                    const status = getSessionStatus(session, index);
-                    const isCompleted = isSessionCompleted(session._id);
-                    const isLocked = session.isLocked;
+          {group && activeTab === "chat" ? (
+            <GroupChatPanel chat={groupChat} />
+          ) : group && activeTab === "resources" ? (
+            <StudentResourceList courseId={courseId!} />
+          ) : (
+            <CardComponent variant="glass">
+              <CardBody>
+                <h2 className="text-2xl font-semibold mb-6">Course Sessions</h2>
 
-                    return (
-                      <div
-                        key={session._id}
-                        className="block"
-                      >
-                        <motion.div
-                          whileHover={!isLocked ? { scale: 1.01 } : {}}
-                          className={`p-4 rounded-lg border transition-all duration-300 ${
-                            isCompleted
-                              ? "bg-success/5 border-success/30"
-                              : isLocked
-                              ? "bg-white/5 border-white/10 opacity-60"
-                              : "bg-white/5 border-white/10 hover:border-primary/50 hover:bg-white/10"
-                          }`}
-                        >
-                          <div className="flex items-start gap-4">
-                            {/* Session Number */}
-                            <div
-                              className={`flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center font-bold ${
-                                isCompleted
-                                  ? "bg-success/20 text-success"
-                                  : isLocked
-                                  ? "bg-white/5 text-white/40"
-                                  : "bg-primary/20 text-primary"
-                              }`}
-                            >
-                              {isCompleted ? (
-                                <CheckCircle className="w-5 h-5" />
-                              ) : (
-                                <span>{session.sessionNumber || index + 1}</span>
-                              )}
-                            </div>
+                {sessions.length > 0 ? (
+                  <div className="space-y-3">
+                    {sessions.map((session, index) => {
+                      const status = getSessionStatus(session, index);
+                      const isCompleted = isSessionCompleted(session._id);
+                      const isLocked = session.isLocked;
 
-                            {/* Session Info */}
-                            <div className="flex-1 min-w-0">
-                              <div className="flex items-start justify-between gap-3 mb-2">
-                                <h3 className="font-semibold text-sm sm:text-base">
-                                  {session.title}
-                                </h3>
-                                <div className="flex items-center gap-2">
-                                  {/* Session time status badge */}
-                                  {(() => {
-                                    const sessionTimeStatus = getSessionTimeStatus(session);
-                                    if (sessionTimeStatus) {
-                                      return (
-                                        <Badge variant={sessionTimeStatus.variant} size="sm">
-                                          {sessionTimeStatus.label}
-                                        </Badge>
-                                      );
-                                    }
-                                    return null;
-                                  })()}
-                                  {/* Regular session status */}
-                                  <Badge variant={status.variant as any} size="sm">
-                                    {status.label}
-                                  </Badge>
-                                </div>
+                      return (
+                        <div
+                          key={session._id}
+                          className="block"
+                        >
+                          <motion.div
+                            whileHover={!isLocked ? { scale: 1.01 } : {}}
+                            className={`p-4 rounded-lg border transition-all duration-300 ${
+                              isCompleted
+                                ? "bg-success/5 border-success/30"
+                                : isLocked
+                                ? "bg-white/5 border-white/10 opacity-60"
+                                : "bg-white/5 border-white/10 hover:border-primary/50 hover:bg-white/10"
+                            }`}
+                          >
+                            <div className="flex items-start gap-4">
+                              {/* Session Number */}
+                              <div
+                                className={`flex-shrink-0 w-10 h-10 rounded-full flex items-center justify-center font-bold ${
+                                  isCompleted
+                                    ? "bg-success/20 text-success"
+                                    : isLocked
+                                    ? "bg-white/5 text-white/40"
+                                    : "bg-primary/20 text-primary"
+                                }`}
+                              >
+                                {isCompleted ? (
+                                  <CheckCircle className="w-5 h-5" />
+                                ) : (
+                                  <span>{session.sessionNumber || index + 1}</span>
+                                )}
                               </div>
-                              {session.description && (
-                                <p className="text-sm text-white/60 mb-2 line-clamp-2">
-                                  {session.description}
-                                </p>
-                              )}
 
-                              {/* Session Date/Time - Prominent display for training sessions */}
-                              {session.scheduledDate && (
-                                <div className="mb-3 p-3 rounded-lg bg-primary/10 border border-primary/20">
-                                  <div className="space-y-2 text-sm">
-                                    {/* Date and Time */}
-                                    <div className="flex items-center gap-2 text-primary font-semibold">
-                                      <Calendar className="w-4 h-4" />
-                                      <span>
-                                        {new Date(session.scheduledDate).toLocaleDateString('en-US', {
-                                          weekday: 'long',
-                                          year: 'numeric',
-                                          month: 'long',
-                                          day: 'numeric'
-                                        })}
-                                      </span>
-                                    </div>
-                                    <div className="flex items-center gap-2 text-white/80">
-                                      <Clock className="w-4 h-4" />
-                                      <span>{session.startTime} - {session.endTime}</span>
-                                      <span className="text-white/50">
-                                        ({session.duration} min)
-                                      </span>
-                                    </div>
-                                    {session.trainerId && (
-                                      <div className="flex items-center gap-2 text-white/80">
-                                        <Users className="w-4 h-4" />
-                                        <span>Trainer: {session.trainerId.name}</span>
-                                      </div>
-                                    )}
+                              {/* Session Info */}
+                              <div className="flex-1 min-w-0">
+                                <div className="flex items-start justify-between gap-3 mb-2">
+                                  <h3 className="font-semibold text-sm sm:text-base">
+                                    {session.title}
+                                  </h3>
+                                  <div className="flex items-center gap-2">
+                                    {/* Session time status badge */}
+                                    {(() => {
+                                      const sessionTimeStatus = getSessionTimeStatus(session);
+                                      if (sessionTimeStatus) {
+                                        return (
+                                          <Badge variant={sessionTimeStatus.variant} size="sm">
+                                            {sessionTimeStatus.label}
+                                          </Badge>
+                                        );
+                                      }
+                                      return null;
+                                    })()}
+                                    {/* Regular session status */}
+                                    <Badge variant={status.variant as any} size="sm">
+                                      {status.label}
+                                    </Badge>
                                   </div>
                                 </div>
-                              )}
+                                {session.description && (
+                                  <p className="text-sm text-white/60 mb-2 line-clamp-2">
+                                    {session.description}
+                                  </p>
+                                )}
 
-                              {/* Action Buttons */}
-                              <div className="flex gap-2">
-                                {session.quiz && !isLocked && (
-                                  <div className="flex items-center gap-2">
-                                    <Link to={`/student/quizzes/${typeof session.quiz === 'object' ? session.quiz._id : session.quiz}`}>
-                                      <Button
-                                        variant={session.quizAttempt ? "outline" : "primary"}
-                                        size="sm"
-                                        leftIcon={<ClipboardList className="w-3 h-3" />}
-                                        className="cursor-pointer"
-                                      >
-                                        {session.quizAttempt ? "View Grade" : "Take Quiz"}
-                                      </Button>
-                                    </Link>
-                                    {session.quizAttempt && (
-                                      <Badge
-                                        variant={session.quizAttempt.passed ? "success" : "error"}
-                                        size="sm"
-                                      >
-                                        Score: {session.quizAttempt.score}%
-                                      </Badge>
-                                    )}
+                                {/* Session Date/Time - Prominent display for training sessions */}
+                                {session.scheduledDate && (
+                                  <div className="mb-3 p-3 rounded-lg bg-primary/10 border border-primary/20">
+                                    <div className="space-y-2 text-sm">
+                                      {/* Date and Time */}
+                                      <div className="flex items-center gap-2 text-primary font-semibold">
+                                        <Calendar className="w-4 h-4" />
+                                        <span>
+                                          {new Date(session.scheduledDate).toLocaleDateString('en-US', {
+                                            weekday: 'long',
+                                            year: 'numeric',
+                                            month: 'long',
+                                            day: 'numeric'
+                                          })}
+                                        </span>
+                                      </div>
+                                      <div className="flex items-center gap-2 text-white/80">
+                                        <Clock className="w-4 h-4" />
+                                        <span>{session.startTime} - {session.endTime}</span>
+                                        <span className="text-white/50">
+                                          ({session.duration} min)
+                                        </span>
+                                      </div>
+                                      {session.trainerId && (
+                                        <div className="flex items-center gap-2 text-white/80">
+                                          <Users className="w-4 h-4" />
+                                          <span>Trainer: {session.trainerId.name}</span>
+                                        </div>
+                                      )}
+                                    </div>
                                   </div>
                                 )}
+
+                                {/* Action Buttons */}
+                                <div className="flex gap-2">
+                                  {session.quiz && !isLocked && (
+                                    <div className="flex items-center gap-2">
+                                      <Link to={`/student/quizzes/${typeof session.quiz === 'object' ? session.quiz._id : session.quiz}`}>
+                                        <Button
+                                          variant={session.quizAttempt ? "outline" : "primary"}
+                                          size="sm"
+                                          leftIcon={<ClipboardList className="w-3 h-3" />}
+                                          className="cursor-pointer"
+                                        >
+                                          {session.quizAttempt ? "View Grade" : "Take Quiz"}
+                                        </Button>
+                                      </Link>
+                                      {session.quizAttempt && (
+                                        <Badge
+                                          variant={session.quizAttempt.passed ? "success" : "error"}
+                                          size="sm"
+                                        >
+                                          Score: {session.quizAttempt.score}%
+                                        </Badge>
+                                      )}
+                                    </div>
+                                  )}
+                                </div>
                               </div>
                             </div>
-                          </div>
-                        </motion.div>
-                      </div>
-                    );
-                  })}
-                </div>
-              ) : (
-                <div className="text-center py-12 text-white/40">
-                  <BookOpen className="w-12 h-12 mx-auto mb-4 opacity-50" />
-                  <p>No sessions available yet</p>
-                </div>
-              )}
-            </CardBody>
-          </CardComponent>
+                          </motion.div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <div className="text-center py-12 text-white/40">
+                    <BookOpen className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                    <p>No sessions available yet</p>
+                  </div>
+                )}
+              </CardBody>
+            </CardComponent>
+          )}
         </motion.div>
 
         {/* Sidebar */}
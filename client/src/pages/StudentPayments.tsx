@@ -13,8 +13,10 @@ import {
   TrendingUp,
   RefreshCw,
   Plus,
+  Upload,
 } from "lucide-react";
-import { usePayments } from "../hooks";
+import { usePayments, usePaymentsRealtimeUpdates } from "../hooks";
+import type { InstallmentSchedule, PaymentRequest, PaymentProofData } from "../hooks";
 import {
   CardComponent,
   CardBody,
@@ -24,15 +26,20 @@ import {
   Alert,
 } from "../components/ui";
 import PaymentInitiationModal from "../components/payments/PaymentInitiationModal";
-import PaymentConfirmationModal from "../components/payments/PaymentConfirmationModal";
+import type { PaymentData } from "../components/payments/PaymentInitiationModal";
+import PaymentProofModal from "../components/payments/PaymentProofModal";
+
+const OPEN_REQUEST_STATUSES: PaymentRequest["status"][] = ["pending", "processing", "failed"];
 
 export default function StudentPayments() {
   const { courseId } = useParams<{ courseId: string }>();
-  const { payments, summary, isLoading, error, refetch, downloadReceipt, initiatePayment, confirmPayment } = usePayments(courseId);
+  const { payments, summary, schedules, requests, isLoading, error, refetch, downloadReceipt, initiatePayment, submitProof } = usePayments(courseId);
+
+  // Show reviews by reception as they happen
+  usePaymentsRealtimeUpdates(refetch);
   const [downloadingReceipt, setDownloadingReceipt] = useState<string | null>(null);
-  const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
-  const [isConfirmModalOpen, setIsConfirmModalOpen] = useState(false);
-  const [pendingPayment, setPendingPayment] = useState<any>(null);
+  const [payingSchedule, setPayingSchedule] = useState<InstallmentSchedule | null>(null);
+  const [proofRequest, setProofRequest] = useState<PaymentRequest | null>(null);
 
   const handleDownloadReceipt = async (paymentId: string) => {
     try {
@@ -55,7 +62,10 @@ export default function StudentPayments() {
       case "processing":
         return "primary";
       case "failed":
+      case "cancelled":
         return "error";
+      case "refunded":
+        return "info";
       default:
         return "secondary";
     }
@@ -95,28 +105,34 @@ export default function StudentPayments() {
     }
   };
 
-  const handleInitiatePayment = async (data: any) => {
-    try {
-      const payment = await initiatePayment(data);
-      setPendingPayment(payment);
-      setIsPaymentModalOpen(false);
-      setIsConfirmModalOpen(true);
-    } catch (err: any) {
-      alert(err.message || 'Failed to initiate payment');
-    }
+  // Errors propagate so the modal can show them
+  const handleInitiatePayment = async (data: PaymentData) => {
+    const payment = await initiatePayment(data);
+    setPayingSchedule(null);
+    setProofRequest(payment);
   };
 
-  const handleConfirmPayment = async (paymentId: string, transactionId: string) => {
-    try {
-      await confirmPayment(paymentId, transactionId);
-      setPendingPayment(null);
-      setIsConfirmModalOpen(false);
-      alert('Payment confirmed successfully!');
-    } catch (err: any) {
-      alert(err.message || 'Failed to confirm payment');
-    }
+  const handleSubmitProof = async (paymentId: string, proof: PaymentProofData) => {
+    await submitProof(paymentId, proof);
+    setProofRequest(null);
+  };
+
+  const openRequests = requests.filter((request) => OPEN_REQUEST_STATUSES.includes(request.status));
+
+  // Balance not yet claimed by a request awaiting verification
+  const getPayableAmount = (schedule: InstallmentSchedule) => {
+    const requested = requests
+      .filter((request) => request.enrollment === schedule.enrollmentId && ["pending", "processing"].includes(request.status))
+      .reduce((sum, request) => sum + request.amount, 0);
+    return Math.max(schedule.remainingAmount - requested, 0);
   };
 
+  const overdueInstallments = schedules.flatMap((schedule) =>
+    schedule.installments
+      .filter((inst) => inst.isOverdue)
+      .map((inst) => ({ ...inst, courseTitle: schedule.course?.title || "Course" }))
+  );
+
   // Show loading state
   if (isLoading) {
     return <LoadingState type="skeleton" text="Loading payments..." />;
@@ -225,8 +241,33 @@ export default function StudentPayments() {
         </div>
       )}
 
+      {/* Overdue Installments */}
+      {overdueInstallments.length > 0 && (
+        <Alert variant="error">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="font-semibold mb-2">
+                {overdueInstallments.length === 1
+                  ? "1 installment is overdue"
+                  : `${overdueInstallments.length} installments are overdue`}
+              </p>
+              <ul className="space-y-1 text-sm">
+                {overdueInstallments.map((inst) => (
+                  <li key={inst._id}>
+                    ${inst.outstanding.toFixed(2)} for {inst.courseTitle}
+                    {inst.label && ` (${inst.label})`} · due{" "}
+                    {new Date(inst.dueDate).toLocaleDateString()}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        </Alert>
+      )}
+
       {/* Next Payment Due */}
-      {summary?.nextPaymentDue && (
+      {summary?.nextPaymentDue && !summary.nextPaymentDue.isOverdue && (
         <Alert
           variant={summary.nextPaymentDue.isOverdue ? "error" : "warning"}
         >
@@ -247,6 +288,148 @@ export default function StudentPayments() {
         </Alert>
       )}
 
+      {/* Installment Schedule */}
+      {schedules.some((schedule) => schedule.installments.length > 0) && (
+        <CardComponent variant="glass">
+          <CardBody>
+            <h2 className="text-xl font-semibold mb-6">Payment Schedule</h2>
+
+            <div className="space-y-6">
+              {schedules
+                .filter((schedule) => schedule.installments.length > 0)
+                .map((schedule) => (
+                  <div key={schedule.enrollmentId}>
+                    <div className="flex items-center justify-between gap-3 mb-3">
+                      {!courseId ? (
+                        <div>
+                          <h3 className="font-semibold">{schedule.course?.title || "Course"}</h3>
+                          <span className="text-sm text-white/60">
+                            ${schedule.paidAmount.toFixed(2)} / ${schedule.totalAmount.toFixed(2)} paid
+                          </span>
+                        </div>
+                      ) : (
+                        <span className="text-sm text-white/60">
+                          ${schedule.paidAmount.toFixed(2)} / ${schedule.totalAmount.toFixed(2)} paid
+                        </span>
+                      )}
+                      {getPayableAmount(schedule) > 0 && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          leftIcon={<Plus className="w-4 h-4" />}
+                          onClick={() => setPayingSchedule(schedule)}
+                        >
+                          Make a Payment
+                        </Button>
+                      )}
+                    </div>
+                    <div className="space-y-2">
+                      {schedule.installments.map((inst) => (
+                        <div
+                          key={inst._id}
+                          className={`flex items-center gap-4 p-3 rounded-lg border ${
+                            inst.isOverdue
+                              ? "bg-error/10 border-error/30"
+                              : "bg-white/5 border-white/10"
+                          }`}
+                        >
+                          <div className="flex-1 min-w-0">
+                            <p className="font-medium">{inst.label || "Installment"}</p>
+                            <p className="text-xs text-white/60">
+                              Due {new Date(inst.dueDate).toLocaleDateString()}
+                              {inst.paidDate && ` · Paid ${new Date(inst.paidDate).toLocaleDateString()}`}
+                            </p>
+                          </div>
+                          <div className="text-right">
+                            <p className="font-semibold">${inst.amount.toFixed(2)}</p>
+                            {inst.status !== "paid" && inst.paidAmount > 0 && (
+                              <p className="text-xs text-white/60">
+                                ${inst.outstanding.toFixed(2)} left
+                              </p>
+                            )}
+                          </div>
+                          <Badge
+                            variant={
+                              inst.status === "paid" ? "success" : inst.isOverdue ? "error" : "warning"
+                            }
+                            size="sm"
+                          >
+                            {inst.status === "paid" ? "Paid" : inst.isOverdue ? "Overdue" : "Pending"}
+                          </Badge>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+            </div>
+          </CardBody>
+        </CardComponent>
+      )}
+
+      {/* Payment Requests Awaiting Verification */}
+      {openRequests.length > 0 && (
+        <CardComponent variant="glass">
+          <CardBody>
+            <h2 className="text-xl font-semibold mb-6">Payments Awaiting Verification</h2>
+
+            <div className="space-y-3">
+              {openRequests.map((request) => (
+                <div
+                  key={request._id}
+                  className={`flex flex-col md:flex-row md:items-center gap-4 p-4 rounded-lg border ${
+                    request.status === "failed" ? "bg-error/10 border-error/30" : "bg-white/5 border-white/10"
+                  }`}
+                >
+                  <div className="flex-shrink-0 w-12 h-12 rounded-full bg-primary/20 flex items-center justify-center">
+                    {getPaymentMethodIcon(request.paymentMethod)}
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 mb-1">
+                      <h3 className="font-semibold">${request.amount.toFixed(2)}</h3>
+                      <Badge
+                        variant={
+                          request.status === "processing" ? "primary" : request.status === "failed" ? "error" : "warning"
+                        }
+                        size="sm"
+                      >
+                        {request.status === "processing"
+                          ? "Under review"
+                          : request.status === "failed"
+                            ? "Rejected"
+                            : "Awaiting proof"}
+                      </Badge>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-x-4 text-sm text-white/60">
+                      <span>{getPaymentMethodLabel(request.paymentMethod)}</span>
+                      {!courseId && request.course && <span>{request.course.title}</span>}
+                      {request.proof.reference && (
+                        <span className="text-xs truncate">Ref: {request.proof.reference}</span>
+                      )}
+                      <span className="text-xs">{new Date(request.createdAt).toLocaleDateString()}</span>
+                    </div>
+                    {request.status === "failed" && request.verification.rejectionReason && (
+                      <p className="text-xs text-error mt-1">{request.verification.rejectionReason}</p>
+                    )}
+                  </div>
+
+                  {request.status !== "processing" && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      leftIcon={<Upload className="w-4 h-4" />}
+                      onClick={() => setProofRequest(request)}
+                    >
+                      {request.status === "failed" ? "Resubmit Proof" : "Submit Proof"}
+                    </Button>
+                  )}
+                </div>
+              ))}
+            </div>
+          </CardBody>
+        </CardComponent>
+      )}
+
       {/* Payment History */}
       <CardComponent variant="glass">
         <CardBody>
@@ -275,8 +458,13 @@ export default function StudentPayments() {
                         variant={getStatusColor(payment.status) as any}
                         size="sm"
                       >
-                        {payment.status}
+                        {payment.status === "cancelled" ? "voided" : payment.status}
                       </Badge>
+                      {payment.status === "completed" && !!payment.refundedAmount && (
+                        <Badge variant="info" size="sm">
+                          ${payment.refundedAmount.toFixed(2)} refunded
+                        </Badge>
+                      )}
                       {payment.installmentNumber && (
                         <Badge variant="secondary" size="sm">
                           Installment #{payment.installmentNumber}
@@ -349,6 +537,14 @@ export default function StudentPayments() {
               <DollarSign className="w-4 h-4 text-primary" />
               <span>Sham Cash App</span>
             </div>
+            <div className="flex items-center gap-2 text-sm">
+              <Receipt className="w-4 h-4 text-primary" />
+              <span>Bank Transfer</span>
+            </div>
+            <div className="flex items-center gap-2 text-sm">
+              <Receipt className="w-4 h-4 text-primary" />
+              <span>Check</span>
+            </div>
           </div>
         </CardBody>
       </CardComponent>
@@ -359,35 +555,32 @@ export default function StudentPayments() {
           <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
           <div className="text-sm">
             <p className="font-medium mb-1">Need to make a payment?</p>
-            <p>Please visit the reception desk or contact your course administrator to process payments and generate receipts.</p>
+            <p>Pay cash or card at the reception desk. For Sham Cash, bank transfer or check, use "Make a Payment" and upload your proof; your receipt is issued once reception verifies it.</p>
           </div>
         </div>
       </Alert>
 
-      {/* Payment Modals - Note: These are placeholder implementations */}
-      {/* In production, enrollment data would come from course/enrollment context */}
-      {isPaymentModalOpen && (
+      {/* Payment Modals */}
+      {payingSchedule && (
         <PaymentInitiationModal
-          isOpen={isPaymentModalOpen}
-          onClose={() => setIsPaymentModalOpen(false)}
+          isOpen={payingSchedule !== null}
+          onClose={() => setPayingSchedule(null)}
           onSubmit={handleInitiatePayment}
-          enrollmentId="placeholder-enrollment-id"
-          remainingAmount={summary?.remainingAmount || 0}
-          courseName="Current Course"
+          enrollmentId={payingSchedule.enrollmentId}
+          remainingAmount={getPayableAmount(payingSchedule)}
+          courseName={payingSchedule.course?.title || "Course"}
         />
       )}
 
-      {isConfirmModalOpen && pendingPayment && (
-        <PaymentConfirmationModal
-          isOpen={isConfirmModalOpen}
-          onClose={() => {
-            setIsConfirmModalOpen(false);
-            setPendingPayment(null);
-          }}
-          onConfirm={handleConfirmPayment}
-          paymentId={pendingPayment._id}
-          amount={pendingPayment.amount}
-          paymentMethod={pendingPayment.paymentMethod}
+      {proofRequest && (
+        <PaymentProofModal
+          isOpen={proofRequest !== null}
+          onClose={() => setProofRequest(null)}
+          onSubmit={handleSubmitProof}
+          paymentId={proofRequest._id}
+          amount={proofRequest.amount}
+          paymentMethod={proofRequest.paymentMethod}
+          rejectionReason={proofRequest.status === "failed" ? proofRequest.verification.rejectionReason : null}
         />
       )}
     </motion.div>
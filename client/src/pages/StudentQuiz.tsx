@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback, useRef } from "react";
 import { useParams, useNavigate, Link } from "react-router-dom";
 import { motion, AnimatePresence } from "framer-motion";
 import {
@@ -10,8 +10,12 @@ import {
   AlertCircle,
   Trophy,
   RefreshCw,
+  ArrowUp,
+  ArrowDown,
+  Hourglass,
 } from "lucide-react";
-import { useQuiz } from "../hooks";
+import { useQuiz, isAnswered } from "../hooks";
+import type { QuestionType, QuizAnswerValue, QuizQuestion, QuizSubmitResult } from "../hooks";
 import {
   CardComponent,
   CardBody,
@@ -22,6 +26,180 @@ import {
   Modal,
 } from "../components/ui";
 
+const QUESTION_BADGES: Record<QuestionType, string> = {
+  single: "Single",
+  multiple: "Multiple",
+  true_false: "True / False",
+  numeric: "Numeric",
+  short_text: "Short Answer",
+  ordering: "Ordering",
+  matching: "Matching",
+  code_output: "Code Output",
+  essay: "Essay",
+};
+
+const CHOICE_TYPES: QuestionType[] = ["single", "multiple", "true_false"];
+
+const fieldClass =
+  "w-full px-4 py-3 rounded-xl bg-white/5 border-2 border-white/10 text-white placeholder:text-white/30 focus:outline-none focus:border-primary/50";
+
+interface AnswerInputProps {
+  question: QuizQuestion;
+  answer?: QuizAnswerValue;
+  onChange: (answer: QuizAnswerValue) => void;
+}
+
+/**
+ * Input for questions that aren't a pick of options
+ */
+function AnswerInput({ question, answer, onChange }: AnswerInputProps) {
+  const textAnswer = answer?.textAnswer || "";
+  const setText = (value: string) => onChange({ selectedOptions: [], textAnswer: value });
+
+  switch (question.type) {
+    case "numeric":
+      return (
+        <input
+          type="text"
+          inputMode="decimal"
+          value={textAnswer}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Your answer (a number)"
+          className={fieldClass}
+        />
+      );
+
+    case "short_text":
+      return (
+        <input
+          type="text"
+          value={textAnswer}
+          onChange={(e) => setText(e.target.value)}
+          placeholder="Your answer"
+          maxLength={500}
+          className={fieldClass}
+        />
+      );
+
+    case "code_output":
+      return (
+        <div className="space-y-3">
+          <div className="rounded-xl bg-black/40 border border-white/10 overflow-hidden">
+            {question.language && (
+              <div className="px-4 py-1.5 text-xs text-white/40 border-b border-white/10">{question.language}</div>
+            )}
+            <pre className="p-4 text-sm font-mono text-white/80 overflow-x-auto">{question.code}</pre>
+          </div>
+          <textarea
+            value={textAnswer}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="What does this code print?"
+            rows={4}
+            spellCheck={false}
+            className={`${fieldClass} font-mono text-sm resize-y`}
+          />
+        </div>
+      );
+
+    case "essay":
+      return (
+        <div>
+          <textarea
+            value={textAnswer}
+            onChange={(e) => setText(e.target.value)}
+            placeholder="Write your answer..."
+            rows={8}
+            maxLength={10000}
+            className={`${fieldClass} resize-y`}
+          />
+          <p className="text-xs text-white/40 mt-2">Your trainer grades this answer after you submit.</p>
+        </div>
+      );
+
+    case "ordering": {
+      // Until the student moves something, items stay in the order they arrived
+      const items = question.items || [];
+      const order =
+        answer?.selectedItems?.length === items.length ? answer.selectedItems : items.map((item) => item.token);
+      const move = (position: number, offset: number) => {
+        const next = [...order];
+        [next[position], next[position + offset]] = [next[position + offset], next[position]];
+        onChange({ selectedOptions: [], selectedItems: next });
+      };
+
+      return (
+        <div className="space-y-2">
+          {order.map((token, position) => (
+            <div
+              key={token}
+              className="flex items-center gap-3 p-3 rounded-xl bg-white/5 border-2 border-white/10"
+            >
+              <div className="w-8 h-8 rounded-lg flex items-center justify-center text-sm font-bold shrink-0 bg-white/10 text-white/50">
+                {position + 1}
+              </div>
+              <span className="flex-1 text-white/80">
+                {items.find((item) => item.token === token)?.text}
+              </span>
+              <Button variant="ghost" size="sm" onClick={() => move(position, -1)} disabled={position === 0} title="Move up">
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => move(position, 1)}
+                disabled={position === order.length - 1}
+                title="Move down"
+              >
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          {!isAnswered(answer) && (
+            <Button variant="outline" size="sm" onClick={() => onChange({ selectedOptions: [], selectedItems: order })}>
+              Keep this order
+            </Button>
+          )}
+        </div>
+      );
+    }
+
+    case "matching": {
+      const prompts = question.prompts || [];
+      const selected = prompts.map((_, position) => answer?.selectedItems?.[position] ?? "");
+      const choose = (position: number, token: string) =>
+        onChange({ selectedOptions: [], selectedItems: selected.map((chosen, i) => (i === position ? token : chosen)) });
+
+      return (
+        <div className="space-y-2">
+          {prompts.map((prompt, position) => (
+            <div
+              key={position}
+              className="grid grid-cols-1 md:grid-cols-2 gap-3 items-center p-3 rounded-xl bg-white/5 border-2 border-white/10"
+            >
+              <span className="text-white/80">{prompt}</span>
+              <select
+                value={selected[position]}
+                onChange={(e) => choose(position, e.target.value)}
+                className="w-full px-3 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:border-primary/50"
+              >
+                <option value="" className="bg-gray-900">Choose a match...</option>
+                {(question.matches || []).map((match) => (
+                  <option key={match.token} value={match.token} className="bg-gray-900">
+                    {match.text}
+                  </option>
+                ))}
+              </select>
+            </div>
+          ))}
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+}
+
 export default function StudentQuiz() {
   const { quizId } = useParams<{ quizId: string }>();
   const navigate = useNavigate();
@@ -31,54 +209,53 @@ export default function StudentQuiz() {
     answers,
     timeRemaining,
     attempts,
+    attemptId,
+    lastSavedAt,
+    timeUpMessage,
     isLoading,
     error,
     setCurrentQuestion,
     selectOption,
+    setAnswer,
     submitQuiz,
     startQuiz,
     fetchQuiz,
   } = useQuiz(quizId!);
 
-  const [attemptId, setAttemptId] = useState<string | null>(null);
-  const [quizStarted, setQuizStarted] = useState(false);
   const [showSubmitModal, setShowSubmitModal] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
-  const [results, setResults] = useState<any>(null);
+  const [results, setResults] = useState<QuizSubmitResult | null>(null);
 
-  useEffect(() => {
-    if (quiz && attempts.length > 0) {
-      const latestAttempt = attempts[0];
-      if (!latestAttempt.submittedAt) {
-        setAttemptId(latestAttempt._id);
-        setQuizStarted(true);
-      }
-    }
-  }, [quiz, attempts]);
+  // An attempt in progress is resumed after a reload, answers and all
+  const quizStarted = attemptId !== null;
 
   const handleStartQuiz = async () => {
-    const newAttemptId = await startQuiz();
-    if (newAttemptId) {
-      setAttemptId(newAttemptId);
-      setQuizStarted(true);
-    }
+    await startQuiz();
   };
 
-  const handleSubmit = async () => {
+  const handleSubmit = useCallback(async () => {
     if (!attemptId) return;
 
     try {
       setIsSubmitting(true);
-      const result = await submitQuiz(attemptId);
-      setResults(result);
+      const result = await submitQuiz();
+      setResults(result ?? null);
       setShowSubmitModal(false);
-      setQuizStarted(false);
     } catch (err) {
       console.error("Failed to submit quiz:", err);
     } finally {
       setIsSubmitting(false);
     }
-  };
+  }, [attemptId, submitQuiz]);
+
+  // Hand in once when the time runs out; the server grades what it has either way
+  const timeUpSubmitted = useRef<string | null>(null);
+  useEffect(() => {
+    if (timeRemaining === 0 && attemptId && timeUpSubmitted.current !== attemptId) {
+      timeUpSubmitted.current = attemptId;
+      handleSubmit();
+    }
+  }, [timeRemaining, attemptId, handleSubmit]);
 
   const formatTime = (seconds: number) => {
     const mins = Math.floor(seconds / 60);
@@ -87,7 +264,7 @@ export default function StudentQuiz() {
   };
 
   const getAnsweredCount = () => {
-    return Object.keys(answers).length;
+    return quiz?.questions.filter((question) => isAnswered(answers[question._id])).length || 0;
   };
 
   const getTotalQuestions = () => {
@@ -164,6 +341,24 @@ export default function StudentQuiz() {
                 : "You didn't pass this time, but you can try again."}
             </p>
 
+            {results.pendingReview && (
+              <Alert variant="info" className="mb-6 text-left">
+                <div className="flex items-center gap-2 text-sm">
+                  <Hourglass className="w-4 h-4 shrink-0" />
+                  <span>Some answers are waiting for your trainer to grade them, so this score may still go up.</span>
+                </div>
+              </Alert>
+            )}
+
+            {results.autoSubmitted && (
+              <Alert variant="warning" className="mb-6 text-left">
+                <div className="flex items-center gap-2 text-sm">
+                  <Clock className="w-4 h-4 shrink-0" />
+                  <span>Time ran out, so the answers saved before the deadline were graded.</span>
+                </div>
+              </Alert>
+            )}
+
             {/* Score */}
             <div className="mb-8">
               <div className={`inline-flex items-center justify-center w-32 h-32 rounded-2xl ${
@@ -215,10 +410,7 @@ export default function StudentQuiz() {
                   size="lg"
                   className="flex-1"
                   leftIcon={<RefreshCw className="w-4 h-4" />}
-                  onClick={() => {
-                    setResults(null);
-                    setQuizStarted(false);
-                  }}
+                  onClick={() => setResults(null)}
                 >
                   Try Again
                 </Button>
@@ -263,7 +455,7 @@ export default function StudentQuiz() {
             <div className="grid grid-cols-4 gap-3 mb-6">
               <div className="p-4 rounded-xl bg-gradient-to-br from-primary/10 to-primary/5 border border-primary/20 text-center">
                 <p className="text-xs text-primary mb-1">Questions</p>
-                <p className="text-2xl font-bold text-primary">{quiz.questions.length}</p>
+                <p className="text-2xl font-bold text-primary">{quiz.questionCount ?? quiz.questions.length}</p>
               </div>
               <div className="p-4 rounded-xl bg-gradient-to-br from-accent/10 to-accent/5 border border-accent/20 text-center">
                 <p className="text-xs text-accent mb-1">Time</p>
@@ -283,6 +475,15 @@ export default function StudentQuiz() {
               </div>
             </div>
 
+            {timeUpMessage && (
+              <Alert variant="warning" className="mb-6">
+                <div className="flex items-center gap-2 text-sm">
+                  <Clock className="w-4 h-4 shrink-0" />
+                  <span>{timeUpMessage}</span>
+                </div>
+              </Alert>
+            )}
+
             {/* Previous Attempts */}
             {attempts.length > 0 && (
               <div className="mb-6">
@@ -304,9 +505,19 @@ export default function StudentQuiz() {
                           {new Date(attempt.submittedAt).toLocaleDateString()}
                         </span>
                       </div>
-                      <Badge variant={attempt.passed ? "success" : "error"} size="sm">
-                        {Math.round(attempt.score)}%
-                      </Badge>
+                      <div className="flex items-center gap-2">
+                        {attempt.pendingReview && (
+                          <span className="text-xs text-white/40">Awaiting review</span>
+                        )}
+                        {attempt.autoSubmitted && (
+                          <span className="text-xs text-white/40">
+                            {attempt.status === "expired" ? "Expired" : "Time ran out"}
+                          </span>
+                        )}
+                        <Badge variant={attempt.passed ? "success" : "error"} size="sm">
+                          {Math.round(attempt.score)}%
+                        </Badge>
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -345,7 +556,8 @@ export default function StudentQuiz() {
 
   // Show quiz questions
   const currentQ = quiz.questions[currentQuestion];
-  const selectedAnswers = answers[currentQ._id] || [];
+  const selectedAnswers = answers[currentQ._id]?.selectedOptions || [];
+  const isChoice = CHOICE_TYPES.includes(currentQ.type);
 
   return (
     <motion.div
@@ -359,9 +571,12 @@ export default function StudentQuiz() {
           <h1 className="text-xl font-bold bg-gradient-to-r from-primary via-accent to-secondary bg-clip-text text-transparent">{quiz.title}</h1>
           <p className="text-sm text-white/50 mt-1">
             Question {currentQuestion + 1} of {getTotalQuestions()} • {getAnsweredCount()} answered
+            {lastSavedAt && (
+              <> • Saved {new Date(lastSavedAt).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" })}</>
+            )}
           </p>
         </div>
-        {quiz.timeLimit && (
+        {timeRemaining !== null && (
           <motion.div
             animate={timeRemaining < 60 ? { scale: [1, 1.05, 1] } : {}}
             transition={{ repeat: timeRemaining < 60 ? Infinity : 0, duration: 1 }}
@@ -411,7 +626,7 @@ export default function StudentQuiz() {
                     {currentQuestion + 1}
                   </div>
                   <Badge variant={currentQ.type === "multiple" ? "warning" : "primary"} size="sm">
-                    {currentQ.type === "multiple" ? "Multiple" : "Single"}
+                    {QUESTION_BADGES[currentQ.type]}
                   </Badge>
                 </div>
                 <div className="text-right">
@@ -426,58 +641,67 @@ export default function StudentQuiz() {
               </h2>
 
               {/* Options */}
-              <div className="space-y-2">
-                {currentQ.options.map((option: any, index: number) => {
-                  const isSelected = selectedAnswers.includes(index);
-                  const isMultiple = currentQ.type === "multiple";
-                  const optionLabel = String.fromCharCode(65 + index);
-
-                  return (
-                    <motion.button
-                      key={index}
-                      whileHover={{ x: 2 }}
-                      whileTap={{ scale: 0.99 }}
-                      onClick={() => selectOption(currentQ._id, index, isMultiple)}
-                      className={`w-full p-4 rounded-xl transition-all text-left group ${
-                        isSelected
-                          ? "bg-gradient-to-r from-primary/20 to-accent/20 border-2 border-primary/50"
-                          : "bg-white/5 border-2 border-white/10 hover:border-primary/30"
-                      }`}
-                    >
-                      <div className="flex items-center gap-3">
-                        {/* Option Label */}
-                        <div
-                          className={`w-8 h-8 rounded-lg flex items-center justify-center text-sm font-bold shrink-0 ${
-                            isSelected
-                              ? "bg-gradient-to-br from-primary to-accent text-white"
-                              : "bg-white/10 text-white/50"
-                          }`}
-                        >
-                          {optionLabel}
-                        </div>
-                        {/* Option Text */}
-                        <span className={`flex-1 ${
-                          isSelected ? "text-white font-medium" : "text-white/70"
-                        }`}>
-                          {option.text}
-                        </span>
-                        {/* Checkbox/Radio */}
-                        <div
-                          className={`w-5 h-5 rounded flex items-center justify-center shrink-0 ${
-                            isSelected
-                              ? "bg-primary"
-                              : "border-2 border-white/30"
-                          } ${!isMultiple && "rounded-full"}`}
-                        >
-                          {isSelected && (
-                            <CheckCircle className="w-3 h-3 text-white" />
-                          )}
+              {!isChoice && (
+                <AnswerInput
+                  question={currentQ}
+                  answer={answers[currentQ._id]}
+                  onChange={(answer) => setAnswer(currentQ._id, answer)}
+                />
+              )}
+              {isChoice && (
+                <div className="space-y-2">
+                  {currentQ.options.map((option, index) => {
+                    const isSelected = selectedAnswers.includes(index);
+                    const isMultiple = currentQ.type === "multiple";
+                    const optionLabel = String.fromCharCode(65 + index);
+
+                    return (
+                      <motion.button
+                        key={index}
+                        whileHover={{ x: 2 }}
+                        whileTap={{ scale: 0.99 }}
+                        onClick={() => selectOption(currentQ._id, index, isMultiple)}
+                        className={`w-full p-4 rounded-xl transition-all text-left group ${
+                          isSelected
+                            ? "bg-gradient-to-r from-primary/20 to-accent/20 border-2 border-primary/50"
+                            : "bg-white/5 border-2 border-white/10 hover:border-primary/30"
+                        }`}
+                      >
+                        <div className="flex items-center gap-3">
+                          {/* Option Label */}
+                          <div
+                            className={`w-8 h-8 rounded-lg flex items-center justify-center text-sm font-bold shrink-0 ${
+                              isSelected
+                                ? "bg-gradient-to-br from-primary to-accent text-white"
+                                : "bg-white/10 text-white/50"
+                            }`}
+                          >
+                            {optionLabel}
+                          </div>
+                          {/* Option Text */}
+                          <span className={`flex-1 ${
+                            isSelected ? "text-white font-medium" : "text-white/70"
+                          }`}>
+                            {option.text}
+                          </span>
+                          {/* Checkbox/Radio */}
+                          <div
+                            className={`w-5 h-5 rounded flex items-center justify-center shrink-0 ${
+                              isSelected
+                                ? "bg-primary"
+                                : "border-2 border-white/30"
+                            } ${!isMultiple && "rounded-full"}`}
+                          >
+                            {isSelected && (
+                              <CheckCircle className="w-3 h-3 text-white" />
+                            )}
+                          </div>
                         </div>
-                      </div>
-                    </motion.button>
-                  );
-                })}
-              </div>
+                      </motion.button>
+                    );
+                  })}
+                </div>
+              )}
 
               {/* Info */}
               {currentQ.type === "multiple" && (
@@ -498,8 +722,8 @@ export default function StudentQuiz() {
         <CardBody className="p-4">
           {/* Question Numbers Grid */}
           <div className="flex flex-wrap gap-2 mb-4">
-            {quiz.questions.map((_: any, index: number) => {
-              const isAnswered = answers[quiz.questions[index]._id];
+            {quiz.questions.map((_, index) => {
+              const answered = isAnswered(answers[quiz.questions[index]._id]);
               const isCurrent = index === currentQuestion;
 
               return (
@@ -511,7 +735,7 @@ export default function StudentQuiz() {
                   className={`w-9 h-9 rounded-lg text-sm font-semibold transition-all ${
                     isCurrent
                       ? "bg-gradient-to-br from-primary to-accent text-white shadow-glow"
-                      : isAnswered
+                      : answered
                       ? "bg-success/30 text-success border border-success/50"
                       : "bg-white/5 text-white/50 border border-white/10 hover:border-primary/30"
                   }`}
@@ -553,7 +777,6 @@ export default function StudentQuiz() {
                 size="md"
                 rightIcon={<CheckCircle className="w-4 h-4" />}
                 onClick={() => setShowSubmitModal(true)}
-                disabled={getAnsweredCount() < getTotalQuestions()}
               >
                 Submit Quiz
               </Button>
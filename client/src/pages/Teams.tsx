@@ -1,7 +1,7 @@
 import React, { useState, useMemo } from 'react';
-import { Search, Users, Plus, Edit2, Trash2, AlertCircle, RefreshCw, Filter } from 'lucide-react';
+import { Search, Users, Plus, Edit2, Trash2, AlertCircle, RefreshCw, Filter, Check, X } from 'lucide-react';
 import { useAuth } from '../providers/AuthProvider';
-import { useTeamsData, useTeamsRealtimeUpdates, type Team } from '../hooks';
+import { useTeamsData, useTeamsRealtimeUpdates, type Team, type TeamStatus } from '../hooks';
 import { LoadingState, Alert, Button, CardComponent, Badge } from '../components/ui';
 import { motion } from 'framer-motion';
 
@@ -12,16 +12,39 @@ export default function Teams() {
 
   const [searchQuery, setSearchQuery] = useState('');
   const [competitionFilter, setCompetitionFilter] = useState('all');
+  const [statusFilter, setStatusFilter] = useState<'all' | TeamStatus>('all');
   const canManage = user?.role === 'admin' || user?.role === 'superadmin';
+  const canReview = canManage || user?.role === 'organizer';
 
   const filteredTeams = useMemo(() => {
     return teams.filter(team => {
       const matchesSearch = !searchQuery || team.name.toLowerCase().includes(searchQuery.toLowerCase());
       const compId = typeof team.competitionId === 'string' ? team.competitionId : team.competitionId?._id;
       const matchesComp = competitionFilter === 'all' || compId === competitionFilter;
-      return matchesSearch && matchesComp;
+      const matchesStatus = statusFilter === 'all' || team.status === statusFilter;
+      return matchesSearch && matchesComp && matchesStatus;
     });
-  }, [teams, searchQuery, competitionFilter]);
+  }, [teams, searchQuery, competitionFilter, statusFilter]);
+
+  const handleApprove = async (team: Team) => {
+    const result = await actions.review(team._id, 'approved');
+    if (!result.success) alert(result.error);
+  };
+
+  const handleReject = async (team: Team) => {
+    const reason = window.prompt(`Reject team "${team.name}"? Optional reason for the coach:`);
+    if (reason === null) return;
+    const result = await actions.review(team._id, 'rejected', reason.trim());
+    if (!result.success) alert(result.error);
+  };
+
+  const getStatusVariant = (status: TeamStatus): 'warning' | 'success' | 'error' => {
+    switch (status) {
+      case 'pending': return 'warning';
+      case 'rejected': return 'error';
+      default: return 'success';
+    }
+  };
 
   const handleDelete = async (id: string, name: string) => {
     if (!window.confirm(`Delete team "${name}"?`)) return;
@@ -126,6 +149,12 @@ export default function Teams() {
                 <option key={c._id} value={c._id}>{c.title}</option>
               ))}
             </select>
+            <select className="select" value={statusFilter} onChange={(e) => setStatusFilter(e.target.value as 'all' | TeamStatus)}>
+              <option value="all">All Status</option>
+              <option value="pending">Pending</option>
+              <option value="approved">Approved</option>
+              <option value="rejected">Rejected</option>
+            </select>
           </div>
         </div>
         <div className="mt-4 pt-4 border-t border-gray-700">
@@ -149,9 +178,39 @@ export default function Teams() {
               <CardComponent variant="glass" hover className="p-6">
                 <div className="flex items-start justify-between mb-4">
                   <h3 className="text-lg font-semibold text-white">{team.name}</h3>
-                  <Badge variant="primary" size="sm">{team.memberCount} members</Badge>
+                  <div className="flex gap-2">
+                    <Badge variant={getStatusVariant(team.status)} size="sm">{team.status}</Badge>
+                    <Badge variant="primary" size="sm">{team.memberCount} members</Badge>
+                  </div>
                 </div>
                 {team.description && <p className="text-sm text-gray-400 mb-4">{team.description}</p>}
+                {team.status === 'rejected' && team.rejectionReason && (
+                  <p className="text-sm text-red-400 mb-4">Rejected: {team.rejectionReason}</p>
+                )}
+                {canReview && team.status !== 'approved' && (
+                  <div className="flex gap-2 pt-4 border-t border-gray-700">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      leftIcon={<Check className="w-4 h-4" />}
+                      onClick={() => handleApprove(team)}
+                      className="text-green-400 hover:bg-green-400/10"
+                    >
+                      Approve
+                    </Button>
+                    {team.status === 'pending' && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        leftIcon={<X className="w-4 h-4" />}
+                        onClick={() => handleReject(team)}
+                        className="text-red-400 hover:bg-red-400/10"
+                      >
+                        Reject
+                      </Button>
+                    )}
+                  </div>
+                )}
                 {canManage && (
                   <div className="flex gap-2 pt-4 border-t border-gray-700">
                     <Button variant="ghost" size="sm" leftIcon={<Edit2 className="w-4 h-4" />}>Edit</Button>
@@ -0,0 +1,233 @@
+import { useState, useEffect, useCallback } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  ArrowLeft,
+  Users,
+  Inbox,
+  CheckCircle,
+  RotateCcw,
+  Clock,
+  AlertCircle,
+  RefreshCw,
+} from "lucide-react";
+import {
+  useTrainerAssignments,
+  type AssignmentSubmissionsData,
+  type SubmissionStatus,
+} from "../hooks";
+import {
+  CardComponent,
+  CardBody,
+  Button,
+  Badge,
+  LoadingState,
+  Alert,
+  StatsCard,
+} from "../components/ui";
+import SubmissionGradingModal from "../components/trainer/SubmissionGradingModal";
+
+const STATUS_BADGES: Record<SubmissionStatus, { label: string; variant: "success" | "info" | "warning" | "default" }> = {
+  submitted: { label: "To grade", variant: "info" },
+  grading: { label: "Grading", variant: "info" },
+  graded: { label: "Graded", variant: "success" },
+  returned: { label: "Returned", variant: "default" },
+  resubmit_required: { label: "Resubmission requested", variant: "warning" },
+};
+
+export default function TrainerAssignmentSubmissions() {
+  const { assignmentId } = useParams<{ assignmentId: string }>();
+  const navigate = useNavigate();
+  const { getSubmissions, getSubmissionById, gradeSubmission, requestResubmission } =
+    useTrainerAssignments();
+
+  const [data, setData] = useState<AssignmentSubmissionsData | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [groupFilter, setGroupFilter] = useState("");
+  const [gradingId, setGradingId] = useState<string | null>(null);
+
+  const loadSubmissions = useCallback(async () => {
+    if (!assignmentId) return;
+    const result = await getSubmissions(assignmentId, groupFilter || undefined);
+    setData(result);
+    setLoadError(result ? null : "Failed to load submissions");
+    setIsLoading(false);
+  }, [assignmentId, groupFilter, getSubmissions]);
+
+  useEffect(() => {
+    loadSubmissions();
+  }, [loadSubmissions]);
+
+  if (isLoading && !data) {
+    return <LoadingState type="skeleton" text="Loading submissions..." />;
+  }
+
+  if (!data) {
+    return (
+      <div className="space-y-8">
+        <Alert variant="error">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="font-semibold mb-1">Failed to load submissions</p>
+              <p className="text-sm opacity-90">{loadError}</p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              leftIcon={<RefreshCw className="w-4 h-4" />}
+              onClick={loadSubmissions}
+            >
+              Retry
+            </Button>
+          </div>
+        </Alert>
+      </div>
+    );
+  }
+
+  const { assignment, groups, students, summary } = data;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div>
+        <button
+          onClick={() => navigate("/trainer/assignments")}
+          className="flex items-center gap-2 text-white/60 hover:text-white mb-4 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to Assignments
+        </button>
+        <h1 className="text-4xl font-bold bg-gradient-to-r from-primary via-accent to-secondary bg-clip-text text-transparent">
+          {assignment.title}
+        </h1>
+        <p className="mt-2 text-white/60">
+          {assignment.course.title}
+          {assignment.module && ` · ${assignment.module.title}`} · Due {new Date(assignment.dueDate).toLocaleString()}
+          {assignment.allowLateSubmission && assignment.latePenalty > 0 && ` · Late penalty ${assignment.latePenalty}%`}
+        </p>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatsCard
+          label="Submitted"
+          value={`${summary.submitted} / ${summary.totalStudents}`}
+          icon={<Users className="w-6 h-6" />}
+        />
+        <StatsCard
+          label="To Grade"
+          value={summary.pendingGrading}
+          icon={<Inbox className="w-6 h-6" />}
+        />
+        <StatsCard
+          label="Graded"
+          value={summary.graded}
+          icon={<CheckCircle className="w-6 h-6" />}
+        />
+        <StatsCard
+          label="Awaiting Resubmission"
+          value={summary.resubmitRequired}
+          icon={<RotateCcw className="w-6 h-6" />}
+        />
+      </div>
+
+      {/* Group filter */}
+      <div className="flex flex-wrap gap-2">
+        <Button
+          variant={groupFilter === "" ? "primary" : "outline"}
+          size="sm"
+          onClick={() => setGroupFilter("")}
+        >
+          All Groups
+        </Button>
+        {groups.map((group) => (
+          <Button
+            key={group._id}
+            variant={groupFilter === group._id ? "primary" : "outline"}
+            size="sm"
+            onClick={() => setGroupFilter(group._id)}
+          >
+            {group.name}
+          </Button>
+        ))}
+      </div>
+
+      {/* Students */}
+      <CardComponent variant="glass">
+        <CardBody>
+          {students.length === 0 ? (
+            <div className="text-center py-12 text-white/40">
+              <Users className="w-12 h-12 mx-auto mb-4 opacity-50" />
+              <p>No students in your groups for this course</p>
+            </div>
+          ) : (
+            <div className="space-y-2">
+              {students.map(({ student, group, submission, submissionCount }) => (
+                <div
+                  key={`${group._id}-${student._id}`}
+                  className="flex items-center gap-4 p-4 rounded-lg bg-white/5 border border-white/10"
+                >
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium">{student.name}</p>
+                    <p className="text-xs text-white/50">
+                      {student.email} · {group.name}
+                    </p>
+                  </div>
+
+                  {submission ? (
+                    <>
+                      <div className="flex flex-wrap items-center gap-2 text-sm text-white/60">
+                        <span className="flex items-center gap-1">
+                          <Clock className="w-4 h-4" />
+                          {new Date(submission.submittedAt).toLocaleString()}
+                        </span>
+                        {submissionCount > 1 && <Badge variant="default" size="sm">v{submission.version}</Badge>}
+                        {submission.isLate && <Badge variant="warning" size="sm">Late</Badge>}
+                        <Badge variant={STATUS_BADGES[submission.status].variant} size="sm">
+                          {STATUS_BADGES[submission.status].label}
+                        </Badge>
+                        {submission.status === "graded" && submission.grade.score !== null && (
+                          <span className="font-semibold text-white">
+                            {submission.grade.score} / {assignment.maxScore}
+                          </span>
+                        )}
+                      </div>
+                      <Button
+                        variant={submission.status === "graded" ? "ghost" : "primary"}
+                        size="sm"
+                        onClick={() => setGradingId(submission._id)}
+                      >
+                        {submission.status === "graded" ? "Review" : "Grade"}
+                      </Button>
+                    </>
+                  ) : (
+                    <span className="text-sm text-white/40">Not submitted</span>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardBody>
+      </CardComponent>
+
+      {gradingId && (
+        <SubmissionGradingModal
+          submissionId={gradingId}
+          assignment={assignment}
+          onClose={() => setGradingId(null)}
+          onSaved={loadSubmissions}
+          loadSubmission={getSubmissionById}
+          onGrade={gradeSubmission}
+          onRequestResubmission={requestResubmission}
+        />
+      )}
+    </motion.div>
+  );
+}
@@ -0,0 +1,298 @@
+import { useState, useEffect } from "react";
+import { useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  Plus,
+  Search,
+  ClipboardList,
+  Calendar,
+  Clock,
+  Inbox,
+  AlertCircle,
+  RefreshCw,
+  Edit,
+  Trash2,
+  ListChecks,
+} from "lucide-react";
+import {
+  useTrainerAssignments,
+  useTrainerGroups,
+  type AssignmentFormData,
+  type TrainerAssignment,
+} from "../hooks";
+import {
+  CardComponent,
+  CardBody,
+  Button,
+  Badge,
+  LoadingState,
+  Alert,
+  Input,
+  StatsCard,
+} from "../components/ui";
+import AssignmentFormModal from "../components/trainer/AssignmentFormModal";
+
+export default function TrainerAssignments() {
+  const navigate = useNavigate();
+  const {
+    assignments,
+    isLoading,
+    error,
+    refetch,
+    getCourseModules,
+    createAssignment,
+    updateAssignment,
+    deleteAssignment,
+  } = useTrainerAssignments();
+  const { groups } = useTrainerGroups({});
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [courseFilter, setCourseFilter] = useState("all");
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<TrainerAssignment | null>(null);
+
+  useEffect(() => {
+    refetch();
+  }, [refetch]);
+
+  // Courses the trainer teaches through their groups
+  const courses = Array.from(
+    new Map(
+      groups
+        .filter((g) => g.courseId && g.courseId._id)
+        .map((g) => [g.courseId._id, g.courseId])
+    ).values()
+  );
+
+  const filteredAssignments = assignments.filter((assignment) => {
+    const query = searchQuery.toLowerCase();
+    const matchesSearch =
+      assignment.title.toLowerCase().includes(query) ||
+      assignment.course.title.toLowerCase().includes(query);
+    const matchesCourse = courseFilter === "all" || assignment.course._id === courseFilter;
+    return matchesSearch && matchesCourse;
+  });
+
+  const pendingGrading = assignments.reduce((sum, a) => sum + (a.submissionStats?.pendingGrading || 0), 0);
+  const upcoming = assignments.filter((a) => new Date(a.dueDate) > new Date()).length;
+
+  const handleSubmit = async (data: AssignmentFormData) => {
+    if (editing) {
+      return !!(await updateAssignment(editing._id, data));
+    }
+    return !!(await createAssignment(data));
+  };
+
+  const handleDelete = async (id: string, title: string) => {
+    if (!confirm(`Are you sure you want to delete "${title}"? Existing submissions are kept.`)) return;
+    await deleteAssignment(id);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  if (isLoading && assignments.length === 0) {
+    return <LoadingState type="skeleton" text="Loading assignments..." />;
+  }
+
+  if (error && assignments.length === 0) {
+    return (
+      <div className="space-y-8">
+        <Alert variant="error">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="font-semibold mb-1">Failed to load assignments</p>
+              <p className="text-sm opacity-90">{error}</p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              leftIcon={<RefreshCw className="w-4 h-4" />}
+              onClick={() => refetch()}
+            >
+              Retry
+            </Button>
+          </div>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-primary via-accent to-secondary bg-clip-text text-transparent">
+            Assignments
+          </h1>
+          <p className="mt-2 text-white/60">Create assignments per module and grade submissions against a rubric</p>
+        </div>
+        <Button variant="primary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => setShowForm(true)}>
+          New Assignment
+        </Button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatsCard
+          label="Assignments"
+          value={assignments.length}
+          icon={<ClipboardList className="w-6 h-6" />}
+        />
+        <StatsCard
+          label="Open"
+          value={upcoming}
+          icon={<Calendar className="w-6 h-6" />}
+        />
+        <StatsCard
+          label="Awaiting Grading"
+          value={pendingGrading}
+          icon={<Inbox className="w-6 h-6" />}
+        />
+      </div>
+
+      {/* Search and Filters */}
+      <div className="flex flex-wrap gap-4">
+        <div className="flex-1 min-w-[200px]">
+          <Input
+            type="text"
+            placeholder="Search assignments..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            leftIcon={<Search className="w-4 h-4" />}
+          />
+        </div>
+        <select
+          value={courseFilter}
+          onChange={(e) => setCourseFilter(e.target.value)}
+          className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:border-primary"
+        >
+          <option value="all" className="bg-zinc-900">All Courses</option>
+          {courses.map((course) => (
+            <option key={course._id} value={course._id} className="bg-zinc-900">
+              {course.title}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Assignments List */}
+      {filteredAssignments.length > 0 ? (
+        <div className="space-y-4">
+          {filteredAssignments.map((assignment) => {
+            const isPastDue = new Date(assignment.dueDate) < new Date();
+            return (
+              <CardComponent key={assignment._id} variant="glass" hover>
+                <CardBody>
+                  <div className="flex items-start gap-4">
+                    <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                      <ClipboardList className="w-6 h-6 text-primary" />
+                    </div>
+
+                    <div className="flex-1 min-w-0">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        <h3 className="font-semibold text-lg text-white">{assignment.title}</h3>
+                        <Badge variant="secondary" size="sm">{assignment.course.title}</Badge>
+                        {assignment.module && (
+                          <Badge variant="default" size="sm">{assignment.module.title}</Badge>
+                        )}
+                        {isPastDue && <Badge variant="warning" size="sm">Past due</Badge>}
+                      </div>
+
+                      <p className="text-sm text-white/60 mb-2 line-clamp-2">{assignment.description}</p>
+
+                      <div className="flex flex-wrap items-center gap-4 text-sm text-white/60">
+                        <span className="flex items-center gap-1">
+                          <Calendar className="w-4 h-4" />
+                          Due {new Date(assignment.dueDate).toLocaleString()}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Clock className="w-4 h-4" />
+                          {assignment.allowLateSubmission
+                            ? `Late allowed (-${assignment.latePenalty}%)`
+                            : "No late submissions"}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <ListChecks className="w-4 h-4" />
+                          {assignment.rubric.length > 0
+                            ? `${assignment.rubric.length} criteria`
+                            : `Scored out of ${assignment.maxScore}`}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          <Inbox className="w-4 h-4" />
+                          {assignment.submissionStats?.submitted || 0} submitted
+                          {(assignment.submissionStats?.pendingGrading || 0) > 0 &&
+                            ` · ${assignment.submissionStats?.pendingGrading} to grade`}
+                        </span>
+                      </div>
+                    </div>
+
+                    {/* Actions */}
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => navigate(`/trainer/assignments/${assignment._id}/submissions`)}
+                      >
+                        Submissions
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setEditing(assignment)}
+                        title="Edit"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => handleDelete(assignment._id, assignment.title)}
+                        className="text-error hover:text-error"
+                        title="Delete"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardBody>
+              </CardComponent>
+            );
+          })}
+        </div>
+      ) : (
+        <CardComponent variant="glass">
+          <CardBody className="text-center py-16">
+            <ClipboardList className="w-16 h-16 mx-auto mb-4 text-white/30" />
+            <h3 className="text-lg font-semibold text-white mb-2">
+              {searchQuery || courseFilter !== "all" ? "No assignments found" : "No assignments yet"}
+            </h3>
+            <p className="text-white/60 mb-6">
+              {searchQuery || courseFilter !== "all"
+                ? "Try adjusting your search or filters"
+                : "Create your first assignment to collect student work"}
+            </p>
+          </CardBody>
+        </CardComponent>
+      )}
+
+      {(showForm || editing) && (
+        <AssignmentFormModal
+          assignment={editing}
+          courses={courses}
+          loadModules={getCourseModules}
+          onClose={closeForm}
+          onSubmit={handleSubmit}
+        />
+      )}
+    </motion.div>
+  );
+}
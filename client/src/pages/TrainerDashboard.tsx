@@ -9,7 +9,10 @@ import {
   ArrowRight,
   BookOpen,
   FileText,
-  Upload
+  Upload,
+  FolderOpen,
+  Eye,
+  Download
 } from "lucide-react";
 import { useAuth } from "../providers/AuthProvider";
 import {
@@ -344,6 +347,37 @@ export default function TrainerDashboard() {
                     </div>
                   </motion.div>
                 </Link>
+
+                {/* Resource Library Action */}
+                <Link to="/trainer/resources" className="block group cursor-pointer">
+                  <motion.div
+                    whileHover={{ scale: 1.02, x: 4 }}
+                    whileTap={{ scale: 0.98 }}
+                    className="relative overflow-hidden rounded-xl bg-gradient-to-br from-primary/20 to-primary/5 border border-primary/30 p-4 transition-all duration-300 hover:border-primary hover:shadow-lg hover:shadow-primary/20"
+                  >
+                    <div className="absolute inset-0 bg-gradient-to-br from-primary/10 to-transparent opacity-0 group-hover:opacity-100 transition-opacity duration-300" />
+                    <div className="relative z-10 flex items-center gap-3">
+                      <div className="p-2 rounded-lg bg-primary/20 group-hover:bg-primary/30 transition-colors">
+                        <FolderOpen className="w-5 h-5 text-primary" />
+                      </div>
+                      <div className="flex-1">
+                        <p className="font-semibold text-white">Resource Library</p>
+                        <p className="text-xs text-white/60 flex items-center gap-3">
+                          <span>{stats?.resources?.total || 0} files</span>
+                          <span className="flex items-center gap-1">
+                            <Eye className="w-3 h-3" />
+                            {stats?.resources?.views || 0}
+                          </span>
+                          <span className="flex items-center gap-1">
+                            <Download className="w-3 h-3" />
+                            {stats?.resources?.downloads || 0}
+                          </span>
+                        </p>
+                      </div>
+                      <ArrowRight className="w-5 h-5 text-primary opacity-0 group-hover:opacity-100 group-hover:translate-x-1 transition-all" />
+                    </div>
+                  </motion.div>
+                </Link>
               </div>
             </CardBody>
           </CardComponent>
@@ -13,8 +13,10 @@ import {
   Clock,
   AlertCircle,
   RefreshCw,
+  MessageSquare,
 } from "lucide-react";
 import { useTrainerGroups, type TrainerGroup } from "../hooks/useTrainerGroups";
+import { useGroupChat } from "../hooks/useGroupChat";
 import {
   CardComponent,
   CardBody,
@@ -25,6 +27,7 @@ import {
 } from "../components/ui";
 import { api } from "../lib/api";
 import SessionPickerModal from "../components/trainer/SessionPickerModal";
+import GroupChatPanel from "../components/chat/GroupChatPanel";
 
 interface GroupStudent {
   _id: string;
@@ -65,6 +68,8 @@ export default function TrainerGroupDetail() {
   const [error, setError] = useState<string | null>(null);
   const [showSessionPicker, setShowSessionPicker] = useState(false);
   const [groupSessions, setGroupSessions] = useState<Session[]>([]);
+  const [activeTab, setActiveTab] = useState<"overview" | "chat">("overview");
+  const groupChat = useGroupChat("trainer", groupId);
 
   // Fetch group details and students
   const fetchGroupData = async () => {
@@ -310,148 +315,181 @@ export default function TrainerGroupDetail() {
         </CardComponent>
       </div>
 
-      {/* Schedule Info */}
-      {group.schedule && group.schedule.length > 0 && (
+      {/* Tabs */}
+      <div className="flex gap-1 bg-surface/50 p-1 rounded-lg w-fit">
+        <button
+          onClick={() => setActiveTab("overview")}
+          className={`flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-lg transition-all ${
+            activeTab === "overview" ? "bg-surface text-white shadow-sm" : "text-gray-400 hover:text-gray-200"
+          }`}
+        >
+          <BookOpen className="w-4 h-4" />
+          Overview
+        </button>
+        <button
+          onClick={() => setActiveTab("chat")}
+          className={`flex items-center gap-2 px-4 py-2.5 text-sm font-medium rounded-lg transition-all ${
+            activeTab === "chat" ? "bg-surface text-white shadow-sm" : "text-gray-400 hover:text-gray-200"
+          }`}
+        >
+          <MessageSquare className="w-4 h-4" />
+          Chat
+          {groupChat.unreadCount > 0 && (
+            <Badge variant="error" size="sm">
+              {groupChat.unreadCount}
+            </Badge>
+          )}
+        </button>
+      </div>
+
+      {activeTab === "chat" && <GroupChatPanel chat={groupChat} canModerate />}
+
+      {activeTab === "overview" && (
+        <>
+        {/* Schedule Info */}
+        {group.schedule && group.schedule.length > 0 && (
+          <CardComponent variant="glass">
+            <CardBody>
+              <h2 className="text-xl font-semibold mb-4">Schedule</h2>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {group.schedule.map((schedule, index) => (
+                  <div
+                    key={index}
+                    className="flex items-center gap-3 p-3 rounded-lg bg-white/5 border border-white/10"
+                  >
+                    <Calendar className="w-5 h-5 text-primary" />
+                    <div>
+                      <p className="font-medium">{schedule.day}</p>
+                      <p className="text-sm text-white/60">
+                        {schedule.startTime} - {schedule.endTime}
+                      </p>
+                      {schedule.location && (
+                        <p className="text-xs text-white/40 mt-1">📍 {schedule.location}</p>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardBody>
+          </CardComponent>
+        )}
+
+        {/* Students List */}
         <CardComponent variant="glass">
           <CardBody>
-            <h2 className="text-xl font-semibold mb-4">Schedule</h2>
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              {group.schedule.map((schedule, index) => (
-                <div
-                  key={index}
-                  className="flex items-center gap-3 p-3 rounded-lg bg-white/5 border border-white/10"
-                >
-                  <Calendar className="w-5 h-5 text-primary" />
-                  <div>
-                    <p className="font-medium">{schedule.day}</p>
-                    <p className="text-sm text-white/60">
-                      {schedule.startTime} - {schedule.endTime}
-                    </p>
-                    {schedule.location && (
-                      <p className="text-xs text-white/40 mt-1">📍 {schedule.location}</p>
-                    )}
-                  </div>
-                </div>
-              ))}
+            <div className="flex items-center justify-between mb-6">
+              <h2 className="text-xl font-semibold">Students ({students.length})</h2>
             </div>
-          </CardBody>
-        </CardComponent>
-      )}
-
-      {/* Students List */}
-      <CardComponent variant="glass">
-        <CardBody>
-          <div className="flex items-center justify-between mb-6">
-            <h2 className="text-xl font-semibold">Students ({students.length})</h2>
-          </div>
-
-          {students.length > 0 ? (
-            <div className="space-y-3">
-              {students.map((student, index) => (
-                <motion.div
-                  key={student._id}
-                  initial={{ opacity: 0, x: -20 }}
-                  animate={{ opacity: 1, x: 0 }}
-                  transition={{ delay: index * 0.05 }}
-                  className="flex items-center gap-4 p-4 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 transition-all"
-                >
-                  {/* Avatar */}
-                  <div className="flex-shrink-0">
-                    {student.profile?.avatar ? (
-                      <img
-                        src={student.profile.avatar}
-                        alt={student.name}
-                        className="w-12 h-12 rounded-full object-cover"
-                      />
-                    ) : (
-                      <div className="w-12 h-12 rounded-full bg-gradient-to-br from-primary to-accent flex items-center justify-center">
-                        <span className="text-white font-bold text-lg">
-                          {student.name.charAt(0).toUpperCase()}
-                        </span>
-                      </div>
-                    )}
-                  </div>
 
-                  {/* Student Info */}
-                  <div className="flex-1 min-w-0">
-                    <h3 className="font-semibold truncate">{student.name}</h3>
-                    <div className="flex items-center gap-3 text-sm text-white/60 mt-1">
-                      <span className="flex items-center gap-1">
-                        <Mail className="w-3 h-3" />
-                        {student.email}
-                      </span>
-                      {student.profile?.phone && (
-                        <span className="flex items-center gap-1">
-                          📱 {student.profile.phone}
-                        </span>
+            {students.length > 0 ? (
+              <div className="space-y-3">
+                {students.map((student, index) => (
+                  <motion.div
+                    key={student._id}
+                    initial={{ opacity: 0, x: -20 }}
+                    animate={{ opacity: 1, x: 0 }}
+                    transition={{ delay: index * 0.05 }}
+                    className="flex items-center gap-4 p-4 rounded-lg bg-white/5 border border-white/10 hover:bg-white/10 transition-all"
+                  >
+                    {/* Avatar */}
+                    <div className="flex-shrink-0">
+                      {student.profile?.avatar ? (
+                        <img
+                          src={student.profile.avatar}
+                          alt={student.name}
+                          className="w-12 h-12 rounded-full object-cover"
+                        />
+                      ) : (
+                        <div className="w-12 h-12 rounded-full bg-gradient-to-br from-primary to-accent flex items-center justify-center">
+                          <span className="text-white font-bold text-lg">
+                            {student.name.charAt(0).toUpperCase()}
+                          </span>
+                        </div>
                       )}
                     </div>
-                  </div>
 
-                  {/* Attendance Stats */}
-                  {student.attendance && (
-                    <div className="hidden md:flex items-center gap-4">
-                      <div className="text-center">
-                        <p className="text-xs text-white/40">Attendance</p>
-                        <p className="text-lg font-semibold">
-                          {Math.round(student.attendance.percentage)}%
-                        </p>
-                      </div>
-                      <div className="flex items-center gap-2 text-xs">
-                        <span className="flex items-center gap-1 text-green-400">
-                          <CheckCircle className="w-3 h-3" />
-                          {student.attendance.present}
-                        </span>
-                        <span className="flex items-center gap-1 text-yellow-400">
-                          <Clock className="w-3 h-3" />
-                          {student.attendance.late}
-                        </span>
-                        <span className="flex items-center gap-1 text-red-400">
-                          <XCircle className="w-3 h-3" />
-                          {student.attendance.absent}
+                    {/* Student Info */}
+                    <div className="flex-1 min-w-0">
+                      <h3 className="font-semibold truncate">{student.name}</h3>
+                      <div className="flex items-center gap-3 text-sm text-white/60 mt-1">
+                        <span className="flex items-center gap-1">
+                          <Mail className="w-3 h-3" />
+                          {student.email}
                         </span>
+                        {student.profile?.phone && (
+                          <span className="flex items-center gap-1">
+                            📱 {student.profile.phone}
+                          </span>
+                        )}
                       </div>
                     </div>
-                  )}
-                </motion.div>
-              ))}
-            </div>
-          ) : (
-            <div className="text-center py-12 text-white/40">
-              <Users className="w-12 h-12 mx-auto mb-4 opacity-50" />
-              <p>No students enrolled yet</p>
-              <p className="text-sm mt-2">Students can be added by reception staff</p>
-            </div>
-          )}
-        </CardBody>
-      </CardComponent>
 
-      {/* Next Session Info */}
-      {group.nextSession && (
-        <CardComponent variant="glass">
-          <CardBody>
-            <h2 className="text-xl font-semibold mb-4">Next Session</h2>
-            <div className="flex items-center gap-4 p-4 rounded-lg bg-white/5 border border-white/10">
-              <Calendar className="w-8 h-8 text-primary flex-shrink-0" />
-              <div className="flex-1">
-                <h3 className="font-semibold">{group.nextSession.title}</h3>
-                <div className="flex items-center gap-4 text-sm text-white/60 mt-1">
-                  <span>
-                    {new Date(group.nextSession.scheduledDate).toLocaleDateString()}
-                  </span>
-                  <span>
-                    {group.nextSession.startTime} - {group.nextSession.endTime}
-                  </span>
-                </div>
+                    {/* Attendance Stats */}
+                    {student.attendance && (
+                      <div className="hidden md:flex items-center gap-4">
+                        <div className="text-center">
+                          <p className="text-xs text-white/40">Attendance</p>
+                          <p className="text-lg font-semibold">
+                            {Math.round(student.attendance.percentage)}%
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2 text-xs">
+                          <span className="flex items-center gap-1 text-green-400">
+                            <CheckCircle className="w-3 h-3" />
+                            {student.attendance.present}
+                          </span>
+                          <span className="flex items-center gap-1 text-yellow-400">
+                            <Clock className="w-3 h-3" />
+                            {student.attendance.late}
+                          </span>
+                          <span className="flex items-center gap-1 text-red-400">
+                            <XCircle className="w-3 h-3" />
+                            {student.attendance.absent}
+                          </span>
+                        </div>
+                      </div>
+                    )}
+                  </motion.div>
+                ))}
               </div>
-              <Link to={`/trainer/sessions/${group.nextSession._id}`}>
-                <Button variant="primary" size="sm">
-                  View Session
-                </Button>
-              </Link>
-            </div>
+            ) : (
+              <div className="text-center py-12 text-white/40">
+                <Users className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                <p>No students enrolled yet</p>
+                <p className="text-sm mt-2">Students can be added by reception staff</p>
+              </div>
+            )}
           </CardBody>
         </CardComponent>
+
+        {/* Next Session Info */}
+        {group.nextSession && (
+          <CardComponent variant="glass">
+            <CardBody>
+              <h2 className="text-xl font-semibold mb-4">Next Session</h2>
+              <div className="flex items-center gap-4 p-4 rounded-lg bg-white/5 border border-white/10">
+                <Calendar className="w-8 h-8 text-primary flex-shrink-0" />
+                <div className="flex-1">
+                  <h3 className="font-semibold">{group.nextSession.title}</h3>
+                  <div className="flex items-center gap-4 text-sm text-white/60 mt-1">
+                    <span>
+                      {new Date(group.nextSession.scheduledDate).toLocaleDateString()}
+                    </span>
+                    <span>
+                      {group.nextSession.startTime} - {group.nextSession.endTime}
+                    </span>
+                  </div>
+                </div>
+                <Link to={`/trainer/sessions/${group.nextSession._id}`}>
+                  <Button variant="primary" size="sm">
+                    View Session
+                  </Button>
+                </Link>
+              </div>
+            </CardBody>
+          </CardComponent>
+        )}
+        </>
       )}
 
       {/* Session Picker Modal */}
@@ -0,0 +1,340 @@
+import { useState, useEffect } from "react";
+import { motion } from "framer-motion";
+import {
+  Plus,
+  Search,
+  Library,
+  BarChart3,
+  AlertCircle,
+  RefreshCw,
+  Edit,
+  Trash2,
+  TrendingUp,
+} from "lucide-react";
+import {
+  useQuestionBank,
+  useTrainerGroups,
+  DIFFICULTY_LABELS,
+  QUESTION_TYPE_LABELS,
+  type BankQuestion,
+  type BankQuestionData,
+  type QuestionDifficulty,
+} from "../hooks";
+import {
+  CardComponent,
+  CardBody,
+  Button,
+  Badge,
+  LoadingState,
+  Alert,
+  Input,
+  StatsCard,
+} from "../components/ui";
+import BankQuestionModal from "../components/trainer/BankQuestionModal";
+
+const DIFFICULTY_BADGES: Record<QuestionDifficulty, "success" | "warning" | "error"> = {
+  easy: "success",
+  medium: "warning",
+  hard: "error",
+};
+
+// Below this an item hardly separates strong from weak students
+const LOW_DISCRIMINATION = 0.2;
+
+function ItemStats({ stats }: { stats: BankQuestion["stats"] }) {
+  if (stats.attempts === 0) {
+    return <span className="text-white/40">Not answered yet</span>;
+  }
+
+  return (
+    <>
+      <span>{stats.percentCorrect}% correct</span>
+      <span
+        className={
+          stats.discrimination !== null && stats.discrimination < LOW_DISCRIMINATION ? "text-warning" : undefined
+        }
+        title="Share correct among the top 27% of attempts minus the bottom 27%"
+      >
+        Discrimination {stats.discrimination === null ? "—" : stats.discrimination.toFixed(2)}
+      </span>
+      <span>
+        {stats.attempts} attempt{stats.attempts === 1 ? "" : "s"}
+      </span>
+    </>
+  );
+}
+
+export default function TrainerQuestionBank() {
+  const {
+    questions,
+    tags,
+    isLoading,
+    error,
+    refetch,
+    createQuestion,
+    updateQuestion,
+    deleteQuestion,
+    refreshStats,
+  } = useQuestionBank();
+  const { groups } = useTrainerGroups({});
+
+  const [courseId, setCourseId] = useState("");
+  const [difficultyFilter, setDifficultyFilter] = useState<QuestionDifficulty | "">("");
+  const [tagFilter, setTagFilter] = useState("");
+  const [searchQuery, setSearchQuery] = useState("");
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<BankQuestion | null>(null);
+  const [isRefreshing, setIsRefreshing] = useState(false);
+
+  // Courses the trainer teaches through their groups
+  const courses = Array.from(
+    new Map(
+      groups
+        .filter((g) => g.courseId && g.courseId._id)
+        .map((g) => [g.courseId._id, g.courseId])
+    ).values()
+  );
+
+  // Start on the first course once groups have loaded
+  const firstCourseId = courses[0]?._id;
+  useEffect(() => {
+    if (!courseId && firstCourseId) setCourseId(firstCourseId);
+  }, [courseId, firstCourseId]);
+
+  useEffect(() => {
+    if (courseId) {
+      refetch(courseId, { difficulty: difficultyFilter || undefined, tag: tagFilter || undefined });
+    }
+  }, [courseId, difficultyFilter, tagFilter, refetch]);
+
+  const filteredQuestions = questions.filter((item) =>
+    item.question.toLowerCase().includes(searchQuery.toLowerCase())
+  );
+
+  const answered = questions.filter((item) => item.stats.percentCorrect !== null);
+  const averageCorrect = answered.length > 0
+    ? Math.round(answered.reduce((sum, item) => sum + (item.stats.percentCorrect || 0), 0) / answered.length)
+    : null;
+  const weakItems = questions.filter(
+    (item) => item.stats.discrimination !== null && item.stats.discrimination < LOW_DISCRIMINATION
+  ).length;
+
+  const handleSubmit = (data: BankQuestionData) =>
+    editing ? updateQuestion(editing._id, data) : createQuestion(courseId, data);
+
+  const handleDelete = async (item: BankQuestion) => {
+    if (!confirm(`Delete "${item.question}" from the bank? Past attempts keep their copy.`)) return;
+    await deleteQuestion(item._id);
+  };
+
+  const handleRefreshStats = async () => {
+    setIsRefreshing(true);
+    if (await refreshStats(courseId)) {
+      await refetch(courseId, { difficulty: difficultyFilter || undefined, tag: tagFilter || undefined });
+    }
+    setIsRefreshing(false);
+  };
+
+  const closeForm = () => {
+    setShowForm(false);
+    setEditing(null);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-primary via-accent to-secondary bg-clip-text text-transparent">
+            Question Bank
+          </h1>
+          <p className="mt-2 text-white/60">
+            Reusable questions per course; quizzes draw random sets from them by difficulty and tags
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            leftIcon={<RefreshCw className={`w-4 h-4 ${isRefreshing ? "animate-spin" : ""}`} />}
+            onClick={handleRefreshStats}
+            disabled={!courseId || isRefreshing}
+          >
+            Refresh Stats
+          </Button>
+          <Button
+            variant="primary"
+            leftIcon={<Plus className="w-4 h-4" />}
+            onClick={() => setShowForm(true)}
+            disabled={!courseId}
+          >
+            New Question
+          </Button>
+        </div>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <StatsCard
+          label="Questions"
+          value={questions.length}
+          icon={<Library className="w-6 h-6" />}
+        />
+        <StatsCard
+          label="Average Correct"
+          value={averageCorrect === null ? "—" : `${averageCorrect}%`}
+          icon={<TrendingUp className="w-6 h-6" />}
+        />
+        <StatsCard
+          label="Low Discrimination"
+          value={weakItems}
+          icon={<BarChart3 className="w-6 h-6" />}
+        />
+      </div>
+
+      {/* Search and Filters */}
+      <div className="flex flex-wrap gap-4">
+        <select
+          value={courseId}
+          onChange={(e) => {
+            setCourseId(e.target.value);
+            setTagFilter("");
+          }}
+          className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:border-primary"
+        >
+          {courses.length === 0 && <option value="" className="bg-zinc-900">No courses</option>}
+          {courses.map((course) => (
+            <option key={course._id} value={course._id} className="bg-zinc-900">
+              {course.title}
+            </option>
+          ))}
+        </select>
+        <div className="flex-1 min-w-[200px]">
+          <Input
+            type="text"
+            placeholder="Search questions..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            leftIcon={<Search className="w-4 h-4" />}
+          />
+        </div>
+        <select
+          value={difficultyFilter}
+          onChange={(e) => setDifficultyFilter(e.target.value as QuestionDifficulty | "")}
+          className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:border-primary"
+        >
+          <option value="" className="bg-zinc-900">All Difficulties</option>
+          {(Object.keys(DIFFICULTY_LABELS) as QuestionDifficulty[]).map((level) => (
+            <option key={level} value={level} className="bg-zinc-900">
+              {DIFFICULTY_LABELS[level]}
+            </option>
+          ))}
+        </select>
+        <select
+          value={tagFilter}
+          onChange={(e) => setTagFilter(e.target.value)}
+          className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:border-primary"
+        >
+          <option value="" className="bg-zinc-900">All Tags</option>
+          {tags.map((tag) => (
+            <option key={tag} value={tag} className="bg-zinc-900">
+              {tag}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {error && (
+        <Alert variant="error">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span>{error}</span>
+          </div>
+        </Alert>
+      )}
+
+      {/* Questions List */}
+      {isLoading && questions.length === 0 ? (
+        <LoadingState type="skeleton" text="Loading question bank..." />
+      ) : filteredQuestions.length > 0 ? (
+        <div className="space-y-4">
+          {filteredQuestions.map((item) => (
+            <CardComponent key={item._id} variant="glass" hover>
+              <CardBody>
+                <div className="flex items-start gap-4">
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-2">
+                      <Badge variant={DIFFICULTY_BADGES[item.difficulty]} size="sm">
+                        {DIFFICULTY_LABELS[item.difficulty]}
+                      </Badge>
+                      <Badge variant="secondary" size="sm">{QUESTION_TYPE_LABELS[item.type]}</Badge>
+                      {item.tags.map((tag) => (
+                        <Badge key={tag} variant="default" size="sm">{tag}</Badge>
+                      ))}
+                    </div>
+
+                    <p className="font-semibold text-white mb-2 line-clamp-2">{item.question}</p>
+
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-white/60">
+                      <span>
+                        {item.points} point{item.points === 1 ? "" : "s"}
+                      </span>
+                      <ItemStats stats={item.stats} />
+                    </div>
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setEditing(item)}
+                      title="Edit"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(item)}
+                      className="text-error hover:text-error"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardBody>
+            </CardComponent>
+          ))}
+        </div>
+      ) : (
+        <CardComponent variant="glass">
+          <CardBody className="text-center py-16">
+            <Library className="w-16 h-16 mx-auto mb-4 text-white/30" />
+            <h3 className="text-lg font-semibold text-white mb-2">
+              {searchQuery || difficultyFilter || tagFilter ? "No questions found" : "The bank is empty"}
+            </h3>
+            <p className="text-white/60">
+              {searchQuery || difficultyFilter || tagFilter
+                ? "Try adjusting your search or filters"
+                : "Add questions here or copy them in from an existing quiz"}
+            </p>
+          </CardBody>
+        </CardComponent>
+      )}
+
+      {(showForm || editing) && (
+        <BankQuestionModal
+          item={editing}
+          knownTags={tags}
+          onClose={closeForm}
+          onSubmit={handleSubmit}
+        />
+      )}
+    </motion.div>
+  );
+}
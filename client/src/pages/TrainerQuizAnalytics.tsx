@@ -0,0 +1,410 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { motion, AnimatePresence } from 'framer-motion';
+import {
+  ArrowLeft,
+  AlertCircle,
+  RefreshCw,
+  Users,
+  CheckCircle,
+  TrendingUp,
+  Clock,
+} from 'lucide-react';
+import { useQuizAnalytics, useTrainerQuizzes, QUESTION_TYPE_LABELS } from '../hooks';
+import type { QuizItemAnalysis } from '../hooks';
+import AttemptReviewModal from '../components/trainer/AttemptReviewModal';
+import {
+  CardComponent,
+  CardBody,
+  Button,
+  Badge,
+  LoadingState,
+  Alert,
+  Input,
+} from '../components/ui';
+
+const formatDuration = (seconds: number | null) => {
+  if (seconds === null) return '—';
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds % 60;
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const formatPercent = (value: number | null) => (value === null ? '—' : `${value}%`);
+
+interface QuestionOverrideProps {
+  item: QuizItemAnalysis;
+  onApply: (pointsEarned: number | null) => Promise<void>;
+}
+
+// Fix the points everyone earns on a question, e.g. when it was ambiguous
+function QuestionOverride({ item, onApply }: QuestionOverrideProps) {
+  const [points, setPoints] = useState<number | ''>(item.points);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const apply = async (value: number | null) => {
+    setIsSaving(true);
+    await onApply(value);
+    setIsSaving(false);
+  };
+
+  if (item.scoreOverride !== null) {
+    return (
+      <div className="flex items-center gap-2">
+        <Badge variant="info" size="sm">
+          Everyone gets {item.scoreOverride}/{item.points}
+        </Badge>
+        <Button variant="ghost" size="sm" onClick={() => apply(null)} disabled={isSaving}>
+          Grade Normally
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      <div className="w-20">
+        <Input
+          type="number"
+          min={0}
+          max={item.points}
+          step="any"
+          value={points}
+          onChange={(e) => setPoints(e.target.value === '' ? '' : Number(e.target.value))}
+        />
+      </div>
+      <Button
+        variant="outline"
+        size="sm"
+        onClick={() => apply(Number(points))}
+        disabled={isSaving || points === '' || points < 0 || points > item.points}
+        title="Give every attempt these points on this question"
+      >
+        Give Everyone
+      </Button>
+    </div>
+  );
+}
+
+export default function TrainerQuizAnalytics() {
+  const navigate = useNavigate();
+  const { quizId } = useParams<{ quizId: string }>();
+  const { analytics, isLoading, error, refetch, fetchAttempt, overrideQuestion } = useQuizAnalytics();
+  const { reviewAttempt } = useTrainerQuizzes();
+
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+
+  const reload = useCallback(() => {
+    if (quizId) refetch(quizId);
+  }, [quizId, refetch]);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const handleOverride = async (item: QuizItemAnalysis, pointsEarned: number | null) => {
+    if (!quizId) return;
+    const message = pointsEarned === null
+      ? `Grade "${item.question}" normally again? Every attempt is regraded.`
+      : `Give every attempt ${pointsEarned}/${item.points} points on "${item.question}"? Scores are recalculated for everyone.`;
+    if (!confirm(message)) return;
+
+    setActionError(null);
+    const result = await overrideQuestion(quizId, item.questionId, pointsEarned);
+    if (result.success) {
+      reload();
+    } else {
+      setActionError(result.error || 'Failed to override question score');
+    }
+  };
+
+  if (isLoading && !analytics) {
+    return <LoadingState type="skeleton" text="Loading quiz analytics..." />;
+  }
+
+  const summary = analytics?.summary;
+  const maxBucket = Math.max(1, ...(analytics?.scoreDistribution.map((bucket) => bucket.count) || []));
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-4">
+          <Button
+            variant="ghost"
+            size="sm"
+            leftIcon={<ArrowLeft className="w-4 h-4" />}
+            onClick={() => navigate('/trainer/quizzes')}
+          >
+            Back to Quizzes
+          </Button>
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">{analytics?.quiz.title || 'Quiz Analytics'}</h1>
+            <p className="text-gray-600 mt-1">
+              How students did{analytics ? `; passing is ${analytics.quiz.passingScore}%` : ''}
+            </p>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          leftIcon={<RefreshCw className={`w-4 h-4 ${isLoading ? 'animate-spin' : ''}`} />}
+          onClick={reload}
+          disabled={isLoading}
+        >
+          Refresh
+        </Button>
+      </div>
+
+      {(error || actionError) && (
+        <Alert variant="error">
+          <div className="flex items-center gap-3">
+            <AlertCircle className="w-5 h-5 flex-shrink-0" />
+            <span>{error || actionError}</span>
+          </div>
+        </Alert>
+      )}
+
+      {analytics && summary && (
+        <>
+          {/* Stats */}
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            <CardComponent variant="default">
+              <CardBody>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600 mb-1">Students</p>
+                    <p className="text-3xl font-bold text-gray-900">{summary.students}</p>
+                    <p className="text-xs text-gray-500">{summary.attempts} attempts</p>
+                  </div>
+                  <Users className="w-8 h-8 text-primary" />
+                </div>
+              </CardBody>
+            </CardComponent>
+
+            <CardComponent variant="default">
+              <CardBody>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600 mb-1">Pass Rate</p>
+                    <p className="text-3xl font-bold text-gray-900">{formatPercent(summary.passRate)}</p>
+                    <p className="text-xs text-gray-500">{summary.passed} passed</p>
+                  </div>
+                  <CheckCircle className="w-8 h-8 text-success" />
+                </div>
+              </CardBody>
+            </CardComponent>
+
+            <CardComponent variant="default">
+              <CardBody>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600 mb-1">Average Score</p>
+                    <p className="text-3xl font-bold text-gray-900">{formatPercent(summary.averageScore)}</p>
+                    {summary.pendingReview > 0 && (
+                      <p className="text-xs text-warning">{summary.pendingReview} awaiting review</p>
+                    )}
+                  </div>
+                  <TrendingUp className="w-8 h-8 text-accent" />
+                </div>
+              </CardBody>
+            </CardComponent>
+
+            <CardComponent variant="default">
+              <CardBody>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="text-sm text-gray-600 mb-1">Average Time</p>
+                    <p className="text-3xl font-bold text-gray-900">{formatDuration(summary.averageTimeSpent)}</p>
+                  </div>
+                  <Clock className="w-8 h-8 text-primary" />
+                </div>
+              </CardBody>
+            </CardComponent>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Score distribution */}
+            <CardComponent variant="default">
+              <CardBody>
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Score Distribution</h2>
+                <div className="flex items-end gap-2 h-40">
+                  {analytics.scoreDistribution.map((bucket) => (
+                    <div key={bucket.from} className="flex-1 flex flex-col items-center justify-end h-full">
+                      <span className="text-xs text-gray-600 mb-1">{bucket.count || ''}</span>
+                      <div
+                        className={`w-full rounded-t ${bucket.from >= analytics.quiz.passingScore ? 'bg-success' : 'bg-primary/60'}`}
+                        style={{ height: `${(bucket.count / maxBucket) * 100}%` }}
+                        title={`${bucket.from}-${bucket.to}%: ${bucket.count} attempts`}
+                      />
+                    </div>
+                  ))}
+                </div>
+                <div className="flex gap-2 mt-1">
+                  {analytics.scoreDistribution.map((bucket) => (
+                    <span key={bucket.from} className="flex-1 text-center text-xs text-gray-500">
+                      {bucket.from}
+                    </span>
+                  ))}
+                </div>
+              </CardBody>
+            </CardComponent>
+
+            {/* Groups */}
+            <CardComponent variant="default">
+              <CardBody>
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Pass Rate by Group</h2>
+                {analytics.groups.length > 0 ? (
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-500 border-b border-gray-200">
+                        <th className="py-2 font-medium">Group</th>
+                        <th className="py-2 font-medium">Took it</th>
+                        <th className="py-2 font-medium">Pass Rate</th>
+                        <th className="py-2 font-medium">Avg Score</th>
+                        <th className="py-2 font-medium">Avg Time</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {analytics.groups.map((group) => (
+                        <tr key={group.groupId || 'none'} className="border-b border-gray-100">
+                          <td className="py-2 text-gray-900">{group.name}</td>
+                          <td className="py-2 text-gray-600">
+                            {group.students}
+                            {group.enrolled !== null && ` / ${group.enrolled}`}
+                          </td>
+                          <td className="py-2 text-gray-600">{formatPercent(group.passRate)}</td>
+                          <td className="py-2 text-gray-600">{formatPercent(group.averageScore)}</td>
+                          <td className="py-2 text-gray-600">{formatDuration(group.averageTimeSpent)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className="text-sm text-gray-500">This course has no groups.</p>
+                )}
+              </CardBody>
+            </CardComponent>
+          </div>
+
+          {/* Item analysis */}
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold text-gray-900">Questions</h2>
+            {analytics.questions.map((item, index) => (
+              <CardComponent key={item.questionId} variant="default">
+                <CardBody>
+                  <div className="flex flex-wrap items-start justify-between gap-4 mb-3">
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2 mb-1">
+                        <Badge variant="secondary" size="sm">{QUESTION_TYPE_LABELS[item.type]}</Badge>
+                        {item.fromBank && <Badge variant="default" size="sm">Question bank</Badge>}
+                        {item.pendingReview > 0 && (
+                          <Badge variant="warning" size="sm">{item.pendingReview} to review</Badge>
+                        )}
+                      </div>
+                      <p className="font-semibold text-gray-900">
+                        {index + 1}. {item.question}
+                      </p>
+                      <p className="text-sm text-gray-600 mt-1">
+                        {formatPercent(item.percentCorrect)} correct · average {item.averagePoints ?? '—'}/{item.points} points ·{' '}
+                        {item.answered} of {item.seen} answered
+                      </p>
+                    </div>
+                    {item.seen > 0 && (
+                      <QuestionOverride item={item} onApply={(points) => handleOverride(item, points)} />
+                    )}
+                  </div>
+
+                  {item.options.length > 0 && (
+                    <div className="space-y-2">
+                      {item.options.map((option) => (
+                        <div key={option.index}>
+                          <div className="flex justify-between text-sm mb-1">
+                            <span className={option.isCorrect ? 'font-medium text-success' : 'text-gray-700'}>
+                              {option.text}
+                            </span>
+                            <span className="text-gray-500">
+                              {option.count} ({formatPercent(option.percent)})
+                            </span>
+                          </div>
+                          <div className="w-full bg-gray-200 rounded-full h-2">
+                            <div
+                              className={`h-2 rounded-full ${option.isCorrect ? 'bg-success' : 'bg-gray-400'}`}
+                              style={{ width: `${option.percent || 0}%` }}
+                            />
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+
+                  {item.topAnswers.length > 0 && (
+                    <div className="flex flex-wrap gap-2">
+                      {item.topAnswers.map((answer) => (
+                        <Badge key={answer.text} variant="default" size="sm">
+                          {answer.text} × {answer.count}
+                        </Badge>
+                      ))}
+                    </div>
+                  )}
+                </CardBody>
+              </CardComponent>
+            ))}
+          </div>
+
+          {/* Attempts */}
+          <CardComponent variant="default">
+            <CardBody>
+              <h2 className="text-lg font-semibold text-gray-900 mb-4">Attempts</h2>
+              {analytics.attempts.length > 0 ? (
+                <div className="divide-y divide-gray-100">
+                  {analytics.attempts.map((attempt) => (
+                    <div key={attempt._id} className="flex items-center justify-between gap-4 py-3">
+                      <div className="min-w-0">
+                        <p className="font-medium text-gray-900">
+                          {attempt.student?.name || 'Student'} · attempt {attempt.attemptNumber}
+                        </p>
+                        <p className="text-sm text-gray-600">
+                          {attempt.score}% ({attempt.earnedPoints}/{attempt.totalPoints}) · {formatDuration(attempt.timeSpent)} ·{' '}
+                          {new Date(attempt.submittedAt).toLocaleDateString()}
+                        </p>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        {attempt.pendingReview && <Badge variant="warning" size="sm">Needs review</Badge>}
+                        {attempt.autoSubmitted && <Badge variant="default" size="sm">Time ran out</Badge>}
+                        <Badge variant={attempt.passed ? 'success' : 'error'} size="sm">
+                          {attempt.passed ? 'Passed' : 'Not passed'}
+                        </Badge>
+                        <Button variant="outline" size="sm" onClick={() => setReviewingId(attempt._id)}>
+                          Review
+                        </Button>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-sm text-gray-500">No one has finished this quiz yet.</p>
+              )}
+            </CardBody>
+          </CardComponent>
+        </>
+      )}
+
+      <AnimatePresence>
+        {reviewingId && (
+          <AttemptReviewModal
+            attemptId={reviewingId}
+            onClose={() => setReviewingId(null)}
+            onSaved={reload}
+            fetchAttempt={fetchAttempt}
+            onReview={reviewAttempt}
+          />
+        )}
+      </AnimatePresence>
+    </motion.div>
+  );
+}
@@ -1,11 +1,13 @@
 import { useState, useEffect } from 'react';
 import { useNavigate, useParams } from 'react-router-dom';
 import { motion, AnimatePresence } from 'framer-motion';
-import { Plus, Save, ArrowLeft, AlertCircle } from 'lucide-react';
-import { useTrainerQuizzes } from '../hooks/useTrainerQuizzes';
-import type { QuizQuestion } from '../hooks/useTrainerQuizzes';
+import { Plus, Save, ArrowLeft, AlertCircle, Upload } from 'lucide-react';
+import { useTrainerQuizzes, createQuestion } from '../hooks/useTrainerQuizzes';
+import type { QuizQuestion, QuizQuestionRule } from '../hooks/useTrainerQuizzes';
 import { useTrainerGroups } from '../hooks/useTrainerGroups';
 import QuestionEditor from '../components/trainer/QuestionEditor';
+import QuestionRulesEditor from '../components/trainer/QuestionRulesEditor';
+import QuizImportModal from '../components/trainer/QuizImportModal';
 import { Button, Input, LoadingState, Alert, CardComponent, CardBody } from '../components/ui';
 import { api } from '../lib/api';
 
@@ -14,7 +16,7 @@ export default function TrainerQuizBuilder() {
   const { quizId } = useParams<{ quizId: string }>();
   const isEditing = !!quizId;
 
-  const { getQuizById, createQuiz, updateQuiz } = useTrainerQuizzes();
+  const { getQuizById, createQuiz, updateQuiz, error: saveError } = useTrainerQuizzes();
   const { groups } = useTrainerGroups({});
 
   const [isLoading, setIsLoading] = useState(isEditing);
@@ -35,18 +37,9 @@ export default function TrainerQuizBuilder() {
   const [shuffleOptions, setShuffleOptions] = useState(false);
   const [showFeedback, setShowFeedback] = useState(true);
   const [sessions, setSessions] = useState<any[]>([]);
-  const [questions, setQuestions] = useState<QuizQuestion[]>([
-    {
-      question: '',
-      type: 'single',
-      options: [
-        { text: '', isCorrect: false },
-        { text: '', isCorrect: false },
-      ],
-      points: 1,
-      explanation: '',
-    },
-  ]);
+  const [questions, setQuestions] = useState<QuizQuestion[]>([createQuestion('single')]);
+  const [questionRules, setQuestionRules] = useState<QuizQuestionRule[]>([]);
+  const [showImport, setShowImport] = useState(false);
 
   // Get unique courses from groups
   const courses = Array.from(
@@ -102,6 +95,7 @@ export default function TrainerQuizBuilder() {
         setShuffleOptions(quiz.shuffleOptions);
         setShowFeedback(quiz.showFeedback);
         setQuestions(quiz.questions);
+        setQuestionRules(quiz.questionRules || []);
       }
     } catch (err: any) {
       setError(err.message || 'Failed to load quiz');
@@ -111,19 +105,13 @@ export default function TrainerQuizBuilder() {
   };
 
   const addQuestion = () => {
-    setQuestions([
-      ...questions,
-      {
-        question: '',
-        type: 'single',
-        options: [
-          { text: '', isCorrect: false },
-          { text: '', isCorrect: false },
-        ],
-        points: 1,
-        explanation: '',
-      },
-    ]);
+    setQuestions([...questions, createQuestion('single')]);
+  };
+
+  // Imported questions replace the blank one a new quiz starts with
+  const importQuestions = (imported: QuizQuestion[]) => {
+    const untouched = questions.length === 1 && !questions[0].question.trim();
+    setQuestions([...(untouched ? [] : questions), ...imported]);
   };
 
   const updateQuestion = (index: number, updatedQuestion: QuizQuestion) => {
@@ -133,30 +121,55 @@ export default function TrainerQuizBuilder() {
   };
 
   const deleteQuestion = (index: number) => {
-    if (questions.length === 1) {
-      alert('A quiz must have at least one question');
+    if (questions.length === 1 && questionRules.length === 0) {
+      alert('A quiz must have at least one question or random question rule');
       return;
     }
     setQuestions(questions.filter((_, i) => i !== index));
   };
 
+  const validateQuestion = (q: QuizQuestion): string | null => {
+    if (!q.question.trim()) return 'Question text is required';
+
+    switch (q.type) {
+      case 'single':
+      case 'multiple':
+        if (q.options.length < 2) return 'At least 2 options required';
+        if (!q.options.some(opt => opt.isCorrect)) return 'Mark at least one correct answer';
+        if (q.options.some(opt => !opt.text.trim())) return 'All option texts are required';
+        return null;
+      case 'true_false':
+        return q.options.some(opt => opt.isCorrect) ? null : 'Pick the correct answer';
+      case 'ordering':
+        if (q.options.length < 2) return 'At least 2 items required';
+        return q.options.some(opt => !opt.text.trim()) ? 'All items need text' : null;
+      case 'matching':
+        if ((q.pairs || []).length < 2) return 'At least 2 pairs required';
+        return (q.pairs || []).some(pair => !pair.left.trim() || !pair.right.trim()) ? 'Both sides of every pair are required' : null;
+      case 'numeric':
+        return q.numericAnswer === null || q.numericAnswer === undefined || Number.isNaN(q.numericAnswer)
+          ? 'The correct number is required'
+          : null;
+      case 'short_text':
+        return (q.acceptedAnswers || []).some(answer => answer.trim()) ? null : 'Add at least one accepted answer';
+      case 'code_output':
+        if (!q.code?.trim()) return 'The code is required';
+        return (q.acceptedAnswers || []).some(answer => answer.trim()) ? null : 'Add the expected output';
+      default:
+        return null;
+    }
+  };
+
   const validateForm = (): string | null => {
     if (!title.trim()) return 'Quiz title is required';
     if (!courseId) return 'Please select a course';
     if (!groupId) return 'Please select a group';
     if (!sessionId) return 'Please select a session';
-    if (questions.length === 0) return 'Add at least one question';
+    if (questions.length === 0 && questionRules.length === 0) return 'Add at least one question or random question rule';
 
     for (let i = 0; i < questions.length; i++) {
-      const q = questions[i];
-      if (!q.question.trim()) return `Question ${i + 1}: Question text is required`;
-      if (q.options.length < 2) return `Question ${i + 1}: At least 2 options required`;
-
-      const hasCorrect = q.options.some(opt => opt.isCorrect);
-      if (!hasCorrect) return `Question ${i + 1}: Mark at least one correct answer`;
-
-      const hasEmptyOption = q.options.some(opt => !opt.text.trim());
-      if (hasEmptyOption) return `Question ${i + 1}: All option texts are required`;
+      const questionError = validateQuestion(questions[i]);
+      if (questionError) return `Question ${i + 1}: ${questionError}`;
     }
 
     return null;
@@ -195,16 +208,21 @@ export default function TrainerQuizBuilder() {
           ...opt,
           text: opt.text.trim(),
         })),
+        pairs: q.pairs?.map(pair => ({ left: pair.left.trim(), right: pair.right.trim() })),
+        // Code output keeps its inner spacing; blank variants are dropped
+        acceptedAnswers: q.acceptedAnswers
+          ?.filter(answer => answer.trim())
+          .map(answer => (q.type === 'code_output' ? answer : answer.trim())),
       })),
+      questionRules,
     };
 
     try {
-      if (isEditing && quizId) {
-        await updateQuiz(quizId, quizData);
-      } else {
-        await createQuiz(quizData);
-      }
-      navigate('/trainer/quizzes');
+      const saved = isEditing && quizId
+        ? await updateQuiz(quizId, quizData)
+        : await createQuiz(quizData);
+      // The server checks random question rules against the bank
+      if (saved) navigate('/trainer/quizzes');
     } catch (err: any) {
       setError(err.message || 'Failed to save quiz');
     } finally {
@@ -236,16 +254,16 @@ export default function TrainerQuizBuilder() {
           <h1 className="text-3xl font-bold text-gray-900">
             {isEditing ? 'Edit Quiz' : 'Create New Quiz'}
           </h1>
-          <p className="text-gray-600 mt-1">Design your quiz with multiple-choice questions</p>
+          <p className="text-gray-600 mt-1">Design your quiz from choice, numeric, text, ordering, matching, code and essay questions</p>
         </div>
       </div>
 
       {/* Error Alert */}
-      {error && (
+      {(error || saveError) && (
         <Alert variant="error">
           <div className="flex items-center gap-3">
             <AlertCircle className="w-5 h-5 flex-shrink-0" />
-            <span>{error}</span>
+            <span>{error || saveError}</span>
           </div>
         </Alert>
       )}
@@ -451,14 +469,24 @@ export default function TrainerQuizBuilder() {
             <h2 className="text-xl font-semibold text-gray-900">
               Questions ({questions.length})
             </h2>
-            <Button
-              type="button"
-              variant="outline"
-              leftIcon={<Plus className="w-4 h-4" />}
-              onClick={addQuestion}
-            >
-              Add Question
-            </Button>
+            <div className="flex gap-2">
+              <Button
+                type="button"
+                variant="outline"
+                leftIcon={<Upload className="w-4 h-4" />}
+                onClick={() => setShowImport(true)}
+              >
+                Import Questions
+              </Button>
+              <Button
+                type="button"
+                variant="outline"
+                leftIcon={<Plus className="w-4 h-4" />}
+                onClick={addQuestion}
+              >
+                Add Question
+              </Button>
+            </div>
           </div>
 
           <AnimatePresence>
@@ -472,6 +500,8 @@ export default function TrainerQuizBuilder() {
               />
             ))}
           </AnimatePresence>
+
+          <QuestionRulesEditor courseId={courseId} rules={questionRules} onChange={setQuestionRules} />
         </div>
 
         {/* Actions */}
@@ -493,6 +523,15 @@ export default function TrainerQuizBuilder() {
           </Button>
         </div>
       </form>
+
+      <AnimatePresence>
+        {showImport && (
+          <QuizImportModal
+            onClose={() => setShowImport(false)}
+            onPick={importQuestions}
+          />
+        )}
+      </AnimatePresence>
     </motion.div>
   );
 }
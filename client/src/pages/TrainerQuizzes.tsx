@@ -1,6 +1,6 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useCallback } from 'react';
 import { Link, useNavigate } from 'react-router-dom';
-import { motion } from 'framer-motion';
+import { motion, AnimatePresence } from 'framer-motion';
 import {
   Plus,
   Search,
@@ -11,8 +11,16 @@ import {
   RefreshCw,
   Edit,
   Trash2,
+  ClipboardCheck,
+  Library,
+  Download,
+  Upload,
+  BarChart3,
 } from 'lucide-react';
-import { useTrainerQuizzes } from '../hooks';
+import { useTrainerQuizzes, useQuestionBank, useQuizFiles, useTrainerGroups, QUIZ_FILE_FORMATS } from '../hooks';
+import type { QuizReviewItem, QuizFileFormat } from '../hooks';
+import QuizReviewModal from '../components/trainer/QuizReviewModal';
+import QuizImportModal from '../components/trainer/QuizImportModal';
 import {
   CardComponent,
   CardBody,
@@ -25,14 +33,26 @@ import {
 
 export default function TrainerQuizzes() {
   const navigate = useNavigate();
-  const { quizzes, isLoading, error, fetchQuizzes, deleteQuiz } = useTrainerQuizzes();
+  const { quizzes, isLoading, error, fetchQuizzes, deleteQuiz, fetchReviewQueue, reviewAttempt } = useTrainerQuizzes();
+  const { copyQuizToBank } = useQuestionBank();
+  const { exportQuiz, exportCourse } = useQuizFiles();
+  const { groups } = useTrainerGroups({});
 
   const [searchQuery, setSearchQuery] = useState('');
   const [courseFilter, setCourseFilter] = useState<string>('all');
+  const [reviewQueue, setReviewQueue] = useState<QuizReviewItem[]>([]);
+  const [reviewing, setReviewing] = useState<QuizReviewItem | null>(null);
+  const [exportFormat, setExportFormat] = useState<QuizFileFormat>('gift');
+  const [showImport, setShowImport] = useState(false);
+
+  const loadReviewQueue = useCallback(async () => {
+    setReviewQueue(await fetchReviewQueue());
+  }, [fetchReviewQueue]);
 
   useEffect(() => {
     fetchQuizzes();
-  }, [fetchQuizzes]);
+    loadReviewQueue();
+  }, [fetchQuizzes, loadReviewQueue]);
 
   // Filter quizzes
   const filteredQuizzes = quizzes.filter(quiz => {
@@ -47,6 +67,15 @@ export default function TrainerQuizzes() {
     .map(id => quizzes.find(q => q.course._id === id)?.course)
     .filter(Boolean);
 
+  // Any course the trainer teaches can receive imported quizzes
+  const importCourses = Array.from(
+    new Map(
+      groups
+        .filter(g => g.courseId && g.courseId._id)
+        .map(g => [g.courseId._id, g.courseId])
+    ).values()
+  );
+
   const handleDelete = async (quizId: string, quizTitle: string) => {
     if (!confirm(`Are you sure you want to delete "${quizTitle}"?`)) return;
 
@@ -57,6 +86,33 @@ export default function TrainerQuizzes() {
     }
   };
 
+  const handleCopyToBank = async (quizId: string, quizTitle: string) => {
+    if (!confirm(`Copy the questions of "${quizTitle}" into the course's question bank?`)) return;
+
+    const result = await copyQuizToBank(quizId);
+    alert(result.success
+      ? `${result.count} question${result.count === 1 ? '' : 's'} copied to the question bank`
+      : result.error);
+  };
+
+  const handleExport = async (quizId: string, quizTitle: string) => {
+    const result = await exportQuiz({ _id: quizId, title: quizTitle }, exportFormat);
+    if (!result.success) alert(result.error);
+  };
+
+  const handleExportCourse = async () => {
+    const course = courses.find(c => c?._id === courseFilter);
+    if (!course) return;
+
+    const result = await exportCourse(course, exportFormat);
+    if (!result.success) alert(result.error);
+  };
+
+  const handleImported = (count: number) => {
+    fetchQuizzes();
+    alert(`${count} quiz${count === 1 ? '' : 'zes'} imported. Assign a group and session before students can take them.`);
+  };
+
   // Show loading state
   if (isLoading && quizzes.length === 0) {
     return <LoadingState type="skeleton" text="Loading quizzes..." />;
@@ -99,11 +155,29 @@ export default function TrainerQuizzes() {
           <h1 className="text-3xl font-bold text-gray-900">My Quizzes</h1>
           <p className="text-gray-600 mt-1">Create and manage course quizzes</p>
         </div>
-        <Link to="/trainer/quizzes/new">
-          <Button variant="primary" leftIcon={<Plus className="w-4 h-4" />}>
-            Create Quiz
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            leftIcon={<Upload className="w-4 h-4" />}
+            onClick={() => setShowImport(true)}
+          >
+            Import
+          </Button>
+          <Button
+            variant="outline"
+            leftIcon={<Download className="w-4 h-4" />}
+            onClick={handleExportCourse}
+            disabled={courseFilter === 'all'}
+            title={courseFilter === 'all' ? 'Pick a course to export its quizzes' : undefined}
+          >
+            Export Course
           </Button>
-        </Link>
+          <Link to="/trainer/quizzes/new">
+            <Button variant="primary" leftIcon={<Plus className="w-4 h-4" />}>
+              Create Quiz
+            </Button>
+          </Link>
+        </div>
       </div>
 
       {/* Search and Filters */}
@@ -129,6 +203,18 @@ export default function TrainerQuizzes() {
             </option>
           ))}
         </select>
+        <select
+          value={exportFormat}
+          onChange={(e) => setExportFormat(e.target.value as QuizFileFormat)}
+          className="px-4 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-primary focus:border-transparent"
+          title="Export format"
+        >
+          {(Object.keys(QUIZ_FILE_FORMATS) as QuizFileFormat[]).map(format => (
+            <option key={format} value={format}>
+              {QUIZ_FILE_FORMATS[format].label}
+            </option>
+          ))}
+        </select>
       </div>
 
       {/* Stats */}
@@ -172,6 +258,36 @@ export default function TrainerQuizzes() {
         </CardComponent>
       </div>
 
+      {/* Essay answers waiting for a grade */}
+      {reviewQueue.length > 0 && (
+        <CardComponent variant="default">
+          <CardBody>
+            <div className="flex items-center gap-2 mb-4">
+              <ClipboardCheck className="w-5 h-5 text-warning" />
+              <h2 className="text-lg font-semibold text-gray-900">Needs Review ({reviewQueue.length})</h2>
+            </div>
+            <div className="divide-y divide-gray-100">
+              {reviewQueue.map(item => (
+                <div key={item._id} className="flex items-center justify-between gap-4 py-3">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900">
+                      {item.student?.name || 'Student'} · {item.quiz.title}
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {item.answers.length} answer{item.answers.length === 1 ? '' : 's'} to grade · submitted{' '}
+                      {new Date(item.submittedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => setReviewing(item)}>
+                    Review
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardBody>
+        </CardComponent>
+      )}
+
       {/* Quizzes List */}
       {filteredQuizzes.length > 0 ? (
         <div className="space-y-4">
@@ -201,6 +317,8 @@ export default function TrainerQuizzes() {
                       <span className="flex items-center gap-1">
                         <CheckCircle className="w-4 h-4" />
                         {quiz.questions.length} Questions
+                        {quiz.questionRules && quiz.questionRules.length > 0 &&
+                          ` + ${quiz.questionRules.reduce((sum, rule) => sum + rule.count, 0)} random`}
                       </span>
                       <span className="flex items-center gap-1">
                         <Clock className="w-4 h-4" />
@@ -225,6 +343,31 @@ export default function TrainerQuizzes() {
                     >
                       <Edit className="w-4 h-4" />
                     </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => navigate(`/trainer/quizzes/${quiz._id}/analytics`)}
+                      title="Analytics"
+                    >
+                      <BarChart3 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleCopyToBank(quiz._id, quiz.title)}
+                      title="Copy to Question Bank"
+                      disabled={quiz.questions.length === 0}
+                    >
+                      <Library className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleExport(quiz._id, quiz.title)}
+                      title={`Export as ${QUIZ_FILE_FORMATS[exportFormat].label}`}
+                    >
+                      <Download className="w-4 h-4" />
+                    </Button>
                     <Button
                       variant="ghost"
                       size="sm"
@@ -262,6 +405,25 @@ export default function TrainerQuizzes() {
           </CardBody>
         </CardComponent>
       )}
+
+      <AnimatePresence>
+        {reviewing && (
+          <QuizReviewModal
+            item={reviewing}
+            onClose={() => setReviewing(null)}
+            onSaved={loadReviewQueue}
+            onReview={reviewAttempt}
+          />
+        )}
+        {showImport && (
+          <QuizImportModal
+            courses={importCourses}
+            defaultCourseId={courseFilter !== 'all' ? courseFilter : undefined}
+            onClose={() => setShowImport(false)}
+            onImported={handleImported}
+          />
+        )}
+      </AnimatePresence>
     </motion.div>
   );
 }
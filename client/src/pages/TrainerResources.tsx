@@ -0,0 +1,351 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { motion } from "framer-motion";
+import {
+  Plus,
+  Search,
+  FolderOpen,
+  FileText,
+  Eye,
+  Download,
+  Share2,
+  Lock,
+  Archive,
+  RotateCcw,
+  Trash2,
+  AlertCircle,
+  RefreshCw,
+  BarChart3,
+} from "lucide-react";
+import {
+  useTrainerResources,
+  useTrainerGroups,
+  useTrainerSessions,
+  RESOURCE_CATEGORIES,
+  type ResourceCategory,
+  type ResourceFormData,
+} from "../hooks";
+import {
+  CardComponent,
+  CardBody,
+  Button,
+  Badge,
+  LoadingState,
+  Alert,
+  Input,
+  StatsCard,
+} from "../components/ui";
+import ResourceUploadModal from "../components/trainer/ResourceUploadModal";
+import ResourceDetailsModal from "../components/trainer/ResourceDetailsModal";
+
+export default function TrainerResources() {
+  const { resourceId } = useParams<{ resourceId: string }>();
+  const navigate = useNavigate();
+  const {
+    resources,
+    stats,
+    isLoading,
+    error,
+    refetch,
+    getResourceById,
+    uploadResource,
+    replaceFile,
+    shareResource,
+    unshareResource,
+    archiveResource,
+    restoreResource,
+    deleteResource,
+    downloadResource,
+  } = useTrainerResources();
+  const { groups } = useTrainerGroups({ status: "active" });
+  const { sessions } = useTrainerSessions({ status: "scheduled" });
+
+  const [searchQuery, setSearchQuery] = useState("");
+  const [categoryFilter, setCategoryFilter] = useState<ResourceCategory | "all">("all");
+  const [showArchived, setShowArchived] = useState(false);
+  const [showUpload, setShowUpload] = useState(false);
+
+  // Refetch when the server-side filters change
+  useEffect(() => {
+    refetch({
+      category: categoryFilter === "all" ? undefined : categoryFilter,
+      status: showArchived ? "archived" : undefined,
+    });
+  }, [categoryFilter, showArchived, refetch]);
+
+  const filteredResources = resources.filter((resource) => {
+    const query = searchQuery.toLowerCase();
+    return (
+      resource.title.toLowerCase().includes(query) ||
+      resource.tags.some((tag) => tag.includes(query))
+    );
+  });
+
+  const handleUpload = async (file: File, data: ResourceFormData) => {
+    return !!(await uploadResource(file, data));
+  };
+
+  const handleDelete = async (id: string, title: string) => {
+    if (!confirm(`Are you sure you want to delete "${title}"?`)) return;
+    await deleteResource(id);
+  };
+
+  const closeDetails = () => navigate("/trainer/resources");
+
+  if (isLoading && resources.length === 0 && !stats) {
+    return <LoadingState type="skeleton" text="Loading resources..." />;
+  }
+
+  if (error && resources.length === 0 && !stats) {
+    return (
+      <div className="space-y-8">
+        <Alert variant="error">
+          <div className="flex items-start gap-3">
+            <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+            <div className="flex-1">
+              <p className="font-semibold mb-1">Failed to load resources</p>
+              <p className="text-sm opacity-90">{error}</p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              leftIcon={<RefreshCw className="w-4 h-4" />}
+              onClick={() => refetch()}
+            >
+              Retry
+            </Button>
+          </div>
+        </Alert>
+      </div>
+    );
+  }
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-primary via-accent to-secondary bg-clip-text text-transparent">
+            Resource Library
+          </h1>
+          <p className="mt-2 text-white/60">Upload, tag and share lecture files, templates and solutions</p>
+        </div>
+        <Button variant="primary" leftIcon={<Plus className="w-4 h-4" />} onClick={() => setShowUpload(true)}>
+          Upload Resource
+        </Button>
+      </div>
+
+      {/* Stats */}
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
+        <StatsCard
+          label="Resources"
+          value={stats?.totalResources || 0}
+          icon={<FolderOpen className="w-6 h-6" />}
+        />
+        <StatsCard
+          label="Views"
+          value={stats?.totalViews || 0}
+          icon={<Eye className="w-6 h-6" />}
+        />
+        <StatsCard
+          label="Downloads"
+          value={stats?.totalDownloads || 0}
+          icon={<Download className="w-6 h-6" />}
+        />
+        <StatsCard
+          label="Group Shares"
+          value={stats?.totalShares || 0}
+          icon={<Share2 className="w-6 h-6" />}
+        />
+      </div>
+
+      {/* Search and Filters */}
+      <div className="flex flex-wrap gap-4">
+        <div className="flex-1 min-w-[200px]">
+          <Input
+            type="text"
+            placeholder="Search by title or tag..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            leftIcon={<Search className="w-4 h-4" />}
+          />
+        </div>
+        <select
+          value={categoryFilter}
+          onChange={(e) => setCategoryFilter(e.target.value as ResourceCategory | "all")}
+          className="px-4 py-2 rounded-lg bg-white/5 border border-white/10 text-white focus:outline-none focus:border-primary"
+        >
+          <option value="all" className="bg-zinc-900">All Categories</option>
+          {RESOURCE_CATEGORIES.map((c) => (
+            <option key={c} value={c} className="bg-zinc-900">
+              {c.charAt(0).toUpperCase() + c.slice(1)}
+            </option>
+          ))}
+        </select>
+        <Button
+          variant={showArchived ? "primary" : "outline"}
+          leftIcon={<Archive className="w-4 h-4" />}
+          onClick={() => setShowArchived((v) => !v)}
+        >
+          {showArchived ? "Showing Archived" : "Show Archived"}
+        </Button>
+      </div>
+
+      {/* Resources List */}
+      {filteredResources.length > 0 ? (
+        <div className="space-y-4">
+          {filteredResources.map((resource) => (
+            <CardComponent key={resource._id} variant="glass" hover>
+              <CardBody>
+                <div className="flex items-start gap-4">
+                  <div className="w-12 h-12 rounded-lg bg-primary/10 flex items-center justify-center flex-shrink-0">
+                    <FileText className="w-6 h-6 text-primary" />
+                  </div>
+
+                  <div className="flex-1 min-w-0">
+                    <div className="flex flex-wrap items-center gap-2 mb-1">
+                      <h3 className="font-semibold text-lg text-white">{resource.title}</h3>
+                      <Badge variant="secondary" size="sm">{resource.category}</Badge>
+                      {resource.requiresPassword && (
+                        <Badge variant="warning" size="sm">
+                          <Lock className="w-3 h-3 inline mr-1" />
+                          Protected
+                        </Badge>
+                      )}
+                      {!resource.isDownloadable && (
+                        <Badge variant="info" size="sm">View only</Badge>
+                      )}
+                      {resource.version > 1 && (
+                        <Badge variant="default" size="sm">v{resource.version}</Badge>
+                      )}
+                    </div>
+
+                    {resource.description && (
+                      <p className="text-sm text-white/60 mb-2">{resource.description}</p>
+                    )}
+
+                    <div className="flex flex-wrap items-center gap-4 text-sm text-white/60">
+                      <span>{resource.fileType.toUpperCase()} · {resource.fileSizeFormatted}</span>
+                      <span className="flex items-center gap-1">
+                        <Eye className="w-4 h-4" />
+                        {resource.stats.views}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Download className="w-4 h-4" />
+                        {resource.stats.downloads}
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <Share2 className="w-4 h-4" />
+                        {resource.sharedWith.length > 0
+                          ? resource.sharedWith.map((s) => s.groupId?.name).filter(Boolean).join(", ")
+                          : "Not shared"}
+                      </span>
+                      {resource.sessionId && <span>Session: {resource.sessionId.title}</span>}
+                    </div>
+
+                    {resource.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mt-2">
+                        {resource.tags.map((tag) => (
+                          <span key={tag} className="px-2 py-0.5 rounded-full bg-white/10 text-xs text-white/60">
+                            #{tag}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Actions */}
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => navigate(`/trainer/resources/${resource._id}`)}
+                      title="Sharing & usage"
+                    >
+                      <BarChart3 className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => downloadResource(resource)}
+                      title="Download"
+                    >
+                      <Download className="w-4 h-4" />
+                    </Button>
+                    {showArchived ? (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => restoreResource(resource._id)}
+                        title="Restore"
+                      >
+                        <RotateCcw className="w-4 h-4" />
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => archiveResource(resource._id)}
+                        title="Archive"
+                      >
+                        <Archive className="w-4 h-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDelete(resource._id, resource.title)}
+                      className="text-error hover:text-error"
+                      title="Delete"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              </CardBody>
+            </CardComponent>
+          ))}
+        </div>
+      ) : (
+        <CardComponent variant="glass">
+          <CardBody className="text-center py-16">
+            <FolderOpen className="w-16 h-16 mx-auto mb-4 text-white/30" />
+            <h3 className="text-lg font-semibold text-white mb-2">
+              {searchQuery || categoryFilter !== "all" || showArchived ? "No resources found" : "No resources yet"}
+            </h3>
+            <p className="text-white/60 mb-6">
+              {searchQuery || categoryFilter !== "all" || showArchived
+                ? "Try adjusting your search or filters"
+                : "Upload your first lecture file to share it with your groups"}
+            </p>
+          </CardBody>
+        </CardComponent>
+      )}
+
+      {showUpload && (
+        <ResourceUploadModal
+          groups={groups}
+          sessions={sessions}
+          onClose={() => setShowUpload(false)}
+          onSubmit={handleUpload}
+        />
+      )}
+
+      {resourceId && (
+        <ResourceDetailsModal
+          resourceId={resourceId}
+          groups={groups}
+          onClose={closeDetails}
+          loadResource={getResourceById}
+          onShare={shareResource}
+          onUnshare={unshareResource}
+          onReplaceFile={replaceFile}
+        />
+      )}
+    </motion.div>
+  );
+}
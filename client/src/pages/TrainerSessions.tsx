@@ -11,6 +11,7 @@ import {
   Trash2,
 } from "lucide-react";
 import { useTrainerSessions } from "../hooks/useTrainerSessions";
+import { useSessionsRealtimeUpdates } from "../hooks/useRealtimeUpdates";
 import {
   CardComponent,
   CardBody,
@@ -24,6 +25,9 @@ export default function TrainerSessions() {
   const navigate = useNavigate();
   const { sessions, isLoading, error, refetch, deleteSession } = useTrainerSessions();
 
+  // Keep the list in step with changes made in other tabs
+  useSessionsRealtimeUpdates(refetch);
+
   // Handle delete
   const handleDelete = async (sessionId: string, sessionTitle: string, e: React.MouseEvent) => {
     e.preventDefault();
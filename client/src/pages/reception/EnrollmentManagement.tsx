@@ -6,6 +6,7 @@
  * - Filter by course, student, status
  * - Create new enrollments
  * - Edit enrollment status
+ * - Payment history with refunds and voids
  * - Pagination
  *
  * REDESIGNED: Matching Teacher/Student dashboard UI/UX style
@@ -18,6 +19,7 @@ import { useReceptionEnrollments } from '../../hooks';
 import type { Enrollment } from '../../hooks/useReceptionEnrollments';
 import { EnrollmentList } from '../../components/reception/EnrollmentList';
 import { EnrollmentForm } from '../../components/reception/EnrollmentForm';
+import { PaymentLedgerModal } from '../../components/reception/PaymentLedgerModal';
 import { LoadingState, Alert, Button, Input, Modal, CardComponent, CardBody, StatsCard } from '../../components/ui';
 
 const EnrollmentManagement: React.FC = () => {
@@ -47,6 +49,7 @@ const EnrollmentManagement: React.FC = () => {
   const [isEditModalOpen, setIsEditModalOpen] = useState(false);
   const [isPaymentModalOpen, setIsPaymentModalOpen] = useState(false);
   const [selectedEnrollment, setSelectedEnrollment] = useState<Enrollment | null>(null);
+  const [ledgerEnrollmentId, setLedgerEnrollmentId] = useState<string | null>(null);
 
   // Payment form state
   const [paymentAmount, setPaymentAmount] = useState('');
@@ -414,6 +417,7 @@ const EnrollmentManagement: React.FC = () => {
                   onEdit={handleEditClick}
                   onRecordPayment={handleRecordPaymentClick}
                   onDownloadReceipt={handleDownloadFullReceipt}
+                  onViewPayments={(enrollment) => setLedgerEnrollmentId(enrollment._id)}
                   isLoading={isLoading}
                 />
 
@@ -678,6 +682,14 @@ const EnrollmentManagement: React.FC = () => {
           )}
         </div>
       </Modal>
+
+      {/* Payment History Modal */}
+      <PaymentLedgerModal
+        isOpen={!!ledgerEnrollmentId}
+        onClose={() => setLedgerEnrollmentId(null)}
+        enrollmentId={ledgerEnrollmentId}
+        onAdjusted={fetchEnrollments}
+      />
     </motion.div>
   );
 };
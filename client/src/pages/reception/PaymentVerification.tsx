@@ -0,0 +1,491 @@
+/**
+ * PaymentVerification Page
+ *
+ * Reception queue for student-submitted payment proofs:
+ * - Review Sham Cash, bank transfer and check payments
+ * - Open the uploaded proof
+ * - Approve (applies the payment and issues a receipt) or reject with a reason
+ */
+
+import React, { useState } from 'react';
+import { motion } from 'framer-motion';
+import {
+  RefreshCw,
+  AlertCircle,
+  CheckCircle,
+  XCircle,
+  Clock,
+  FileSearch,
+  Eye,
+  Download,
+  Filter,
+  Hourglass,
+} from 'lucide-react';
+import { useReceptionPayments, usePaymentsRealtimeUpdates } from '../../hooks';
+import type {
+  VerificationPayment,
+  PaymentVerificationStatus,
+  VerifiablePaymentMethod,
+} from '../../hooks';
+import { LoadingState, Alert, Button, Badge, Modal, CardComponent, CardBody, StatsCard, useToast } from '../../components/ui';
+
+const STATUS_TABS: { value: PaymentVerificationStatus; label: string }[] = [
+  { value: 'processing', label: 'Awaiting Review' },
+  { value: 'pending', label: 'Awaiting Proof' },
+  { value: 'completed', label: 'Approved' },
+  { value: 'failed', label: 'Rejected' },
+];
+
+const METHOD_LABELS: Record<VerifiablePaymentMethod, string> = {
+  sham_cash_app: 'Sham Cash App',
+  bank_transfer: 'Bank Transfer',
+  check: 'Check',
+};
+
+const formatAmount = (amount: number) => `${amount.toFixed(2)} DZD`;
+
+const PaymentVerification: React.FC = () => {
+  const {
+    payments,
+    summary,
+    pagination,
+    isLoading,
+    error,
+    filters,
+    setFilters,
+    refetch,
+    approvePayment,
+    rejectPayment,
+    openProof,
+    downloadReceipt,
+  } = useReceptionPayments();
+
+  // New proofs arrive without reloading the queue
+  usePaymentsRealtimeUpdates(refetch);
+  const toast = useToast();
+
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [approveTarget, setApproveTarget] = useState<VerificationPayment | null>(null);
+  const [rejectTarget, setRejectTarget] = useState<VerificationPayment | null>(null);
+  const [rejectionReason, setRejectionReason] = useState('');
+
+  // Animation variants
+  const containerVariants = {
+    hidden: { opacity: 0 },
+    visible: {
+      opacity: 1,
+      transition: {
+        staggerChildren: 0.1
+      }
+    }
+  };
+
+  const itemVariants = {
+    hidden: { opacity: 0, y: 20 },
+    visible: { opacity: 1, y: 0 }
+  };
+
+  const handleOpenProof = async (payment: VerificationPayment) => {
+    try {
+      await openProof(payment._id);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to open proof');
+    }
+  };
+
+  const handleApprove = async () => {
+    if (!approveTarget) return;
+
+    try {
+      setBusyId(approveTarget._id);
+      const receipt = await approvePayment(approveTarget._id);
+      setApproveTarget(null);
+
+      if (receipt) {
+        toast.success(`Payment approved. Receipt ${receipt.receiptNumber} issued.`);
+        await downloadReceipt(receipt.receiptId, receipt.receiptNumber);
+      } else {
+        toast.warning('Payment approved, but the receipt could not be generated');
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to approve payment');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejectTarget || !rejectionReason.trim()) return;
+
+    try {
+      setBusyId(rejectTarget._id);
+      await rejectPayment(rejectTarget._id, rejectionReason.trim());
+      toast.success('Payment rejected. The student can submit new proof.');
+      setRejectTarget(null);
+      setRejectionReason('');
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to reject payment');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDownloadReceipt = async (payment: VerificationPayment) => {
+    if (!payment.receiptId) return;
+
+    try {
+      await downloadReceipt(payment.receiptId);
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to download receipt');
+    }
+  };
+
+  const closeRejectModal = () => {
+    setRejectTarget(null);
+    setRejectionReason('');
+  };
+
+  return (
+    <motion.div
+      initial="hidden"
+      animate="visible"
+      variants={containerVariants}
+      className="space-y-8"
+    >
+      {/* Page Header */}
+      <motion.div variants={itemVariants} className="flex items-center justify-between">
+        <div>
+          <h1 className="text-4xl font-bold bg-gradient-to-r from-primary via-accent to-secondary bg-clip-text text-transparent">
+            Payment Verification
+          </h1>
+          <p className="mt-2 text-white/60">
+            Review student payment proofs before they are applied to enrollments
+          </p>
+        </div>
+
+        <Button
+          variant="ghost"
+          leftIcon={<RefreshCw className="w-4 h-4" />}
+          onClick={refetch}
+          className="text-white/70 hover:text-white hover:bg-white/10 px-4"
+        >
+          <span className="hidden lg:inline">Refresh</span>
+        </Button>
+      </motion.div>
+
+      {/* Stats Cards */}
+      <motion.div
+        variants={itemVariants}
+        className="grid grid-cols-1 md:grid-cols-4 gap-6"
+      >
+        <StatsCard
+          label="Awaiting Review"
+          value={summary?.processing ?? 0}
+          icon={<FileSearch className="w-6 h-6" />}
+        />
+        <StatsCard
+          label="Awaiting Proof"
+          value={summary?.pending ?? 0}
+          icon={<Hourglass className="w-6 h-6" />}
+        />
+        <StatsCard
+          label="Approved"
+          value={summary?.completed ?? 0}
+          icon={<CheckCircle className="w-6 h-6" />}
+        />
+        <StatsCard
+          label="Rejected"
+          value={summary?.failed ?? 0}
+          icon={<XCircle className="w-6 h-6" />}
+        />
+      </motion.div>
+
+      {/* Status Tabs and Method Filter */}
+      <motion.div variants={itemVariants} className="flex flex-col md:flex-row gap-4 md:items-center">
+        <div className="flex flex-wrap gap-2 flex-1">
+          {STATUS_TABS.map((tab) => (
+            <button
+              key={tab.value}
+              onClick={() => setFilters({ ...filters, status: tab.value, page: 1 })}
+              className={`px-4 py-2 rounded-xl text-sm font-medium transition-all ${
+                filters.status === tab.value
+                  ? 'bg-primary text-white'
+                  : 'bg-white/5 border border-white/10 text-white/70 hover:bg-white/10'
+              }`}
+            >
+              {tab.label}
+              {summary && summary[tab.value] > 0 && (
+                <span className="ml-2 opacity-70">{summary[tab.value]}</span>
+              )}
+            </button>
+          ))}
+        </div>
+
+        <div className="w-full md:w-56">
+          <div className="relative">
+            <Filter className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-accent/60 pointer-events-none" />
+            <select
+              value={filters.method || ''}
+              onChange={(e) =>
+                setFilters({
+                  ...filters,
+                  method: (e.target.value || undefined) as VerifiablePaymentMethod | undefined,
+                  page: 1,
+                })
+              }
+              className="w-full pl-12 pr-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white focus:outline-none focus:border-accent appearance-none cursor-pointer"
+            >
+              <option value="" className="bg-zinc-900">All Methods</option>
+              {Object.entries(METHOD_LABELS).map(([value, label]) => (
+                <option key={value} value={value} className="bg-zinc-900">{label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+      </motion.div>
+
+      {/* Error Alert */}
+      {error && (
+        <motion.div variants={itemVariants}>
+          <Alert variant="error">
+            <div className="flex items-start gap-3">
+              <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
+              <div className="flex-1">
+                <p className="font-semibold mb-1">Error Loading Payments</p>
+                <p className="text-sm opacity-90">{error}</p>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                leftIcon={<RefreshCw className="w-4 h-4" />}
+                onClick={refetch}
+              >
+                Retry
+              </Button>
+            </div>
+          </Alert>
+        </motion.div>
+      )}
+
+      {/* Payment List */}
+      <motion.div variants={itemVariants}>
+        <CardComponent variant="glass">
+          <CardBody>
+            {isLoading ? (
+              <LoadingState type="skeleton" text="Loading payments..." />
+            ) : payments.length === 0 ? (
+              <div className="text-center py-12 text-white/40">
+                <FileSearch className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                <p>No payments in this list</p>
+              </div>
+            ) : (
+              <div className="space-y-3">
+                {payments.map((payment) => (
+                  <div
+                    key={payment._id}
+                    className="flex flex-col lg:flex-row lg:items-center gap-4 p-4 rounded-lg bg-white/5 border border-white/10"
+                  >
+                    <div className="flex-1 min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <h3 className="font-semibold text-white">{payment.student?.name || 'Unknown student'}</h3>
+                        <Badge variant="secondary" size="sm">
+                          {METHOD_LABELS[payment.paymentMethod] || payment.paymentMethod}
+                        </Badge>
+                      </div>
+                      <p className="text-sm text-white/60 truncate">
+                        {payment.course?.title || 'Course'}
+                        {payment.student?.email && ` · ${payment.student.email}`}
+                      </p>
+                      <div className="flex flex-wrap gap-x-4 gap-y-1 text-xs text-white/50">
+                        {payment.proof.reference && <span>Ref: {payment.proof.reference}</span>}
+                        {payment.proof.submittedAt ? (
+                          <span className="flex items-center gap-1">
+                            <Clock className="w-3 h-3" />
+                            Submitted {new Date(payment.proof.submittedAt).toLocaleString()}
+                          </span>
+                        ) : (
+                          <span>Initiated {new Date(payment.createdAt).toLocaleString()}</span>
+                        )}
+                        {payment.enrollment && payment.status !== 'completed' && (
+                          <span>Balance: {formatAmount(payment.enrollment.payment.remainingAmount)}</span>
+                        )}
+                        {payment.verification.reviewedBy && payment.verification.reviewedAt && (
+                          <span>
+                            Reviewed by {payment.verification.reviewedBy.name} on{' '}
+                            {new Date(payment.verification.reviewedAt).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                      {payment.status === 'failed' && payment.verification.rejectionReason && (
+                        <p className="text-xs text-red-400">Reason: {payment.verification.rejectionReason}</p>
+                      )}
+                    </div>
+
+                    <div className="text-xl font-bold text-white whitespace-nowrap">
+                      {formatAmount(payment.amount)}
+                    </div>
+
+                    <div className="flex items-center gap-2 flex-wrap">
+                      {payment.proof.filePath && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          leftIcon={<Eye className="w-4 h-4" />}
+                          onClick={() => handleOpenProof(payment)}
+                        >
+                          Proof
+                        </Button>
+                      )}
+                      {payment.status === 'processing' && (
+                        <>
+                          <Button
+                            variant="primary"
+                            size="sm"
+                            leftIcon={<CheckCircle className="w-4 h-4" />}
+                            onClick={() => setApproveTarget(payment)}
+                            disabled={busyId === payment._id}
+                          >
+                            Approve
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            leftIcon={<XCircle className="w-4 h-4" />}
+                            onClick={() => setRejectTarget(payment)}
+                            disabled={busyId === payment._id}
+                            className="text-red-400 hover:text-red-300 hover:bg-red-500/10"
+                          >
+                            Reject
+                          </Button>
+                        </>
+                      )}
+                      {payment.status === 'completed' && payment.receiptId && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          leftIcon={<Download className="w-4 h-4" />}
+                          onClick={() => handleDownloadReceipt(payment)}
+                        >
+                          Receipt
+                        </Button>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {/* Pagination */}
+            {pagination && pagination.pages > 1 && (
+              <div className="flex items-center justify-between pt-6">
+                <p className="text-sm text-white/60">
+                  Page {pagination.page} of {pagination.pages} · {pagination.total} payments
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={pagination.page <= 1}
+                    onClick={() => setFilters({ ...filters, page: pagination.page - 1 })}
+                  >
+                    Previous
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={pagination.page >= pagination.pages}
+                    onClick={() => setFilters({ ...filters, page: pagination.page + 1 })}
+                  >
+                    Next
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardBody>
+        </CardComponent>
+      </motion.div>
+
+      {/* Approve Confirmation Modal */}
+      <Modal
+        isOpen={approveTarget !== null}
+        onClose={() => setApproveTarget(null)}
+        title="Approve Payment"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <div className="flex items-center gap-3 p-4 bg-green-500/10 border border-green-500/20 rounded-lg">
+            <CheckCircle className="w-6 h-6 text-green-400 flex-shrink-0" />
+            <div>
+              <p className="text-white font-medium">
+                {approveTarget && formatAmount(approveTarget.amount)} from {approveTarget?.student?.name}
+              </p>
+              <p className="text-sm text-white/60">
+                The amount will be applied to the enrollment and a receipt will be issued.
+              </p>
+            </div>
+          </div>
+
+          <div className="flex items-center justify-end gap-3">
+            <Button
+              variant="ghost"
+              onClick={() => setApproveTarget(null)}
+              className="text-white/60 hover:text-white hover:bg-white/10"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleApprove}
+              disabled={busyId !== null}
+            >
+              {busyId ? 'Approving...' : 'Approve Payment'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+
+      {/* Reject Modal */}
+      <Modal
+        isOpen={rejectTarget !== null}
+        onClose={closeRejectModal}
+        title="Reject Payment"
+        size="sm"
+      >
+        <div className="space-y-4">
+          <p className="text-sm text-white/60">
+            Tell {rejectTarget?.student?.name || 'the student'} why this proof could not be verified.
+            They will be able to submit new proof.
+          </p>
+          <textarea
+            value={rejectionReason}
+            onChange={(e) => setRejectionReason(e.target.value)}
+            placeholder="e.g. The screenshot does not show the transfer amount"
+            rows={3}
+            maxLength={500}
+            className="w-full px-4 py-3 bg-white/10 border border-white/20 rounded-xl text-white placeholder-white/40 focus:outline-none focus:border-primary"
+          />
+
+          <div className="flex items-center justify-end gap-3">
+            <Button
+              variant="ghost"
+              onClick={closeRejectModal}
+              className="text-white/60 hover:text-white hover:bg-white/10"
+            >
+              Cancel
+            </Button>
+            <Button
+              variant="primary"
+              onClick={handleReject}
+              disabled={!rejectionReason.trim() || busyId !== null}
+              className="bg-red-500 hover:bg-red-600 text-white"
+            >
+              {busyId ? 'Rejecting...' : 'Reject Payment'}
+            </Button>
+          </div>
+        </div>
+      </Modal>
+    </motion.div>
+  );
+};
+
+export default PaymentVerification;
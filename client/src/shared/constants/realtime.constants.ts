@@ -0,0 +1,27 @@
+/**
+ * Realtime event catalog
+ *
+ * Generated from server/src/config/realtimeEvents.js by
+ * `npm run realtime:events` in server/; do not edit by hand.
+ */
+
+export const REALTIME_EVENT_VERSION = 1;
+
+export const REALTIME_EVENTS = {
+  STOCK_UPDATED: 'stock:updated',
+  STOCK_LOW: 'stock:low',
+  ORDER_CREATED: 'order:created',
+  ORDER_UPDATED: 'order:updated',
+  STOCKTAKE_COUNT: 'stocktake:count',
+  SESSION_UPDATED: 'session:updated',
+  PAYMENT_UPDATED: 'payment:updated',
+  NOTIFICATION: 'notification',
+  NOTIFICATION_COUNT: 'notification:count',
+  CHAT_MESSAGE: 'chat:message',
+  CHAT_MESSAGE_UPDATED: 'chat:message:updated',
+  CHAT_MESSAGE_DELETED: 'chat:message:deleted',
+  CHAT_READ: 'chat:read',
+  CHAT_TYPING: 'chat:typing',
+} as const;
+
+export type RealtimeEventName = (typeof REALTIME_EVENTS)[keyof typeof REALTIME_EVENTS];
@@ -16,7 +16,10 @@ import {
   UserCircle,
   Briefcase,
   ClipboardCheck,
+  ClipboardList,
   Tag,
+  TrendingUp,
+  Library,
 } from "lucide-react";
 import { UserRole } from "../types/auth.types";
 import type { NavItem } from "../types/common.types";
@@ -30,9 +33,16 @@ export const ROUTES = {
   LOGIN: "/a7f9b2e4c1d8e3f6a9b0c2d5e7f1a3b8d6c9e2f4a1b7c3d9e5f8a2b4c6d1e3f7",
   REGISTER: "/register",
   INVENTORY: "/inventory",
+  INVENTORY_REQUISITIONS: "/inventory/requisitions",
+  INVENTORY_PURCHASE_ORDERS: "/inventory/purchase-orders",
+  INVENTORY_LOANS: "/inventory/loans",
+  INVENTORY_STOCKTAKES: "/inventory/stocktakes",
+  INVENTORY_STOCKTAKE_DETAIL: "/inventory/stocktakes/:stocktakeId",
   ORDERS: "/orders",
   PROJECTS: "/projects",
   COMPETITIONS: "/competitions",
+  COMPETITION_JUDGING: "/competitions/:competitionId/judge",
+  COMPETITION_RESULTS: "/competitions/:competitionId/results",
   TEAMS: "/teams",
   POSTS: "/posts",
   SETTINGS: "/settings",
@@ -42,6 +52,10 @@ export const ROUTES = {
 
   // Reception routes
   RECEPTION_SCHEDULE: "/reception/schedule",
+  RECEPTION_PAYMENTS: "/reception/payments",
+
+  // Admin routes
+  ADMIN_FINANCE: "/admin/finance",
 
   // Student routes
   STUDENT_DASHBOARD: "/student",
@@ -130,6 +144,36 @@ export const NAV_ITEMS: NavItem[] = [
     icon: React.createElement(FileText, { className: "w-5 h-5" }),
     roles: [UserRole.TRAINER, UserRole.TEACHER],
   },
+  {
+    id: "trainer-question-bank",
+    title: "Question Bank",
+    path: "/trainer/question-bank",
+    icon: React.createElement(Library, { className: "w-5 h-5" }),
+    roles: [UserRole.TRAINER, UserRole.TEACHER],
+  },
+  {
+    id: "trainer-assignments",
+    title: "Assignments",
+    path: "/trainer/assignments",
+    icon: React.createElement(ClipboardList, { className: "w-5 h-5" }),
+    roles: [UserRole.TRAINER, UserRole.TEACHER],
+  },
+  {
+    id: "trainer-resources",
+    title: "Resources",
+    path: "/trainer/resources",
+    icon: React.createElement(FolderOpen, { className: "w-5 h-5" }),
+    roles: [UserRole.TRAINER, UserRole.TEACHER],
+  },
+
+  // Finance reports (Admin only)
+  {
+    id: "admin-finance",
+    title: "Finance",
+    path: ROUTES.ADMIN_FINANCE,
+    icon: React.createElement(TrendingUp, { className: "w-5 h-5" }),
+    roles: [UserRole.ADMIN, UserRole.SUPERADMIN],
+  },
 
   // Inventory (Admin and Team Lead only)
   {
@@ -198,6 +242,13 @@ export const NAV_ITEMS: NavItem[] = [
     icon: React.createElement(BookOpen, { className: "w-5 h-5" }),
     roles: [UserRole.RECEPTION],
   },
+  {
+    id: "reception-payments",
+    title: "Payments",
+    path: ROUTES.RECEPTION_PAYMENTS,
+    icon: React.createElement(DollarSign, { className: "w-5 h-5" }),
+    roles: [UserRole.RECEPTION],
+  },
   {
     id: "reception-leads",
     title: "Leads",
@@ -294,5 +345,11 @@ export const PUBLIC_ROUTES = [ROUTES.LOGIN, ROUTES.NOT_FOUND];
  */
 export const ADMIN_ROUTES = [
   ROUTES.SETTINGS,
+  ROUTES.ADMIN_FINANCE,
+  ROUTES.INVENTORY_REQUISITIONS,
+  ROUTES.INVENTORY_PURCHASE_ORDERS,
+  ROUTES.INVENTORY_LOANS,
+  ROUTES.INVENTORY_STOCKTAKES,
+  ROUTES.INVENTORY_STOCKTAKE_DETAIL,
   // Add more admin routes as needed
 ];
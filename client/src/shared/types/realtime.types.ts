@@ -0,0 +1,172 @@
+/**
+ * Real-time event payloads
+ *
+ * The payload of every event in the generated catalog
+ * (shared/constants/realtime.constants.ts). RealtimeEventMap must list
+ * exactly the catalog's events, so adding, renaming or removing one on the
+ * server fails the type-check here until its payload is updated.
+ */
+
+import type { AppNotification } from '../../hooks/useNotifications';
+import type { ChatMessage } from '../../hooks/useGroupChat';
+import type { RealtimeEventName } from '../constants/realtime.constants';
+
+export type { RealtimeEventName };
+
+/**
+ * Catalog version the payload was sent with
+ */
+export interface RealtimeEnvelope {
+  v: number;
+}
+
+/**
+ * Any stock movement; sent to everyone
+ */
+export interface StockUpdatedEvent {
+  partId: string;
+  partName: string | null;
+  onHandQty: number;
+  reservedQty: number;
+  availableQty: number;
+  usedQty: number;
+  damagedQty: number;
+  onLoanQty: number;
+  /** Ledger reason of the movement */
+  action: string;
+}
+
+/**
+ * A movement took a part below its reorder point; sent to admins
+ */
+export interface StockLowEvent {
+  partId: string;
+  partName: string;
+  availableQty: number;
+  reorderPoint: number;
+}
+
+/**
+ * An order was placed or changed status; sent to admins and the student
+ */
+export interface OrderEvent {
+  orderId: string;
+  studentId: string;
+  projectId: string | null;
+  status: 'pending' | 'approved' | 'partially_fulfilled' | 'rejected' | 'fulfilled' | 'cancelled';
+}
+
+/**
+ * A stocktake count was saved; sent to admins
+ */
+export interface StocktakeCountEvent {
+  stocktakeId: string;
+  partId: string;
+  countedQty: number;
+  expectedQty: number;
+  countedBy: string;
+  countedAt: string;
+}
+
+export type SessionAction = 'created' | 'updated' | 'started' | 'ended' | 'cancelled' | 'deleted';
+
+/**
+ * A session changed; sent to its group and trainer
+ */
+export interface SessionUpdatedEvent {
+  sessionId: string;
+  groupId: string;
+  trainerId: string;
+  status: 'scheduled' | 'in_progress' | 'completed' | 'cancelled' | 'rescheduled';
+  action: SessionAction;
+}
+
+export type PaymentAction =
+  | 'initiated'
+  | 'proof_submitted'
+  | 'approved'
+  | 'rejected'
+  | 'recorded'
+  | 'refunded'
+  | 'voided';
+
+/**
+ * A payment changed; sent to reception, admins and the paying student
+ */
+export interface PaymentUpdatedEvent {
+  paymentId: string;
+  enrollmentId: string;
+  studentId: string;
+  status: 'pending' | 'processing' | 'completed' | 'failed' | 'refunded' | 'cancelled';
+  amount: number;
+  action: PaymentAction;
+}
+
+/**
+ * A new notification; sent to its recipient
+ */
+export interface NotificationEvent {
+  notification: AppNotification;
+  unreadCount: number;
+}
+
+/**
+ * Unread count changed; sent to the user
+ */
+export interface NotificationCountEvent {
+  unreadCount: number;
+}
+
+/**
+ * Chat events; sent to the group's room
+ */
+export interface ChatMessageEvent {
+  groupId: string;
+  message: ChatMessage;
+}
+
+export interface ChatMessageDeletedEvent {
+  groupId: string;
+  messageId: string;
+}
+
+export interface ChatReadEvent {
+  groupId: string;
+  userId: string;
+  upToMessageId: string;
+  readAt: string;
+}
+
+export interface ChatTypingEvent {
+  groupId: string;
+  userId: string;
+  userName?: string;
+  isTyping: boolean;
+}
+
+// Every catalog event, and nothing else
+type CatalogMap<
+  T extends Record<RealtimeEventName, unknown> & Record<Exclude<keyof T, RealtimeEventName>, never>
+> = T;
+
+/**
+ * Event name -> payload
+ */
+export type RealtimeEventMap = CatalogMap<{
+  'stock:updated': StockUpdatedEvent;
+  'stock:low': StockLowEvent;
+  'order:created': OrderEvent;
+  'order:updated': OrderEvent;
+  'stocktake:count': StocktakeCountEvent;
+  'session:updated': SessionUpdatedEvent;
+  'payment:updated': PaymentUpdatedEvent;
+  'notification': NotificationEvent;
+  'notification:count': NotificationCountEvent;
+  'chat:message': ChatMessageEvent;
+  'chat:message:updated': ChatMessageEvent;
+  'chat:message:deleted': ChatMessageDeletedEvent;
+  'chat:read': ChatReadEvent;
+  'chat:typing': ChatTypingEvent;
+}>;
+
+export type RealtimeEvent<E extends RealtimeEventName> = RealtimeEventMap[E] & RealtimeEnvelope;
@@ -12,10 +12,11 @@ export interface Part {
   group?: string;
   partNumber?: string;
   // Stock quantities from API response (optional in base Part)
+  onHandQty?: number;
+  reservedQty?: number;
   availableQty?: number;
   usedQty?: number;
   damagedQty?: number;
-  reservedQty?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -23,6 +24,8 @@ export interface Part {
 export interface StockLevel {
   _id: string;
   partId: string;
+  onHandQty: number;
+  reservedQty: number;
   availableQty: number;
   usedQty: number;
   damagedQty: number;
@@ -40,10 +43,14 @@ export interface PartWithStock {
   createdAt: string;
   updatedAt: string;
   // Stock quantities are required and guaranteed to be numbers
+  /** Physically in stock, including reserved parts */
+  onHandQty: number;
+  /** Held by pending and approved orders */
+  reservedQty: number;
+  /** Available to promise: on hand minus reserved */
   availableQty: number;
   usedQty: number;
   damagedQty: number;
-  reservedQty?: number;
   totalQty: number;
   stockLevel?: StockLevel;
   imageUrl?: string;
@@ -53,7 +60,17 @@ export interface StockMovement {
   _id: string;
   partId: string;
   qtyChange: number;
-  reason: "purchase" | "adjustment" | "used" | "damaged" | "return" | "other";
+  reason:
+    | "purchase"
+    | "adjustment"
+    | "used"
+    | "damaged"
+    | "return"
+    | "other"
+    | "reserve"
+    | "release"
+    | "cancel"
+    | "fulfill";
   orderId?: string;
   createdBy: {
     _id: string;
@@ -196,19 +196,27 @@ app.get("/api/health", (req, res) => {
 });
 
 // Routes
-// Inject io into services that need to emit
-require("./src/services/stock.service").setIo(io);
+// Every service emits through the realtime service
+const realtimeService = require("./src/services/realtime.service");
+realtimeService.setIo(io);
+const groupChatService = require("./src/services/groupChat.service");
 
 app.use("/api/auth", require("./src/routes/auth.routes"));
 app.use("/api/parts", require("./src/routes/parts.routes"));
 app.use("/api/stock", require("./src/routes/stock.routes"));
 app.use("/api/orders", require("./src/routes/orders.routes"));
+app.use("/api/requisitions", require("./src/routes/requisitions.routes"));
+app.use("/api/suppliers", require("./src/routes/suppliers.routes"));
+app.use("/api/purchase-orders", require("./src/routes/purchaseOrders.routes"));
+app.use("/api/loans", require("./src/routes/loans.routes"));
+app.use("/api/stocktakes", require("./src/routes/stocktakes.routes"));
 app.use("/api/projects", require("./src/routes/projects.routes"));
 app.use("/api/competitions", require("./src/routes/competitions.routes"));
 app.use("/api/teams", require("./src/routes/teams.routes"));
 app.use("/api/posts", require("./src/routes/posts.routes"));
 app.use("/api/images", require("./src/routes/image.routes"));
 app.use("/api/users", require("./src/routes/users.routes"));
+app.use("/api/notifications", require("./src/routes/notifications.routes"));
 
 // Student routes
 app.use("/api/student/courses", require("./src/routes/student.courses.routes"));
@@ -218,6 +226,8 @@ app.use("/api/student/assignments", require("./src/routes/student.assignments.ro
 app.use("/api/student/attendance", require("./src/routes/student.attendance.routes"));
 app.use("/api/student/payments", require("./src/routes/student.payments.routes"));
 app.use("/api/student/dashboard", require("./src/routes/student.dashboard.routes"));
+app.use("/api/student/groups", require("./src/routes/student.groups.routes"));
+app.use("/api/student/resources", require("./src/routes/student.resources.routes"));
 
 // Trainer routes
 app.use("/api/trainer/dashboard", require("./src/routes/trainer.dashboard.routes"));
@@ -226,6 +236,9 @@ app.use("/api/trainer/sessions", require("./src/routes/trainer.sessions.routes")
 app.use("/api/trainer/attendance", require("./src/routes/trainer.attendance.routes"));
 app.use("/api/trainer/evaluations", require("./src/routes/trainer.evaluations.routes"));
 app.use("/api/trainer/quizzes", require("./src/routes/trainer.quizzes.routes"));
+app.use("/api/trainer/question-bank", require("./src/routes/trainer.questionBank.routes"));
+app.use("/api/trainer/assignments", require("./src/routes/trainer.assignments.routes"));
+app.use("/api/trainer/resources", require("./src/routes/trainer.resources.routes"));
 
 // Reception routes - Manages student/trainer accounts, enrollments, schedules, and leads
 app.use("/api/reception", require("./src/routes/reception.routes"));
@@ -233,6 +246,9 @@ app.use("/api/reception", require("./src/routes/reception.routes"));
 // CLO routes - Chief Learning Officer manages trainers, courses, groups, and analytics
 app.use("/api/clo", require("./src/routes/clo.routes"));
 
+// Admin finance routes - Revenue, outstanding balances and cash reconciliation reports
+app.use("/api/admin/finance", require("./src/routes/admin.finance.routes"));
+
 app.use("/uploads", express.static("uploads"));
 
 app.use((error, req, res, next) => {
@@ -289,14 +305,14 @@ app.use((err, req, res, next) => {
 });
 
 // Socket.IO events
+// Authenticate every socket connection (sets socket.userId / socket.userRole)
+io.use(require("./src/middleware/socketAuth").socketAuthMiddleware);
+
 io.on("connection", (socket) => {
   console.log("socket connected", socket.id);
-  socket.on("admin:join", () => {
-    socket.join("admins");
-  });
-  socket.on("admin:leave", () => {
-    socket.leave("admins");
-  });
+  // User, role and group rooms; admins are in role:admin / role:superadmin
+  realtimeService.registerSocketHandlers(socket);
+  groupChatService.registerSocketHandlers(socket);
   socket.on("disconnect", () => {
     console.log("socket disconnected", socket.id);
   });
@@ -369,6 +385,29 @@ if (process.env.VERCEL !== "1") {
         console.log(`✅ Server started successfully on port ${port}`);
         console.log(`📍 API: http://localhost:${port}/api`);
         console.log(`🏥 Health: http://localhost:${port}/api/health`);
+
+        // Background jobs (not available in serverless)
+        require("./src/jobs/overdueInstallments.job").start();
+        require("./src/jobs/overdueLoans.job").start();
+        require("./src/jobs/quizDeadlines.job").start();
+
+        // Split legacy stock levels into on-hand / reserved figures
+        require("./src/services/stock.service")
+          .backfillStockLevels()
+          .then((count) => count && console.log(`📦 Recomputed ${count} stock levels`))
+          .catch((error) => console.error("❌ Stock level backfill failed:", error.message));
+
+        // Give legacy orders their line-level figures
+        require("./src/services/order.service")
+          .backfillOrderLines()
+          .then((count) => count && console.log(`🧾 Backfilled lines of ${count} orders`))
+          .catch((error) => console.error("❌ Order line backfill failed:", error.message));
+
+        // Give legacy competitions a lifecycle status from their dates
+        require("./src/services/competitionLifecycle.service")
+          .backfillCompetitionStatuses()
+          .then((count) => count && console.log(`🏆 Backfilled the status of ${count} competitions`))
+          .catch((error) => console.error("❌ Competition status backfill failed:", error.message));
       });
     })
     .catch((error) => {
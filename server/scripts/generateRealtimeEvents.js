@@ -0,0 +1,54 @@
+/**
+ * Generate the client's realtime event catalog
+ *
+ * Writes client/src/shared/constants/realtime.constants.ts from
+ * src/config/realtimeEvents.js so the two sides can't drift.
+ *
+ * Usage:
+ *   npm run realtime:events          write the client file
+ *   npm run realtime:events:check    exit 1 when the client file is stale
+ */
+
+const fs = require('fs');
+const path = require('path');
+const { EVENT_VERSION, EVENTS } = require('../src/config/realtimeEvents');
+
+const TARGET = path.join(__dirname, '../../client/src/shared/constants/realtime.constants.ts');
+
+function render() {
+  const entries = Object.entries(EVENTS)
+    .map(([key, name]) => `  ${key}: '${name}',`)
+    .join('\n');
+
+  return `/**
+ * Realtime event catalog
+ *
+ * Generated from server/src/config/realtimeEvents.js by
+ * \`npm run realtime:events\` in server/; do not edit by hand.
+ */
+
+export const REALTIME_EVENT_VERSION = ${EVENT_VERSION};
+
+export const REALTIME_EVENTS = {
+${entries}
+} as const;
+
+export type RealtimeEventName = (typeof REALTIME_EVENTS)[keyof typeof REALTIME_EVENTS];
+`;
+}
+
+const content = render();
+const current = fs.existsSync(TARGET) ? fs.readFileSync(TARGET, 'utf8') : null;
+
+if (process.argv.includes('--check')) {
+  if (current !== content) {
+    console.error(`❌ ${path.relative(process.cwd(), TARGET)} is out of date; run npm run realtime:events`);
+    process.exit(1);
+  }
+  console.log('✅ Client realtime event catalog is up to date');
+} else if (current === content) {
+  console.log('Client realtime event catalog already up to date');
+} else {
+  fs.writeFileSync(TARGET, content);
+  console.log(`📡 Wrote ${path.relative(process.cwd(), TARGET)}`);
+}
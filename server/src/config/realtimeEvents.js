@@ -0,0 +1,36 @@
+/**
+ * Realtime Event Catalog
+ *
+ * Every event the server pushes over Socket.IO, and the catalog version
+ * payloads carry as `v`. Bump EVENT_VERSION whenever a payload changes
+ * shape.
+ *
+ * This is the only hand-maintained copy. The client's
+ * src/shared/constants/realtime.constants.ts is generated from it with
+ * `npm run realtime:events`; `npm run realtime:events:check` fails while
+ * the client copy is out of date.
+ */
+
+const EVENT_VERSION = 1;
+
+const EVENTS = Object.freeze({
+  STOCK_UPDATED: 'stock:updated',
+  STOCK_LOW: 'stock:low',
+  ORDER_CREATED: 'order:created',
+  ORDER_UPDATED: 'order:updated',
+  STOCKTAKE_COUNT: 'stocktake:count',
+  SESSION_UPDATED: 'session:updated',
+  PAYMENT_UPDATED: 'payment:updated',
+  NOTIFICATION: 'notification',
+  NOTIFICATION_COUNT: 'notification:count',
+  CHAT_MESSAGE: 'chat:message',
+  CHAT_MESSAGE_UPDATED: 'chat:message:updated',
+  CHAT_MESSAGE_DELETED: 'chat:message:deleted',
+  CHAT_READ: 'chat:read',
+  CHAT_TYPING: 'chat:typing'
+});
+
+module.exports = {
+  EVENT_VERSION,
+  EVENTS
+};
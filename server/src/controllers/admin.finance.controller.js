@@ -0,0 +1,216 @@
+/**
+ * Admin Finance Controller
+ *
+ * Financial reports for management:
+ * - Revenue by course, group, payment method or month
+ * - Outstanding balances per student
+ * - Daily cash-drawer reconciliation per reception user
+ *
+ * Every report returns JSON, or a CSV/XLSX download when `format` is given.
+ */
+
+const mongoose = require('mongoose');
+const {
+  REVENUE_GROUPINGS,
+  getRevenueReport,
+  getOutstandingBalances,
+  getCashReconciliation
+} = require('../services/finance.service');
+const { EXPORT_FORMATS, sendReport } = require('../utils/reportExport');
+
+const MONEY_FORMAT = '#,##0.00';
+
+/**
+ * Validate the shared query parameters of a report
+ * Returns an error message, or null when valid
+ */
+const validateQuery = ({ format, from, to, date, courseId }) => {
+  if (format && !EXPORT_FORMATS.includes(format)) {
+    return `Invalid format. Use one of: ${EXPORT_FORMATS.join(', ')}`;
+  }
+  const invalidDate = [from, to, date].find(value => value && isNaN(Date.parse(value)));
+  if (invalidDate) {
+    return `Invalid date: ${invalidDate}`;
+  }
+  if (courseId && !mongoose.isValidObjectId(courseId)) {
+    return `Invalid courseId: ${courseId}`;
+  }
+  return null;
+};
+
+/**
+ * @desc    Revenue report
+ * @route   GET /api/admin/finance/revenue?groupBy=month&from=&to=&courseId=&format=
+ * @access  Private/Admin
+ */
+const getRevenue = async (req, res) => {
+  try {
+    const { groupBy = 'month', from, to, courseId, format } = req.query;
+
+    const invalid = validateQuery(req.query);
+    if (invalid) {
+      return res.status(400).json({ success: false, message: invalid });
+    }
+    if (!REVENUE_GROUPINGS.includes(groupBy)) {
+      return res.status(400).json({
+        success: false,
+        message: `Invalid groupBy. Use one of: ${REVENUE_GROUPINGS.join(', ')}`
+      });
+    }
+
+    const report = await getRevenueReport({ groupBy, from, to, courseId });
+
+    if (format) {
+      return sendReport(res, {
+        format,
+        filename: `revenue-by-${groupBy}`,
+        sheetName: `Revenue by ${groupBy}`,
+        columns: [
+          { header: groupBy.charAt(0).toUpperCase() + groupBy.slice(1), key: 'label', width: 30 },
+          { header: 'Payments', key: 'payments' },
+          { header: 'Gross', key: 'gross', numFmt: MONEY_FORMAT },
+          { header: 'Refunds', key: 'refunds', numFmt: MONEY_FORMAT },
+          { header: 'Net', key: 'net', numFmt: MONEY_FORMAT }
+        ],
+        rows: [...report.rows, { label: 'Total', ...report.totals }]
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Error building revenue report:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error building revenue report',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Outstanding balances per student
+ * @route   GET /api/admin/finance/outstanding?courseId=&overdueOnly=true&format=
+ * @access  Private/Admin
+ */
+const getOutstanding = async (req, res) => {
+  try {
+    const { courseId, overdueOnly, format } = req.query;
+
+    const invalid = validateQuery(req.query);
+    if (invalid) {
+      return res.status(400).json({ success: false, message: invalid });
+    }
+
+    const report = await getOutstandingBalances({
+      courseId,
+      overdueOnly: overdueOnly === 'true'
+    });
+
+    if (format) {
+      return sendReport(res, {
+        format,
+        filename: 'outstanding-balances',
+        sheetName: 'Outstanding balances',
+        columns: [
+          { header: 'Student', key: 'name', width: 25 },
+          { header: 'Email', key: 'email', width: 30 },
+          { header: 'Courses', key: 'courses', width: 40 },
+          { header: 'Total', key: 'totalAmount', numFmt: MONEY_FORMAT },
+          { header: 'Paid', key: 'paidAmount', numFmt: MONEY_FORMAT },
+          { header: 'Remaining', key: 'remainingAmount', numFmt: MONEY_FORMAT },
+          { header: 'Overdue', key: 'overdueAmount', numFmt: MONEY_FORMAT },
+          { header: 'Next due', key: 'nextDueDate', width: 14 }
+        ],
+        rows: report.rows.map(row => ({
+          ...row,
+          courses: row.courses.join('; '),
+          nextDueDate: row.nextDueDate ? row.nextDueDate.toISOString().slice(0, 10) : ''
+        }))
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Error building outstanding balances report:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error building outstanding balances report',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Daily cash-drawer reconciliation per reception user
+ * @route   GET /api/admin/finance/reconciliation?date=YYYY-MM-DD&format=
+ * @access  Private/Admin
+ */
+const getReconciliation = async (req, res) => {
+  try {
+    const { date, format } = req.query;
+
+    const invalid = validateQuery(req.query);
+    if (invalid) {
+      return res.status(400).json({ success: false, message: invalid });
+    }
+
+    const report = await getCashReconciliation({ date });
+
+    if (format) {
+      // One line per user and payment method
+      const rows = [];
+      report.rows.forEach(row => {
+        Object.entries(row.byMethod).forEach(([method, totals]) => {
+          rows.push({ name: row.name, method, ...totals });
+        });
+        rows.push({
+          name: row.name,
+          method: 'Expected cash in drawer',
+          collected: row.cashCollected,
+          refunded: row.cashRefunded,
+          net: row.expectedCash
+        });
+      });
+
+      return sendReport(res, {
+        format,
+        filename: `cash-reconciliation-${report.date}`,
+        sheetName: `Reconciliation ${report.date}`,
+        columns: [
+          { header: 'Staff', key: 'name', width: 25 },
+          { header: 'Method', key: 'method', width: 25 },
+          { header: 'Payments', key: 'payments' },
+          { header: 'Collected', key: 'collected', numFmt: MONEY_FORMAT },
+          { header: 'Refunds', key: 'refunds' },
+          { header: 'Refunded', key: 'refunded', numFmt: MONEY_FORMAT },
+          { header: 'Net cash', key: 'net', numFmt: MONEY_FORMAT }
+        ],
+        rows
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Error building cash reconciliation:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error building cash reconciliation',
+      error: error.message
+    });
+  }
+};
+
+module.exports = {
+  getRevenue,
+  getOutstanding,
+  getReconciliation
+};
@@ -4,11 +4,23 @@ const Team = require("../models/Team");
 const Evaluation = require("../models/Evaluation");
 const { Types } = require("mongoose");
 const asyncHandler = require("../utils/asyncHandler");
-const { NotFoundError, ValidationError, BadRequestError } = require("../utils/errors");
+const { NotFoundError, ValidationError, BadRequestError, ConflictError, ForbiddenError } = require("../utils/errors");
 const logger = require("../utils/logger");
+const { scoreEvaluation, computeRankings } = require("../services/competitionScoring.service");
+const {
+  APPROVED_TEAM_FILTER,
+  ACTIVE_TEAM_FILTER,
+  statusOf,
+  canTransition,
+  registrationState,
+  isVisibleTo,
+  isOrganizer,
+} = require("../services/competitionLifecycle.service");
+const { notifyResultsPublished } = require("../services/notification.service");
 
 /**
- * List all competitions
+ * List all competitions with their team counts
+ * Drafts are only listed for organizers
  * GET /api/competitions
  */
 const listCompetitions = asyncHandler(async (req, res) => {
@@ -17,22 +29,60 @@ const listCompetitions = asyncHandler(async (req, res) => {
   if (req.user?.role === "judge" && req.onlyCompetitionId) {
     filter._id = req.onlyCompetitionId;
   }
+  if (!isOrganizer(req.user)) {
+    // Competitions without a status predate the lifecycle and aren't drafts
+    filter.status = { $ne: "draft" };
+  }
 
   logger.logDB('find', 'Competition', { filter });
 
   const comps = await Competition.find(filter).lean();
 
-  logger.info(`Listed ${comps.length} competitions`);
-  res.json(comps);
+  const counts = await Team.aggregate([
+    { $match: { competitionId: { $in: comps.map(c => c._id) } } },
+    {
+      $group: {
+        _id: "$competitionId",
+        teamCount: { $sum: { $cond: [{ $ne: ["$status", "rejected"] }, 1, 0] } },
+        pendingCount: { $sum: { $cond: [{ $eq: ["$status", "pending"] }, 1, 0] } },
+      },
+    },
+  ]);
+  const countsById = new Map(counts.map(c => [String(c._id), c]));
+
+  const result = comps.map(comp => {
+    const count = countsById.get(String(comp._id));
+    return {
+      ...comp,
+      status: statusOf(comp),
+      teamCount: count ? count.teamCount : 0,
+      pendingTeamCount: count ? count.pendingCount : 0,
+      registrationOpen: registrationState(comp).open,
+    };
+  });
+
+  logger.info(`Listed ${result.length} competitions`);
+  res.json(result);
 });
 
-const createCompetitionSchema = Joi.object({
+// Registration window must close after it opens
+const registrationWindow = (schema) => schema.custom((value, helpers) => {
+  if (value.registrationOpensAt && value.registrationClosesAt &&
+      value.registrationClosesAt <= value.registrationOpensAt) {
+    return helpers.message('registrationClosesAt must be after registrationOpensAt');
+  }
+  return value;
+});
+
+const createCompetitionSchema = registrationWindow(Joi.object({
   title: Joi.string().required(),
   startDate: Joi.date().required(),
   endDate: Joi.date().required(),
   description: Joi.string().allow(""),
-  maxTeams: Joi.number().min(0).default(0),
-});
+  maxTeams: Joi.number().integer().min(0).default(0),
+  registrationOpensAt: Joi.date().allow(null),
+  registrationClosesAt: Joi.date().allow(null),
+}));
 
 /**
  * Create a new competition
@@ -47,7 +97,8 @@ const createCompetition = asyncHandler(async (req, res) => {
 
   logger.logDB('create', 'Competition', { title: value.title });
 
-  const comp = await Competition.create(value);
+  // Every competition starts as a draft
+  const comp = await Competition.create({ ...value, status: "draft" });
 
   logger.info(`Created competition: ${comp.title} (${comp._id})`);
   res.status(201).json(comp);
@@ -90,7 +141,12 @@ const createTeam = asyncHandler(async (req, res) => {
     throw new NotFoundError('Competition');
   }
 
-  const count = await Team.countDocuments({ competitionId: req.params.id });
+  const registration = registrationState(comp);
+  if (!registration.open) {
+    throw new BadRequestError(registration.message, registration.code);
+  }
+
+  const count = await Team.countDocuments({ competitionId: req.params.id, ...ACTIVE_TEAM_FILTER });
 
   if (comp.maxTeams && count >= comp.maxTeams) {
     throw new BadRequestError('Max teams reached for this competition', 'MAX_TEAMS_REACHED');
@@ -103,6 +159,7 @@ const createTeam = asyncHandler(async (req, res) => {
     name: value.name,
     members: value.members,
     coachId: req.user.id,
+    status: "pending",
   });
 
   logger.info(`Created team ${team.name} (${team._id}) for competition ${comp.title}`);
@@ -111,12 +168,21 @@ const createTeam = asyncHandler(async (req, res) => {
 
 const createEvaluationSchema = Joi.object({
   teamId: Joi.string().required(),
-  scores: Joi.object().default({}),
+  criterionScores: Joi.array()
+    .items(
+      Joi.object({
+        criterionId: Joi.string().required(),
+        points: Joi.number().min(0).required(),
+      })
+    )
+    .min(1)
+    .required(),
   comments: Joi.string().allow(""),
 });
 
 /**
- * Create an evaluation for a team
+ * Score a team against the competition rubric
+ * A judge has one evaluation per team; submitting again replaces it
  * POST /api/competitions/:id/evaluations
  */
 const createEvaluation = asyncHandler(async (req, res) => {
@@ -126,28 +192,164 @@ const createEvaluation = asyncHandler(async (req, res) => {
     throw new ValidationError(error.message);
   }
 
-  const total = Object.values(value.scores).reduce(
-    (a, b) => a + Number(b || 0),
-    0
-  );
+  const [comp, team] = await Promise.all([
+    Competition.findById(req.params.id),
+    Team.findOne({ _id: value.teamId, competitionId: req.params.id }),
+  ]);
 
-  logger.logDB('create', 'Evaluation', {
+  if (!comp) {
+    throw new NotFoundError('Competition');
+  }
+  if (!team || team.status === 'pending' || team.status === 'rejected') {
+    throw new NotFoundError('Team');
+  }
+  if (comp.status !== 'judging') {
+    throw new BadRequestError('This competition is not open for judging', 'JUDGING_CLOSED');
+  }
+  if (!comp.rubric || !comp.rubric.criteria.length) {
+    throw new BadRequestError('This competition has no scoring rubric yet', 'NO_RUBRIC');
+  }
+
+  const scored = scoreEvaluation(comp.rubric.criteria, value.criterionScores);
+  if (scored.error) {
+    throw new ValidationError(scored.error);
+  }
+
+  logger.logDB('findOneAndUpdate', 'Evaluation', {
     judgeId: req.user.id,
     competitionId: req.params.id,
     teamId: value.teamId
   });
 
-  const evaln = await Evaluation.create({
-    judgeId: req.user.id,
+  const evaln = await Evaluation.findOneAndUpdate(
+    { judgeId: req.user.id, teamId: value.teamId },
+    {
+      judgeId: req.user.id,
+      competitionId: req.params.id,
+      teamId: value.teamId,
+      criterionScores: value.criterionScores,
+      totalScore: scored.totalScore,
+      weightedScore: scored.weightedScore,
+      comments: value.comments,
+    },
+    { new: true, upsert: true, runValidators: true, setDefaultsOnInsert: true }
+  );
+
+  logger.info(`Saved evaluation (${evaln._id}) by judge ${req.user.id} for team ${value.teamId}`);
+  res.status(201).json(evaln);
+});
+
+/**
+ * Get the judging sheet: rubric, teams and the judge's own evaluations
+ * GET /api/competitions/:id/judging
+ */
+const getJudgingSheet = asyncHandler(async (req, res) => {
+  logger.logDB('findById', 'Competition', { id: req.params.id });
+
+  const comp = await Competition.findById(req.params.id).lean();
+
+  if (!comp) {
+    throw new NotFoundError('Competition');
+  }
+
+  const [teams, evaluations] = await Promise.all([
+    Team.find({ competitionId: req.params.id, ...APPROVED_TEAM_FILTER }).select('name members').sort({ name: 1 }).lean(),
+    Evaluation.find({ competitionId: req.params.id, judgeId: req.user.id }).lean(),
+  ]);
+
+  res.json({
+    competition: {
+      _id: comp._id,
+      title: comp.title,
+      startDate: comp.startDate,
+      endDate: comp.endDate,
+      status: statusOf(comp),
+    },
+    rubric: comp.rubric || { criteria: [], scoringMethod: 'average' },
+    teams,
+    evaluations,
+  });
+});
+
+const rubricSchema = Joi.object({
+  criteria: Joi.array()
+    .items(
+      Joi.object({
+        _id: Joi.string(),
+        name: Joi.string().trim().max(100).required(),
+        description: Joi.string().trim().max(500).allow(""),
+        maxPoints: Joi.number().integer().min(1).required(),
+        weight: Joi.number().min(0).default(1),
+        tieBreakPriority: Joi.number().integer().min(1).allow(null).default(null),
+      })
+    )
+    .min(1)
+    .required(),
+  scoringMethod: Joi.string().valid('average', 'normalized').default('average'),
+});
+
+/**
+ * Set the scoring rubric of a competition
+ * Once judges have scored, criteria can't be added, removed or rescaled;
+ * names, descriptions, weights and tie-break priorities can still change
+ * (existing evaluations are re-weighted)
+ * PUT /api/competitions/:id/rubric
+ */
+const updateRubric = asyncHandler(async (req, res) => {
+  const { error, value } = rubricSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  const comp = await Competition.findById(req.params.id);
+
+  if (!comp) {
+    throw new NotFoundError('Competition');
+  }
+
+  const evaluated = await Evaluation.exists({
     competitionId: req.params.id,
-    teamId: value.teamId,
-    scores: value.scores,
-    totalScore: total,
-    comments: value.comments,
+    'criterionScores.0': { $exists: true },
   });
 
-  logger.info(`Created evaluation (${evaln._id}) by judge ${req.user.id} for team ${value.teamId}`);
-  res.status(201).json(evaln);
+  if (evaluated) {
+    const current = comp.rubric.criteria;
+    const sameShape = current.length === value.criteria.length &&
+      value.criteria.every(criterion => {
+        const existing = criterion._id && current.id(criterion._id);
+        return existing && existing.maxPoints === criterion.maxPoints;
+      });
+
+    if (!sameShape) {
+      throw new ConflictError('Judges have already scored this competition; criteria and max points can no longer change');
+    }
+  }
+
+  comp.rubric.criteria = value.criteria;
+  comp.rubric.scoringMethod = value.scoringMethod;
+  await comp.save();
+
+  if (evaluated) {
+    // Weights may have changed; restamp the weighted score judges see
+    const evaluations = await Evaluation.find({
+      competitionId: comp._id,
+      'criterionScores.0': { $exists: true },
+    }).select('criterionScores').lean();
+
+    const updates = evaluations
+      .map(evaluation => ({ evaluation, scored: scoreEvaluation(comp.rubric.criteria, evaluation.criterionScores) }))
+      .filter(({ scored }) => !scored.error)
+      .map(({ evaluation, scored }) => ({
+        updateOne: { filter: { _id: evaluation._id }, update: { $set: { weightedScore: scored.weightedScore } } },
+      }));
+    if (updates.length) {
+      await Evaluation.bulkWrite(updates);
+    }
+  }
+
+  logger.info(`Updated rubric of competition ${comp.title} (${comp._id}): ${comp.rubric.criteria.length} criteria`);
+  res.json(comp);
 });
 
 const updateCompetitionSchema = Joi.object({
@@ -155,11 +357,14 @@ const updateCompetitionSchema = Joi.object({
   startDate: Joi.date(),
   endDate: Joi.date(),
   description: Joi.string().allow(""),
-  maxTeams: Joi.number().min(0),
+  maxTeams: Joi.number().integer().min(0),
+  registrationOpensAt: Joi.date().allow(null),
+  registrationClosesAt: Joi.date().allow(null),
 });
 
 /**
  * Update a competition
+ * The status changes through PATCH /api/competitions/:id/status
  * PUT /api/competitions/:id
  */
 const updateCompetition = asyncHandler(async (req, res) => {
@@ -169,21 +374,94 @@ const updateCompetition = asyncHandler(async (req, res) => {
     throw new ValidationError(error.message);
   }
 
-  logger.logDB('findByIdAndUpdate', 'Competition', { id: req.params.id });
+  logger.logDB('findById', 'Competition', { id: req.params.id });
 
-  const comp = await Competition.findByIdAndUpdate(req.params.id, value, {
-    new: true,
-    runValidators: true
-  });
+  const comp = await Competition.findById(req.params.id);
 
   if (!comp) {
     throw new NotFoundError('Competition');
   }
 
+  comp.set(value);
+
+  if (comp.registrationOpensAt && comp.registrationClosesAt &&
+      comp.registrationClosesAt <= comp.registrationOpensAt) {
+    throw new ValidationError('registrationClosesAt must be after registrationOpensAt');
+  }
+
+  if (value.maxTeams) {
+    const count = await Team.countDocuments({ competitionId: comp._id, ...ACTIVE_TEAM_FILTER });
+    if (count > value.maxTeams) {
+      throw new ConflictError(`${count} teams are already registered; maxTeams can't be lower`);
+    }
+  }
+
+  await comp.save();
+
   logger.info(`Updated competition: ${comp.title} (${comp._id})`);
   res.json(comp);
 });
 
+const statusSchema = Joi.object({
+  status: Joi.string().valid(...Competition.STATUSES).required(),
+});
+
+/**
+ * Move a competition to the next (or previous) phase
+ * - Judging can't start while registrations are still pending review
+ * - Results can only be published once judges have scored
+ * PATCH /api/competitions/:id/status
+ */
+const updateCompetitionStatus = asyncHandler(async (req, res) => {
+  const { error, value } = statusSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  const comp = await Competition.findById(req.params.id);
+
+  if (!comp) {
+    throw new NotFoundError('Competition');
+  }
+
+  const from = statusOf(comp);
+
+  if (from === value.status) {
+    return res.json(comp);
+  }
+  if (!canTransition(from, value.status)) {
+    throw new BadRequestError(`Can't move a competition from ${from} to ${value.status}`, 'INVALID_STATUS_TRANSITION');
+  }
+
+  if (value.status === 'judging' && from === 'registration') {
+    const pending = await Team.countDocuments({ competitionId: comp._id, status: 'pending' });
+    if (pending > 0) {
+      throw new ConflictError(`${pending} team registration(s) still need review`);
+    }
+  }
+
+  if (value.status === 'results_published') {
+    const evaluated = await Evaluation.exists({ competitionId: comp._id });
+    if (!evaluated) {
+      throw new ConflictError('No team has been scored yet');
+    }
+  }
+
+  comp.status = value.status;
+  comp.resultsPublishedAt = value.status === 'results_published' ? new Date() : null;
+  await comp.save();
+
+  logger.info(`Competition ${comp.title} (${comp._id}) moved from ${from} to ${comp.status}`);
+
+  if (comp.status === 'results_published') {
+    const coachIds = await Team.distinct('coachId', { competitionId: comp._id, ...APPROVED_TEAM_FILTER });
+    notifyResultsPublished(comp, coachIds);
+  }
+
+  res.json(comp);
+});
+
 /**
  * Delete a competition
  * DELETE /api/competitions/:id
@@ -208,54 +486,95 @@ const deleteCompetition = asyncHandler(async (req, res) => {
 });
 
 /**
- * Get competition rankings
+ * Get competition rankings with a per-criterion breakdown
+ * Organizers and judges see them while judging; everyone else once published
  * GET /api/competitions/:id/rankings
  */
 const rankings = asyncHandler(async (req, res) => {
-  logger.logDB('aggregate', 'Evaluation', { competitionId: req.params.id });
-
-  // MVP: join evaluations with teams to return the team name
-  const agg = await Evaluation.aggregate([
-    { $match: { competitionId: new Types.ObjectId(req.params.id) } },
-    { $group: { _id: "$teamId", total: { $sum: "$totalScore" } } },
-    { $sort: { total: -1 } },
-    // Lookup team names for UX clarity
-    {
-      $lookup: {
-        from: "teams",
-        localField: "_id",
-        foreignField: "_id",
-        as: "team",
-      },
-    },
-    { $unwind: "$team" },
-    {
-      $project: {
-        teamId: "$team._id",
-        teamName: "$team.name",
-        total: 1,
-      },
-    },
+  logger.logDB('find', 'Evaluation', { competitionId: req.params.id });
+
+  const comp = await Competition.findById(req.params.id).lean();
+
+  if (!comp || !isVisibleTo(comp, req.user)) {
+    throw new NotFoundError('Competition');
+  }
+  if (comp.status !== 'results_published' && !isOrganizer(req.user) && req.user.role !== 'judge') {
+    throw new ForbiddenError('Results have not been published yet', 'RESULTS_NOT_PUBLISHED');
+  }
+
+  const [teams, evaluations] = await Promise.all([
+    Team.find({ competitionId: req.params.id, ...APPROVED_TEAM_FILTER }).select('name').lean(),
+    Evaluation.find({ competitionId: new Types.ObjectId(req.params.id) })
+      .populate('judgeId', 'name')
+      .lean(),
   ]);
 
-  const ranks = agg.map((r, i) => ({
-    teamId: r.teamId,
-    teamName: r.teamName,
-    total: r.total,
-    rank: i + 1,
-  }));
+  const result = computeRankings(comp, teams, evaluations);
+
+  logger.info(`Generated rankings for competition ${req.params.id}: ${result.rankings.length} teams`);
+  res.json(result);
+});
+
+/**
+ * Public results of a competition, available once published
+ * Judge names and comments are left out
+ * GET /api/competitions/:id/results
+ */
+const publicResults = asyncHandler(async (req, res) => {
+  if (!Types.ObjectId.isValid(req.params.id)) {
+    throw new NotFoundError('Results');
+  }
+
+  const comp = await Competition.findById(req.params.id).lean();
+
+  if (!comp || comp.status !== 'results_published') {
+    throw new NotFoundError('Results');
+  }
+
+  const [teams, evaluations] = await Promise.all([
+    Team.find({ competitionId: comp._id, ...APPROVED_TEAM_FILTER }).select('name members').lean(),
+    Evaluation.find({ competitionId: comp._id }).lean(),
+  ]);
 
-  logger.info(`Generated rankings for competition ${req.params.id}: ${ranks.length} teams`);
-  res.json(ranks);
+  const result = computeRankings(comp, teams, evaluations);
+  const membersById = new Map(teams.map(t => [String(t._id), t.members || []]));
+
+  res.json({
+    competition: {
+      _id: comp._id,
+      title: comp.title,
+      description: comp.description,
+      startDate: comp.startDate,
+      endDate: comp.endDate,
+      resultsPublishedAt: comp.resultsPublishedAt,
+    },
+    scoringMethod: result.scoringMethod,
+    criteria: result.criteria.map(c => ({ _id: c._id, name: c.name, weight: c.weight })),
+    rankings: result.rankings
+      .filter(row => row.rank !== null)
+      .map(row => ({
+        rank: row.rank,
+        teamId: row.teamId,
+        teamName: row.teamName,
+        members: membersById.get(row.teamId) || [],
+        score: row.score,
+        tieBrokenBy: row.tieBrokenBy,
+        criteria: row.criteria.map(c => ({ criterionId: c.criterionId, name: c.name, percent: c.percent })),
+      })),
+  });
 });
 
 module.exports = {
   listCompetitions,
   createCompetition,
   updateCompetition,
+  updateCompetitionStatus,
   deleteCompetition,
   listTeams,
   createTeam,
   createEvaluation,
+  getJudgingSheet,
+  updateRubric,
   rankings,
+  publicResults,
 };
@@ -0,0 +1,282 @@
+/**
+ * Group Chat Controller
+ *
+ * Group messaging shared by trainer and student routes:
+ * - /api/trainer/groups/:groupId/chat
+ * - /api/student/groups/:groupId/chat
+ *
+ * Access is resolved per group (trainer of the group or enrolled student),
+ * and every change is broadcast to the group's socket room.
+ */
+
+const asyncHandler = require('../utils/asyncHandler');
+const { BadRequestError, ForbiddenError, NotFoundError } = require('../utils/errors');
+const User = require('../models/User');
+const GroupChat = require('../models/GroupChat');
+const {
+  resolveGroupAccess,
+  ensureParticipant,
+  getOrCreateChat,
+  getUnreadCount,
+  emitToGroup
+} = require('../services/groupChat.service');
+const { EVENTS } = require('../services/realtime.service');
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Load the chat for the requested group and check access
+ * @returns {Promise<{group: Object, chat: Object, role: string, userId: string}>}
+ */
+async function loadChat(req) {
+  const { groupId } = req.params;
+  const userId = (req.user._id || req.user.id).toString();
+
+  const access = await resolveGroupAccess(groupId, userId);
+  if (!access) {
+    throw new NotFoundError('Group');
+  }
+
+  const chat = await getOrCreateChat(access.group);
+  if (ensureParticipant(chat, userId, access.role)) {
+    await chat.save();
+  }
+
+  return { group: access.group, chat, role: access.role, userId };
+}
+
+/**
+ * Find a non-deleted message in a chat
+ */
+function findMessage(chat, messageId) {
+  const message = chat.messages.id(messageId);
+  if (!message || message.isDeleted) {
+    throw new NotFoundError('Message');
+  }
+  return message;
+}
+
+// @desc    Get chat details with pinned messages and unread count
+// @route   GET /api/{trainer|student}/groups/:groupId/chat
+// @access  Private (Group trainer or student)
+exports.getChat = asyncHandler(async (req, res) => {
+  const { group, chat, userId, role } = await loadChat(req);
+
+  await chat.populate('participants.userId', 'name email role');
+
+  const pinned = chat.messages.filter(m => m.isPinned && !m.isDeleted);
+
+  res.json({
+    success: true,
+    data: {
+      _id: chat._id,
+      groupId: group._id,
+      groupName: group.name,
+      name: chat.name,
+      role,
+      participants: chat.participants,
+      pinnedMessages: pinned,
+      settings: chat.settings,
+      stats: chat.stats,
+      unreadCount: getUnreadCount(chat, userId)
+    }
+  });
+});
+
+// @desc    Get paginated messages (newest first)
+// @route   GET /api/{trainer|student}/groups/:groupId/chat/messages
+// @access  Private (Group trainer or student)
+exports.getMessages = asyncHandler(async (req, res) => {
+  await loadChat(req);
+
+  const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 50, 1), MAX_PAGE_SIZE);
+
+  const result = await GroupChat.getMessages(req.params.groupId, page, limit);
+
+  res.json({
+    success: true,
+    data: result.messages,
+    pagination: result.pagination
+  });
+});
+
+// @desc    Send a message to the group
+// @route   POST /api/{trainer|student}/groups/:groupId/chat/messages
+// @access  Private (Group trainer or student)
+exports.sendMessage = asyncHandler(async (req, res) => {
+  const { chat, role, userId } = await loadChat(req);
+  const { message, type = 'text' } = req.body;
+
+  if (!message || !String(message).trim()) {
+    throw new BadRequestError('Message is required');
+  }
+
+  if (!['text', 'announcement'].includes(type)) {
+    throw new BadRequestError('Invalid message type');
+  }
+
+  if (type === 'announcement' && role !== 'trainer') {
+    throw new ForbiddenError('Only the trainer can post announcements');
+  }
+
+  let senderName = req.user.name;
+  if (!senderName) {
+    const sender = await User.findById(userId).select('name');
+    senderName = sender?.name || 'Unknown';
+  }
+
+  await chat.sendMessage(userId, senderName, role, String(message).trim(), type);
+  const created = chat.messages[chat.messages.length - 1];
+
+  emitToGroup(chat.groupId, EVENTS.CHAT_MESSAGE, { message: created });
+
+  res.status(201).json({
+    success: true,
+    data: created
+  });
+});
+
+// @desc    Edit own message
+// @route   PUT /api/{trainer|student}/groups/:groupId/chat/messages/:messageId
+// @access  Private (Message sender)
+exports.editMessage = asyncHandler(async (req, res) => {
+  const { chat, userId } = await loadChat(req);
+  const { messageId } = req.params;
+  const { message } = req.body;
+
+  if (!message || !String(message).trim()) {
+    throw new BadRequestError('Message is required');
+  }
+
+  const existing = findMessage(chat, messageId);
+  if (existing.senderId.toString() !== userId) {
+    throw new ForbiddenError('You can only edit your own messages');
+  }
+
+  await chat.editMessage(messageId, String(message).trim());
+  const updated = chat.messages.id(messageId);
+
+  emitToGroup(chat.groupId, EVENTS.CHAT_MESSAGE_UPDATED, { message: updated });
+
+  res.json({
+    success: true,
+    data: updated
+  });
+});
+
+// @desc    Delete a message (sender or group trainer)
+// @route   DELETE /api/{trainer|student}/groups/:groupId/chat/messages/:messageId
+// @access  Private (Message sender or group trainer)
+exports.deleteMessage = asyncHandler(async (req, res) => {
+  const { chat, role, userId } = await loadChat(req);
+  const { messageId } = req.params;
+
+  const existing = findMessage(chat, messageId);
+  if (existing.senderId.toString() !== userId && role !== 'trainer') {
+    throw new ForbiddenError('You can only delete your own messages');
+  }
+
+  await chat.deleteMessage(messageId, userId);
+
+  emitToGroup(chat.groupId, EVENTS.CHAT_MESSAGE_DELETED, { messageId });
+
+  res.json({
+    success: true,
+    message: 'Message deleted'
+  });
+});
+
+// @desc    Pin a message
+// @route   POST /api/trainer/groups/:groupId/chat/messages/:messageId/pin
+// @access  Private (Group trainer)
+exports.pinMessage = asyncHandler(async (req, res) => {
+  const { chat, role } = await loadChat(req);
+  const { messageId } = req.params;
+
+  if (role !== 'trainer') {
+    throw new ForbiddenError('Only the trainer can pin messages');
+  }
+
+  findMessage(chat, messageId);
+  await chat.pinMessage(messageId);
+  const updated = chat.messages.id(messageId);
+
+  emitToGroup(chat.groupId, EVENTS.CHAT_MESSAGE_UPDATED, { message: updated });
+
+  res.json({
+    success: true,
+    data: updated
+  });
+});
+
+// @desc    Unpin a message
+// @route   DELETE /api/trainer/groups/:groupId/chat/messages/:messageId/pin
+// @access  Private (Group trainer)
+exports.unpinMessage = asyncHandler(async (req, res) => {
+  const { chat, role } = await loadChat(req);
+  const { messageId } = req.params;
+
+  if (role !== 'trainer') {
+    throw new ForbiddenError('Only the trainer can unpin messages');
+  }
+
+  findMessage(chat, messageId);
+  await chat.unpinMessage(messageId);
+  const updated = chat.messages.id(messageId);
+
+  emitToGroup(chat.groupId, EVENTS.CHAT_MESSAGE_UPDATED, { message: updated });
+
+  res.json({
+    success: true,
+    data: updated
+  });
+});
+
+// @desc    Toggle an emoji reaction on a message
+// @route   POST /api/{trainer|student}/groups/:groupId/chat/messages/:messageId/reactions
+// @access  Private (Group trainer or student)
+exports.toggleReaction = asyncHandler(async (req, res) => {
+  const { chat, userId } = await loadChat(req);
+  const { messageId } = req.params;
+  const { emoji } = req.body;
+
+  if (!emoji) {
+    throw new BadRequestError('Emoji is required');
+  }
+
+  if (!chat.settings.allowReactions) {
+    throw new BadRequestError('Reactions are disabled for this chat');
+  }
+
+  findMessage(chat, messageId);
+  await chat.addReaction(messageId, userId, emoji);
+  const updated = chat.messages.id(messageId);
+
+  emitToGroup(chat.groupId, EVENTS.CHAT_MESSAGE_UPDATED, { message: updated });
+
+  res.json({
+    success: true,
+    data: updated
+  });
+});
+
+// @desc    Mark messages as read (up to a message, or all)
+// @route   POST /api/{trainer|student}/groups/:groupId/chat/read
+// @access  Private (Group trainer or student)
+exports.markAsRead = asyncHandler(async (req, res) => {
+  const { chat, userId } = await loadChat(req);
+  const lastMessage = chat.messages[chat.messages.length - 1];
+  const upToMessageId = req.body.upToMessageId || lastMessage?._id || null;
+
+  await chat.markAsRead(userId, upToMessageId);
+
+  emitToGroup(chat.groupId, EVENTS.CHAT_READ, { userId, upToMessageId, readAt: new Date() });
+
+  res.json({
+    success: true,
+    data: {
+      unreadCount: getUnreadCount(chat, userId)
+    }
+  });
+});
@@ -0,0 +1,354 @@
+const Joi = require("joi");
+const Loan = require("../models/Loan");
+const Part = require("../models/Part");
+const User = require("../models/User");
+const Team = require("../models/Team");
+const Group = require("../models/Group");
+const StockLevel = require("../models/StockLevel");
+const { adjustStock, stockFigures } = require("../services/stock.service");
+const { loansForUserFilter } = require("../services/loan.service");
+const asyncHandler = require("../utils/asyncHandler");
+const { NotFoundError, ValidationError, BadRequestError } = require("../utils/errors");
+const logger = require("../utils/logger");
+
+const objectId = Joi.string().hex().length(24);
+
+const BORROWER_LABELS = { student: "Student", team: "Team", group: "Group" };
+
+const listQuerySchema = Joi.object({
+  status: Joi.string().valid(...Loan.STATUSES).optional(),
+  overdue: Joi.boolean().optional(),
+  partId: objectId.optional(),
+  studentId: objectId.optional(),
+  borrowerType: Joi.string().valid(...Loan.BORROWER_TYPES).optional(),
+});
+
+const checkOutSchema = Joi.object({
+  partId: objectId.required(),
+  // Pooled parts are lent by quantity, serialized ones by serial number
+  qty: Joi.number().integer().min(1).optional(),
+  serialNumbers: Joi.array().items(Joi.string().trim().min(1)).unique().min(1).optional(),
+  borrowerType: Joi.string().valid(...Loan.BORROWER_TYPES).required(),
+  studentId: objectId.when("borrowerType", { is: "student", then: Joi.required(), otherwise: Joi.forbidden() }),
+  teamId: objectId.when("borrowerType", { is: "team", then: Joi.required(), otherwise: Joi.forbidden() }),
+  groupId: objectId.when("borrowerType", { is: "group", then: Joi.required(), otherwise: Joi.forbidden() }),
+  dueAt: Joi.date().greater("now").required(),
+  notes: Joi.string().allow("").max(1000).optional(),
+}).xor("qty", "serialNumbers");
+
+const updateSchema = Joi.object({
+  dueAt: Joi.date().optional(),
+  notes: Joi.string().allow("").max(1000).optional(),
+}).min(1);
+
+const checkInSchema = Joi.object({
+  condition: Joi.string().valid(...Loan.RETURN_CONDITIONS).required(),
+  // Only damaged returns write units off; all of them unless narrowed down
+  damagedQty: Joi.number().integer().min(1).when("condition", {
+    is: "damaged",
+    then: Joi.optional(),
+    otherwise: Joi.forbidden(),
+  }),
+  damagedSerials: Joi.array().items(Joi.string().trim().min(1)).unique().min(1).when("condition", {
+    is: "damaged",
+    then: Joi.optional(),
+    otherwise: Joi.forbidden(),
+  }),
+  notes: Joi.string().allow("").max(1000).optional(),
+}).oxor("damagedQty", "damagedSerials");
+
+const populateLoan = (query) =>
+  query
+    .populate("partId", "name sku serialNumbers")
+    .populate("studentId", "name email")
+    .populate("teamId", "name")
+    .populate("groupId", "name")
+    .populate("checkedOutBy", "name")
+    .populate("checkIn.checkedInBy", "name");
+
+/**
+ * Name of a loan's borrower, for ledger notes
+ */
+const borrowerName = (loan) =>
+  loan.studentId?.name || loan.teamId?.name || loan.groupId?.name || loan.borrowerType;
+
+/**
+ * List loans
+ * Filters: status, overdue=true (still out after the due date), part,
+ * student and borrower type
+ * GET /api/loans
+ */
+const listLoans = asyncHandler(async (req, res) => {
+  const { error, value } = listQuerySchema.validate(req.query);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  const { overdue, ...filter } = value;
+  if (overdue) {
+    filter.status = "out";
+    filter.dueAt = { $lt: new Date() };
+  }
+
+  logger.logDB('find', 'Loan', filter);
+
+  const loans = await populateLoan(Loan.find(filter).sort({ dueAt: 1 }));
+
+  logger.info(`Listed ${loans.length} loans`);
+  res.json(loans);
+});
+
+/**
+ * Loans the current user answers for: their own, their team's (as coach)
+ * and their groups'
+ * GET /api/loans/mine
+ */
+const getMyLoans = asyncHandler(async (req, res) => {
+  logger.logDB('find', 'Loan', { userId: req.user.id });
+
+  const filter = await loansForUserFilter(req.user.id);
+  const loans = await populateLoan(Loan.find(filter).sort({ status: 1, dueAt: 1 }));
+
+  logger.info(`Retrieved ${loans.length} loans for user ${req.user.id}`);
+  res.json(loans);
+});
+
+/**
+ * Students, teams and groups equipment can be lent to
+ * GET /api/loans/borrowers
+ */
+const getBorrowers = asyncHandler(async (req, res) => {
+  logger.logDB('find', 'User/Team/Group', { purpose: 'loan borrowers' });
+
+  const [students, teams, groups] = await Promise.all([
+    User.find({ role: "student" }).select("name email").sort({ name: 1 }).lean(),
+    Team.find({ status: { $ne: "rejected" } }).select("name").sort({ name: 1 }).lean(),
+    Group.find().select("name").sort({ name: 1 }).lean(),
+  ]);
+
+  res.json({ students, teams, groups });
+});
+
+/**
+ * Check equipment out to a borrower
+ * POST /api/loans
+ */
+const checkOut = asyncHandler(async (req, res) => {
+  const { error, value } = checkOutSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  const part = await Part.findById(value.partId).lean();
+
+  if (!part) {
+    throw new NotFoundError('Part');
+  }
+
+  if (!part.loanable) {
+    throw new BadRequestError(`${part.name} is not available for loan`, "PART_NOT_LOANABLE");
+  }
+
+  const serialized = part.serialNumbers.length > 0;
+  let qty = value.qty;
+
+  if (serialized) {
+    if (!value.serialNumbers) {
+      throw new BadRequestError(`${part.name} is lent by serial number`, "SERIAL_NUMBERS_REQUIRED");
+    }
+    const unknown = value.serialNumbers.filter((serial) => !part.serialNumbers.includes(serial));
+    if (unknown.length > 0) {
+      throw new BadRequestError(`Unknown serial numbers: ${unknown.join(", ")}`, "UNKNOWN_SERIAL_NUMBER");
+    }
+    const onLoan = await Loan.find({
+      partId: part._id,
+      status: "out",
+      serialNumbers: { $in: value.serialNumbers },
+    }).select("serialNumbers").lean();
+    const taken = onLoan.flatMap((loan) => loan.serialNumbers).filter((serial) => value.serialNumbers.includes(serial));
+    if (taken.length > 0) {
+      throw new BadRequestError(`Already on loan: ${taken.join(", ")}`, "SERIAL_ON_LOAN");
+    }
+    qty = value.serialNumbers.length;
+  } else if (value.serialNumbers) {
+    throw new BadRequestError(`${part.name} has no serial numbers; lend it by quantity`, "PART_NOT_SERIALIZED");
+  }
+
+  const { availableQty } = stockFigures(await StockLevel.findOne({ partId: part._id }).lean());
+  if (qty > availableQty) {
+    throw new BadRequestError(`Only ${availableQty} ${part.name} available to lend`, "INSUFFICIENT_STOCK");
+  }
+
+  let borrower;
+  if (value.borrowerType === "student") {
+    borrower = await User.findOne({ _id: value.studentId, role: "student" }).select("name").lean();
+  } else if (value.borrowerType === "team") {
+    borrower = await Team.findById(value.teamId).select("name").lean();
+  } else {
+    borrower = await Group.findById(value.groupId).select("name").lean();
+  }
+
+  if (!borrower) {
+    throw new NotFoundError(BORROWER_LABELS[value.borrowerType]);
+  }
+
+  logger.logDB('create', 'Loan', { partId: part._id, qty, borrowerType: value.borrowerType });
+
+  const loan = await Loan.create({
+    ...value,
+    qty,
+    serialNumbers: value.serialNumbers || [],
+    checkedOutBy: req.user.id,
+  });
+
+  await adjustStock({
+    partId: part._id,
+    qtyChange: -qty,
+    reason: "loan_out",
+    loanId: loan._id,
+    createdBy: req.user.id,
+    notes: `Loan to ${borrower.name}${value.serialNumbers ? ` (${value.serialNumbers.join(", ")})` : ""}`,
+  });
+
+  logger.info(`Loan ${loan._id}: ${qty} x ${part.name} checked out to ${borrower.name} by ${req.user.id}`);
+  res.status(201).json(await populateLoan(Loan.findById(loan._id)));
+});
+
+/**
+ * Change a loan's due date or notes
+ * PATCH /api/loans/:id
+ */
+const updateLoan = asyncHandler(async (req, res) => {
+  const { error, value } = updateSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('findById', 'Loan', { id: req.params.id });
+
+  const loan = await Loan.findById(req.params.id);
+
+  if (!loan) {
+    throw new NotFoundError('Loan');
+  }
+
+  if (loan.status !== "out") {
+    throw new BadRequestError("This loan has already been returned", "LOAN_RETURNED");
+  }
+
+  if (value.dueAt !== undefined) {
+    loan.dueAt = value.dueAt;
+    // A new due date gets its own overdue reminder
+    if (value.dueAt > new Date()) loan.overdueNotifiedAt = null;
+  }
+  if (value.notes !== undefined) loan.notes = value.notes;
+  await loan.save();
+
+  logger.info(`Loan ${loan._id} updated by ${req.user.id}`);
+  res.json(await populateLoan(Loan.findById(loan._id)));
+});
+
+/**
+ * Check a loan back in with a condition report
+ * Everything returns to the shelf; damaged units are then written off
+ * POST /api/loans/:id/check-in
+ */
+const checkIn = asyncHandler(async (req, res) => {
+  const { error, value } = checkInSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('findById', 'Loan', { id: req.params.id });
+
+  const loan = await populateLoan(Loan.findById(req.params.id));
+
+  if (!loan) {
+    throw new NotFoundError('Loan');
+  }
+
+  if (loan.status !== "out") {
+    throw new BadRequestError("This loan has already been returned", "LOAN_RETURNED");
+  }
+
+  const serialized = loan.serialNumbers.length > 0;
+  let damagedSerials = [];
+  let damagedQty = 0;
+
+  if (value.condition === "damaged") {
+    if (serialized) {
+      if (value.damagedQty) {
+        throw new BadRequestError("List the damaged units by serial number", "SERIAL_NUMBERS_REQUIRED");
+      }
+      damagedSerials = value.damagedSerials || loan.serialNumbers;
+      const unknown = damagedSerials.filter((serial) => !loan.serialNumbers.includes(serial));
+      if (unknown.length > 0) {
+        throw new BadRequestError(`Not on this loan: ${unknown.join(", ")}`, "UNKNOWN_SERIAL_NUMBER");
+      }
+      damagedQty = damagedSerials.length;
+    } else {
+      if (value.damagedSerials) {
+        throw new BadRequestError("This loan has no serial numbers; give a damaged quantity", "PART_NOT_SERIALIZED");
+      }
+      damagedQty = value.damagedQty ?? loan.qty;
+      if (damagedQty > loan.qty) {
+        throw new BadRequestError(`Only ${loan.qty} were lent`, "DAMAGED_EXCEEDS_LOAN");
+      }
+    }
+  }
+
+  const partId = loan.partId?._id || loan.partId;
+  const label = `Loan return from ${borrowerName(loan)}`;
+
+  await adjustStock({
+    partId,
+    qtyChange: loan.qty,
+    reason: "loan_return",
+    loanId: loan._id,
+    createdBy: req.user.id,
+    notes: [label, value.notes].filter(Boolean).join(" - "),
+  });
+
+  if (damagedQty > 0) {
+    await adjustStock({
+      partId,
+      qtyChange: -damagedQty,
+      reason: "damaged",
+      loanId: loan._id,
+      createdBy: req.user.id,
+      notes: `Damaged on loan to ${borrowerName(loan)}${damagedSerials.length ? ` (${damagedSerials.join(", ")})` : ""}`,
+    });
+
+    // Written-off units are no longer lendable
+    if (damagedSerials.length > 0) {
+      await Part.updateOne({ _id: partId }, { $pullAll: { serialNumbers: damagedSerials } });
+    }
+  }
+
+  loan.status = "returned";
+  loan.checkIn = {
+    condition: value.condition,
+    damagedQty,
+    damagedSerials,
+    notes: value.notes,
+    checkedInBy: req.user.id,
+    checkedInAt: new Date(),
+  };
+  await loan.save();
+
+  logger.info(`Loan ${loan._id} checked in (${value.condition}, ${damagedQty} damaged) by ${req.user.id}`);
+  res.json(await populateLoan(Loan.findById(loan._id)));
+});
+
+module.exports = {
+  listLoans,
+  getMyLoans,
+  getBorrowers,
+  checkOut,
+  updateLoan,
+  checkIn,
+};
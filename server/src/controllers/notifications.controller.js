@@ -0,0 +1,154 @@
+/**
+ * Notifications Controller
+ *
+ * Notification center for every authenticated user (/api/notifications).
+ * Every query is scoped to the current user; read-state changes push the
+ * new unread count to the user's other sockets.
+ */
+
+const mongoose = require('mongoose');
+const asyncHandler = require('../utils/asyncHandler');
+const { BadRequestError, NotFoundError } = require('../utils/errors');
+const Notification = require('../models/Notification');
+const { emitUnreadCount } = require('../services/notification.service');
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Current user's id as a string
+ */
+function currentUserId(req) {
+  return (req.user._id || req.user.id).toString();
+}
+
+/**
+ * Find one of the current user's notifications
+ */
+async function findOwnNotification(req) {
+  if (!mongoose.Types.ObjectId.isValid(req.params.id)) {
+    throw new NotFoundError('Notification');
+  }
+
+  const notification = await Notification.findOne({
+    _id: req.params.id,
+    userId: currentUserId(req)
+  });
+
+  if (!notification) {
+    throw new NotFoundError('Notification');
+  }
+
+  return notification;
+}
+
+// @desc    Get paginated notifications (newest first)
+// @route   GET /api/notifications?unread=true&important=true&type=order&page=1&limit=20
+// @access  Private
+exports.getNotifications = asyncHandler(async (req, res) => {
+  const userId = currentUserId(req);
+  const { unread, important, type } = req.query;
+
+  const page = Math.max(parseInt(req.query.page, 10) || 1, 1);
+  const limit = Math.min(Math.max(parseInt(req.query.limit, 10) || 20, 1), MAX_PAGE_SIZE);
+
+  const query = { userId };
+  if (unread === 'true') query.isRead = false;
+  if (important === 'true') query.isImportant = true;
+  if (type) {
+    if (!Notification.TYPES.includes(type)) {
+      throw new BadRequestError('Invalid notification type');
+    }
+    query.type = type;
+  }
+
+  const [notifications, total, unreadCount] = await Promise.all([
+    Notification.find(query)
+      .sort({ createdAt: -1 })
+      .skip((page - 1) * limit)
+      .limit(limit)
+      .lean(),
+    Notification.countDocuments(query),
+    Notification.getUnreadCount(userId)
+  ]);
+
+  res.json({
+    success: true,
+    data: notifications,
+    unreadCount,
+    pagination: {
+      total,
+      page,
+      limit,
+      totalPages: Math.ceil(total / limit),
+      hasMore: page * limit < total
+    }
+  });
+});
+
+// @desc    Get unread notification count
+// @route   GET /api/notifications/unread-count
+// @access  Private
+exports.getUnreadCount = asyncHandler(async (req, res) => {
+  const unreadCount = await Notification.getUnreadCount(currentUserId(req));
+
+  res.json({
+    success: true,
+    data: { unreadCount }
+  });
+});
+
+// @desc    Mark a notification as read
+// @route   PATCH /api/notifications/:id/read
+// @access  Private
+exports.markAsRead = asyncHandler(async (req, res) => {
+  const notification = await findOwnNotification(req);
+
+  if (!notification.isRead) {
+    notification.isRead = true;
+    notification.readAt = new Date();
+    await notification.save();
+    await emitUnreadCount(notification.userId);
+  }
+
+  res.json({
+    success: true,
+    data: notification
+  });
+});
+
+// @desc    Mark all notifications as read
+// @route   PATCH /api/notifications/read-all
+// @access  Private
+exports.markAllAsRead = asyncHandler(async (req, res) => {
+  const userId = currentUserId(req);
+  const updated = await Notification.markAllRead(userId);
+
+  if (updated > 0) {
+    await emitUnreadCount(userId);
+  }
+
+  res.json({
+    success: true,
+    message: `${updated} notification(s) marked as read`,
+    data: { updated }
+  });
+});
+
+// @desc    Delete a notification
+// @route   DELETE /api/notifications/:id
+// @access  Private
+exports.deleteNotification = asyncHandler(async (req, res) => {
+  const notification = await findOwnNotification(req);
+  const wasUnread = !notification.isRead;
+
+  await notification.deleteOne();
+
+  if (wasUnread) {
+    await emitUnreadCount(notification.userId);
+  }
+
+  res.json({
+    success: true,
+    message: 'Notification deleted'
+  });
+});
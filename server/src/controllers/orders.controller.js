@@ -1,18 +1,21 @@
 const Joi = require("joi");
 const Order = require("../models/Order");
-const StockLevel = require("../models/StockLevel");
-const mongoose = require("mongoose");
-const { adjustStock } = require("../services/stock.service");
+const {
+  findShortages,
+  placeOrder,
+  reviewOrder,
+  handOutOrder,
+  returnOrderParts,
+  closeOrder,
+  endOrder,
+  fulfillOrder: fulfillWholeOrder,
+  buildPickList,
+} = require("../services/order.service");
+const { generatePickList } = require("../utils/pickListGenerator");
 const asyncHandler = require("../utils/asyncHandler");
-const { NotFoundError, ValidationError, ForbiddenError, BadRequestError } = require("../utils/errors");
+const { ValidationError, BadRequestError } = require("../utils/errors");
 const logger = require("../utils/logger");
 
-let ioRef = null;
-
-function setIo(ioInstance) {
-  ioRef = ioInstance;
-}
-
 const createOrderSchema = Joi.object({
   projectId: Joi.string().optional(),
   items: Joi.array()
@@ -38,7 +41,13 @@ const listOrders = asyncHandler(async (req, res) => {
 
   logger.logDB('find', 'Order', { filter });
 
-  const orders = await Order.find(filter).populate("items.partId").lean();
+  const orders = await Order.find(filter)
+    .sort({ createdAt: -1 })
+    .populate("studentId", "name email")
+    .populate("items.partId")
+    .populate("items.substitutedFrom", "name sku")
+    .populate("history.by", "name")
+    .lean();
 
   logger.info(`Listed ${orders.length} orders for user ${req.user.id}`);
   res.json(orders);
@@ -56,166 +65,86 @@ const createOrder = asyncHandler(async (req, res) => {
   }
 
   // Verify availability for all requested items before proceeding
-  const partIds = value.items.map((i) => i.partId);
-
-  logger.logDB('find', 'StockLevel', { partIds });
-
-  const levels = await StockLevel.find({ partId: { $in: partIds } }).lean();
-  const idToLevel = new Map(levels.map((l) => [String(l.partId), l]));
-  const shortages = [];
-
-  for (const item of value.items) {
-    const lvl = idToLevel.get(String(item.partId));
-    const available = Math.max(lvl?.availableQty || 0, 0);
-    if (available < item.qty) {
-      shortages.push({ partId: item.partId, requested: item.qty, available });
-    }
-  }
+  const shortages = await findShortages(value.items);
 
   if (shortages.length) {
     logger.warn('Insufficient stock for order', { studentId: req.user.id, shortages });
     throw new BadRequestError('Insufficient stock for one or more items', 'INSUFFICIENT_STOCK');
   }
 
-  let session;
-  try {
-    // Try transactional path (requires Mongo replica set)
-    session = await mongoose.startSession();
-    await session.startTransaction();
-
-    logger.logDB('create', 'Order', { studentId: req.user.id, itemCount: value.items.length });
-
-    const order = await Order.create(
-      [
-        {
-          studentId: req.user.id,
-          projectId: value.projectId,
-          items: value.items,
-        },
-      ],
-      { session }
-    );
-
-    const created = order[0];
-
-    for (const item of created.items) {
-      await adjustStock({
-        partId: item.partId,
-        qtyChange: item.qty,
-        reason: "reserve",
-        orderId: created._id,
-        createdBy: req.user.id,
-      });
-    }
-
-    await session.commitTransaction();
-    session.endSession();
-
-    logger.info(`Created order ${created._id} by student ${req.user.id} (transactional)`);
-
-    if (ioRef) {
-      ioRef.to("admins").emit("order:new", { orderId: String(created._id) });
-    }
-    return res.status(201).json(created);
-  } catch (e) {
-    // If transactions are not supported (standalone Mongo), fall back to non-transaction flow
-    const msg = String(e?.message || "");
-    const isNoTxn =
-      msg.includes("Transaction numbers are only allowed") ||
-      msg.includes("replica set");
-
-    try {
-      if (session) {
-        try {
-          await session.abortTransaction();
-        } catch (abortErr) {
-          // Transaction already aborted or ended
-        }
-        session.endSession();
-      }
-    } catch (cleanupErr) {
-      // Cleanup errors are not critical
-    }
-
-    if (!isNoTxn) {
-      throw e;
-    }
-
-    logger.warn('Transactions not supported, using non-transactional order creation');
-
-    logger.logDB('create', 'Order', { studentId: req.user.id, itemCount: value.items.length });
-
-    const created = await Order.create({
-      studentId: req.user.id,
-      projectId: value.projectId,
-      items: value.items,
-    });
-
-    for (const item of created.items) {
-      await adjustStock({
-        partId: item.partId,
-        qtyChange: item.qty,
-        reason: "reserve",
-        orderId: created._id,
-        createdBy: req.user.id,
-      });
-    }
-
-    logger.info(`Created order ${created._id} by student ${req.user.id} (non-transactional)`);
-
-    if (ioRef) {
-      ioRef.to("admins").emit("order:new", { orderId: String(created._id) });
-    }
-    return res.status(201).json(created);
-  }
-});
+  const created = await placeOrder({
+    studentId: req.user.id,
+    projectId: value.projectId,
+    items: value.items,
+    createdBy: req.user.id,
+  });
 
-/**
- * Helper to set order status and adjust stock
- */
-const setStatus = asyncHandler(async (req, res, status, stockOps = []) => {
-  logger.logDB('findById', 'Order', { id: req.params.id });
+  res.status(201).json(created);
+});
 
-  const order = await Order.findById(req.params.id);
+const notesSchema = Joi.string().trim().max(500).allow("").optional();
+const lineIndexSchema = Joi.number().integer().min(0).required();
 
-  if (!order) {
-    throw new NotFoundError('Order');
-  }
+const reviewSchema = Joi.object({
+  lines: Joi.array()
+    .items(
+      Joi.object({
+        index: lineIndexSchema,
+        approvedQty: Joi.number().integer().min(0).required(),
+        backorderQty: Joi.number().integer().min(0).default(0),
+        substitutePartId: Joi.string().hex().length(24).optional(),
+        note: Joi.string().trim().max(200).allow("").optional(),
+      })
+    )
+    .unique("index")
+    .default([]),
+  notes: notesSchema,
+});
 
-  order.status = status;
-  await order.save();
-
-  for (const op of stockOps) {
-    for (const item of order.items) {
-      await adjustStock({
-        partId: item.partId,
-        qtyChange: op.qtyMultiplier * item.qty,
-        reason: op.reason,
-        orderId: order._id,
-        createdBy: req.user.id,
-      });
-    }
-  }
+const lineQtySchema = Joi.object({
+  lines: Joi.array()
+    .items(
+      Joi.object({
+        index: lineIndexSchema,
+        qty: Joi.number().integer().min(1).required(),
+      })
+    )
+    .unique("index")
+    .min(1)
+    .required(),
+  notes: notesSchema,
+});
 
-  logger.info(`Order ${order._id} status changed to ${status} by ${req.user.id}`);
+const pickListSchema = Joi.object({
+  orderIds: Joi.array().items(Joi.string().hex().length(24)).optional(),
+});
 
-  if (ioRef) {
-    ioRef.emit("order:update", {
-      orderId: String(order._id),
-      status: order.status,
-      studentId: String(order.studentId),
-    });
+function validate(schema, body) {
+  const { error, value } = schema.validate(body || {});
+  if (error) {
+    throw new ValidationError(error.message);
   }
+  return value;
+}
 
+/**
+ * Approve an order in full
+ * POST /api/orders/:id/approve
+ */
+const approveOrder = asyncHandler(async (req, res) => {
+  const order = await reviewOrder(req.params.id, [], req.user.id);
   res.json(order);
 });
 
 /**
- * Approve an order
- * POST /api/orders/:id/approve
+ * Decide each line of a pending order: approve part, backorder or substitute
+ * POST /api/orders/:id/review
  */
-const approveOrder = asyncHandler(async (req, res) => {
-  return setStatus(req, res, "approved");
+const reviewOrderLines = asyncHandler(async (req, res) => {
+  const value = validate(reviewSchema, req.body);
+
+  const order = await reviewOrder(req.params.id, value.lines, req.user.id, value.notes || undefined);
+  res.json(order);
 });
 
 /**
@@ -223,19 +152,50 @@ const approveOrder = asyncHandler(async (req, res) => {
  * POST /api/orders/:id/reject
  */
 const rejectOrder = asyncHandler(async (req, res) => {
-  return setStatus(req, res, "rejected", [
-    { reason: "release", qtyMultiplier: -1 },
-  ]);
+  const order = await endOrder(req.params.id, req.user, "reject");
+  res.json(order);
 });
 
 /**
- * Fulfill an order
+ * Hand out everything still outstanding on an order
  * POST /api/orders/:id/fulfill
  */
 const fulfillOrder = asyncHandler(async (req, res) => {
-  return setStatus(req, res, "fulfilled", [
-    { reason: "fulfill", qtyMultiplier: -1 },
-  ]);
+  const order = await fulfillWholeOrder(req.params.id, req.user.id);
+  res.json(order);
+});
+
+/**
+ * Hand out some of an order's lines
+ * POST /api/orders/:id/handouts
+ */
+const handOut = asyncHandler(async (req, res) => {
+  const value = validate(lineQtySchema, req.body);
+
+  const order = await handOutOrder(req.params.id, value.lines, req.user.id, value.notes || undefined);
+  res.json(order);
+});
+
+/**
+ * Return unused parts handed out on an order
+ * POST /api/orders/:id/returns
+ */
+const returnParts = asyncHandler(async (req, res) => {
+  const value = validate(lineQtySchema, req.body);
+
+  const order = await returnOrderParts(req.params.id, value.lines, req.user, value.notes || undefined);
+  res.json(order);
+});
+
+/**
+ * Close a partly handed out order, releasing the rest
+ * POST /api/orders/:id/close
+ */
+const closeOrderLines = asyncHandler(async (req, res) => {
+  const value = validate(Joi.object({ notes: notesSchema }), req.body);
+
+  const order = await closeOrder(req.params.id, req.user.id, value.notes || undefined);
+  res.json(order);
 });
 
 /**
@@ -243,53 +203,40 @@ const fulfillOrder = asyncHandler(async (req, res) => {
  * POST /api/orders/:id/cancel
  */
 const cancelOrder = asyncHandler(async (req, res) => {
-  logger.logDB('findById', 'Order', { id: req.params.id });
-
-  const order = await Order.findById(req.params.id);
+  const order = await endOrder(req.params.id, req.user, "cancel");
+  res.json(order);
+});
 
-  if (!order) {
-    throw new NotFoundError('Order');
-  }
+/**
+ * Download a pick list for orders with parts to hand out
+ * POST /api/orders/pick-list
+ */
+const printPickList = asyncHandler(async (req, res) => {
+  const value = validate(pickListSchema, req.body);
 
-  if (
-    String(order.studentId) !== req.user.id &&
-    !(req.user.role === "admin" || req.user.role === "superadmin")
-  ) {
-    throw new ForbiddenError('You do not have permission to cancel this order');
-  }
+  const orders = await buildPickList(value.orderIds);
 
-  order.status = "cancelled";
-  await order.save();
-
-  for (const item of order.items) {
-    await adjustStock({
-      partId: item.partId,
-      qtyChange: -item.qty,
-      reason: "cancel",
-      orderId: order._id,
-      createdBy: req.user.id,
-    });
+  if (orders.length === 0) {
+    throw new BadRequestError("No approved orders with parts to hand out", "NOTHING_TO_PICK");
   }
 
-  logger.info(`Order ${order._id} cancelled by ${req.user.id}`);
-
-  if (ioRef) {
-    ioRef.to("admins").emit("order:update", {
-      orderId: String(order._id),
-      status: order.status,
-      studentId: String(order.studentId),
-    });
-  }
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', 'attachment; filename="pick-list.pdf"');
+  await generatePickList(orders, res);
 
-  res.json(order);
+  logger.info(`Printed pick list for ${orders.length} orders`);
 });
 
 module.exports = {
-  setIo,
   listOrders,
   createOrder,
   approveOrder,
+  reviewOrderLines,
   rejectOrder,
   fulfillOrder,
+  handOut,
+  returnParts,
+  closeOrderLines,
   cancelOrder,
+  printPickList,
 };
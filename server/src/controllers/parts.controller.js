@@ -1,9 +1,17 @@
+const path = require("path");
 const Joi = require("joi");
+const multer = require("multer");
 const Part = require("../models/Part");
 const StockLevel = require("../models/StockLevel");
 const Image = require("../models/Image");
+const { stockFigures } = require("../services/stock.service");
+const { buildLabels, findPartsByScanCode } = require("../services/label.service");
+const { PART_COLUMNS, buildPartsExport, previewPartImport, applyPartImport } = require("../services/partImport.service");
+const { LABEL_FORMATS, generateLabelSheet } = require("../utils/labelGenerator");
+const { EXPORT_FORMATS, sendReport } = require("../utils/reportExport");
+const { IMPORT_EXTENSIONS, readSheet } = require("../utils/sheetImport");
 const asyncHandler = require("../utils/asyncHandler");
-const { NotFoundError, ValidationError } = require("../utils/errors");
+const { NotFoundError, ValidationError, BadRequestError } = require("../utils/errors");
 const logger = require("../utils/logger");
 
 /**
@@ -35,8 +43,7 @@ const listParts = asyncHandler(async (req, res) => {
 
   const enrichedParts = parts.map((p) => ({
     ...p,
-    availableQty: map.get(String(p._id))?.availableQty || 0,
-    reservedQty: map.get(String(p._id))?.reservedQty || 0,
+    ...stockFigures(map.get(String(p._id))),
     imageUrl: latestImageByPart.get(String(p._id))
       ? `/uploads/${latestImageByPart.get(String(p._id)).filename}`
       : undefined,
@@ -57,6 +64,12 @@ const upsertSchema = Joi.object({
     then: Joi.string().required(),
     otherwise: Joi.string().allow('').optional(),
   }),
+  reorderPoint: Joi.number().integer().min(0).optional(),
+  reorderQty: Joi.number().integer().min(0).optional(),
+  supplierId: Joi.string().hex().length(24).allow(null).optional(),
+  leadTimeDays: Joi.number().integer().min(0).allow(null).optional(),
+  loanable: Joi.boolean().optional(),
+  serialNumbers: Joi.array().items(Joi.string().trim().min(1)).unique().optional(),
 });
 
 /**
@@ -89,6 +102,12 @@ const updateSchema = Joi.object({
     then: Joi.string().required(),
     otherwise: Joi.string().allow('').optional(),
   }),
+  reorderPoint: Joi.number().integer().min(0).optional(),
+  reorderQty: Joi.number().integer().min(0).optional(),
+  supplierId: Joi.string().hex().length(24).allow(null).optional(),
+  leadTimeDays: Joi.number().integer().min(0).allow(null).optional(),
+  loanable: Joi.boolean().optional(),
+  serialNumbers: Joi.array().items(Joi.string().trim().min(1)).unique().optional(),
 });
 
 /**
@@ -139,8 +158,7 @@ const getPartById = asyncHandler(async (req, res) => {
 
   const enrichedPart = {
     ...part,
-    availableQty: stockLevel?.availableQty || 0,
-    reservedQty: stockLevel?.reservedQty || 0,
+    ...stockFigures(stockLevel),
     imageUrl: image ? `/uploads/${image.filename}` : undefined,
   };
 
@@ -168,8 +186,160 @@ const deletePart = asyncHandler(async (req, res) => {
   res.json({ success: true, message: 'Part deleted successfully' });
 });
 
+const scanQuerySchema = Joi.object({
+  code: Joi.string().trim().max(200).required(),
+});
+
+/**
+ * Find the parts a scanned label or barcode refers to
+ * GET /api/parts/scan?code=
+ */
+const scanPart = asyncHandler(async (req, res) => {
+  const { error, value } = scanQuerySchema.validate(req.query);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('findByScanCode', 'Part', { code: value.code });
+
+  const parts = await findPartsByScanCode(value.code);
+
+  logger.info(`Scan "${value.code}" matched ${parts.length} parts`);
+  res.json({ code: value.code, parts });
+});
+
+const labelsSchema = Joi.object({
+  scope: Joi.string().valid("part", "bin").required(),
+  format: Joi.string().valid(...LABEL_FORMATS).default("qr"),
+  partIds: Joi.array().items(Joi.string().hex().length(24)).when("scope", {
+    is: "part",
+    then: Joi.array().min(1).required(),
+    otherwise: Joi.forbidden(),
+  }),
+  skus: Joi.array().items(Joi.string().trim().min(1)).when("scope", {
+    is: "bin",
+    then: Joi.array().min(1).required(),
+    otherwise: Joi.forbidden(),
+  }),
+});
+
+/**
+ * Download a printable label sheet for parts or bins
+ * POST /api/parts/labels
+ */
+const printLabels = asyncHandler(async (req, res) => {
+  const { error, value } = labelsSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('buildLabels', 'Part', { scope: value.scope });
+
+  const labels = await buildLabels(value);
+
+  if (labels.length === 0) {
+    throw new BadRequestError(`No ${value.scope === 'part' ? 'parts' : 'bins'} found to label`, 'NO_LABELS');
+  }
+
+  res.setHeader('Content-Type', 'application/pdf');
+  res.setHeader('Content-Disposition', `attachment; filename="${value.scope}-labels.pdf"`);
+  await generateLabelSheet(labels, value.format, res);
+
+  logger.info(`Printed ${labels.length} ${value.scope} labels (${value.format})`);
+});
+
+// Import sheets are parsed straight from memory
+const sheetUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    if (IMPORT_EXTENSIONS.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new BadRequestError(`Unsupported file type. Use one of: ${IMPORT_EXTENSIONS.join(', ')}`, 'INVALID_SHEET'), false);
+    }
+  },
+  limits: { fileSize: 5 * 1024 * 1024, files: 1 },
+});
+
+const exportQuerySchema = Joi.object({
+  format: Joi.string().valid(...EXPORT_FORMATS).default("xlsx"),
+});
+
+/**
+ * Download the parts catalog with stock counts as CSV or XLSX
+ * GET /api/parts/export?format=
+ */
+const exportParts = asyncHandler(async (req, res) => {
+  const { error, value } = exportQuerySchema.validate(req.query);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('export', 'Part', { format: value.format });
+
+  const rows = await buildPartsExport();
+
+  await sendReport(res, {
+    format: value.format,
+    filename: `parts-${new Date().toISOString().slice(0, 10)}`,
+    sheetName: 'Parts',
+    columns: PART_COLUMNS,
+    rows,
+  });
+
+  logger.info(`Exported ${rows.length} parts (${value.format})`);
+});
+
+const importSchema = Joi.object({
+  dryRun: Joi.boolean().default(true),
+});
+
+/**
+ * Import parts and stock counts from a CSV or XLSX sheet. A dry run
+ * (the default) only previews what would change; a real run applies it
+ * when no row has errors.
+ * POST /api/parts/import
+ */
+const importParts = asyncHandler(async (req, res) => {
+  const { error, value } = importSchema.validate(req.body || {});
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+  if (!req.file) {
+    throw new BadRequestError('Attach a CSV or XLSX file', 'NO_FILE');
+  }
+
+  const { rows } = await readSheet(req.file);
+  if (rows.length === 0) {
+    throw new BadRequestError('The sheet has no rows to import', 'EMPTY_SHEET');
+  }
+
+  logger.logDB('import', 'Part', { rows: rows.length, dryRun: value.dryRun });
+
+  const preview = await previewPartImport(rows);
+
+  if (!value.dryRun) {
+    if (preview.summary.error > 0) {
+      throw new BadRequestError(`${preview.summary.error} rows have errors; fix them before importing`, 'IMPORT_HAS_ERRORS');
+    }
+    await applyPartImport(preview.rows, req.user._id);
+  }
+
+  res.json({ dryRun: value.dryRun, ...preview });
+});
+
 module.exports = {
+  sheetUpload,
   listParts,
+  scanPart,
+  printLabels,
+  exportParts,
+  importParts,
   getPartById,
   createPart,
   updatePart,
@@ -1,7 +1,9 @@
 const Joi = require("joi");
 const Project = require("../models/Project");
+const { getProjectBom: buildProjectBom } = require("../services/projectBom.service");
+const { findShortages, placeOrder } = require("../services/order.service");
 const asyncHandler = require("../utils/asyncHandler");
-const { NotFoundError, ValidationError } = require("../utils/errors");
+const { NotFoundError, ValidationError, BadRequestError } = require("../utils/errors");
 const logger = require("../utils/logger");
 
 /**
@@ -144,4 +146,100 @@ const updateProjectParts = asyncHandler(async (req, res) => {
   res.json(project);
 });
 
-module.exports = { listProjects, createProject, updateProject, deleteProject, updateProjectParts };
+/**
+ * A project the user may see: their own, or any for admins
+ */
+const findVisibleProject = (req) => {
+  const isAdmin = req.user.role === "admin" || req.user.role === "superadmin";
+  return Project.findOne(isAdmin ? { _id: req.params.id } : { _id: req.params.id, ownerId: req.user.id });
+};
+
+/**
+ * Project bill of materials: required vs ordered quantities and cost
+ * GET /api/projects/:id/bom
+ */
+const getProjectBom = asyncHandler(async (req, res) => {
+  logger.logDB('findOne', 'Project', { id: req.params.id });
+
+  const project = await findVisibleProject(req);
+
+  if (!project) {
+    throw new NotFoundError('Project');
+  }
+
+  const bom = await buildProjectBom(project);
+
+  res.json({ projectId: project._id, title: project.title, ...bom });
+});
+
+const bomOrderSchema = Joi.object({
+  // Order what stock allows instead of refusing when some parts run short
+  partial: Joi.boolean().default(false),
+});
+
+/**
+ * Order the parts a project is still short of, for the project's owner
+ * POST /api/projects/:id/bom/order
+ */
+const createBomOrder = asyncHandler(async (req, res) => {
+  const { error, value } = bomOrderSchema.validate(req.body || {});
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('findOne', 'Project', { id: req.params.id });
+
+  const project = await findVisibleProject(req);
+
+  if (!project) {
+    throw new NotFoundError('Project');
+  }
+
+  const { lines } = await buildProjectBom(project);
+  const short = lines.filter((line) => line.shortfallQty > 0 && !line.missing);
+
+  if (short.length === 0) {
+    throw new BadRequestError('Every part of this project is already ordered', 'NOTHING_TO_ORDER');
+  }
+
+  const unavailable = short.filter((line) => line.orderableQty < line.shortfallQty);
+  if (unavailable.length && !value.partial) {
+    const names = unavailable.map((line) => `${line.name} (${line.availableQty} of ${line.shortfallQty})`).join(", ");
+    throw new BadRequestError(`Not enough stock for: ${names}`, 'INSUFFICIENT_STOCK');
+  }
+
+  const items = short
+    .filter((line) => line.orderableQty > 0)
+    .map((line) => ({ partId: line.partId, qty: line.orderableQty }));
+
+  if (items.length === 0) {
+    throw new BadRequestError('None of the missing parts are in stock', 'INSUFFICIENT_STOCK');
+  }
+
+  // Stock may have moved since the BOM was read
+  const shortages = await findShortages(items);
+  if (shortages.length) {
+    throw new BadRequestError('Stock changed while ordering; refresh and try again', 'INSUFFICIENT_STOCK');
+  }
+
+  const order = await placeOrder({
+    studentId: project.ownerId,
+    projectId: project._id,
+    items,
+    createdBy: req.user.id,
+  });
+
+  logger.info(`Ordered ${items.length} BOM lines for project ${project.title} (${project._id})`);
+  res.status(201).json(order);
+});
+
+module.exports = {
+  listProjects,
+  createProject,
+  updateProject,
+  deleteProject,
+  updateProjectParts,
+  getProjectBom,
+  createBomOrder,
+};
@@ -0,0 +1,408 @@
+const Joi = require("joi");
+const PurchaseOrder = require("../models/PurchaseOrder");
+const PurchaseRequisition = require("../models/PurchaseRequisition");
+const Supplier = require("../models/Supplier");
+const Part = require("../models/Part");
+const { adjustStock } = require("../services/stock.service");
+const asyncHandler = require("../utils/asyncHandler");
+const { NotFoundError, ValidationError, BadRequestError, ConflictError } = require("../utils/errors");
+const logger = require("../utils/logger");
+
+// Statuses an order may be moved to by hand from each status; the
+// received statuses are only reached by receiving deliveries
+const TRANSITIONS = {
+  draft: ["ordered", "cancelled"],
+  ordered: ["cancelled"],
+  partially_received: ["cancelled"],
+  received: [],
+  cancelled: [],
+};
+
+const objectId = Joi.string().hex().length(24);
+
+const lineSchema = Joi.object({
+  partId: objectId.required(),
+  qty: Joi.number().integer().min(1).required(),
+  unitCost: Joi.number().min(0).required(),
+  requisitionId: objectId.allow(null).optional(),
+});
+
+const orderSchema = Joi.object({
+  supplierId: objectId.required(),
+  lines: Joi.array().items(lineSchema).min(1).required(),
+  expectedAt: Joi.date().allow(null).optional(),
+  notes: Joi.string().allow("").optional(),
+});
+
+const listQuerySchema = Joi.object({
+  status: Joi.string().valid(...PurchaseOrder.STATUSES).optional(),
+  supplierId: objectId.optional(),
+});
+
+const statusSchema = Joi.object({
+  status: Joi.string().valid("ordered", "cancelled").required(),
+});
+
+const receiveSchema = Joi.object({
+  lines: Joi.array()
+    .items(Joi.object({
+      lineId: objectId.required(),
+      qty: Joi.number().integer().min(1).required(),
+    }))
+    .min(1)
+    .unique("lineId")
+    .required(),
+  notes: Joi.string().allow("").optional(),
+});
+
+const populateOrder = (query) =>
+  query
+    .populate("supplierId", "name email phone")
+    .populate("lines.partId", "name sku")
+    .populate("createdBy", "name");
+
+/**
+ * Check an order's supplier, parts and requisitions before saving it
+ * @param {Object} value - Validated order body
+ * @param {string|null} orderId - Order being updated, if any
+ */
+async function validateOrderRefs(value, orderId = null) {
+  const supplier = await Supplier.findById(value.supplierId).lean();
+  if (!supplier) {
+    throw new NotFoundError('Supplier');
+  }
+  if (!supplier.isActive) {
+    throw new BadRequestError(`${supplier.name} is inactive`, "SUPPLIER_INACTIVE");
+  }
+
+  const partIds = [...new Set(value.lines.map((l) => l.partId))];
+  if (await Part.countDocuments({ _id: { $in: partIds } }) !== partIds.length) {
+    throw new NotFoundError('Part');
+  }
+
+  const requisitionIds = value.lines.map((l) => l.requisitionId).filter(Boolean);
+  if (requisitionIds.length) {
+    const requisitions = await PurchaseRequisition.find({ _id: { $in: requisitionIds } }).lean();
+    const byId = new Map(requisitions.map((r) => [String(r._id), r]));
+
+    for (const line of value.lines.filter((l) => l.requisitionId)) {
+      const requisition = byId.get(line.requisitionId);
+      if (!requisition || String(requisition.partId) !== line.partId) {
+        throw new BadRequestError('A line refers to a requisition for another part', "REQUISITION_MISMATCH");
+      }
+      const onOtherOrder = requisition.purchaseOrderId && String(requisition.purchaseOrderId) !== String(orderId);
+      if (requisition.status !== "requested" || onOtherOrder) {
+        throw new BadRequestError(
+          `The requisition for ${line.qty} units is already ${onOtherOrder ? "on another order" : requisition.status}`,
+          "REQUISITION_NOT_OPEN"
+        );
+      }
+    }
+  }
+}
+
+/**
+ * Point requisitions at the order that now carries them, and release
+ * the ones it no longer carries
+ */
+async function linkRequisitions(order) {
+  const linked = order.lines.map((l) => l.requisitionId).filter(Boolean);
+
+  await PurchaseRequisition.updateMany(
+    { purchaseOrderId: order._id, _id: { $nin: linked } },
+    { $set: { purchaseOrderId: null } }
+  );
+  if (linked.length) {
+    await PurchaseRequisition.updateMany(
+      { _id: { $in: linked } },
+      { $set: { purchaseOrderId: order._id, supplierId: order.supplierId } }
+    );
+  }
+}
+
+/**
+ * List purchase orders
+ * GET /api/purchase-orders
+ */
+const listPurchaseOrders = asyncHandler(async (req, res) => {
+  const { error, value } = listQuerySchema.validate(req.query);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('find', 'PurchaseOrder', value);
+
+  const orders = await populateOrder(PurchaseOrder.find(value).sort({ createdAt: -1 }));
+
+  logger.info(`Listed ${orders.length} purchase orders`);
+  res.json(orders);
+});
+
+/**
+ * Get a purchase order
+ * GET /api/purchase-orders/:id
+ */
+const getPurchaseOrder = asyncHandler(async (req, res) => {
+  logger.logDB('findById', 'PurchaseOrder', { id: req.params.id });
+
+  const order = await populateOrder(PurchaseOrder.findById(req.params.id));
+
+  if (!order) {
+    throw new NotFoundError('Purchase order');
+  }
+
+  res.json(order);
+});
+
+/**
+ * Create a draft purchase order, optionally from requisitions
+ * POST /api/purchase-orders
+ */
+const createPurchaseOrder = asyncHandler(async (req, res) => {
+  const { error, value } = orderSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  await validateOrderRefs(value);
+
+  logger.logDB('create', 'PurchaseOrder', { supplierId: value.supplierId, lineCount: value.lines.length });
+
+  const order = await PurchaseOrder.create({
+    ...value,
+    orderNumber: await PurchaseOrder.generateOrderNumber(),
+    createdBy: req.user.id,
+  });
+  await linkRequisitions(order);
+
+  logger.info(`Created purchase order ${order.orderNumber} by ${req.user.id}`);
+  res.status(201).json(await populateOrder(PurchaseOrder.findById(order._id)));
+});
+
+/**
+ * Update a draft purchase order
+ * PUT /api/purchase-orders/:id
+ */
+const updatePurchaseOrder = asyncHandler(async (req, res) => {
+  const { error, value } = orderSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('findById', 'PurchaseOrder', { id: req.params.id });
+
+  const order = await PurchaseOrder.findById(req.params.id);
+
+  if (!order) {
+    throw new NotFoundError('Purchase order');
+  }
+
+  if (order.status !== "draft") {
+    throw new BadRequestError('Only draft orders can be edited', "PURCHASE_ORDER_NOT_DRAFT");
+  }
+
+  await validateOrderRefs(value, order._id);
+
+  order.set({ expectedAt: null, notes: "", ...value });
+  await order.save();
+  await linkRequisitions(order);
+
+  logger.info(`Updated purchase order ${order.orderNumber} by ${req.user.id}`);
+  res.json(await populateOrder(PurchaseOrder.findById(order._id)));
+});
+
+/**
+ * Place or cancel a purchase order
+ * Cancelling releases its open requisitions so they can be ordered again
+ * PATCH /api/purchase-orders/:id/status
+ */
+const updatePurchaseOrderStatus = asyncHandler(async (req, res) => {
+  const { error, value } = statusSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('findById', 'PurchaseOrder', { id: req.params.id });
+
+  const order = await PurchaseOrder.findById(req.params.id);
+
+  if (!order) {
+    throw new NotFoundError('Purchase order');
+  }
+
+  if (!TRANSITIONS[order.status].includes(value.status)) {
+    throw new BadRequestError(
+      `Cannot mark a ${order.status.replace("_", " ")} order as ${value.status}`,
+      "INVALID_PURCHASE_ORDER_STATUS"
+    );
+  }
+
+  const now = new Date();
+  order.status = value.status;
+
+  if (value.status === "ordered") {
+    order.orderedAt = now;
+    await PurchaseRequisition.updateMany(
+      { purchaseOrderId: order._id, status: "requested" },
+      { $set: { status: "ordered", orderedAt: now } }
+    );
+  } else {
+    order.cancelledAt = now;
+    await PurchaseRequisition.updateMany(
+      { purchaseOrderId: order._id, status: { $in: PurchaseRequisition.OPEN_STATUSES } },
+      { $set: { status: "requested", purchaseOrderId: null }, $unset: { orderedAt: 1 } }
+    );
+  }
+  await order.save();
+
+  logger.info(`Purchase order ${order.orderNumber} marked ${value.status} by ${req.user.id}`);
+  res.json(await populateOrder(PurchaseOrder.findById(order._id)));
+});
+
+/**
+ * Receive a delivery against a purchase order
+ * Each received line books a purchase at the line's unit cost
+ * POST /api/purchase-orders/:id/receive
+ */
+const receivePurchaseOrder = asyncHandler(async (req, res) => {
+  const { error, value } = receiveSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('findById', 'PurchaseOrder', { id: req.params.id });
+
+  const order = await PurchaseOrder.findById(req.params.id).populate("supplierId", "name");
+
+  if (!order) {
+    throw new NotFoundError('Purchase order');
+  }
+
+  if (!PurchaseOrder.RECEIVABLE_STATUSES.includes(order.status)) {
+    throw new BadRequestError(
+      `Cannot receive against a ${order.status} order`,
+      "INVALID_PURCHASE_ORDER_STATUS"
+    );
+  }
+
+  // Validate every line before booking anything
+  const receipts = value.lines.map(({ lineId, qty }) => {
+    const line = order.lines.id(lineId);
+    if (!line) {
+      throw new NotFoundError('Purchase order line');
+    }
+    const outstanding = line.qty - line.receivedQty;
+    if (qty > outstanding) {
+      throw new BadRequestError(
+        `Only ${outstanding} still to receive on one of the lines`,
+        "RECEIVE_EXCEEDS_OUTSTANDING"
+      );
+    }
+    return { line, qty };
+  });
+
+  // Claim the quantities in one guarded update, so a delivery received
+  // concurrently can't push a line past its ordered quantity
+  const claimed = await PurchaseOrder.updateOne(
+    {
+      _id: order._id,
+      status: { $in: PurchaseOrder.RECEIVABLE_STATUSES },
+      $and: receipts.map(({ line, qty }) => ({
+        lines: { $elemMatch: { _id: line._id, receivedQty: { $lte: line.qty - qty } } },
+      })),
+    },
+    {
+      $inc: Object.fromEntries(
+        receipts.map(({ qty }, i) => [`lines.$[l${i}].receivedQty`, qty])
+      ),
+    },
+    { arrayFilters: receipts.map(({ line }, i) => ({ [`l${i}._id`]: line._id })) }
+  );
+
+  if (!claimed.modifiedCount) {
+    throw new ConflictError(
+      "This order changed while receiving; reload it and try again",
+      "PURCHASE_ORDER_CHANGED"
+    );
+  }
+
+  const notes = [order.orderNumber, order.supplierId?.name, value.notes].filter(Boolean).join(" - ");
+
+  let booked = 0;
+  try {
+    for (const { line, qty } of receipts) {
+      await adjustStock({
+        partId: line.partId,
+        qtyChange: qty,
+        reason: "purchase",
+        unitCost: line.unitCost,
+        purchaseOrderId: order._id,
+        createdBy: req.user.id,
+        notes,
+      });
+      booked += 1;
+
+      if (line.requisitionId) {
+        await PurchaseRequisition.updateOne({ _id: line.requisitionId }, [
+          { $set: { receivedQty: { $add: ["$receivedQty", qty] } } },
+          {
+            $set: {
+              status: { $cond: [{ $gte: ["$receivedQty", "$qty"] }, "received", "$status"] },
+              receivedAt: {
+                $cond: [{ $gte: ["$receivedQty", "$qty"] }, { $ifNull: ["$receivedAt", "$$NOW"] }, "$receivedAt"],
+              },
+            },
+          },
+        ]);
+      }
+    }
+  } catch (err) {
+    // Hand back the quantities whose stock was never booked
+    const unbooked = receipts.slice(booked);
+    if (unbooked.length) {
+      await PurchaseOrder.updateOne(
+        { _id: order._id },
+        {
+          $inc: Object.fromEntries(
+            unbooked.map(({ qty }, i) => [`lines.$[l${i}].receivedQty`, -qty])
+          ),
+        },
+        { arrayFilters: unbooked.map(({ line }, i) => ({ [`l${i}._id`]: line._id })) }
+      );
+    }
+    throw err;
+  }
+
+  // Derive the status from the stored lines rather than this request's copy
+  const allReceived = {
+    $allElementsTrue: [{ $map: { input: "$lines", as: "line", in: { $gte: ["$$line.receivedQty", "$$line.qty"] } } }],
+  };
+  await PurchaseOrder.updateOne(
+    { _id: order._id, status: { $in: PurchaseOrder.RECEIVABLE_STATUSES } },
+    [
+      {
+        $set: {
+          status: { $cond: [allReceived, "received", "partially_received"] },
+          receivedAt: { $cond: [allReceived, "$$NOW", "$receivedAt"] },
+        },
+      },
+    ]
+  );
+
+  logger.info(`Received ${receipts.length} line(s) on purchase order ${order.orderNumber} by ${req.user.id}`);
+  res.json(await populateOrder(PurchaseOrder.findById(order._id)));
+});
+
+module.exports = {
+  listPurchaseOrders,
+  getPurchaseOrder,
+  createPurchaseOrder,
+  updatePurchaseOrder,
+  updatePurchaseOrderStatus,
+  receivePurchaseOrder,
+};
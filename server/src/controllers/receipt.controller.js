@@ -2,13 +2,15 @@
  * Receipt Controller
  *
  * Handles receipt generation, retrieval, and download
+ * (including credit notes issued for refunds and voids)
  */
 
 const Receipt = require('../models/Receipt');
+const CreditNote = require('../models/CreditNote');
 const Enrollment = require('../models/Enrollment');
 const User = require('../models/User');
 const Course = require('../models/Course');
-const { generateReceipt } = require('../utils/receiptGenerator');
+const { issueReceipt, getDownloadUrl } = require('../services/receipt.service');
 const path = require('path');
 const fs = require('fs');
 
@@ -41,67 +43,13 @@ const createReceipt = async (req, res) => {
       });
     }
 
-    // Generate unique receipt number
-    const receiptNumber = await Receipt.generateReceiptNumber();
-
-    // Calculate billing info (payment should already be recorded in enrollment)
-    const billing = {
-      totalAmount: enrollment.payment.totalAmount,
-      paidBefore: enrollment.payment.paidAmount - paymentAmount,
-      paidNow: paymentAmount,
-      remainingBalance: enrollment.payment.remainingAmount
-    };
-
-    // Prepare receipt data
-    const receiptData = {
-      receiptNumber,
-      student: {
-        name: enrollment.student.name,
-        email: enrollment.student.email
-      },
-      course: {
-        title: enrollment.course.title
-      },
-      payment: {
-        amount: paymentAmount,
-        method: paymentMethod || 'cash',
-        date: new Date(),
-        notes: paymentNotes || ''
-      },
-      billing,
-      issuedBy: {
-        name: req.user.name
-      }
-    };
-
-    // Generate PDF
-    const fileName = `${receiptNumber}.pdf`;
-    const uploadsDir = path.join(__dirname, '../../uploads/receipts');
-
-    // Ensure uploads directory exists
-    if (!fs.existsSync(uploadsDir)) {
-      fs.mkdirSync(uploadsDir, { recursive: true });
-    }
-
-    const pdfPath = path.join(uploadsDir, fileName);
-
-    await generateReceipt(receiptData, pdfPath);
-
-    // Save receipt to database
-    const receipt = await Receipt.create({
-      receiptNumber,
-      enrollment: enrollmentId,
-      student: enrollment.student._id,
-      course: enrollment.course._id,
-      payment: {
-        amount: paymentAmount,
-        method: paymentMethod || 'cash',
-        date: new Date(),
-        notes: paymentNotes || ''
-      },
-      billing,
-      pdfPath: `uploads/receipts/${fileName}`,
-      issuedBy: req.user.id
+    // Payment should already be recorded in the enrollment
+    const receipt = await issueReceipt({
+      enrollment,
+      amount: paymentAmount,
+      method: paymentMethod || 'cash',
+      notes: paymentNotes || '',
+      issuedBy: { id: req.user.id, name: req.user.name }
     });
 
     res.status(201).json({
@@ -110,7 +58,7 @@ const createReceipt = async (req, res) => {
       data: {
         receiptId: receipt._id,
         receiptNumber: receipt.receiptNumber,
-        downloadUrl: `/api/reception/receipts/${receipt._id}/download`
+        downloadUrl: getDownloadUrl(receipt)
       }
     });
 
@@ -232,9 +180,50 @@ const getEnrollmentReceipts = async (req, res) => {
   }
 };
 
+/**
+ * @desc    Download credit note PDF
+ * @route   GET /api/reception/credit-notes/:id/download
+ * @access  Private/Reception
+ */
+const downloadCreditNote = async (req, res) => {
+  try {
+    const creditNote = await CreditNote.findById(req.params.id);
+
+    if (!creditNote) {
+      return res.status(404).json({
+        success: false,
+        message: 'Credit note not found'
+      });
+    }
+
+    const pdfPath = path.join(__dirname, '../..', creditNote.pdfPath);
+
+    if (!fs.existsSync(pdfPath)) {
+      return res.status(404).json({
+        success: false,
+        message: 'PDF file not found'
+      });
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${creditNote.creditNoteNumber}.pdf"`);
+
+    fs.createReadStream(pdfPath).pipe(res);
+
+  } catch (error) {
+    console.error('Error downloading credit note:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error downloading credit note',
+      error: error.message
+    });
+  }
+};
+
 module.exports = {
   createReceipt,
   getReceipt,
   downloadReceipt,
-  getEnrollmentReceipts
+  getEnrollmentReceipts,
+  downloadCreditNote
 };
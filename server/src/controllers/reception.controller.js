@@ -30,6 +30,32 @@ const getDashboardStats = async (req, res) => {
     // Get active groups count
     const activeGroups = await Group.countDocuments({ status: 'active' });
 
+    // Get unpaid installments past their due date
+    const [overdue] = await Enrollment.aggregate([
+      { $match: { status: 'active' } },
+      { $unwind: '$payment.installments' },
+      {
+        $match: {
+          'payment.installments.status': { $ne: 'paid' },
+          'payment.installments.dueDate': { $lt: new Date() }
+        }
+      },
+      {
+        $group: {
+          _id: null,
+          count: { $sum: 1 },
+          amount: {
+            $sum: {
+              $subtract: [
+                '$payment.installments.amount',
+                { $ifNull: ['$payment.installments.paidAmount', 0] }
+              ]
+            }
+          }
+        }
+      }
+    ]);
+
     res.status(200).json({
       success: true,
       data: {
@@ -37,7 +63,9 @@ const getDashboardStats = async (req, res) => {
         totalTrainers,
         totalEnrollments,
         recentEnrollments,
-        activeGroups
+        activeGroups,
+        overdueInstallments: overdue ? overdue.count : 0,
+        overdueAmount: overdue ? Math.round(overdue.amount * 100) / 100 : 0
       }
     });
   } catch (error) {
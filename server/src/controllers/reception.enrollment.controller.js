@@ -6,13 +6,17 @@
  * - View all enrollments with filters
  * - Update enrollment status
  * - Set up payment plans with installments
+ * - Allocate payments to installments and list overdue ones
  */
 
+const Joi = require('joi');
 const Enrollment = require('../models/Enrollment');
 const Course = require('../models/Course');
 const User = require('../models/User');
 const Group = require('../models/Group');
 const Payment = require('../models/Payment');
+const { issueReceipt, getDownloadUrl } = require('../services/receipt.service');
+const { emitPaymentUpdate } = require('../services/realtime.service');
 
 /**
  * @desc    Get all enrollments with filters
@@ -110,31 +114,41 @@ const createEnrollment = async (req, res) => {
       });
     }
 
-    // Create installment schedule
-    const installments = [];
-    if (installmentPlan && installmentPlan.numberOfInstallments > 0) {
-      const installmentAmount = totalAmount / installmentPlan.numberOfInstallments;
-      const startDate = installmentPlan.startDate ? new Date(installmentPlan.startDate) : new Date();
-
-      for (let i = 0; i < installmentPlan.numberOfInstallments; i++) {
-        const dueDate = new Date(startDate);
-        dueDate.setMonth(dueDate.getMonth() + i);
-
-        installments.push({
-          amount: Math.round(installmentAmount * 100) / 100, // Round to 2 decimals
-          dueDate,
-          status: 'pending'
-        });
-      }
-    } else {
-      // Single payment
-      installments.push({
-        amount: totalAmount,
-        dueDate: new Date(),
-        status: 'pending'
+    // Validate payment plan
+    const plan = installmentPlan || {};
+    const downPayment = parseFloat(plan.downPayment) || 0;
+    const numberOfInstallments = parseInt(plan.numberOfInstallments, 10) || 1;
+    const intervalMonths = parseInt(plan.intervalMonths, 10) || 1;
+
+    if (downPayment < 0 || downPayment > totalAmount) {
+      return res.status(400).json({
+        success: false,
+        message: 'Down payment must be between 0 and the total amount'
       });
     }
 
+    if (numberOfInstallments < 1 || numberOfInstallments > 24) {
+      return res.status(400).json({
+        success: false,
+        message: 'Number of installments must be between 1 and 24'
+      });
+    }
+
+    if (intervalMonths < 1 || intervalMonths > 12) {
+      return res.status(400).json({
+        success: false,
+        message: 'Installment interval must be between 1 and 12 months'
+      });
+    }
+
+    // Create installment schedule
+    const installments = Enrollment.buildInstallmentSchedule(totalAmount, {
+      downPayment,
+      numberOfInstallments,
+      intervalMonths,
+      startDate: plan.startDate
+    });
+
     // Create enrollment
     const enrollment = await Enrollment.create({
       student: studentId,
@@ -244,9 +258,42 @@ const recordPayment = async (req, res) => {
       });
     }
 
-    const enrollment = await Enrollment.findById(id)
-      .populate('student', 'name email')
-      .populate('course', 'title price');
+    const paidAt = new Date();
+    // Ledger entry, so the payment can later be refunded or voided;
+    // saved once the enrollment took it
+    const payment = new Payment({
+      enrollment: id,
+      amount: parseFloat(amount),
+      paymentMethod: paymentMethod || 'cash',
+      status: 'completed',
+      paidAt,
+      notes: notes || '',
+      processedBy: req.user.id
+    });
+    await payment.validate(['amount', 'paymentMethod', 'notes']);
+
+    // Version-checked, so another payment applied meanwhile isn't lost
+    let remaining = null;
+    const { enrollment, result: allocations } = await Enrollment.updateWithRetry(
+      id,
+      (doc) => {
+        // Check if payment would exceed total amount
+        const newPaidAmount = doc.payment.paidAmount + payment.amount;
+        if (newPaidAmount > doc.payment.totalAmount) {
+          remaining = doc.payment.remainingAmount;
+          return false;
+        }
+
+        // Update payment information
+        doc.payment.paidAmount = newPaidAmount;
+        doc.payment.remainingAmount = doc.payment.totalAmount - newPaidAmount;
+        doc.payment.lastPaymentDate = paidAt;
+
+        // Settle the oldest open installments first
+        return doc.allocatePayment(payment.amount, payment._id, paidAt).allocations;
+      },
+      { populate: [['student', 'name email'], ['course', 'title price']] }
+    );
 
     if (!enrollment) {
       return res.status(404).json({
@@ -255,109 +302,37 @@ const recordPayment = async (req, res) => {
       });
     }
 
-    // Check if payment would exceed total amount
-    const newPaidAmount = enrollment.payment.paidAmount + parseFloat(amount);
-    if (newPaidAmount > enrollment.payment.totalAmount) {
+    if (allocations === false) {
       return res.status(400).json({
         success: false,
-        message: `Payment amount exceeds remaining balance. Remaining: $${enrollment.payment.remainingAmount}`
+        message: `Payment amount exceeds remaining balance. Remaining: $${remaining}`
       });
     }
 
-    // Update payment information
-    enrollment.payment.paidAmount = newPaidAmount;
-    enrollment.payment.remainingAmount = enrollment.payment.totalAmount - newPaidAmount;
-    enrollment.payment.lastPaymentDate = new Date();
-
-    // Add to payment history
-    if (!enrollment.payment.paymentHistory) {
-      enrollment.payment.paymentHistory = [];
-    }
-    enrollment.payment.paymentHistory.push({
-      amount: parseFloat(amount),
-      date: new Date(),
-      method: paymentMethod || 'cash',
-      notes: notes || '',
-      receivedBy: req.user.id
-    });
-
-    await enrollment.save();
+    payment.student = enrollment.student._id;
+    payment.course = enrollment.course._id;
+    await payment.save();
 
     // ========== AUTO-GENERATE RECEIPT ==========
-    const Receipt = require('../models/Receipt');
-    const { generateReceipt } = require('../utils/receiptGenerator');
-    const path = require('path');
-    const fs = require('fs');
-
     let receiptData = null;
 
     try {
-      // Generate unique receipt number
-      const receiptNumber = await Receipt.generateReceiptNumber();
-
-      // Calculate billing info
-      const billing = {
-        totalAmount: enrollment.payment.totalAmount,
-        paidBefore: enrollment.payment.paidAmount - parseFloat(amount),
-        paidNow: parseFloat(amount),
-        remainingBalance: enrollment.payment.remainingAmount
-      };
-
-      // Prepare receipt data
-      const pdfReceiptData = {
-        receiptNumber,
-        student: {
-          name: enrollment.student.name,
-          email: enrollment.student.email
-        },
-        course: {
-          title: enrollment.course.title
-        },
-        payment: {
-          amount: parseFloat(amount),
-          method: paymentMethod || 'cash',
-          date: new Date(),
-          notes: notes || ''
-        },
-        billing,
-        issuedBy: {
-          name: req.user.name
-        }
-      };
-
-      // Generate PDF
-      const fileName = `${receiptNumber}.pdf`;
-      const uploadsDir = path.join(__dirname, '../../uploads/receipts');
-
-      // Ensure uploads directory exists
-      if (!fs.existsSync(uploadsDir)) {
-        fs.mkdirSync(uploadsDir, { recursive: true });
-      }
-
-      const pdfPath = path.join(uploadsDir, fileName);
-      await generateReceipt(pdfReceiptData, pdfPath);
-
-      // Save receipt to database
-      const receipt = await Receipt.create({
-        receiptNumber,
-        enrollment: enrollment._id,
-        student: enrollment.student._id,
-        course: enrollment.course._id,
-        payment: {
-          amount: parseFloat(amount),
-          method: paymentMethod || 'cash',
-          date: new Date(),
-          notes: notes || ''
-        },
-        billing,
-        pdfPath: `uploads/receipts/${fileName}`,
-        issuedBy: req.user.id
+      const receipt = await issueReceipt({
+        enrollment,
+        amount: parseFloat(amount),
+        method: paymentMethod || 'cash',
+        notes: notes || '',
+        issuedBy: { id: req.user.id, name: req.user.name },
+        paymentRef: payment._id
       });
 
+      payment.receiptId = receipt._id;
+      await payment.save();
+
       receiptData = {
         receiptId: receipt._id,
         receiptNumber: receipt.receiptNumber,
-        downloadUrl: `/api/reception/receipts/${receipt._id}/download`
+        downloadUrl: getDownloadUrl(receipt)
       };
 
     } catch (receiptError) {
@@ -365,6 +340,8 @@ const recordPayment = async (req, res) => {
       // Continue - payment is recorded even if receipt generation fails
     }
 
+    emitPaymentUpdate(payment, 'recorded');
+
     const populatedEnrollment = await Enrollment.findById(enrollment._id)
       .populate('student', 'name email')
       .populate('course', 'title price');
@@ -373,13 +350,93 @@ const recordPayment = async (req, res) => {
       success: true,
       message: 'Payment recorded successfully',
       data: populatedEnrollment,
+      allocations,
       receipt: receiptData
     });
   } catch (error) {
     console.error('Error recording payment:', error);
+    const status = { ValidationError: 400, VersionError: 409 }[error.name] || 500;
+    res.status(status).json({
+      success: false,
+      message: status === 409
+        ? 'Enrollment was changed by someone else, please reload and try again'
+        : 'Error recording payment',
+      error: error.message
+    });
+  }
+};
+
+const overdueQuerySchema = Joi.object({
+  course: Joi.string().hex().length(24).optional(),
+  limit: Joi.number().integer().min(0).optional()
+});
+
+/**
+ * @desc    Get overdue installments across active enrollments
+ * @route   GET /api/reception/enrollments/overdue
+ * @access  Private/Reception
+ */
+const getOverduePayments = async (req, res) => {
+  try {
+    const { error: invalid, value } = overdueQuerySchema.validate(req.query);
+    if (invalid) {
+      return res.status(400).json({ success: false, message: invalid.message });
+    }
+    const { course, limit } = value;
+    const now = new Date();
+
+    const query = {
+      status: 'active',
+      'payment.installments': {
+        $elemMatch: { status: { $ne: 'paid' }, dueDate: { $lt: now } }
+      }
+    };
+    if (course) query.course = course;
+
+    const enrollments = await Enrollment.find(query)
+      .populate('student', 'name email')
+      .populate('course', 'title');
+
+    const overdue = [];
+    enrollments.forEach(enrollment => {
+      enrollment.getOverdueInstallments(now).forEach(installment => {
+        overdue.push({
+          enrollmentId: enrollment._id,
+          student: enrollment.student,
+          course: enrollment.course,
+          installment: {
+            _id: installment._id,
+            label: installment.label,
+            amount: installment.amount,
+            paidAmount: installment.paidAmount || 0,
+            outstanding: Enrollment.getInstallmentOutstanding(installment),
+            dueDate: installment.dueDate
+          },
+          daysOverdue: Math.floor((now - new Date(installment.dueDate)) / (1000 * 60 * 60 * 24))
+        });
+      });
+    });
+
+    // Oldest first
+    overdue.sort((a, b) => new Date(a.installment.dueDate) - new Date(b.installment.dueDate));
+
+    const totalOutstanding = overdue.reduce((sum, item) => sum + item.installment.outstanding, 0);
+    const max = parseInt(limit, 10);
+
+    res.status(200).json({
+      success: true,
+      data: max > 0 ? overdue.slice(0, max) : overdue,
+      summary: {
+        count: overdue.length,
+        students: new Set(overdue.map(item => String(item.student && item.student._id))).size,
+        totalOutstanding: Math.round(totalOutstanding * 100) / 100
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching overdue payments:', error);
     res.status(500).json({
       success: false,
-      message: 'Error recording payment',
+      message: 'Error fetching overdue payments',
       error: error.message
     });
   }
@@ -500,6 +557,7 @@ module.exports = {
   createEnrollment,
   updateEnrollment,
   recordPayment,
+  getOverduePayments,
   getAvailableCourses,
   getAvailableGroups,
   getAvailableStudents
@@ -0,0 +1,568 @@
+/**
+ * Reception Payments Controller
+ *
+ * Verification queue for student-initiated payments (Sham Cash, bank
+ * transfer, check):
+ * - List payments by verification status
+ * - View the proof a student submitted
+ * - Approve (applies the payment to the enrollment and issues a receipt)
+ * - Reject with a reason (the student may resubmit proof)
+ *
+ * Reversals of completed payments:
+ * - Enrollment payment ledger (payments, adjustments, credit notes)
+ * - Full or partial refunds and voids, each with a credit note
+ */
+
+const path = require('path');
+const fs = require('fs');
+const Payment = require('../models/Payment');
+const Enrollment = require('../models/Enrollment');
+const Receipt = require('../models/Receipt');
+const CreditNote = require('../models/CreditNote');
+const {
+  issueReceipt,
+  issueCreditNote,
+  getDownloadUrl,
+  getCreditNoteDownloadUrl
+} = require('../services/receipt.service');
+const { notifyPaymentReviewed, notifyPaymentAdjusted } = require('../services/notification.service');
+const { emitPaymentUpdate } = require('../services/realtime.service');
+
+const QUEUE_STATUSES = ['pending', 'processing', 'completed', 'failed'];
+
+/**
+ * @desc    Get student payments by verification status
+ * @route   GET /api/reception/payments?status=processing&method=&page=1&limit=20
+ * @access  Private/Reception
+ */
+const getVerificationQueue = async (req, res) => {
+  try {
+    const { status = 'processing', method, page = 1, limit = 20 } = req.query;
+
+    if (!QUEUE_STATUSES.includes(status)) {
+      return res.status(400).json({
+        success: false,
+        message: 'Invalid status filter'
+      });
+    }
+
+    const query = {
+      status,
+      paymentMethod: method || { $in: Payment.VERIFIABLE_METHODS }
+    };
+
+    const skip = (parseInt(page) - 1) * parseInt(limit);
+
+    const [payments, total, counts] = await Promise.all([
+      Payment.find(query)
+        .populate('student', 'name email')
+        .populate('course', 'title')
+        .populate('enrollment', 'payment.totalAmount payment.paidAmount payment.remainingAmount')
+        .populate('verification.reviewedBy', 'name')
+        // Oldest submissions first so nothing waits too long
+        .sort(status === 'processing' ? { 'proof.submittedAt': 1 } : { updatedAt: -1 })
+        .skip(skip)
+        .limit(parseInt(limit)),
+      Payment.countDocuments(query),
+      Payment.aggregate([
+        { $match: { paymentMethod: { $in: Payment.VERIFIABLE_METHODS } } },
+        { $group: { _id: '$status', count: { $sum: 1 } } }
+      ])
+    ]);
+
+    const summary = QUEUE_STATUSES.reduce((acc, s) => ({ ...acc, [s]: 0 }), {});
+    counts.forEach(c => {
+      if (c._id in summary) summary[c._id] = c.count;
+    });
+
+    res.status(200).json({
+      success: true,
+      data: payments,
+      summary,
+      pagination: {
+        total,
+        page: parseInt(page),
+        pages: Math.ceil(total / parseInt(limit))
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching payment verification queue:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching payments',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    View the proof file of a payment
+ * @route   GET /api/reception/payments/:id/proof
+ * @access  Private/Reception
+ */
+const getPaymentProof = async (req, res) => {
+  try {
+    const payment = await Payment.findById(req.params.id);
+
+    if (!payment || !payment.proof || !payment.proof.filePath) {
+      return res.status(404).json({
+        success: false,
+        message: 'Proof file not found'
+      });
+    }
+
+    const filePath = path.join(__dirname, '../..', payment.proof.filePath);
+
+    if (!fs.existsSync(filePath)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Proof file not found on server'
+      });
+    }
+
+    // Typed by the stored extension, never the uploader's claim, and
+    // sandboxed so a disguised file can't run script
+    const ext = path.extname(filePath).toLowerCase().slice(1);
+    res.setHeader('Content-Type', Payment.PROOF_MIME_TYPES[ext] || 'application/octet-stream');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.setHeader('Content-Security-Policy', 'sandbox');
+    res.setHeader('Content-Disposition', `inline; filename="${encodeURIComponent(payment.proof.originalName || 'proof')}"`);
+    res.sendFile(filePath);
+  } catch (error) {
+    console.error('Error fetching payment proof:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching payment proof',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Approve a payment and apply it to the enrollment
+ * @route   POST /api/reception/payments/:id/approve
+ * @access  Private/Reception
+ */
+const approvePayment = async (req, res) => {
+  try {
+    const { notes } = req.body;
+
+    const pending = await Payment.findOne({ _id: req.params.id, status: 'processing' });
+
+    if (!pending) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment not found or not awaiting verification'
+      });
+    }
+
+    const current = await Enrollment.findById(pending.enrollment);
+
+    if (!current) {
+      return res.status(404).json({
+        success: false,
+        message: 'Enrollment not found'
+      });
+    }
+
+    if (current.payment.paidAmount + pending.amount > current.payment.totalAmount) {
+      return res.status(400).json({
+        success: false,
+        message: `Payment amount exceeds remaining balance. Remaining: ${current.payment.remainingAmount}`
+      });
+    }
+
+    // Claim the payment so two reviewers can't apply it twice
+    const now = new Date();
+    const payment = await Payment.findOneAndUpdate(
+      { _id: pending._id, status: 'processing' },
+      {
+        status: 'completed',
+        paidAt: now,
+        processedBy: req.user.id,
+        'verification.reviewedBy': req.user.id,
+        'verification.reviewedAt': now,
+        'verification.rejectionReason': null,
+        ...(notes ? { notes } : {})
+      },
+      { new: true }
+    );
+
+    if (!payment) {
+      return res.status(409).json({
+        success: false,
+        message: 'Payment was already reviewed'
+      });
+    }
+
+    // Hand the payment back to the queue rather than leave it unapplied
+    const releaseClaim = () => Payment.updateOne(
+      { _id: payment._id, status: 'completed' },
+      {
+        status: 'processing',
+        paidAt: null,
+        processedBy: null,
+        'verification.reviewedBy': null,
+        'verification.reviewedAt': null
+      }
+    );
+
+    // Version-checked, so another payment applied meanwhile isn't lost
+    const { enrollment, result: allocations } = await Enrollment.updateWithRetry(
+      pending.enrollment,
+      (doc) => {
+        // Rechecked: the balance may have changed since the claim
+        if (doc.payment.paidAmount + payment.amount > doc.payment.totalAmount) return false;
+
+        doc.payment.paidAmount += payment.amount;
+        doc.payment.remainingAmount = doc.payment.totalAmount - doc.payment.paidAmount;
+        doc.payment.lastPaymentDate = now;
+
+        // Settle the oldest open installments first
+        return doc.allocatePayment(payment.amount, payment._id, now).allocations;
+      },
+      { populate: [['student', 'name email'], ['course', 'title']] }
+    ).catch(async (error) => {
+      await releaseClaim();
+      throw error;
+    });
+
+    if (!enrollment || allocations === false) {
+      await releaseClaim();
+      return res.status(409).json({
+        success: false,
+        message: 'The enrollment balance changed while approving; the payment is still awaiting verification'
+      });
+    }
+
+    let receiptData = null;
+
+    try {
+      const receipt = await issueReceipt({
+        enrollment,
+        amount: payment.amount,
+        method: payment.paymentMethod,
+        notes: payment.proof.reference ? `Ref: ${payment.proof.reference}` : (payment.notes || ''),
+        issuedBy: { id: req.user.id, name: req.user.name },
+        paymentRef: payment._id
+      });
+
+      payment.receiptId = receipt._id;
+      await payment.save();
+
+      receiptData = {
+        receiptId: receipt._id,
+        receiptNumber: receipt.receiptNumber,
+        downloadUrl: getDownloadUrl(receipt)
+      };
+    } catch (receiptError) {
+      console.error('Error generating receipt (payment still approved):', receiptError);
+      // Continue - payment is applied even if receipt generation fails
+    }
+
+    notifyPaymentReviewed(payment);
+    emitPaymentUpdate(payment, 'approved');
+
+    res.status(200).json({
+      success: true,
+      message: 'Payment approved',
+      data: payment,
+      allocations,
+      receipt: receiptData
+    });
+  } catch (error) {
+    console.error('Error approving payment:', error);
+    res.status(error.name === 'VersionError' ? 409 : 500).json({
+      success: false,
+      message: error.name === 'VersionError'
+        ? 'Enrollment was changed by someone else, please reload and try again'
+        : 'Error approving payment',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Reject a payment proof
+ * @route   POST /api/reception/payments/:id/reject
+ * @access  Private/Reception
+ */
+const rejectPayment = async (req, res) => {
+  try {
+    const reason = (req.body.reason || '').trim();
+
+    if (!reason) {
+      return res.status(400).json({
+        success: false,
+        message: 'A rejection reason is required'
+      });
+    }
+
+    const payment = await Payment.findOneAndUpdate(
+      { _id: req.params.id, status: 'processing' },
+      {
+        status: 'failed',
+        'verification.reviewedBy': req.user.id,
+        'verification.reviewedAt': new Date(),
+        'verification.rejectionReason': reason
+      },
+      { new: true, runValidators: true }
+    );
+
+    if (!payment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Payment not found or not awaiting verification'
+      });
+    }
+
+    notifyPaymentReviewed(payment);
+    emitPaymentUpdate(payment, 'rejected');
+
+    res.status(200).json({
+      success: true,
+      message: 'Payment rejected',
+      data: payment
+    });
+  } catch (error) {
+    console.error('Error rejecting payment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error rejecting payment',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Get the payment ledger of an enrollment
+ * @route   GET /api/reception/enrollments/:id/ledger
+ * @access  Private/Reception
+ */
+const getEnrollmentLedger = async (req, res) => {
+  try {
+    const enrollment = await Enrollment.findById(req.params.id)
+      .populate('student', 'name email')
+      .populate('course', 'title');
+
+    if (!enrollment) {
+      return res.status(404).json({
+        success: false,
+        message: 'Enrollment not found'
+      });
+    }
+
+    const [payments, creditNotes, unlinkedReceipts] = await Promise.all([
+      Payment.find({ enrollment: enrollment._id })
+        .select('-proof.filePath')
+        .populate('processedBy', 'name')
+        .populate('receiptId', 'receiptNumber')
+        .populate('adjustments.performedBy', 'name')
+        .sort({ createdAt: -1 }),
+      CreditNote.find({ enrollment: enrollment._id })
+        .populate('issuedBy', 'name')
+        .sort({ createdAt: -1 }),
+      // Receipts recorded before payments were tracked can't be reversed here
+      Receipt.find({ enrollment: enrollment._id, paymentRef: null })
+        .select('receiptNumber payment createdAt')
+        .sort({ createdAt: -1 })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        enrollment: {
+          _id: enrollment._id,
+          student: enrollment.student,
+          course: enrollment.course,
+          payment: {
+            totalAmount: enrollment.payment.totalAmount,
+            paidAmount: enrollment.payment.paidAmount,
+            remainingAmount: enrollment.payment.remainingAmount
+          }
+        },
+        payments: payments.map(payment => ({
+          ...payment.toObject(),
+          refundableAmount: payment.getRefundableAmount()
+        })),
+        creditNotes: creditNotes.map(note => ({
+          ...note.toObject(),
+          downloadUrl: getCreditNoteDownloadUrl(note)
+        })),
+        unlinkedReceipts
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching payment ledger:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Error fetching payment ledger',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Apply a refund or void to a completed payment
+ *
+ * Checks the enrollment up front, saves the payment first (version-checked,
+ * so concurrent reversals of the same payment fail instead of double
+ * counting), then takes the amount back off the enrollment (version-checked
+ * and retried) and issues the credit note.
+ */
+const reversePayment = async (req, res, type) => {
+  const reason = (req.body.reason || '').trim();
+
+  if (!reason) {
+    return res.status(400).json({
+      success: false,
+      message: `A reason is required to ${type} a payment`
+    });
+  }
+
+  const payment = await Payment.findById(req.params.id);
+
+  if (!payment) {
+    return res.status(404).json({
+      success: false,
+      message: 'Payment not found'
+    });
+  }
+
+  // Checked before anything is saved so a reversal never lands without
+  // its enrollment change
+  if (!(await Enrollment.exists({ _id: payment.enrollment }))) {
+    return res.status(404).json({
+      success: false,
+      message: 'Enrollment for this payment not found'
+    });
+  }
+
+  const refundable = payment.getRefundableAmount();
+
+  if (refundable <= 0) {
+    return res.status(400).json({
+      success: false,
+      message: 'Only completed payments with a remaining balance can be reversed'
+    });
+  }
+
+  let adjustment;
+  if (type === 'refund') {
+    const amount = req.body.amount === undefined || req.body.amount === ''
+      ? refundable
+      : Math.round(parseFloat(req.body.amount) * 100) / 100;
+
+    if (!amount || amount <= 0 || amount > refundable) {
+      return res.status(400).json({
+        success: false,
+        message: `Refund amount must be between 0 and ${refundable}`
+      });
+    }
+
+    adjustment = payment.processRefund(amount, reason, req.user.id);
+  } else {
+    adjustment = payment.voidPayment(reason, req.user.id);
+  }
+
+  payment.increment();
+  await payment.save();
+
+  // Version-checked, so a payment applied meanwhile isn't lost
+  const { enrollment, result: reversals } = await Enrollment.updateWithRetry(
+    payment.enrollment,
+    (doc) => doc.reversePayment(adjustment.amount).reversals,
+    { populate: [['student', 'name email'], ['course', 'title']] }
+  );
+
+  let creditNoteData = null;
+
+  try {
+    const receipt = payment.receiptId ? await Receipt.findById(payment.receiptId) : null;
+    const creditNote = await issueCreditNote({
+      enrollment,
+      payment,
+      adjustment,
+      receipt,
+      issuedBy: { id: req.user.id, name: req.user.name }
+    });
+
+    adjustment.creditNoteId = creditNote._id;
+    await payment.save();
+
+    creditNoteData = {
+      creditNoteId: creditNote._id,
+      creditNoteNumber: creditNote.creditNoteNumber,
+      downloadUrl: getCreditNoteDownloadUrl(creditNote)
+    };
+  } catch (creditNoteError) {
+    console.error('Error generating credit note (reversal still recorded):', creditNoteError);
+    // Continue - the reversal is recorded even if the PDF fails
+  }
+
+  notifyPaymentAdjusted(payment, adjustment);
+  emitPaymentUpdate(payment, type === 'refund' ? 'refunded' : 'voided');
+
+  return res.status(200).json({
+    success: true,
+    message: type === 'refund' ? 'Refund recorded' : 'Payment voided',
+    data: payment,
+    enrollment: {
+      totalAmount: enrollment.payment.totalAmount,
+      paidAmount: enrollment.payment.paidAmount,
+      remainingAmount: enrollment.payment.remainingAmount
+    },
+    reversals,
+    creditNote: creditNoteData
+  });
+};
+
+/**
+ * @desc    Refund a completed payment (full or partial)
+ * @route   POST /api/reception/payments/:id/refund
+ * @access  Private/Reception
+ */
+const refundPayment = async (req, res) => {
+  try {
+    await reversePayment(req, res, 'refund');
+  } catch (error) {
+    console.error('Error refunding payment:', error);
+    res.status(error.name === 'VersionError' ? 409 : 500).json({
+      success: false,
+      message: error.name === 'VersionError'
+        ? 'Payment was changed by someone else, please reload and try again'
+        : 'Error refunding payment',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Void a wrongly recorded payment
+ * @route   POST /api/reception/payments/:id/void
+ * @access  Private/Reception
+ */
+const voidPayment = async (req, res) => {
+  try {
+    await reversePayment(req, res, 'void');
+  } catch (error) {
+    console.error('Error voiding payment:', error);
+    res.status(error.name === 'VersionError' ? 409 : 500).json({
+      success: false,
+      message: error.name === 'VersionError'
+        ? 'Payment was changed by someone else, please reload and try again'
+        : 'Error voiding payment',
+      error: error.message
+    });
+  }
+};
+
+module.exports = {
+  getVerificationQueue,
+  getPaymentProof,
+  approvePayment,
+  rejectPayment,
+  getEnrollmentLedger,
+  refundPayment,
+  voidPayment
+};
@@ -0,0 +1,221 @@
+const Joi = require("joi");
+const PurchaseRequisition = require("../models/PurchaseRequisition");
+const Part = require("../models/Part");
+const { adjustStock } = require("../services/stock.service");
+const asyncHandler = require("../utils/asyncHandler");
+const { NotFoundError, ValidationError, BadRequestError } = require("../utils/errors");
+const logger = require("../utils/logger");
+
+// Statuses a requisition may move to from each status; received is only
+// reached by receiving stock
+const TRANSITIONS = {
+  requested: ["ordered", "cancelled"],
+  ordered: ["cancelled"],
+  received: [],
+  cancelled: [],
+};
+
+const listQuerySchema = Joi.object({
+  status: Joi.string().valid(...PurchaseRequisition.STATUSES).optional(),
+  partId: Joi.string().optional(),
+});
+
+const createSchema = Joi.object({
+  partId: Joi.string().required(),
+  qty: Joi.number().integer().min(1).required(),
+  supplierId: Joi.string().hex().length(24).allow(null).optional(),
+  notes: Joi.string().allow("").optional(),
+  expectedAt: Joi.date().allow(null).optional(),
+});
+
+const statusSchema = Joi.object({
+  status: Joi.string().valid("ordered", "cancelled").required(),
+  supplierId: Joi.string().hex().length(24).allow(null).optional(),
+  expectedAt: Joi.date().allow(null).optional(),
+});
+
+const receiveSchema = Joi.object({
+  qty: Joi.number().integer().min(1).optional(),
+  notes: Joi.string().allow("").optional(),
+});
+
+const populateRequisition = (query) =>
+  query
+    .populate("partId", "name sku supplierId")
+    .populate("supplierId", "name")
+    .populate("purchaseOrderId", "orderNumber status")
+    .populate("requestedBy", "name");
+
+/**
+ * List purchase requisitions
+ * GET /api/requisitions
+ */
+const listRequisitions = asyncHandler(async (req, res) => {
+  const { error, value } = listQuerySchema.validate(req.query);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('find', 'PurchaseRequisition', value);
+
+  const requisitions = await populateRequisition(
+    PurchaseRequisition.find(value).sort({ createdAt: -1 })
+  ).lean();
+
+  logger.info(`Listed ${requisitions.length} requisitions`);
+  res.json(requisitions);
+});
+
+/**
+ * Raise a purchase requisition by hand
+ * POST /api/requisitions
+ */
+const createRequisition = asyncHandler(async (req, res) => {
+  const { error, value } = createSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  const part = await Part.findById(value.partId).lean();
+
+  if (!part) {
+    throw new NotFoundError('Part');
+  }
+
+  logger.logDB('create', 'PurchaseRequisition', { partId: value.partId, qty: value.qty });
+
+  const requisition = await PurchaseRequisition.create({
+    ...value,
+    supplierId: value.supplierId || part.supplierId,
+    source: "manual",
+    requestedBy: req.user.id,
+  });
+
+  logger.info(`Requisition ${requisition._id} raised for part ${part._id} by ${req.user.id}`);
+  res.status(201).json(await populateRequisition(PurchaseRequisition.findById(requisition._id)));
+});
+
+/**
+ * Mark a requisition as ordered or cancel it
+ * PATCH /api/requisitions/:id/status
+ */
+const updateRequisitionStatus = asyncHandler(async (req, res) => {
+  const { error, value } = statusSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('findById', 'PurchaseRequisition', { id: req.params.id });
+
+  const requisition = await PurchaseRequisition.findById(req.params.id);
+
+  if (!requisition) {
+    throw new NotFoundError('Requisition');
+  }
+
+  if (requisition.purchaseOrderId) {
+    throw new BadRequestError(
+      "This requisition is on a purchase order; update the order instead",
+      "REQUISITION_ON_PURCHASE_ORDER"
+    );
+  }
+
+  if (!TRANSITIONS[requisition.status].includes(value.status)) {
+    throw new BadRequestError(
+      `Cannot mark a ${requisition.status} requisition as ${value.status}`,
+      "INVALID_REQUISITION_STATUS"
+    );
+  }
+
+  requisition.status = value.status;
+  if (value.status === "ordered") {
+    requisition.orderedAt = new Date();
+    if (value.supplierId !== undefined) requisition.supplierId = value.supplierId;
+    if (value.expectedAt !== undefined) requisition.expectedAt = value.expectedAt;
+  } else {
+    requisition.cancelledAt = new Date();
+  }
+  await requisition.save();
+
+  logger.info(`Requisition ${requisition._id} marked ${value.status} by ${req.user.id}`);
+  res.json(await populateRequisition(PurchaseRequisition.findById(requisition._id)));
+});
+
+/**
+ * Book a delivery for a requisition into stock
+ * Receives the outstanding quantity unless a smaller one is given
+ * POST /api/requisitions/:id/receive
+ */
+const receiveRequisition = asyncHandler(async (req, res) => {
+  const { error, value } = receiveSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('findById', 'PurchaseRequisition', { id: req.params.id });
+
+  const requisition = await PurchaseRequisition.findById(req.params.id);
+
+  if (!requisition) {
+    throw new NotFoundError('Requisition');
+  }
+
+  if (!PurchaseRequisition.OPEN_STATUSES.includes(requisition.status)) {
+    throw new BadRequestError(
+      `Cannot receive a ${requisition.status} requisition`,
+      "INVALID_REQUISITION_STATUS"
+    );
+  }
+
+  if (requisition.purchaseOrderId) {
+    throw new BadRequestError(
+      "This requisition is on a purchase order; receive it there",
+      "RECEIVE_ON_PURCHASE_ORDER"
+    );
+  }
+
+  const outstanding = requisition.qty - requisition.receivedQty;
+  const qty = value.qty ?? outstanding;
+
+  if (qty > outstanding) {
+    throw new BadRequestError(
+      `Only ${outstanding} still to receive on this requisition`,
+      "RECEIVE_EXCEEDS_OUTSTANDING"
+    );
+  }
+
+  await adjustStock({
+    partId: requisition.partId,
+    qtyChange: qty,
+    reason: "purchase",
+    createdBy: req.user.id,
+    notes: [`Requisition #${String(requisition._id).slice(-6)}`, value.notes]
+      .filter(Boolean)
+      .join(" - "),
+  });
+
+  requisition.receivedQty += qty;
+  if (requisition.status === "requested") {
+    requisition.orderedAt = requisition.orderedAt || new Date();
+    requisition.status = "ordered";
+  }
+  if (requisition.receivedQty >= requisition.qty) {
+    requisition.status = "received";
+    requisition.receivedAt = new Date();
+  }
+  await requisition.save();
+
+  logger.info(`Received ${qty} on requisition ${requisition._id} by ${req.user.id}`);
+  res.json(await populateRequisition(PurchaseRequisition.findById(requisition._id)));
+});
+
+module.exports = {
+  listRequisitions,
+  createRequisition,
+  updateRequisitionStatus,
+  receiveRequisition,
+};
@@ -6,9 +6,14 @@ const {
   getCategoryBreakdown,
   getRecentMovements,
   getStockHistory,
+  getStockValuation,
+  getUnitCostHistory,
+  stockFigures,
 } = require("../services/stock.service");
+const { getLowStockParts } = require("../services/reorder.service");
+const StockLevel = require("../models/StockLevel");
 const asyncHandler = require("../utils/asyncHandler");
-const { ValidationError } = require("../utils/errors");
+const { ValidationError, BadRequestError } = require("../utils/errors");
 const logger = require("../utils/logger");
 
 const adjustSchema = Joi.object({
@@ -26,6 +31,12 @@ const adjustSchema = Joi.object({
     .required(),
   orderId: Joi.string().optional(),
   notes: Joi.string().optional(),
+  // Only kept for purchases, where it feeds the stock valuation
+  unitCost: Joi.number().min(0).when("reason", {
+    is: "purchase",
+    then: Joi.optional(),
+    otherwise: Joi.forbidden(),
+  }),
 });
 
 const querySchema = Joi.object({
@@ -75,6 +86,45 @@ const getStats = asyncHandler(async (req, res) => {
   res.json(stats);
 });
 
+/**
+ * Get parts below their reorder point
+ * GET /api/stock/low
+ */
+const getLowStock = asyncHandler(async (req, res) => {
+  logger.logDB('getLowStockParts', 'Part');
+
+  const parts = await getLowStockParts();
+
+  logger.info(`Retrieved ${parts.length} low-stock parts`);
+  res.json(parts);
+});
+
+/**
+ * Get the value of the stock on hand at average purchase cost
+ * GET /api/stock/valuation
+ */
+const getValuation = asyncHandler(async (req, res) => {
+  logger.logDB('getStockValuation', 'Part');
+
+  const valuation = await getStockValuation();
+
+  logger.info(`Valued stock of ${valuation.items.length} parts`);
+  res.json(valuation);
+});
+
+/**
+ * Get the unit cost history of a part
+ * GET /api/stock/costs/:partId
+ */
+const getCostHistory = asyncHandler(async (req, res) => {
+  logger.logDB('getUnitCostHistory', 'StockLedger', { partId: req.params.partId });
+
+  const history = await getUnitCostHistory(req.params.partId);
+
+  logger.info(`Retrieved ${history.length} unit costs for part ${req.params.partId}`);
+  res.json(history);
+});
+
 /**
  * Get category breakdown
  * GET /api/stock/categories
@@ -134,6 +184,21 @@ const adjust = asyncHandler(async (req, res) => {
     throw new ValidationError(error.message);
   }
 
+  // Used and damaged parts always leave the shelf, whatever the sign sent
+  const onHandChange = ["used", "damaged"].includes(value.reason)
+    ? -Math.abs(value.qtyChange)
+    : value.qtyChange;
+
+  if (onHandChange < 0) {
+    const { onHandQty } = stockFigures(await StockLevel.findOne({ partId: value.partId }).lean());
+    if (onHandQty + onHandChange < 0) {
+      throw new BadRequestError(
+        `Only ${onHandQty} on hand; cannot remove ${-onHandChange}`,
+        'INSUFFICIENT_STOCK'
+      );
+    }
+  }
+
   logger.logDB('adjustStock', 'StockLevel', {
     partId: value.partId,
     qtyChange: value.qtyChange,
@@ -149,6 +214,9 @@ const adjust = asyncHandler(async (req, res) => {
 module.exports = {
   getLevels,
   getStats,
+  getLowStock,
+  getValuation,
+  getCostHistory,
   getCategories,
   getRecent,
   getHistory,
@@ -0,0 +1,217 @@
+const Joi = require("joi");
+const Stocktake = require("../models/Stocktake");
+const Part = require("../models/Part");
+const {
+  withVariance,
+  recordCounts,
+  approveStocktake: approve,
+  getVarianceReport: buildVarianceReport,
+} = require("../services/stocktake.service");
+const asyncHandler = require("../utils/asyncHandler");
+const { NotFoundError, ValidationError, BadRequestError, ConflictError } = require("../utils/errors");
+const logger = require("../utils/logger");
+
+const objectId = Joi.string().hex().length(24);
+
+const listQuerySchema = Joi.object({
+  status: Joi.string().valid(...Stocktake.STATUSES).optional(),
+});
+
+const createSchema = Joi.object({
+  scopeType: Joi.string().valid(...Stocktake.SCOPES).required(),
+  scopeValue: Joi.string().trim().min(1).required(),
+  notes: Joi.string().allow("").optional(),
+});
+
+const countsSchema = Joi.object({
+  counts: Joi.array()
+    .items(Joi.object({
+      partId: objectId.required(),
+      countedQty: Joi.number().integer().min(0).required(),
+    }))
+    .min(1)
+    .unique("partId")
+    .required(),
+});
+
+const reportQuerySchema = Joi.object({
+  from: Joi.date().optional(),
+  to: Joi.date().optional(),
+  category: Joi.string().optional(),
+  group: Joi.string().optional(),
+});
+
+const populateStocktake = (query) =>
+  query
+    .populate("lines.partId", "name sku category group partNumber")
+    .populate("lines.countedBy", "name")
+    .populate("createdBy", "name")
+    .populate("approvedBy", "name");
+
+/**
+ * List stocktakes, without their lines
+ * GET /api/stocktakes
+ */
+const listStocktakes = asyncHandler(async (req, res) => {
+  const { error, value } = listQuerySchema.validate(req.query);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('find', 'Stocktake', value);
+
+  const stocktakes = await Stocktake.find(value)
+    .sort({ createdAt: -1 })
+    .populate("createdBy", "name")
+    .populate("approvedBy", "name");
+
+  // Progress instead of the full line list
+  const summaries = stocktakes.map((stocktake) => {
+    const { lines, ...rest } = stocktake.toJSON();
+    return {
+      ...rest,
+      totalLines: lines.length,
+      varianceLines: lines.filter((l) => l.countedQty !== null && l.countedQty !== l.expectedQty).length,
+    };
+  });
+
+  logger.info(`Listed ${summaries.length} stocktakes`);
+  res.json(summaries);
+});
+
+/**
+ * Get a stocktake with each line's count and variance
+ * GET /api/stocktakes/:id
+ */
+const getStocktake = asyncHandler(async (req, res) => {
+  logger.logDB('findById', 'Stocktake', { id: req.params.id });
+
+  const stocktake = await populateStocktake(Stocktake.findById(req.params.id));
+
+  if (!stocktake) {
+    throw new NotFoundError('Stocktake');
+  }
+
+  res.json(await withVariance(stocktake));
+});
+
+/**
+ * Start a stocktake of every part in a category or group
+ * POST /api/stocktakes
+ */
+const createStocktake = asyncHandler(async (req, res) => {
+  const { error, value } = createSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  const parts = await Part.find({ [value.scopeType]: value.scopeValue }).select("_id").lean();
+  if (parts.length === 0) {
+    throw new BadRequestError(`No parts in ${value.scopeType} ${value.scopeValue}`, "NO_PARTS_IN_SCOPE");
+  }
+
+  // A part counted by two open stocktakes would have its variance posted twice
+  const partIds = parts.map((p) => p._id);
+  const overlapping = await Stocktake.findOne({ status: "counting", "lines.partId": { $in: partIds } })
+    .select("reference")
+    .lean();
+  if (overlapping) {
+    throw new ConflictError(`Stocktake ${overlapping.reference} is already counting some of these parts`, "STOCKTAKE_OVERLAP");
+  }
+
+  logger.logDB('create', 'Stocktake', { scopeType: value.scopeType, scopeValue: value.scopeValue });
+
+  const stocktake = await Stocktake.create({
+    ...value,
+    reference: await Stocktake.generateReference(),
+    lines: partIds.map((partId) => ({ partId })),
+    createdBy: req.user._id,
+  });
+
+  logger.info(`Started stocktake ${stocktake.reference} of ${parts.length} parts`);
+  res.status(201).json(stocktake);
+});
+
+/**
+ * Record counted quantities; several devices can count at once
+ * PATCH /api/stocktakes/:id/counts
+ */
+const updateCounts = asyncHandler(async (req, res) => {
+  const { error, value } = countsSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('updateCounts', 'Stocktake', { id: req.params.id, counts: value.counts.length });
+
+  await recordCounts(req.params.id, value.counts, req.user._id);
+
+  const stocktake = await populateStocktake(Stocktake.findById(req.params.id));
+  res.json(await withVariance(stocktake));
+});
+
+/**
+ * Approve a stocktake, posting counted variances as adjustments
+ * POST /api/stocktakes/:id/approve
+ */
+const approveStocktake = asyncHandler(async (req, res) => {
+  logger.logDB('approve', 'Stocktake', { id: req.params.id });
+
+  await approve(req.params.id, req.user._id);
+
+  const stocktake = await populateStocktake(Stocktake.findById(req.params.id));
+  res.json(await withVariance(stocktake));
+});
+
+/**
+ * Cancel a stocktake without posting anything
+ * POST /api/stocktakes/:id/cancel
+ */
+const cancelStocktake = asyncHandler(async (req, res) => {
+  logger.logDB('cancel', 'Stocktake', { id: req.params.id });
+
+  const stocktake = await Stocktake.findOneAndUpdate(
+    { _id: req.params.id, status: "counting" },
+    { $set: { status: "cancelled", cancelledAt: new Date() } },
+    { new: true }
+  );
+
+  if (!stocktake) {
+    if (!await Stocktake.exists({ _id: req.params.id })) {
+      throw new NotFoundError('Stocktake');
+    }
+    throw new ConflictError('This stocktake is no longer counting', "STOCKTAKE_CLOSED");
+  }
+
+  logger.info(`Cancelled stocktake ${stocktake.reference}`);
+  res.json(stocktake);
+});
+
+/**
+ * Stocktake variances over time, per part and category
+ * GET /api/stocktakes/variance-report?from=&to=&category=&group=
+ */
+const getVarianceReport = asyncHandler(async (req, res) => {
+  const { error, value } = reportQuerySchema.validate(req.query);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  logger.logDB('aggregate', 'StockLedger', { report: 'stocktakeVariance', ...value });
+
+  res.json(await buildVarianceReport(value));
+});
+
+module.exports = {
+  listStocktakes,
+  getStocktake,
+  createStocktake,
+  updateCounts,
+  approveStocktake,
+  cancelStocktake,
+  getVarianceReport,
+};
@@ -74,6 +74,17 @@ exports.getAssignment = asyncHandler(async (req, res) => {
 
   // Get student's submission if exists
   const submission = await AssignmentSubmission.getLatestSubmission(studentId, assignmentId);
+  const now = new Date();
+
+  let canSubmit;
+  if (submission) {
+    const deadline = submission.resubmission.deadline;
+    canSubmit = submission.resubmission.allowed &&
+      submission.status === 'resubmit_required' &&
+      (!deadline || now <= deadline);
+  } else {
+    canSubmit = !assignment.isSubmissionLate(now) || assignment.acceptsLateSubmission(now);
+  }
 
   res.json({
     success: true,
@@ -81,7 +92,7 @@ exports.getAssignment = asyncHandler(async (req, res) => {
       assignment,
       submission,
       isOverdue: assignment.isOverdue,
-      canSubmit: !submission || (submission.resubmission.allowed && submission.status === 'resubmit_required')
+      canSubmit
     }
   });
 });
@@ -141,21 +152,12 @@ exports.submitAssignment = asyncHandler(async (req, res) => {
     }
   }
 
-  // Check for late submission
   const submittedAt = new Date();
-  const isLate = assignment.isSubmissionLate(submittedAt);
-
-  if (isLate && !assignment.allowLateSubmission) {
-    // Clean up
-    for (const file of req.files) {
-      await fs.unlink(file.path).catch(() => {});
-    }
-    throw new AppError('Late submissions are not allowed for this assignment', 400);
-  }
 
   // Check if it's a resubmission
   const existingSubmission = await AssignmentSubmission.getLatestSubmission(studentId, assignmentId);
   let version = 1;
+  let isLate;
 
   if (existingSubmission) {
     if (!existingSubmission.resubmission.allowed || existingSubmission.status !== 'resubmit_required') {
@@ -165,9 +167,32 @@ exports.submitAssignment = asyncHandler(async (req, res) => {
       }
       throw new AppError('You cannot resubmit this assignment', 400);
     }
+
+    // Resubmissions are judged against the trainer's resubmission deadline
+    const deadline = existingSubmission.resubmission.deadline;
+    if (deadline && submittedAt > deadline) {
+      for (const file of req.files) {
+        await fs.unlink(file.path).catch(() => {});
+      }
+      throw new AppError('The resubmission deadline has passed', 400);
+    }
+    isLate = deadline ? false : existingSubmission.isLate;
+
     version = existingSubmission.version + 1;
     existingSubmission.resubmission.count += 1;
+    existingSubmission.resubmission.allowed = false;
     await existingSubmission.save();
+  } else {
+    // Check for late submission
+    isLate = assignment.isSubmissionLate(submittedAt);
+
+    if (isLate && !assignment.acceptsLateSubmission(submittedAt)) {
+      // Clean up
+      for (const file of req.files) {
+        await fs.unlink(file.path).catch(() => {});
+      }
+      throw new AppError('Late submissions are not allowed for this assignment', 400);
+    }
   }
 
   // Prepare file data
@@ -255,26 +255,10 @@ exports.enrollInCourse = asyncHandler(async (req, res) => {
 
   // Setup payment installments if needed
   if (paymentPlan === 'installment') {
-    const installmentAmount = Math.ceil(course.price / 3);
-    const now = new Date();
-
-    enrollmentData.payment.installments = [
-      {
-        amount: installmentAmount,
-        dueDate: new Date(now.getTime() + 0), // Due now
-        status: 'pending'
-      },
-      {
-        amount: installmentAmount,
-        dueDate: new Date(now.setMonth(now.getMonth() + 1)),
-        status: 'pending'
-      },
-      {
-        amount: course.price - (installmentAmount * 2), // Remaining
-        dueDate: new Date(now.setMonth(now.getMonth() + 1)),
-        status: 'pending'
-      }
-    ];
+    // Three monthly installments, the first due now
+    enrollmentData.payment.installments = Enrollment.buildInstallmentSchedule(course.price, {
+      numberOfInstallments: 3
+    });
   }
 
   const enrollment = await Enrollment.create(enrollmentData);
@@ -105,7 +105,7 @@ exports.getDashboardStats = asyncHandler(async (req, res) => {
   enrollments.forEach(enrollment => {
     if (enrollment.payment.installments) {
       const overdueCount = enrollment.payment.installments.filter(
-        inst => inst.status === 'pending' && new Date(inst.dueDate) < now
+        inst => inst.status !== 'paid' && new Date(inst.dueDate) < now
       ).length;
       stats.overduePayments += overdueCount;
     }
@@ -0,0 +1,45 @@
+const asyncHandler = require('../utils/asyncHandler');
+const logger = require('../utils/logger');
+const Group = require('../models/Group');
+const GroupChat = require('../models/GroupChat');
+const { getUnreadCount } = require('../services/groupChat.service');
+
+// @desc    Get groups the student belongs to, with chat unread counts
+// @route   GET /api/student/groups
+// @access  Private (Student)
+exports.getMyGroups = asyncHandler(async (req, res) => {
+  const studentId = req.user._id;
+  const { courseId } = req.query;
+
+  const query = { students: studentId };
+  if (courseId) {
+    query.courseId = courseId;
+  }
+
+  const groups = await Group.find(query)
+    .populate('courseId', 'title category level thumbnail')
+    .populate('trainerId', 'name email')
+    .select('name description courseId trainerId status color startDate endDate')
+    .sort({ startDate: -1 });
+
+  const chats = await GroupChat.find({ groupId: { $in: groups.map(g => g._id) } });
+
+  const data = groups.map(group => {
+    const chat = chats.find(c => c.groupId.toString() === group._id.toString());
+    return {
+      ...group.toObject(),
+      chatUnreadCount: chat ? getUnreadCount(chat, studentId) : 0
+    };
+  });
+
+  logger.info('Student groups retrieved', {
+    studentId,
+    count: data.length
+  });
+
+  res.json({
+    success: true,
+    count: data.length,
+    data
+  });
+});
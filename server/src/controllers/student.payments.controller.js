@@ -3,6 +3,85 @@ const { AppError } = require('../utils/errors');
 const logger = require('../utils/logger');
 const Receipt = require('../models/Receipt');
 const Enrollment = require('../models/Enrollment');
+const Payment = require('../models/Payment');
+const { notifyPaymentProofSubmitted } = require('../services/notification.service');
+const { emitPaymentUpdate } = require('../services/realtime.service');
+const multer = require('multer');
+const path = require('path');
+const fs = require('fs');
+
+// Proofs live outside the statically served /uploads folder; staff view
+// them through GET /api/reception/payments/:id/proof
+const PROOFS_DIR = 'storage/payment-proofs';
+
+// Configure multer for payment proof uploads
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    const uploadDir = path.join(__dirname, '../..', PROOFS_DIR);
+    fs.mkdir(uploadDir, { recursive: true }, (error) => cb(error, uploadDir));
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    const ext = path.extname(file.originalname).toLowerCase();
+    cb(null, `proof-${uniqueSuffix}${ext}`);
+  }
+});
+
+const fileFilter = (req, file, cb) => {
+  const ext = path.extname(file.originalname).toLowerCase().slice(1);
+
+  if (Payment.PROOF_MIME_TYPES[ext]) {
+    cb(null, true);
+  } else {
+    cb(new AppError(`File type .${ext} is not allowed`, 400), false);
+  }
+};
+
+// Content-Type of a stored proof, from its whitelisted extension
+const proofMimeType = (filename) =>
+  Payment.PROOF_MIME_TYPES[path.extname(filename).toLowerCase().slice(1)] || 'application/octet-stream';
+
+exports.upload = multer({
+  storage,
+  fileFilter,
+  limits: {
+    fileSize: 5 * 1024 * 1024 // 5MB
+  }
+});
+
+/**
+ * Turn receipts into the payment history format, reflecting any refund or
+ * void recorded on the Payment the receipt was issued for
+ */
+const toPaymentHistory = async (receipts) => {
+  const paymentIds = receipts.map(r => r.paymentRef).filter(Boolean);
+  const linked = paymentIds.length
+    ? await Payment.find({ _id: { $in: paymentIds } }).select('status refund.amount')
+    : [];
+  const byId = new Map(linked.map(p => [String(p._id), p]));
+
+  return receipts.map(receipt => {
+    const payment = receipt.paymentRef && byId.get(String(receipt.paymentRef));
+
+    return {
+      _id: receipt._id,
+      amount: receipt.payment.amount,
+      paymentMethod: receipt.payment.method,
+      transactionId: receipt.receiptNumber,
+      status: payment ? payment.status : 'completed',
+      refundedAmount: payment ? (payment.refund.amount || 0) : 0,
+      paidAt: receipt.payment.date,
+      receipt: {
+        receiptNumber: receipt.receiptNumber,
+        receiptUrl: receipt.pdfPath,
+        generatedAt: receipt.createdAt
+      },
+      notes: receipt.payment.notes,
+      createdAt: receipt.createdAt,
+      ...(receipt.course && receipt.course.title ? { course: receipt.course } : {})
+    };
+  });
+};
 
 // @desc    Get payment history for a course
 // @route   GET /api/student/payments/courses/:courseId
@@ -30,21 +109,7 @@ exports.getCoursePayments = asyncHandler(async (req, res) => {
     .sort({ createdAt: -1 });
 
   // Transform receipts to payment format
-  const payments = receipts.map(receipt => ({
-    _id: receipt._id,
-    amount: receipt.payment.amount,
-    paymentMethod: receipt.payment.method,
-    transactionId: receipt.receiptNumber,
-    status: 'completed',
-    paidAt: receipt.payment.date,
-    receipt: {
-      receiptNumber: receipt.receiptNumber,
-      receiptUrl: receipt.pdfPath,
-      generatedAt: receipt.createdAt
-    },
-    notes: receipt.payment.notes,
-    createdAt: receipt.createdAt
-  }));
+  const payments = await toPaymentHistory(receipts);
 
   logger.info('Course payments retrieved', {
     studentId,
@@ -74,22 +139,7 @@ exports.getAllPayments = asyncHandler(async (req, res) => {
     .sort({ createdAt: -1 });
 
   // Transform receipts to payment format
-  const payments = receipts.map(receipt => ({
-    _id: receipt._id,
-    amount: receipt.payment.amount,
-    paymentMethod: receipt.payment.method,
-    transactionId: receipt.receiptNumber,
-    status: 'completed',
-    paidAt: receipt.payment.date,
-    receipt: {
-      receiptNumber: receipt.receiptNumber,
-      receiptUrl: receipt.pdfPath,
-      generatedAt: receipt.createdAt
-    },
-    notes: receipt.payment.notes,
-    createdAt: receipt.createdAt,
-    course: receipt.course
-  }));
+  const payments = await toPaymentHistory(receipts);
 
   logger.info('All payments retrieved', {
     studentId,
@@ -154,6 +204,11 @@ exports.initiatePayment = asyncHandler(async (req, res) => {
     throw new AppError('Enrollment ID, amount, and payment method are required', 400);
   }
 
+  // Cash and card payments are recorded at the reception desk
+  if (!Payment.VERIFIABLE_METHODS.includes(paymentMethod)) {
+    throw new AppError('This payment method must be paid at the reception desk', 400);
+  }
+
   // Get enrollment
   const enrollment = await Enrollment.findOne({
     _id: enrollmentId,
@@ -169,7 +224,14 @@ exports.initiatePayment = asyncHandler(async (req, res) => {
     throw new AppError('Invalid amount', 400);
   }
 
-  if (amount > enrollment.payment.remainingAmount) {
+  // Requests still awaiting verification already claim part of the balance
+  const openRequests = await Payment.find({
+    enrollment: enrollmentId,
+    status: { $in: ['pending', 'processing'] }
+  }).select('amount');
+  const requested = openRequests.reduce((sum, p) => sum + p.amount, 0);
+
+  if (amount > enrollment.payment.remainingAmount - requested) {
     throw new AppError('Amount exceeds remaining balance', 400);
   }
 
@@ -184,6 +246,8 @@ exports.initiatePayment = asyncHandler(async (req, res) => {
     installmentNumber: installmentNumber || null
   });
 
+  emitPaymentUpdate(payment, 'initiated');
+
   logger.info('Payment initiated', {
     studentId,
     enrollmentId,
@@ -193,71 +257,139 @@ exports.initiatePayment = asyncHandler(async (req, res) => {
 
   res.status(201).json({
     success: true,
-    message: 'Payment initiated. Please complete the payment process.',
+    message: 'Payment initiated. Please submit your proof of payment.',
     data: payment
   });
 });
 
-// @desc    Confirm payment (after external payment gateway)
-// @route   POST /api/student/payments/:paymentId/confirm
+// @desc    Submit proof of payment for staff verification
+// @route   POST /api/student/payments/:paymentId/proof
 // @access  Private (Student)
-exports.confirmPayment = asyncHandler(async (req, res) => {
+exports.submitPaymentProof = asyncHandler(async (req, res) => {
   const { paymentId } = req.params;
   const studentId = req.user._id;
-  const { transactionId } = req.body;
+  const reference = (req.body.reference || '').trim();
 
+  // Pending payments get their first proof; rejected ones may be resubmitted
   const payment = await Payment.findOne({
     _id: paymentId,
     student: studentId,
-    status: 'pending'
+    status: { $in: ['pending', 'failed'] }
   });
 
   if (!payment) {
-    throw new AppError('Payment not found or already processed', 404);
+    if (req.file) await fs.promises.unlink(req.file.path).catch(() => {});
+    throw new AppError('Payment not found or already under review', 404);
   }
 
-  // Update payment
-  payment.transactionId = transactionId;
-  payment.markAsCompleted();
-  await payment.save();
+  if (!req.file && !reference) {
+    throw new AppError('Please upload a proof file or enter a transfer reference', 400);
+  }
 
-  // Update enrollment
-  const enrollment = await Enrollment.findById(payment.enrollment);
-  enrollment.payment.paidAmount += payment.amount;
-  enrollment.payment.remainingAmount = enrollment.payment.totalAmount - enrollment.payment.paidAmount;
-
-  // Update installment status if applicable
-  if (payment.installmentNumber) {
-    const installment = enrollment.payment.installments.find(
-      inst => inst._id.toString() === payment.installmentNumber.toString()
-    );
-    if (installment) {
-      installment.status = 'paid';
-      installment.paidDate = new Date();
-      installment.paymentId = payment._id;
-    }
+  // Replace any proof from a rejected attempt
+  const previousFile = payment.proof && payment.proof.filePath;
+  if (previousFile && req.file) {
+    await fs.promises.unlink(path.join(__dirname, '../..', previousFile)).catch(() => {});
   }
 
-  await enrollment.save();
+  payment.proof = {
+    filePath: req.file ? `${PROOFS_DIR}/${req.file.filename}` : previousFile || null,
+    originalName: req.file ? req.file.originalname : payment.proof.originalName,
+    mimeType: req.file ? proofMimeType(req.file.filename) : payment.proof.mimeType,
+    size: req.file ? req.file.size : payment.proof.size,
+    reference: reference || null,
+    submittedAt: new Date()
+  };
+  payment.transactionId = reference || payment.transactionId;
+  payment.verification = { reviewedBy: null, reviewedAt: null, rejectionReason: null };
+  payment.status = 'processing';
+  await payment.save();
+
+  notifyPaymentProofSubmitted(payment, req.user);
+  emitPaymentUpdate(payment, 'proof_submitted');
 
-  logger.info('Payment confirmed', {
+  logger.info('Payment proof submitted', {
     studentId,
     paymentId,
     amount: payment.amount,
-    transactionId
+    hasFile: Boolean(req.file)
   });
 
   res.json({
     success: true,
-    message: 'Payment confirmed successfully',
-    data: {
-      payment,
-      enrollment: {
-        totalAmount: enrollment.payment.totalAmount,
-        paidAmount: enrollment.payment.paidAmount,
-        remainingAmount: enrollment.payment.remainingAmount
-      }
-    }
+    message: 'Proof submitted. Your payment will be confirmed once reception verifies it.',
+    data: payment
+  });
+});
+
+// @desc    Get payment requests awaiting or after verification
+// @route   GET /api/student/payments/requests?courseId=
+// @access  Private (Student)
+exports.getPaymentRequests = asyncHandler(async (req, res) => {
+  const studentId = req.user._id;
+  const { courseId } = req.query;
+
+  const query = {
+    student: studentId,
+    paymentMethod: { $in: Payment.VERIFIABLE_METHODS }
+  };
+  if (courseId) query.course = courseId;
+
+  const payments = await Payment.find(query)
+    .select('-proof.filePath')
+    .populate('course', 'title')
+    .sort({ createdAt: -1 });
+
+  res.json({
+    success: true,
+    count: payments.length,
+    data: payments
+  });
+});
+
+// @desc    Get installment schedules (optionally for one course)
+// @route   GET /api/student/payments/installments?courseId=
+// @access  Private (Student)
+exports.getInstallments = asyncHandler(async (req, res) => {
+  const studentId = req.user._id;
+  const { courseId } = req.query;
+
+  const query = { student: studentId };
+  if (courseId) query.course = courseId;
+
+  const enrollments = await Enrollment.find(query)
+    .populate('course', 'title')
+    .sort({ enrolledAt: -1 });
+
+  const now = new Date();
+  const schedules = enrollments.map(enrollment => {
+    const installments = [...enrollment.payment.installments]
+      .sort((a, b) => new Date(a.dueDate) - new Date(b.dueDate))
+      .map(inst => ({
+        _id: inst._id,
+        label: inst.label,
+        amount: inst.amount,
+        paidAmount: inst.paidAmount || 0,
+        outstanding: Enrollment.getInstallmentOutstanding(inst),
+        dueDate: inst.dueDate,
+        paidDate: inst.paidDate,
+        status: inst.status,
+        isOverdue: inst.status !== 'paid' && new Date(inst.dueDate) < now
+      }));
+
+    return {
+      enrollmentId: enrollment._id,
+      course: enrollment.course,
+      totalAmount: enrollment.payment.totalAmount,
+      paidAmount: enrollment.payment.paidAmount,
+      remainingAmount: enrollment.payment.remainingAmount,
+      installments
+    };
+  });
+
+  res.json({
+    success: true,
+    data: schedules
   });
 });
 
@@ -297,10 +429,10 @@ exports.getPaymentSummary = asyncHandler(async (req, res) => {
     summary.paidAmount += enrollment.payment.paidAmount || 0;
     summary.remainingAmount += enrollment.payment.remainingAmount || 0;
 
-    // Count pending installments
+    // Count open (pending or overdue) installments
     if (enrollment.payment.installments && enrollment.payment.installments.length > 0) {
       enrollment.payment.installments.forEach(inst => {
-        if (inst.status === 'pending') {
+        if (inst.status !== 'paid') {
           summary.pendingPayments++;
 
           // Check if overdue
@@ -311,7 +443,7 @@ exports.getPaymentSummary = asyncHandler(async (req, res) => {
           // Find earliest due date for next payment
           if (!earliestDue || new Date(inst.dueDate) < new Date(earliestDue.dueDate)) {
             earliestDue = {
-              amount: inst.amount,
+              amount: Enrollment.getInstallmentOutstanding(inst),
               dueDate: inst.dueDate,
               isOverdue: new Date(inst.dueDate) < now
             };
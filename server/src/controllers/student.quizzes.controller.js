@@ -4,6 +4,18 @@ const logger = require('../utils/logger');
 const Quiz = require('../models/Quiz');
 const QuizAttempt = require('../models/QuizAttempt');
 const Enrollment = require('../models/Enrollment');
+const {
+  attemptDeadline,
+  finalizeAttempt,
+  saveAnswers,
+  findInProgress,
+  questionSet,
+  toStudentQuestion,
+  attemptState,
+  remainingSeconds,
+  answerFeedback
+} = require('../services/quizAttempt.service');
+const { drawQuestions } = require('../services/questionBank.service');
 
 // @desc    Get quiz details (without answers)
 // @route   GET /api/student/quizzes/:quizId
@@ -31,16 +43,10 @@ exports.getQuiz = asyncHandler(async (req, res) => {
 
   // Remove correct answers from response
   const quizData = quiz.toObject();
-  quizData.questions = quizData.questions.map(q => ({
-    _id: q._id,
-    question: q.question,
-    type: q.type,
-    points: q.points,
-    options: q.options.map((opt, idx) => ({
-      index: idx,
-      text: opt.text
-    }))
-  }));
+  quizData.questions = quizData.questions.map(question => toStudentQuestion(question));
+  // Attempts at quizzes with rules get drawn questions on top
+  quizData.questionCount = quiz.totalQuestions;
+  delete quizData.questionRules;
 
   // Get attempt count
   const attemptCount = await QuizAttempt.getAttemptCount(studentId, quizId);
@@ -76,31 +82,25 @@ exports.startQuizAttempt = asyncHandler(async (req, res) => {
     throw new AppError('You are not enrolled in this course', 403);
   }
 
-  // Check if max attempts reached
-  const attemptCount = await QuizAttempt.getAttemptCount(studentId, quizId);
-  if (attemptCount >= quiz.maxAttempts) {
-    throw new AppError('Maximum attempts reached for this quiz', 400);
-  }
-
-  // Check for existing in-progress attempt
-  const existingAttempt = await QuizAttempt.findOne({
-    student: studentId,
-    quiz: quizId,
-    status: 'in_progress'
-  });
+  // Resume the attempt in progress; one whose time ran out is finalized
+  const existingAttempt = await findInProgress(studentId, quiz);
 
   if (existingAttempt) {
     return res.json({
       success: true,
       message: 'Quiz attempt already in progress',
-      data: {
-        attemptId: existingAttempt._id,
-        attempt: existingAttempt
-      }
+      data: attemptState(existingAttempt, quiz)
     });
   }
 
+  // Check if max attempts reached
+  const attemptCount = await QuizAttempt.getAttemptCount(studentId, quizId);
+  if (attemptCount >= quiz.maxAttempts) {
+    throw new AppError('Maximum attempts reached for this quiz', 400);
+  }
+
   // Create new attempt
+  const startedAt = new Date();
   const attempt = await QuizAttempt.create({
     student: studentId,
     quiz: quizId,
@@ -108,7 +108,9 @@ exports.startQuizAttempt = asyncHandler(async (req, res) => {
     attemptNumber: attemptCount + 1,
     answers: [],
     status: 'in_progress',
-    startedAt: new Date()
+    startedAt,
+    expiresAt: attemptDeadline(quiz, startedAt),
+    questions: quiz.questionRules.length > 0 ? await drawQuestions(quiz) : []
   });
 
   logger.info('Quiz attempt started', {
@@ -120,23 +122,40 @@ exports.startQuizAttempt = asyncHandler(async (req, res) => {
   res.status(201).json({
     success: true,
     message: 'Quiz attempt started',
-    data: {
-      attemptId: attempt._id,
-      attempt: attempt
-    }
+    data: attemptState(attempt, quiz)
   });
 });
 
-// @desc    Submit quiz answers
-// @route   POST /api/student/quizzes/:quizId/submit
+// @desc    Get the attempt in progress, to resume it
+// @route   GET /api/student/quizzes/:quizId/attempts/current
 // @access  Private (Student)
-exports.submitQuiz = asyncHandler(async (req, res) => {
+exports.getCurrentAttempt = asyncHandler(async (req, res) => {
   const { quizId } = req.params;
   const studentId = req.user._id;
-  const { attemptId, answers } = req.body; // answers: [{ questionId, selectedOptions: [0, 1, ...] }]
 
-  if (!attemptId || !answers) {
-    throw new AppError('Attempt ID and answers are required', 400);
+  const quiz = await Quiz.findById(quizId);
+  if (!quiz) {
+    throw new AppError('Quiz not found', 404);
+  }
+
+  const attempt = await findInProgress(studentId, quiz);
+
+  res.json({
+    success: true,
+    data: attempt ? attemptState(attempt, quiz) : null
+  });
+});
+
+// @desc    Autosave answers of the attempt in progress
+// @route   PUT /api/student/quizzes/:quizId/attempts/:attemptId/answers
+// @access  Private (Student)
+exports.saveQuizAnswers = asyncHandler(async (req, res) => {
+  const { quizId, attemptId } = req.params;
+  const studentId = req.user._id;
+  const { answers } = req.body; // answers: [{ questionId, selectedOptions: [0, 1, ...], selectedItems: [token, ...], textAnswer }]
+
+  if (!Array.isArray(answers)) {
+    throw new AppError('Answers are required', 400);
   }
 
   const quiz = await Quiz.findById(quizId);
@@ -155,58 +174,50 @@ exports.submitQuiz = asyncHandler(async (req, res) => {
     throw new AppError('Quiz attempt not found or already submitted', 404);
   }
 
-  // Process answers and calculate score
-  let totalPoints = 0;
-  let earnedPoints = 0;
+  await saveAnswers(attempt, quiz, answers);
 
-  const processedAnswers = answers.map(answer => {
-    const question = quiz.questions.id(answer.questionId);
-    if (!question) {
-      return null;
+  res.json({
+    success: true,
+    data: {
+      lastSavedAt: attempt.lastSavedAt,
+      remainingSeconds: remainingSeconds(attempt)
     }
+  });
+});
 
-    totalPoints += question.points;
+// @desc    Submit quiz answers
+// @route   POST /api/student/quizzes/:quizId/submit
+// @access  Private (Student)
+exports.submitQuiz = asyncHandler(async (req, res) => {
+  const { quizId } = req.params;
+  const studentId = req.user._id;
+  const { attemptId, answers } = req.body; // answers: [{ questionId, selectedOptions: [0, 1, ...], selectedItems: [token, ...], textAnswer }]
 
-    // Check if answer is correct
-    let isCorrect = false;
-    const correctIndices = question.options
-      .map((opt, idx) => (opt.isCorrect ? idx : null))
-      .filter(idx => idx !== null);
+  if (!attemptId) {
+    throw new AppError('Attempt ID is required', 400);
+  }
+  if (answers !== undefined && !Array.isArray(answers)) {
+    throw new AppError('Answers must be a list', 400);
+  }
 
-    const selectedSet = new Set(answer.selectedOptions);
-    const correctSet = new Set(correctIndices);
+  const quiz = await Quiz.findById(quizId);
+  if (!quiz) {
+    throw new AppError('Quiz not found', 404);
+  }
 
-    // For single choice: exactly one correct answer selected
-    // For multiple choice: all correct answers selected, no incorrect ones
-    if (question.type === 'single') {
-      isCorrect = selectedSet.size === 1 && correctSet.has([...selectedSet][0]);
-    } else {
-      isCorrect = selectedSet.size === correctSet.size &&
-        [...selectedSet].every(idx => correctSet.has(idx));
-    }
+  const attempt = await QuizAttempt.findOne({
+    _id: attemptId,
+    student: studentId,
+    quiz: quizId,
+    status: 'in_progress'
+  });
 
-    if (isCorrect) {
-      earnedPoints += question.points;
-    }
+  if (!attempt) {
+    throw new AppError('Quiz attempt not found or already submitted', 404);
+  }
 
-    return {
-      questionId: answer.questionId,
-      questionText: question.question,
-      selectedOptions: answer.selectedOptions,
-      isCorrect,
-      pointsEarned: isCorrect ? question.points : 0
-    };
-  }).filter(a => a !== null);
-
-  // Update attempt
-  attempt.answers = processedAnswers;
-  attempt.totalPoints = totalPoints;
-  attempt.earnedPoints = earnedPoints;
-  attempt.calculateScore();
-  attempt.checkPassed(quiz.passingScore);
-  attempt.markAsSubmitted();
-
-  await attempt.save();
+  // Every question counts; after the deadline the saved answers are graded instead
+  await finalizeAttempt(attempt, quiz, answers);
 
   logger.info('Quiz submitted', {
     studentId,
@@ -219,25 +230,21 @@ exports.submitQuiz = asyncHandler(async (req, res) => {
   // Return results with correct answers if feedback is enabled
   let detailedResults = null;
   if (quiz.showFeedback) {
-    detailedResults = attempt.answers.map(answer => {
-      const question = quiz.questions.id(answer.questionId);
-      return {
-        question: answer.questionText,
-        selectedOptions: answer.selectedOptions,
-        correctOptions: question.options
-          .map((opt, idx) => (opt.isCorrect ? idx : null))
-          .filter(idx => idx !== null),
-        isCorrect: answer.isCorrect,
-        pointsEarned: answer.pointsEarned,
-        explanation: question.explanation
-      };
-    });
+    const questions = questionSet(attempt, quiz);
+    detailedResults = attempt.answers.map(answer => answerFeedback(questions.id(answer.questionId), answer));
   }
 
   res.json({
     success: true,
-    message: attempt.passed ? 'Congratulations! You passed the quiz!' : 'Quiz completed. Keep trying!',
+    message: attempt.autoSubmitted
+      ? 'Time ran out; your saved answers were submitted'
+      : attempt.pendingReview
+        ? 'Quiz submitted. Some answers are waiting for your trainer to grade them'
+        : attempt.passed ? 'Congratulations! You passed the quiz!' : 'Quiz completed. Keep trying!',
     data: {
+      status: attempt.status,
+      autoSubmitted: attempt.autoSubmitted,
+      pendingReview: attempt.pendingReview,
       score: attempt.score,
       earnedPoints: attempt.earnedPoints,
       totalPoints: attempt.totalPoints,
@@ -260,9 +267,9 @@ exports.getQuizAttempts = asyncHandler(async (req, res) => {
   const attempts = await QuizAttempt.find({
     student: studentId,
     quiz: quizId,
-    status: 'submitted'
+    status: { $in: QuizAttempt.FINISHED_STATUSES }
   })
-    .select('attemptNumber score earnedPoints totalPoints passed submittedAt timeSpent')
+    .select('attemptNumber status autoSubmitted pendingReview score earnedPoints totalPoints passed submittedAt timeSpent')
     .sort({ attemptNumber: -1 });
 
   // Get best score
@@ -287,7 +294,7 @@ exports.getQuizResults = asyncHandler(async (req, res) => {
     _id: attemptId,
     student: studentId,
     quiz: quizId,
-    status: 'submitted'
+    status: { $in: QuizAttempt.FINISHED_STATUSES }
   }).populate('quiz');
 
   if (!attempt) {
@@ -299,17 +306,11 @@ exports.getQuizResults = asyncHandler(async (req, res) => {
   // Build detailed results if feedback is enabled
   let detailedResults = null;
   if (quiz.showFeedback) {
+    const questions = questionSet(attempt, quiz);
     detailedResults = attempt.answers.map(answer => {
-      const question = quiz.questions.id(answer.questionId);
+      const question = questions.id(answer.questionId);
       return {
-        question: answer.questionText,
-        selectedOptions: answer.selectedOptions,
-        correctOptions: question.options
-          .map((opt, idx) => (opt.isCorrect ? idx : null))
-          .filter(idx => idx !== null),
-        isCorrect: answer.isCorrect,
-        pointsEarned: answer.pointsEarned,
-        explanation: question.explanation,
+        ...answerFeedback(question, answer),
         allOptions: question.options.map((opt, idx) => ({
           index: idx,
           text: opt.text,
@@ -330,12 +331,15 @@ exports.getQuizResults = asyncHandler(async (req, res) => {
         totalPoints: attempt.totalPoints,
         passed: attempt.passed,
         timeSpent: attempt.timeSpent,
-        submittedAt: attempt.submittedAt
+        submittedAt: attempt.submittedAt,
+        status: attempt.status,
+        autoSubmitted: attempt.autoSubmitted,
+        pendingReview: attempt.pendingReview
       },
       quiz: {
         title: quiz.title,
         passingScore: quiz.passingScore,
-        totalQuestions: quiz.questions.length
+        totalQuestions: attempt.answers.length
       },
       detailedResults
     }
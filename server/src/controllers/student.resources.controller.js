@@ -0,0 +1,151 @@
+const path = require('path');
+const fs = require('fs');
+const bcrypt = require('bcryptjs');
+const asyncHandler = require('../utils/asyncHandler');
+const { BadRequestError, ForbiddenError, NotFoundError } = require('../utils/errors');
+const logger = require('../utils/logger');
+const Group = require('../models/Group');
+const TrainerResource = require('../models/TrainerResource');
+
+// Never expose password hashes or other students' access history
+const HIDDEN_FIELDS = '-password -accessLog -previousVersions';
+
+/**
+ * Build the query for resources visible to a student:
+ * active, not expired, and shared with one of the student's groups
+ * (public resources are visible to every group of their course)
+ */
+async function buildAccessQuery(studentId, courseId) {
+  const groupQuery = { students: studentId };
+  if (courseId) {
+    groupQuery.courseId = courseId;
+  }
+
+  const groups = await Group.find(groupQuery).select('_id courseId');
+  const groupIds = groups.map(g => g._id);
+  const courseIds = groups.map(g => g.courseId).filter(Boolean);
+
+  return {
+    status: 'active',
+    $and: [
+      { $or: [{ expiresAt: null }, { expiresAt: { $gt: new Date() } }] },
+      {
+        $or: [
+          { 'sharedWith.groupId': { $in: groupIds } },
+          { isPublic: true, courseId: { $in: courseIds } }
+        ]
+      }
+    ]
+  };
+}
+
+/**
+ * Load a resource the student may access, checking its password if protected
+ */
+async function loadAccessibleResource(req) {
+  const studentId = req.user._id;
+  const query = await buildAccessQuery(studentId);
+
+  const resource = await TrainerResource.findOne({ _id: req.params.resourceId, ...query })
+    .select('+password');
+
+  if (!resource) {
+    throw new NotFoundError('Resource');
+  }
+
+  if (resource.requiresPassword) {
+    const { password } = req.body || {};
+    if (!password || !resource.password || !(await bcrypt.compare(password, resource.password))) {
+      throw new ForbiddenError('Incorrect resource password');
+    }
+  }
+
+  return resource;
+}
+
+// Files a browser would run as a page from the API origin; never shown inline
+const ACTIVE_CONTENT = ['.svg', '.html', '.htm', '.xhtml', '.xml'];
+
+/**
+ * Stream the resource file to the client
+ * Inline files are sandboxed so trainer uploads cannot run script
+ */
+function sendResourceFile(res, resource, disposition) {
+  const filePath = path.join(__dirname, '../..', resource.fileUrl);
+  if (!fs.existsSync(filePath)) {
+    throw new NotFoundError('Resource file');
+  }
+
+  res.setHeader('X-Content-Type-Options', 'nosniff');
+
+  const ext = path.extname(resource.fileUrl).toLowerCase();
+  if (disposition === 'inline' && !ACTIVE_CONTENT.includes(ext)) {
+    res.setHeader('Content-Security-Policy', 'sandbox');
+    res.sendFile(filePath);
+  } else {
+    res.download(filePath, resource.originalName);
+  }
+}
+
+// @desc    Get resources shared with the student's groups
+// @route   GET /api/student/resources?courseId=
+// @access  Private (Student)
+exports.getResources = asyncHandler(async (req, res) => {
+  const studentId = req.user._id;
+  const { courseId, category } = req.query;
+
+  const query = await buildAccessQuery(studentId, courseId);
+  if (category) {
+    query.category = category;
+  }
+
+  const resources = await TrainerResource.find(query)
+    .select(HIDDEN_FIELDS)
+    .populate('trainerId', 'name')
+    .populate('courseId', 'title')
+    .populate('sessionId', 'title scheduledDate')
+    .sort({ createdAt: -1 });
+
+  logger.info('Student resources retrieved', {
+    studentId,
+    courseId,
+    count: resources.length
+  });
+
+  res.json({
+    success: true,
+    count: resources.length,
+    data: resources
+  });
+});
+
+// @desc    Open a resource for viewing (counts as a view)
+// @route   POST /api/student/resources/:resourceId/view
+// @access  Private (Student)
+exports.viewResource = asyncHandler(async (req, res) => {
+  const resource = await loadAccessibleResource(req);
+
+  await resource.recordAccess(req.user._id, 'view', req.ip);
+
+  sendResourceFile(res, resource, 'inline');
+});
+
+// @desc    Download a resource (counts as a download)
+// @route   POST /api/student/resources/:resourceId/download
+// @access  Private (Student)
+exports.downloadResource = asyncHandler(async (req, res) => {
+  const resource = await loadAccessibleResource(req);
+
+  if (!resource.isDownloadable) {
+    throw new BadRequestError('This resource can only be viewed');
+  }
+
+  await resource.recordAccess(req.user._id, 'download', req.ip);
+
+  logger.info('Resource downloaded', {
+    studentId: req.user._id,
+    resourceId: resource._id
+  });
+
+  sendResourceFile(res, resource, 'attachment');
+});
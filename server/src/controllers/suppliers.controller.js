@@ -0,0 +1,133 @@
+const Joi = require("joi");
+const Supplier = require("../models/Supplier");
+const Part = require("../models/Part");
+const PurchaseOrder = require("../models/PurchaseOrder");
+const PurchaseRequisition = require("../models/PurchaseRequisition");
+const asyncHandler = require("../utils/asyncHandler");
+const { NotFoundError, ValidationError, ConflictError } = require("../utils/errors");
+const logger = require("../utils/logger");
+
+const supplierSchema = Joi.object({
+  name: Joi.string().trim().required(),
+  contactName: Joi.string().allow("").optional(),
+  email: Joi.string().email().allow("").optional(),
+  phone: Joi.string().allow("").optional(),
+  website: Joi.string().allow("").optional(),
+  notes: Joi.string().allow("").optional(),
+  isActive: Joi.boolean().optional(),
+});
+
+const updateSchema = supplierSchema.fork(["name"], (schema) => schema.optional());
+
+/**
+ * List suppliers, with the number of parts preferring each
+ * GET /api/suppliers
+ */
+const listSuppliers = asyncHandler(async (req, res) => {
+  const filter = req.query.active === "true" ? { isActive: true } : {};
+
+  logger.logDB('find', 'Supplier', filter);
+
+  const [suppliers, partCounts] = await Promise.all([
+    Supplier.find(filter).sort({ name: 1 }).lean(),
+    Part.aggregate([
+      { $match: { supplierId: { $ne: null } } },
+      { $group: { _id: "$supplierId", count: { $sum: 1 } } },
+    ]),
+  ]);
+
+  const countBySupplier = new Map(partCounts.map((c) => [String(c._id), c.count]));
+
+  logger.info(`Listed ${suppliers.length} suppliers`);
+  res.json(suppliers.map((s) => ({ ...s, partCount: countBySupplier.get(String(s._id)) || 0 })));
+});
+
+/**
+ * Create a supplier
+ * POST /api/suppliers
+ */
+const createSupplier = asyncHandler(async (req, res) => {
+  const { error, value } = supplierSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  if (await Supplier.exists({ name: value.name })) {
+    throw new ConflictError(`A supplier named "${value.name}" already exists`);
+  }
+
+  logger.logDB('create', 'Supplier', { name: value.name });
+
+  const supplier = await Supplier.create(value);
+
+  logger.info(`Created supplier: ${supplier.name} (${supplier._id})`);
+  res.status(201).json(supplier);
+});
+
+/**
+ * Update a supplier
+ * PUT /api/suppliers/:id
+ */
+const updateSupplier = asyncHandler(async (req, res) => {
+  const { error, value } = updateSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  if (value.name && await Supplier.exists({ name: value.name, _id: { $ne: req.params.id } })) {
+    throw new ConflictError(`A supplier named "${value.name}" already exists`);
+  }
+
+  logger.logDB('findByIdAndUpdate', 'Supplier', { id: req.params.id });
+
+  const supplier = await Supplier.findByIdAndUpdate(req.params.id, value, {
+    new: true,
+    runValidators: true
+  });
+
+  if (!supplier) {
+    throw new NotFoundError('Supplier');
+  }
+
+  logger.info(`Updated supplier: ${supplier.name} (${supplier._id})`);
+  res.json(supplier);
+});
+
+/**
+ * Delete a supplier
+ * Suppliers with purchase orders are deactivated instead, to keep history
+ * DELETE /api/suppliers/:id
+ */
+const deleteSupplier = asyncHandler(async (req, res) => {
+  logger.logDB('findById', 'Supplier', { id: req.params.id });
+
+  const supplier = await Supplier.findById(req.params.id);
+
+  if (!supplier) {
+    throw new NotFoundError('Supplier');
+  }
+
+  if (await PurchaseOrder.exists({ supplierId: supplier._id })) {
+    supplier.isActive = false;
+    await supplier.save();
+
+    logger.info(`Deactivated supplier with orders: ${supplier.name} (${supplier._id})`);
+    return res.json({ message: 'Supplier has purchase orders and was deactivated', supplier });
+  }
+
+  await Part.updateMany({ supplierId: supplier._id }, { $unset: { supplierId: 1 } });
+  await PurchaseRequisition.updateMany({ supplierId: supplier._id }, { $unset: { supplierId: 1 } });
+  await supplier.deleteOne();
+
+  logger.info(`Deleted supplier: ${supplier.name} (${supplier._id})`);
+  res.json({ message: 'Supplier deleted' });
+});
+
+module.exports = {
+  listSuppliers,
+  createSupplier,
+  updateSupplier,
+  deleteSupplier,
+};
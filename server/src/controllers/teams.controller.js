@@ -1,17 +1,31 @@
 const Joi = require("joi");
 const Team = require("../models/Team");
+const Competition = require("../models/Competition");
 const asyncHandler = require("../utils/asyncHandler");
-const { NotFoundError, ValidationError } = require("../utils/errors");
+const { NotFoundError, ValidationError, BadRequestError } = require("../utils/errors");
 const logger = require("../utils/logger");
+const {
+  APPROVED_TEAM_FILTER,
+  ACTIVE_TEAM_FILTER,
+  registrationState,
+  isVisibleTo,
+  isOrganizer,
+} = require("../services/competitionLifecycle.service");
+const { notifyTeamReviewed } = require("../services/notification.service");
 
 /**
  * List all teams (with optional filters)
+ * Organizers see every registration; others see approved teams and their own
  * GET /api/teams
  */
 const listTeams = asyncHandler(async (req, res) => {
   const filter = {};
   if (req.query.competitionId) filter.competitionId = req.query.competitionId;
   if (req.query.coachId) filter.coachId = req.query.coachId;
+  if (req.query.status) filter.status = req.query.status;
+  if (!isOrganizer(req.user)) {
+    filter.$or = [APPROVED_TEAM_FILTER, { coachId: req.user.id }];
+  }
 
   logger.logDB('find', 'Team', { filter });
 
@@ -28,7 +42,8 @@ const createSchema = Joi.object({
 });
 
 /**
- * Create a new team
+ * Register a new team for a competition
+ * The team waits for organizer approval; pending teams count towards maxTeams
  * POST /api/teams
  */
 const createTeam = asyncHandler(async (req, res) => {
@@ -38,9 +53,27 @@ const createTeam = asyncHandler(async (req, res) => {
     throw new ValidationError(error.message);
   }
 
+  const comp = await Competition.findById(value.competitionId);
+
+  if (!comp || !isVisibleTo(comp, req.user)) {
+    throw new NotFoundError('Competition');
+  }
+
+  const registration = registrationState(comp);
+  if (!registration.open) {
+    throw new BadRequestError(registration.message, registration.code);
+  }
+
+  if (comp.maxTeams) {
+    const count = await Team.countDocuments({ competitionId: comp._id, ...ACTIVE_TEAM_FILTER });
+    if (count >= comp.maxTeams) {
+      throw new BadRequestError('Max teams reached for this competition', 'MAX_TEAMS_REACHED');
+    }
+  }
+
   logger.logDB('create', 'Team', { name: value.name, coachId: req.user.id });
 
-  const team = await Team.create({ ...value, coachId: req.user.id });
+  const team = await Team.create({ ...value, coachId: req.user.id, status: "pending" });
 
   logger.info(`Created team: ${team.name} (${team._id}) by coach ${req.user.id}`);
   res.status(201).json(team);
@@ -112,4 +145,55 @@ const deleteTeam = asyncHandler(async (req, res) => {
   res.json({ success: true, message: 'Team deleted successfully' });
 });
 
-module.exports = { listTeams, getTeamById, createTeam, updateTeam, deleteTeam };
+const reviewSchema = Joi.object({
+  status: Joi.string().valid("approved", "rejected").required(),
+  reason: Joi.string().trim().max(500).allow(""),
+});
+
+/**
+ * Approve or reject a team registration
+ * Approving a rejected team is refused if the competition is already full
+ * PATCH /api/teams/:id/review
+ */
+const reviewTeam = asyncHandler(async (req, res) => {
+  const { error, value } = reviewSchema.validate(req.body);
+
+  if (error) {
+    throw new ValidationError(error.message);
+  }
+
+  const team = await Team.findById(req.params.id);
+
+  if (!team) {
+    throw new NotFoundError('Team');
+  }
+
+  const comp = await Competition.findById(team.competitionId);
+
+  if (!comp) {
+    throw new NotFoundError('Competition');
+  }
+  if (!['registration', 'judging'].includes(comp.status)) {
+    throw new BadRequestError('Teams can only be reviewed during registration or judging', 'REVIEW_CLOSED');
+  }
+
+  if (value.status === 'approved' && team.status === 'rejected' && comp.maxTeams) {
+    const count = await Team.countDocuments({ competitionId: comp._id, ...ACTIVE_TEAM_FILTER });
+    if (count >= comp.maxTeams) {
+      throw new BadRequestError('Max teams reached for this competition', 'MAX_TEAMS_REACHED');
+    }
+  }
+
+  team.status = value.status;
+  team.reviewedBy = req.user.id;
+  team.reviewedAt = new Date();
+  team.rejectionReason = value.status === 'rejected' ? value.reason || undefined : undefined;
+  await team.save();
+
+  logger.info(`Team ${team.name} (${team._id}) ${team.status} by ${req.user.id}`);
+  notifyTeamReviewed(team, comp);
+
+  res.json(team);
+});
+
+module.exports = { listTeams, getTeamById, createTeam, updateTeam, deleteTeam, reviewTeam };
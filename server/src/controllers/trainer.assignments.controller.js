@@ -0,0 +1,754 @@
+const Assignment = require('../models/Assignment');
+const AssignmentSubmission = require('../models/AssignmentSubmission');
+const Module = require('../models/Module');
+const Course = require('../models/Course');
+const Group = require('../models/Group');
+const { notifySubmissionGraded, notifyResubmissionRequested } = require('../services/notification.service');
+
+const EDITABLE_FIELDS = [
+  'title',
+  'description',
+  'instructions',
+  'dueDate',
+  'maxScore',
+  'allowedFileTypes',
+  'maxFileSize',
+  'maxFiles',
+  'allowLateSubmission',
+  'lateSubmissionDeadline',
+  'latePenalty',
+  'resources',
+  'rubric'
+];
+
+async function checkTrainerCourseAccess(courseId, trainerId) {
+  const course = await Course.findById(courseId);
+  if (!course) return { hasAccess: false, course: null };
+
+  // Check if trainer is course instructor
+  if (course.instructor && course.instructor.toString() === trainerId.toString()) {
+    return { hasAccess: true, course };
+  }
+
+  // Check if trainer has groups for this course
+  const hasGroups = await Group.exists({ courseId, trainerId });
+  return { hasAccess: !!hasGroups, course };
+}
+
+// Load a submission together with its assignment and check the trainer's course access
+async function loadTrainerSubmission(submissionId, trainerId) {
+  const submission = await AssignmentSubmission.findById(submissionId).populate('assignment');
+  if (!submission || !submission.assignment) return { submission: null, hasAccess: false };
+
+  const { hasAccess } = await checkTrainerCourseAccess(submission.assignment.course, trainerId);
+  return { submission, hasAccess };
+}
+
+/**
+ * @desc    Get all assignments for the trainer's courses
+ * @route   GET /api/trainer/assignments
+ * @access  Private (Trainer)
+ */
+exports.getAllAssignments = async (req, res) => {
+  try {
+    const trainerId = req.user._id || req.user.id;
+    const { courseId } = req.query;
+
+    // Find all courses where trainer is instructor or has groups
+    const instructorCourses = await Course.find({ instructor: trainerId }).distinct('_id');
+    const groupCourses = await Group.find({ trainerId }).distinct('courseId');
+    let courseIds = [...new Set([...instructorCourses, ...groupCourses].map(id => id.toString()))];
+
+    if (courseId) {
+      courseIds = courseIds.filter(id => id === courseId);
+    }
+
+    const assignments = await Assignment.find({ course: { $in: courseIds }, isActive: true })
+      .populate('course', 'title category')
+      .populate('module', 'title order')
+      .sort({ dueDate: -1 })
+      .lean();
+
+    // Submission counts per assignment
+    const counts = await AssignmentSubmission.aggregate([
+      { $match: { assignment: { $in: assignments.map(a => a._id) } } },
+      {
+        $group: {
+          _id: '$assignment',
+          students: { $addToSet: '$student' },
+          pending: {
+            $sum: { $cond: [{ $in: ['$status', ['submitted', 'grading']] }, 1, 0] }
+          }
+        }
+      }
+    ]);
+    const countMap = new Map(counts.map(c => [c._id.toString(), c]));
+
+    const data = assignments.map(assignment => {
+      const count = countMap.get(assignment._id.toString());
+      return {
+        ...assignment,
+        submissionStats: {
+          submitted: count ? count.students.length : 0,
+          pendingGrading: count ? count.pending : 0
+        }
+      };
+    });
+
+    res.status(200).json({
+      success: true,
+      count: data.length,
+      data
+    });
+  } catch (error) {
+    console.error('Error fetching assignments:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch assignments',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Get modules of a course to attach assignments to
+ * @route   GET /api/trainer/assignments/course/:courseId/modules
+ * @access  Private (Trainer)
+ */
+exports.getCourseModules = async (req, res) => {
+  try {
+    const { courseId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const { hasAccess } = await checkTrainerCourseAccess(courseId, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this course'
+      });
+    }
+
+    const modules = await Module.find({ course: courseId })
+      .select('title order type assignment')
+      .sort({ order: 1 });
+
+    res.status(200).json({
+      success: true,
+      count: modules.length,
+      data: modules
+    });
+  } catch (error) {
+    console.error('Error fetching course modules:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch course modules',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Get assignment by ID
+ * @route   GET /api/trainer/assignments/:assignmentId
+ * @access  Private (Trainer)
+ */
+exports.getAssignmentById = async (req, res) => {
+  try {
+    const { assignmentId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const assignment = await Assignment.findById(assignmentId)
+      .populate('course', 'title category')
+      .populate('module', 'title order');
+
+    if (!assignment || !assignment.isActive) {
+      return res.status(404).json({
+        success: false,
+        message: 'Assignment not found'
+      });
+    }
+
+    const { hasAccess } = await checkTrainerCourseAccess(assignment.course._id, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this assignment'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: assignment
+    });
+  } catch (error) {
+    console.error('Error fetching assignment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch assignment',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Create a new assignment
+ * @route   POST /api/trainer/assignments
+ * @access  Private (Trainer)
+ */
+exports.createAssignment = async (req, res) => {
+  try {
+    const trainerId = req.user._id || req.user.id;
+    const { courseId, moduleId, title, description, dueDate } = req.body;
+
+    // Validate required fields
+    if (!courseId || !title || !description || !dueDate) {
+      return res.status(400).json({
+        success: false,
+        message: 'Course ID, title, description and due date are required'
+      });
+    }
+
+    // Verify trainer has access to this course
+    const { hasAccess, course } = await checkTrainerCourseAccess(courseId, trainerId);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this course'
+      });
+    }
+
+    // If module ID provided, verify it exists and is free
+    let module;
+    if (moduleId) {
+      module = await Module.findOne({ _id: moduleId, course: courseId });
+      if (!module) {
+        return res.status(404).json({
+          success: false,
+          message: 'Module not found'
+        });
+      }
+      if (module.assignment && await Assignment.exists({ _id: module.assignment, isActive: true })) {
+        return res.status(400).json({
+          success: false,
+          message: 'This module already has an assignment'
+        });
+      }
+    } else {
+      // Create a default module for this assignment
+      module = await Module.create({
+        course: courseId,
+        title: `Assignment Module: ${title}`,
+        description: `Module for assignment: ${title}`,
+        order: 999, // Put at end
+        type: 'assignment'
+      });
+    }
+
+    const data = {};
+    EDITABLE_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) data[field] = req.body[field];
+    });
+
+    const assignment = await Assignment.create({
+      ...data,
+      module: module._id,
+      course: courseId,
+      createdBy: trainerId
+    });
+
+    module.assignment = assignment._id;
+    await module.save();
+
+    const populatedAssignment = await Assignment.findById(assignment._id)
+      .populate('course', 'title category')
+      .populate('module', 'title order');
+
+    res.status(201).json({
+      success: true,
+      message: 'Assignment created successfully',
+      data: populatedAssignment
+    });
+  } catch (error) {
+    console.error('Error creating assignment:', error);
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(e => e.message).join(', ')
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to create assignment',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Update assignment
+ * @route   PUT /api/trainer/assignments/:assignmentId
+ * @access  Private (Trainer)
+ */
+exports.updateAssignment = async (req, res) => {
+  try {
+    const { assignmentId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const assignment = await Assignment.findById(assignmentId);
+    if (!assignment || !assignment.isActive) {
+      return res.status(404).json({
+        success: false,
+        message: 'Assignment not found'
+      });
+    }
+
+    const { hasAccess } = await checkTrainerCourseAccess(assignment.course, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this assignment'
+      });
+    }
+
+    // Rubric criteria can't change once submissions have been graded against them
+    if (req.body.rubric !== undefined) {
+      const hasGraded = await AssignmentSubmission.exists({
+        assignment: assignmentId,
+        'grade.rubricScores.0': { $exists: true }
+      });
+      if (hasGraded) {
+        return res.status(400).json({
+          success: false,
+          message: 'Cannot change the rubric after submissions have been graded'
+        });
+      }
+    }
+
+    EDITABLE_FIELDS.forEach(field => {
+      if (req.body[field] !== undefined) assignment[field] = req.body[field];
+    });
+    await assignment.save();
+
+    const populatedAssignment = await Assignment.findById(assignment._id)
+      .populate('course', 'title category')
+      .populate('module', 'title order');
+
+    res.status(200).json({
+      success: true,
+      message: 'Assignment updated successfully',
+      data: populatedAssignment
+    });
+  } catch (error) {
+    console.error('Error updating assignment:', error);
+    if (error.name === 'ValidationError') {
+      return res.status(400).json({
+        success: false,
+        message: Object.values(error.errors).map(e => e.message).join(', ')
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update assignment',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Delete assignment (submissions are kept)
+ * @route   DELETE /api/trainer/assignments/:assignmentId
+ * @access  Private (Trainer)
+ */
+exports.deleteAssignment = async (req, res) => {
+  try {
+    const { assignmentId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const assignment = await Assignment.findById(assignmentId);
+    if (!assignment || !assignment.isActive) {
+      return res.status(404).json({
+        success: false,
+        message: 'Assignment not found'
+      });
+    }
+
+    const { hasAccess } = await checkTrainerCourseAccess(assignment.course, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this assignment'
+      });
+    }
+
+    assignment.isActive = false;
+    await assignment.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Assignment deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting assignment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete assignment',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Get the latest submission of every student in the trainer's groups
+ * @route   GET /api/trainer/assignments/:assignmentId/submissions
+ * @access  Private (Trainer)
+ */
+exports.getAssignmentSubmissions = async (req, res) => {
+  try {
+    const { assignmentId } = req.params;
+    const { groupId } = req.query;
+    const trainerId = req.user._id || req.user.id;
+
+    const assignment = await Assignment.findById(assignmentId)
+      .populate('course', 'title')
+      .populate('module', 'title order');
+    if (!assignment || !assignment.isActive) {
+      return res.status(404).json({
+        success: false,
+        message: 'Assignment not found'
+      });
+    }
+
+    const { hasAccess } = await checkTrainerCourseAccess(assignment.course._id, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this assignment'
+      });
+    }
+
+    const groups = await Group.find({ trainerId, courseId: assignment.course._id })
+      .select('name students')
+      .populate('students', 'name email');
+
+    const selectedGroups = groupId
+      ? groups.filter(g => g._id.toString() === groupId)
+      : groups;
+    if (groupId && selectedGroups.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'Group not found'
+      });
+    }
+
+    const studentIds = selectedGroups.flatMap(g => g.students.map(s => s._id));
+    const submissions = await AssignmentSubmission.find({
+      assignment: assignmentId,
+      student: { $in: studentIds }
+    })
+      .select('-comments')
+      .sort({ version: -1 });
+
+    // Latest version first, so the first match per student is the latest
+    const byStudent = new Map();
+    submissions.forEach(submission => {
+      const key = submission.student.toString();
+      const entry = byStudent.get(key) || { latest: submission, count: 0 };
+      entry.count += 1;
+      byStudent.set(key, entry);
+    });
+
+    const students = selectedGroups.flatMap(group =>
+      group.students.map(student => {
+        const entry = byStudent.get(student._id.toString());
+        return {
+          student,
+          group: { _id: group._id, name: group.name },
+          submission: entry ? entry.latest : null,
+          submissionCount: entry ? entry.count : 0
+        };
+      })
+    );
+
+    const submitted = students.filter(s => s.submission);
+    const summary = {
+      totalStudents: students.length,
+      submitted: submitted.length,
+      graded: submitted.filter(s => s.submission.status === 'graded').length,
+      pendingGrading: submitted.filter(s => ['submitted', 'grading'].includes(s.submission.status)).length,
+      resubmitRequired: submitted.filter(s => s.submission.status === 'resubmit_required').length,
+      late: submitted.filter(s => s.submission.isLate).length
+    };
+
+    res.status(200).json({
+      success: true,
+      data: {
+        assignment,
+        groups: groups.map(g => ({ _id: g._id, name: g.name })),
+        students,
+        summary
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching assignment submissions:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch submissions',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Get a submission with its earlier versions
+ * @route   GET /api/trainer/assignments/submissions/:submissionId
+ * @access  Private (Trainer)
+ */
+exports.getSubmissionById = async (req, res) => {
+  try {
+    const { submissionId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const { submission, hasAccess } = await loadTrainerSubmission(submissionId, trainerId);
+    if (!submission) {
+      return res.status(404).json({
+        success: false,
+        message: 'Submission not found'
+      });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this submission'
+      });
+    }
+
+    await submission.populate([
+      { path: 'student', select: 'name email' },
+      { path: 'grade.gradedBy', select: 'name' },
+      { path: 'comments.author', select: 'name role' }
+    ]);
+
+    const history = await AssignmentSubmission.find({
+      student: submission.student._id,
+      assignment: submission.assignment._id,
+      _id: { $ne: submission._id }
+    })
+      .select('version submittedAt isLate status grade.score files')
+      .sort({ version: -1 });
+
+    res.status(200).json({
+      success: true,
+      data: {
+        submission,
+        history
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching submission:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch submission',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Grade a submission against the rubric, applying the late penalty
+ * @route   PUT /api/trainer/assignments/submissions/:submissionId/grade
+ * @access  Private (Trainer)
+ */
+exports.gradeSubmission = async (req, res) => {
+  try {
+    const { submissionId } = req.params;
+    const { rubricScores = [], score, feedback } = req.body;
+    const trainerId = req.user._id || req.user.id;
+
+    const { submission, hasAccess } = await loadTrainerSubmission(submissionId, trainerId);
+    if (!submission) {
+      return res.status(404).json({
+        success: false,
+        message: 'Submission not found'
+      });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this submission'
+      });
+    }
+
+    const assignment = submission.assignment;
+    let rawPoints;
+    const scoredCriteria = [];
+
+    if (assignment.rubric.length > 0) {
+      // Every criterion needs a score within its points
+      for (const criterion of assignment.rubric) {
+        const entry = rubricScores.find(r => r.criteriaId && r.criteriaId.toString() === criterion._id.toString());
+        const points = entry ? Number(entry.pointsEarned) : NaN;
+        if (Number.isNaN(points) || points < 0 || points > criterion.points) {
+          return res.status(400).json({
+            success: false,
+            message: `Score for "${criterion.criteria}" must be between 0 and ${criterion.points}`
+          });
+        }
+        scoredCriteria.push({ criteriaId: criterion._id, pointsEarned: points });
+      }
+      rawPoints = scoredCriteria.reduce((sum, r) => sum + r.pointsEarned, 0);
+    } else {
+      rawPoints = Number(score);
+      if (score === undefined || score === null || Number.isNaN(rawPoints) || rawPoints < 0 || rawPoints > assignment.maxScore) {
+        return res.status(400).json({
+          success: false,
+          message: `Score must be between 0 and ${assignment.maxScore}`
+        });
+      }
+    }
+
+    const result = assignment.calculateGrade(rawPoints, submission.isLate);
+    submission.gradeSubmission(result.score, feedback, trainerId, {
+      rawScore: result.rawScore,
+      latePenalty: result.latePenalty,
+      rubricScores: scoredCriteria
+    });
+    await submission.save();
+    await notifySubmissionGraded(submission, assignment);
+    await submission.populate('grade.gradedBy', 'name');
+
+    res.status(200).json({
+      success: true,
+      message: 'Submission graded successfully',
+      data: submission
+    });
+  } catch (error) {
+    console.error('Error grading submission:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to grade submission',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Ask the student to submit a new version
+ * @route   POST /api/trainer/assignments/submissions/:submissionId/resubmit
+ * @access  Private (Trainer)
+ */
+exports.requestResubmission = async (req, res) => {
+  try {
+    const { submissionId } = req.params;
+    const { feedback, deadline } = req.body;
+    const trainerId = req.user._id || req.user.id;
+
+    const { submission, hasAccess } = await loadTrainerSubmission(submissionId, trainerId);
+    if (!submission) {
+      return res.status(404).json({
+        success: false,
+        message: 'Submission not found'
+      });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this submission'
+      });
+    }
+
+    // Only the latest version can be sent back
+    const latest = await AssignmentSubmission.getLatestSubmission(submission.student, submission.assignment._id);
+    if (latest._id.toString() !== submission._id.toString()) {
+      return res.status(400).json({
+        success: false,
+        message: 'A newer version of this submission exists'
+      });
+    }
+
+    let deadlineDate = null;
+    if (deadline) {
+      deadlineDate = new Date(deadline);
+      if (Number.isNaN(deadlineDate.getTime()) || deadlineDate <= new Date()) {
+        return res.status(400).json({
+          success: false,
+          message: 'Resubmission deadline must be in the future'
+        });
+      }
+    }
+
+    submission.requestResubmission(feedback, trainerId, deadlineDate);
+    await submission.save();
+    await notifyResubmissionRequested(submission, submission.assignment);
+    await submission.populate('grade.gradedBy', 'name');
+
+    res.status(200).json({
+      success: true,
+      message: 'Resubmission requested successfully',
+      data: submission
+    });
+  } catch (error) {
+    console.error('Error requesting resubmission:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to request resubmission',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Add a trainer comment to a submission
+ * @route   POST /api/trainer/assignments/submissions/:submissionId/comments
+ * @access  Private (Trainer)
+ */
+exports.addComment = async (req, res) => {
+  try {
+    const { submissionId } = req.params;
+    const { text } = req.body;
+    const trainerId = req.user._id || req.user.id;
+
+    if (!text) {
+      return res.status(400).json({
+        success: false,
+        message: 'Comment text is required'
+      });
+    }
+
+    const { submission, hasAccess } = await loadTrainerSubmission(submissionId, trainerId);
+    if (!submission) {
+      return res.status(404).json({
+        success: false,
+        message: 'Submission not found'
+      });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this submission'
+      });
+    }
+
+    submission.addComment(trainerId, text);
+    await submission.save();
+    await submission.populate('comments.author', 'name role');
+
+    res.status(200).json({
+      success: true,
+      message: 'Comment added successfully',
+      data: submission.comments
+    });
+  } catch (error) {
+    console.error('Error adding comment:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to add comment',
+      error: error.message
+    });
+  }
+};
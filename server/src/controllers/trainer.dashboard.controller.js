@@ -46,7 +46,8 @@ exports.getDashboardStats = async (req, res) => {
       weekSessions,
       totalStudents,
       recentEvaluations,
-      upcomingSessions
+      upcomingSessions,
+      resourceStats
     ] = await Promise.all([
       // Active groups count
       Group.countDocuments({
@@ -93,7 +94,10 @@ exports.getDashboardStats = async (req, res) => {
         trainerId,
         scheduledDate: { $gte: now },
         status: 'scheduled'
-      })
+      }),
+
+      // Resource library usage
+      TrainerResource.getTrainerStats(trainerId)
     ]);
 
     // Calculate average rating from recent evaluations
@@ -115,6 +119,11 @@ exports.getDashboardStats = async (req, res) => {
       totalStudents: totalStudents.length > 0 ? totalStudents[0].total : 0,
       upcomingSessions,
       averageRating: parseFloat(averageRating),
+      resources: {
+        total: resourceStats.totalResources,
+        views: resourceStats.totalViews,
+        downloads: resourceStats.totalDownloads
+      },
       todaysSessionsList: todaysSessions.map(session => ({
         _id: session._id,
         title: session.title,
@@ -17,6 +17,7 @@ const Session = require('../models/Session');
 const Group = require('../models/Group');
 const User = require('../models/User');
 const EvaluationCriteria = require('../models/EvaluationCriteria');
+const { notifyEvaluationShared } = require('../services/notification.service');
 
 /**
  * @route   POST /api/trainer/evaluations
@@ -719,7 +720,11 @@ exports.shareEvaluation = async (req, res) => {
     }
 
     if (shareWithStudent) {
+      const alreadyShared = evaluation.visibility.sharedWithStudent;
       await evaluation.shareWithStudent();
+      if (!alreadyShared) {
+        await notifyEvaluationShared(evaluation);
+      }
     }
 
     if (shareWithParent) {
@@ -0,0 +1,315 @@
+const QuestionBankItem = require('../models/QuestionBankItem');
+const Quiz = require('../models/Quiz');
+const Course = require('../models/Course');
+const Group = require('../models/Group');
+const { pickQuestionFields, refreshItemStats } = require('../services/questionBank.service');
+
+async function checkTrainerCourseAccess(courseId, trainerId) {
+  const course = await Course.findById(courseId);
+  if (!course) return { hasAccess: false, course: null };
+
+  // Check if trainer is course instructor
+  if (course.instructor && course.instructor.toString() === trainerId.toString()) {
+    return { hasAccess: true, course };
+  }
+
+  // Check if trainer has groups for this course
+  const hasGroups = await Group.exists({ courseId, trainerId });
+  return { hasAccess: !!hasGroups, course };
+}
+
+// Tags as stored: trimmed, lower case, no blanks or repeats
+const normalizeTags = (tags = []) =>
+  [...new Set([].concat(tags).map(tag => String(tag).trim().toLowerCase()).filter(Boolean))];
+
+// Mongoose validation and pre-save errors both carry the reason in message
+const isValidationError = (error) =>
+  error.name === 'ValidationError' || /^(The question|Question \d+) /.test(error.message);
+
+/**
+ * @desc    Get a course's question bank
+ * @route   GET /api/trainer/question-bank/course/:courseId
+ * @access  Private (Trainer)
+ */
+exports.getCourseBank = async (req, res) => {
+  try {
+    const { courseId } = req.params;
+    const { difficulty, tag, type } = req.query;
+    const trainerId = req.user._id || req.user.id;
+
+    const { hasAccess } = await checkTrainerCourseAccess(courseId, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this course'
+      });
+    }
+
+    const filter = { course: courseId };
+    if (difficulty) filter.difficulty = difficulty;
+    if (type) filter.type = type;
+    if (tag) filter.tags = String(tag).trim().toLowerCase();
+
+    const [items, tags] = await Promise.all([
+      QuestionBankItem.find(filter).sort({ createdAt: -1 }),
+      QuestionBankItem.distinct('tags', { course: courseId })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      count: items.length,
+      tags: tags.sort(),
+      data: items
+    });
+  } catch (error) {
+    console.error('Error fetching question bank:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch question bank',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Add a question to a course's bank
+ * @route   POST /api/trainer/question-bank
+ * @access  Private (Trainer)
+ */
+exports.createBankItem = async (req, res) => {
+  try {
+    const { courseId, tags, difficulty } = req.body;
+    const trainerId = req.user._id || req.user.id;
+
+    if (!courseId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Course ID is required'
+      });
+    }
+
+    const { hasAccess, course } = await checkTrainerCourseAccess(courseId, trainerId);
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this course'
+      });
+    }
+
+    const item = await QuestionBankItem.create({
+      ...pickQuestionFields(req.body),
+      course: courseId,
+      tags: normalizeTags(tags),
+      difficulty,
+      createdBy: trainerId
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Question added to the bank',
+      data: item
+    });
+  } catch (error) {
+    console.error('Error creating bank question:', error);
+    if (isValidationError(error)) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to add question',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Copy a quiz's questions into its course's bank
+ * @route   POST /api/trainer/question-bank/from-quiz/:quizId
+ * @access  Private (Trainer)
+ */
+exports.copyQuizToBank = async (req, res) => {
+  try {
+    const { quizId } = req.params;
+    const { tags, difficulty } = req.body;
+    const trainerId = req.user._id || req.user.id;
+
+    const quiz = await Quiz.findById(quizId);
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    const { hasAccess } = await checkTrainerCourseAccess(quiz.course, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this quiz'
+      });
+    }
+
+    const items = await QuestionBankItem.insertMany(quiz.questions.map(question => ({
+      ...pickQuestionFields(question),
+      course: quiz.course,
+      tags: normalizeTags(tags),
+      difficulty,
+      createdBy: trainerId
+    })));
+
+    res.status(201).json({
+      success: true,
+      message: `${items.length} question${items.length === 1 ? '' : 's'} copied to the bank`,
+      count: items.length,
+      data: items
+    });
+  } catch (error) {
+    console.error('Error copying quiz to bank:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to copy questions to the bank',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Update a bank question
+ * @route   PUT /api/trainer/question-bank/:id
+ * @access  Private (Trainer)
+ */
+exports.updateBankItem = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const item = await QuestionBankItem.findById(id);
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        message: 'Question not found'
+      });
+    }
+
+    const { hasAccess } = await checkTrainerCourseAccess(item.course, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this question'
+      });
+    }
+
+    // Attempts keep their own copies, so edits only affect new draws
+    item.set(pickQuestionFields(req.body));
+    if (req.body.tags !== undefined) item.tags = normalizeTags(req.body.tags);
+    if (req.body.difficulty !== undefined) item.difficulty = req.body.difficulty;
+    item.updatedBy = trainerId;
+    await item.save();
+
+    res.status(200).json({
+      success: true,
+      message: 'Question updated successfully',
+      data: item
+    });
+  } catch (error) {
+    console.error('Error updating bank question:', error);
+    if (isValidationError(error)) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update question',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Delete a bank question
+ * @route   DELETE /api/trainer/question-bank/:id
+ * @access  Private (Trainer)
+ */
+exports.deleteBankItem = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const item = await QuestionBankItem.findById(id);
+    if (!item) {
+      return res.status(404).json({
+        success: false,
+        message: 'Question not found'
+      });
+    }
+
+    const { hasAccess } = await checkTrainerCourseAccess(item.course, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this question'
+      });
+    }
+
+    await QuestionBankItem.findByIdAndDelete(id);
+
+    res.status(200).json({
+      success: true,
+      message: 'Question deleted successfully'
+    });
+  } catch (error) {
+    console.error('Error deleting bank question:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete question',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Recompute statistics for every question in a course's bank
+ * @route   POST /api/trainer/question-bank/course/:courseId/stats
+ * @access  Private (Trainer)
+ */
+exports.refreshCourseStats = async (req, res) => {
+  try {
+    const { courseId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const { hasAccess } = await checkTrainerCourseAccess(courseId, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this course'
+      });
+    }
+
+    const itemIds = await QuestionBankItem.find({ course: courseId }).distinct('_id');
+    const updated = await refreshItemStats(itemIds);
+
+    res.status(200).json({
+      success: true,
+      message: 'Statistics updated',
+      count: updated
+    });
+  } catch (error) {
+    console.error('Error refreshing question statistics:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to refresh statistics',
+      error: error.message
+    });
+  }
+};
@@ -1,7 +1,26 @@
+const path = require('path');
+const multer = require('multer');
 const Quiz = require('../models/Quiz');
 const Module = require('../models/Module');
 const Course = require('../models/Course');
 const Group = require('../models/Group');
+const QuizAttempt = require('../models/QuizAttempt');
+const {
+  questionSet,
+  answerFeedback,
+  reviewAnswers,
+  overrideQuestionScore
+} = require('../services/quizAttempt.service');
+const { checkRules } = require('../services/questionBank.service');
+const { buildQuizAnalytics } = require('../services/quizAnalytics.service');
+const { notifyQuizReviewed } = require('../services/notification.service');
+const {
+  QUIZ_FORMATS,
+  IMPORT_EXTENSIONS,
+  previewQuizImport,
+  sendQuizzes
+} = require('../services/quizFormats.service');
+const { BadRequestError } = require('../utils/errors');
 
 async function checkTrainerCourseAccess(courseId, trainerId) {
   const course = await Course.findById(courseId);
@@ -17,6 +36,17 @@ async function checkTrainerCourseAccess(courseId, trainerId) {
   return { hasAccess: !!hasGroups, course };
 }
 
+// Courses the trainer teaches or has groups in
+async function getTrainerCourseIds(trainerId) {
+  const instructorCourses = await Course.find({ 'instructor': trainerId }).select('_id');
+  const groupCourses = await Group.find({ trainerId }).distinct('courseId');
+
+  return [...new Set([
+    ...instructorCourses.map(c => c._id.toString()),
+    ...groupCourses.map(id => id.toString())
+  ])];
+}
+
 /**
  * @desc    Get all quizzes created by trainer
  * @route   GET /api/trainer/quizzes
@@ -26,15 +56,7 @@ exports.getAllQuizzes = async (req, res) => {
   try {
     const trainerId = req.user._id || req.user.id;
 
-    // Find all courses where trainer is instructor
-    const instructorCourses = await Course.find({ 'instructor': trainerId }).select('_id');
-    const instructorCourseIds = instructorCourses.map(c => c._id);
-
-    // Find all courses where trainer has groups
-    const groups = await Group.find({ trainerId }).distinct('courseId');
-
-    // Combine both sets of course IDs
-    const allCourseIds = [...new Set([...instructorCourseIds.map(id => id.toString()), ...groups.map(id => id.toString())])];
+    const allCourseIds = await getTrainerCourseIds(trainerId);
 
     // Get all quizzes for those courses
     const quizzes = await Quiz.find({ course: { $in: allCourseIds } })
@@ -161,14 +183,15 @@ exports.createQuiz = async (req, res) => {
       shuffleQuestions,
       shuffleOptions,
       showFeedback,
-      questions
+      questions = [],
+      questionRules = []
     } = req.body;
 
     // Validate required fields
-    if (!courseId || !title || !questions || questions.length === 0) {
+    if (!courseId || !title || (questions.length === 0 && questionRules.length === 0)) {
       return res.status(400).json({
         success: false,
-        message: 'Course ID, title, and at least one question are required'
+        message: 'Course ID, title, and at least one question or question bank rule are required'
       });
     }
 
@@ -212,24 +235,16 @@ exports.createQuiz = async (req, res) => {
       moduleToUse = newModule._id;
     }
 
-    // Validate questions
-    for (let i = 0; i < questions.length; i++) {
-      const q = questions[i];
-      if (!q.question || !q.options || q.options.length < 2) {
-        return res.status(400).json({
-          success: false,
-          message: `Question ${i + 1} must have text and at least 2 options`
-        });
-      }
-
-      // Check if at least one option is marked as correct
-      const hasCorrect = q.options.some(opt => opt.isCorrect);
-      if (!hasCorrect) {
-        return res.status(400).json({
-          success: false,
-          message: `Question ${i + 1} must have at least one correct answer`
-        });
-      }
+    // Validate questions, and that the bank can meet the rules
+    const questionErrors = [
+      ...Quiz.validateQuestionList(questions),
+      ...await checkRules(courseId, questionRules)
+    ];
+    if (questionErrors.length > 0) {
+      return res.status(400).json({
+        success: false,
+        message: questionErrors.join('; ')
+      });
     }
 
     // Create quiz
@@ -248,6 +263,7 @@ exports.createQuiz = async (req, res) => {
       shuffleOptions: shuffleOptions || false,
       showFeedback: showFeedback !== undefined ? showFeedback : true,
       questions,
+      questionRules,
       status: 'published',
       createdBy: trainerId
     });
@@ -300,31 +316,37 @@ exports.updateQuiz = async (req, res) => {
       });
     }
 
-    // Validate questions if provided
-    if (req.body.questions) {
-      for (let i = 0; i < req.body.questions.length; i++) {
-        const q = req.body.questions[i];
-        if (!q.question || !q.options || q.options.length < 2) {
-          return res.status(400).json({
-            success: false,
-            message: `Question ${i + 1} must have text and at least 2 options`
-          });
-        }
+    // Validate questions and rules if provided
+    const questions = req.body.questions || quiz.questions;
+    const questionRules = req.body.questionRules || quiz.questionRules;
+    if (req.body.questions || req.body.questionRules) {
+      if (questions.length === 0 && questionRules.length === 0) {
+        return res.status(400).json({
+          success: false,
+          message: 'A quiz needs at least one question or question bank rule'
+        });
+      }
 
-        const hasCorrect = q.options.some(opt => opt.isCorrect);
-        if (!hasCorrect) {
-          return res.status(400).json({
-            success: false,
-            message: `Question ${i + 1} must have at least one correct answer`
-          });
-        }
+      const questionErrors = [
+        ...Quiz.validateQuestionList(questions),
+        ...await checkRules(quiz.course, questionRules)
+      ];
+      if (questionErrors.length > 0) {
+        return res.status(400).json({
+          success: false,
+          message: questionErrors.join('; ')
+        });
       }
     }
 
+    // Score overrides only change through regrading
+    const updates = { ...req.body };
+    delete updates.scoreOverrides;
+
     // Update quiz
     const updatedQuiz = await Quiz.findByIdAndUpdate(
       id,
-      { ...req.body, updatedBy: trainerId },
+      { ...updates, updatedBy: trainerId },
       { new: true, runValidators: true }
     )
       .populate('course', 'title category')
@@ -420,6 +442,7 @@ exports.duplicateQuiz = async (req, res) => {
     delete quizData._id;
     delete quizData.createdAt;
     delete quizData.updatedAt;
+    delete quizData.scoreOverrides;
     quizData.title = `${quizData.title} (Copy)`;
     quizData.createdBy = trainerId;
 
@@ -443,3 +466,592 @@ exports.duplicateQuiz = async (req, res) => {
     });
   }
 };
+
+// Quiz files are parsed in memory and never kept
+exports.quizUpload = multer({
+  storage: multer.memoryStorage(),
+  fileFilter: (req, file, cb) => {
+    const ext = path.extname(file.originalname).toLowerCase();
+    if (IMPORT_EXTENSIONS.includes(ext)) {
+      cb(null, true);
+    } else {
+      cb(new BadRequestError(`Unsupported file type. Use one of: ${IMPORT_EXTENSIONS.join(', ')}`, 'INVALID_QUIZ_FILE'), false);
+    }
+  },
+  limits: { fileSize: 5 * 1024 * 1024, files: 1 }
+});
+
+// Safe download name from a title
+function fileSlug(title) {
+  return String(title || 'quiz').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'quiz';
+}
+
+/**
+ * @desc    Export a quiz as GIFT, Moodle XML, CSV or XLSX
+ * @route   GET /api/trainer/quizzes/:id/export?format=gift|moodle_xml|csv|xlsx
+ * @access  Private (Trainer)
+ */
+exports.exportQuiz = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const { format = 'gift' } = req.query;
+    const trainerId = req.user._id || req.user.id;
+
+    if (!QUIZ_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: `Format must be one of: ${QUIZ_FORMATS.join(', ')}`
+      });
+    }
+
+    const quiz = await Quiz.findById(id);
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    // Verify trainer has access
+    const { hasAccess, course } = await checkTrainerCourseAccess(quiz.course, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this quiz'
+      });
+    }
+
+    await sendQuizzes(res, {
+      quizzes: [quiz],
+      format,
+      filename: fileSlug(quiz.title),
+      courseTitle: course.title
+    });
+  } catch (error) {
+    console.error('Error exporting quiz:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to export quiz',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Export every quiz of a course, one category per quiz
+ * @route   GET /api/trainer/quizzes/course/:courseId/export?format=gift|moodle_xml|csv|xlsx
+ * @access  Private (Trainer)
+ */
+exports.exportCourseQuizzes = async (req, res) => {
+  try {
+    const { courseId } = req.params;
+    const { format = 'gift' } = req.query;
+    const trainerId = req.user._id || req.user.id;
+
+    if (!QUIZ_FORMATS.includes(format)) {
+      return res.status(400).json({
+        success: false,
+        message: `Format must be one of: ${QUIZ_FORMATS.join(', ')}`
+      });
+    }
+
+    // Verify trainer has access to this course
+    const { hasAccess, course } = await checkTrainerCourseAccess(courseId, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this course'
+      });
+    }
+
+    const quizzes = await Quiz.find({ course: courseId }).sort({ createdAt: 1 });
+    if (quizzes.length === 0) {
+      return res.status(404).json({
+        success: false,
+        message: 'This course has no quizzes to export'
+      });
+    }
+
+    await sendQuizzes(res, {
+      quizzes,
+      format,
+      filename: `${fileSlug(course.title)}-quizzes`,
+      courseTitle: course.title
+    });
+  } catch (error) {
+    console.error('Error exporting course quizzes:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to export course quizzes',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Preview a GIFT, Moodle XML, CSV or XLSX quiz file, or import it into a course
+ * @route   POST /api/trainer/quizzes/import (multipart: file, courseId, dryRun)
+ * @access  Private (Trainer)
+ *
+ * dryRun defaults to true and only parses and validates. With dryRun=false
+ * and a courseId, each quiz in the file becomes a quiz of that course,
+ * unassigned to any session or group until edited. Nothing is created
+ * while any quiz has errors.
+ */
+exports.importQuizzes = async (req, res) => {
+  try {
+    const trainerId = req.user._id || req.user.id;
+    const { courseId } = req.body;
+    const dryRun = req.body.dryRun !== 'false' && req.body.dryRun !== false;
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'A quiz file is required'
+      });
+    }
+
+    const preview = await previewQuizImport(req.file);
+
+    if (dryRun) {
+      return res.status(200).json({
+        success: true,
+        dryRun: true,
+        ...preview
+      });
+    }
+
+    if (!courseId) {
+      return res.status(400).json({
+        success: false,
+        message: 'Course ID is required to import'
+      });
+    }
+    if (preview.summary.errors > 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Fix the errors shown in the preview before importing',
+        ...preview
+      });
+    }
+
+    // Verify trainer has access to this course
+    const { hasAccess, course } = await checkTrainerCourseAccess(courseId, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this course'
+      });
+    }
+    if (!course) {
+      return res.status(404).json({
+        success: false,
+        message: 'Course not found'
+      });
+    }
+
+    const created = [];
+    for (const { title, questions } of preview.quizzes) {
+      // Same default module as a quiz made in the builder
+      const module = await Module.create({
+        course: courseId,
+        title: `Quiz Module: ${title}`,
+        description: `Module for quiz: ${title}`,
+        order: 999,
+        type: 'quiz',
+        content: { duration: null }
+      });
+
+      created.push(await Quiz.create({
+        module: module._id,
+        course: courseId,
+        title,
+        questions,
+        createdBy: trainerId
+      }));
+    }
+
+    res.status(201).json({
+      success: true,
+      dryRun: false,
+      message: `Imported ${created.length} quiz${created.length === 1 ? '' : 'zes'}`,
+      summary: preview.summary,
+      data: created
+    });
+  } catch (error) {
+    if (error.statusCode === 400) {
+      return res.status(400).json({
+        success: false,
+        message: error.message
+      });
+    }
+    console.error('Error importing quizzes:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to import quizzes',
+      error: error.message
+    });
+  }
+};
+
+
+/**
+ * @desc    Get essay answers waiting for review
+ * @route   GET /api/trainer/quizzes/reviews
+ * @access  Private (Trainer)
+ */
+exports.getReviewQueue = async (req, res) => {
+  try {
+    const trainerId = req.user._id || req.user.id;
+    const { courseId } = req.query;
+
+    const courseIds = await getTrainerCourseIds(trainerId);
+    if (courseId && !courseIds.includes(String(courseId))) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this course'
+      });
+    }
+
+    const attempts = await QuizAttempt.find({
+      course: courseId ? courseId : { $in: courseIds },
+      pendingReview: true
+    })
+      .populate('student', 'name email')
+      .populate('course', 'title')
+      .populate('quiz', 'title passingScore questions')
+      .sort({ submittedAt: 1 });
+
+    // Oldest first; only the answers a trainer has to grade
+    const queue = attempts
+      .filter(attempt => attempt.quiz)
+      .map(attempt => ({
+        _id: attempt._id,
+        student: attempt.student,
+        course: attempt.course,
+        quiz: { _id: attempt.quiz._id, title: attempt.quiz.title, passingScore: attempt.quiz.passingScore },
+        attemptNumber: attempt.attemptNumber,
+        submittedAt: attempt.submittedAt,
+        score: attempt.score,
+        earnedPoints: attempt.earnedPoints,
+        totalPoints: attempt.totalPoints,
+        answers: attempt.answers
+          .filter(answer => answer.needsReview)
+          .map(answer => {
+            const question = questionSet(attempt, attempt.quiz).id(answer.questionId);
+            return {
+              questionId: answer.questionId,
+              question: answer.questionText,
+              textAnswer: answer.textAnswer,
+              points: question ? question.points : 0,
+              explanation: question ? question.explanation : undefined
+            };
+          })
+      }));
+
+    res.status(200).json({
+      success: true,
+      count: queue.length,
+      data: queue
+    });
+  } catch (error) {
+    console.error('Error fetching review queue:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch review queue',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Grade essay answers of an attempt, or override the points of any of its answers
+ * @route   POST /api/trainer/quizzes/reviews/:attemptId
+ * @access  Private (Trainer)
+ */
+exports.reviewAttempt = async (req, res) => {
+  try {
+    const { attemptId } = req.params;
+    const { grades } = req.body; // grades: [{ questionId, pointsEarned, feedback }]
+    const trainerId = req.user._id || req.user.id;
+
+    if (!Array.isArray(grades) || grades.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'At least one graded answer is required'
+      });
+    }
+
+    const attempt = await QuizAttempt.findOne({
+      _id: attemptId,
+      status: { $in: QuizAttempt.FINISHED_STATUSES }
+    });
+    if (!attempt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz attempt not found'
+      });
+    }
+
+    const { hasAccess } = await checkTrainerCourseAccess(attempt.course, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this attempt'
+      });
+    }
+
+    const quiz = await Quiz.findById(attempt.quiz);
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    // Any answer can be graded by hand, each within its question's points
+    const reviewed = [];
+    for (const grade of grades) {
+      const answer = attempt.answers.find(a => String(a.questionId) === String(grade.questionId));
+      const question = questionSet(attempt, quiz).id(grade.questionId);
+      if (!answer || !question) {
+        return res.status(400).json({
+          success: false,
+          message: 'Only answers of this attempt can be reviewed'
+        });
+      }
+
+      const points = Number(grade.pointsEarned);
+      if (grade.pointsEarned === undefined || grade.pointsEarned === null || Number.isNaN(points) || points < 0 || points > question.points) {
+        return res.status(400).json({
+          success: false,
+          message: `Points for "${question.question}" must be between 0 and ${question.points}`
+        });
+      }
+      reviewed.push({ questionId: question._id, pointsEarned: points, feedback: grade.feedback });
+    }
+
+    await reviewAnswers(attempt, quiz, reviewed, trainerId);
+    if (!attempt.pendingReview) {
+      await notifyQuizReviewed(attempt, quiz);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: 'Answers reviewed successfully',
+      data: attempt
+    });
+  } catch (error) {
+    console.error('Error reviewing quiz attempt:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to review quiz attempt',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Score distribution, pass rate per group, time spent and item analysis of a quiz
+ * @route   GET /api/trainer/quizzes/:id/analytics
+ * @access  Private (Trainer)
+ */
+exports.getQuizAnalytics = async (req, res) => {
+  try {
+    const { id } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const quiz = await Quiz.findById(id);
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    // Verify trainer has access
+    const { hasAccess } = await checkTrainerCourseAccess(quiz.course, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this quiz'
+      });
+    }
+
+    const [attempts, groups] = await Promise.all([
+      QuizAttempt.find({ quiz: id, status: { $in: QuizAttempt.FINISHED_STATUSES } })
+        .populate('student', 'name email')
+        .sort({ submittedAt: -1 }),
+      Group.find({ courseId: quiz.course }).select('name students').sort({ name: 1 })
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        quiz: { _id: quiz._id, title: quiz.title, passingScore: quiz.passingScore },
+        ...buildQuizAnalytics(quiz, attempts, groups)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching quiz analytics:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch quiz analytics',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Get a finished attempt with every answer, for review
+ * @route   GET /api/trainer/quizzes/attempts/:attemptId
+ * @access  Private (Trainer)
+ */
+exports.getAttemptDetail = async (req, res) => {
+  try {
+    const { attemptId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const attempt = await QuizAttempt.findOne({
+      _id: attemptId,
+      status: { $in: QuizAttempt.FINISHED_STATUSES }
+    }).populate('student', 'name email');
+    if (!attempt) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz attempt not found'
+      });
+    }
+
+    const { hasAccess } = await checkTrainerCourseAccess(attempt.course, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this attempt'
+      });
+    }
+
+    const quiz = await Quiz.findById(attempt.quiz);
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    // Answers to questions since removed from the quiz are left out
+    const questions = questionSet(attempt, quiz);
+    const answers = attempt.answers
+      .map(answer => {
+        const question = questions.id(answer.questionId);
+        if (!question) return null;
+        return {
+          ...answerFeedback(question, answer),
+          options: question.options.map(opt => opt.text),
+          pairs: question.pairs,
+          code: question.code,
+          language: question.language,
+          scoreOverride: quiz.scoreOverride(question._id),
+          reviewedAt: answer.reviewedAt
+        };
+      })
+      .filter(Boolean);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        _id: attempt._id,
+        student: attempt.student,
+        quiz: { _id: quiz._id, title: quiz.title, passingScore: quiz.passingScore },
+        attemptNumber: attempt.attemptNumber,
+        status: attempt.status,
+        score: attempt.score,
+        passed: attempt.passed,
+        earnedPoints: attempt.earnedPoints,
+        totalPoints: attempt.totalPoints,
+        timeSpent: attempt.timeSpent,
+        autoSubmitted: attempt.autoSubmitted,
+        pendingReview: attempt.pendingReview,
+        submittedAt: attempt.submittedAt,
+        answers
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching quiz attempt:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch quiz attempt',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * @desc    Fix the points everyone earns on a question, or clear the fix, and regrade all attempts
+ * @route   PUT /api/trainer/quizzes/:id/questions/:questionId/override
+ * @access  Private (Trainer)
+ */
+exports.overrideQuestion = async (req, res) => {
+  try {
+    const { id, questionId } = req.params;
+    const { pointsEarned } = req.body; // null clears the override
+    const trainerId = req.user._id || req.user.id;
+
+    const quiz = await Quiz.findById(id);
+    if (!quiz) {
+      return res.status(404).json({
+        success: false,
+        message: 'Quiz not found'
+      });
+    }
+
+    // Verify trainer has access
+    const { hasAccess } = await checkTrainerCourseAccess(quiz.course, trainerId);
+    if (!hasAccess) {
+      return res.status(403).json({
+        success: false,
+        message: 'You do not have access to this quiz'
+      });
+    }
+
+    // The quiz's own question, or one drawn from the bank by an attempt
+    let question = quiz.questions.id(questionId);
+    if (!question) {
+      const attempt = await QuizAttempt.findOne({ quiz: id, 'questions._id': questionId }).select('questions');
+      question = attempt ? attempt.questions.id(questionId) : null;
+    }
+    if (!question) {
+      return res.status(404).json({
+        success: false,
+        message: 'Question not found in this quiz'
+      });
+    }
+
+    const points = pointsEarned === null ? null : Number(pointsEarned);
+    if (points !== null && (pointsEarned === undefined || Number.isNaN(points) || points < 0 || points > question.points)) {
+      return res.status(400).json({
+        success: false,
+        message: `Points for "${question.question}" must be between 0 and ${question.points}`
+      });
+    }
+
+    const { regraded, reviewed } = await overrideQuestionScore(quiz, question._id, points, trainerId);
+    for (const attempt of reviewed) {
+      await notifyQuizReviewed(attempt, quiz);
+    }
+
+    res.status(200).json({
+      success: true,
+      message: `${regraded} attempt${regraded === 1 ? '' : 's'} regraded`,
+      regraded,
+      data: quiz.scoreOverrides
+    });
+  } catch (error) {
+    console.error('Error overriding question score:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to override question score',
+      error: error.message
+    });
+  }
+};
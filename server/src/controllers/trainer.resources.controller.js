@@ -0,0 +1,778 @@
+/**
+ * Trainer Resources Controller
+ *
+ * Handles the trainer's resource library including:
+ * - Uploading, tagging and versioning resource files
+ * - Sharing resources with groups and sessions
+ * - Archiving, restoring and deleting resources
+ * - Usage statistics (views and downloads)
+ *
+ * @controller TrainerResourcesController
+ */
+
+const multer = require('multer');
+const path = require('path');
+const fs = require('fs');
+const bcrypt = require('bcryptjs');
+const { AppError } = require('../utils/errors');
+const TrainerResource = require('../models/TrainerResource');
+const Group = require('../models/Group');
+const Session = require('../models/Session');
+
+// Resource files live outside the statically served /uploads folder so that
+// group sharing and password protection cannot be bypassed
+const RESOURCES_DIR = 'storage/resources';
+
+const FILE_TYPES = {
+  pdf: 'pdf',
+  doc: 'doc',
+  docx: 'docx',
+  ppt: 'ppt',
+  pptx: 'pptx',
+  xls: 'xls',
+  xlsx: 'xlsx',
+  txt: 'txt',
+  md: 'txt',
+  csv: 'txt',
+  mp4: 'video',
+  mov: 'video',
+  webm: 'video',
+  avi: 'video',
+  mkv: 'video',
+  mp3: 'audio',
+  wav: 'audio',
+  ogg: 'audio',
+  m4a: 'audio',
+  jpg: 'image',
+  jpeg: 'image',
+  png: 'image',
+  gif: 'image',
+  webp: 'image',
+  svg: 'image',
+  js: 'code',
+  ts: 'code',
+  py: 'code',
+  java: 'code',
+  c: 'code',
+  cpp: 'code',
+  h: 'code',
+  ino: 'code',
+  html: 'code',
+  css: 'code',
+  json: 'code',
+  zip: 'zip',
+  rar: 'zip',
+  '7z': 'zip',
+  stl: 'other',
+  step: 'other',
+  fzz: 'other'
+};
+
+// Configure multer for resource uploads
+const storage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    const uploadDir = path.join(__dirname, '../..', RESOURCES_DIR);
+    fs.mkdir(uploadDir, { recursive: true }, (error) => cb(error, uploadDir));
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1E9);
+    const ext = path.extname(file.originalname).toLowerCase();
+    cb(null, `resource-${uniqueSuffix}${ext}`);
+  }
+});
+
+const fileFilter = (req, file, cb) => {
+  const ext = path.extname(file.originalname).toLowerCase().slice(1);
+
+  if (FILE_TYPES[ext]) {
+    cb(null, true);
+  } else {
+    cb(new AppError(`File type .${ext} is not allowed`, 400), false);
+  }
+};
+
+exports.upload = multer({
+  storage,
+  fileFilter,
+  limits: {
+    fileSize: 100 * 1024 * 1024 // 100MB, matches the model limit
+  }
+});
+
+/**
+ * Map an uploaded file to the model's file fields
+ */
+const getFileData = (file) => {
+  const ext = path.extname(file.originalname).toLowerCase().slice(1);
+  return {
+    filename: file.filename,
+    originalName: file.originalname,
+    fileUrl: `${RESOURCES_DIR}/${file.filename}`,
+    fileType: FILE_TYPES[ext] || 'other',
+    mimeType: file.mimetype,
+    fileSize: file.size
+  };
+};
+
+/**
+ * Remove an uploaded file that could not be saved
+ */
+const discardFile = (file) => {
+  if (file) {
+    fs.unlink(file.path, () => {});
+  }
+};
+
+/**
+ * Parse a list sent either as JSON, a comma-separated string or an array
+ * (multipart forms send everything as strings)
+ */
+const parseList = (value) => {
+  if (value === undefined || value === null || value === '') return [];
+  if (Array.isArray(value)) return value.filter(Boolean);
+  if (typeof value === 'string' && value.trim().startsWith('[')) {
+    try {
+      return JSON.parse(value).filter(Boolean);
+    } catch (error) {
+      return [];
+    }
+  }
+  return String(value).split(',').map(v => v.trim()).filter(Boolean);
+};
+
+const parseBoolean = (value, fallback) => {
+  if (value === undefined) return fallback;
+  return value === true || value === 'true';
+};
+
+/**
+ * Load the trainer's groups from a list of ids, rejecting foreign groups
+ * @returns {Promise<Array|null>} Groups, or null if any id is not the trainer's
+ */
+const loadTrainerGroups = async (trainerId, groupIds) => {
+  if (groupIds.length === 0) return [];
+  const groups = await Group.find({ _id: { $in: groupIds }, trainerId }).select('name courseId');
+  return groups.length === new Set(groupIds.map(String)).size ? groups : null;
+};
+
+/**
+ * Find one of the trainer's resources (not deleted)
+ */
+const findTrainerResource = (resourceId, trainerId) => {
+  return TrainerResource.findOne({
+    _id: resourceId,
+    trainerId,
+    status: { $ne: 'deleted' }
+  });
+};
+
+/**
+ * Get Trainer's Resources
+ * @route GET /api/trainer/resources
+ * @access Private (Trainer only)
+ * @returns {Array} List of resources
+ */
+exports.getResources = async (req, res) => {
+  try {
+    const trainerId = req.user._id || req.user.id;
+    const { category, fileType, courseId, groupId, tag, status, search } = req.query;
+
+    const filters = {};
+    if (category) filters.category = category;
+    if (fileType) filters.fileType = fileType;
+    if (courseId) filters.courseId = courseId;
+    if (groupId) filters['sharedWith.groupId'] = groupId;
+    if (tag) filters.tags = String(tag).toLowerCase();
+    if (status === 'archived') filters.status = 'archived';
+
+    let resources = await TrainerResource.getTrainerResources(trainerId, filters);
+
+    if (search) {
+      const searchLower = search.toLowerCase();
+      resources = resources.filter(resource =>
+        resource.title.toLowerCase().includes(searchLower) ||
+        resource.description?.toLowerCase().includes(searchLower) ||
+        resource.tags.some(t => t.includes(searchLower))
+      );
+    }
+
+    res.status(200).json({
+      success: true,
+      count: resources.length,
+      data: resources
+    });
+
+  } catch (error) {
+    console.error('Error fetching resources:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch resources',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get Resource Statistics
+ * @route GET /api/trainer/resources/stats
+ * @access Private (Trainer only)
+ * @returns {Object} Totals plus most downloaded and recently accessed resources
+ */
+exports.getResourceStats = async (req, res) => {
+  try {
+    const trainerId = req.user._id || req.user.id;
+
+    const [stats, mostDownloaded, recentlyAccessed] = await Promise.all([
+      TrainerResource.getTrainerStats(trainerId),
+      TrainerResource.getMostDownloaded(trainerId, 5).select('title fileType stats'),
+      TrainerResource.getRecentlyAccessed(trainerId, 5).select('title fileType stats')
+    ]);
+
+    res.status(200).json({
+      success: true,
+      data: {
+        ...stats,
+        mostDownloaded,
+        recentlyAccessed
+      }
+    });
+
+  } catch (error) {
+    console.error('Error fetching resource stats:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch resource statistics',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Get Single Resource
+ * @route GET /api/trainer/resources/:resourceId
+ * @access Private (Trainer only)
+ * @returns {Object} Resource with access log
+ */
+exports.getResourceById = async (req, res) => {
+  try {
+    const { resourceId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const resource = await findTrainerResource(resourceId, trainerId)
+      .populate('courseId', 'title')
+      .populate('sessionId', 'title scheduledDate')
+      .populate('sharedWith.groupId', 'name')
+      .populate('accessLog.userId', 'name email');
+
+    if (!resource) {
+      return res.status(404).json({
+        success: false,
+        message: 'Resource not found or you do not have access'
+      });
+    }
+
+    res.status(200).json({
+      success: true,
+      data: resource
+    });
+
+  } catch (error) {
+    console.error('Error fetching resource:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to fetch resource',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Upload New Resource
+ * @route POST /api/trainer/resources
+ * @access Private (Trainer only)
+ * @body multipart: file, title, description, category, tags, groupIds,
+ *       sessionId, courseId, isDownloadable, requiresPassword, password, expiresAt
+ * @returns {Object} Created resource
+ */
+exports.createResource = async (req, res) => {
+  try {
+    const trainerId = req.user._id || req.user.id;
+    const {
+      title,
+      description,
+      category,
+      courseId,
+      sessionId,
+      requiresPassword,
+      password,
+      isDownloadable,
+      expiresAt,
+      notifyStudents
+    } = req.body;
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please attach a file'
+      });
+    }
+
+    if (!title) {
+      discardFile(req.file);
+      return res.status(400).json({
+        success: false,
+        message: 'Please provide a resource title'
+      });
+    }
+
+    const passwordRequired = parseBoolean(requiresPassword, false);
+    if (passwordRequired && !password) {
+      discardFile(req.file);
+      return res.status(400).json({
+        success: false,
+        message: 'Please provide a password for protected resources'
+      });
+    }
+
+    const groupIds = parseList(req.body.groupIds);
+
+    // A session shares the resource with that session's group
+    let session = null;
+    if (sessionId) {
+      session = await Session.findOne({ _id: sessionId, trainerId }).select('groupId courseId');
+      if (!session) {
+        discardFile(req.file);
+        return res.status(404).json({
+          success: false,
+          message: 'Session not found or you do not have access'
+        });
+      }
+      if (!groupIds.some(id => id.toString() === session.groupId.toString())) {
+        groupIds.push(session.groupId.toString());
+      }
+    }
+
+    const groups = await loadTrainerGroups(trainerId, groupIds);
+    if (!groups) {
+      discardFile(req.file);
+      return res.status(403).json({
+        success: false,
+        message: 'You can only share resources with your own groups'
+      });
+    }
+
+    const shareNotify = parseBoolean(notifyStudents, true);
+
+    const resource = await TrainerResource.create({
+      trainerId,
+      title,
+      description,
+      category,
+      tags: parseList(req.body.tags),
+      ...getFileData(req.file),
+      courseId: courseId || session?.courseId || groups[0]?.courseId || null,
+      sessionId: session?._id || null,
+      sharedWith: groups.map(group => ({
+        groupId: group._id,
+        sharedAt: new Date(),
+        notifyStudents: shareNotify
+      })),
+      isDownloadable: parseBoolean(isDownloadable, true),
+      requiresPassword: passwordRequired,
+      password: passwordRequired ? await bcrypt.hash(password, 10) : undefined,
+      expiresAt: expiresAt || null
+    });
+
+    await resource.populate('sharedWith.groupId', 'name');
+
+    res.status(201).json({
+      success: true,
+      message: 'Resource uploaded successfully',
+      data: resource
+    });
+
+  } catch (error) {
+    discardFile(req.file);
+    console.error('Error uploading resource:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to upload resource',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Update Resource Details
+ * @route PUT /api/trainer/resources/:resourceId
+ * @access Private (Trainer only)
+ * @returns {Object} Updated resource
+ */
+exports.updateResource = async (req, res) => {
+  try {
+    const { resourceId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const resource = await findTrainerResource(resourceId, trainerId);
+
+    if (!resource) {
+      return res.status(404).json({
+        success: false,
+        message: 'Resource not found or you do not have access'
+      });
+    }
+
+    const { title, description, category, courseId, isDownloadable, requiresPassword, password, expiresAt } = req.body;
+
+    if (title !== undefined) resource.title = title;
+    if (description !== undefined) resource.description = description;
+    if (category !== undefined) resource.category = category;
+    if (courseId !== undefined) resource.courseId = courseId || null;
+    if (req.body.tags !== undefined) resource.tags = parseList(req.body.tags);
+    if (isDownloadable !== undefined) resource.isDownloadable = parseBoolean(isDownloadable, true);
+    if (expiresAt !== undefined) resource.expiresAt = expiresAt || null;
+
+    if (requiresPassword !== undefined) {
+      const passwordRequired = parseBoolean(requiresPassword, false);
+      if (passwordRequired && !password && !resource.requiresPassword) {
+        return res.status(400).json({
+          success: false,
+          message: 'Please provide a password for protected resources'
+        });
+      }
+      resource.requiresPassword = passwordRequired;
+      if (!passwordRequired) {
+        resource.password = undefined;
+      }
+    }
+
+    if (password && resource.requiresPassword) {
+      resource.password = await bcrypt.hash(password, 10);
+    }
+
+    await resource.save();
+    await resource.populate('sharedWith.groupId', 'name');
+
+    res.status(200).json({
+      success: true,
+      message: 'Resource updated successfully',
+      data: resource
+    });
+
+  } catch (error) {
+    console.error('Error updating resource:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to update resource',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Upload New File Version
+ * @route PUT /api/trainer/resources/:resourceId/file
+ * @access Private (Trainer only)
+ * @returns {Object} Updated resource
+ */
+exports.replaceFile = async (req, res) => {
+  try {
+    const { resourceId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    if (!req.file) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please attach a file'
+      });
+    }
+
+    const resource = await findTrainerResource(resourceId, trainerId);
+
+    if (!resource) {
+      discardFile(req.file);
+      return res.status(404).json({
+        success: false,
+        message: 'Resource not found or you do not have access'
+      });
+    }
+
+    const fileData = getFileData(req.file);
+    resource.originalName = fileData.originalName;
+    resource.fileType = fileData.fileType;
+    await resource.updateFile(fileData);
+
+    res.status(200).json({
+      success: true,
+      message: `Resource updated to version ${resource.version}`,
+      data: resource
+    });
+
+  } catch (error) {
+    discardFile(req.file);
+    console.error('Error replacing resource file:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to replace resource file',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Share Resource With Groups
+ * @route POST /api/trainer/resources/:resourceId/share
+ * @access Private (Trainer only)
+ * @body { groupIds: string[], notifyStudents?: boolean }
+ * @returns {Object} Updated resource
+ */
+exports.shareResource = async (req, res) => {
+  try {
+    const { resourceId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+    const groupIds = parseList(req.body.groupIds);
+
+    if (groupIds.length === 0) {
+      return res.status(400).json({
+        success: false,
+        message: 'Please select at least one group'
+      });
+    }
+
+    const resource = await findTrainerResource(resourceId, trainerId);
+
+    if (!resource) {
+      return res.status(404).json({
+        success: false,
+        message: 'Resource not found or you do not have access'
+      });
+    }
+
+    const groups = await loadTrainerGroups(trainerId, groupIds);
+    if (!groups) {
+      return res.status(403).json({
+        success: false,
+        message: 'You can only share resources with your own groups'
+      });
+    }
+
+    const notifyStudents = parseBoolean(req.body.notifyStudents, true);
+    groups.forEach(group => {
+      const alreadyShared = resource.sharedWith.some(
+        share => share.groupId.toString() === group._id.toString()
+      );
+      if (!alreadyShared) {
+        resource.sharedWith.push({ groupId: group._id, sharedAt: new Date(), notifyStudents });
+      }
+    });
+
+    await resource.save();
+    await resource.populate('sharedWith.groupId', 'name');
+
+    res.status(200).json({
+      success: true,
+      message: 'Resource shared successfully',
+      data: resource
+    });
+
+  } catch (error) {
+    console.error('Error sharing resource:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to share resource',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Stop Sharing Resource With a Group
+ * @route DELETE /api/trainer/resources/:resourceId/share/:groupId
+ * @access Private (Trainer only)
+ * @returns {Object} Updated resource
+ */
+exports.unshareResource = async (req, res) => {
+  try {
+    const { resourceId, groupId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const resource = await findTrainerResource(resourceId, trainerId);
+
+    if (!resource) {
+      return res.status(404).json({
+        success: false,
+        message: 'Resource not found or you do not have access'
+      });
+    }
+
+    await resource.unshareFromGroup(groupId);
+    await resource.populate('sharedWith.groupId', 'name');
+
+    res.status(200).json({
+      success: true,
+      message: 'Resource unshared successfully',
+      data: resource
+    });
+
+  } catch (error) {
+    console.error('Error unsharing resource:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to unshare resource',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Archive Resource
+ * @route PATCH /api/trainer/resources/:resourceId/archive
+ * @access Private (Trainer only)
+ * @returns {Object} Updated resource
+ */
+exports.archiveResource = async (req, res) => {
+  try {
+    const { resourceId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const resource = await findTrainerResource(resourceId, trainerId);
+
+    if (!resource) {
+      return res.status(404).json({
+        success: false,
+        message: 'Resource not found or you do not have access'
+      });
+    }
+
+    await resource.archive();
+
+    res.status(200).json({
+      success: true,
+      message: 'Resource archived successfully',
+      data: resource
+    });
+
+  } catch (error) {
+    console.error('Error archiving resource:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to archive resource',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Restore Archived Resource
+ * @route PATCH /api/trainer/resources/:resourceId/restore
+ * @access Private (Trainer only)
+ * @returns {Object} Updated resource
+ */
+exports.restoreResource = async (req, res) => {
+  try {
+    const { resourceId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const resource = await findTrainerResource(resourceId, trainerId);
+
+    if (!resource) {
+      return res.status(404).json({
+        success: false,
+        message: 'Resource not found or you do not have access'
+      });
+    }
+
+    await resource.restore();
+
+    res.status(200).json({
+      success: true,
+      message: 'Resource restored successfully',
+      data: resource
+    });
+
+  } catch (error) {
+    console.error('Error restoring resource:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to restore resource',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Delete Resource (soft delete)
+ * @route DELETE /api/trainer/resources/:resourceId
+ * @access Private (Trainer only)
+ * @returns {Object} Success message
+ */
+exports.deleteResource = async (req, res) => {
+  try {
+    const { resourceId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const resource = await findTrainerResource(resourceId, trainerId);
+
+    if (!resource) {
+      return res.status(404).json({
+        success: false,
+        message: 'Resource not found or you do not have access'
+      });
+    }
+
+    await resource.softDelete();
+
+    res.status(200).json({
+      success: true,
+      message: 'Resource deleted successfully'
+    });
+
+  } catch (error) {
+    console.error('Error deleting resource:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to delete resource',
+      error: error.message
+    });
+  }
+};
+
+/**
+ * Download Own Resource (not counted in usage stats)
+ * @route GET /api/trainer/resources/:resourceId/download
+ * @access Private (Trainer only)
+ * @returns {File} Resource file
+ */
+exports.downloadResource = async (req, res) => {
+  try {
+    const { resourceId } = req.params;
+    const trainerId = req.user._id || req.user.id;
+
+    const resource = await findTrainerResource(resourceId, trainerId);
+
+    if (!resource) {
+      return res.status(404).json({
+        success: false,
+        message: 'Resource not found or you do not have access'
+      });
+    }
+
+    const filePath = path.join(__dirname, '../..', resource.fileUrl);
+    if (!fs.existsSync(filePath)) {
+      return res.status(404).json({
+        success: false,
+        message: 'Resource file not found'
+      });
+    }
+
+    res.download(filePath, resource.originalName);
+
+  } catch (error) {
+    console.error('Error downloading resource:', error);
+    res.status(500).json({
+      success: false,
+      message: 'Failed to download resource',
+      error: error.message
+    });
+  }
+};
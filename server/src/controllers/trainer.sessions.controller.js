@@ -2,6 +2,8 @@ const Session = require('../models/Session');
 const Group = require('../models/Group');
 const SessionEvaluation = require('../models/SessionEvaluation');
 const Attendance = require('../models/Attendance');
+const { notifySessionCancelled } = require('../services/notification.service');
+const { emitSessionUpdate } = require('../services/realtime.service');
 
 exports.getAllSessions = async (req, res) => {
   try {
@@ -228,6 +230,8 @@ exports.createSession = async (req, res) => {
     group.progress.totalSessions += 1;
     await group.save();
 
+    emitSessionUpdate(session, 'created');
+
     // Populate before sending response
     await session.populate([
       { path: 'groupId', select: 'name students' },
@@ -286,6 +290,7 @@ exports.updateSession = async (req, res) => {
     });
 
     await session.save();
+    emitSessionUpdate(session, 'updated');
     await session.populate([
       { path: 'groupId', select: 'name students' },
       { path: 'courseId', select: 'title category' }
@@ -340,15 +345,22 @@ exports.deleteSession = async (req, res) => {
         await group.save();
       }
 
+      emitSessionUpdate(session, 'deleted');
+
       res.status(200).json({
         success: true,
         message: 'Session and all related records permanently deleted'
       });
     } else {
       // Soft delete - cancel
+      const wasCancelled = session.status === 'cancelled';
       session.status = 'cancelled';
       session.cancellationReason = reason || 'Cancelled by trainer';
       await session.save();
+      if (!wasCancelled) {
+        await notifySessionCancelled(session);
+        emitSessionUpdate(session, 'cancelled');
+      }
 
       res.status(200).json({
         success: true,
@@ -390,6 +402,7 @@ exports.startSession = async (req, res) => {
 
     // Start session using model method
     await session.startSession();
+    emitSessionUpdate(session, 'started');
 
     res.status(200).json({
       success: true,
@@ -430,6 +443,7 @@ exports.endSession = async (req, res) => {
 
     // End session using model method
     await session.endSession();
+    emitSessionUpdate(session, 'ended');
 
     res.status(200).json({
       success: true,
@@ -548,6 +562,7 @@ exports.updateLessonPlan = async (req, res) => {
     };
 
     await session.save();
+    emitSessionUpdate(session, 'updated');
 
     res.status(200).json({
       success: true,
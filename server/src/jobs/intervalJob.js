@@ -0,0 +1,67 @@
+/**
+ * Interval Job
+ *
+ * Shared runner for the background jobs: runs a task once on start, then
+ * on a fixed interval, logging how many records each pass changed.
+ */
+
+const logger = require('../utils/logger');
+
+/**
+ * Create a job that runs a task on an interval
+ *
+ * @param {Object} options
+ * @param {string} options.name - Job name, used as the error context
+ * @param {string} options.label - Log message when a pass changed anything
+ * @param {number} options.intervalMs - Default time between runs
+ * @param {Function} options.task - async (now) => number of records changed
+ * @returns {{ run: Function, start: Function, stop: Function }}
+ */
+function createIntervalJob({ name, label, intervalMs, task }) {
+  let timer = null;
+
+  /**
+   * Run a single pass
+   * @returns {Promise<number>} What the task returned, 0 when it failed
+   */
+  async function run() {
+    try {
+      const count = await task(new Date());
+
+      if (count > 0) {
+        logger.info(label, { count });
+      }
+
+      return count;
+    } catch (error) {
+      logger.logError(error, { context: name });
+      return 0;
+    }
+  }
+
+  /**
+   * Start the job
+   * @param {number} [everyMs] - Time between runs
+   */
+  function start(everyMs = intervalMs) {
+    if (timer) return;
+
+    run();
+    timer = setInterval(run, everyMs);
+    // Don't keep the process alive just for a background job
+    timer.unref();
+  }
+
+  function stop() {
+    if (timer) {
+      clearInterval(timer);
+      timer = null;
+    }
+  }
+
+  return { run, start, stop };
+}
+
+module.exports = {
+  createIntervalJob
+};
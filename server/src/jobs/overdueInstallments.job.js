@@ -0,0 +1,35 @@
+/**
+ * Overdue Installments Job
+ *
+ * Periodically flags past-due pending installments as overdue and
+ * notifies the affected students. Runs once on start, then every hour.
+ */
+
+const Enrollment = require('../models/Enrollment');
+const { notifyPaymentOverdue } = require('../services/notification.service');
+const { createIntervalJob } = require('./intervalJob');
+
+/**
+ * Flag overdue installments and notify their students
+ * @param {Date} now
+ * @returns {Promise<number>} Number of installments that became overdue
+ */
+async function markOverdue(now) {
+  const results = await Enrollment.markOverdueInstallments(now);
+
+  let count = 0;
+  for (const { enrollment, installments } of results) {
+    for (const installment of installments) {
+      await notifyPaymentOverdue(enrollment, installment);
+      count++;
+    }
+  }
+  return count;
+}
+
+module.exports = createIntervalJob({
+  name: 'overdueInstallments.job',
+  label: 'Installments marked overdue',
+  intervalMs: 60 * 60 * 1000,
+  task: markOverdue
+});
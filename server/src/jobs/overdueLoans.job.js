@@ -0,0 +1,17 @@
+/**
+ * Overdue Loans Job
+ *
+ * Periodically tells borrowers (and admins) about equipment loans that
+ * are past their due date. Each loan is flagged once. Runs once on
+ * start, then every hour.
+ */
+
+const { flagOverdueLoans } = require('../services/loan.service');
+const { createIntervalJob } = require('./intervalJob');
+
+module.exports = createIntervalJob({
+  name: 'overdueLoans.job',
+  label: 'Loans flagged overdue',
+  intervalMs: 60 * 60 * 1000,
+  task: flagOverdueLoans
+});
@@ -0,0 +1,17 @@
+/**
+ * Quiz Deadlines Job
+ *
+ * Finalizes timed quiz attempts whose deadline passed while the student
+ * was away, grading the answers they saved. Runs once on start, then
+ * every minute.
+ */
+
+const { finalizeOverdueAttempts } = require('../services/quizAttempt.service');
+const { createIntervalJob } = require('./intervalJob');
+
+module.exports = createIntervalJob({
+  name: 'quizDeadlines.job',
+  label: 'Overdue quiz attempts finalized',
+  intervalMs: 60 * 1000,
+  task: finalizeOverdueAttempts
+});
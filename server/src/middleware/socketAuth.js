@@ -42,28 +42,25 @@ function socketAuthMiddleware(socket, next) {
       return next(error);
     }
 
-    // Verify JWT token
-    let decoded;
-    try {
-      decoded = verifyJwt(token);
-    } catch (jwtError) {
+    // Verify JWT token (verifyJwt returns null for invalid or expired tokens)
+    const decoded = verifyJwt(token);
+    if (!decoded) {
       const error = new Error('Authentication failed');
       error.data = {
-        message: jwtError.message === 'jwt expired'
-          ? 'Token has expired. Please log in again.'
-          : 'Invalid authentication token',
-        code: jwtError.message === 'jwt expired' ? 'TOKEN_EXPIRED' : 'INVALID_TOKEN'
+        message: 'Invalid or expired authentication token',
+        code: 'INVALID_TOKEN'
       };
       return next(error);
     }
 
     // Attach user information to socket
-    socket.userId = decoded.userId;
+    // Tokens are signed with `id` (see auth.controller), same as requireAuth
+    socket.userId = String(decoded.id || decoded._id || decoded.userId);
     socket.userRole = decoded.role;
-    socket.userEmail = decoded.email;
+    socket.userName = decoded.name;
 
     // Log successful authentication (for monitoring)
-    logger.info(`Socket.IO user authenticated: ${decoded.email} (${socket.id})`);
+    logger.info(`Socket.IO user authenticated: ${socket.userId} (${socket.id})`);
 
     // Continue with connection
     next();
@@ -86,6 +86,11 @@ const AssignmentSchema = new mongoose.Schema({
   isActive: {
     type: Boolean,
     default: true
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    default: null
   }
 }, {
   timestamps: true
@@ -114,4 +119,33 @@ AssignmentSchema.methods.isSubmissionLate = function(submissionDate) {
   return new Date(submissionDate) > this.dueDate;
 };
 
+// Method to check if a late submission is still accepted
+AssignmentSchema.methods.acceptsLateSubmission = function(submissionDate) {
+  if (!this.allowLateSubmission) return false;
+  if (!this.lateSubmissionDeadline) return true;
+  return new Date(submissionDate) <= this.lateSubmissionDeadline;
+};
+
+// Method to get the total points of the rubric
+AssignmentSchema.methods.getRubricTotal = function() {
+  return (this.rubric || []).reduce((sum, item) => sum + item.points, 0);
+};
+
+// Method to calculate a grade, scaling rubric points to maxScore
+// and deducting latePenalty for late submissions
+AssignmentSchema.methods.calculateGrade = function(rawPoints, isLate) {
+  const rubricTotal = this.getRubricTotal();
+  const rawScore = rubricTotal > 0
+    ? (rawPoints / rubricTotal) * this.maxScore
+    : rawPoints;
+  const latePenalty = isLate ? this.latePenalty : 0;
+  const score = rawScore * (1 - latePenalty / 100);
+
+  return {
+    rawScore: Math.round(rawScore * 100) / 100,
+    latePenalty,
+    score: Math.round(score * 100) / 100
+  };
+};
+
 module.exports = mongoose.model('Assignment', AssignmentSchema);
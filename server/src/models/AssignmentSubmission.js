@@ -61,6 +61,16 @@ const AssignmentSubmissionSchema = new mongoose.Schema({
       default: null,
       min: [0, 'Score cannot be negative']
     },
+    rawScore: {
+      type: Number, // Score before the late penalty
+      default: null,
+      min: [0, 'Score cannot be negative']
+    },
+    latePenalty: {
+      type: Number, // Percentage deducted for a late submission
+      default: 0,
+      min: [0, 'Late penalty cannot be negative']
+    },
     feedback: {
       type: String,
       maxlength: [2000, 'Feedback cannot exceed 2000 characters']
@@ -146,14 +156,31 @@ AssignmentSubmissionSchema.methods.addComment = function(authorId, text) {
 };
 
 // Method to grade submission
-AssignmentSubmissionSchema.methods.gradeSubmission = function(score, feedback, gradedBy) {
+// details: { rawScore, latePenalty, rubricScores } from rubric grading
+AssignmentSubmissionSchema.methods.gradeSubmission = function(score, feedback, gradedBy, details = {}) {
   this.status = 'graded';
   this.grade = {
     score: score,
+    rawScore: details.rawScore !== undefined ? details.rawScore : score,
+    latePenalty: details.latePenalty || 0,
     feedback: feedback,
+    rubricScores: details.rubricScores || [],
     gradedBy: gradedBy,
     gradedAt: new Date()
   };
+  this.resubmission.allowed = false;
+};
+
+// Method to ask the student for a new version
+AssignmentSubmissionSchema.methods.requestResubmission = function(feedback, requestedBy, deadline = null) {
+  this.status = 'resubmit_required';
+  this.resubmission.allowed = true;
+  this.resubmission.deadline = deadline;
+  if (feedback) {
+    this.grade.feedback = feedback;
+    this.grade.gradedBy = requestedBy;
+    this.grade.gradedAt = new Date();
+  }
 };
 
 // Static method to get latest submission
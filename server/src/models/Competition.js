@@ -1,14 +1,53 @@
 const mongoose = require("mongoose");
 
+// One scoring criterion of the judging rubric
+const criterionSchema = new mongoose.Schema({
+  name: { type: String, required: true, trim: true, maxlength: 100 },
+  description: { type: String, trim: true, maxlength: 500 },
+  maxPoints: { type: Number, required: true, min: 1 },
+  // Relative importance; weights don't have to add up to anything
+  weight: { type: Number, default: 1, min: 0 },
+  // Criteria with a priority break ties between equal scores, lowest first
+  tieBreakPriority: { type: Number, default: null, min: 1 },
+});
+
+// Lifecycle: draft -> registration -> judging -> results_published
+// Drafts are only visible to organizers; results are public once published
+const COMPETITION_STATUSES = ["draft", "registration", "judging", "results_published"];
+
 const competitionSchema = new mongoose.Schema(
   {
     title: { type: String, required: true },
     startDate: { type: Date, required: true },
     endDate: { type: Date, required: true },
     description: { type: String },
+    // 0 = unlimited; pending and approved teams count towards the limit
     maxTeams: { type: Number, default: 0 },
+    status: {
+      type: String,
+      enum: COMPETITION_STATUSES,
+      default: "draft",
+      index: true,
+    },
+    // Optional window inside the registration phase
+    registrationOpensAt: { type: Date, default: null },
+    registrationClosesAt: { type: Date, default: null },
+    resultsPublishedAt: { type: Date, default: null },
+    rubric: {
+      criteria: { type: [criterionSchema], default: [] },
+      // average: mean of each judge's weighted score
+      // normalized: each judge's scores are rescaled to the panel's mean first,
+      // so a strict or lenient judge doesn't skew the ranking
+      scoringMethod: {
+        type: String,
+        enum: ["average", "normalized"],
+        default: "average",
+      },
+    },
   },
   { timestamps: true }
 );
 
+competitionSchema.statics.STATUSES = COMPETITION_STATUSES;
+
 module.exports = mongoose.model("Competition", competitionSchema);
@@ -0,0 +1,121 @@
+/**
+ * CreditNote Model
+ *
+ * Stores credit notes issued when a payment is refunded or voided,
+ * with the generated PDF
+ */
+
+const mongoose = require('mongoose');
+
+const creditNoteSchema = new mongoose.Schema({
+  // Unique credit note number (e.g., CN-2025-0001)
+  creditNoteNumber: {
+    type: String,
+    required: true,
+    unique: true
+  },
+
+  type: {
+    type: String,
+    enum: ['refund', 'void'],
+    required: true
+  },
+
+  // References
+  payment: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment',
+    required: true
+  },
+  // Receipt originally issued for the payment (if any)
+  receipt: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Receipt',
+    default: null
+  },
+  enrollment: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Enrollment',
+    required: true
+  },
+  student: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  course: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Course',
+    required: true
+  },
+
+  amount: {
+    type: Number,
+    required: true,
+    min: [0, 'Amount cannot be negative']
+  },
+  reason: {
+    type: String,
+    required: true
+  },
+
+  // Billing summary at time of the credit note
+  billing: {
+    totalAmount: {
+      type: Number,
+      required: true
+    },
+    paidBefore: {
+      type: Number,
+      required: true
+    },
+    creditedNow: {
+      type: Number,
+      required: true
+    },
+    remainingBalance: {
+      type: Number,
+      required: true
+    }
+  },
+
+  // PDF file path
+  pdfPath: {
+    type: String,
+    required: true
+  },
+
+  // Issued by (reception staff)
+  issuedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  }
+}, {
+  timestamps: true
+});
+
+creditNoteSchema.index({ enrollment: 1, createdAt: -1 });
+creditNoteSchema.index({ payment: 1 });
+
+/**
+ * Generate next credit note number
+ * Format: CN-YYYY-NNNN (e.g., CN-2025-0001)
+ */
+creditNoteSchema.statics.generateCreditNoteNumber = async function() {
+  const year = new Date().getFullYear();
+  const prefix = `CN-${year}-`;
+
+  const lastNote = await this.findOne({
+    creditNoteNumber: new RegExp(`^${prefix}`)
+  }).sort({ creditNoteNumber: -1 });
+
+  let nextNumber = 1;
+  if (lastNote) {
+    nextNumber = parseInt(lastNote.creditNoteNumber.split('-')[2]) + 1;
+  }
+
+  return `${prefix}${String(nextNumber).padStart(4, '0')}`;
+};
+
+module.exports = mongoose.model('CreditNote', creditNoteSchema);
@@ -67,6 +67,17 @@ const EnrollmentSchema = new mongoose.Schema({
         type: Date,
         required: true
       },
+      // Part of the amount already covered by payments
+      paidAmount: {
+        type: Number,
+        default: 0,
+        min: [0, 'Paid amount cannot be negative']
+      },
+      // e.g. "Down payment", "Installment 2 of 6"
+      label: {
+        type: String,
+        default: null
+      },
       paidDate: {
         type: Date,
         default: null
@@ -155,6 +166,28 @@ const EnrollmentSchema = new mongoose.Schema({
 EnrollmentSchema.index({ student: 1, course: 1 }, { unique: true });
 EnrollmentSchema.index({ student: 1, status: 1 });
 EnrollmentSchema.index({ course: 1, status: 1 });
+EnrollmentSchema.index({ 'payment.installments.status': 1, 'payment.installments.dueDate': 1 });
+
+/**
+ * Round a money amount to 2 decimals
+ */
+function roundMoney(value) {
+  return Math.round((Number(value) || 0) * 100) / 100;
+}
+
+/**
+ * Add months to a date, clamping to the last day of the target month
+ * (Jan 31 + 1 month = Feb 28/29, not Mar 3)
+ */
+function addMonths(date, months) {
+  const result = new Date(date);
+  const day = result.getDate();
+  result.setDate(1);
+  result.setMonth(result.getMonth() + months);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(day, lastDay));
+  return result;
+}
 
 // Pre-save middleware to calculate remaining amount
 EnrollmentSchema.pre('save', function(next) {
@@ -187,6 +220,234 @@ EnrollmentSchema.methods.updateAttendancePercentage = function() {
   }
 };
 
+/**
+ * Build an installment schedule for a payment plan
+ *
+ * An optional down payment is due on the start date, followed by
+ * `numberOfInstallments` equal installments every `intervalMonths`.
+ * Rounding leftovers are added to the last installment so the schedule
+ * always sums to the total.
+ *
+ * @param {number} totalAmount
+ * @param {Object} plan - { downPayment, numberOfInstallments, intervalMonths, startDate }
+ * @returns {Array<Object>} Installment subdocuments
+ */
+EnrollmentSchema.statics.buildInstallmentSchedule = function(totalAmount, plan = {}) {
+  const total = roundMoney(totalAmount);
+  const downPayment = Math.min(roundMoney(plan.downPayment), total);
+  const count = Math.max(parseInt(plan.numberOfInstallments, 10) || 1, 1);
+  const interval = Math.max(parseInt(plan.intervalMonths, 10) || 1, 1);
+  const startDate = plan.startDate ? new Date(plan.startDate) : new Date();
+
+  const installments = [];
+
+  if (downPayment > 0) {
+    installments.push({
+      amount: downPayment,
+      dueDate: startDate,
+      label: 'Down payment',
+      status: 'pending'
+    });
+  }
+
+  const remaining = roundMoney(total - downPayment);
+  if (remaining <= 0) {
+    return installments;
+  }
+
+  const regularAmount = Math.floor((remaining / count) * 100) / 100;
+  const offset = downPayment > 0 ? 1 : 0;
+
+  for (let i = 0; i < count; i++) {
+    const isLast = i === count - 1;
+    installments.push({
+      amount: isLast ? roundMoney(remaining - regularAmount * (count - 1)) : regularAmount,
+      dueDate: addMonths(startDate, (i + offset) * interval),
+      label: count > 1 ? `Installment ${i + 1} of ${count}` : 'Full payment',
+      status: 'pending'
+    });
+  }
+
+  return installments;
+};
+
+/**
+ * Amount still owed on an installment
+ * @param {Object} installment
+ * @returns {number}
+ */
+EnrollmentSchema.statics.getInstallmentOutstanding = function(installment) {
+  return Math.max(roundMoney(installment.amount - (installment.paidAmount || 0)), 0);
+};
+
+// Method to allocate a payment to the oldest open installments first
+// Returns the per-installment allocations and any amount left unallocated
+EnrollmentSchema.methods.allocatePayment = function(amount, paymentId = null, paidAt = new Date()) {
+  let remaining = roundMoney(amount);
+  const allocations = [];
+
+  const openInstallments = this.payment.installments
+    .filter(inst => inst.status !== 'paid')
+    .sort((a, b) => new Date(a.dueDate) - new Date(b.dueDate));
+
+  for (const installment of openInstallments) {
+    if (remaining <= 0) break;
+
+    const outstanding = this.constructor.getInstallmentOutstanding(installment);
+    const applied = Math.min(outstanding, remaining);
+
+    installment.paidAmount = roundMoney((installment.paidAmount || 0) + applied);
+    remaining = roundMoney(remaining - applied);
+
+    if (installment.paidAmount >= installment.amount) {
+      installment.status = 'paid';
+      installment.paidDate = paidAt;
+      if (paymentId) {
+        installment.paymentId = paymentId;
+      }
+    }
+
+    allocations.push({
+      installmentId: installment._id,
+      label: installment.label,
+      amount: applied,
+      settled: installment.status === 'paid'
+    });
+  }
+
+  return { allocations, unallocated: remaining };
+};
+
+// Method to take a refunded or voided amount back off the installments
+// Unwinds the most recently due paid amounts first (reverse of allocatePayment)
+// and reopens affected installments as pending or overdue
+EnrollmentSchema.methods.reversePayment = function(amount, now = new Date()) {
+  let remaining = roundMoney(amount);
+  const reversals = [];
+
+  const paidInstallments = this.payment.installments
+    .filter(inst => (inst.paidAmount || 0) > 0)
+    .sort((a, b) => new Date(b.dueDate) - new Date(a.dueDate));
+
+  for (const installment of paidInstallments) {
+    if (remaining <= 0) break;
+
+    const removed = Math.min(installment.paidAmount, remaining);
+
+    installment.paidAmount = roundMoney(installment.paidAmount - removed);
+    remaining = roundMoney(remaining - removed);
+
+    if (installment.paidAmount < installment.amount) {
+      installment.status = new Date(installment.dueDate) < now ? 'overdue' : 'pending';
+      installment.paidDate = null;
+      installment.paymentId = null;
+    }
+
+    reversals.push({
+      installmentId: installment._id,
+      label: installment.label,
+      amount: removed,
+      reopened: installment.status !== 'paid'
+    });
+  }
+
+  this.payment.paidAmount = Math.max(roundMoney(this.payment.paidAmount - amount), 0);
+  this.payment.remainingAmount = roundMoney(this.payment.totalAmount - this.payment.paidAmount);
+
+  return { reversals, unreversed: remaining };
+};
+
+// Method to flag past-due pending installments as overdue
+// Returns the installments that became overdue in this call
+EnrollmentSchema.methods.refreshInstallmentStatuses = function(now = new Date()) {
+  const newlyOverdue = [];
+
+  this.payment.installments.forEach(installment => {
+    if (installment.status === 'pending' && new Date(installment.dueDate) < now) {
+      installment.status = 'overdue';
+      newlyOverdue.push(installment);
+    }
+  });
+
+  return newlyOverdue;
+};
+
+// Method to list unpaid installments whose due date has passed
+EnrollmentSchema.methods.getOverdueInstallments = function(now = new Date()) {
+  return this.payment.installments.filter(
+    installment => installment.status !== 'paid' && new Date(installment.dueDate) < now
+  );
+};
+
+// Version conflicts retried before giving up
+const MAX_SAVE_ATTEMPTS = 3;
+
+/**
+ * Load an enrollment, change it and save it version-checked; when another
+ * request saved it in between, reload and run the change again, so
+ * concurrent payments on one enrollment can't overwrite each other
+ * @param {string} id - Enrollment id
+ * @param {Function} change - (enrollment) => result; return false to leave it unsaved
+ * @param {Object} [options]
+ * @param {Array<Array>} [options.populate] - populate() arguments per path
+ * @returns {Promise<{enrollment: Object|null, result: *}>} enrollment is null when not found
+ */
+EnrollmentSchema.statics.updateWithRetry = async function(id, change, { populate = [] } = {}) {
+  for (let attempt = 1; ; attempt++) {
+    let query = this.findById(id);
+    populate.forEach(args => { query = query.populate(...args); });
+    const enrollment = await query;
+    if (!enrollment) {
+      return { enrollment: null, result: undefined };
+    }
+
+    const result = await change(enrollment);
+    if (result === false) {
+      return { enrollment, result };
+    }
+
+    enrollment.increment();
+    try {
+      await enrollment.save();
+      return { enrollment, result };
+    } catch (error) {
+      if (error.name !== 'VersionError' || attempt >= MAX_SAVE_ATTEMPTS) throw error;
+    }
+  }
+};
+
+/**
+ * Mark every past-due pending installment of active enrollments as overdue
+ * @param {Date} now
+ * @returns {Promise<Array<{enrollment: Object, installments: Object[]}>>} Newly overdue installments
+ */
+EnrollmentSchema.statics.markOverdueInstallments = async function(now = new Date()) {
+  const enrollments = await this.find({
+    status: 'active',
+    'payment.installments': {
+      $elemMatch: { status: 'pending', dueDate: { $lt: now } }
+    }
+  }).populate('course', 'title');
+
+  const results = [];
+  for (const enrollment of enrollments) {
+    const installments = enrollment.refreshInstallmentStatuses(now);
+    if (installments.length > 0) {
+      // A payment saved meanwhile wins; the next pass looks again
+      enrollment.increment();
+      try {
+        await enrollment.save();
+      } catch (error) {
+        if (error.name === 'VersionError') continue;
+        throw error;
+      }
+      results.push({ enrollment, installments });
+    }
+  }
+
+  return results;
+};
+
 // Static method to check if student is enrolled
 EnrollmentSchema.statics.isEnrolled = async function(studentId, courseId) {
   const enrollment = await this.findOne({
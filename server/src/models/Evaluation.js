@@ -20,8 +20,19 @@ const evaluationSchema = new mongoose.Schema(
       required: true,
       index: true, // Index for competition-specific queries
     },
+    // Legacy free-form scores (evaluations made before the rubric existed)
     scores: { type: Object, default: {} },
+    // Points per rubric criterion
+    criterionScores: [
+      {
+        _id: false,
+        criterionId: { type: mongoose.Schema.Types.ObjectId, required: true },
+        points: { type: Number, required: true, min: 0 },
+      },
+    ],
     totalScore: { type: Number, default: 0, index: true }, // Index for sorting by score
+    // Rubric score as a percentage (0-100), using the criteria weights
+    weightedScore: { type: Number, default: 0 },
     comments: { type: String },
   },
   { timestamps: true }
@@ -0,0 +1,136 @@
+/**
+ * Loan Model
+ *
+ * Equipment lent to a student, competition team or student group and
+ * expected back by a due date. Checking out books a `loan_out` entry in
+ * the stock ledger; checking in books a `loan_return` entry, followed by
+ * a `damaged` entry for anything that came back broken.
+ */
+
+const mongoose = require('mongoose');
+
+const LOAN_STATUSES = ['out', 'returned'];
+const BORROWER_TYPES = ['student', 'team', 'group'];
+const RETURN_CONDITIONS = ['good', 'worn', 'damaged'];
+
+const checkInSchema = new mongoose.Schema({
+  // Overall condition reported when the equipment came back
+  condition: {
+    type: String,
+    enum: RETURN_CONDITIONS,
+    required: true
+  },
+  // Units written off as damaged (serialized loans list them by serial)
+  damagedQty: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  damagedSerials: {
+    type: [String],
+    default: []
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+  checkedInBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  checkedInAt: {
+    type: Date,
+    default: Date.now
+  }
+}, { _id: false });
+
+const loanSchema = new mongoose.Schema({
+  partId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Part',
+    required: true,
+    index: true
+  },
+  qty: {
+    type: Number,
+    required: true,
+    min: [1, 'Quantity must be at least 1']
+  },
+  // Serialized parts: the units lent; qty equals their count
+  serialNumbers: {
+    type: [String],
+    default: []
+  },
+
+  // Exactly one borrower reference is set, matching borrowerType
+  borrowerType: {
+    type: String,
+    enum: BORROWER_TYPES,
+    required: true
+  },
+  studentId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    index: true
+  },
+  teamId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Team'
+  },
+  groupId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Group'
+  },
+
+  status: {
+    type: String,
+    enum: LOAN_STATUSES,
+    default: 'out',
+    index: true
+  },
+  dueAt: {
+    type: Date,
+    required: [true, 'Due date is required']
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Notes cannot exceed 1000 characters']
+  },
+
+  checkedOutBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  checkedOutAt: {
+    type: Date,
+    default: Date.now
+  },
+  checkIn: {
+    type: checkInSchema,
+    default: null
+  },
+  // Set once the borrower has been told the loan is overdue
+  overdueNotifiedAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+loanSchema.index({ status: 1, dueAt: 1 });
+
+// Virtual: still out after the due date
+loanSchema.virtual('isOverdue').get(function() {
+  return this.status === 'out' && this.dueAt < new Date();
+});
+
+loanSchema.statics.STATUSES = LOAN_STATUSES;
+loanSchema.statics.BORROWER_TYPES = BORROWER_TYPES;
+loanSchema.statics.RETURN_CONDITIONS = RETURN_CONDITIONS;
+
+module.exports = mongoose.model('Loan', loanSchema);
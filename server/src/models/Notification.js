@@ -0,0 +1,133 @@
+/**
+ * Notification Model
+ *
+ * Persistent per-user notifications shown in the notification center.
+ * Created by server-side producers (orders, grading, payments, sessions,
+ * evaluations) and delivered live over the user's socket room.
+ *
+ * @model Notification
+ * @description Stores notifications and their read state for each user
+ */
+
+const mongoose = require('mongoose');
+
+const NOTIFICATION_TYPES = [
+  'order',
+  'assignment',
+  'quiz',
+  'payment',
+  'session',
+  'evaluation',
+  'resource',
+  'inventory',
+  'competition',
+  'system'
+];
+
+const NotificationSchema = new mongoose.Schema({
+  // Recipient
+  userId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: [true, 'Recipient is required']
+  },
+
+  // Category used for icons and filtering
+  type: {
+    type: String,
+    enum: NOTIFICATION_TYPES,
+    default: 'system'
+  },
+
+  // Toast style on the client
+  level: {
+    type: String,
+    enum: ['info', 'success', 'warning', 'error'],
+    default: 'info'
+  },
+
+  title: {
+    type: String,
+    required: [true, 'Title is required'],
+    trim: true,
+    maxlength: [200, 'Title cannot exceed 200 characters']
+  },
+
+  message: {
+    type: String,
+    trim: true,
+    maxlength: [1000, 'Message cannot exceed 1000 characters']
+  },
+
+  isImportant: {
+    type: Boolean,
+    default: false
+  },
+
+  // Client route to open, e.g. /student/assignments/:id
+  actionUrl: {
+    type: String,
+    default: null
+  },
+
+  actionLabel: {
+    type: String,
+    default: null
+  },
+
+  // Related entity, for de-duplication and deep links
+  entity: {
+    kind: {
+      type: String,
+      default: null
+    },
+    id: {
+      type: mongoose.Schema.Types.ObjectId,
+      default: null
+    }
+  },
+
+  isRead: {
+    type: Boolean,
+    default: false
+  },
+
+  readAt: {
+    type: Date,
+    default: null
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+NotificationSchema.index({ userId: 1, createdAt: -1 });
+NotificationSchema.index({ userId: 1, isRead: 1 });
+// Notifications expire after 30 days
+NotificationSchema.index({ createdAt: 1 }, { expireAfterSeconds: 30 * 24 * 60 * 60 });
+
+/**
+ * Count unread notifications for a user
+ * @param {ObjectId} userId
+ * @returns {Promise<number>}
+ */
+NotificationSchema.statics.getUnreadCount = function(userId) {
+  return this.countDocuments({ userId, isRead: false });
+};
+
+/**
+ * Mark every unread notification of a user as read
+ * @param {ObjectId} userId
+ * @returns {Promise<number>} Number of notifications updated
+ */
+NotificationSchema.statics.markAllRead = async function(userId) {
+  const result = await this.updateMany(
+    { userId, isRead: false },
+    { $set: { isRead: true, readAt: new Date() } }
+  );
+  return result.modifiedCount;
+};
+
+NotificationSchema.statics.TYPES = NOTIFICATION_TYPES;
+
+module.exports = mongoose.model('Notification', NotificationSchema);
@@ -7,7 +7,48 @@ const orderItemSchema = new mongoose.Schema(
       ref: "Part",
       required: true,
     },
+    qty: { type: Number, required: true }, // Requested
+
+    // Line decisions. Lines are addressed by their index in items.
+    // approvedQty is taken from stock and stays reserved until handed out;
+    // backorderQty is promised but only reserved once it is in stock.
+    // approvedQty is null until the order is reviewed
+    approvedQty: { type: Number, default: null, min: 0 },
+    backorderQty: { type: Number, default: 0, min: 0 },
+    reservedQty: { type: Number, default: 0, min: 0 }, // Still held for the line
+    fulfilledQty: { type: Number, default: 0, min: 0 }, // Handed out so far
+    returnedQty: { type: Number, default: 0, min: 0 }, // Brought back unused
+    // Part originally requested when the line was substituted
+    substitutedFrom: { type: mongoose.Schema.Types.ObjectId, ref: "Part" },
+    note: { type: String },
+  },
+  { _id: false }
+);
+
+const orderHistoryLineSchema = new mongoose.Schema(
+  {
+    index: { type: Number, required: true },
+    partId: { type: mongoose.Schema.Types.ObjectId, ref: "Part" },
     qty: { type: Number, required: true },
+    // Reviews only
+    backorderQty: { type: Number },
+    substitutedFrom: { type: mongoose.Schema.Types.ObjectId, ref: "Part" },
+  },
+  { _id: false }
+);
+
+// What happened to the order and when, for its timeline
+const orderHistorySchema = new mongoose.Schema(
+  {
+    type: {
+      type: String,
+      enum: ["created", "reviewed", "handout", "return", "closed", "rejected", "cancelled"],
+      required: true,
+    },
+    at: { type: Date, default: Date.now },
+    by: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
+    lines: { type: [orderHistoryLineSchema], default: [] },
+    notes: { type: String },
   },
   { _id: false }
 );
@@ -27,14 +68,16 @@ const orderSchema = new mongoose.Schema(
     },
     status: {
       type: String,
-      enum: ["pending", "approved", "rejected", "fulfilled", "cancelled"],
+      enum: ["pending", "approved", "partially_fulfilled", "rejected", "fulfilled", "cancelled"],
       default: "pending",
       index: true, // Index for filtering orders by status
     },
     items: { type: [orderItemSchema], required: true },
+    history: { type: [orderHistorySchema], default: [] },
     createdAt: { type: Date, default: Date.now, index: true }, // Index for sorting by date
   },
-  { versionKey: false }
+  // Saves carry a version check so concurrent decisions can't overwrite each other
+  { optimisticConcurrency: true }
 );
 
 orderSchema.index({ studentId: 1, createdAt: -1 });
@@ -8,8 +8,21 @@ const partSchema = new mongoose.Schema(
     sku: { type: String, index: true, required: true },
     group: { type: String },
   partNumber: { type: String },
-  
-    },
+
+    // Replenishment: a low-stock alert fires when available stock drops
+    // below reorderPoint (0 disables it) and a requisition for reorderQty
+    // is raised, with the preferred supplier
+    reorderPoint: { type: Number, default: 0, min: 0 },
+    reorderQty: { type: Number, default: 0, min: 0 },
+    supplierId: { type: mongoose.Schema.Types.ObjectId, ref: "Supplier" },
+    leadTimeDays: { type: Number, min: 0 },
+
+    // Equipment loans: loanable parts (kits, tools) go out to borrowers and
+    // come back. Parts with serial numbers are lent unit by unit; the rest
+    // are pooled and lent by quantity
+    loanable: { type: Boolean, default: false },
+    serialNumbers: { type: [String], default: [] },
+  },
   { timestamps: true }
 );
 
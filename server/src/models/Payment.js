@@ -69,6 +69,58 @@ const PaymentSchema = new mongoose.Schema({
     ref: 'User',
     default: null
   },
+  // Proof submitted by the student for staff verification
+  proof: {
+    filePath: {
+      type: String,
+      default: null
+    },
+    originalName: {
+      type: String,
+      default: null
+    },
+    mimeType: {
+      type: String,
+      default: null
+    },
+    size: {
+      type: Number,
+      default: null
+    },
+    reference: {
+      type: String,
+      trim: true,
+      maxlength: [200, 'Reference cannot exceed 200 characters'],
+      default: null
+    },
+    submittedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  // Outcome of the reception/admin review
+  verification: {
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      default: null
+    },
+    reviewedAt: {
+      type: Date,
+      default: null
+    },
+    rejectionReason: {
+      type: String,
+      maxlength: [500, 'Rejection reason cannot exceed 500 characters'],
+      default: null
+    }
+  },
+  receiptId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Receipt',
+    default: null
+  },
+  // Cumulative refund; partial refunds keep the payment completed
   refund: {
     amount: {
       type: Number,
@@ -88,7 +140,39 @@ const PaymentSchema = new mongoose.Schema({
       ref: 'User',
       default: null
     }
-  }
+  },
+  // Audit trail of refunds and voids
+  adjustments: [{
+    type: {
+      type: String,
+      enum: ['refund', 'void'],
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: [0, 'Adjustment amount cannot be negative']
+    },
+    reason: {
+      type: String,
+      required: [true, 'Reason is required'],
+      maxlength: [500, 'Reason cannot exceed 500 characters']
+    },
+    performedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User',
+      required: true
+    },
+    performedAt: {
+      type: Date,
+      default: Date.now
+    },
+    creditNoteId: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'CreditNote',
+      default: null
+    }
+  }]
 }, {
   timestamps: true
 });
@@ -98,6 +182,20 @@ PaymentSchema.index({ student: 1, course: 1 });
 PaymentSchema.index({ enrollment: 1, status: 1 });
 // receiptNumber already has unique: true, no need for additional index
 PaymentSchema.index({ status: 1, paidAt: 1 });
+PaymentSchema.index({ status: 1, 'proof.submittedAt': 1 });
+
+// Methods that need staff to verify a student-submitted proof
+PaymentSchema.statics.VERIFIABLE_METHODS = ['sham_cash_app', 'bank_transfer', 'check'];
+
+// Proof file extensions students may upload, with the Content-Type each is
+// served as; never the type the uploader claimed
+PaymentSchema.statics.PROOF_MIME_TYPES = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  pdf: 'application/pdf'
+};
 
 // Generate receipt number before save
 PaymentSchema.pre('save', async function(next) {
@@ -124,15 +222,52 @@ PaymentSchema.methods.markAsCompleted = function(processedBy = null) {
   }
 };
 
-// Method to process refund
+// Amount that can still be refunded or voided
+PaymentSchema.methods.getRefundableAmount = function() {
+  if (this.status !== 'completed') return 0;
+  return Math.max(Math.round((this.amount - (this.refund.amount || 0)) * 100) / 100, 0);
+};
+
+// Method to process a full or partial refund
+// Returns the adjustment entry added to the audit trail
 PaymentSchema.methods.processRefund = function(refundAmount, reason, refundedBy) {
-  this.status = 'refunded';
+  const now = new Date();
+  const totalRefunded = Math.round(((this.refund.amount || 0) + refundAmount) * 100) / 100;
+
+  if (totalRefunded >= this.amount) {
+    this.status = 'refunded';
+  }
   this.refund = {
-    amount: refundAmount,
+    amount: totalRefunded,
     reason: reason,
-    refundedAt: new Date(),
+    refundedAt: now,
     refundedBy: refundedBy
   };
+
+  this.adjustments.push({
+    type: 'refund',
+    amount: refundAmount,
+    reason,
+    performedBy: refundedBy,
+    performedAt: now
+  });
+  return this.adjustments[this.adjustments.length - 1];
+};
+
+// Method to void a wrongly recorded payment
+// Reverses whatever has not been refunded yet; returns the adjustment entry
+PaymentSchema.methods.voidPayment = function(reason, voidedBy) {
+  const amount = this.getRefundableAmount();
+
+  this.status = 'cancelled';
+  this.adjustments.push({
+    type: 'void',
+    amount,
+    reason,
+    performedBy: voidedBy,
+    performedAt: new Date()
+  });
+  return this.adjustments[this.adjustments.length - 1];
 };
 
 // Static method to get student payment summary
@@ -0,0 +1,115 @@
+/**
+ * PurchaseOrder Model
+ *
+ * An order placed with a supplier for one or more parts. Deliveries can
+ * arrive in several parts; each receipt books `purchase` entries with the
+ * line's unit cost into the stock ledger.
+ */
+
+const mongoose = require('mongoose');
+
+const PURCHASE_ORDER_STATUSES = ['draft', 'ordered', 'partially_received', 'received', 'cancelled'];
+
+const lineSchema = new mongoose.Schema({
+  partId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Part',
+    required: true
+  },
+  qty: {
+    type: Number,
+    required: true,
+    min: [1, 'Quantity must be at least 1']
+  },
+  unitCost: {
+    type: Number,
+    required: true,
+    min: [0, 'Unit cost cannot be negative']
+  },
+  receivedQty: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  // Requisition this line was raised from, if any
+  requisitionId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PurchaseRequisition',
+    default: null
+  }
+});
+
+const purchaseOrderSchema = new mongoose.Schema({
+  // Unique order number (e.g., PO-2025-0001)
+  orderNumber: {
+    type: String,
+    required: true,
+    unique: true
+  },
+
+  supplierId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Supplier',
+    required: true,
+    index: true
+  },
+
+  status: {
+    type: String,
+    enum: PURCHASE_ORDER_STATUSES,
+    default: 'draft',
+    index: true
+  },
+
+  lines: {
+    type: [lineSchema],
+    validate: [lines => lines.length > 0, 'A purchase order needs at least one line']
+  },
+
+  expectedAt: { type: Date },
+  notes: { type: String },
+
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  orderedAt: { type: Date },
+  receivedAt: { type: Date },
+  cancelledAt: { type: Date }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+purchaseOrderSchema.index({ 'lines.partId': 1 });
+
+purchaseOrderSchema.virtual('totalCost').get(function() {
+  return (this.lines || []).reduce((sum, line) => sum + line.qty * line.unitCost, 0);
+});
+
+purchaseOrderSchema.statics.STATUSES = PURCHASE_ORDER_STATUSES;
+// Orders still waiting for deliveries
+purchaseOrderSchema.statics.RECEIVABLE_STATUSES = ['ordered', 'partially_received'];
+
+/**
+ * Generate next purchase order number
+ * Format: PO-YYYY-NNNN (e.g., PO-2025-0001)
+ */
+purchaseOrderSchema.statics.generateOrderNumber = async function() {
+  const year = new Date().getFullYear();
+  const prefix = `PO-${year}-`;
+
+  const lastOrder = await this.findOne({
+    orderNumber: new RegExp(`^${prefix}`)
+  }).sort({ orderNumber: -1 });
+
+  let nextNumber = 1;
+  if (lastOrder) {
+    nextNumber = parseInt(lastOrder.orderNumber.split('-')[2]) + 1;
+  }
+
+  return `${prefix}${String(nextNumber).padStart(4, '0')}`;
+};
+
+module.exports = mongoose.model('PurchaseOrder', purchaseOrderSchema);
@@ -0,0 +1,75 @@
+/**
+ * PurchaseRequisition Model
+ *
+ * A request to buy more of a part, raised by hand or automatically when
+ * stock drops below the part's reorder point. Receiving it books a
+ * `purchase` entry in the stock ledger.
+ */
+
+const mongoose = require('mongoose');
+
+const REQUISITION_STATUSES = ['requested', 'ordered', 'received', 'cancelled'];
+
+const purchaseRequisitionSchema = new mongoose.Schema({
+  partId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Part',
+    required: true,
+    index: true
+  },
+  qty: {
+    type: Number,
+    required: true,
+    min: [1, 'Quantity must be at least 1']
+  },
+  // Quantity booked into stock so far; deliveries may arrive in parts
+  receivedQty: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+
+  status: {
+    type: String,
+    enum: REQUISITION_STATUSES,
+    default: 'requested',
+    index: true
+  },
+  // low_stock requisitions are raised by the reorder point check
+  source: {
+    type: String,
+    enum: ['manual', 'low_stock'],
+    default: 'manual'
+  },
+
+  supplierId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Supplier'
+  },
+  // Purchase order the requisition was placed on; it is received there
+  purchaseOrderId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'PurchaseOrder',
+    default: null
+  },
+  notes: { type: String },
+  expectedAt: { type: Date },
+
+  requestedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  orderedAt: { type: Date },
+  receivedAt: { type: Date },
+  cancelledAt: { type: Date }
+}, {
+  timestamps: true
+});
+
+purchaseRequisitionSchema.index({ partId: 1, status: 1 });
+
+purchaseRequisitionSchema.statics.STATUSES = REQUISITION_STATUSES;
+// Requisitions still waiting for stock
+purchaseRequisitionSchema.statics.OPEN_STATUSES = ['requested', 'ordered'];
+
+module.exports = mongoose.model('PurchaseRequisition', purchaseRequisitionSchema);
@@ -0,0 +1,77 @@
+const mongoose = require('mongoose');
+const Quiz = require('./Quiz');
+
+/**
+ * A reusable question in a course's question bank
+ * Quizzes draw from the bank by difficulty and tags; each attempt keeps
+ * a copy of what it drew, so editing or deleting an item never changes
+ * past attempts. Statistics come from those attempts.
+ */
+const QuestionBankItemSchema = new mongoose.Schema({
+  course: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Course',
+    required: [true, 'Course is required']
+  },
+  tags: [{
+    type: String,
+    trim: true,
+    lowercase: true,
+    maxlength: [50, 'Tag cannot exceed 50 characters']
+  }],
+  difficulty: {
+    type: String,
+    enum: Quiz.DIFFICULTIES,
+    default: 'medium'
+  },
+  // From finished attempts that drew the item
+  stats: {
+    attempts: {
+      type: Number,
+      default: 0
+    },
+    // Share of attempts answering correctly, 0-100
+    percentCorrect: {
+      type: Number,
+      default: null
+    },
+    // Upper-lower index, -1 to 1: how much better the top 27% of
+    // attempts did on the item than the bottom 27%
+    discrimination: {
+      type: Number,
+      default: null
+    },
+    updatedAt: {
+      type: Date,
+      default: null
+    }
+  },
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  updatedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+QuestionBankItemSchema.add(Quiz.QuestionSchema);
+QuestionBankItemSchema.remove('bankItem');
+
+// Index for faster queries
+QuestionBankItemSchema.index({ course: 1, difficulty: 1 });
+QuestionBankItemSchema.index({ course: 1, tags: 1 });
+
+// Pre-save validation
+QuestionBankItemSchema.pre('save', function(next) {
+  const errors = Quiz.validateQuestionList([this], () => 'The question');
+  if (errors.length > 0) {
+    return next(new Error(errors.join('; ')));
+  }
+  next();
+});
+
+module.exports = mongoose.model('QuestionBankItem', QuestionBankItemSchema);
@@ -1,5 +1,106 @@
 const mongoose = require('mongoose');
 
+// single/multiple/true_false/ordering use options, matching uses pairs,
+// numeric uses numericAnswer/tolerance, short_text and code_output use
+// acceptedAnswers; essays are graded by hand
+const QUESTION_TYPES = [
+  'single',
+  'multiple',
+  'true_false',
+  'numeric',
+  'short_text',
+  'ordering',
+  'matching',
+  'code_output',
+  'essay'
+];
+
+const DIFFICULTIES = ['easy', 'medium', 'hard'];
+
+// A question, as embedded in quizzes and attempts and kept in the
+// question bank
+const QuestionSchema = new mongoose.Schema({
+  question: {
+    type: String,
+    required: [true, 'Question text is required'],
+    maxlength: [1000, 'Question cannot exceed 1000 characters']
+  },
+  type: {
+    type: String,
+    enum: QUESTION_TYPES,
+    default: 'single'
+  },
+  // Choices for single, multiple and true/false; for ordering, the items
+  // in their correct order
+  options: [{
+    text: {
+      type: String,
+      required: [true, 'Option text is required'],
+      maxlength: [500, 'Option text cannot exceed 500 characters']
+    },
+    isCorrect: {
+      type: Boolean,
+      default: false
+    }
+  }],
+  // Matching: each left item belongs with the right item of its pair
+  pairs: [{
+    left: {
+      type: String,
+      required: [true, 'Matching item is required'],
+      maxlength: [500, 'Matching item cannot exceed 500 characters']
+    },
+    right: {
+      type: String,
+      required: [true, 'Matching item is required'],
+      maxlength: [500, 'Matching item cannot exceed 500 characters']
+    }
+  }],
+  // Numeric: correct when within tolerance of the answer
+  numericAnswer: {
+    type: Number,
+    default: null
+  },
+  tolerance: {
+    type: Number,
+    default: 0,
+    min: [0, 'Tolerance cannot be negative']
+  },
+  // Short text and code output: every variant that counts as correct
+  acceptedAnswers: [{
+    type: String,
+    maxlength: [2000, 'Accepted answer cannot exceed 2000 characters']
+  }],
+  caseSensitive: {
+    type: Boolean,
+    default: false
+  },
+  // Code output: the snippet whose output the student gives
+  code: {
+    type: String,
+    maxlength: [5000, 'Code cannot exceed 5000 characters']
+  },
+  language: {
+    type: String,
+    maxlength: [30, 'Language cannot exceed 30 characters']
+  },
+  points: {
+    type: Number,
+    default: 1,
+    min: [0, 'Points cannot be negative']
+  },
+  explanation: {
+    type: String,
+    maxlength: [1000, 'Explanation cannot exceed 1000 characters']
+  },
+  // Bank item the question came from
+  bankItem: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'QuestionBankItem',
+    default: null
+  }
+});
+
 const QuizSchema = new mongoose.Schema({
   session: {
     type: mongoose.Schema.Types.ObjectId,
@@ -63,36 +164,48 @@ const QuizSchema = new mongoose.Schema({
     type: Boolean,
     default: true
   },
-  questions: [{
-    question: {
+  questions: [QuestionSchema],
+  // Random questions drawn from the course's question bank for each
+  // attempt, e.g. 5 easy + 3 hard tagged "motors"
+  questionRules: [{
+    count: {
+      type: Number,
+      required: [true, 'Number of questions is required'],
+      min: [1, 'A rule must draw at least 1 question']
+    },
+    difficulty: {
       type: String,
-      required: [true, 'Question text is required'],
-      maxlength: [1000, 'Question cannot exceed 1000 characters']
+      enum: [...DIFFICULTIES, null],
+      default: null
     },
-    type: {
+    // Bank questions must carry every tag
+    tags: [{
       type: String,
-      enum: ['single', 'multiple'],
-      default: 'single'
+      trim: true,
+      lowercase: true
+    }]
+  }],
+  // Points every attempt earns on a question, set by a trainer after the
+  // fact (e.g. for an ambiguous question). Past attempts are regraded and
+  // later ones graded the same way
+  scoreOverrides: [{
+    _id: false,
+    questionId: {
+      type: mongoose.Schema.Types.ObjectId,
+      required: true
     },
-    options: [{
-      text: {
-        type: String,
-        required: [true, 'Option text is required'],
-        maxlength: [500, 'Option text cannot exceed 500 characters']
-      },
-      isCorrect: {
-        type: Boolean,
-        default: false
-      }
-    }],
-    points: {
+    pointsEarned: {
       type: Number,
-      default: 1,
+      required: true,
       min: [0, 'Points cannot be negative']
     },
-    explanation: {
-      type: String,
-      maxlength: [1000, 'Explanation cannot exceed 1000 characters']
+    setBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    setAt: {
+      type: Date,
+      default: Date.now
     }
   }],
   isActive: {
@@ -115,43 +228,127 @@ QuizSchema.virtual('totalPoints').get(function() {
   return this.questions.reduce((sum, q) => sum + (q.points || 0), 0);
 });
 
-// Virtual for total questions
+// Virtual for total questions, drawn ones included
 QuizSchema.virtual('totalQuestions').get(function() {
-  return this.questions ? this.questions.length : 0;
+  const drawn = (this.questionRules || []).reduce((sum, rule) => sum + rule.count, 0);
+  return (this.questions ? this.questions.length : 0) + drawn;
 });
 
-// Method to validate quiz structure
-QuizSchema.methods.validateQuestions = function() {
+/**
+ * Problems with a list of questions, by type
+ * Used before saving and for questions that don't go through save
+ * (updates, imports).
+ * @param {Array<Object>} questions
+ * @param {Function} [labelFor] - How messages name the question at an index
+ * @returns {string[]} Error messages; empty when valid
+ */
+QuizSchema.statics.validateQuestionList = function(questions = [], labelFor = index => `Question ${index + 1}`) {
   const errors = [];
 
-  this.questions.forEach((question, index) => {
-    // Check if question has options
-    if (!question.options || question.options.length < 2) {
-      errors.push(`Question ${index + 1} must have at least 2 options`);
-    }
+  questions.forEach((question, index) => {
+    const label = labelFor(index);
+    const type = question.type || 'single';
+    const options = question.options || [];
+    const correctCount = options.filter(opt => opt.isCorrect).length;
 
-    // Check if at least one option is correct
-    const correctCount = question.options.filter(opt => opt.isCorrect).length;
-    if (correctCount === 0) {
-      errors.push(`Question ${index + 1} must have at least one correct answer`);
+    if (!question.question || !String(question.question).trim()) {
+      errors.push(`${label} must have text`);
+    }
+    if (!QUESTION_TYPES.includes(type)) {
+      errors.push(`${label} has an unknown type "${type}"`);
+      return;
     }
 
-    // For single choice, ensure only one correct answer
-    if (question.type === 'single' && correctCount > 1) {
-      errors.push(`Question ${index + 1} is single choice but has multiple correct answers`);
+    switch (type) {
+      case 'single':
+      case 'multiple':
+        // Check if question has options
+        if (options.length < 2) {
+          errors.push(`${label} must have at least 2 options`);
+        }
+        // Check if at least one option is correct
+        if (correctCount === 0) {
+          errors.push(`${label} must have at least one correct answer`);
+        }
+        // For single choice, ensure only one correct answer
+        if (type === 'single' && correctCount > 1) {
+          errors.push(`${label} is single choice but has multiple correct answers`);
+        }
+        break;
+      case 'true_false':
+        if (options.length !== 2 || correctCount !== 1) {
+          errors.push(`${label} must have a true and a false option, one of them correct`);
+        }
+        break;
+      case 'ordering':
+        if (options.length < 2) {
+          errors.push(`${label} must have at least 2 items to order`);
+        }
+        break;
+      case 'matching': {
+        const pairs = question.pairs || [];
+        if (pairs.length < 2) {
+          errors.push(`${label} must have at least 2 pairs to match`);
+        }
+        if (pairs.some(pair => !pair.left || !pair.right)) {
+          errors.push(`${label} has a pair with a missing side`);
+        }
+        break;
+      }
+      case 'numeric':
+        if (question.numericAnswer === null || question.numericAnswer === undefined || !Number.isFinite(Number(question.numericAnswer))) {
+          errors.push(`${label} must have a numeric answer`);
+        }
+        if (question.tolerance !== undefined && !(Number(question.tolerance) >= 0)) {
+          errors.push(`${label} tolerance cannot be negative`);
+        }
+        break;
+      case 'short_text':
+      case 'code_output':
+        if (!(question.acceptedAnswers || []).some(answer => String(answer).trim())) {
+          errors.push(`${label} must have at least one accepted answer`);
+        }
+        if (type === 'code_output' && !(question.code && question.code.trim())) {
+          errors.push(`${label} must include the code to run`);
+        }
+        break;
+      default:
+        break;
     }
   });
 
   return errors;
 };
 
+// Method to validate quiz structure
+QuizSchema.methods.validateQuestions = function() {
+  return this.constructor.validateQuestionList(this.questions);
+};
+
+/**
+ * Points a trainer fixed for a question
+ * @param {string|ObjectId} questionId
+ * @returns {number|null} null when the question is graded normally
+ */
+QuizSchema.methods.scoreOverride = function(questionId) {
+  const override = (this.scoreOverrides || []).find(o => String(o.questionId) === String(questionId));
+  return override ? override.pointsEarned : null;
+};
+
 // Pre-save validation
 QuizSchema.pre('save', function(next) {
   const errors = this.validateQuestions();
+  if (this.questions.length === 0 && this.questionRules.length === 0) {
+    errors.push('A quiz needs questions or rules to draw them from the question bank');
+  }
   if (errors.length > 0) {
     return next(new Error(errors.join('; ')));
   }
   next();
 });
 
+QuizSchema.statics.QUESTION_TYPES = QUESTION_TYPES;
+QuizSchema.statics.DIFFICULTIES = DIFFICULTIES;
+QuizSchema.statics.QuestionSchema = QuestionSchema;
+
 module.exports = mongoose.model('Quiz', QuizSchema);
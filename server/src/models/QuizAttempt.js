@@ -1,4 +1,5 @@
 const mongoose = require('mongoose');
+const Quiz = require('./Quiz');
 
 const QuizAttemptSchema = new mongoose.Schema({
   student: {
@@ -21,6 +22,10 @@ const QuizAttemptSchema = new mongoose.Schema({
     required: [true, 'Attempt number is required'],
     min: [1, 'Attempt number must be at least 1']
   },
+  // Questions of this attempt when the quiz draws from the question
+  // bank: the quiz's own plus the drawn ones, copied as they were. Empty
+  // otherwise; the quiz's questions apply
+  questions: [Quiz.QuestionSchema],
   answers: [{
     questionId: {
       type: mongoose.Schema.Types.ObjectId,
@@ -30,8 +35,13 @@ const QuizAttemptSchema = new mongoose.Schema({
       type: String
     },
     selectedOptions: [{
-      type: Number // Index of selected option(s)
+      type: Number // Index of selected option(s); ordering: items in the order given; matching: chosen right item per left item, -1 when unset
     }],
+    // Typed answer: numeric, short text, code output and essay
+    textAnswer: {
+      type: String,
+      maxlength: [10000, 'Answer cannot exceed 10000 characters']
+    },
     isCorrect: {
       type: Boolean,
       default: false
@@ -39,6 +49,22 @@ const QuizAttemptSchema = new mongoose.Schema({
     pointsEarned: {
       type: Number,
       default: 0
+    },
+    // Essay waiting for a trainer; earns nothing until reviewed
+    needsReview: {
+      type: Boolean,
+      default: false
+    },
+    feedback: {
+      type: String,
+      maxlength: [2000, 'Feedback cannot exceed 2000 characters']
+    },
+    reviewedBy: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'User'
+    },
+    reviewedAt: {
+      type: Date
     }
   }],
   score: {
@@ -64,6 +90,29 @@ const QuizAttemptSchema = new mongoose.Schema({
     type: Date,
     default: Date.now
   },
+  // Deadline from the quiz's time limit when the attempt started; null
+  // when untimed. Past it (plus a short grace) the server finalizes the
+  // attempt with the answers saved so far
+  expiresAt: {
+    type: Date,
+    default: null
+  },
+  // Last autosave of the answers while in progress
+  lastSavedAt: {
+    type: Date,
+    default: null
+  },
+  // Finalized by the server when time ran out
+  autoSubmitted: {
+    type: Boolean,
+    default: false
+  },
+  // Some answers wait in the trainers' review queue; the score is
+  // provisional until they're graded
+  pendingReview: {
+    type: Boolean,
+    default: false
+  },
   submittedAt: {
     type: Date,
     default: null
@@ -86,6 +135,9 @@ const QuizAttemptSchema = new mongoose.Schema({
 QuizAttemptSchema.index({ student: 1, quiz: 1, attemptNumber: 1 }, { unique: true });
 QuizAttemptSchema.index({ student: 1, course: 1 });
 QuizAttemptSchema.index({ quiz: 1, status: 1 });
+QuizAttemptSchema.index({ status: 1, expiresAt: 1 });
+QuizAttemptSchema.index({ course: 1, pendingReview: 1 });
+QuizAttemptSchema.index({ 'answers.questionId': 1 });
 
 // Method to calculate score
 QuizAttemptSchema.methods.calculateScore = function() {
@@ -102,22 +154,27 @@ QuizAttemptSchema.methods.checkPassed = function(passingScore) {
 };
 
 // Method to mark as submitted
-QuizAttemptSchema.methods.markAsSubmitted = function() {
-  this.status = 'submitted';
+// Attempts finalized after their deadline count time up to the deadline
+QuizAttemptSchema.methods.markAsSubmitted = function(status = 'submitted') {
+  this.status = status;
   this.submittedAt = new Date();
 
   // Calculate time spent
   if (this.startedAt) {
-    this.timeSpent = Math.floor((this.submittedAt - this.startedAt) / 1000); // in seconds
+    const end = this.expiresAt && this.expiresAt < this.submittedAt ? this.expiresAt : this.submittedAt;
+    this.timeSpent = Math.max(Math.floor((end - this.startedAt) / 1000), 0); // in seconds
   }
 };
 
+// Statuses of attempts that are over and count towards maxAttempts
+QuizAttemptSchema.statics.FINISHED_STATUSES = ['submitted', 'expired'];
+
 // Static method to get attempt count
 QuizAttemptSchema.statics.getAttemptCount = async function(studentId, quizId) {
   return await this.countDocuments({
     student: studentId,
     quiz: quizId,
-    status: 'submitted'
+    status: { $in: this.FINISHED_STATUSES }
   });
 };
 
@@ -128,7 +185,7 @@ QuizAttemptSchema.statics.getBestScore = async function(studentId, quizId) {
       $match: {
         student: new mongoose.Types.ObjectId(studentId),
         quiz: new mongoose.Types.ObjectId(quizId),
-        status: 'submitted'
+        status: { $in: this.FINISHED_STATUSES }
       }
     },
     {
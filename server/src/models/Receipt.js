@@ -31,6 +31,12 @@ const receiptSchema = new mongoose.Schema({
     ref: 'Course',
     required: true
   },
+  // Verified payment this receipt was issued for (if any)
+  paymentRef: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Payment',
+    default: null
+  },
 
   // Payment details for this receipt
   payment: {
@@ -40,7 +46,7 @@ const receiptSchema = new mongoose.Schema({
     },
     method: {
       type: String,
-      enum: ['cash', 'card', 'bank_transfer', 'check', 'other'],
+      enum: ['cash', 'card', 'bank_transfer', 'online', 'sham_cash_app', 'check', 'other'],
       default: 'cash'
     },
     date: {
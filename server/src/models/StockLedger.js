@@ -21,11 +21,20 @@ const stockLedgerSchema = new mongoose.Schema(
         "release",    // Added for order rejection/cancellation
         "fulfill",    // Added for order fulfillment
         "cancel",     // Added for order cancellation
+        "loan_out",   // Checked out on an equipment loan
+        "loan_return", // Checked back in from a loan
         "other",
       ],
       required: true,
     },
     orderId: { type: mongoose.Schema.Types.ObjectId, ref: "Order" },
+    // Purchases only: what each unit cost and the order it was received on
+    unitCost: { type: Number, min: 0 },
+    purchaseOrderId: { type: mongoose.Schema.Types.ObjectId, ref: "PurchaseOrder" },
+    // Loan the parts went out or came back on (loan_out, loan_return, damaged)
+    loanId: { type: mongoose.Schema.Types.ObjectId, ref: "Loan" },
+    // Stocktake whose counted variance this adjustment posts
+    stocktakeId: { type: mongoose.Schema.Types.ObjectId, ref: "Stocktake" },
     createdBy: { type: mongoose.Schema.Types.ObjectId, ref: "User" },
     createdAt: { type: Date, default: Date.now, index: true },
     notes: { type: String }, // Optional notes for the ledger entry
@@ -36,6 +45,15 @@ const stockLedgerSchema = new mongoose.Schema(
 // Compound index for efficient queries by part and date
 stockLedgerSchema.index({ partId: 1, createdAt: -1 });
 
+// Index for unit cost history per part
+stockLedgerSchema.index({ partId: 1, reason: 1, createdAt: -1 });
+
+// Index for the stocktake variance report
+stockLedgerSchema.index(
+  { stocktakeId: 1, createdAt: -1 },
+  { partialFilterExpression: { stocktakeId: { $exists: true } } }
+);
+
 // Index for timestamp-based queries (recent movements)
 stockLedgerSchema.index({ createdAt: -1 });
 
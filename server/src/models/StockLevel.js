@@ -8,9 +8,17 @@ const stockLevelSchema = new mongoose.Schema(
       unique: true,
       required: true,
     },
+    // Physically on the shelf
+    onHandQty: { type: Number, default: 0 },
+    // Promised to pending/approved orders, still on the shelf
+    reservedQty: { type: Number, default: 0 },
+    // Available to promise: onHandQty - reservedQty
     availableQty: { type: Number, default: 0 },
+    // Cumulative quantities consumed and written off (no longer on hand)
     usedQty: { type: Number, default: 0 },
     damagedQty: { type: Number, default: 0 },
+    // Out with borrowers on equipment loans, expected back
+    onLoanQty: { type: Number, default: 0 },
     updatedAt: { type: Date, default: Date.now },
   },
   { versionKey: false }
@@ -0,0 +1,124 @@
+/**
+ * Stocktake Model
+ *
+ * A physical count of the parts in one category or group. Several people
+ * can count at once, each recording the quantity on the shelf for a part.
+ * A count is compared with the on-hand figure at the moment it was taken;
+ * on approval the differences are posted as `adjustment` ledger entries
+ * referencing the stocktake.
+ */
+
+const mongoose = require('mongoose');
+
+const STOCKTAKE_STATUSES = ['counting', 'approved', 'cancelled'];
+const STOCKTAKE_SCOPES = ['category', 'group'];
+
+const lineSchema = new mongoose.Schema({
+  partId: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'Part',
+    required: true
+  },
+  // Null until counted
+  countedQty: {
+    type: Number,
+    default: null,
+    min: [0, 'Counted quantity cannot be negative']
+  },
+  // On hand per the ledger when the count was recorded
+  expectedQty: {
+    type: Number,
+    default: null
+  },
+  countedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  countedAt: { type: Date },
+  // Set on approval: what was posted to the ledger
+  postedQty: {
+    type: Number,
+    default: null
+  }
+}, { _id: false });
+
+const stocktakeSchema = new mongoose.Schema({
+  // Unique reference (e.g., ST-2025-0001)
+  reference: {
+    type: String,
+    required: true,
+    unique: true
+  },
+
+  scopeType: {
+    type: String,
+    enum: STOCKTAKE_SCOPES,
+    required: true
+  },
+  // Category or group name being counted
+  scopeValue: {
+    type: String,
+    required: true,
+    trim: true
+  },
+
+  status: {
+    type: String,
+    enum: STOCKTAKE_STATUSES,
+    default: 'counting',
+    index: true
+  },
+
+  lines: {
+    type: [lineSchema],
+    validate: [lines => lines.length > 0, 'A stocktake needs at least one part']
+  },
+
+  notes: { type: String },
+
+  createdBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  approvedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  approvedAt: { type: Date },
+  cancelledAt: { type: Date }
+}, {
+  timestamps: true,
+  toJSON: { virtuals: true },
+  toObject: { virtuals: true }
+});
+
+stocktakeSchema.index({ 'lines.partId': 1, status: 1 });
+
+stocktakeSchema.virtual('countedLines').get(function() {
+  return (this.lines || []).filter(line => line.countedQty !== null).length;
+});
+
+stocktakeSchema.statics.STATUSES = STOCKTAKE_STATUSES;
+stocktakeSchema.statics.SCOPES = STOCKTAKE_SCOPES;
+
+/**
+ * Generate next stocktake reference
+ * Format: ST-YYYY-NNNN (e.g., ST-2025-0001)
+ */
+stocktakeSchema.statics.generateReference = async function() {
+  const year = new Date().getFullYear();
+  const prefix = `ST-${year}-`;
+
+  const last = await this.findOne({
+    reference: new RegExp(`^${prefix}`)
+  }).sort({ reference: -1 });
+
+  let nextNumber = 1;
+  if (last) {
+    nextNumber = parseInt(last.reference.split('-')[2]) + 1;
+  }
+
+  return `${prefix}${String(nextNumber).padStart(4, '0')}`;
+};
+
+module.exports = mongoose.model('Stocktake', stocktakeSchema);
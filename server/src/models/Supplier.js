@@ -0,0 +1,33 @@
+/**
+ * Supplier Model
+ *
+ * Vendors parts are bought from. Parts can name a preferred supplier and
+ * purchase orders are always placed with one.
+ */
+
+const mongoose = require('mongoose');
+
+const supplierSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: [true, 'Supplier name is required'],
+    trim: true,
+    unique: true
+  },
+  contactName: { type: String, trim: true },
+  email: { type: String, trim: true, lowercase: true },
+  phone: { type: String, trim: true },
+  website: { type: String, trim: true },
+  notes: { type: String },
+
+  // Inactive suppliers stay on past orders but can't receive new ones
+  isActive: {
+    type: Boolean,
+    default: true,
+    index: true
+  }
+}, {
+  timestamps: true
+});
+
+module.exports = mongoose.model('Supplier', supplierSchema);
@@ -16,6 +16,16 @@ const teamSchema = new mongoose.Schema(
     },
     name: { type: String, required: true },
     members: { type: [String], default: [] },
+    // Organizers approve registrations; teams created before approval
+    // existed have no status and are treated as approved
+    status: {
+      type: String,
+      enum: ["pending", "approved", "rejected"],
+      default: "pending",
+    },
+    reviewedBy: { type: mongoose.Schema.Types.ObjectId, ref: "User", default: null },
+    reviewedAt: { type: Date, default: null },
+    rejectionReason: { type: String, trim: true, maxlength: 500 },
   },
   { timestamps: true }
 );
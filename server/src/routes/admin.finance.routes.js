@@ -0,0 +1,20 @@
+const express = require('express');
+const {
+  getRevenue,
+  getOutstanding,
+  getReconciliation
+} = require('../controllers/admin.finance.controller');
+const { protect, restrictTo } = require('../middleware/auth');
+
+const router = express.Router();
+
+// All routes require authentication and admin role
+router.use(protect);
+router.use(restrictTo('admin', 'superadmin'));
+
+// Finance reports (add ?format=csv|xlsx to download)
+router.get('/revenue', getRevenue);
+router.get('/outstanding', getOutstanding);
+router.get('/reconciliation', getReconciliation);
+
+module.exports = router;
@@ -5,9 +5,13 @@ const {
   listCompetitions,
   createCompetition,
   updateCompetition,
+  updateCompetitionStatus,
   deleteCompetition,
   createEvaluation,
+  getJudgingSheet,
+  updateRubric,
   rankings,
+  publicResults,
 } = require("../controllers/competitions.controller");
 
 router.get("/", protect, limitJudgeAccess, listCompetitions);
@@ -33,8 +37,30 @@ router.delete(
   deleteCompetition
 );
 
+router.patch(
+  "/:id/status",
+  protect,
+  restrictTo("organizer", "superadmin", "admin"),
+  updateCompetitionStatus
+);
+
+router.put(
+  "/:id/rubric",
+  protect,
+  restrictTo("organizer", "superadmin", "admin"),
+  updateRubric
+);
+
 // Teams routes moved to /api/teams
 
+router.get(
+  "/:id/judging",
+  protect,
+  restrictTo("judge"),
+  limitJudgeAccess,
+  getJudgingSheet
+);
+
 router.post(
   "/:id/evaluations",
   protect,
@@ -45,4 +71,7 @@ router.post(
 
 router.get("/:id/rankings", protect, limitJudgeAccess, rankings);
 
+// Public: only answers once results are published
+router.get("/:id/results", publicResults);
+
 module.exports = router;
@@ -0,0 +1,26 @@
+const router = require("express").Router();
+const { protect, restrictTo } = require("../middleware/auth");
+const {
+  listLoans,
+  getMyLoans,
+  getBorrowers,
+  checkOut,
+  updateLoan,
+  checkIn,
+} = require("../controllers/loans.controller");
+
+router.use(protect);
+
+// Loans the current user answers for (shown on their profile)
+router.get("/mine", getMyLoans);
+
+// Managing loans is restricted to admin and superadmin
+router.use(restrictTo("admin", "superadmin"));
+
+router.get("/", listLoans);
+router.get("/borrowers", getBorrowers);
+router.post("/", checkOut);
+router.patch("/:id", updateLoan);
+router.post("/:id/check-in", checkIn);
+
+module.exports = router;
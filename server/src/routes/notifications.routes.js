@@ -0,0 +1,30 @@
+const express = require('express');
+const router = express.Router();
+const { protect } = require('../middleware/auth');
+const {
+  getNotifications,
+  getUnreadCount,
+  markAsRead,
+  markAllAsRead,
+  deleteNotification
+} = require('../controllers/notifications.controller');
+
+// All routes require authentication
+router.use(protect);
+
+// @route   GET /api/notifications
+router.get('/', getNotifications);
+
+// @route   GET /api/notifications/unread-count
+router.get('/unread-count', getUnreadCount);
+
+// @route   PATCH /api/notifications/read-all
+router.patch('/read-all', markAllAsRead);
+
+// @route   PATCH /api/notifications/:id/read
+router.patch('/:id/read', markAsRead);
+
+// @route   DELETE /api/notifications/:id
+router.delete('/:id', deleteNotification);
+
+module.exports = router;
@@ -4,15 +4,27 @@ const {
   listOrders,
   createOrder,
   approveOrder,
+  reviewOrderLines,
   rejectOrder,
   fulfillOrder,
+  handOut,
+  returnParts,
+  closeOrderLines,
   cancelOrder,
+  printPickList,
 } = require("../controllers/orders.controller");
 
 router.get("/", protect, listOrders);
 
 router.post("/", protect, createOrder);
 
+router.post(
+  "/pick-list",
+  protect,
+  restrictTo("admin", "superadmin"),
+  printPickList
+);
+
 router.post(
   "/:id/approve",
   protect,
@@ -20,6 +32,13 @@ router.post(
   approveOrder
 );
 
+router.post(
+  "/:id/review",
+  protect,
+  restrictTo("admin", "superadmin"),
+  reviewOrderLines
+);
+
 router.post(
   "/:id/reject",
   protect,
@@ -34,6 +53,22 @@ router.post(
   fulfillOrder
 );
 
+router.post(
+  "/:id/handouts",
+  protect,
+  restrictTo("admin", "superadmin"),
+  handOut
+);
+
+router.post(
+  "/:id/close",
+  protect,
+  restrictTo("admin", "superadmin"),
+  closeOrderLines
+);
+
+router.post("/:id/returns", protect, returnParts);
+
 router.post("/:id/cancel", protect, cancelOrder);
 
 module.exports = router;
@@ -1,7 +1,12 @@
 const router = require("express").Router();
 const { protect, restrictTo } = require("../middleware/auth");
 const {
+  sheetUpload,
   listParts,
+  scanPart,
+  printLabels,
+  exportParts,
+  importParts,
   getPartById,
   createPart,
   updatePart,
@@ -9,6 +14,17 @@ const {
 } = require("../controllers/parts.controller");
 
 router.get("/", listParts);
+
+// Resolve a scanned label or barcode to parts
+router.get("/scan", protect, scanPart);
+
+// Printable QR/barcode label sheets (restricted to admin and superadmin)
+router.post("/labels", protect, restrictTo("admin", "superadmin"), printLabels);
+
+// Spreadsheet round-trip of the catalog with stock counts (restricted to admin and superadmin)
+router.get("/export", protect, restrictTo("admin", "superadmin"), exportParts);
+router.post("/import", protect, restrictTo("admin", "superadmin"), sheetUpload.single("file"), importParts);
+
 router.get("/:id", getPartById);
 
 router.post("/", protect, restrictTo("admin", "superadmin"), createPart);
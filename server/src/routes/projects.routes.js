@@ -6,6 +6,8 @@ const {
   updateProject,
   deleteProject,
   updateProjectParts,
+  getProjectBom,
+  createBomOrder,
 } = require("../controllers/projects.controller");
 
 router.get("/", protect, listProjects);
@@ -14,4 +16,8 @@ router.put("/:id", protect, updateProject);
 router.delete("/:id", protect, deleteProject);
 router.put("/:id/parts", protect, updateProjectParts);
 
+// Bill of materials and ordering what the project is short of
+router.get("/:id/bom", protect, getProjectBom);
+router.post("/:id/bom/order", protect, createBomOrder);
+
 module.exports = router;
@@ -0,0 +1,27 @@
+const router = require("express").Router();
+const { protect, restrictTo } = require("../middleware/auth");
+const {
+  listPurchaseOrders,
+  getPurchaseOrder,
+  createPurchaseOrder,
+  updatePurchaseOrder,
+  updatePurchaseOrderStatus,
+  receivePurchaseOrder,
+} = require("../controllers/purchaseOrders.controller");
+
+// All routes require authentication and admin role
+router.use(protect);
+router.use(restrictTo("admin", "superadmin"));
+
+router.get("/", listPurchaseOrders);
+router.get("/:id", getPurchaseOrder);
+
+router.post("/", createPurchaseOrder);
+
+router.put("/:id", updatePurchaseOrder);
+
+router.patch("/:id/status", updatePurchaseOrderStatus);
+
+router.post("/:id/receive", receivePurchaseOrder);
+
+module.exports = router;
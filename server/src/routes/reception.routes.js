@@ -14,10 +14,20 @@ const {
   createEnrollment,
   updateEnrollment,
   recordPayment,
+  getOverduePayments,
   getAvailableCourses,
   getAvailableGroups,
   getAvailableStudents
 } = require('../controllers/reception.enrollment.controller');
+const {
+  getVerificationQueue,
+  getPaymentProof,
+  approvePayment,
+  rejectPayment,
+  getEnrollmentLedger,
+  refundPayment,
+  voidPayment
+} = require('../controllers/reception.payments.controller');
 const {
   getAllLeads,
   getLeadById,
@@ -33,7 +43,8 @@ const {
   createReceipt,
   getReceipt,
   downloadReceipt,
-  getEnrollmentReceipts
+  getEnrollmentReceipts,
+  downloadCreditNote
 } = require('../controllers/receipt.controller');
 const {
   getEvents,
@@ -77,6 +88,7 @@ router.patch('/users/:id/reactivate', reactivateUser);
 router.get('/enrollments/available-courses', getAvailableCourses);
 router.get('/enrollments/available-groups/:courseId', getAvailableGroups);
 router.get('/enrollments/available-students', getAvailableStudents);
+router.get('/enrollments/overdue', getOverduePayments);
 
 // Enrollment management
 router.route('/enrollments')
@@ -87,6 +99,17 @@ router.route('/enrollments/:id')
   .put(updateEnrollment);
 
 router.post('/enrollments/:id/payment', recordPayment);
+router.get('/enrollments/:id/ledger', getEnrollmentLedger);
+
+// Payment verification (student-submitted proofs)
+router.get('/payments', getVerificationQueue);
+router.get('/payments/:id/proof', getPaymentProof);
+router.post('/payments/:id/approve', approvePayment);
+router.post('/payments/:id/reject', rejectPayment);
+
+// Payment reversals (refunds and voids of completed payments)
+router.post('/payments/:id/refund', refundPayment);
+router.post('/payments/:id/void', voidPayment);
 
 // Interests (for lead form)
 router.get('/interests', getAllInterests);
@@ -128,6 +151,7 @@ router.route('/receipts/:id')
   .get(getReceipt);
 
 router.get('/receipts/:id/download', downloadReceipt);
+router.get('/credit-notes/:id/download', downloadCreditNote);
 
 // Event management
 router.route('/events')
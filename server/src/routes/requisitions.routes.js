@@ -0,0 +1,22 @@
+const router = require("express").Router();
+const { protect, restrictTo } = require("../middleware/auth");
+const {
+  listRequisitions,
+  createRequisition,
+  updateRequisitionStatus,
+  receiveRequisition,
+} = require("../controllers/requisitions.controller");
+
+// All routes require authentication and admin role
+router.use(protect);
+router.use(restrictTo("admin", "superadmin"));
+
+router.get("/", listRequisitions);
+
+router.post("/", createRequisition);
+
+router.patch("/:id/status", updateRequisitionStatus);
+
+router.post("/:id/receive", receiveRequisition);
+
+module.exports = router;
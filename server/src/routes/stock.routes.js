@@ -3,6 +3,9 @@ const { protect, restrictTo } = require("../middleware/auth");
 const {
   getLevels,
   getStats,
+  getLowStock,
+  getValuation,
+  getCostHistory,
   getCategories,
   getRecent,
   getHistory,
@@ -15,6 +18,13 @@ router.get("/levels", protect, getLevels);
 // Get dashboard statistics
 router.get("/stats", protect, getStats);
 
+// Get parts below their reorder point
+router.get("/low", protect, getLowStock);
+
+// Stock valuation and unit cost history (restricted to admin and superadmin)
+router.get("/valuation", protect, restrictTo("admin", "superadmin"), getValuation);
+router.get("/costs/:partId", protect, restrictTo("admin", "superadmin"), getCostHistory);
+
 // Get category breakdown
 router.get("/categories", protect, getCategories);
 
@@ -0,0 +1,28 @@
+const router = require("express").Router();
+const { protect, restrictTo } = require("../middleware/auth");
+const {
+  listStocktakes,
+  getStocktake,
+  createStocktake,
+  updateCounts,
+  approveStocktake,
+  cancelStocktake,
+  getVarianceReport,
+} = require("../controllers/stocktakes.controller");
+
+// All routes require authentication and admin role
+router.use(protect);
+router.use(restrictTo("admin", "superadmin"));
+
+router.get("/", listStocktakes);
+router.get("/variance-report", getVarianceReport);
+router.get("/:id", getStocktake);
+
+router.post("/", createStocktake);
+
+router.patch("/:id/counts", updateCounts);
+
+router.post("/:id/approve", approveStocktake);
+router.post("/:id/cancel", cancelStocktake);
+
+module.exports = router;
@@ -0,0 +1,42 @@
+const express = require('express');
+const router = express.Router();
+const { protect: authenticate } = require('../middleware/auth');
+const { getMyGroups } = require('../controllers/student.groups.controller');
+const {
+  getChat,
+  getMessages,
+  sendMessage,
+  editMessage,
+  deleteMessage,
+  toggleReaction,
+  markAsRead
+} = require('../controllers/groupChat.controller');
+
+// All routes require authentication
+router.use(authenticate);
+
+// @route   GET /api/student/groups
+router.get('/', getMyGroups);
+
+// @route   GET /api/student/groups/:groupId/chat
+router.get('/:groupId/chat', getChat);
+
+// @route   GET /api/student/groups/:groupId/chat/messages
+router.get('/:groupId/chat/messages', getMessages);
+
+// @route   POST /api/student/groups/:groupId/chat/messages
+router.post('/:groupId/chat/messages', sendMessage);
+
+// @route   PUT /api/student/groups/:groupId/chat/messages/:messageId
+router.put('/:groupId/chat/messages/:messageId', editMessage);
+
+// @route   DELETE /api/student/groups/:groupId/chat/messages/:messageId
+router.delete('/:groupId/chat/messages/:messageId', deleteMessage);
+
+// @route   POST /api/student/groups/:groupId/chat/messages/:messageId/reactions
+router.post('/:groupId/chat/messages/:messageId/reactions', toggleReaction);
+
+// @route   POST /api/student/groups/:groupId/chat/read
+router.post('/:groupId/chat/read', markAsRead);
+
+module.exports = router;
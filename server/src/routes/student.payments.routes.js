@@ -6,8 +6,11 @@ const {
   getAllPayments,
   getPaymentReceipt,
   initiatePayment,
-  confirmPayment,
-  getPaymentSummary
+  submitPaymentProof,
+  getPaymentRequests,
+  upload,
+  getPaymentSummary,
+  getInstallments
 } = require('../controllers/student.payments.controller');
 
 // All routes require authentication
@@ -19,6 +22,12 @@ router.get('/', getAllPayments);
 // @route   GET /api/student/payments/summary
 router.get('/summary', getPaymentSummary);
 
+// @route   GET /api/student/payments/requests
+router.get('/requests', getPaymentRequests);
+
+// @route   GET /api/student/payments/installments
+router.get('/installments', getInstallments);
+
 // @route   GET /api/student/payments/courses/:courseId
 router.get('/courses/:courseId', getCoursePayments);
 
@@ -28,7 +37,7 @@ router.get('/:paymentId/receipt', getPaymentReceipt);
 // @route   POST /api/student/payments/initiate
 router.post('/initiate', initiatePayment);
 
-// @route   POST /api/student/payments/:paymentId/confirm
-router.post('/:paymentId/confirm', confirmPayment);
+// @route   POST /api/student/payments/:paymentId/proof
+router.post('/:paymentId/proof', upload.single('proof'), submitPaymentProof);
 
 module.exports = router;
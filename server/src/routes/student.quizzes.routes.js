@@ -4,6 +4,8 @@ const { protect: authenticate } = require('../middleware/auth');
 const {
   getQuiz,
   startQuizAttempt,
+  getCurrentAttempt,
+  saveQuizAnswers,
   submitQuiz,
   getQuizAttempts,
   getQuizResults
@@ -18,6 +20,12 @@ router.get('/:quizId', getQuiz);
 // @route   POST /api/student/quizzes/:quizId/start
 router.post('/:quizId/start', startQuizAttempt);
 
+// @route   GET /api/student/quizzes/:quizId/attempts/current
+router.get('/:quizId/attempts/current', getCurrentAttempt);
+
+// @route   PUT /api/student/quizzes/:quizId/attempts/:attemptId/answers
+router.put('/:quizId/attempts/:attemptId/answers', saveQuizAnswers);
+
 // @route   POST /api/student/quizzes/:quizId/submit
 router.post('/:quizId/submit', submitQuiz);
 
@@ -0,0 +1,22 @@
+const express = require('express');
+const router = express.Router();
+const { protect: authenticate } = require('../middleware/auth');
+const {
+  getResources,
+  viewResource,
+  downloadResource
+} = require('../controllers/student.resources.controller');
+
+// All routes require authentication
+router.use(authenticate);
+
+// @route   GET /api/student/resources
+router.get('/', getResources);
+
+// @route   POST /api/student/resources/:resourceId/view
+router.post('/:resourceId/view', viewResource);
+
+// @route   POST /api/student/resources/:resourceId/download
+router.post('/:resourceId/download', downloadResource);
+
+module.exports = router;
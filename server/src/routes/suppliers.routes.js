@@ -0,0 +1,22 @@
+const router = require("express").Router();
+const { protect, restrictTo } = require("../middleware/auth");
+const {
+  listSuppliers,
+  createSupplier,
+  updateSupplier,
+  deleteSupplier,
+} = require("../controllers/suppliers.controller");
+
+// All routes require authentication and admin role
+router.use(protect);
+router.use(restrictTo("admin", "superadmin"));
+
+router.get("/", listSuppliers);
+
+router.post("/", createSupplier);
+
+router.put("/:id", updateSupplier);
+
+router.delete("/:id", deleteSupplier);
+
+module.exports = router;
@@ -1,5 +1,5 @@
 const router = require("express").Router();
-const { protect } = require("../middleware/auth");
+const { protect, restrictTo } = require("../middleware/auth");
 const { limitJudgeAccess } = require("../middleware/limitJudgeAccess");
 const {
   listTeams,
@@ -7,6 +7,7 @@ const {
   createTeam,
   updateTeam,
   deleteTeam,
+  reviewTeam,
 } = require("../controllers/teams.controller");
 
 router.get("/", protect, limitJudgeAccess, listTeams);
@@ -14,5 +15,11 @@ router.get("/:id", protect, getTeamById);
 router.post("/", protect, createTeam);
 router.put("/:id", protect, updateTeam);
 router.delete("/:id", protect, deleteTeam);
+router.patch(
+  "/:id/review",
+  protect,
+  restrictTo("organizer", "superadmin", "admin"),
+  reviewTeam
+);
 
 module.exports = router;
@@ -0,0 +1,77 @@
+const express = require('express');
+const router = express.Router();
+const { protect, requireTrainer } = require('../middleware/auth');
+const {
+  getAllAssignments,
+  getCourseModules,
+  getAssignmentById,
+  createAssignment,
+  updateAssignment,
+  deleteAssignment,
+  getAssignmentSubmissions,
+  getSubmissionById,
+  gradeSubmission,
+  requestResubmission,
+  addComment
+} = require('../controllers/trainer.assignments.controller');
+
+// All routes require authentication and trainer role
+router.use(protect);
+router.use(requireTrainer);
+
+// @route   GET /api/trainer/assignments
+// @desc    Get all assignments for the trainer's courses
+// @access  Private (Trainer)
+router.get('/', getAllAssignments);
+
+// @route   GET /api/trainer/assignments/course/:courseId/modules
+// @desc    Get modules of a course
+// @access  Private (Trainer)
+router.get('/course/:courseId/modules', getCourseModules);
+
+// @route   POST /api/trainer/assignments
+// @desc    Create a new assignment
+// @access  Private (Trainer)
+router.post('/', createAssignment);
+
+// @route   GET /api/trainer/assignments/submissions/:submissionId
+// @desc    Get a submission with its earlier versions
+// @access  Private (Trainer)
+router.get('/submissions/:submissionId', getSubmissionById);
+
+// @route   PUT /api/trainer/assignments/submissions/:submissionId/grade
+// @desc    Grade a submission against the rubric
+// @access  Private (Trainer)
+router.put('/submissions/:submissionId/grade', gradeSubmission);
+
+// @route   POST /api/trainer/assignments/submissions/:submissionId/resubmit
+// @desc    Request a resubmission
+// @access  Private (Trainer)
+router.post('/submissions/:submissionId/resubmit', requestResubmission);
+
+// @route   POST /api/trainer/assignments/submissions/:submissionId/comments
+// @desc    Add comment to submission
+// @access  Private (Trainer)
+router.post('/submissions/:submissionId/comments', addComment);
+
+// @route   GET /api/trainer/assignments/:assignmentId
+// @desc    Get assignment by ID
+// @access  Private (Trainer)
+router.get('/:assignmentId', getAssignmentById);
+
+// @route   PUT /api/trainer/assignments/:assignmentId
+// @desc    Update assignment
+// @access  Private (Trainer)
+router.put('/:assignmentId', updateAssignment);
+
+// @route   DELETE /api/trainer/assignments/:assignmentId
+// @desc    Delete assignment
+// @access  Private (Trainer)
+router.delete('/:assignmentId', deleteAssignment);
+
+// @route   GET /api/trainer/assignments/:assignmentId/submissions
+// @desc    Get submissions per group
+// @access  Private (Trainer)
+router.get('/:assignmentId/submissions', getAssignmentSubmissions);
+
+module.exports = router;
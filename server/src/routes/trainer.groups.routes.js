@@ -5,6 +5,7 @@
  * - Group CRUD operations
  * - Student management
  * - Group statistics
+ * - Group chat
  */
 
 const express = require('express');
@@ -22,6 +23,17 @@ const {
   getGroupStudents,
   getCourses
 } = require('../controllers/trainer.groups.controller');
+const {
+  getChat,
+  getMessages,
+  sendMessage,
+  editMessage,
+  deleteMessage,
+  pinMessage,
+  unpinMessage,
+  toggleReaction,
+  markAsRead
+} = require('../controllers/groupChat.controller');
 
 // All routes require authentication
 router.use(authenticate);
@@ -59,6 +71,51 @@ router.get('/:groupId/stats', getGroupStats);
 // @access  Private (Trainer)
 router.get('/:groupId/students', getGroupStudents);
 
+// @route   GET /api/trainer/groups/:groupId/chat
+// @desc    Get group chat details, pinned messages and unread count
+// @access  Private (Trainer)
+router.get('/:groupId/chat', getChat);
+
+// @route   GET /api/trainer/groups/:groupId/chat/messages
+// @desc    Get paginated chat messages
+// @access  Private (Trainer)
+router.get('/:groupId/chat/messages', getMessages);
+
+// @route   POST /api/trainer/groups/:groupId/chat/messages
+// @desc    Send a message or announcement
+// @access  Private (Trainer)
+router.post('/:groupId/chat/messages', sendMessage);
+
+// @route   PUT /api/trainer/groups/:groupId/chat/messages/:messageId
+// @desc    Edit own message
+// @access  Private (Trainer)
+router.put('/:groupId/chat/messages/:messageId', editMessage);
+
+// @route   DELETE /api/trainer/groups/:groupId/chat/messages/:messageId
+// @desc    Delete a message
+// @access  Private (Trainer)
+router.delete('/:groupId/chat/messages/:messageId', deleteMessage);
+
+// @route   POST /api/trainer/groups/:groupId/chat/messages/:messageId/pin
+// @desc    Pin a message
+// @access  Private (Trainer)
+router.post('/:groupId/chat/messages/:messageId/pin', pinMessage);
+
+// @route   DELETE /api/trainer/groups/:groupId/chat/messages/:messageId/pin
+// @desc    Unpin a message
+// @access  Private (Trainer)
+router.delete('/:groupId/chat/messages/:messageId/pin', unpinMessage);
+
+// @route   POST /api/trainer/groups/:groupId/chat/messages/:messageId/reactions
+// @desc    Toggle a reaction on a message
+// @access  Private (Trainer)
+router.post('/:groupId/chat/messages/:messageId/reactions', toggleReaction);
+
+// @route   POST /api/trainer/groups/:groupId/chat/read
+// @desc    Mark chat messages as read
+// @access  Private (Trainer)
+router.post('/:groupId/chat/read', markAsRead);
+
 // @route   GET /api/trainer/courses
 // @desc    Get all available courses
 // @access  Private (Trainer)
@@ -0,0 +1,47 @@
+const express = require('express');
+const router = express.Router();
+const { protect, requireTrainer } = require('../middleware/auth');
+const {
+  getCourseBank,
+  createBankItem,
+  copyQuizToBank,
+  updateBankItem,
+  deleteBankItem,
+  refreshCourseStats
+} = require('../controllers/trainer.questionBank.controller');
+
+// All routes require authentication and trainer role
+router.use(protect);
+router.use(requireTrainer);
+
+// @route   GET /api/trainer/question-bank/course/:courseId
+// @desc    Get a course's question bank, optionally by difficulty, tag or type
+// @access  Private (Trainer)
+router.get('/course/:courseId', getCourseBank);
+
+// @route   POST /api/trainer/question-bank/course/:courseId/stats
+// @desc    Recompute statistics for every question in a course's bank
+// @access  Private (Trainer)
+router.post('/course/:courseId/stats', refreshCourseStats);
+
+// @route   POST /api/trainer/question-bank
+// @desc    Add a question to a course's bank
+// @access  Private (Trainer)
+router.post('/', createBankItem);
+
+// @route   POST /api/trainer/question-bank/from-quiz/:quizId
+// @desc    Copy a quiz's questions into its course's bank
+// @access  Private (Trainer)
+router.post('/from-quiz/:quizId', copyQuizToBank);
+
+// @route   PUT /api/trainer/question-bank/:id
+// @desc    Update a bank question
+// @access  Private (Trainer)
+router.put('/:id', updateBankItem);
+
+// @route   DELETE /api/trainer/question-bank/:id
+// @desc    Delete a bank question
+// @access  Private (Trainer)
+router.delete('/:id', deleteBankItem);
+
+module.exports = router;
@@ -8,7 +8,16 @@ const {
   updateQuiz,
   deleteQuiz,
   getCourseQuizzes,
-  duplicateQuiz
+  duplicateQuiz,
+  getReviewQueue,
+  reviewAttempt,
+  quizUpload,
+  exportQuiz,
+  exportCourseQuizzes,
+  importQuizzes,
+  getQuizAnalytics,
+  getAttemptDetail,
+  overrideQuestion
 } = require('../controllers/trainer.quizzes.controller');
 
 // All routes require authentication and trainer role
@@ -25,6 +34,31 @@ router.get('/', getAllQuizzes);
 // @access  Private (Trainer)
 router.get('/course/:courseId', getCourseQuizzes);
 
+// @route   GET /api/trainer/quizzes/course/:courseId/export
+// @desc    Export all quizzes of a course as GIFT, Moodle XML, CSV or XLSX
+// @access  Private (Trainer)
+router.get('/course/:courseId/export', exportCourseQuizzes);
+
+// @route   POST /api/trainer/quizzes/import
+// @desc    Preview or import a GIFT, Moodle XML, CSV or XLSX quiz file
+// @access  Private (Trainer)
+router.post('/import', quizUpload.single('file'), importQuizzes);
+
+// @route   GET /api/trainer/quizzes/reviews
+// @desc    Get essay answers waiting for review
+// @access  Private (Trainer)
+router.get('/reviews', getReviewQueue);
+
+// @route   POST /api/trainer/quizzes/reviews/:attemptId
+// @desc    Grade essay answers of an attempt, or override any of its answers
+// @access  Private (Trainer)
+router.post('/reviews/:attemptId', reviewAttempt);
+
+// @route   GET /api/trainer/quizzes/attempts/:attemptId
+// @desc    Get a finished attempt with every answer, for review
+// @access  Private (Trainer)
+router.get('/attempts/:attemptId', getAttemptDetail);
+
 // @route   POST /api/trainer/quizzes
 // @desc    Create a new quiz
 // @access  Private (Trainer)
@@ -50,4 +84,19 @@ router.delete('/:id', deleteQuiz);
 // @access  Private (Trainer)
 router.post('/:id/duplicate', duplicateQuiz);
 
+// @route   GET /api/trainer/quizzes/:id/export
+// @desc    Export a quiz as GIFT, Moodle XML, CSV or XLSX
+// @access  Private (Trainer)
+router.get('/:id/export', exportQuiz);
+
+// @route   GET /api/trainer/quizzes/:id/analytics
+// @desc    Score distribution, pass rate per group, time spent and item analysis
+// @access  Private (Trainer)
+router.get('/:id/analytics', getQuizAnalytics);
+
+// @route   PUT /api/trainer/quizzes/:id/questions/:questionId/override
+// @desc    Fix the points everyone earns on a question and regrade all attempts
+// @access  Private (Trainer)
+router.put('/:id/questions/:questionId/override', overrideQuestion);
+
 module.exports = router;
@@ -0,0 +1,84 @@
+const express = require('express');
+const router = express.Router();
+const { protect, requireTrainer } = require('../middleware/auth');
+const {
+  upload,
+  getResources,
+  getResourceStats,
+  getResourceById,
+  createResource,
+  updateResource,
+  replaceFile,
+  shareResource,
+  unshareResource,
+  archiveResource,
+  restoreResource,
+  deleteResource,
+  downloadResource
+} = require('../controllers/trainer.resources.controller');
+
+// All routes require authentication and trainer role
+router.use(protect);
+router.use(requireTrainer);
+
+// @route   GET /api/trainer/resources
+// @desc    Get trainer's resources (filter by category, fileType, courseId, groupId, tag, status, search)
+// @access  Private (Trainer)
+router.get('/', getResources);
+
+// @route   GET /api/trainer/resources/stats
+// @desc    Get resource view/download statistics
+// @access  Private (Trainer)
+router.get('/stats', getResourceStats);
+
+// @route   POST /api/trainer/resources
+// @desc    Upload a new resource
+// @access  Private (Trainer)
+router.post('/', upload.single('file'), createResource);
+
+// @route   GET /api/trainer/resources/:resourceId
+// @desc    Get resource details with access log
+// @access  Private (Trainer)
+router.get('/:resourceId', getResourceById);
+
+// @route   PUT /api/trainer/resources/:resourceId
+// @desc    Update resource details
+// @access  Private (Trainer)
+router.put('/:resourceId', updateResource);
+
+// @route   DELETE /api/trainer/resources/:resourceId
+// @desc    Delete resource
+// @access  Private (Trainer)
+router.delete('/:resourceId', deleteResource);
+
+// @route   PUT /api/trainer/resources/:resourceId/file
+// @desc    Upload a new version of the resource file
+// @access  Private (Trainer)
+router.put('/:resourceId/file', upload.single('file'), replaceFile);
+
+// @route   GET /api/trainer/resources/:resourceId/download
+// @desc    Download resource file
+// @access  Private (Trainer)
+router.get('/:resourceId/download', downloadResource);
+
+// @route   POST /api/trainer/resources/:resourceId/share
+// @desc    Share resource with groups
+// @access  Private (Trainer)
+router.post('/:resourceId/share', shareResource);
+
+// @route   DELETE /api/trainer/resources/:resourceId/share/:groupId
+// @desc    Stop sharing resource with a group
+// @access  Private (Trainer)
+router.delete('/:resourceId/share/:groupId', unshareResource);
+
+// @route   PATCH /api/trainer/resources/:resourceId/archive
+// @desc    Archive resource
+// @access  Private (Trainer)
+router.patch('/:resourceId/archive', archiveResource);
+
+// @route   PATCH /api/trainer/resources/:resourceId/restore
+// @desc    Restore archived resource
+// @access  Private (Trainer)
+router.patch('/:resourceId/restore', restoreResource);
+
+module.exports = router;
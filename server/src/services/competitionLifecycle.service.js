@@ -0,0 +1,127 @@
+/**
+ * Competition Lifecycle Service
+ *
+ * Rules for moving a competition through its phases and for team
+ * registration:
+ * - draft -> registration -> judging -> results_published, with a step
+ *   back allowed from each phase (e.g. to reopen registration or unpublish)
+ * - Teams can only register while the competition is in registration and
+ *   inside the optional registration window
+ * - Pending and approved teams count towards maxTeams; rejected ones don't
+ * - Competitions from before the lifecycle get a status from their dates:
+ *   registration until they start, judging from then on
+ */
+
+const Competition = require('../models/Competition');
+
+const TRANSITIONS = {
+  draft: ['registration'],
+  registration: ['draft', 'judging'],
+  judging: ['registration', 'results_published'],
+  results_published: ['judging']
+};
+
+// Teams from before approval existed have no status and count as approved
+const APPROVED_TEAM_FILTER = { status: { $nin: ['pending', 'rejected'] } };
+const ACTIVE_TEAM_FILTER = { status: { $ne: 'rejected' } };
+
+/**
+ * Status a competition from before the lifecycle is given
+ * @param {Object} competition
+ * @param {Date} [now]
+ * @returns {string}
+ */
+function legacyStatus(competition, now = new Date()) {
+  return competition.startDate && now < competition.startDate ? 'registration' : 'judging';
+}
+
+/**
+ * Current status of a competition
+ * Competitions not yet backfilled get theirs from their dates
+ * @param {Object} competition
+ * @returns {string}
+ */
+function statusOf(competition) {
+  return competition.status || legacyStatus(competition);
+}
+
+/**
+ * Give competitions created before the lifecycle a status
+ * Run once at startup after upgrading; a no-op afterwards
+ * @returns {Promise<number>} Number of competitions updated
+ */
+async function backfillCompetitionStatuses() {
+  const now = new Date();
+  const [upcoming, started] = await Promise.all([
+    Competition.updateMany({ status: null, startDate: { $gt: now } }, { $set: { status: 'registration' } }),
+    Competition.updateMany({ status: null, startDate: { $not: { $gt: now } } }, { $set: { status: 'judging' } })
+  ]);
+  return upcoming.modifiedCount + started.modifiedCount;
+}
+
+/**
+ * Whether a competition may move from one status to another
+ * @param {string} from - Current status
+ * @param {string} to - Requested status
+ * @returns {boolean}
+ */
+function canTransition(from, to) {
+  return (TRANSITIONS[from] || []).includes(to);
+}
+
+/**
+ * Whether new teams can register right now
+ *
+ * @param {Object} competition - Competition document
+ * @param {Date} [now]
+ * @returns {{ open: boolean, code: string|null, message: string|null }}
+ */
+function registrationState(competition, now = new Date()) {
+  if (statusOf(competition) !== 'registration') {
+    return { open: false, code: 'REGISTRATION_NOT_OPEN', message: 'Registration is not open for this competition' };
+  }
+  if (competition.registrationOpensAt && now < competition.registrationOpensAt) {
+    return {
+      open: false,
+      code: 'REGISTRATION_NOT_STARTED',
+      message: `Registration opens on ${competition.registrationOpensAt.toISOString().slice(0, 10)}`
+    };
+  }
+  if (competition.registrationClosesAt && now > competition.registrationClosesAt) {
+    return { open: false, code: 'REGISTRATION_CLOSED', message: 'Registration for this competition has closed' };
+  }
+  return { open: true, code: null, message: null };
+}
+
+/**
+ * Whether a user may see a competition in its current status
+ * Drafts are only shown to the roles that manage competitions
+ *
+ * @param {Object} competition
+ * @param {Object} user - req.user
+ * @returns {boolean}
+ */
+function isVisibleTo(competition, user) {
+  return statusOf(competition) !== 'draft' || isOrganizer(user);
+}
+
+/**
+ * Roles that manage competitions, teams and results
+ * @param {Object} user - req.user
+ * @returns {boolean}
+ */
+function isOrganizer(user) {
+  return !!user && ['organizer', 'admin', 'superadmin'].includes(user.role);
+}
+
+module.exports = {
+  TRANSITIONS,
+  APPROVED_TEAM_FILTER,
+  ACTIVE_TEAM_FILTER,
+  statusOf,
+  backfillCompetitionStatuses,
+  canTransition,
+  registrationState,
+  isVisibleTo,
+  isOrganizer
+};
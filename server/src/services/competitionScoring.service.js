@@ -0,0 +1,234 @@
+/**
+ * Competition Scoring Service
+ *
+ * Scores judge evaluations against a competition's rubric and ranks teams.
+ *
+ * - Each evaluation gets a weighted score: every criterion contributes
+ *   points / maxPoints, weighted by the criterion weight, as a percentage.
+ *   Rankings recompute it with the current weights, so evaluations made
+ *   before a weight change are ranked the same way as later ones.
+ * - A team's score is the mean of its judges' scores (so the number of
+ *   judges doesn't matter). With the "normalized" method each judge's scores
+ *   are first rescaled so that judge's mean matches the panel mean.
+ * - Ties are broken by the criteria that have a tie-break priority (higher
+ *   average percentage wins), in priority order; teams still tied share
+ *   the rank.
+ * - Once a rubric exists, evaluations made before it (a raw total with no
+ *   criterion scores) are on a different scale; they are listed but marked
+ *   as excluded and don't count towards any score.
+ */
+
+const EPSILON = 1e-9;
+
+const round = (value, digits = 2) => {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+};
+
+const mean = (values) => (values.length ? values.reduce((a, b) => a + b, 0) / values.length : 0);
+
+/**
+ * Validate criterion scores against a rubric and compute the totals
+ *
+ * @param {Array} criteria - Rubric criteria ({ _id, name, maxPoints, weight })
+ * @param {Array} criterionScores - [{ criterionId, points }]
+ * @returns {{ error: string|null, totalScore: number, weightedScore: number }}
+ */
+function scoreEvaluation(criteria, criterionScores) {
+  const byId = new Map(criterionScores.map(s => [String(s.criterionId), Number(s.points)]));
+
+  const unknown = criterionScores.find(s => !criteria.some(c => String(c._id) === String(s.criterionId)));
+  if (unknown) {
+    return { error: `Unknown criterion: ${unknown.criterionId}` };
+  }
+
+  let totalScore = 0;
+  let weighted = 0;
+  let totalWeight = 0;
+
+  for (const criterion of criteria) {
+    const points = byId.get(String(criterion._id));
+
+    if (points === undefined || Number.isNaN(points)) {
+      return { error: `Missing score for "${criterion.name}"` };
+    }
+    if (points < 0 || points > criterion.maxPoints) {
+      return { error: `Score for "${criterion.name}" must be between 0 and ${criterion.maxPoints}` };
+    }
+
+    totalScore += points;
+    weighted += (points / criterion.maxPoints) * criterion.weight;
+    totalWeight += criterion.weight;
+  }
+
+  return {
+    error: null,
+    totalScore: round(totalScore),
+    weightedScore: totalWeight > 0 ? round((weighted / totalWeight) * 100, 4) : 0
+  };
+}
+
+const hasCriterionScores = (evaluation) => Boolean(evaluation.criterionScores && evaluation.criterionScores.length);
+
+/**
+ * Score an evaluation contributes to the ranking
+ * With a rubric that is the 0-100 weighted score, recomputed against the
+ * current weights (they may change after judging); without one, the raw total
+ */
+function evaluationScore(evaluation, criteria) {
+  if (!criteria.length) return evaluation.totalScore;
+
+  const { error, weightedScore } = scoreEvaluation(criteria, evaluation.criterionScores);
+  return error ? evaluation.weightedScore : weightedScore;
+}
+
+/**
+ * Rank the teams of a competition
+ *
+ * @param {Object} competition - Competition with rubric
+ * @param {Array} teams - Teams of the competition ({ _id, name })
+ * @param {Array} evaluations - Evaluations with judgeId populated ({ _id, name }) or as ids
+ * @returns {Object} { scoringMethod, criteria, tieBreakers, judgeCount, excludedEvaluations, rankings }
+ */
+function computeRankings(competition, teams, evaluations) {
+  const rubric = competition.rubric || {};
+  const criteria = rubric.criteria || [];
+  const hasRubric = criteria.length > 0;
+  const scoringMethod = rubric.scoringMethod || 'average';
+  const tieBreakers = criteria
+    .filter(c => c.tieBreakPriority)
+    .sort((a, b) => a.tieBreakPriority - b.tieBreakPriority);
+
+  const judgeKey = (evaluation) => String(evaluation.judgeId && evaluation.judgeId._id ? evaluation.judgeId._id : evaluation.judgeId);
+  const judgeName = (evaluation) => (evaluation.judgeId && evaluation.judgeId.name ? evaluation.judgeId.name : null);
+  // Raw totals from before the rubric can't be compared with rubric scores
+  const isExcluded = (evaluation) => hasRubric && !hasCriterionScores(evaluation);
+  const scored = evaluations
+    .filter(evaluation => !isExcluded(evaluation))
+    .map(evaluation => ({
+      evaluation,
+      judge: judgeKey(evaluation),
+      raw: evaluationScore(evaluation, criteria)
+    }));
+  const excluded = evaluations.filter(isExcluded);
+
+  // Per-judge scaling factor for the normalized method
+  const scale = new Map();
+  if (scoringMethod === 'normalized' && scored.length) {
+    const panelMean = mean(scored.map(s => s.raw));
+    const byJudge = new Map();
+    scored.forEach(s => {
+      if (!byJudge.has(s.judge)) byJudge.set(s.judge, []);
+      byJudge.get(s.judge).push(s.raw);
+    });
+    byJudge.forEach((scores, judge) => {
+      const judgeMean = mean(scores);
+      scale.set(judge, judgeMean > EPSILON ? panelMean / judgeMean : 1);
+    });
+  }
+
+  const rows = teams.map(team => {
+    const teamScores = scored.filter(s => String(s.evaluation.teamId) === String(team._id));
+
+    const judges = teamScores.map(s => ({
+      judgeId: s.judge,
+      judgeName: judgeName(s.evaluation),
+      rawScore: round(s.raw),
+      score: round(s.raw * (scale.get(s.judge) || 1)),
+      excluded: false,
+      comments: s.evaluation.comments || ''
+    }));
+    const excludedJudges = excluded
+      .filter(evaluation => String(evaluation.teamId) === String(team._id))
+      .map(evaluation => ({
+        judgeId: judgeKey(evaluation),
+        judgeName: judgeName(evaluation),
+        rawScore: round(evaluation.totalScore || 0),
+        score: null,
+        excluded: true,
+        comments: evaluation.comments || ''
+      }));
+
+    const criteriaBreakdown = criteria.map(criterion => {
+      const points = teamScores
+        .map(s => (s.evaluation.criterionScores || []).find(cs => String(cs.criterionId) === String(criterion._id)))
+        .filter(Boolean)
+        .map(cs => cs.points);
+      const averagePoints = mean(points);
+
+      return {
+        criterionId: String(criterion._id),
+        name: criterion.name,
+        maxPoints: criterion.maxPoints,
+        weight: criterion.weight,
+        averagePoints: round(averagePoints),
+        percent: round((averagePoints / criterion.maxPoints) * 100)
+      };
+    });
+
+    return {
+      teamId: String(team._id),
+      teamName: team.name,
+      judgeCount: judges.length,
+      // Compared at the displayed precision so equal-looking scores tie
+      score: judges.length ? round(mean(teamScores.map(s => s.raw * (scale.get(s.judge) || 1)))) : null,
+      criteria: criteriaBreakdown,
+      judges: [...judges, ...excludedJudges]
+    };
+  });
+
+  const criterionPercent = (row, criterion) => {
+    const entry = row.criteria.find(c => c.criterionId === String(criterion._id));
+    return entry ? entry.percent : 0;
+  };
+
+  // Returns the first tie-breaker that separates the two teams (or null)
+  const compare = (a, b) => {
+    if (Math.abs(b.score - a.score) > EPSILON) return { diff: b.score - a.score, decidedBy: null };
+    for (const criterion of tieBreakers) {
+      const diff = criterionPercent(b, criterion) - criterionPercent(a, criterion);
+      if (Math.abs(diff) > EPSILON) return { diff, decidedBy: criterion.name };
+    }
+    return { diff: 0, decidedBy: null };
+  };
+
+  const judged = rows.filter(row => row.score !== null).sort((a, b) => compare(a, b).diff);
+  const unjudged = rows.filter(row => row.score === null).sort((a, b) => a.teamName.localeCompare(b.teamName));
+
+  judged.forEach((row, index) => {
+    const previous = judged[index - 1];
+    if (!previous) {
+      row.rank = 1;
+      row.tieBrokenBy = null;
+      return;
+    }
+    const { diff, decidedBy } = compare(previous, row);
+    row.rank = diff === 0 ? previous.rank : index + 1;
+    row.tieBrokenBy = decidedBy;
+  });
+  unjudged.forEach(row => {
+    row.rank = null;
+    row.tieBrokenBy = null;
+  });
+
+  return {
+    scoringMethod,
+    criteria: criteria.map(c => ({
+      _id: String(c._id),
+      name: c.name,
+      description: c.description,
+      maxPoints: c.maxPoints,
+      weight: c.weight,
+      tieBreakPriority: c.tieBreakPriority || null
+    })),
+    tieBreakers: tieBreakers.map(c => String(c._id)),
+    judgeCount: new Set(scored.map(s => s.judge)).size,
+    excludedEvaluations: excluded.length,
+    rankings: [...judged, ...unjudged]
+  };
+}
+
+module.exports = {
+  scoreEvaluation,
+  computeRankings
+};
@@ -0,0 +1,374 @@
+/**
+ * Finance Service
+ *
+ * Aggregates Payment and Enrollment data into management reports:
+ * - Revenue by course, group, payment method or month
+ * - Outstanding balances per student
+ * - Daily cash-drawer reconciliation per reception user
+ *
+ * Revenue counts completed payments (including partially or fully refunded
+ * ones) by the date they were paid; refunds are netted against the payment
+ * they reverse. Voided payments were recorded by mistake and are left out.
+ */
+
+const mongoose = require('mongoose');
+const Payment = require('../models/Payment');
+const Enrollment = require('../models/Enrollment');
+const User = require('../models/User');
+
+const REVENUE_GROUPINGS = ['course', 'group', 'method', 'month'];
+const REVENUE_STATUSES = ['completed', 'refunded'];
+
+const roundMoney = (value) => Math.round((value || 0) * 100) / 100;
+
+/**
+ * Start of a YYYY-MM-DD day in server time
+ */
+function parseDay(value) {
+  const day = /^\d{4}-\d{2}-\d{2}$/.test(value) ? new Date(`${value}T00:00:00`) : new Date(value);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/**
+ * Parse an optional YYYY-MM-DD range into a paidAt filter
+ * `to` is inclusive (the whole day is counted)
+ */
+function buildDateRange(from, to) {
+  const range = {};
+  if (from) {
+    range.$gte = parseDay(from);
+  }
+  if (to) {
+    const end = parseDay(to);
+    end.setDate(end.getDate() + 1);
+    range.$lt = end;
+  }
+  return Object.keys(range).length ? range : null;
+}
+
+/**
+ * Pipeline stages that set `key` and `label` for a revenue grouping
+ */
+function revenueGroupStages(groupBy) {
+  switch (groupBy) {
+    case 'course':
+      return [
+        { $lookup: { from: 'courses', localField: 'course', foreignField: '_id', as: 'courseDoc' } },
+        {
+          $set: {
+            key: '$course',
+            label: { $ifNull: [{ $arrayElemAt: ['$courseDoc.title', 0] }, 'Unknown course'] }
+          }
+        }
+      ];
+    case 'group':
+      // Payments don't reference a group; use the group of the payment's
+      // course the student belongs to
+      return [
+        {
+          $lookup: {
+            from: 'groups',
+            let: { course: '$course', student: '$student' },
+            pipeline: [
+              {
+                $match: {
+                  $expr: {
+                    $and: [
+                      { $eq: ['$courseId', '$$course'] },
+                      { $in: ['$$student', { $ifNull: ['$students', []] }] }
+                    ]
+                  }
+                }
+              },
+              { $project: { name: 1 } },
+              { $limit: 1 }
+            ],
+            as: 'groupDoc'
+          }
+        },
+        {
+          $set: {
+            key: { $ifNull: [{ $arrayElemAt: ['$groupDoc._id', 0] }, null] },
+            label: { $ifNull: [{ $arrayElemAt: ['$groupDoc.name', 0] }, 'No group'] }
+          }
+        }
+      ];
+    case 'method':
+      return [{ $set: { key: '$paymentMethod', label: '$paymentMethod' } }];
+    case 'month':
+    default:
+      return [
+        {
+          $set: {
+            key: { $dateToString: { format: '%Y-%m', date: '$paidAt' } },
+            label: { $dateToString: { format: '%Y-%m', date: '$paidAt' } }
+          }
+        }
+      ];
+  }
+}
+
+/**
+ * Revenue report
+ *
+ * @param {Object} params
+ * @param {string} [params.groupBy='month'] - course | group | method | month
+ * @param {string} [params.from] - Start date (YYYY-MM-DD)
+ * @param {string} [params.to] - End date, inclusive (YYYY-MM-DD)
+ * @param {string} [params.courseId] - Limit to one course
+ * @returns {Promise<Object>} { groupBy, rows: [{ key, label, payments, gross, refunds, net }], totals }
+ */
+async function getRevenueReport({ groupBy = 'month', from, to, courseId } = {}) {
+  const match = {
+    status: { $in: REVENUE_STATUSES },
+    paidAt: { $ne: null }
+  };
+
+  const range = buildDateRange(from, to);
+  if (range) {
+    match.paidAt = { ...range };
+  }
+  if (courseId) {
+    match.course = new mongoose.Types.ObjectId(courseId);
+  }
+
+  const grouped = await Payment.aggregate([
+    { $match: match },
+    ...revenueGroupStages(groupBy),
+    {
+      $group: {
+        _id: '$key',
+        label: { $first: '$label' },
+        payments: { $sum: 1 },
+        gross: { $sum: '$amount' },
+        refunds: { $sum: { $ifNull: ['$refund.amount', 0] } }
+      }
+    },
+    { $sort: groupBy === 'month' ? { _id: 1 } : { gross: -1 } }
+  ]);
+
+  const rows = grouped.map(row => ({
+    key: row._id === null ? null : String(row._id),
+    label: row.label,
+    payments: row.payments,
+    gross: roundMoney(row.gross),
+    refunds: roundMoney(row.refunds),
+    net: roundMoney(row.gross - row.refunds)
+  }));
+
+  const totals = rows.reduce((acc, row) => ({
+    payments: acc.payments + row.payments,
+    gross: roundMoney(acc.gross + row.gross),
+    refunds: roundMoney(acc.refunds + row.refunds),
+    net: roundMoney(acc.net + row.net)
+  }), { payments: 0, gross: 0, refunds: 0, net: 0 });
+
+  return { groupBy, rows, totals };
+}
+
+/**
+ * Outstanding balances per student
+ *
+ * @param {Object} params
+ * @param {string} [params.courseId] - Limit to one course
+ * @param {boolean} [params.overdueOnly] - Only students with overdue installments
+ * @returns {Promise<Object>} { rows, totals }
+ */
+async function getOutstandingBalances({ courseId, overdueOnly = false } = {}) {
+  const query = { 'payment.remainingAmount': { $gt: 0 } };
+  if (courseId) {
+    query.course = courseId;
+  }
+
+  const enrollments = await Enrollment.find(query)
+    .populate('student', 'name email')
+    .populate('course', 'title')
+    .lean();
+
+  const now = new Date();
+  const byStudent = new Map();
+
+  enrollments.forEach(enrollment => {
+    if (!enrollment.student) return;
+
+    const id = String(enrollment.student._id);
+    if (!byStudent.has(id)) {
+      byStudent.set(id, {
+        studentId: id,
+        name: enrollment.student.name,
+        email: enrollment.student.email,
+        courses: [],
+        totalAmount: 0,
+        paidAmount: 0,
+        remainingAmount: 0,
+        overdueAmount: 0,
+        nextDueDate: null
+      });
+    }
+    const row = byStudent.get(id);
+
+    row.courses.push(enrollment.course ? enrollment.course.title : 'Unknown course');
+    row.totalAmount += enrollment.payment.totalAmount || 0;
+    row.paidAmount += enrollment.payment.paidAmount || 0;
+    row.remainingAmount += enrollment.payment.remainingAmount || 0;
+
+    (enrollment.payment.installments || []).forEach(installment => {
+      if (installment.status === 'paid') return;
+
+      const dueDate = new Date(installment.dueDate);
+      if (dueDate < now) {
+        row.overdueAmount += Enrollment.getInstallmentOutstanding(installment);
+      } else if (!row.nextDueDate || dueDate < row.nextDueDate) {
+        row.nextDueDate = dueDate;
+      }
+    });
+  });
+
+  const rows = [...byStudent.values()]
+    .map(row => ({
+      ...row,
+      totalAmount: roundMoney(row.totalAmount),
+      paidAmount: roundMoney(row.paidAmount),
+      remainingAmount: roundMoney(row.remainingAmount),
+      overdueAmount: roundMoney(row.overdueAmount)
+    }))
+    .filter(row => !overdueOnly || row.overdueAmount > 0)
+    .sort((a, b) => b.overdueAmount - a.overdueAmount || b.remainingAmount - a.remainingAmount);
+
+  const totals = rows.reduce((acc, row) => ({
+    students: acc.students + 1,
+    remainingAmount: roundMoney(acc.remainingAmount + row.remainingAmount),
+    overdueAmount: roundMoney(acc.overdueAmount + row.overdueAmount)
+  }), { students: 0, remainingAmount: 0, overdueAmount: 0 });
+
+  return { rows, totals };
+}
+
+/**
+ * Daily cash-drawer reconciliation per reception user
+ *
+ * Money in is every payment the user processed that day; money out is every
+ * refund the user performed that day (refunds go back through the original
+ * payment method). Only cash affects the drawer.
+ *
+ * @param {Object} params
+ * @param {string} [params.date] - Day to reconcile (YYYY-MM-DD), defaults to today
+ * @returns {Promise<Object>} { date, rows, totals }
+ */
+async function getCashReconciliation({ date } = {}) {
+  const dayStart = parseDay(date || new Date());
+  const dayEnd = new Date(dayStart);
+  dayEnd.setDate(dayEnd.getDate() + 1);
+
+  const [collected, refunded] = await Promise.all([
+    Payment.aggregate([
+      {
+        $match: {
+          status: { $in: REVENUE_STATUSES },
+          processedBy: { $ne: null },
+          paidAt: { $gte: dayStart, $lt: dayEnd }
+        }
+      },
+      {
+        $group: {
+          _id: { user: '$processedBy', method: '$paymentMethod' },
+          count: { $sum: 1 },
+          amount: { $sum: '$amount' }
+        }
+      }
+    ]),
+    Payment.aggregate([
+      { $unwind: '$adjustments' },
+      {
+        $match: {
+          'adjustments.type': 'refund',
+          'adjustments.performedAt': { $gte: dayStart, $lt: dayEnd }
+        }
+      },
+      {
+        $group: {
+          _id: { user: '$adjustments.performedBy', method: '$paymentMethod' },
+          count: { $sum: 1 },
+          amount: { $sum: '$adjustments.amount' }
+        }
+      }
+    ])
+  ]);
+
+  const byUser = new Map();
+  const rowFor = (userId) => {
+    const id = String(userId);
+    if (!byUser.has(id)) {
+      byUser.set(id, {
+        userId: id,
+        name: null,
+        byMethod: {},
+        collected: 0,
+        refunded: 0,
+        cashCollected: 0,
+        cashRefunded: 0,
+        expectedCash: 0
+      });
+    }
+    return byUser.get(id);
+  };
+  const methodFor = (row, method) => {
+    if (!row.byMethod[method]) {
+      row.byMethod[method] = { payments: 0, collected: 0, refunds: 0, refunded: 0 };
+    }
+    return row.byMethod[method];
+  };
+
+  collected.forEach(({ _id, count, amount }) => {
+    const row = rowFor(_id.user);
+    const method = methodFor(row, _id.method);
+    method.payments += count;
+    method.collected = roundMoney(method.collected + amount);
+    row.collected = roundMoney(row.collected + amount);
+    if (_id.method === 'cash') row.cashCollected = roundMoney(row.cashCollected + amount);
+  });
+
+  refunded.forEach(({ _id, count, amount }) => {
+    const row = rowFor(_id.user);
+    const method = methodFor(row, _id.method);
+    method.refunds += count;
+    method.refunded = roundMoney(method.refunded + amount);
+    row.refunded = roundMoney(row.refunded + amount);
+    if (_id.method === 'cash') row.cashRefunded = roundMoney(row.cashRefunded + amount);
+  });
+
+  const users = await User.find({ _id: { $in: [...byUser.keys()] } }).select('name').lean();
+  users.forEach(user => {
+    byUser.get(String(user._id)).name = user.name;
+  });
+
+  const rows = [...byUser.values()]
+    .map(row => ({
+      ...row,
+      name: row.name || 'Unknown user',
+      expectedCash: roundMoney(row.cashCollected - row.cashRefunded)
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const totals = rows.reduce((acc, row) => ({
+    collected: roundMoney(acc.collected + row.collected),
+    refunded: roundMoney(acc.refunded + row.refunded),
+    expectedCash: roundMoney(acc.expectedCash + row.expectedCash)
+  }), { collected: 0, refunded: 0, expectedCash: 0 });
+
+  const day = [
+    dayStart.getFullYear(),
+    String(dayStart.getMonth() + 1).padStart(2, '0'),
+    String(dayStart.getDate()).padStart(2, '0')
+  ].join('-');
+
+  return { date: day, rows, totals };
+}
+
+module.exports = {
+  REVENUE_GROUPINGS,
+  getRevenueReport,
+  getOutstandingBalances,
+  getCashReconciliation
+};
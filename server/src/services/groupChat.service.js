@@ -0,0 +1,157 @@
+/**
+ * Group Chat Service
+ *
+ * Shared logic for group chat used by the REST controllers and Socket.IO:
+ * - Resolving whether a user may access a group's chat
+ * - Lazily creating chats and participants
+ * - Broadcasting chat events to per-group socket rooms
+ */
+
+const Group = require('../models/Group');
+const GroupChat = require('../models/GroupChat');
+const realtime = require('./realtime.service');
+const logger = require('../utils/logger');
+
+const { groupRoom } = realtime;
+
+/**
+ * Resolve a user's access to a group's chat
+ * Trainers may access groups they teach, students groups they belong to.
+ *
+ * @param {string} groupId
+ * @param {string} userId
+ * @returns {Promise<{group: Object, role: 'trainer'|'student'}|null>}
+ */
+async function resolveGroupAccess(groupId, userId) {
+  const group = await Group.findById(groupId).select('name trainerId students courseId status');
+  if (!group) return null;
+
+  if (group.trainerId && group.trainerId.toString() === userId.toString()) {
+    return { group, role: 'trainer' };
+  }
+
+  const isStudent = group.students.some(s => s.toString() === userId.toString());
+  if (isStudent) {
+    return { group, role: 'student' };
+  }
+
+  return null;
+}
+
+/**
+ * Add a participant to a chat without posting a system message
+ * @returns {boolean} true if the participant was added
+ */
+function ensureParticipant(chat, userId, role) {
+  const exists = chat.participants.some(
+    p => p.userId.toString() === userId.toString()
+  );
+  if (exists) return false;
+
+  chat.participants.push({
+    userId,
+    role,
+    joinedAt: new Date(),
+    lastReadAt: new Date()
+  });
+  return true;
+}
+
+/**
+ * Get the chat for a group, creating it if the group predates chats
+ * (e.g. groups created by the CLO)
+ *
+ * @param {Object} group - Group document
+ * @returns {Promise<Object>} GroupChat document
+ */
+async function getOrCreateChat(group) {
+  let chat = await GroupChat.findOne({ groupId: group._id });
+  if (chat) return chat;
+
+  chat = new GroupChat({
+    groupId: group._id,
+    name: `${group.name} Chat`,
+    participants: []
+  });
+  ensureParticipant(chat, group.trainerId, 'trainer');
+  group.students.forEach(studentId => ensureParticipant(chat, studentId, 'student'));
+  await chat.save();
+
+  logger.info('Group chat created', { groupId: group._id.toString() });
+  return chat;
+}
+
+/**
+ * Count unread messages for a user in a chat
+ * @returns {number}
+ */
+function getUnreadCount(chat, userId) {
+  return chat.getUnreadMessages(userId).filter(m => m.type !== 'system').length;
+}
+
+/**
+ * Emit an event to everyone in a group's room
+ */
+function emitToGroup(groupId, event, payload) {
+  realtime.emit(event, { groupId: groupId.toString(), ...payload }, { groups: [groupId] });
+}
+
+/**
+ * Register chat event handlers for an authenticated socket
+ * Expects socketAuthMiddleware to have set socket.userId
+ *
+ * Members already join their groups' rooms on connect; chat:join covers
+ * groups joined since. Sockets stay in the room after leaving the chat,
+ * as the room also carries the group's session events.
+ *
+ * Events:
+ * - chat:join   { groupId } -> ack({ success, message? })
+ * - chat:typing { groupId, isTyping } -> broadcast chat:typing to room
+ *
+ * @param {Socket} socket
+ */
+function registerSocketHandlers(socket) {
+  socket.on('chat:join', async (data = {}, ack) => {
+    const reply = typeof ack === 'function' ? ack : () => {};
+    try {
+      const { groupId } = data;
+      if (!groupId || !socket.userId) {
+        return reply({ success: false, message: 'Group ID is required' });
+      }
+
+      const access = await resolveGroupAccess(groupId, socket.userId);
+      if (!access) {
+        return reply({ success: false, message: 'You do not have access to this group chat' });
+      }
+
+      socket.join(groupRoom(groupId));
+      reply({ success: true });
+    } catch (error) {
+      logger.logError(error, { context: 'chat:join', socketId: socket.id });
+      reply({ success: false, message: 'Failed to join group chat' });
+    }
+  });
+
+  socket.on('chat:typing', (data = {}) => {
+    const { groupId, isTyping } = data;
+    // Only members that joined the room may broadcast typing state
+    if (!groupId || !socket.rooms.has(groupRoom(groupId))) return;
+
+    realtime.emit(realtime.EVENTS.CHAT_TYPING, {
+      groupId,
+      userId: socket.userId,
+      userName: socket.userName,
+      isTyping: !!isTyping
+    }, { groups: [groupId], except: socket });
+  });
+}
+
+module.exports = {
+  groupRoom,
+  resolveGroupAccess,
+  ensureParticipant,
+  getOrCreateChat,
+  getUnreadCount,
+  emitToGroup,
+  registerSocketHandlers
+};
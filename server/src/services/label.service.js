@@ -0,0 +1,125 @@
+/**
+ * Label Service
+ *
+ * Scan codes printed on part and bin labels, and resolving a scanned
+ * code back to parts.
+ *
+ * A bin is identified by its SKU, which every part in it shares. A part
+ * label encodes the SKU plus the part number (or the part id when it has
+ * none), separated by a slash, so a single part can be told apart from
+ * the others in its bin.
+ */
+
+const mongoose = require('mongoose');
+const Part = require('../models/Part');
+const StockLevel = require('../models/StockLevel');
+const { stockFigures } = require('./stock.service');
+
+const CODE_SEPARATOR = '/';
+
+/**
+ * Scan code printed on a part label
+ * @param {Object} part - Part with sku, partNumber and _id
+ * @returns {string}
+ */
+function partScanCode(part) {
+  return `${part.sku}${CODE_SEPARATOR}${part.partNumber || part._id}`;
+}
+
+/**
+ * Escape a scanned value for an exact, case-insensitive regex match
+ */
+function exactMatch(value) {
+  return new RegExp(`^${value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i');
+}
+
+/**
+ * Build printable labels
+ *
+ * @param {Object} params
+ * @param {string} params.scope - part | bin
+ * @param {string[]} [params.partIds] - Parts to label (scope part)
+ * @param {string[]} [params.skus] - Bins to label (scope bin)
+ * @returns {Promise<Array<{code: string, title: string, detail: string}>>}
+ */
+async function buildLabels({ scope, partIds = [], skus = [] }) {
+  if (scope === 'part') {
+    const parts = await Part.find({ _id: { $in: partIds } }).sort({ sku: 1, name: 1 }).lean();
+    return parts.map(part => ({
+      code: partScanCode(part),
+      title: part.name,
+      detail: [part.category, part.group].filter(Boolean).join(' · ')
+    }));
+  }
+
+  const bins = await Part.aggregate([
+    { $match: { sku: { $in: skus } } },
+    { $sort: { name: 1 } },
+    {
+      $group: {
+        _id: '$sku',
+        names: { $push: '$name' },
+        categories: { $addToSet: '$category' }
+      }
+    },
+    { $sort: { _id: 1 } }
+  ]);
+
+  return bins.map(bin => ({
+    code: bin._id,
+    title: `Bin ${bin._id}`,
+    detail: bin.names.length === 1
+      ? bin.names[0]
+      : `${bin.names.length} parts · ${bin.categories.join(', ')}`
+  }));
+}
+
+/**
+ * Find the parts a scanned code refers to
+ *
+ * A part label resolves to that part; a bin label, or a plain SKU from a
+ * supplier barcode, resolves to every part in the bin. Part numbers are
+ * matched too, for manufacturer barcodes that carry only those.
+ *
+ * @param {string} code - Scanned text
+ * @returns {Promise<Array<Object>>} Matching parts with their stock figures
+ */
+async function findPartsByScanCode(code) {
+  const scanned = code.trim();
+  if (!scanned) return [];
+
+  let parts = [];
+  const separatorAt = scanned.lastIndexOf(CODE_SEPARATOR);
+
+  if (separatorAt > 0) {
+    const sku = scanned.slice(0, separatorAt);
+    const suffix = scanned.slice(separatorAt + 1);
+    const suffixMatch = [{ partNumber: exactMatch(suffix) }];
+    if (mongoose.isValidObjectId(suffix)) suffixMatch.push({ _id: suffix });
+
+    parts = await Part.find({ sku: exactMatch(sku), $or: suffixMatch }).lean();
+  }
+
+  if (parts.length === 0) {
+    parts = await Part.find({ sku: exactMatch(scanned) }).sort({ name: 1 }).lean();
+  }
+
+  if (parts.length === 0) {
+    parts = await Part.find({ partNumber: exactMatch(scanned) }).sort({ name: 1 }).lean();
+  }
+
+  const levels = await StockLevel.find({ partId: { $in: parts.map(p => p._id) } }).lean();
+  const levelByPart = new Map(levels.map(level => [String(level.partId), level]));
+
+  return parts.map(part => ({
+    ...part,
+    ...stockFigures(levelByPart.get(String(part._id))),
+    scanCode: partScanCode(part)
+  }));
+}
+
+module.exports = {
+  partScanCode,
+  buildLabels,
+  findPartsByScanCode
+};
@@ -0,0 +1,85 @@
+/**
+ * Loan Service
+ *
+ * Who answers for an equipment loan, and flagging loans that are past
+ * their due date.
+ *
+ * A student loan belongs to the student, a team loan to the team's coach
+ * and a group loan to every student in the group; those are the users
+ * who see the loan on their profile and are told when it is overdue.
+ */
+
+const Loan = require('../models/Loan');
+const Team = require('../models/Team');
+const Group = require('../models/Group');
+const { notifyLoanOverdue } = require('./notification.service');
+const logger = require('../utils/logger');
+
+/**
+ * Users accountable for a loan
+ * @param {Object} loan - Loan document (borrower refs as ids)
+ * @returns {Promise<string[]>} User ids
+ */
+async function borrowerUserIds(loan) {
+  if (loan.borrowerType === 'student') {
+    return loan.studentId ? [String(loan.studentId._id || loan.studentId)] : [];
+  }
+  if (loan.borrowerType === 'team') {
+    const team = await Team.findById(loan.teamId._id || loan.teamId).select('coachId').lean();
+    return team ? [String(team.coachId)] : [];
+  }
+  const group = await Group.findById(loan.groupId._id || loan.groupId).select('students').lean();
+  return group ? group.students.map(String) : [];
+}
+
+/**
+ * Query matching every loan a user answers for
+ * @param {string} userId
+ * @returns {Promise<Object>} Loan filter
+ */
+async function loansForUserFilter(userId) {
+  const [teams, groups] = await Promise.all([
+    Team.find({ coachId: userId }).select('_id').lean(),
+    Group.find({ students: userId }).select('_id').lean()
+  ]);
+
+  return {
+    $or: [
+      { borrowerType: 'student', studentId: userId },
+      { borrowerType: 'team', teamId: { $in: teams.map(team => team._id) } },
+      { borrowerType: 'group', groupId: { $in: groups.map(group => group._id) } }
+    ]
+  };
+}
+
+/**
+ * Tell borrowers about loans that went overdue since the last pass
+ * @param {Date} [now]
+ * @returns {Promise<number>} Number of loans flagged
+ */
+async function flagOverdueLoans(now = new Date()) {
+  const loans = await Loan.find({
+    status: 'out',
+    dueAt: { $lt: now },
+    overdueNotifiedAt: null
+  }).populate('partId', 'name');
+
+  for (const loan of loans) {
+    try {
+      const userIds = await borrowerUserIds(loan);
+      await notifyLoanOverdue(loan, userIds);
+    } catch (error) {
+      logger.logError(error, { context: 'flagOverdueLoans', loanId: String(loan._id) });
+    }
+    loan.overdueNotifiedAt = now;
+    await loan.save();
+  }
+
+  return loans.length;
+}
+
+module.exports = {
+  borrowerUserIds,
+  loansForUserFilter,
+  flagOverdueLoans
+};
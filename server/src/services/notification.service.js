@@ -0,0 +1,403 @@
+/**
+ * Notification Service
+ *
+ * Creates persistent notifications and delivers them live:
+ * - notify() stores the notification and emits `notification` to the
+ *   recipient's user room (see realtime.service)
+ * - Read-state changes emit `notification:count` so every tab updates its badge
+ *
+ * Producers call the helpers below; failures are logged and never break
+ * the request that triggered them.
+ */
+
+const Notification = require('../models/Notification');
+const Group = require('../models/Group');
+const User = require('../models/User');
+const realtime = require('./realtime.service');
+const logger = require('../utils/logger');
+
+/**
+ * Send the current unread count to all of a user's sockets
+ * @param {string} userId
+ */
+async function emitUnreadCount(userId) {
+  const unreadCount = await Notification.getUnreadCount(userId);
+  realtime.emit(realtime.EVENTS.NOTIFICATION_COUNT, { unreadCount }, { users: [userId] });
+}
+
+/**
+ * Create a notification for one or more users and push it to their rooms
+ *
+ * @param {string|string[]} userIds - Recipient(s)
+ * @param {Object} data - { type, level, title, message, isImportant, actionUrl, actionLabel, entity }
+ * @returns {Promise<Object[]>} Created notifications (empty on failure)
+ */
+async function notify(userIds, data) {
+  const recipients = [...new Set([].concat(userIds).filter(Boolean).map(String))];
+  if (recipients.length === 0) return [];
+
+  try {
+    const notifications = await Notification.insertMany(
+      recipients.map(userId => ({ ...data, userId }))
+    );
+
+    await Promise.all(notifications.map(async (notification) => {
+      const unreadCount = await Notification.getUnreadCount(notification.userId);
+      realtime.emit(realtime.EVENTS.NOTIFICATION, {
+        notification: notification.toObject(),
+        unreadCount
+      }, { users: [notification.userId] });
+    }));
+
+    return notifications;
+  } catch (error) {
+    logger.logError(error, { context: 'notify', type: data.type, recipients: recipients.length });
+    return [];
+  }
+}
+
+// ============================================
+// Producers
+// ============================================
+
+const ORDER_MESSAGES = {
+  approved: { level: 'success', title: 'Order approved', text: 'has been approved' },
+  partially_fulfilled: { level: 'info', title: 'Order partly handed out', text: 'has been partly handed out; the rest will follow' },
+  rejected: { level: 'error', title: 'Order rejected', text: 'has been rejected' },
+  fulfilled: { level: 'success', title: 'Order ready', text: 'has been fulfilled and is ready for pickup' }
+};
+
+/**
+ * Tell a student their order changed status
+ * @param {Object} order - Order document
+ */
+function notifyOrderStatus(order) {
+  const config = ORDER_MESSAGES[order.status];
+  if (!config) return Promise.resolve([]);
+
+  return notify(order.studentId, {
+    type: 'order',
+    level: config.level,
+    title: config.title,
+    message: `Your order #${String(order._id).slice(-6)} ${config.text}.`,
+    isImportant: order.status === 'rejected',
+    actionUrl: '/orders',
+    actionLabel: 'View Orders',
+    entity: { kind: 'Order', id: order._id }
+  });
+}
+
+/**
+ * Tell a student their assignment was graded
+ * @param {Object} submission - AssignmentSubmission document
+ * @param {Object} assignment - Assignment document
+ */
+function notifySubmissionGraded(submission, assignment) {
+  const penalty = submission.grade.latePenalty > 0
+    ? ` (late penalty ${submission.grade.latePenalty}%)`
+    : '';
+
+  return notify(submission.student, {
+    type: 'assignment',
+    level: 'success',
+    title: 'Assignment graded',
+    message: `"${assignment.title}" was graded: ${submission.grade.score}/${assignment.maxScore}${penalty}.`,
+    actionUrl: `/student/assignments/${assignment._id}`,
+    actionLabel: 'View Grade',
+    entity: { kind: 'AssignmentSubmission', id: submission._id }
+  });
+}
+
+/**
+ * Tell a student the hand-graded answers of their quiz attempt were reviewed
+ * @param {Object} attempt - QuizAttempt document
+ * @param {Object} quiz - Quiz document
+ */
+function notifyQuizReviewed(attempt, quiz) {
+  return notify(attempt.student, {
+    type: 'quiz',
+    level: attempt.passed ? 'success' : 'info',
+    title: 'Quiz reviewed',
+    message: `Your answers to "${quiz.title}" were reviewed: ${attempt.score}%${attempt.passed ? ', passed' : ''}.`,
+    actionUrl: `/student/quizzes/${quiz._id}`,
+    actionLabel: 'View Quiz',
+    entity: { kind: 'QuizAttempt', id: attempt._id }
+  });
+}
+
+/**
+ * Tell a student their trainer asked for a new version
+ * @param {Object} submission - AssignmentSubmission document
+ * @param {Object} assignment - Assignment document
+ */
+function notifyResubmissionRequested(submission, assignment) {
+  const deadline = submission.resubmission.deadline
+    ? ` before ${submission.resubmission.deadline.toLocaleDateString()}`
+    : '';
+
+  return notify(submission.student, {
+    type: 'assignment',
+    level: 'warning',
+    title: 'Resubmission requested',
+    message: `Please submit a new version of "${assignment.title}"${deadline}.`,
+    isImportant: true,
+    actionUrl: `/student/assignments/${assignment._id}`,
+    actionLabel: 'Resubmit',
+    entity: { kind: 'AssignmentSubmission', id: submission._id }
+  });
+}
+
+/**
+ * Tell a student an installment is overdue
+ * @param {Object} enrollment - Enrollment document (course populated or id)
+ * @param {Object} installment - Installment subdocument
+ */
+function notifyPaymentOverdue(enrollment, installment) {
+  const courseTitle = enrollment.course && enrollment.course.title
+    ? ` for ${enrollment.course.title}`
+    : '';
+  const outstanding = Math.round((installment.amount - (installment.paidAmount || 0)) * 100) / 100;
+
+  return notify(enrollment.student, {
+    type: 'payment',
+    level: 'error',
+    title: 'Payment overdue',
+    message: `Your installment of ${outstanding}${courseTitle} was due on ${new Date(installment.dueDate).toLocaleDateString()}.`,
+    isImportant: true,
+    actionUrl: '/student/payments',
+    actionLabel: 'View Payments',
+    entity: { kind: 'Enrollment', id: enrollment._id }
+  });
+}
+
+/**
+ * Tell reception staff a payment proof is waiting for review
+ * @param {Object} payment - Payment document
+ * @param {Object} student - Submitting user { name }
+ */
+async function notifyPaymentProofSubmitted(payment, student) {
+  let staff = [];
+  try {
+    staff = await User.find({ role: 'reception' }).select('_id');
+  } catch (error) {
+    logger.logError(error, { context: 'notifyPaymentProofSubmitted', paymentId: String(payment._id) });
+  }
+
+  return notify(staff.map(user => user._id), {
+    type: 'payment',
+    level: 'info',
+    title: 'Payment awaiting verification',
+    message: `${student.name} submitted proof for a payment of ${payment.amount}.`,
+    actionUrl: '/reception/payments',
+    actionLabel: 'Review',
+    entity: { kind: 'Payment', id: payment._id }
+  });
+}
+
+/**
+ * Tell a student the outcome of their payment verification
+ * @param {Object} payment - Payment document (status completed or failed)
+ */
+function notifyPaymentReviewed(payment) {
+  const approved = payment.status === 'completed';
+  const reason = payment.verification && payment.verification.rejectionReason;
+
+  return notify(payment.student, {
+    type: 'payment',
+    level: approved ? 'success' : 'error',
+    title: approved ? 'Payment approved' : 'Payment rejected',
+    message: approved
+      ? `Your payment of ${payment.amount} was verified and your receipt is ready.`
+      : `Your payment of ${payment.amount} could not be verified${reason ? `: ${reason}` : '.'}`,
+    isImportant: !approved,
+    actionUrl: '/student/payments',
+    actionLabel: approved ? 'View Receipt' : 'Resubmit Proof',
+    entity: { kind: 'Payment', id: payment._id }
+  });
+}
+
+/**
+ * Tell a student that one of their payments was refunded or voided
+ * @param {Object} payment - Payment document
+ * @param {Object} adjustment - Adjustment entry { type, amount, reason }
+ */
+function notifyPaymentAdjusted(payment, adjustment) {
+  const refunded = adjustment.type === 'refund';
+
+  return notify(payment.student, {
+    type: 'payment',
+    level: refunded ? 'info' : 'warning',
+    title: refunded ? 'Payment refunded' : 'Payment voided',
+    message: refunded
+      ? `${adjustment.amount} of your payment of ${payment.amount} was refunded: ${adjustment.reason}`
+      : `Your payment of ${payment.amount} was voided: ${adjustment.reason}`,
+    isImportant: true,
+    actionUrl: '/student/payments',
+    actionLabel: 'View Payments',
+    entity: { kind: 'Payment', id: payment._id }
+  });
+}
+
+/**
+ * Tell the students of a group that a session was cancelled
+ * @param {Object} session - Session document
+ */
+async function notifySessionCancelled(session) {
+  let group;
+  try {
+    group = await Group.findById(session.groupId).select('students');
+  } catch (error) {
+    logger.logError(error, { context: 'notifySessionCancelled', sessionId: String(session._id) });
+  }
+  if (!group) return [];
+
+  return notify(group.students, {
+    type: 'session',
+    level: 'warning',
+    title: 'Session cancelled',
+    message: `"${session.title}" on ${new Date(session.scheduledDate).toLocaleDateString()} was cancelled${session.cancellationReason ? `: ${session.cancellationReason}` : '.'}`,
+    isImportant: true,
+    actionUrl: `/student/courses/${session.courseId}`,
+    actionLabel: 'View Course',
+    entity: { kind: 'Session', id: session._id }
+  });
+}
+
+/**
+ * Tell a student their trainer shared an evaluation
+ * @param {Object} evaluation - StudentEvaluation document
+ */
+function notifyEvaluationShared(evaluation) {
+  return notify(evaluation.studentId, {
+    type: 'evaluation',
+    level: 'info',
+    title: 'New evaluation',
+    message: 'Your trainer shared a new evaluation with you.',
+    actionUrl: '/student',
+    actionLabel: 'View Dashboard',
+    entity: { kind: 'StudentEvaluation', id: evaluation._id }
+  });
+}
+
+/**
+ * Tell a coach whether their team's registration was approved
+ * @param {Object} team - Team document (status approved or rejected)
+ * @param {Object} competition - Competition document
+ */
+function notifyTeamReviewed(team, competition) {
+  const approved = team.status === 'approved';
+
+  return notify(team.coachId, {
+    type: 'competition',
+    level: approved ? 'success' : 'error',
+    title: approved ? 'Team approved' : 'Team registration rejected',
+    message: approved
+      ? `"${team.name}" is registered for ${competition.title}.`
+      : `"${team.name}" was not accepted for ${competition.title}${team.rejectionReason ? `: ${team.rejectionReason}` : '.'}`,
+    isImportant: !approved,
+    actionUrl: '/teams',
+    actionLabel: 'View Teams',
+    entity: { kind: 'Team', id: team._id }
+  });
+}
+
+/**
+ * Tell the coaches of approved teams that results are published
+ * @param {Object} competition - Competition document
+ * @param {string[]} coachIds
+ */
+function notifyResultsPublished(competition, coachIds) {
+  return notify(coachIds, {
+    type: 'competition',
+    level: 'info',
+    title: 'Results published',
+    message: `The results of ${competition.title} are out.`,
+    actionUrl: `/competitions/${competition._id}/results`,
+    actionLabel: 'View Results',
+    entity: { kind: 'Competition', id: competition._id }
+  });
+}
+
+/**
+ * Tell admins a part dropped below its reorder point
+ * @param {Object} part - Part document
+ * @param {Object} level - StockLevel after the movement
+ * @param {Object|null} requisition - Requisition raised for it, if any
+ */
+async function notifyLowStock(part, level, requisition) {
+  let admins = [];
+  try {
+    admins = await User.find({ role: { $in: ['admin', 'superadmin'] } }).select('_id');
+  } catch (error) {
+    logger.logError(error, { context: 'notifyLowStock', partId: String(part._id) });
+  }
+
+  return notify(admins.map(user => user._id), {
+    type: 'inventory',
+    level: level.availableQty <= 0 ? 'error' : 'warning',
+    title: level.availableQty <= 0 ? 'Out of stock' : 'Low stock',
+    message: `${part.name} is down to ${level.availableQty} available (reorder point ${part.reorderPoint}).`
+      + (requisition ? ` A requisition for ${requisition.qty} was raised.` : ''),
+    isImportant: level.availableQty <= 0,
+    actionUrl: '/inventory/requisitions',
+    actionLabel: 'View Requisitions',
+    entity: { kind: 'Part', id: part._id }
+  });
+}
+
+/**
+ * Tell borrowers, and the admins, that a loan is past its due date
+ * @param {Object} loan - Loan document with partId populated (name)
+ * @param {string[]} borrowerIds - Users accountable for the loan
+ */
+async function notifyLoanOverdue(loan, borrowerIds) {
+  let admins = [];
+  try {
+    admins = await User.find({ role: { $in: ['admin', 'superadmin'] } }).select('_id');
+  } catch (error) {
+    logger.logError(error, { context: 'notifyLoanOverdue', loanId: String(loan._id) });
+  }
+
+  const partName = loan.partId && loan.partId.name ? loan.partId.name : 'Borrowed equipment';
+  const dueDate = new Date(loan.dueAt).toLocaleDateString();
+
+  await notify(borrowerIds, {
+    type: 'inventory',
+    level: 'warning',
+    title: 'Loan overdue',
+    message: `${loan.qty} x ${partName} was due back on ${dueDate}. Please return it to the lab.`,
+    isImportant: true,
+    actionUrl: '/profile?tab=loans',
+    actionLabel: 'View Loans',
+    entity: { kind: 'Loan', id: loan._id }
+  });
+
+  return notify(admins.map(user => user._id), {
+    type: 'inventory',
+    level: 'warning',
+    title: 'Loan overdue',
+    message: `${loan.qty} x ${partName} was due back on ${dueDate}.`,
+    actionUrl: '/inventory/loans',
+    actionLabel: 'View Loans',
+    entity: { kind: 'Loan', id: loan._id }
+  });
+}
+
+module.exports = {
+  emitUnreadCount,
+  notify,
+  notifyOrderStatus,
+  notifySubmissionGraded,
+  notifyResubmissionRequested,
+  notifyQuizReviewed,
+  notifyPaymentOverdue,
+  notifyPaymentProofSubmitted,
+  notifyPaymentReviewed,
+  notifyPaymentAdjusted,
+  notifySessionCancelled,
+  notifyEvaluationShared,
+  notifyTeamReviewed,
+  notifyResultsPublished,
+  notifyLowStock,
+  notifyLoanOverdue
+};
@@ -0,0 +1,722 @@
+/**
+ * Order Service
+ *
+ * Placing student orders: checking stock is available and reserving it
+ * for the order's items, and telling admins and the student when an
+ * order is placed or changes.
+ *
+ * After placing, an order is worked line by line:
+ * - review: approve part of each line from stock, backorder some or
+ *   substitute another part; what is not approved is released
+ * - hand-outs: give out lines in as many goes as needed, from the
+ *   reservation first and then from stock for backordered parts
+ * - returns: the student brings back parts they did not use
+ * - close: stop waiting for the rest and release what is still held
+ *
+ * The order's status follows from its lines, and every step is kept in
+ * the order's history.
+ */
+
+const mongoose = require('mongoose');
+const Order = require('../models/Order');
+const Part = require('../models/Part');
+const StockLevel = require('../models/StockLevel');
+const { adjustStock } = require('./stock.service');
+const { notifyOrderStatus } = require('./notification.service');
+const realtime = require('./realtime.service');
+const { NotFoundError, BadRequestError, ForbiddenError, ConflictError } = require('../utils/errors');
+const logger = require('../utils/logger');
+
+// Statuses each step may be taken from
+const ALLOWED_FROM = {
+  review: ['pending'],
+  handout: ['approved', 'partially_fulfilled'],
+  return: ['partially_fulfilled', 'fulfilled'],
+  close: ['approved', 'partially_fulfilled'],
+  reject: ['pending', 'approved'],
+  cancel: ['pending', 'approved']
+};
+
+// Orders with parts still to hand out
+const PICKABLE_STATUSES = ['approved', 'partially_fulfilled'];
+// Orders that may still take parts from stock
+const OPEN_ORDER_STATUSES = ['pending', ...PICKABLE_STATUSES];
+
+/**
+ * Items asking for more than is available
+ * @param {Array<{partId: string, qty: number}>} items
+ * @returns {Promise<Array<{partId: string, requested: number, available: number}>>}
+ */
+async function findShortages(items) {
+  const partIds = items.map((i) => i.partId);
+
+  logger.logDB('find', 'StockLevel', { partIds });
+
+  const levels = await StockLevel.find({ partId: { $in: partIds } }).lean();
+  const idToLevel = new Map(levels.map((l) => [String(l.partId), l]));
+  const shortages = [];
+
+  for (const item of items) {
+    const lvl = idToLevel.get(String(item.partId));
+    const available = Math.max(lvl?.availableQty || 0, 0);
+    if (available < item.qty) {
+      shortages.push({ partId: item.partId, requested: item.qty, available });
+    }
+  }
+
+  return shortages;
+}
+
+/**
+ * Push an order event to admins and the order's student
+ * @param {string} event - realtime EVENTS.ORDER_CREATED or ORDER_UPDATED
+ * @param {Object} order - Order document
+ */
+function emitOrderEvent(event, order) {
+  realtime.emit(event, {
+    orderId: String(order._id),
+    studentId: String(order.studentId),
+    projectId: order.projectId ? String(order.projectId) : null,
+    status: order.status
+  }, { roles: realtime.STAFF_ROLES, users: [order.studentId] });
+}
+
+// Order document for placeOrder; every line starts fully reserved
+function newOrder(studentId, projectId, items, createdBy) {
+  return {
+    studentId,
+    projectId,
+    items: items.map(item => ({ partId: item.partId, qty: item.qty, reservedQty: item.qty })),
+    history: [{
+      type: 'created',
+      by: createdBy,
+      lines: items.map((item, index) => ({ index, partId: item.partId, qty: item.qty }))
+    }]
+  };
+}
+
+/**
+ * Create an order and reserve stock for every item
+ * Availability must have been checked with findShortages first.
+ * @param {Object} params
+ * @param {string} params.studentId - Who the order is for
+ * @param {string} [params.projectId]
+ * @param {Array<{partId: string, qty: number}>} params.items
+ * @param {string} params.createdBy - Who placed it
+ * @returns {Promise<Object>} Created order
+ */
+async function placeOrder({ studentId, projectId, items, createdBy }) {
+  const reserve = async (order) => {
+    for (const item of order.items) {
+      await adjustStock({
+        partId: item.partId,
+        qtyChange: item.qty,
+        reason: 'reserve',
+        orderId: order._id,
+        createdBy,
+      });
+    }
+  };
+
+  let session;
+  try {
+    // Try transactional path (requires Mongo replica set)
+    session = await mongoose.startSession();
+    await session.startTransaction();
+
+    logger.logDB('create', 'Order', { studentId, itemCount: items.length });
+
+    const [created] = await Order.create([newOrder(studentId, projectId, items, createdBy)], { session });
+
+    await reserve(created);
+
+    await session.commitTransaction();
+    session.endSession();
+
+    logger.info(`Created order ${created._id} for student ${studentId} (transactional)`);
+    emitOrderEvent(realtime.EVENTS.ORDER_CREATED, created);
+    return created;
+  } catch (e) {
+    // If transactions are not supported (standalone Mongo), fall back to non-transaction flow
+    const msg = String(e?.message || '');
+    const isNoTxn =
+      msg.includes('Transaction numbers are only allowed') ||
+      msg.includes('replica set');
+
+    try {
+      if (session) {
+        try {
+          await session.abortTransaction();
+        } catch (abortErr) {
+          // Transaction already aborted or ended
+        }
+        session.endSession();
+      }
+    } catch (cleanupErr) {
+      // Cleanup errors are not critical
+    }
+
+    if (!isNoTxn) {
+      throw e;
+    }
+
+    logger.warn('Transactions not supported, using non-transactional order creation');
+
+    logger.logDB('create', 'Order', { studentId, itemCount: items.length });
+
+    const created = await Order.create(newOrder(studentId, projectId, items, createdBy));
+
+    await reserve(created);
+
+    logger.info(`Created order ${created._id} for student ${studentId} (non-transactional)`);
+    emitOrderEvent(realtime.EVENTS.ORDER_CREATED, created);
+    return created;
+  }
+}
+
+/**
+ * Parts still to hand out on a line
+ * Unreviewed lines count what was requested.
+ * @param {Object} line - Order item
+ * @returns {number}
+ */
+function outstandingQty(line) {
+  const promised = (line.approvedQty ?? line.qty) + (line.backorderQty || 0);
+  return Math.max(promised - (line.fulfilledQty || 0), 0);
+}
+
+/**
+ * Status of a reviewed order, from its lines
+ * @param {Object} order - Order document
+ * @returns {string}
+ */
+function deriveStatus(order) {
+  const promised = order.items.reduce((sum, line) => sum + (line.approvedQty || 0) + (line.backorderQty || 0), 0);
+  if (promised === 0) return 'rejected';
+
+  const handedOut = order.items.reduce((sum, line) => sum + (line.fulfilledQty || 0), 0);
+  if (order.items.every(line => outstandingQty(line) === 0)) return 'fulfilled';
+  return handedOut > 0 ? 'partially_fulfilled' : 'approved';
+}
+
+async function loadOrder(orderId) {
+  logger.logDB('findById', 'Order', { id: orderId });
+
+  const order = await Order.findById(orderId);
+  if (!order) {
+    throw new NotFoundError('Order');
+  }
+  return order;
+}
+
+function assertAllowed(order, step) {
+  if (!ALLOWED_FROM[step].includes(order.status)) {
+    throw new BadRequestError(
+      `Cannot ${step} a ${order.status.replace('_', ' ')} order`,
+      'INVALID_ORDER_STATUS'
+    );
+  }
+}
+
+// Only the order's student or staff may act on it
+function assertOwnerOrStaff(order, user) {
+  if (String(order.studentId) !== String(user.id) && !realtime.STAFF_ROLES.includes(user.role)) {
+    throw new ForbiddenError('You do not have permission to change this order');
+  }
+}
+
+/**
+ * Order lines picked by index
+ * @param {Object} order - Order document
+ * @param {Array<{index: number}>} lines
+ * @returns {Array<{input: Object, line: Object}>}
+ */
+function pickLines(order, lines) {
+  return lines.map(input => {
+    const line = order.items[input.index];
+    if (!line) {
+      throw new BadRequestError(`Order has no line ${input.index + 1}`, 'INVALID_ORDER_LINE');
+    }
+    return { input, line };
+  });
+}
+
+// Refuse when stock can't cover the quantities needed per part
+async function assertInStock(needs) {
+  const byPart = new Map();
+  needs.forEach(({ partId, qty }) => {
+    if (qty > 0) byPart.set(String(partId), (byPart.get(String(partId)) || 0) + qty);
+  });
+  if (byPart.size === 0) return;
+
+  const shortages = await findShortages([...byPart].map(([partId, qty]) => ({ partId, qty })));
+  if (shortages.length) {
+    throw new BadRequestError('Insufficient stock for one or more items', 'INSUFFICIENT_STOCK');
+  }
+}
+
+/**
+ * Save the order's new figures, then book their stock movements
+ * The save is version checked, so of two concurrent changes only the
+ * first books stock; the student is notified when the status changed.
+ * @param {Object} order - Changed order document
+ * @param {string} previousStatus
+ * @param {Object[]} movements - adjustStock arguments
+ */
+async function saveAndBook(order, previousStatus, movements) {
+  try {
+    await order.save();
+  } catch (error) {
+    if (error.name === 'VersionError') {
+      throw new ConflictError('This order was changed meanwhile; reload it and try again', 'ORDER_CHANGED');
+    }
+    throw error;
+  }
+
+  for (const movement of movements) {
+    await adjustStock(movement);
+  }
+
+  if (order.status !== previousStatus) {
+    await notifyOrderStatus(order);
+  }
+  emitOrderEvent(realtime.EVENTS.ORDER_UPDATED, order);
+  return order;
+}
+
+/**
+ * Decide each line of a pending order
+ * Lines left out are approved as requested. What is neither approved nor
+ * backordered is released; a substituted line releases the original part
+ * and reserves the substitute.
+ * @param {string} orderId
+ * @param {Array<{index: number, approvedQty: number, backorderQty?: number, substitutePartId?: string, note?: string}>} lines
+ * @param {string} userId - Who reviewed
+ * @param {string} [notes]
+ * @returns {Promise<Object>} Reviewed order
+ */
+async function reviewOrder(orderId, lines, userId, notes) {
+  const order = await loadOrder(orderId);
+  assertAllowed(order, 'review');
+
+  const decisions = new Map(pickLines(order, lines).map(({ input }) => [input.index, input]));
+
+  const plan = order.items.map((line, index) => {
+    const decision = decisions.get(index) || { approvedQty: line.qty };
+    const backorderQty = decision.backorderQty || 0;
+    const partId = decision.substitutePartId && decision.substitutePartId !== String(line.partId)
+      ? decision.substitutePartId
+      : null;
+
+    if (decision.approvedQty + backorderQty > line.qty) {
+      throw new BadRequestError(
+        `Line ${index + 1}: approved and backordered exceed the ${line.qty} requested`,
+        'QTY_EXCEEDS_REQUESTED'
+      );
+    }
+    return { line, index, decision, backorderQty, substitute: partId };
+  });
+
+  const substitutes = plan.filter(step => step.substitute);
+  if (substitutes.length) {
+    const found = await Part.countDocuments({ _id: { $in: [...new Set(substitutes.map(step => step.substitute))] } });
+    if (found !== new Set(substitutes.map(step => step.substitute)).size) {
+      throw new NotFoundError('Substitute part');
+    }
+    await assertInStock(substitutes.map(step => ({ partId: step.substitute, qty: step.decision.approvedQty })));
+  }
+
+  const movements = [];
+  for (const { line, decision, substitute } of plan) {
+    // A substitute takes nothing from the original part's reservation
+    const release = substitute ? line.reservedQty : line.reservedQty - decision.approvedQty;
+    if (release > 0) {
+      movements.push({
+        partId: line.partId,
+        qtyChange: -release,
+        reason: 'release',
+        orderId: order._id,
+        createdBy: userId,
+        notes: substitute ? 'Substituted on review' : 'Not approved on review'
+      });
+    }
+    if (substitute && decision.approvedQty > 0) {
+      movements.push({
+        partId: substitute,
+        qtyChange: decision.approvedQty,
+        reason: 'reserve',
+        orderId: order._id,
+        createdBy: userId,
+        notes: 'Substitute approved on review'
+      });
+    }
+  }
+
+  plan.forEach(({ line, decision, backorderQty, substitute }) => {
+    if (substitute) {
+      line.substitutedFrom = line.partId;
+      line.partId = substitute;
+    }
+    line.approvedQty = decision.approvedQty;
+    line.backorderQty = backorderQty;
+    line.reservedQty = decision.approvedQty;
+    if (decision.note !== undefined) line.note = decision.note;
+  });
+
+  const previousStatus = order.status;
+  order.status = deriveStatus(order);
+  order.history.push({
+    type: 'reviewed',
+    by: userId,
+    notes,
+    lines: plan.map(({ line, index }) => ({
+      index,
+      partId: line.partId,
+      qty: line.approvedQty,
+      backorderQty: line.backorderQty,
+      substitutedFrom: line.substitutedFrom
+    }))
+  });
+
+  await saveAndBook(order, previousStatus, movements);
+  logger.info(`Order ${order._id} reviewed by ${userId}: ${order.status}`);
+  return order;
+}
+
+/**
+ * Hand out parts of an approved order
+ * Reserved parts go first; backordered parts are taken from stock when
+ * it can cover them.
+ * @param {string} orderId
+ * @param {Array<{index: number, qty: number}>} lines
+ * @param {string} userId - Who handed out
+ * @param {string} [notes]
+ * @returns {Promise<Object>} Updated order
+ */
+async function handOutOrder(orderId, lines, userId, notes) {
+  const order = await loadOrder(orderId);
+  assertAllowed(order, 'handout');
+
+  const picked = pickLines(order, lines).map(({ input, line }) => {
+    if (input.qty > outstandingQty(line)) {
+      throw new BadRequestError(
+        `Line ${input.index + 1}: only ${outstandingQty(line)} left to hand out`,
+        'QTY_EXCEEDS_OUTSTANDING'
+      );
+    }
+    const fromReserve = Math.min(input.qty, line.reservedQty);
+    return { input, line, fromReserve, fromStock: input.qty - fromReserve };
+  });
+
+  await assertInStock(picked.map(({ line, fromStock }) => ({ partId: line.partId, qty: fromStock })));
+
+  const movements = [];
+  for (const { input, line, fromStock } of picked) {
+    if (fromStock > 0) {
+      movements.push({
+        partId: line.partId,
+        qtyChange: fromStock,
+        reason: 'reserve',
+        orderId: order._id,
+        createdBy: userId,
+        notes: 'Backorder in stock'
+      });
+    }
+    movements.push({
+      partId: line.partId,
+      qtyChange: -input.qty,
+      reason: 'fulfill',
+      orderId: order._id,
+      createdBy: userId,
+      notes
+    });
+  }
+
+  picked.forEach(({ input, line, fromReserve }) => {
+    line.reservedQty -= fromReserve;
+    line.fulfilledQty += input.qty;
+  });
+
+  const previousStatus = order.status;
+  order.status = deriveStatus(order);
+  order.history.push({
+    type: 'handout',
+    by: userId,
+    notes,
+    lines: picked.map(({ input, line }) => ({ index: input.index, partId: line.partId, qty: input.qty }))
+  });
+
+  await saveAndBook(order, previousStatus, movements);
+  logger.info(`Order ${order._id}: ${lines.length} lines handed out by ${userId}`);
+  return order;
+}
+
+/**
+ * Take back unused parts handed out on an order
+ * @param {string} orderId
+ * @param {Array<{index: number, qty: number}>} lines
+ * @param {Object} user - Who returned: the order's student or staff
+ * @param {string} [notes]
+ * @returns {Promise<Object>} Updated order
+ */
+async function returnOrderParts(orderId, lines, user, notes) {
+  const order = await loadOrder(orderId);
+  assertOwnerOrStaff(order, user);
+  assertAllowed(order, 'return');
+
+  const picked = pickLines(order, lines);
+  picked.forEach(({ input, line }) => {
+    const returnable = line.fulfilledQty - line.returnedQty;
+    if (input.qty > returnable) {
+      throw new BadRequestError(
+        `Line ${input.index + 1}: only ${returnable} handed out and not yet returned`,
+        'QTY_EXCEEDS_HANDED_OUT'
+      );
+    }
+  });
+
+  const movements = picked.map(({ input, line }) => {
+    line.returnedQty += input.qty;
+    return {
+      partId: line.partId,
+      qtyChange: input.qty,
+      reason: 'return',
+      orderId: order._id,
+      createdBy: user.id,
+      notes
+    };
+  });
+
+  order.history.push({
+    type: 'return',
+    by: user.id,
+    notes,
+    lines: picked.map(({ input, line }) => ({ index: input.index, partId: line.partId, qty: input.qty }))
+  });
+
+  await saveAndBook(order, order.status, movements);
+  logger.info(`Order ${order._id}: parts returned on ${lines.length} lines by ${user.id}`);
+  return order;
+}
+
+/**
+ * Stop waiting on a partly handed out order
+ * Releases what is still reserved and drops open backorders; the order
+ * is fulfilled with what was handed out.
+ * @param {string} orderId
+ * @param {string} userId - Who closed
+ * @param {string} [notes]
+ * @returns {Promise<Object>} Closed order
+ */
+async function closeOrder(orderId, userId, notes) {
+  const order = await loadOrder(orderId);
+  assertAllowed(order, 'close');
+
+  if (order.items.every(line => !line.fulfilledQty)) {
+    throw new BadRequestError('Nothing has been handed out; reject or cancel the order instead', 'NOTHING_HANDED_OUT');
+  }
+
+  const dropped = [];
+  const movements = [];
+  for (const [index, line] of order.items.entries()) {
+    const outstanding = outstandingQty(line);
+    if (outstanding === 0) continue;
+
+    if (line.reservedQty > 0) {
+      movements.push({
+        partId: line.partId,
+        qtyChange: -line.reservedQty,
+        reason: 'release',
+        orderId: order._id,
+        createdBy: userId,
+        notes: 'Order closed'
+      });
+    }
+    dropped.push({ index, partId: line.partId, qty: outstanding });
+
+    const approvedQty = Math.min(line.approvedQty ?? line.qty, line.fulfilledQty);
+    line.approvedQty = approvedQty;
+    line.backorderQty = line.fulfilledQty - approvedQty;
+    line.reservedQty = 0;
+  }
+
+  const previousStatus = order.status;
+  order.status = 'fulfilled';
+  order.history.push({ type: 'closed', by: userId, notes, lines: dropped });
+
+  await saveAndBook(order, previousStatus, movements);
+  logger.info(`Order ${order._id} closed by ${userId}`);
+  return order;
+}
+
+/**
+ * End an order before anything is handed out, releasing its reservations
+ * @param {string} orderId
+ * @param {Object} user - Who ended it
+ * @param {'reject'|'cancel'} step - Staff reject; the student or staff cancel
+ * @param {string} [notes]
+ * @returns {Promise<Object>} Rejected or cancelled order
+ */
+async function endOrder(orderId, user, step, notes) {
+  const order = await loadOrder(orderId);
+  if (step === 'cancel') {
+    assertOwnerOrStaff(order, user);
+  }
+  assertAllowed(order, step);
+
+  const released = [];
+  const movements = [];
+  for (const [index, line] of order.items.entries()) {
+    if (line.reservedQty > 0) {
+      movements.push({
+        partId: line.partId,
+        qtyChange: -line.reservedQty,
+        reason: step === 'cancel' ? 'cancel' : 'release',
+        orderId: order._id,
+        createdBy: user.id
+      });
+      released.push({ index, partId: line.partId, qty: line.reservedQty });
+    }
+    line.approvedQty = 0;
+    line.backorderQty = 0;
+    line.reservedQty = 0;
+  }
+
+  const previousStatus = order.status;
+  order.status = step === 'cancel' ? 'cancelled' : 'rejected';
+  order.history.push({ type: order.status, by: user.id, notes, lines: released });
+
+  await saveAndBook(order, previousStatus, movements);
+  logger.info(`Order ${order._id} ${order.status} by ${user.id}`);
+  return order;
+}
+
+/**
+ * Hand out everything still outstanding, approving a pending order in
+ * full first
+ * @param {string} orderId
+ * @param {string} userId
+ * @returns {Promise<Object>} Fulfilled order
+ */
+async function fulfillOrder(orderId, userId) {
+  let order = await loadOrder(orderId);
+  if (order.status === 'pending') {
+    order = await reviewOrder(orderId, [], userId);
+  }
+  assertAllowed(order, 'handout');
+
+  const lines = order.items
+    .map((line, index) => ({ index, qty: outstandingQty(line) }))
+    .filter(line => line.qty > 0);
+
+  return handOutOrder(orderId, lines, userId);
+}
+
+/**
+ * Pick list lines for approved and partly handed out orders
+ * @param {string[]} [orderIds] - Every order with parts to hand out when omitted
+ * @returns {Promise<Object[]>} Orders with their lines to pick, sorted by SKU
+ */
+async function buildPickList(orderIds) {
+  const filter = { status: { $in: PICKABLE_STATUSES } };
+  if (orderIds?.length) filter._id = { $in: orderIds };
+
+  logger.logDB('find', 'Order', { filter });
+
+  const orders = await Order.find(filter)
+    .sort({ createdAt: 1 })
+    .populate('studentId', 'name email')
+    .populate('projectId', 'title')
+    .populate('items.partId', 'name sku category')
+    .lean();
+
+  return orders
+    .map(order => ({
+      orderId: String(order._id),
+      reference: String(order._id).slice(-6).toUpperCase(),
+      studentName: order.studentId?.name || 'Unknown',
+      projectTitle: order.projectId?.title || null,
+      createdAt: order.createdAt,
+      lines: order.items
+        .map((line, index) => {
+          const qty = outstandingQty(line);
+          return {
+            index,
+            sku: line.partId?.sku || '',
+            name: line.partId?.name || 'Unknown part',
+            qty,
+            // Not yet reserved, to be checked on the shelf
+            backorderQty: Math.max(qty - line.reservedQty, 0),
+            note: line.note || null
+          };
+        })
+        .filter(line => line.qty > 0)
+        .sort((a, b) => a.sku.localeCompare(b.sku))
+    }))
+    .filter(order => order.lines.length > 0);
+}
+
+/**
+ * Fill in the line figures of orders placed before line-level decisions,
+ * and start unversioned orders at version 0 so their saves are checked
+ * Run once at startup after upgrading; a no-op afterwards
+ * @returns {Promise<number>} Number of orders updated
+ */
+async function backfillOrderLines() {
+  const result = await Order.updateMany(
+    { 'items.0.reservedQty': { $exists: false } },
+    [
+      {
+        $set: {
+          items: {
+            $map: {
+              input: '$items',
+              as: 'line',
+              in: {
+                $mergeObjects: [
+                  '$$line',
+                  {
+                    approvedQty: {
+                      $switch: {
+                        branches: [
+                          { case: { $in: ['$status', ['approved', 'fulfilled']] }, then: '$$line.qty' },
+                          { case: { $in: ['$status', ['rejected', 'cancelled']] }, then: 0 }
+                        ],
+                        default: null
+                      }
+                    },
+                    backorderQty: 0,
+                    reservedQty: { $cond: [{ $in: ['$status', ['pending', 'approved']] }, '$$line.qty', 0] },
+                    fulfilledQty: { $cond: [{ $eq: ['$status', 'fulfilled'] }, '$$line.qty', 0] },
+                    returnedQty: 0
+                  }
+                ]
+              }
+            }
+          },
+          history: {
+            $ifNull: ['$history', [{ type: 'created', at: '$createdAt', by: '$studentId', lines: [] }]]
+          }
+        }
+      }
+    ]
+  );
+  const versioned = await Order.updateMany({ __v: { $exists: false } }, { $set: { __v: 0 } });
+  return result.modifiedCount + versioned.modifiedCount;
+}
+
+module.exports = {
+  OPEN_ORDER_STATUSES,
+  findShortages,
+  placeOrder,
+  emitOrderEvent,
+  outstandingQty,
+  reviewOrder,
+  handOutOrder,
+  returnOrderParts,
+  closeOrder,
+  endOrder,
+  fulfillOrder,
+  buildPickList,
+  backfillOrderLines
+};
@@ -0,0 +1,306 @@
+/**
+ * Part Import Service
+ *
+ * Bulk import and export of the parts catalog with stock counts.
+ *
+ * Export and import share PART_COLUMNS so a sheet can round-trip through
+ * a spreadsheet. Rows are matched to parts by SKU; since a SKU names a
+ * bin that several parts can share, the part number (then the name)
+ * picks the part when the SKU alone is ambiguous. On existing parts a
+ * blank cell leaves the field as it is. A changed on-hand count is booked
+ * as a stock adjustment, never written to the level directly.
+ */
+
+const Part = require('../models/Part');
+const StockLevel = require('../models/StockLevel');
+const Supplier = require('../models/Supplier');
+const { stockFigures, adjustStock } = require('./stock.service');
+const logger = require('../utils/logger');
+
+/**
+ * Sheet columns. `readOnly` columns are exported for reference and
+ * ignored on import.
+ */
+const PART_COLUMNS = [
+  { header: 'SKU', key: 'sku', width: 14 },
+  { header: 'Name', key: 'name', width: 30 },
+  { header: 'Category', key: 'category', width: 16 },
+  { header: 'Group', key: 'group', width: 14 },
+  { header: 'Part Number', key: 'partNumber', width: 14 },
+  { header: 'Description', key: 'description', width: 40 },
+  { header: 'Reorder Point', key: 'reorderPoint' },
+  { header: 'Reorder Qty', key: 'reorderQty' },
+  { header: 'Supplier', key: 'supplier', width: 20 },
+  { header: 'Lead Time Days', key: 'leadTimeDays' },
+  { header: 'Loanable', key: 'loanable' },
+  { header: 'Serial Numbers', key: 'serialNumbers', width: 30 },
+  { header: 'On Hand', key: 'onHandQty' },
+  { header: 'Reserved', key: 'reservedQty', readOnly: true },
+  { header: 'Available', key: 'availableQty', readOnly: true },
+  { header: 'On Loan', key: 'onLoanQty', readOnly: true }
+];
+
+const TEXT_FIELDS = ['name', 'category', 'group', 'partNumber', 'description'];
+const INTEGER_FIELDS = ['reorderPoint', 'reorderQty', 'leadTimeDays'];
+
+// Headers are matched loosely: "Part Number", "part_number" and "partNumber" all work
+const normalizeHeader = (header) => String(header).toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const COLUMN_BY_HEADER = new Map(
+  PART_COLUMNS.filter(col => !col.readOnly).flatMap(col => [
+    [normalizeHeader(col.header), col.key],
+    [normalizeHeader(col.key), col.key]
+  ])
+);
+
+const splitSerials = (value) => [...new Set(value.split(/[;\n,]/).map(s => s.trim()).filter(Boolean))];
+
+const sameText = (a, b) => String(a || '').trim().toLowerCase() === String(b || '').trim().toLowerCase();
+
+/**
+ * Parse a yes/no cell
+ * @returns {boolean|undefined} undefined when unreadable
+ */
+function parseBoolean(value) {
+  const text = value.toLowerCase();
+  if (['yes', 'y', 'true', '1'].includes(text)) return true;
+  if (['no', 'n', 'false', '0'].includes(text)) return false;
+  return undefined;
+}
+
+/**
+ * Export rows for every part with its current stock figures
+ * @returns {Promise<Array<Object>>}
+ */
+async function buildPartsExport() {
+  const [parts, levels] = await Promise.all([
+    Part.find().populate('supplierId', 'name').sort({ sku: 1, name: 1 }).lean(),
+    StockLevel.find().lean()
+  ]);
+  const levelByPart = new Map(levels.map(level => [String(level.partId), level]));
+
+  return parts.map(part => ({
+    sku: part.sku,
+    name: part.name,
+    category: part.category,
+    group: part.group || '',
+    partNumber: part.partNumber || '',
+    description: part.description || '',
+    reorderPoint: part.reorderPoint || 0,
+    reorderQty: part.reorderQty || 0,
+    supplier: part.supplierId?.name || '',
+    leadTimeDays: part.leadTimeDays ?? '',
+    loanable: part.loanable ? 'yes' : 'no',
+    serialNumbers: (part.serialNumbers || []).join('; '),
+    ...stockFigures(levelByPart.get(String(part._id)))
+  }));
+}
+
+/**
+ * Read one sheet row into part fields
+ * @returns {{ fields: Object, onHandQty: number|undefined, errors: string[] }}
+ */
+function parseRow(values, suppliersByName) {
+  const fields = {};
+  const errors = [];
+  let onHandQty;
+
+  Object.entries(values).forEach(([header, raw]) => {
+    const key = COLUMN_BY_HEADER.get(normalizeHeader(header));
+    if (!key || raw === '') return;
+
+    if (key === 'sku' || TEXT_FIELDS.includes(key)) {
+      fields[key] = raw;
+    } else if (INTEGER_FIELDS.includes(key) || key === 'onHandQty') {
+      const number = Number(raw);
+      if (!Number.isInteger(number) || number < 0) {
+        errors.push(`${header} must be a whole number of 0 or more`);
+      } else if (key === 'onHandQty') {
+        onHandQty = number;
+      } else {
+        fields[key] = number;
+      }
+    } else if (key === 'loanable') {
+      const loanable = parseBoolean(raw);
+      if (loanable === undefined) errors.push(`${header} must be yes or no`);
+      else fields.loanable = loanable;
+    } else if (key === 'serialNumbers') {
+      fields.serialNumbers = splitSerials(raw);
+    } else if (key === 'supplier') {
+      const supplier = suppliersByName.get(raw.toLowerCase());
+      if (!supplier) errors.push(`Unknown supplier "${raw}"`);
+      else fields.supplierId = supplier._id;
+    }
+  });
+
+  if (/^lego$/i.test(fields.group || '') && !fields.partNumber) {
+    errors.push('Lego parts need a part number');
+  }
+
+  return { fields, onHandQty, errors };
+}
+
+/**
+ * Find the existing part a row refers to
+ * @returns {{ part: Object|null, error?: string }}
+ */
+function matchPart(fields, partsBySku) {
+  const candidates = partsBySku.get(fields.sku.toLowerCase()) || [];
+  if (candidates.length === 0) return { part: null };
+
+  if (fields.partNumber) {
+    // A part number not yet in the bin is a new part sharing the SKU
+    const byNumber = candidates.filter(part => sameText(part.partNumber, fields.partNumber));
+    return { part: byNumber[0] || null };
+  }
+  if (candidates.length === 1) return { part: candidates[0] };
+
+  const byName = candidates.filter(part => sameText(part.name, fields.name));
+  if (byName.length === 1) return { part: byName[0] };
+  return {
+    part: null,
+    error: `SKU ${fields.sku} is shared by ${candidates.length} parts; add a part number to pick one`
+  };
+}
+
+/**
+ * Fields whose value would change on an existing part
+ * @returns {Object} field -> { from, to }
+ */
+function diffPart(part, fields) {
+  const changes = {};
+  Object.entries(fields).forEach(([key, to]) => {
+    const from = part[key];
+    const same = key === 'serialNumbers'
+      ? (from || []).join('\n') === to.join('\n')
+      : String(from ?? '') === String(to);
+    if (!same) changes[key] = { from: from ?? null, to };
+  });
+  return changes;
+}
+
+/**
+ * Work out what importing the rows would do, without writing anything
+ *
+ * Every row gets an action: create, update, unchanged or error (with the
+ * reasons). A stock change is reported as { from, to } on-hand.
+ *
+ * @param {Array<{line: number, values: Object}>} rows - From readSheet
+ * @returns {Promise<{summary: Object, rows: Array<Object>}>}
+ */
+async function previewPartImport(rows) {
+  const [parts, levels, suppliers] = await Promise.all([
+    Part.find().lean(),
+    StockLevel.find().lean(),
+    Supplier.find().select('name').lean()
+  ]);
+
+  const partsBySku = new Map();
+  parts.forEach(part => {
+    const key = String(part.sku).toLowerCase();
+    partsBySku.set(key, [...(partsBySku.get(key) || []), part]);
+  });
+  const levelByPart = new Map(levels.map(level => [String(level.partId), level]));
+  const suppliersByName = new Map(suppliers.map(supplier => [supplier.name.toLowerCase(), supplier]));
+
+  // Two rows must not land on the same part
+  const seen = new Map();
+
+  const results = rows.map(({ line, values }) => {
+    const { fields, onHandQty, errors } = parseRow(values, suppliersByName);
+    const result = { line, sku: fields.sku || '', name: fields.name || '', partId: null, errors };
+
+    if (!fields.sku) errors.push('SKU is required');
+
+    let part = null;
+    if (fields.sku) {
+      const match = matchPart(fields, partsBySku);
+      if (match.error) errors.push(match.error);
+      part = match.part;
+    }
+
+    if (!part) {
+      if (!fields.name) errors.push('Name is required for a new part');
+      if (!fields.category) errors.push('Category is required for a new part');
+    }
+
+    const key = part
+      ? String(part._id)
+      : `${String(fields.sku).toLowerCase()}/${String(fields.partNumber || fields.name || '').toLowerCase()}`;
+    if (fields.sku && seen.has(key)) {
+      errors.push(`Same part as line ${seen.get(key)}`);
+    } else {
+      seen.set(key, line);
+    }
+
+    if (part) {
+      const figures = stockFigures(levelByPart.get(String(part._id)));
+      result.partId = String(part._id);
+      result.name = result.name || part.name;
+      result.changes = diffPart(part, fields);
+      if (onHandQty !== undefined && onHandQty !== figures.onHandQty) {
+        if (onHandQty < figures.reservedQty) {
+          errors.push(`On hand can't go below the ${figures.reservedQty} reserved`);
+        }
+        result.stock = { from: figures.onHandQty, to: onHandQty };
+      }
+    } else {
+      result.changes = Object.fromEntries(Object.entries(fields).map(([k, to]) => [k, { from: null, to }]));
+      if (onHandQty) result.stock = { from: 0, to: onHandQty };
+    }
+
+    if (errors.length > 0) {
+      result.action = 'error';
+    } else if (!part) {
+      result.action = 'create';
+    } else {
+      result.action = Object.keys(result.changes).length > 0 || result.stock ? 'update' : 'unchanged';
+    }
+
+    // Kept for applyPartImport, not sent to the client
+    Object.defineProperty(result, 'fields', { value: fields });
+    return result;
+  });
+
+  const summary = { total: results.length, create: 0, update: 0, unchanged: 0, error: 0 };
+  results.forEach(result => { summary[result.action] += 1; });
+
+  return { summary, rows: results };
+}
+
+/**
+ * Write a previewed import: create and update parts, then book stock
+ * count differences as adjustments
+ * @param {Array<Object>} rows - previewPartImport rows, none in error
+ * @param {string} userId - Who imported
+ */
+async function applyPartImport(rows, userId) {
+  for (const row of rows) {
+    if (row.action === 'create') {
+      const part = await Part.create(row.fields);
+      row.partId = String(part._id);
+    } else if (row.action === 'update' && Object.keys(row.changes).length > 0) {
+      const update = Object.fromEntries(Object.entries(row.changes).map(([key, change]) => [key, change.to]));
+      await Part.findByIdAndUpdate(row.partId, update, { runValidators: true });
+    }
+
+    if (row.stock) {
+      await adjustStock({
+        partId: row.partId,
+        qtyChange: row.stock.to - row.stock.from,
+        reason: 'adjustment',
+        createdBy: userId,
+        notes: `Spreadsheet import, line ${row.line}`
+      });
+    }
+  }
+
+  logger.info(`Imported parts: ${rows.filter(r => r.action === 'create').length} created, ${rows.filter(r => r.action === 'update').length} updated`);
+}
+
+module.exports = {
+  PART_COLUMNS,
+  buildPartsExport,
+  previewPartImport,
+  applyPartImport
+};
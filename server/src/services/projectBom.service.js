@@ -0,0 +1,126 @@
+/**
+ * Project BOM Service
+ *
+ * A project's bill of materials: for every part it lists, how many are
+ * required, how many are still to be handed out on open orders for the
+ * project, how many were handed out (less returns), what is still short
+ * and what the parts are estimated to cost.
+ *
+ * Costs are estimated at each part's weighted average purchase cost
+ * (the last purchase cost when there is no average); parts never bought
+ * with a cost are left out of the totals and counted as uncosted.
+ */
+
+const Order = require('../models/Order');
+const Part = require('../models/Part');
+const StockLevel = require('../models/StockLevel');
+const { stockFigures, unitCostStages } = require('./stock.service');
+const { OPEN_ORDER_STATUSES } = require('./order.service');
+
+/**
+ * Bill of materials of a project
+ * @param {Object} project - Project document
+ * @returns {Promise<{ lines: Object[], totals: Object }>}
+ */
+async function getProjectBom(project) {
+  // The same part may be listed twice; require the sum
+  const required = new Map();
+  project.parts.forEach(({ partId, qty }) => {
+    const key = String(partId);
+    required.set(key, (required.get(key) || 0) + qty);
+  });
+  const partIds = [...required.keys()];
+
+  const [parts, levels, ordered] = await Promise.all([
+    Part.aggregate([
+      { $match: { _id: { $in: project.parts.map(p => p.partId) } } },
+      ...unitCostStages('$_id'),
+      { $project: { name: 1, sku: 1, category: 1, avgUnitCost: 1, lastUnitCost: 1 } }
+    ]),
+    StockLevel.find({ partId: { $in: partIds } }).lean(),
+    Order.aggregate([
+      { $match: { projectId: project._id, status: { $in: [...OPEN_ORDER_STATUSES, 'fulfilled'] } } },
+      { $unwind: '$items' },
+      {
+        $group: {
+          _id: '$items.partId',
+          // Still to hand out; unreviewed lines count what was requested
+          openQty: {
+            $sum: {
+              $cond: [
+                { $in: ['$status', OPEN_ORDER_STATUSES] },
+                {
+                  $max: [
+                    {
+                      $subtract: [
+                        { $add: [{ $ifNull: ['$items.approvedQty', '$items.qty'] }, { $ifNull: ['$items.backorderQty', 0] }] },
+                        { $ifNull: ['$items.fulfilledQty', 0] }
+                      ]
+                    },
+                    0
+                  ]
+                },
+                0
+              ]
+            }
+          },
+          fulfilledQty: {
+            $sum: { $subtract: [{ $ifNull: ['$items.fulfilledQty', 0] }, { $ifNull: ['$items.returnedQty', 0] }] }
+          }
+        }
+      }
+    ])
+  ]);
+
+  const partById = new Map(parts.map(part => [String(part._id), part]));
+  const levelByPart = new Map(levels.map(level => [String(level.partId), level]));
+  const orderedByPart = new Map(ordered.map(row => [String(row._id), row]));
+
+  const totals = { estimatedCost: 0, shortfallCost: 0, uncostedParts: 0, shortfallLines: 0, orderableLines: 0 };
+
+  const lines = partIds.map(partId => {
+    const part = partById.get(partId);
+    const requiredQty = required.get(partId);
+    const { openQty = 0, fulfilledQty = 0 } = orderedByPart.get(partId) || {};
+    const { availableQty } = stockFigures(levelByPart.get(partId));
+    const shortfallQty = Math.max(requiredQty - openQty - fulfilledQty, 0);
+    const unitCost = part ? part.avgUnitCost ?? part.lastUnitCost ?? null : null;
+
+    const line = {
+      partId,
+      name: part?.name || null,
+      sku: part?.sku || null,
+      category: part?.category || null,
+      missing: !part,
+      requiredQty,
+      openQty,
+      fulfilledQty,
+      shortfallQty,
+      availableQty: Math.max(availableQty, 0),
+      // What an order for the shortfall can take from stock right now
+      orderableQty: part ? Math.min(shortfallQty, Math.max(availableQty, 0)) : 0,
+      unitCost,
+      estimatedCost: unitCost === null ? null : unitCost * requiredQty,
+      shortfallCost: unitCost === null ? null : unitCost * shortfallQty
+    };
+
+    if (unitCost === null) {
+      totals.uncostedParts += 1;
+    } else {
+      totals.estimatedCost += line.estimatedCost;
+      totals.shortfallCost += line.shortfallCost;
+    }
+    if (shortfallQty > 0) totals.shortfallLines += 1;
+    if (line.orderableQty > 0) totals.orderableLines += 1;
+
+    return line;
+  });
+
+  lines.sort((a, b) => b.shortfallQty - a.shortfallQty || String(a.name).localeCompare(String(b.name)));
+
+  return { lines, totals };
+}
+
+module.exports = {
+  getProjectBom
+};
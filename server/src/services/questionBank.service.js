@@ -0,0 +1,223 @@
+/**
+ * Question Bank Service
+ *
+ * Per-course banks of reusable questions, tagged and rated by difficulty.
+ *
+ * Quizzes can hold rules such as "5 easy + 3 hard tagged motors"; every
+ * attempt draws its own random questions for them when it starts and
+ * keeps copies, so later edits to the bank don't change it.
+ *
+ * Item statistics come from finished attempts that drew the item:
+ * - percentCorrect: share of those attempts that got it right
+ * - discrimination: upper-lower index, the share right among the top 27%
+ *   of those attempts by score minus the share among the bottom 27%.
+ *   Near zero or negative means the item doesn't separate strong from
+ *   weak students and is worth a look
+ */
+
+const QuestionBankItem = require('../models/QuestionBankItem');
+const QuizAttempt = require('../models/QuizAttempt');
+const { AppError } = require('../utils/errors');
+const logger = require('../utils/logger');
+
+// Fields shared by quiz questions and bank items
+const QUESTION_FIELDS = [
+  'question',
+  'type',
+  'options',
+  'pairs',
+  'numericAnswer',
+  'tolerance',
+  'acceptedAnswers',
+  'caseSensitive',
+  'code',
+  'language',
+  'points',
+  'explanation'
+];
+
+// Share of attempts in each of the upper and lower groups
+const GROUP_SHARE = 0.27;
+
+// Fewer attempts than this say too little to rate discrimination
+const MIN_ATTEMPTS_FOR_DISCRIMINATION = 10;
+
+/**
+ * The question fields of a question-like object
+ * @param {Object} source - Request body, quiz question or bank item
+ * @returns {Object}
+ */
+function pickQuestionFields(source) {
+  const plain = typeof source.toObject === 'function' ? source.toObject() : source;
+  return Object.fromEntries(
+    QUESTION_FIELDS.filter(field => plain[field] !== undefined).map(field => [field, plain[field]])
+  );
+}
+
+/**
+ * Bank query for a rule's questions
+ * @param {string} courseId
+ * @param {{difficulty?: string, tags?: string[]}} rule
+ * @returns {Object}
+ */
+function ruleFilter(courseId, rule) {
+  const filter = { course: courseId };
+  if (rule.difficulty) filter.difficulty = rule.difficulty;
+  if (rule.tags && rule.tags.length > 0) {
+    filter.tags = { $all: rule.tags.map(tag => String(tag).trim().toLowerCase()) };
+  }
+  return filter;
+}
+
+function describeRule(rule) {
+  const tags = rule.tags && rule.tags.length > 0 ? ` tagged ${rule.tags.join(', ')}` : '';
+  return `${rule.count} ${rule.difficulty || 'any difficulty'}${tags}`;
+}
+
+/**
+ * Problems with a quiz's rules against the course's bank
+ * Rules are checked in order; a question counted for one rule isn't
+ * available to the next, as when drawing.
+ * @param {string} courseId
+ * @param {Array<Object>} rules
+ * @returns {Promise<string[]>} Error messages; empty when every rule can be met
+ */
+async function checkRules(courseId, rules = []) {
+  const errors = [];
+  const taken = new Set();
+
+  for (const [index, rule] of rules.entries()) {
+    const count = Number(rule.count);
+    if (!Number.isInteger(count) || count < 1) {
+      errors.push(`Rule ${index + 1} must draw at least 1 question`);
+      continue;
+    }
+
+    const ids = await QuestionBankItem.find(ruleFilter(courseId, rule)).distinct('_id');
+    const available = ids.filter(id => !taken.has(String(id)));
+    if (available.length < count) {
+      errors.push(`Rule ${index + 1} (${describeRule(rule)}) needs ${count} questions but the bank has ${available.length}`);
+    }
+    available.slice(0, count).forEach(id => taken.add(String(id)));
+  }
+
+  return errors;
+}
+
+const shuffle = (items) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * Questions for a new attempt at a quiz with rules
+ * The quiz's own questions come first, then a random draw per rule; no
+ * item is drawn twice. Drawn questions keep their bank item's id so
+ * answers and statistics point back to it.
+ * @param {Object} quiz
+ * @returns {Promise<Array<Object>>}
+ * @throws {AppError} 409 QUESTION_BANK_SHORT when the bank can't meet a rule
+ */
+async function drawQuestions(quiz) {
+  const drawn = [];
+  const taken = new Set();
+
+  for (const rule of quiz.questionRules) {
+    const candidates = (await QuestionBankItem.find(ruleFilter(quiz.course, rule)))
+      .filter(item => !taken.has(String(item._id)));
+
+    if (candidates.length < rule.count) {
+      throw new AppError(
+        'This quiz draws more questions than its question bank holds; please tell your trainer',
+        409,
+        'QUESTION_BANK_SHORT'
+      );
+    }
+
+    shuffle(candidates).slice(0, rule.count).forEach(item => {
+      taken.add(String(item._id));
+      drawn.push({ ...pickQuestionFields(item), _id: item._id, bankItem: item._id });
+    });
+  }
+
+  return [
+    ...quiz.questions.map(question => question.toObject()),
+    ...drawn
+  ];
+}
+
+/**
+ * Recompute the statistics of bank items from finished attempts
+ * @param {Array<string>} itemIds
+ * @returns {Promise<number>} Number of items updated
+ */
+async function refreshItemStats(itemIds) {
+  let updated = 0;
+
+  for (const itemId of itemIds) {
+    const attempts = await QuizAttempt.find({
+      status: { $in: QuizAttempt.FINISHED_STATUSES },
+      'answers.questionId': itemId
+    }).select('score answers.questionId answers.isCorrect answers.needsReview');
+
+    // Essays still waiting for a grade don't count yet
+    const results = attempts
+      .map(attempt => ({
+        score: attempt.score || 0,
+        answer: attempt.answers.find(answer => String(answer.questionId) === String(itemId))
+      }))
+      .filter(result => result.answer && !result.answer.needsReview);
+
+    const stats = { attempts: results.length, percentCorrect: null, discrimination: null, updatedAt: new Date() };
+
+    if (results.length > 0) {
+      const shareCorrect = group => group.filter(result => result.answer.isCorrect).length / group.length;
+      stats.percentCorrect = Math.round(shareCorrect(results) * 100);
+
+      if (results.length >= MIN_ATTEMPTS_FOR_DISCRIMINATION) {
+        const ranked = [...results].sort((a, b) => b.score - a.score);
+        const groupSize = Math.max(Math.round(ranked.length * GROUP_SHARE), 1);
+        const upper = ranked.slice(0, groupSize);
+        const lower = ranked.slice(-groupSize);
+        stats.discrimination = Math.round((shareCorrect(upper) - shareCorrect(lower)) * 100) / 100;
+      }
+    }
+
+    const result = await QuestionBankItem.updateOne({ _id: itemId }, { $set: { stats } });
+    if (result.matchedCount > 0) updated += 1;
+  }
+
+  return updated;
+}
+
+/**
+ * Refresh the statistics of the bank items an attempt drew
+ * Failures are logged; they never fail the attempt.
+ * @param {Object} attempt - Finished QuizAttempt document
+ */
+async function refreshAttemptItemStats(attempt) {
+  const itemIds = (attempt.questions || [])
+    .filter(question => question.bankItem)
+    .map(question => question.bankItem);
+  if (itemIds.length === 0) return;
+
+  try {
+    await refreshItemStats(itemIds);
+  } catch (error) {
+    logger.logError(error, { context: 'refreshAttemptItemStats', attemptId: attempt._id });
+  }
+}
+
+module.exports = {
+  QUESTION_FIELDS,
+  pickQuestionFields,
+  describeRule,
+  checkRules,
+  drawQuestions,
+  refreshItemStats,
+  refreshAttemptItemStats
+};
@@ -0,0 +1,216 @@
+/**
+ * Quiz Analytics Service
+ *
+ * How students did on a quiz, from its finished attempts: score
+ * distribution, pass rates per group, time spent, and item analysis
+ * (share correct per question and how often each option was chosen).
+ *
+ * Pass rates count students rather than attempts: a student passed when
+ * any of their attempts did. Questions drawn from the question bank are
+ * analysed from the attempts that drew them.
+ */
+
+const { questionSet, hasAnswer, CHOICE_TYPES } = require('./quizAttempt.service');
+
+// Scores fall in 0-9, 10-19, ... 90-100
+const BUCKET_SIZE = 10;
+
+// Most frequent typed answers listed per question
+const TOP_ANSWERS = 5;
+
+const percent = (part, whole) => (whole > 0 ? Math.round((part / whole) * 100) : null);
+
+const average = (values) => (values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null);
+
+const roundTo = (value, digits = 1) => (value === null ? null : Number(value.toFixed(digits)));
+
+// Works whether the student is populated or not
+const studentKey = (attempt) => String(attempt.student?._id ?? attempt.student);
+
+/**
+ * How many attempts scored in each band of 10%
+ * @param {Array<Object>} attempts
+ * @returns {Array<{from: number, to: number, count: number}>}
+ */
+function scoreDistribution(attempts) {
+  const buckets = Array.from({ length: 100 / BUCKET_SIZE }, (_, i) => ({
+    from: i * BUCKET_SIZE,
+    to: i === 100 / BUCKET_SIZE - 1 ? 100 : (i + 1) * BUCKET_SIZE - 1,
+    count: 0
+  }));
+  attempts.forEach(attempt => {
+    const index = Math.min(Math.floor((attempt.score || 0) / BUCKET_SIZE), buckets.length - 1);
+    buckets[index].count += 1;
+  });
+  return buckets;
+}
+
+/**
+ * Students, pass rate, average score and time over some attempts
+ * @param {Array<Object>} attempts
+ * @returns {Object}
+ */
+function outcome(attempts) {
+  const passedByStudent = new Map();
+  attempts.forEach(attempt => {
+    const key = studentKey(attempt);
+    passedByStudent.set(key, passedByStudent.get(key) || attempt.passed);
+  });
+  const passed = [...passedByStudent.values()].filter(Boolean).length;
+
+  return {
+    attempts: attempts.length,
+    students: passedByStudent.size,
+    passed,
+    passRate: percent(passed, passedByStudent.size),
+    averageScore: roundTo(average(attempts.map(attempt => attempt.score || 0))),
+    averageTimeSpent: roundTo(average(attempts.map(attempt => attempt.timeSpent || 0)), 0)
+  };
+}
+
+/**
+ * Outcome per group of the course, with students in no group last
+ * @param {Array<Object>} attempts
+ * @param {Array<Object>} groups - Groups with name and students
+ * @returns {Array<Object>}
+ */
+function groupBreakdown(attempts, groups) {
+  const grouped = new Set();
+  const rows = groups.map(group => {
+    const members = new Set(group.students.map(String));
+    members.forEach(id => grouped.add(id));
+    return {
+      groupId: group._id,
+      name: group.name,
+      enrolled: members.size,
+      ...outcome(attempts.filter(attempt => members.has(studentKey(attempt))))
+    };
+  });
+
+  const ungrouped = attempts.filter(attempt => !grouped.has(studentKey(attempt)));
+  if (ungrouped.length > 0) {
+    rows.push({ groupId: null, name: 'No group', enrolled: null, ...outcome(ungrouped) });
+  }
+  return rows;
+}
+
+/**
+ * Per question: how many got it right, average points, how often each
+ * option was chosen, and the most common typed answers
+ * @param {Object} quiz
+ * @param {Array<Object>} attempts
+ * @returns {Array<Object>} The quiz's own questions first, then drawn ones
+ */
+function itemAnalysis(quiz, attempts) {
+  const items = new Map();
+  const itemFor = (question) => {
+    const key = String(question._id);
+    if (!items.has(key)) {
+      items.set(key, {
+        question,
+        seen: 0,
+        answered: 0,
+        correct: 0,
+        points: 0,
+        pendingReview: 0,
+        optionCounts: question.options.map(() => 0),
+        textCounts: new Map()
+      });
+    }
+    return items.get(key);
+  };
+
+  quiz.questions.forEach(itemFor);
+
+  attempts.forEach(attempt => {
+    const questions = questionSet(attempt, quiz);
+    attempt.answers.forEach(answer => {
+      const question = questions.id(answer.questionId);
+      if (!question) return;
+
+      const item = itemFor(question);
+      item.seen += 1;
+      item.points += answer.pointsEarned || 0;
+      if (answer.isCorrect) item.correct += 1;
+      if (answer.needsReview) item.pendingReview += 1;
+      if (!hasAnswer(answer)) return;
+
+      item.answered += 1;
+      if (CHOICE_TYPES.includes(question.type)) {
+        answer.selectedOptions.forEach(idx => {
+          if (idx >= 0 && idx < item.optionCounts.length) item.optionCounts[idx] += 1;
+        });
+      } else if (question.type !== 'essay' && answer.textAnswer) {
+        const text = answer.textAnswer.trim();
+        item.textCounts.set(text, (item.textCounts.get(text) || 0) + 1);
+      }
+    });
+  });
+
+  return [...items.values()].map(item => {
+    const { question } = item;
+    return {
+      questionId: question._id,
+      question: question.question,
+      type: question.type,
+      points: question.points,
+      fromBank: Boolean(question.bankItem),
+      scoreOverride: quiz.scoreOverride(question._id),
+      seen: item.seen,
+      answered: item.answered,
+      percentCorrect: percent(item.correct, item.seen),
+      averagePoints: item.seen > 0 ? roundTo(item.points / item.seen, 2) : null,
+      pendingReview: item.pendingReview,
+      options: CHOICE_TYPES.includes(question.type)
+        ? question.options.map((opt, idx) => ({
+          index: idx,
+          text: opt.text,
+          isCorrect: opt.isCorrect,
+          count: item.optionCounts[idx],
+          percent: percent(item.optionCounts[idx], item.seen)
+        }))
+        : [],
+      topAnswers: [...item.textCounts]
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, TOP_ANSWERS)
+        .map(([text, count]) => ({ text, count }))
+    };
+  });
+}
+
+/**
+ * Analytics of a quiz
+ * @param {Object} quiz - Quiz document
+ * @param {Array<Object>} attempts - Finished attempts, student populated
+ * @param {Array<Object>} groups - Groups of the quiz's course
+ * @returns {Object}
+ */
+function buildQuizAnalytics(quiz, attempts, groups) {
+  return {
+    summary: {
+      ...outcome(attempts),
+      pendingReview: attempts.filter(attempt => attempt.pendingReview).length
+    },
+    scoreDistribution: scoreDistribution(attempts),
+    groups: groupBreakdown(attempts, groups),
+    questions: itemAnalysis(quiz, attempts),
+    attempts: attempts.map(attempt => ({
+      _id: attempt._id,
+      student: attempt.student,
+      attemptNumber: attempt.attemptNumber,
+      status: attempt.status,
+      score: attempt.score,
+      passed: attempt.passed,
+      earnedPoints: attempt.earnedPoints,
+      totalPoints: attempt.totalPoints,
+      timeSpent: attempt.timeSpent,
+      autoSubmitted: attempt.autoSubmitted,
+      pendingReview: attempt.pendingReview,
+      submittedAt: attempt.submittedAt
+    }))
+  };
+}
+
+module.exports = {
+  buildQuizAnalytics
+};
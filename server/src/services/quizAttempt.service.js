@@ -0,0 +1,696 @@
+/**
+ * Quiz Attempt Service
+ *
+ * Saving, grading and finalizing student quiz attempts.
+ *
+ * Scores are computed over every question of the quiz: unanswered
+ * questions earn nothing but still count towards the total, so skipping
+ * hard questions can't raise the percentage.
+ *
+ * Choice, ordering, matching, numeric, short text and code-output
+ * questions are graded automatically. Essays wait in the trainers' review
+ * queue: they earn nothing until reviewed and the attempt's score stays
+ * provisional meanwhile.
+ *
+ * Attempts at quizzes that draw from the question bank carry their own
+ * questions; everything here grades against questionSet().
+ *
+ * Trainers can fix the points of a question for everyone (an ambiguous
+ * question, say); those overrides beat automatic grading and review, and
+ * setting or clearing one regrades every finished attempt.
+ *
+ * Ordering items and matches go out under opaque tokens keyed to the
+ * attempt, so their authored positions (the answer) stay on the server;
+ * answers to those questions come back as tokens and are mapped to
+ * positions before they are stored.
+ *
+ * Timed attempts get a deadline when they start. Answers autosave while
+ * the attempt runs; once the deadline (plus a short grace for network
+ * delay) has passed the server finalizes the attempt with what was saved,
+ * whether the student submits late, reloads or never comes back.
+ */
+
+const crypto = require('crypto');
+const Quiz = require('../models/Quiz');
+const QuizAttempt = require('../models/QuizAttempt');
+const { AppError } = require('../utils/errors');
+const logger = require('../utils/logger');
+const { refreshAttemptItemStats } = require('./questionBank.service');
+
+// Allowance for a submit sent just before the deadline to arrive
+const GRACE_SECONDS = 30;
+
+/**
+ * The questions an attempt answers: its own when drawn from the bank,
+ * the quiz's otherwise
+ * @param {Object} attempt
+ * @param {Object} quiz
+ * @returns {Array<Object>} Mongoose document array
+ */
+function questionSet(attempt, quiz) {
+  return attempt.questions && attempt.questions.length > 0 ? attempt.questions : quiz.questions;
+}
+
+/**
+ * Deadline of an attempt started now, from the quiz's time limit
+ * @param {Object} quiz
+ * @param {Date} startedAt
+ * @returns {Date|null}
+ */
+function attemptDeadline(quiz, startedAt) {
+  return quiz.timeLimit ? new Date(startedAt.getTime() + quiz.timeLimit * 60 * 1000) : null;
+}
+
+/**
+ * Seconds left on an attempt
+ * @param {Object} attempt
+ * @param {Date} [now]
+ * @returns {number|null} null when untimed
+ */
+function remainingSeconds(attempt, now = new Date()) {
+  if (!attempt.expiresAt) return null;
+  return Math.max(Math.ceil((attempt.expiresAt - now) / 1000), 0);
+}
+
+function isOverdue(attempt, now = new Date()) {
+  return Boolean(attempt.expiresAt) && now.getTime() > attempt.expiresAt.getTime() + GRACE_SECONDS * 1000;
+}
+
+// Questions answered by typing rather than picking
+const TEXT_ANSWER_TYPES = ['numeric', 'short_text', 'code_output', 'essay'];
+
+// Questions answered by picking options
+const CHOICE_TYPES = ['single', 'multiple', 'true_false'];
+
+// Questions whose items are answered by token
+const TOKEN_TYPES = ['ordering', 'matching'];
+
+// Tolerance on top of the question's, for floating point noise
+const NUMERIC_EPSILON = 1e-9;
+
+const MAX_TEXT_ANSWER = 10000;
+
+// Short answers: spacing and, unless asked otherwise, case don't matter
+function normalizeText(value, caseSensitive) {
+  const text = String(value).trim().replace(/\s+/g, ' ');
+  return caseSensitive ? text : text.toLowerCase();
+}
+
+// Program output: line endings, trailing spaces and blank lines around it don't matter
+function normalizeOutput(value) {
+  return String(value)
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .replace(/^\n+|\n+$/g, '');
+}
+
+// Decimal commas are accepted
+function parseNumber(value) {
+  const text = String(value).trim().replace(',', '.');
+  if (!text) return null;
+  const number = Number(text);
+  return Number.isFinite(number) ? number : null;
+}
+
+/**
+ * Whether the student gave anything for a question
+ * @param {{selectedOptions?: number[], textAnswer?: string}} answer
+ * @returns {boolean}
+ */
+function hasAnswer(answer) {
+  if (!answer) return false;
+  if (answer.textAnswer && answer.textAnswer.trim()) return true;
+  return (answer.selectedOptions || []).some(idx => idx >= 0);
+}
+
+/**
+ * Whether an answer is correct
+ * Single choice and true/false: the one correct option. Multiple choice:
+ * every correct option and nothing else. Ordering: the items in their
+ * authored order. Matching: every left item with its own right item.
+ * Numeric: within the tolerance. Short text and code output: one of the
+ * accepted answers.
+ * @param {Object} question - Quiz question
+ * @param {{selectedOptions?: number[], textAnswer?: string}} answer
+ * @returns {boolean|null} null for essays, which a trainer grades
+ */
+function gradeQuestion(question, answer) {
+  const selectedOptions = answer.selectedOptions || [];
+  const textAnswer = answer.textAnswer || '';
+
+  switch (question.type) {
+    case 'essay':
+      return null;
+
+    case 'numeric': {
+      const value = parseNumber(textAnswer);
+      return value !== null &&
+        Math.abs(value - question.numericAnswer) <= (question.tolerance || 0) + NUMERIC_EPSILON;
+    }
+
+    case 'short_text': {
+      const given = normalizeText(textAnswer, question.caseSensitive);
+      return given !== '' &&
+        question.acceptedAnswers.some(accepted => normalizeText(accepted, question.caseSensitive) === given);
+    }
+
+    case 'code_output': {
+      const given = normalizeOutput(textAnswer);
+      return given !== '' && question.acceptedAnswers.some(accepted => normalizeOutput(accepted) === given);
+    }
+
+    // Items with the same text are interchangeable
+    case 'ordering':
+      return selectedOptions.length === question.options.length &&
+        selectedOptions.every((idx, position) => question.options[idx].text === question.options[position].text);
+
+    case 'matching':
+      return selectedOptions.length === question.pairs.length &&
+        selectedOptions.every((idx, position) => idx >= 0 && question.pairs[idx].right === question.pairs[position].right);
+
+    default: {
+      const correctSet = new Set(
+        question.options
+          .map((opt, idx) => (opt.isCorrect ? idx : null))
+          .filter(idx => idx !== null)
+      );
+      const selectedSet = new Set(selectedOptions);
+
+      if (question.type !== 'multiple') {
+        return selectedSet.size === 1 && correctSet.has([...selectedSet][0]);
+      }
+      return selectedSet.size === correctSet.size && [...selectedSet].every(idx => correctSet.has(idx));
+    }
+  }
+}
+
+/**
+ * Tokens standing for the ordering items or matches of a question,
+ * by authored position
+ * Keyed to the attempt, so they mean nothing outside it.
+ * @param {Object} attempt
+ * @param {Object} question - Ordering or matching question
+ * @returns {string[]}
+ */
+function itemTokens(attempt, question) {
+  const items = question.type === 'matching' ? question.pairs : question.options;
+  return items.map((_, idx) =>
+    crypto
+      .createHmac('sha256', process.env.JWT_SECRET)
+      .update(`quiz-item:${attempt._id}:${question._id}:${idx}`)
+      .digest('base64url')
+      .slice(0, 16)
+  );
+}
+
+/**
+ * One answer cleaned up for its question
+ * @param {Object} question
+ * @param {Object} answer - As sent by the client
+ * @param {string[]} [tokens] - itemTokens() of ordering and matching questions
+ * @returns {{selectedOptions: number[], textAnswer?: string}|null} null when it doesn't fit the question
+ */
+function normalizeAnswer(question, answer, tokens) {
+  if (TEXT_ANSWER_TYPES.includes(question.type)) {
+    if (typeof answer.textAnswer !== 'string') return null;
+    return { selectedOptions: [], textAnswer: answer.textAnswer.slice(0, MAX_TEXT_ANSWER) };
+  }
+
+  if (TOKEN_TYPES.includes(question.type)) {
+    if (!Array.isArray(answer.selectedItems)) return null;
+    const positions = answer.selectedItems.map(token => tokens.indexOf(token));
+
+    // Matching keeps a slot per left item, -1 where nothing is chosen yet
+    if (question.type === 'matching') {
+      return { selectedOptions: question.pairs.map((_, position) => positions[position] ?? -1) };
+    }
+    return { selectedOptions: [...new Set(positions)].filter(idx => idx >= 0) };
+  }
+
+  if (!Array.isArray(answer.selectedOptions)) return null;
+
+  return {
+    selectedOptions: [...new Set(answer.selectedOptions)]
+      .filter(idx => Number.isInteger(idx) && idx >= 0 && idx < question.options.length)
+  };
+}
+
+/**
+ * Answers sent by the client, keyed by question
+ * Unknown questions and answers that don't fit their question are dropped.
+ * @param {Object} attempt
+ * @param {Array<Object>} questions - Questions of the attempt
+ * @param {Array<{questionId: string, selectedOptions?: number[], selectedItems?: string[], textAnswer?: string}>} answers
+ * @returns {Map<string, {selectedOptions: number[], textAnswer?: string}>}
+ */
+function normalizeAnswers(attempt, questions, answers = []) {
+  const byQuestion = new Map();
+  answers.forEach(answer => {
+    const question = questions.id(answer?.questionId);
+    if (!question) return;
+
+    const tokens = TOKEN_TYPES.includes(question.type) ? itemTokens(attempt, question) : undefined;
+    const normalized = normalizeAnswer(question, answer, tokens);
+    if (normalized) byQuestion.set(String(question._id), normalized);
+  });
+  return byQuestion;
+}
+
+function savedAnswers(attempt) {
+  return new Map(attempt.answers.map(answer => [
+    String(answer.questionId),
+    { selectedOptions: answer.selectedOptions, textAnswer: answer.textAnswer }
+  ]));
+}
+
+/**
+ * Total up the points earned so far
+ * @param {Object} attempt - QuizAttempt document, updated in place
+ * @param {number} passingScore
+ */
+function recalculateScore(attempt, passingScore) {
+  attempt.earnedPoints = attempt.answers.reduce((sum, answer) => sum + (answer.pointsEarned || 0), 0);
+  attempt.pendingReview = attempt.answers.some(answer => answer.needsReview);
+  attempt.calculateScore();
+  attempt.checkPassed(passingScore);
+}
+
+/**
+ * Grade one answer, honouring the quiz's override for the question
+ * @param {Object} question - Quiz question
+ * @param {{selectedOptions?: number[], textAnswer?: string}} answer
+ * @param {Object} quiz
+ * @returns {{isCorrect: boolean, pointsEarned: number, needsReview: boolean}}
+ */
+function gradeAnswer(question, answer, quiz) {
+  const override = quiz.scoreOverride(question._id);
+  if (override !== null) {
+    const pointsEarned = Math.min(override, question.points);
+    return { isCorrect: pointsEarned === question.points, pointsEarned, needsReview: false };
+  }
+
+  const result = hasAnswer(answer) ? gradeQuestion(question, answer) : false;
+  return {
+    isCorrect: result === true,
+    pointsEarned: result === true ? question.points : 0,
+    needsReview: result === null
+  };
+}
+
+/**
+ * Grade answers against every question of the attempt
+ * @param {Object} attempt - QuizAttempt document, updated in place
+ * @param {Object} quiz
+ * @param {Map<string, {selectedOptions: number[], textAnswer?: string}>} answers
+ */
+function gradeAttempt(attempt, quiz, answers) {
+  const questions = questionSet(attempt, quiz);
+
+  attempt.answers = questions.map(question => {
+    const answer = answers.get(String(question._id)) || { selectedOptions: [] };
+
+    return {
+      questionId: question._id,
+      questionText: question.question,
+      selectedOptions: answer.selectedOptions,
+      textAnswer: answer.textAnswer,
+      ...gradeAnswer(question, answer, quiz)
+    };
+  });
+
+  attempt.totalPoints = questions.reduce((sum, question) => sum + question.points, 0);
+  recalculateScore(attempt, quiz.passingScore);
+}
+
+/**
+ * Grade and close an attempt
+ * A late submit is ignored in favour of the answers saved before the
+ * deadline. An attempt the server closes is submitted when anything was
+ * answered and expired otherwise.
+ * @param {Object} attempt - In-progress QuizAttempt document
+ * @param {Object} quiz
+ * @param {Array} [answers] - Answers sent with the submit; the saved ones when omitted
+ * @returns {Promise<Object>} Finalized attempt
+ */
+async function finalizeAttempt(attempt, quiz, answers) {
+  const overdue = isOverdue(attempt);
+  const graded = overdue || !answers ? savedAnswers(attempt) : normalizeAnswers(attempt, questionSet(attempt, quiz), answers);
+
+  gradeAttempt(attempt, quiz, graded);
+
+  const answeredAny = attempt.answers.some(hasAnswer);
+  attempt.autoSubmitted = overdue;
+  attempt.markAsSubmitted(attempt.autoSubmitted && !answeredAny ? 'expired' : 'submitted');
+
+  await attempt.save();
+
+  logger.info('Quiz attempt finalized', {
+    studentId: attempt.student,
+    quizId: quiz._id,
+    attemptId: attempt._id,
+    status: attempt.status,
+    autoSubmitted: attempt.autoSubmitted,
+    pendingReview: attempt.pendingReview,
+    score: attempt.score
+  });
+
+  await refreshAttemptItemStats(attempt);
+
+  return attempt;
+}
+
+/**
+ * Autosave the answers of an in-progress attempt
+ * @param {Object} attempt - In-progress QuizAttempt document
+ * @param {Object} quiz
+ * @param {Array<{questionId: string, selectedOptions?: number[], selectedItems?: string[], textAnswer?: string}>} answers
+ * @returns {Promise<Object>} Saved attempt
+ * @throws {AppError} 409 ATTEMPT_EXPIRED when time ran out; the attempt is finalized
+ */
+async function saveAnswers(attempt, quiz, answers) {
+  if (isOverdue(attempt)) {
+    await finalizeAttempt(attempt, quiz);
+    throw new AppError('Time is up; your attempt has been submitted', 409, 'ATTEMPT_EXPIRED');
+  }
+
+  const questions = questionSet(attempt, quiz);
+  const normalized = normalizeAnswers(attempt, questions, answers);
+  attempt.answers = [...normalized].map(([questionId, answer]) => ({
+    questionId,
+    questionText: questions.id(questionId).question,
+    selectedOptions: answer.selectedOptions,
+    textAnswer: answer.textAnswer
+  }));
+  attempt.lastSavedAt = new Date();
+
+  await attempt.save();
+  return attempt;
+}
+
+/**
+ * A student's running attempt at a quiz
+ * An attempt whose time ran out is finalized instead.
+ * @param {string} studentId
+ * @param {Object} quiz
+ * @returns {Promise<Object|null>} In-progress attempt, if any
+ */
+async function findInProgress(studentId, quiz) {
+  const attempt = await QuizAttempt.findOne({
+    student: studentId,
+    quiz: quiz._id,
+    status: 'in_progress'
+  });
+
+  if (attempt && isOverdue(attempt)) {
+    await finalizeAttempt(attempt, quiz);
+    return null;
+  }
+  return attempt;
+}
+
+/**
+ * Finalize every attempt whose time ran out
+ * @param {Date} now
+ * @returns {Promise<number>} Number of attempts finalized
+ */
+async function finalizeOverdueAttempts(now) {
+  const overdue = await QuizAttempt.find({
+    status: 'in_progress',
+    expiresAt: { $ne: null, $lt: new Date(now.getTime() - GRACE_SECONDS * 1000) }
+  });
+
+  const quizzes = new Map();
+  let count = 0;
+  for (const attempt of overdue) {
+    const key = String(attempt.quiz);
+    if (!quizzes.has(key)) {
+      quizzes.set(key, await Quiz.findById(attempt.quiz));
+    }
+    const quiz = quizzes.get(key);
+    if (!quiz) continue;
+
+    await finalizeAttempt(attempt, quiz);
+    count += 1;
+  }
+  return count;
+}
+
+// Order-revealing lists go out shuffled
+const shuffled = (items) => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+/**
+ * A question as students see it, without anything that gives the answer away
+ * Ordering items and matches are only handed out with an attempt, under
+ * its tokens.
+ * @param {Object} q - Quiz question
+ * @param {Object} [attempt]
+ * @returns {Object}
+ */
+function toStudentQuestion(q, attempt) {
+  const question = {
+    _id: q._id,
+    question: q.question,
+    type: q.type,
+    points: q.points,
+    options: []
+  };
+
+  switch (q.type) {
+    case 'ordering': {
+      const tokens = attempt ? itemTokens(attempt, q) : [];
+      question.items = shuffled(tokens.map((token, idx) => ({ token, text: q.options[idx].text })));
+      break;
+    }
+    case 'matching': {
+      const tokens = attempt ? itemTokens(attempt, q) : [];
+      question.prompts = q.pairs.map(pair => pair.left);
+      question.matches = shuffled(tokens.map((token, idx) => ({ token, text: q.pairs[idx].right })));
+      break;
+    }
+    case 'code_output':
+      question.code = q.code;
+      question.language = q.language;
+      break;
+    default:
+      question.options = q.options.map((opt, idx) => ({
+        index: idx,
+        text: opt.text
+      }));
+  }
+  return question;
+}
+
+/**
+ * An answer as the client keeps it: ordering and matching by token
+ * @param {Object} question
+ * @param {Object} answer - Attempt answer
+ * @param {Object} attempt
+ * @returns {Object}
+ */
+function toClientAnswer(question, answer, attempt) {
+  if (!question || !TOKEN_TYPES.includes(question.type)) {
+    return { questionId: answer.questionId, selectedOptions: answer.selectedOptions, textAnswer: answer.textAnswer };
+  }
+  const tokens = itemTokens(attempt, question);
+  return {
+    questionId: answer.questionId,
+    selectedOptions: [],
+    selectedItems: answer.selectedOptions.map(idx => tokens[idx] ?? '')
+  };
+}
+
+/**
+ * What the client needs to resume an attempt, questions included
+ * @param {Object} attempt
+ * @param {Object} quiz
+ * @returns {Object}
+ */
+function attemptState(attempt, quiz) {
+  const questions = questionSet(attempt, quiz);
+  return {
+    attemptId: attempt._id,
+    attemptNumber: attempt.attemptNumber,
+    startedAt: attempt.startedAt,
+    expiresAt: attempt.expiresAt,
+    remainingSeconds: remainingSeconds(attempt),
+    lastSavedAt: attempt.lastSavedAt,
+    answers: attempt.answers.map(answer => toClientAnswer(questions.id(answer.questionId), answer, attempt)),
+    questions: questions.map(question => toStudentQuestion(question, attempt))
+  };
+}
+
+/**
+ * The right answer of a non-choice question, for feedback
+ * @param {Object} question
+ * @returns {string|null} null for choice questions and essays
+ */
+function describeCorrectAnswer(question) {
+  switch (question.type) {
+    case 'numeric':
+      return question.tolerance ? `${question.numericAnswer} ± ${question.tolerance}` : String(question.numericAnswer);
+    case 'short_text':
+      return question.acceptedAnswers.join(' / ');
+    case 'code_output':
+      return question.acceptedAnswers[0] || null;
+    case 'ordering':
+      return question.options.map(opt => opt.text).join(' → ');
+    case 'matching':
+      return question.pairs.map(pair => `${pair.left} → ${pair.right}`).join('; ');
+    default:
+      return null;
+  }
+}
+
+/**
+ * Feedback on one graded answer
+ * @param {Object} question - Quiz question
+ * @param {Object} answer - Attempt answer
+ * @returns {Object}
+ */
+function answerFeedback(question, answer) {
+  return {
+    questionId: answer.questionId,
+    question: answer.questionText,
+    type: question.type,
+    selectedOptions: answer.selectedOptions,
+    textAnswer: answer.textAnswer,
+    correctOptions: CHOICE_TYPES.includes(question.type)
+      ? question.options
+        .map((opt, idx) => (opt.isCorrect ? idx : null))
+        .filter(idx => idx !== null)
+      : [],
+    correctAnswer: describeCorrectAnswer(question),
+    isCorrect: answer.isCorrect,
+    pointsEarned: answer.pointsEarned,
+    points: question.points,
+    needsReview: answer.needsReview,
+    feedback: answer.feedback,
+    explanation: question.explanation
+  };
+}
+
+/**
+ * Grade answers by hand: essays from the review queue, or any answer a
+ * trainer overrides for this attempt
+ * The caller checks the points are within each question's.
+ * @param {Object} attempt - Submitted QuizAttempt document
+ * @param {Object} quiz
+ * @param {Array<{questionId: string, pointsEarned: number, feedback?: string}>} grades
+ * @param {string} reviewerId
+ * @returns {Promise<Object>} Saved attempt
+ */
+async function reviewAnswers(attempt, quiz, grades, reviewerId) {
+  const reviewedAt = new Date();
+  grades.forEach(grade => {
+    const answer = attempt.answers.find(a => String(a.questionId) === String(grade.questionId));
+    const question = questionSet(attempt, quiz).id(grade.questionId);
+
+    answer.pointsEarned = grade.pointsEarned;
+    answer.isCorrect = grade.pointsEarned === question.points;
+    answer.needsReview = false;
+    answer.feedback = grade.feedback;
+    answer.reviewedBy = reviewerId;
+    answer.reviewedAt = reviewedAt;
+  });
+
+  recalculateScore(attempt, quiz.passingScore);
+  await attempt.save();
+
+  logger.info('Quiz answers reviewed', {
+    attemptId: attempt._id,
+    quizId: quiz._id,
+    reviewerId,
+    answers: grades.length,
+    score: attempt.score,
+    pendingReview: attempt.pendingReview
+  });
+
+  await refreshAttemptItemStats(attempt);
+
+  return attempt;
+}
+
+/**
+ * Fix the points everyone earns on a question, or go back to normal
+ * grading, and regrade every finished attempt that has the question
+ * Clearing an override grades answers automatically again; essays go back
+ * to the review queue.
+ * @param {Object} quiz - Quiz document, saved with the new override
+ * @param {string} questionId
+ * @param {number|null} pointsEarned - null clears the override
+ * @param {string} trainerId
+ * @returns {Promise<{regraded: number, reviewed: Array<Object>}>} How many attempts
+ *   were regraded, and those that no longer wait for review
+ */
+async function overrideQuestionScore(quiz, questionId, pointsEarned, trainerId) {
+  quiz.scoreOverrides = quiz.scoreOverrides.filter(o => String(o.questionId) !== String(questionId));
+  if (pointsEarned !== null) {
+    quiz.scoreOverrides.push({ questionId, pointsEarned, setBy: trainerId, setAt: new Date() });
+  }
+  await quiz.save();
+
+  const attempts = await QuizAttempt.find({
+    quiz: quiz._id,
+    status: { $in: QuizAttempt.FINISHED_STATUSES },
+    'answers.questionId': questionId
+  });
+
+  const reviewed = [];
+  const now = new Date();
+  let regraded = 0;
+  for (const attempt of attempts) {
+    const question = questionSet(attempt, quiz).id(questionId);
+    const answer = attempt.answers.find(a => String(a.questionId) === String(questionId));
+    if (!question || !answer) continue;
+
+    const wasPending = attempt.pendingReview;
+    Object.assign(answer, gradeAnswer(question, answer, quiz));
+    answer.reviewedBy = pointsEarned !== null ? trainerId : undefined;
+    answer.reviewedAt = pointsEarned !== null ? now : undefined;
+
+    recalculateScore(attempt, quiz.passingScore);
+    await attempt.save();
+    await refreshAttemptItemStats(attempt);
+    regraded += 1;
+    if (wasPending && !attempt.pendingReview) reviewed.push(attempt);
+  }
+
+  logger.info('Quiz question score overridden', {
+    quizId: quiz._id,
+    questionId,
+    pointsEarned,
+    trainerId,
+    attempts: regraded
+  });
+
+  return { regraded, reviewed };
+}
+
+module.exports = {
+  GRACE_SECONDS,
+  TEXT_ANSWER_TYPES,
+  CHOICE_TYPES,
+  questionSet,
+  attemptDeadline,
+  remainingSeconds,
+  hasAnswer,
+  gradeQuestion,
+  finalizeAttempt,
+  saveAnswers,
+  findInProgress,
+  finalizeOverdueAttempts,
+  toStudentQuestion,
+  attemptState,
+  answerFeedback,
+  reviewAnswers,
+  overrideQuestionScore
+};
@@ -0,0 +1,957 @@
+/**
+ * Quiz Formats Service
+ *
+ * Import and export of quiz questions as GIFT, Moodle XML and CSV, so
+ * question sets can move between courses, Moodle and spreadsheets.
+ *
+ * A file can hold several quizzes: GIFT and Moodle XML mark each with a
+ * category ("$CATEGORY: $course$/Robotics 101/Motors quiz"; the last part
+ * names the quiz), CSV with the Quiz column. Questions before any
+ * category belong to one untitled quiz.
+ *
+ * CSV layout (the header row is required; headers match loosely, so
+ * "Case Sensitive" and "caseSensitive" both work). One row per question:
+ * - Quiz: quiz title; rows with the same title form one quiz
+ * - Type: single, multiple, true_false, numeric, short_text, ordering,
+ *   matching, code_output or essay
+ * - Question: question text (required)
+ * - Points: defaults to 1
+ * - Options: list of choices (single, multiple), items in their correct
+ *   order (ordering), or "left -> right" pairs (matching)
+ * - Answer: numbers of the correct options counting from 1 (single,
+ *   multiple), true or false (true_false), the number (numeric), or the
+ *   accepted answers (short_text, code_output); blank otherwise
+ * - Tolerance: numeric only, accepted distance from the answer
+ * - Case Sensitive: yes or no, short_text only
+ * - Code, Language: code_output only, the snippet and its language
+ * - Explanation: shown after submission; grading notes for essays
+ * Lists separate items with "|"; write "\|" for a literal bar.
+ * XLSX sheets with the same columns import too.
+ *
+ * Formats differ in what they can hold:
+ * - GIFT has no points, case sensitivity or ordering questions; ordering
+ *   questions are left out of GIFT exports with a comment saying so
+ * - Code output questions travel as short answer questions with the code
+ *   in a fenced (GIFT) or <pre> (Moodle XML) block, which is read back
+ * - Ordering uses the Moodle ordering question plugin's XML
+ */
+
+const path = require('path');
+const Quiz = require('../models/Quiz');
+const { pickQuestionFields } = require('./questionBank.service');
+const { BadRequestError } = require('../utils/errors');
+const { readSheet } = require('../utils/sheetImport');
+const { sendReport } = require('../utils/reportExport');
+const { decodeEntities, escapeXml, parseXml, child, childrenNamed, childText } = require('../utils/xmlReader');
+
+// csv and xlsx share the QUIZ_CSV_COLUMNS layout
+const QUIZ_FORMATS = ['gift', 'moodle_xml', 'csv', 'xlsx'];
+
+const FORMAT_BY_EXTENSION = {
+  '.gift': 'gift',
+  '.txt': 'gift',
+  '.xml': 'moodle_xml',
+  '.csv': 'csv',
+  '.xlsx': 'xlsx'
+};
+
+const IMPORT_EXTENSIONS = Object.keys(FORMAT_BY_EXTENSION);
+
+const QUIZ_CSV_COLUMNS = [
+  { header: 'Quiz', key: 'quiz', width: 24 },
+  { header: 'Type', key: 'type', width: 12 },
+  { header: 'Question', key: 'question', width: 50 },
+  { header: 'Points', key: 'points' },
+  { header: 'Options', key: 'options', width: 40 },
+  { header: 'Answer', key: 'answer', width: 20 },
+  { header: 'Tolerance', key: 'tolerance' },
+  { header: 'Case Sensitive', key: 'caseSensitive' },
+  { header: 'Code', key: 'code', width: 30 },
+  { header: 'Language', key: 'language' },
+  { header: 'Explanation', key: 'explanation', width: 40 }
+];
+
+// Headers are matched loosely: "Case Sensitive", "case_sensitive" and "caseSensitive" all work
+const normalizeHeader = (header) => String(header).toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const COLUMN_BY_HEADER = new Map(
+  QUIZ_CSV_COLUMNS.flatMap(col => [
+    [normalizeHeader(col.header), col.key],
+    [normalizeHeader(col.key), col.key]
+  ])
+);
+
+// Spellings of types people write in sheets
+const TYPE_ALIASES = {
+  singlechoice: 'single',
+  multiplechoice: 'multiple',
+  truefalse: 'true_false',
+  number: 'numeric',
+  numerical: 'numeric',
+  shortanswer: 'short_text',
+  shorttext: 'short_text',
+  codeoutput: 'code_output'
+};
+
+const UNTITLED = 'Imported quiz';
+
+/* ----------------------------------------------------------------------------
+ * Shared helpers
+ * ------------------------------------------------------------------------- */
+
+// Split on a one-character separator not preceded by a backslash
+function splitUnescaped(text, separator) {
+  const parts = [];
+  let current = '';
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\' && i + 1 < text.length) {
+      current += text[i] + text[i + 1];
+      i++;
+    } else if (text[i] === separator) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += text[i];
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+// Index of the first unescaped occurrence of a string, or -1
+function indexOfUnescaped(text, search, from = 0) {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') {
+      i++;
+    } else if (text.startsWith(search, i)) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Plain text of an HTML fragment; a <pre> block is taken out as code
+ * @param {string} html
+ * @returns {{ text: string, code?: string, language?: string }}
+ */
+function htmlToText(html) {
+  let code;
+  let language;
+  const withoutCode = html.replace(/<pre[^>]*>([\s\S]*?)<\/pre>/i, (match, inner) => {
+    language = inner.match(/class="[^"]*language-([\w+#-]+)/i)?.[1];
+    code = decodeEntities(inner.replace(/<[^>]+>/g, '')).replace(/\n$/, '');
+    return '\n';
+  });
+
+  const text = decodeEntities(
+    withoutCode
+      .replace(/<br\s*\/?>/gi, '\n')
+      .replace(/<\/(p|div|li|h\d)>/gi, '\n')
+      .replace(/<[^>]+>/g, '')
+  )
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+  return { text, code, language };
+}
+
+function textToHtml(text) {
+  return escapeXml(text).split('\n').map(line => line || '&nbsp;').join('<br>');
+}
+
+// Last part of a Moodle category path, e.g. "$course$/top/Motors quiz"
+function categoryTitle(category) {
+  const parts = category.split('/').map(part => part.trim()).filter(part => part && !/^\$\w+\$$/.test(part));
+  const last = parts[parts.length - 1];
+  return last && last.toLowerCase() !== 'top' ? last : UNTITLED;
+}
+
+// Quizzes in file order, created as their titles come up
+function quizCollector() {
+  const quizzes = [];
+  let current = null;
+  return {
+    quizzes,
+    start(title) {
+      current = quizzes.find(quiz => quiz.title === title);
+      if (!current) {
+        current = { title, questions: [], errors: [] };
+        quizzes.push(current);
+      }
+    },
+    get current() {
+      if (!current) this.start(UNTITLED);
+      return current;
+    }
+  };
+}
+
+/* ----------------------------------------------------------------------------
+ * GIFT
+ * ------------------------------------------------------------------------- */
+
+const unescapeGift = (text) => text.replace(/\\(n|[~=#{}:\\])/g, (match, char) => (char === 'n' ? '\n' : char)).trim();
+
+const escapeGift = (text) => String(text ?? '').replace(/([~=#{}:\\])/g, '\\$1').replace(/\r?\n/g, '\\n');
+
+// Strip an answer's "#feedback" and "%weight%"
+function readGiftAnswer(raw) {
+  const feedbackAt = indexOfUnescaped(raw, '#');
+  let text = (feedbackAt === -1 ? raw : raw.slice(0, feedbackAt)).trim();
+  let weight = null;
+  const weighted = text.match(/^%(-?\d+(?:\.\d+)?)%/);
+  if (weighted) {
+    weight = Number(weighted[1]);
+    text = text.slice(weighted[0].length).trim();
+  }
+  return { text, weight };
+}
+
+// Tokens of "=a ~b =c" answer lists
+function giftAnswerTokens(body) {
+  const tokens = [];
+  for (let i = 0; i < body.length; i++) {
+    if (body[i] === '\\') {
+      if (tokens.length > 0) tokens[tokens.length - 1].raw += body[i] + (body[i + 1] || '');
+      i++;
+    } else if (body[i] === '=' || body[i] === '~') {
+      tokens.push({ mark: body[i], raw: '' });
+    } else if (tokens.length > 0) {
+      tokens[tokens.length - 1].raw += body[i];
+    } else if (body[i].trim()) {
+      return null;
+    }
+  }
+  return tokens;
+}
+
+// "1.5:0.1", "1..2" or "1.5" into an answer and tolerance
+function readGiftNumber(text) {
+  if (!text) throw new Error('has no correct number');
+  const range = text.match(/^(-?[\d.]+)\.\.(-?[\d.]+)$/);
+  if (range) {
+    const [min, max] = [Number(range[1]), Number(range[2])];
+    return { numericAnswer: (min + max) / 2, tolerance: Math.abs(max - min) / 2 };
+  }
+  const [value, tolerance = '0'] = text.split(':');
+  return { numericAnswer: Number(value), tolerance: Number(tolerance) };
+}
+
+/**
+ * One GIFT question from its block of text
+ * @returns {Object} Question fields
+ * @throws {Error} With the reason the block can't be read
+ */
+function parseGiftQuestion(block) {
+  let source = block;
+
+  const titled = source.match(/^::([\s\S]*?)::/);
+  if (titled) source = source.slice(titled[0].length);
+
+  let format = 'moodle';
+  const formatted = source.trim().match(/^\[(html|moodle|plain|markdown)\]/i);
+  if (formatted) {
+    format = formatted[1].toLowerCase();
+    source = source.trim().slice(formatted[0].length);
+  }
+
+  const open = indexOfUnescaped(source, '{');
+  const close = open === -1 ? -1 : indexOfUnescaped(source, '}', open);
+  if (open === -1 || close === -1) {
+    throw new Error('has no {answer} block');
+  }
+
+  const before = unescapeGift(source.slice(0, open));
+  const after = unescapeGift(source.slice(close + 1));
+  let text = after ? `${before} _____ ${after}` : before;
+  let code;
+  let language;
+
+  if (format === 'html') {
+    ({ text, code, language } = htmlToText(text));
+  } else {
+    text = text.replace(/```([\w+#-]*)\n([\s\S]*?)\n?```/, (match, lang, snippet) => {
+      language = lang || undefined;
+      code = snippet;
+      return '';
+    }).trim();
+  }
+
+  let body = source.slice(open + 1, close);
+  let explanation;
+  const generalAt = indexOfUnescaped(body, '####');
+  if (generalAt !== -1) {
+    explanation = unescapeGift(body.slice(generalAt + 4));
+    body = body.slice(0, generalAt);
+  }
+  body = body.trim();
+
+  const question = { question: text || unescapeGift(titled?.[1] || ''), explanation };
+
+  if (body === '') {
+    return { ...question, type: 'essay' };
+  }
+
+  const trueFalse = body.match(/^(T|TRUE|F|FALSE)(\s*#[\s\S]*)?$/i);
+  if (trueFalse) {
+    const isTrue = /^t/i.test(trueFalse[1]);
+    return {
+      ...question,
+      type: 'true_false',
+      options: [{ text: 'True', isCorrect: isTrue }, { text: 'False', isCorrect: !isTrue }]
+    };
+  }
+
+  if (body.startsWith('#')) {
+    const numeric = body.slice(1).trim();
+    const tokens = numeric.startsWith('=') ? giftAnswerTokens(numeric) : [{ mark: '=', raw: numeric }];
+    const answer = tokens && tokens.map(token => readGiftAnswer(token.raw))
+      .find(candidate => candidate.weight === null || candidate.weight >= 100);
+    if (!answer) throw new Error('has no correct number');
+    return { ...question, type: 'numeric', ...readGiftNumber(answer.text) };
+  }
+
+  const tokens = giftAnswerTokens(body);
+  if (!tokens || tokens.length === 0) {
+    throw new Error('has answers GIFT can\'t read');
+  }
+  const answers = tokens.map(token => ({ mark: token.mark, ...readGiftAnswer(token.raw) }));
+
+  if (answers.every(answer => answer.mark === '=')) {
+    if (answers.some(answer => indexOfUnescaped(answer.text, '->') !== -1)) {
+      return {
+        ...question,
+        type: 'matching',
+        pairs: answers.map(answer => {
+          const at = indexOfUnescaped(answer.text, '->');
+          return at === -1
+            ? { left: unescapeGift(answer.text), right: '' }
+            : { left: unescapeGift(answer.text.slice(0, at)), right: unescapeGift(answer.text.slice(at + 2)) };
+        })
+      };
+    }
+    const acceptedAnswers = answers.map(answer => unescapeGift(answer.text));
+    return code !== undefined
+      ? { ...question, type: 'code_output', code, language, acceptedAnswers }
+      : { ...question, type: 'short_text', acceptedAnswers };
+  }
+
+  // Weighted answers make a multiple choice question; otherwise "=" marks the one right answer
+  const weighted = answers.some(answer => answer.weight !== null);
+  const options = answers.map(answer => ({
+    text: unescapeGift(answer.text),
+    isCorrect: answer.mark === '=' || (answer.weight !== null && answer.weight > 0)
+  }));
+  return { ...question, type: weighted ? 'multiple' : 'single', options };
+}
+
+/**
+ * Read GIFT text into quizzes
+ * Blocks are separated by blank lines; a block that can't be read is
+ * reported with its line and skipped.
+ * @param {string} text
+ * @returns {Array<{title: string, questions: Array<Object>, errors: string[]}>}
+ */
+function parseGift(text) {
+  const collector = quizCollector();
+  const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/);
+  let block = [];
+  let blockLine = 0;
+
+  const flush = () => {
+    const content = block.join('\n').trim();
+    block = [];
+    if (!content) return;
+
+    // A category line may share its block with the first question
+    let question = content;
+    const category = content.match(/^\$CATEGORY:\s*(.*)$/m);
+    if (category && content.startsWith('$CATEGORY')) {
+      collector.start(categoryTitle(category[1]));
+      question = content.slice(category[0].length).trim();
+      if (!question) return;
+    }
+
+    try {
+      collector.current.questions.push(parseGiftQuestion(question));
+    } catch (error) {
+      collector.current.errors.push(`Line ${blockLine}: the question ${error.message}`);
+    }
+  };
+
+  lines.forEach((line, index) => {
+    if (/^\s*\/\//.test(line)) return;
+    if (line.trim() === '') {
+      flush();
+      return;
+    }
+    if (block.length === 0) blockLine = index + 1;
+    block.push(line);
+  });
+  flush();
+
+  return collector.quizzes;
+}
+
+function giftQuestion(question, index) {
+  const lines = [];
+  let text = escapeGift(question.question);
+  let format = '';
+
+  if (question.type === 'code_output') {
+    // Fences keep the code apart from the text when read back
+    format = '[markdown]';
+    text = `${text}\\n\\n\`\`\`${escapeGift(question.language)}\\n${escapeGift(question.code)}\\n\`\`\``;
+  }
+
+  const general = question.explanation ? `####${escapeGift(question.explanation)}` : '';
+  const head = `::Q${index + 1}:: ${format}${text}`;
+
+  switch (question.type) {
+    case 'single':
+      lines.push(`${head} {`);
+      question.options.forEach(opt => lines.push(`  ${opt.isCorrect ? '=' : '~'}${escapeGift(opt.text)}`));
+      break;
+    case 'multiple': {
+      const correct = question.options.filter(opt => opt.isCorrect).length;
+      const share = Math.floor((100 / Math.max(correct, 1)) * 100000) / 100000;
+      lines.push(`${head} {`);
+      question.options.forEach(opt => lines.push(`  ~%${opt.isCorrect ? share : -100}%${escapeGift(opt.text)}`));
+      break;
+    }
+    case 'true_false': {
+      const isTrue = question.options.find(opt => opt.isCorrect)?.text.toLowerCase() === 'true';
+      lines.push(`${head} {${isTrue ? 'TRUE' : 'FALSE'}${general}}`);
+      return lines.join('\n');
+    }
+    case 'numeric':
+      lines.push(`${head} {#${question.numericAnswer}:${question.tolerance || 0}${general}}`);
+      return lines.join('\n');
+    case 'short_text':
+    case 'code_output':
+      lines.push(`${head} {`);
+      question.acceptedAnswers.forEach(answer => lines.push(`  =${escapeGift(answer)}`));
+      break;
+    case 'matching':
+      lines.push(`${head} {`);
+      question.pairs.forEach(pair => lines.push(`  =${escapeGift(pair.left)} -> ${escapeGift(pair.right)}`));
+      break;
+    case 'essay':
+      lines.push(`${head} {${general}}`);
+      return lines.join('\n');
+    default:
+      return null;
+  }
+
+  if (general) lines.push(`  ${general}`);
+  lines.push('}');
+  return lines.join('\n');
+}
+
+/**
+ * Quizzes as GIFT text
+ * @param {Array<Object>} quizzes - With course populated or courseTitle given
+ * @param {string} courseTitle
+ * @returns {string}
+ */
+function toGift(quizzes, courseTitle) {
+  const sections = quizzes.map(quiz => {
+    const blocks = [`$CATEGORY: $course$/${courseTitle}/${quiz.title}`];
+    quiz.questions.forEach((question, index) => {
+      const block = giftQuestion(question, index);
+      blocks.push(block || `// Question ${index + 1} left out: GIFT has no ${question.type} questions`);
+    });
+    return blocks.join('\n\n');
+  });
+  return `// ${courseTitle}, exported ${new Date().toISOString().slice(0, 10)}\n\n${sections.join('\n\n')}\n`;
+}
+
+/* ----------------------------------------------------------------------------
+ * Moodle XML
+ * ------------------------------------------------------------------------- */
+
+const fractionOf = (answer) => Number(answer.attrs.fraction || 0);
+
+/**
+ * One quiz question from a Moodle <question> element
+ * @returns {Object} Question fields
+ * @throws {Error} With the reason it can't be read
+ */
+function readMoodleQuestion(element) {
+  const type = element.attrs.type;
+  const body = child(element, 'questiontext');
+  const html = childText(element, 'questiontext');
+  const { text, code, language } = body?.attrs.format === 'html' || /<[a-z]/i.test(html)
+    ? htmlToText(html)
+    : { text: html };
+  const feedback = htmlToText(childText(element, 'generalfeedback') || childText(element, 'graderinfo')).text;
+  const points = Number(childText(element, 'defaultgrade'));
+
+  const question = {
+    question: text || childText(element, 'name'),
+    points: Number.isFinite(points) && points > 0 ? points : 1,
+    explanation: feedback || undefined
+  };
+  const answers = childrenNamed(element, 'answer');
+  const answerText = (answer) => htmlToText(childText(answer, 'text') || answer.text.trim()).text;
+
+  switch (type) {
+    case 'multichoice': {
+      const single = /^(true|1)$/i.test(childText(element, 'single'));
+      return {
+        ...question,
+        type: single ? 'single' : 'multiple',
+        options: answers.map(answer => ({
+          text: answerText(answer),
+          isCorrect: single ? fractionOf(answer) >= 100 : fractionOf(answer) > 0
+        }))
+      };
+    }
+    case 'truefalse': {
+      const right = answers.find(answer => fractionOf(answer) >= 100);
+      const isTrue = right ? answerText(right).toLowerCase() === 'true' : true;
+      return {
+        ...question,
+        type: 'true_false',
+        options: [{ text: 'True', isCorrect: isTrue }, { text: 'False', isCorrect: !isTrue }]
+      };
+    }
+    case 'numerical': {
+      const right = answers.find(answer => fractionOf(answer) >= 100) || answers[0];
+      if (!right) throw new Error('has no answer');
+      return {
+        ...question,
+        type: 'numeric',
+        numericAnswer: Number(answerText(right)),
+        tolerance: Number(childText(right, 'tolerance') || 0)
+      };
+    }
+    case 'shortanswer': {
+      const acceptedAnswers = answers.filter(answer => fractionOf(answer) >= 100).map(answerText);
+      return code !== undefined
+        ? { ...question, type: 'code_output', code, language, acceptedAnswers }
+        : { ...question, type: 'short_text', acceptedAnswers, caseSensitive: childText(element, 'usecase') === '1' };
+    }
+    case 'matching':
+      return {
+        ...question,
+        type: 'matching',
+        pairs: childrenNamed(element, 'subquestion').map(sub => ({
+          left: htmlToText(childText(sub, 'text')).text,
+          right: htmlToText(childText(sub, 'answer')).text
+        }))
+        // Moodle's extra wrong answers have no prompt; there is no place for them here
+          .filter(pair => pair.left)
+      };
+    case 'ordering':
+      return { ...question, type: 'ordering', options: answers.map(answer => ({ text: answerText(answer), isCorrect: false })) };
+    case 'essay':
+      return { ...question, type: 'essay' };
+    default:
+      throw new Error(`is a Moodle ${type || 'unknown'} question, which can't be imported`);
+  }
+}
+
+/**
+ * Read Moodle XML into quizzes
+ * @param {string} xml
+ * @returns {Array<{title: string, questions: Array<Object>, errors: string[]}>}
+ */
+function parseMoodleXml(xml) {
+  const root = parseXml(xml.replace(/^\uFEFF/, ''));
+  if (root.name !== 'quiz') {
+    throw new BadRequestError('This is not a Moodle XML question file (no <quiz> element)', 'INVALID_QUIZ_FILE');
+  }
+
+  const collector = quizCollector();
+  childrenNamed(root, 'question').forEach((element, index) => {
+    if (element.attrs.type === 'category') {
+      collector.start(categoryTitle(childText(element, 'category')));
+      return;
+    }
+    try {
+      collector.current.questions.push(readMoodleQuestion(element));
+    } catch (error) {
+      const name = childText(element, 'name');
+      collector.current.errors.push(`Question element ${index + 1}${name ? ` ("${name}")` : ''} ${error.message}`);
+    }
+  });
+  return collector.quizzes;
+}
+
+const xmlText = (value, indent = '') => `${indent}<text>${escapeXml(value)}</text>`;
+
+function moodleAnswer(fraction, text, extra = '') {
+  return [
+    `    <answer fraction="${fraction}" format="moodle_auto_format">`,
+    xmlText(text, '      '),
+    extra,
+    '    </answer>'
+  ].filter(Boolean).join('\n');
+}
+
+function moodleQuestion(question, index) {
+  const TYPES = {
+    single: 'multichoice',
+    multiple: 'multichoice',
+    true_false: 'truefalse',
+    numeric: 'numerical',
+    short_text: 'shortanswer',
+    code_output: 'shortanswer',
+    matching: 'matching',
+    ordering: 'ordering',
+    essay: 'essay'
+  };
+
+  let html = `<p>${textToHtml(question.question)}</p>`;
+  if (question.type === 'code_output') {
+    const lang = question.language ? ` class="language-${escapeXml(question.language)}"` : '';
+    html += `<pre><code${lang}>${escapeXml(question.code)}</code></pre>`;
+  }
+
+  const lines = [
+    `  <question type="${TYPES[question.type]}">`,
+    `    <name>${xmlText(`Q${index + 1} ${question.question.slice(0, 60)}`, '')}</name>`,
+    `    <questiontext format="html">${xmlText(html, '')}</questiontext>`,
+    `    <generalfeedback format="html">${xmlText(question.explanation ? textToHtml(question.explanation) : '', '')}</generalfeedback>`,
+    `    <defaultgrade>${question.points}</defaultgrade>`
+  ];
+
+  switch (question.type) {
+    case 'single':
+    case 'multiple': {
+      const correct = question.options.filter(opt => opt.isCorrect).length;
+      lines.push(`    <single>${question.type === 'single'}</single>`, '    <shuffleanswers>true</shuffleanswers>');
+      question.options.forEach(opt => {
+        const fraction = !opt.isCorrect ? 0 : question.type === 'single' ? 100 : Math.floor((100 / correct) * 100000) / 100000;
+        lines.push(moodleAnswer(fraction, opt.text));
+      });
+      break;
+    }
+    case 'true_false': {
+      const isTrue = question.options.find(opt => opt.isCorrect)?.text.toLowerCase() === 'true';
+      lines.push(moodleAnswer(isTrue ? 100 : 0, 'true'), moodleAnswer(isTrue ? 0 : 100, 'false'));
+      break;
+    }
+    case 'numeric':
+      lines.push(moodleAnswer(100, question.numericAnswer, `      <tolerance>${question.tolerance || 0}</tolerance>`));
+      break;
+    case 'short_text':
+    case 'code_output':
+      lines.push(`    <usecase>${question.type === 'short_text' && question.caseSensitive ? 1 : 0}</usecase>`);
+      question.acceptedAnswers.forEach(answer => lines.push(moodleAnswer(100, answer)));
+      break;
+    case 'matching':
+      lines.push('    <shuffleanswers>true</shuffleanswers>');
+      question.pairs.forEach(pair => {
+        lines.push(
+          '    <subquestion format="html">',
+          xmlText(pair.left, '      '),
+          `      <answer>${xmlText(pair.right, '')}</answer>`,
+          '    </subquestion>'
+        );
+      });
+      break;
+    case 'ordering':
+      // Moodle's ordering plugin lists the items in their correct order
+      question.options.forEach(opt => lines.push(moodleAnswer(1, opt.text)));
+      break;
+    case 'essay':
+      lines.push(
+        '    <responseformat>editor</responseformat>',
+        `    <graderinfo format="html">${xmlText(question.explanation ? textToHtml(question.explanation) : '', '')}</graderinfo>`
+      );
+      break;
+    default:
+      break;
+  }
+
+  lines.push('  </question>');
+  return lines.join('\n');
+}
+
+/**
+ * Quizzes as Moodle XML
+ * @param {Array<Object>} quizzes
+ * @param {string} courseTitle
+ * @returns {string}
+ */
+function toMoodleXml(quizzes, courseTitle) {
+  const parts = ['<?xml version="1.0" encoding="UTF-8"?>', '<quiz>'];
+  quizzes.forEach(quiz => {
+    parts.push(
+      '  <question type="category">',
+      `    <category>${xmlText(`$course$/${courseTitle}/${quiz.title}`, '')}</category>`,
+      '  </question>'
+    );
+    quiz.questions.forEach((question, index) => parts.push(moodleQuestion(question, index)));
+  });
+  parts.push('</quiz>', '');
+  return parts.join('\n');
+}
+
+/* ----------------------------------------------------------------------------
+ * CSV
+ * ------------------------------------------------------------------------- */
+
+const splitList = (value) => splitUnescaped(value, '|').map(item => item.replace(/\\\|/g, '|').trim()).filter(Boolean);
+
+const joinList = (items) => items.map(item => String(item).replace(/\|/g, '\\|')).join(' | ');
+
+function readCsvType(value) {
+  const key = value.toLowerCase().trim().replace(/[^a-z0-9]+/g, '_').replace(/^_|_$/g, '');
+  if (Quiz.QUESTION_TYPES.includes(key)) return key;
+  return TYPE_ALIASES[key.replace(/_/g, '')] || null;
+}
+
+/**
+ * One question from a sheet row
+ * @returns {Object} Question fields
+ * @throws {Error} With the reason the row can't be read
+ */
+function readCsvQuestion(fields) {
+  const type = fields.type ? readCsvType(fields.type) : 'single';
+  if (!type) throw new Error(`has an unknown type "${fields.type}"`);
+
+  const options = splitList(fields.options || '');
+  const answers = splitList(fields.answer || '');
+  const question = {
+    question: fields.question || '',
+    type,
+    explanation: fields.explanation || undefined
+  };
+  if (fields.points) {
+    question.points = Number(fields.points);
+    if (!(question.points > 0)) throw new Error('needs Points above 0');
+  }
+
+  switch (type) {
+    case 'single':
+    case 'multiple': {
+      const correct = answers.map(Number);
+      if (correct.some(number => !Number.isInteger(number) || number < 1 || number > options.length)) {
+        throw new Error(`has an Answer that isn't an option number from 1 to ${options.length}`);
+      }
+      question.options = options.map((text, idx) => ({ text, isCorrect: correct.includes(idx + 1) }));
+      break;
+    }
+    case 'true_false': {
+      const answer = (fields.answer || '').toLowerCase();
+      if (!['true', 'false', 't', 'f', 'yes', 'no'].includes(answer)) throw new Error('needs an Answer of true or false');
+      const isTrue = ['true', 't', 'yes'].includes(answer);
+      question.options = [{ text: 'True', isCorrect: isTrue }, { text: 'False', isCorrect: !isTrue }];
+      break;
+    }
+    case 'numeric':
+      question.numericAnswer = fields.answer === '' || fields.answer === undefined ? null : Number(fields.answer);
+      question.tolerance = fields.tolerance ? Number(fields.tolerance) : 0;
+      break;
+    case 'short_text':
+      question.acceptedAnswers = answers;
+      question.caseSensitive = /^(yes|y|true|1)$/i.test(fields.caseSensitive || '');
+      break;
+    case 'code_output':
+      question.acceptedAnswers = answers;
+      question.code = fields.code || '';
+      question.language = fields.language || '';
+      break;
+    case 'ordering':
+      question.options = options.map(text => ({ text, isCorrect: false }));
+      break;
+    case 'matching':
+      question.pairs = options.map(item => {
+        const at = item.indexOf('->');
+        return at === -1
+          ? { left: item, right: '' }
+          : { left: item.slice(0, at).trim(), right: item.slice(at + 2).trim() };
+      });
+      break;
+    default:
+      break;
+  }
+  return question;
+}
+
+/**
+ * Read sheet rows into quizzes, grouped by the Quiz column
+ * @param {Array<{line: number, values: Object}>} rows - From readSheet
+ * @returns {Array<{title: string, questions: Array<Object>, errors: string[]}>}
+ */
+function parseCsvRows(rows) {
+  const collector = quizCollector();
+
+  rows.forEach(({ line, values }) => {
+    const fields = {};
+    Object.entries(values).forEach(([header, value]) => {
+      const key = COLUMN_BY_HEADER.get(normalizeHeader(header));
+      if (key) fields[key] = value;
+    });
+
+    collector.start(fields.quiz || UNTITLED);
+    try {
+      collector.current.questions.push(readCsvQuestion(fields));
+    } catch (error) {
+      collector.current.errors.push(`Line ${line}: the question ${error.message}`);
+    }
+  });
+  return collector.quizzes;
+}
+
+/**
+ * Sheet rows for quizzes, in the QUIZ_CSV_COLUMNS layout
+ * @param {Array<Object>} quizzes
+ * @returns {Array<Object>}
+ */
+function buildCsvRows(quizzes) {
+  return quizzes.flatMap(quiz => quiz.questions.map(question => {
+    const row = {
+      quiz: quiz.title,
+      type: question.type,
+      question: question.question,
+      points: question.points,
+      explanation: question.explanation || ''
+    };
+
+    switch (question.type) {
+      case 'single':
+      case 'multiple':
+        row.options = joinList(question.options.map(opt => opt.text));
+        row.answer = question.options
+          .map((opt, idx) => (opt.isCorrect ? idx + 1 : null))
+          .filter(Boolean)
+          .join(' | ');
+        break;
+      case 'true_false':
+        row.answer = question.options.find(opt => opt.isCorrect)?.text.toLowerCase() === 'true' ? 'true' : 'false';
+        break;
+      case 'numeric':
+        row.answer = question.numericAnswer;
+        row.tolerance = question.tolerance || 0;
+        break;
+      case 'short_text':
+        row.answer = joinList(question.acceptedAnswers);
+        row.caseSensitive = question.caseSensitive ? 'yes' : 'no';
+        break;
+      case 'code_output':
+        row.answer = joinList(question.acceptedAnswers);
+        row.code = question.code;
+        row.language = question.language || '';
+        break;
+      case 'ordering':
+        row.options = joinList(question.options.map(opt => opt.text));
+        break;
+      case 'matching':
+        row.options = joinList(question.pairs.map(pair => `${pair.left} -> ${pair.right}`));
+        break;
+      default:
+        break;
+    }
+    return row;
+  }));
+}
+
+/* ----------------------------------------------------------------------------
+ * Import and export
+ * ------------------------------------------------------------------------- */
+
+/**
+ * Format of an uploaded quiz file, from its extension
+ * @param {string} filename
+ * @returns {string|null}
+ */
+const formatOfFile = (filename) => FORMAT_BY_EXTENSION[path.extname(filename || '').toLowerCase()] || null;
+
+/**
+ * Read an uploaded quiz file and check every quiz in it
+ *
+ * Questions are checked with Quiz#validateQuestions, as when saving;
+ * reasons a question couldn't be read at all come first. Nothing is
+ * written.
+ *
+ * @param {Object} file - Multer file (memory storage)
+ * @returns {Promise<{format: string, summary: Object, quizzes: Array<Object>}>}
+ * @throws {BadRequestError} When the file itself can't be read
+ */
+async function previewQuizImport(file) {
+  const format = formatOfFile(file.originalname);
+  if (!format) {
+    throw new BadRequestError(`Unsupported file type. Use one of: ${IMPORT_EXTENSIONS.join(', ')}`, 'INVALID_QUIZ_FILE');
+  }
+
+  let parsed;
+  if (format === 'csv' || format === 'xlsx') {
+    const { rows } = await readSheet(file);
+    parsed = parseCsvRows(rows);
+  } else {
+    const text = file.buffer.toString('utf8');
+    parsed = format === 'gift' ? parseGift(text) : parseMoodleXml(text);
+  }
+
+  const quizzes = parsed.map(({ title, questions, errors }) => {
+    // Cast through the schema so numbers, defaults and trimming match a save
+    const quiz = new Quiz({ title, questions });
+    const allErrors = [...errors, ...quiz.validateQuestions()];
+    if (questions.length === 0 && errors.length === 0) allErrors.push('No questions found');
+
+    return {
+      title,
+      questions: quiz.questions.map(question => pickQuestionFields(question)),
+      errors: allErrors
+    };
+  });
+
+  if (quizzes.length === 0) {
+    throw new BadRequestError('No questions found in the file', 'EMPTY_QUIZ_FILE');
+  }
+
+  const summary = {
+    quizzes: quizzes.length,
+    questions: quizzes.reduce((sum, quiz) => sum + quiz.questions.length, 0),
+    errors: quizzes.reduce((sum, quiz) => sum + quiz.errors.length, 0)
+  };
+
+  return { format, summary, quizzes };
+}
+
+/**
+ * Send quizzes as a file download
+ * @param {Object} res - Express response
+ * @param {Object} options
+ * @param {Array<Object>} options.quizzes - Quiz documents
+ * @param {string} options.format - One of QUIZ_FORMATS
+ * @param {string} options.filename - File name without extension
+ * @param {string} options.courseTitle - Used in category paths
+ */
+async function sendQuizzes(res, { quizzes, format, filename, courseTitle }) {
+  if (format === 'csv' || format === 'xlsx') {
+    return sendReport(res, {
+      format,
+      filename,
+      sheetName: 'Questions',
+      columns: QUIZ_CSV_COLUMNS,
+      rows: buildCsvRows(quizzes)
+    });
+  }
+
+  const gift = format === 'gift';
+  res.setHeader('Content-Type', gift ? 'text/plain; charset=utf-8' : 'application/xml; charset=utf-8');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.${gift ? 'gift' : 'xml'}"`);
+  return res.send(gift ? toGift(quizzes, courseTitle) : toMoodleXml(quizzes, courseTitle));
+}
+
+module.exports = {
+  QUIZ_FORMATS,
+  IMPORT_EXTENSIONS,
+  QUIZ_CSV_COLUMNS,
+  formatOfFile,
+  parseGift,
+  parseMoodleXml,
+  parseCsvRows,
+  buildCsvRows,
+  toGift,
+  toMoodleXml,
+  previewQuizImport,
+  sendQuizzes
+};
@@ -0,0 +1,167 @@
+/**
+ * Realtime Service
+ *
+ * The one place the server pushes events to Socket.IO clients.
+ *
+ * Every event is listed in EVENTS (src/config/realtimeEvents.js, from
+ * which the client's copy is generated); the payload of each is typed in
+ * the client's shared/types/realtime.types.ts. Payloads carry the catalog
+ * version as `v`.
+ *
+ * Every authenticated socket joins, on connect:
+ * - user:<id>   all of one user's tabs and devices
+ * - role:<role> everyone with that role
+ * - group:<id>  the trainer and students of each group the user is in
+ */
+
+const Group = require('../models/Group');
+const logger = require('../utils/logger');
+const { EVENT_VERSION, EVENTS } = require('../config/realtimeEvents');
+
+const EVENT_NAMES = new Set(Object.values(EVENTS));
+
+// Roles that manage inventory and orders
+const STAFF_ROLES = ['admin', 'superadmin'];
+// Roles that handle student payments
+const PAYMENT_ROLES = ['reception', 'admin', 'superadmin'];
+
+let ioRef = null;
+
+function setIo(ioInstance) {
+  ioRef = ioInstance;
+}
+
+/**
+ * Socket.IO room name for a user
+ * @param {string} userId
+ * @returns {string}
+ */
+function userRoom(userId) {
+  return `user:${userId}`;
+}
+
+/**
+ * Socket.IO room name for a role
+ * @param {string} role
+ * @returns {string}
+ */
+function roleRoom(role) {
+  return `role:${role}`;
+}
+
+/**
+ * Socket.IO room name for a group
+ * @param {string} groupId
+ * @returns {string}
+ */
+function groupRoom(groupId) {
+  return `group:${groupId}`;
+}
+
+/**
+ * Join the socket's user, role and group rooms
+ * Expects socketAuthMiddleware to have set socket.userId / socket.userRole
+ * @param {Socket} socket
+ */
+async function registerSocketHandlers(socket) {
+  if (!socket.userId) return;
+
+  socket.join(userRoom(socket.userId));
+  if (socket.userRole) {
+    socket.join(roleRoom(socket.userRole));
+  }
+
+  try {
+    const groups = await Group.find({
+      $or: [{ trainerId: socket.userId }, { students: socket.userId }]
+    }).select('_id').lean();
+    groups.forEach(group => socket.join(groupRoom(group._id)));
+  } catch (error) {
+    logger.logError(error, { context: 'realtime group rooms', socketId: socket.id });
+  }
+}
+
+/**
+ * Emit a catalog event
+ * Sockets in several of the target rooms receive it once.
+ *
+ * @param {string} event - One of EVENTS
+ * @param {Object} payload
+ * @param {Object} [to] - Target rooms; everyone when omitted
+ * @param {string[]} [to.users]
+ * @param {string[]} [to.roles]
+ * @param {string[]} [to.groups]
+ * @param {Socket} [to.except] - Socket that caused the event, left out
+ */
+function emit(event, payload, to) {
+  if (!ioRef) return;
+
+  if (!EVENT_NAMES.has(event)) {
+    logger.warn(`Realtime event ${event} is not in the catalog; not sent`);
+    return;
+  }
+
+  const message = { ...payload, v: EVENT_VERSION };
+
+  if (!to) {
+    ioRef.emit(event, message);
+    return;
+  }
+
+  const rooms = [
+    ...(to.users || []).filter(Boolean).map(id => userRoom(String(id))),
+    ...(to.roles || []).map(roleRoom),
+    ...(to.groups || []).filter(Boolean).map(id => groupRoom(String(id)))
+  ];
+  if (rooms.length === 0) return;
+
+  (to.except || ioRef).to(rooms).emit(event, message);
+}
+
+/**
+ * Tell a session's group and trainer that it changed
+ * @param {Object} session - Session document
+ * @param {'created'|'updated'|'started'|'ended'|'cancelled'|'deleted'} action
+ */
+function emitSessionUpdate(session, action) {
+  const groupId = session.groupId?._id || session.groupId;
+  emit(EVENTS.SESSION_UPDATED, {
+    sessionId: String(session._id),
+    groupId: String(groupId),
+    trainerId: String(session.trainerId),
+    status: session.status,
+    action
+  }, { groups: [groupId], users: [session.trainerId] });
+}
+
+/**
+ * Tell payment staff and the paying student that a payment changed
+ * @param {Object} payment - Payment document
+ * @param {'initiated'|'proof_submitted'|'approved'|'rejected'|'recorded'|'refunded'|'voided'} action
+ */
+function emitPaymentUpdate(payment, action) {
+  const studentId = payment.student?._id || payment.student;
+  emit(EVENTS.PAYMENT_UPDATED, {
+    paymentId: String(payment._id),
+    enrollmentId: String(payment.enrollment?._id || payment.enrollment),
+    studentId: String(studentId),
+    status: payment.status,
+    amount: payment.amount,
+    action
+  }, { roles: PAYMENT_ROLES, users: [studentId] });
+}
+
+module.exports = {
+  EVENT_VERSION,
+  EVENTS,
+  STAFF_ROLES,
+  PAYMENT_ROLES,
+  setIo,
+  userRoom,
+  roleRoom,
+  groupRoom,
+  registerSocketHandlers,
+  emit,
+  emitSessionUpdate,
+  emitPaymentUpdate
+};
@@ -0,0 +1,182 @@
+/**
+ * Receipt Service
+ *
+ * Issues payment receipts and credit notes: numbers them, renders the PDF
+ * and stores the record.
+ *
+ * Expects the payment (or its reversal) to already be applied to the
+ * enrollment, so the billing summary is derived from the enrollment's
+ * current totals.
+ */
+
+const path = require('path');
+const fs = require('fs');
+const Receipt = require('../models/Receipt');
+const CreditNote = require('../models/CreditNote');
+const { generateReceipt, generateCreditNote } = require('../utils/receiptGenerator');
+
+const RECEIPTS_DIR = 'uploads/receipts';
+const CREDIT_NOTES_DIR = 'uploads/credit-notes';
+
+/**
+ * Absolute output directory, created on first use
+ */
+function ensureDir(relativeDir) {
+  const dir = path.join(__dirname, '../..', relativeDir);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  return dir;
+}
+
+/**
+ * Issue a receipt for a payment
+ *
+ * @param {Object} params
+ * @param {Object} params.enrollment - Enrollment with student (name, email) and course (title) populated
+ * @param {number} params.amount - Amount paid now
+ * @param {string} [params.method] - Payment method
+ * @param {string} [params.notes] - Payment notes
+ * @param {Object} params.issuedBy - Staff user issuing the receipt { id, name }
+ * @param {string} [params.paymentRef] - Verified Payment the receipt belongs to
+ * @returns {Promise<Object>} Created receipt document
+ */
+async function issueReceipt({ enrollment, amount, method = 'cash', notes = '', issuedBy, paymentRef = null }) {
+  const receiptNumber = await Receipt.generateReceiptNumber();
+  const paidAt = new Date();
+
+  const billing = {
+    totalAmount: enrollment.payment.totalAmount,
+    paidBefore: enrollment.payment.paidAmount - amount,
+    paidNow: amount,
+    remainingBalance: enrollment.payment.remainingAmount
+  };
+
+  const payment = {
+    amount,
+    method,
+    date: paidAt,
+    notes
+  };
+
+  const fileName = `${receiptNumber}.pdf`;
+  const uploadsDir = ensureDir(RECEIPTS_DIR);
+
+  await generateReceipt({
+    receiptNumber,
+    student: {
+      name: enrollment.student.name,
+      email: enrollment.student.email
+    },
+    course: {
+      title: enrollment.course.title
+    },
+    payment,
+    billing,
+    issuedBy: {
+      name: issuedBy.name
+    }
+  }, path.join(uploadsDir, fileName));
+
+  return Receipt.create({
+    receiptNumber,
+    enrollment: enrollment._id,
+    student: enrollment.student._id,
+    course: enrollment.course._id,
+    paymentRef,
+    payment,
+    billing,
+    pdfPath: `${RECEIPTS_DIR}/${fileName}`,
+    issuedBy: issuedBy.id
+  });
+}
+
+/**
+ * Issue a credit note for a refund or void
+ *
+ * @param {Object} params
+ * @param {Object} params.enrollment - Enrollment with student (name, email) and course (title) populated
+ * @param {Object} params.payment - Payment document being refunded/voided
+ * @param {Object} params.adjustment - Adjustment entry { type, amount, reason }
+ * @param {Object} [params.receipt] - Receipt originally issued for the payment
+ * @param {Object} params.issuedBy - Staff user issuing the note { id, name }
+ * @returns {Promise<Object>} Created credit note document
+ */
+async function issueCreditNote({ enrollment, payment, adjustment, receipt = null, issuedBy }) {
+  const creditNoteNumber = await CreditNote.generateCreditNoteNumber();
+  const issuedAt = new Date();
+
+  const billing = {
+    totalAmount: enrollment.payment.totalAmount,
+    paidBefore: enrollment.payment.paidAmount + adjustment.amount,
+    creditedNow: adjustment.amount,
+    remainingBalance: enrollment.payment.remainingAmount
+  };
+
+  const fileName = `${creditNoteNumber}.pdf`;
+  const outputDir = ensureDir(CREDIT_NOTES_DIR);
+
+  await generateCreditNote({
+    creditNoteNumber,
+    type: adjustment.type,
+    date: issuedAt,
+    student: {
+      name: enrollment.student.name,
+      email: enrollment.student.email
+    },
+    course: {
+      title: enrollment.course.title
+    },
+    original: {
+      receiptNumber: receipt ? receipt.receiptNumber : null,
+      amount: payment.amount,
+      method: payment.paymentMethod,
+      date: payment.paidAt || payment.createdAt
+    },
+    reason: adjustment.reason,
+    billing,
+    issuedBy: {
+      name: issuedBy.name
+    }
+  }, path.join(outputDir, fileName));
+
+  return CreditNote.create({
+    creditNoteNumber,
+    type: adjustment.type,
+    payment: payment._id,
+    receipt: receipt ? receipt._id : null,
+    enrollment: enrollment._id,
+    student: enrollment.student._id,
+    course: enrollment.course._id,
+    amount: adjustment.amount,
+    reason: adjustment.reason,
+    billing,
+    pdfPath: `${CREDIT_NOTES_DIR}/${fileName}`,
+    issuedBy: issuedBy.id
+  });
+}
+
+/**
+ * API path for downloading a receipt
+ * @param {Object} receipt - Receipt document
+ * @returns {string}
+ */
+function getDownloadUrl(receipt) {
+  return `/api/reception/receipts/${receipt._id}/download`;
+}
+
+/**
+ * API path for downloading a credit note
+ * @param {Object} creditNote - CreditNote document
+ * @returns {string}
+ */
+function getCreditNoteDownloadUrl(creditNote) {
+  return `/api/reception/credit-notes/${creditNote._id}/download`;
+}
+
+module.exports = {
+  issueReceipt,
+  issueCreditNote,
+  getDownloadUrl,
+  getCreditNoteDownloadUrl
+};
@@ -0,0 +1,139 @@
+/**
+ * Reorder Service
+ *
+ * Replenishment rules for parts:
+ * - A part with a reorder point > 0 is low once its available stock
+ *   (on hand minus reserved) drops below that point
+ * - Crossing the point raises one purchase requisition for the part's
+ *   reorder quantity, unless one is already open, and alerts the admins
+ */
+
+const Part = require('../models/Part');
+const PurchaseRequisition = require('../models/PurchaseRequisition');
+const { notifyLowStock } = require('./notification.service');
+const logger = require('../utils/logger');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a stock movement took a part from above to below its reorder point
+ * @param {Object} part - Part document
+ * @param {number} previousQty - Available quantity before the movement
+ * @param {number} currentQty - Available quantity after the movement
+ * @returns {boolean}
+ */
+function crossedReorderPoint(part, previousQty, currentQty) {
+  const point = part?.reorderPoint || 0;
+  return point > 0 && previousQty >= point && currentQty < point;
+}
+
+/**
+ * Quantity to order so a part gets back to its reorder point at least
+ * @param {Object} part - Part document
+ * @param {number} availableQty
+ * @returns {number}
+ */
+function suggestedOrderQty(part, availableQty) {
+  return Math.max(part.reorderQty || 0, (part.reorderPoint || 0) - availableQty, 1);
+}
+
+/**
+ * Raise a requisition for a low part, unless one is already open
+ * @param {Object} part - Part document
+ * @param {Object} level - StockLevel after the movement
+ * @returns {Promise<Object|null>} Created requisition, or null if one was open
+ */
+async function raiseLowStockRequisition(part, level) {
+  const open = await PurchaseRequisition.exists({
+    partId: part._id,
+    status: { $in: PurchaseRequisition.OPEN_STATUSES }
+  });
+  if (open) return null;
+
+  return PurchaseRequisition.create({
+    partId: part._id,
+    qty: suggestedOrderQty(part, level.availableQty),
+    source: 'low_stock',
+    supplierId: part.supplierId,
+    expectedAt: part.leadTimeDays ? new Date(Date.now() + part.leadTimeDays * DAY_MS) : undefined
+  });
+}
+
+/**
+ * Raise the requisition and alert admins for a part that just went low
+ * Never throws: a failed alert must not fail the stock movement
+ * @param {Object} part - Part document
+ * @param {Object} level - StockLevel after the movement
+ */
+async function handleLowStock(part, level) {
+  try {
+    const requisition = await raiseLowStockRequisition(part, level);
+    await notifyLowStock(part, level, requisition);
+    logger.info(`Low stock on part ${part._id}: ${level.availableQty} < ${part.reorderPoint}`);
+  } catch (error) {
+    logger.logError(error, { context: 'handleLowStock', partId: String(part._id) });
+  }
+}
+
+/**
+ * Parts currently below their reorder point, lowest coverage first
+ * @returns {Promise<Object[]>} { partId, name, sku, availableQty, reorderPoint, reorderQty, openRequisition }
+ */
+async function getLowStockParts() {
+  const parts = await Part.aggregate([
+    { $match: { reorderPoint: { $gt: 0 } } },
+    {
+      $lookup: {
+        from: 'stocklevels',
+        localField: '_id',
+        foreignField: 'partId',
+        as: 'stock'
+      }
+    },
+    {
+      $addFields: {
+        availableQty: { $ifNull: [{ $first: '$stock.availableQty' }, 0] }
+      }
+    },
+    { $match: { $expr: { $lt: ['$availableQty', '$reorderPoint'] } } },
+    {
+      $lookup: {
+        from: 'purchaserequisitions',
+        let: { partId: '$_id' },
+        pipeline: [
+          {
+            $match: {
+              $expr: { $eq: ['$partId', '$$partId'] },
+              status: { $in: PurchaseRequisition.OPEN_STATUSES }
+            }
+          },
+          { $project: { qty: 1, status: 1, expectedAt: 1 } }
+        ],
+        as: 'openRequisitions'
+      }
+    },
+    {
+      $project: {
+        _id: 0,
+        partId: '$_id',
+        name: 1,
+        sku: 1,
+        availableQty: 1,
+        reorderPoint: 1,
+        reorderQty: 1,
+        openRequisition: { $first: '$openRequisitions' }
+      }
+    },
+    { $sort: { availableQty: 1, name: 1 } }
+  ]);
+
+  return parts;
+}
+
+module.exports = {
+  crossedReorderPoint,
+  suggestedOrderQty,
+  raiseLowStockRequisition,
+  handleLowStock,
+  getLowStockParts
+};
@@ -2,11 +2,112 @@ const StockLevel = require("../models/StockLevel");
 const StockLedger = require("../models/StockLedger");
 const Part = require("../models/Part");
 const mongoose = require("mongoose");
+const { crossedReorderPoint, handleLowStock } = require("./reorder.service");
+const realtime = require("./realtime.service");
 
-let ioRef = null;
+// How ledger reasons move quantities between the stock buckets.
+// qtyChange is signed and applies to:
+// - on hand only: purchase, adjustment, return, other
+// - reserved only: reserve (+), release / cancel (-)
+// - both on hand and reserved: fulfill (-), the reserved parts leave the shelf
+// - used / damaged: leave the shelf and add to the used / damaged totals
+//   (recorded as negative; older entries of either sign count by magnitude)
+// - loan_out (-) / loan_return (+): leave and come back to the shelf, the
+//   difference being on loan
+const RESERVATION_REASONS = ['reserve', 'release', 'cancel'];
+const WRITE_OFF_REASONS = ['used', 'damaged'];
+const LOAN_REASONS = ['loan_out', 'loan_return'];
 
-function setIo(ioInstance) {
-  ioRef = ioInstance;
+// Aggregation stage computing every bucket of a part from its ledger
+const ledgerBucketsStage = {
+  $group: {
+    _id: '$partId',
+    onHand: {
+      $sum: {
+        $switch: {
+          branches: [
+            { case: { $in: ['$reason', RESERVATION_REASONS] }, then: 0 },
+            { case: { $in: ['$reason', WRITE_OFF_REASONS] }, then: { $multiply: [-1, { $abs: '$qtyChange' }] } }
+          ],
+          default: '$qtyChange'
+        }
+      }
+    },
+    reserved: {
+      $sum: { $cond: [{ $in: ['$reason', [...RESERVATION_REASONS, 'fulfill']] }, '$qtyChange', 0] }
+    },
+    used: { $sum: { $cond: [{ $eq: ['$reason', 'used'] }, { $abs: '$qtyChange' }, 0] } },
+    damaged: { $sum: { $cond: [{ $eq: ['$reason', 'damaged'] }, { $abs: '$qtyChange' }, 0] } },
+    onLoan: { $sum: { $cond: [{ $in: ['$reason', LOAN_REASONS] }, { $multiply: [-1, '$qtyChange'] }, 0] } }
+  }
+};
+
+/**
+ * Aggregation stages adding a part's purchase costs, from the ledger
+ * - avgUnitCost: weighted average over every costed purchase (null if none)
+ * - lastUnitCost / lastPurchasedAt: most recent costed purchase
+ * @param {string} partIdField - Expression holding the part id, e.g. '$_id'
+ * @returns {Object[]}
+ */
+function unitCostStages(partIdField) {
+  return [
+    {
+      $lookup: {
+        from: 'stockledgers',
+        let: { partId: partIdField },
+        pipeline: [
+          {
+            $match: {
+              $expr: { $eq: ['$partId', '$$partId'] },
+              reason: 'purchase',
+              unitCost: { $ne: null }
+            }
+          },
+          { $sort: { createdAt: -1 } },
+          {
+            $group: {
+              _id: null,
+              qty: { $sum: '$qtyChange' },
+              cost: { $sum: { $multiply: ['$qtyChange', '$unitCost'] } },
+              lastUnitCost: { $first: '$unitCost' },
+              lastPurchasedAt: { $first: '$createdAt' }
+            }
+          }
+        ],
+        as: 'costs'
+      }
+    },
+    { $addFields: { costs: { $first: '$costs' } } },
+    {
+      $addFields: {
+        avgUnitCost: {
+          $cond: [{ $gt: ['$costs.qty', 0] }, { $divide: ['$costs.cost', '$costs.qty'] }, null]
+        },
+        lastUnitCost: { $ifNull: ['$costs.lastUnitCost', null] },
+        lastPurchasedAt: { $ifNull: ['$costs.lastPurchasedAt', null] }
+      }
+    }
+  ];
+}
+
+/**
+ * Stock figures of a level, for API responses
+ * Levels written before on-hand tracking only have availableQty
+ * @param {Object|null} level - StockLevel document
+ * @returns {{ onHandQty, reservedQty, availableQty, usedQty, damagedQty, onLoanQty }}
+ */
+function stockFigures(level) {
+  if (!level) {
+    return { onHandQty: 0, reservedQty: 0, availableQty: 0, usedQty: 0, damagedQty: 0, onLoanQty: 0 };
+  }
+  return {
+    onHandQty: level.onHandQty ?? level.availableQty ?? 0,
+    reservedQty: level.reservedQty || 0,
+    availableQty: level.availableQty || 0,
+    usedQty: level.usedQty || 0,
+    damagedQty: level.damagedQty || 0,
+    onLoanQty: level.onLoanQty || 0
+  };
 }
 
 async function ensureStockLevel(partId) {
@@ -14,14 +115,85 @@ async function ensureStockLevel(partId) {
   if (!level) {
     level = await StockLevel.create({
       partId,
+      onHandQty: 0,
+      reservedQty: 0,
       availableQty: 0,
       usedQty: 0,
-      damagedQty: 0
+      damagedQty: 0,
+      onLoanQty: 0
     });
   }
   return level;
 }
 
+/**
+ * Recompute a part's stock level from its ledger
+ * @param {string} partId
+ * @param {ClientSession} [session]
+ * @returns {Promise<Object>} Updated StockLevel with the part populated
+ */
+async function recomputeStockLevel(partId, session) {
+  const oid = new mongoose.Types.ObjectId(partId);
+  const aggregate = StockLedger.aggregate([{ $match: { partId: oid } }, ledgerBucketsStage]);
+  if (session) aggregate.session(session);
+
+  const [stats = { onHand: 0, reserved: 0, used: 0, damaged: 0, onLoan: 0 }] = await aggregate;
+
+  return StockLevel.findOneAndUpdate(
+    { partId },
+    {
+      $set: {
+        onHandQty: stats.onHand,
+        reservedQty: stats.reserved,
+        availableQty: stats.onHand - stats.reserved,
+        usedQty: stats.used,
+        damagedQty: stats.damaged,
+        onLoanQty: stats.onLoan,
+        updatedAt: new Date()
+      }
+    },
+    { new: true, session }
+  ).populate('partId');
+}
+
+/**
+ * Recompute every stock level still missing the on-hand figure
+ * Run once at startup after upgrading; a no-op afterwards
+ * @returns {Promise<number>} Number of levels recomputed
+ */
+async function backfillStockLevels() {
+  const stale = await StockLevel.find({ onHandQty: { $exists: false } }).select('partId').lean();
+  for (const level of stale) {
+    await recomputeStockLevel(level.partId);
+  }
+  return stale.length;
+}
+
+function emitStockUpdate(partId, level, reason) {
+  if (level) {
+    realtime.emit(realtime.EVENTS.STOCK_UPDATED, {
+      partId: String(partId),
+      partName: level.partId?.name || null,
+      ...stockFigures(level),
+      action: reason
+    });
+  }
+}
+
+// Alert admins when a movement takes a part below its reorder point
+function checkReorderPoint(level, previousQty) {
+  const part = level?.partId;
+  if (!crossedReorderPoint(part, previousQty, level.availableQty)) return;
+
+  realtime.emit(realtime.EVENTS.STOCK_LOW, {
+    partId: String(part._id),
+    partName: part.name,
+    availableQty: level.availableQty,
+    reorderPoint: part.reorderPoint
+  }, { roles: realtime.STAFF_ROLES });
+  handleLowStock(part, level);
+}
+
 // Get all stock levels with filtering and pagination
 async function getStockLevels({ category, search, sortBy = 'name', page = 1, limit = 20 }) {
   const query = {};
@@ -84,10 +256,11 @@ async function getStockStats() {
       }
     ]),
     StockLevel.aggregate([
+      ...unitCostStages('$partId'),
       {
         $group: {
           _id: null,
-          totalValue: { $sum: { $multiply: ['$availableQty', 10] } } // Assuming average value of 10 per item
+          totalValue: { $sum: { $multiply: ['$onHandQty', { $ifNull: ['$avgUnitCost', 0] }] } }
         }
       }
     ])
@@ -116,11 +289,12 @@ async function getCategoryBreakdown() {
       }
     },
     { $unwind: '$stock' },
+    ...unitCostStages('$_id'),
     {
       $group: {
         _id: '$category',
         count: { $sum: 1 },
-        value: { $sum: { $multiply: ['$stock.availableQty', 10] } } // Assuming average value of 10 per item
+        value: { $sum: { $multiply: ['$stock.onHandQty', { $ifNull: ['$avgUnitCost', 0] }] } }
       }
     },
     {
@@ -134,6 +308,77 @@ async function getCategoryBreakdown() {
   ]);
 }
 
+/**
+ * Value of the stock on hand, per part, at weighted average purchase cost
+ * Parts never bought with a unit cost have no value and are counted apart
+ * @returns {Promise<{ items: Object[], totals: Object }>}
+ */
+async function getStockValuation() {
+  const items = await Part.aggregate([
+    {
+      $lookup: {
+        from: 'stocklevels',
+        localField: '_id',
+        foreignField: 'partId',
+        as: 'stock'
+      }
+    },
+    ...unitCostStages('$_id'),
+    {
+      $project: {
+        _id: 0,
+        partId: '$_id',
+        name: 1,
+        sku: 1,
+        category: 1,
+        group: 1,
+        onHandQty: { $ifNull: [{ $first: '$stock.onHandQty' }, 0] },
+        avgUnitCost: 1,
+        lastUnitCost: 1,
+        lastPurchasedAt: 1
+      }
+    },
+    {
+      $addFields: {
+        value: {
+          $cond: [{ $eq: ['$avgUnitCost', null] }, null, { $multiply: ['$onHandQty', '$avgUnitCost'] }]
+        }
+      }
+    },
+    { $sort: { value: -1, name: 1 } }
+  ]);
+
+  const totals = items.reduce((acc, item) => {
+    acc.onHandQty += item.onHandQty;
+    if (item.value === null) {
+      acc.uncostedParts += 1;
+    } else {
+      acc.totalValue += item.value;
+      acc.costedParts += 1;
+    }
+    return acc;
+  }, { totalValue: 0, onHandQty: 0, costedParts: 0, uncostedParts: 0 });
+
+  return { items, totals };
+}
+
+/**
+ * Unit cost of every costed purchase of a part, newest first
+ * @param {string} partId
+ * @returns {Promise<Object[]>}
+ */
+async function getUnitCostHistory(partId) {
+  return StockLedger.find({ partId, reason: 'purchase', unitCost: { $ne: null } })
+    .sort({ createdAt: -1 })
+    .populate({
+      path: 'purchaseOrderId',
+      select: 'orderNumber supplierId',
+      populate: { path: 'supplierId', select: 'name' }
+    })
+    .select('qtyChange unitCost purchaseOrderId createdAt notes')
+    .lean();
+}
+
 // Get recent stock movements
 async function getRecentMovements(limit = 10) {
   return StockLedger.aggregate([
@@ -226,55 +471,38 @@ async function getStockHistory({ startDate, endDate, partId, reason }) {
 }
 
 // Adjust stock levels
-async function adjustStock({ partId, qtyChange, reason, orderId, createdBy, notes }) {
+async function adjustStock({ partId, qtyChange, reason, orderId, createdBy, notes, unitCost, purchaseOrderId, loanId, stocktakeId }) {
+  // Write-offs always take parts off the shelf
+  const entry = {
+    partId,
+    qtyChange: WRITE_OFF_REASONS.includes(reason) ? -Math.abs(qtyChange) : qtyChange,
+    reason,
+    orderId,
+    createdBy,
+    notes,
+    unitCost,
+    purchaseOrderId,
+    loanId,
+    stocktakeId
+  };
+
   let session;
   try {
     session = await mongoose.startSession();
     session.startTransaction();
 
     // Ensure stock level exists
-    await ensureStockLevel(partId);
+    const before = await ensureStockLevel(partId);
 
     // Create ledger entry
-    await StockLedger.create([
-      { partId, qtyChange, reason, orderId, createdBy, notes }
-    ], { session });
+    await StockLedger.create([entry], { session });
 
     // Recompute stock levels from ledger
-    const oid = new mongoose.Types.ObjectId(partId);
-    const agg = await StockLedger.aggregate([
-      { $match: { partId: oid } },
-      {
-        $group: {
-          _id: '$partId',
-          total: { $sum: '$qtyChange' },
-          used: { $sum: { $cond: [{ $eq: ['$reason', 'used'] }, '$qtyChange', 0] } },
-          damaged: { $sum: { $cond: [{ $eq: ['$reason', 'damaged'] }, '$qtyChange', 0] } }
-        }
-      }
-    ]).session(session);
-
-    const stats = agg[0] || { total: 0, used: 0, damaged: 0 };
-
-    // Update stock levels
-    const level = await StockLevel.findOneAndUpdate(
-      { partId },
-      {
-        $set: {
-          availableQty: stats.total,
-          usedQty: stats.used,
-          damagedQty: stats.damaged,
-          updatedAt: new Date()
-        }
-      },
-      { new: true, session }
-    ).populate('partId');
-
-    if (ioRef) {
-      ioRef.emit('stockUpdate', { partId, availableQty: level.availableQty, action: reason });
-    }
+    const level = await recomputeStockLevel(partId, session);
 
     await session.commitTransaction();
+    emitStockUpdate(partId, level, reason);
+    checkReorderPoint(level, before.availableQty);
     return level;
   } catch (error) {
     // Fallback for standalone MongoDB without transactions
@@ -282,46 +510,18 @@ async function adjustStock({ partId, qtyChange, reason, orderId, createdBy, note
       String(error.message || '').includes('Transaction numbers are only allowed') ||
       String(error.code || '') === '20'
     ) {
-      try {
-        if (session) {
-          try { await session.abortTransaction(); } catch {}
-          session.endSession();
-        }
-        // Non-transactional fallback
-        await ensureStockLevel(partId);
-        await StockLedger.create({ partId, qtyChange, reason, orderId, createdBy, notes });
-        const oid = new mongoose.Types.ObjectId(partId);
-        const agg = await StockLedger.aggregate([
-          { $match: { partId: oid } },
-          {
-            $group: {
-              _id: '$partId',
-              total: { $sum: '$qtyChange' },
-              used: { $sum: { $cond: [{ $eq: ['$reason', 'used'] }, '$qtyChange', 0] } },
-              damaged: { $sum: { $cond: [{ $eq: ['$reason', 'damaged'] }, '$qtyChange', 0] } }
-            }
-          }
-        ]);
-        const stats = agg[0] || { total: 0, used: 0, damaged: 0 };
-        const level = await StockLevel.findOneAndUpdate(
-          { partId },
-          {
-            $set: {
-              availableQty: stats.total,
-              usedQty: stats.used,
-              damagedQty: stats.damaged,
-              updatedAt: new Date()
-            }
-          },
-          { new: true }
-        ).populate('partId');
-        if (ioRef) {
-          ioRef.emit('stockUpdate', { partId, availableQty: level.availableQty, action: reason });
-        }
-        return level;
-      } catch (fallbackErr) {
-        throw fallbackErr;
+      if (session) {
+        try { await session.abortTransaction(); } catch {}
+        session.endSession();
+        session = null;
       }
+      // Non-transactional fallback
+      const before = await ensureStockLevel(partId);
+      await StockLedger.create(entry);
+      const level = await recomputeStockLevel(partId);
+      emitStockUpdate(partId, level, reason);
+      checkReorderPoint(level, before.availableQty);
+      return level;
     }
     throw error;
   } finally {
@@ -330,11 +530,16 @@ async function adjustStock({ partId, qtyChange, reason, orderId, createdBy, note
 }
 
 module.exports = {
-  setIo,
+  stockFigures,
+  unitCostStages,
   adjustStock,
+  recomputeStockLevel,
+  backfillStockLevels,
   getStockLevels,
   getStockStats,
   getCategoryBreakdown,
+  getStockValuation,
+  getUnitCostHistory,
   getRecentMovements,
   getStockHistory
 };
@@ -0,0 +1,250 @@
+/**
+ * Stocktake Service
+ *
+ * Recording counts, posting approved variances to the ledger and the
+ * variance history report.
+ *
+ * Counts from several devices land on their own stocktake line in a
+ * single atomic update, so counters never overwrite each other's parts.
+ * Each count remembers the on-hand figure it was compared with; approval
+ * posts exactly that difference, so stock moved while the count was
+ * running is not undone.
+ */
+
+const Stocktake = require('../models/Stocktake');
+const StockLevel = require('../models/StockLevel');
+const StockLedger = require('../models/StockLedger');
+const { stockFigures, unitCostStages, adjustStock } = require('./stock.service');
+const realtime = require('./realtime.service');
+const { NotFoundError, BadRequestError, ConflictError } = require('../utils/errors');
+const logger = require('../utils/logger');
+
+// Let every device counting the same stocktake see new counts
+function emitCount(stocktakeId, line) {
+  realtime.emit(realtime.EVENTS.STOCKTAKE_COUNT, { stocktakeId: String(stocktakeId), ...line }, { roles: realtime.STAFF_ROLES });
+}
+
+/**
+ * Stocktake lines with their variance and the part's current on hand
+ * @param {Object} stocktake - Stocktake with lines.partId populated
+ * @returns {Promise<Object>} Plain stocktake
+ */
+async function withVariance(stocktake) {
+  const plain = stocktake.toJSON ? stocktake.toJSON() : stocktake;
+  const partIds = plain.lines.map(line => line.partId?._id || line.partId);
+  const levels = await StockLevel.find({ partId: { $in: partIds } }).lean();
+  const levelByPart = new Map(levels.map(level => [String(level.partId), level]));
+
+  plain.lines = plain.lines.map(line => ({
+    ...line,
+    onHandQty: stockFigures(levelByPart.get(String(line.partId?._id || line.partId))).onHandQty,
+    variance: line.countedQty === null ? null : line.countedQty - line.expectedQty
+  }));
+  return plain;
+}
+
+/**
+ * Record counted quantities on an open stocktake
+ * @param {string} stocktakeId
+ * @param {Array<{partId: string, countedQty: number}>} counts
+ * @param {string} userId - Who counted
+ * @returns {Promise<number>} Number of lines updated
+ */
+async function recordCounts(stocktakeId, counts, userId) {
+  const stocktake = await Stocktake.findById(stocktakeId).select('status lines.partId').lean();
+  if (!stocktake) {
+    throw new NotFoundError('Stocktake');
+  }
+  if (stocktake.status !== 'counting') {
+    throw new BadRequestError(`This stocktake is ${stocktake.status}`, 'STOCKTAKE_CLOSED');
+  }
+
+  const inScope = new Set(stocktake.lines.map(line => String(line.partId)));
+  const outside = counts.find(count => !inScope.has(count.partId));
+  if (outside) {
+    throw new BadRequestError('A counted part is not on this stocktake', 'PART_NOT_IN_STOCKTAKE');
+  }
+
+  const levels = await StockLevel.find({ partId: { $in: counts.map(count => count.partId) } }).lean();
+  const levelByPart = new Map(levels.map(level => [String(level.partId), level]));
+  const countedAt = new Date();
+
+  let updated = 0;
+  for (const count of counts) {
+    const line = {
+      partId: count.partId,
+      countedQty: count.countedQty,
+      expectedQty: stockFigures(levelByPart.get(count.partId)).onHandQty,
+      countedBy: userId,
+      countedAt
+    };
+
+    const result = await Stocktake.updateOne(
+      { _id: stocktakeId, status: 'counting', 'lines.partId': count.partId },
+      {
+        $set: {
+          'lines.$.countedQty': line.countedQty,
+          'lines.$.expectedQty': line.expectedQty,
+          'lines.$.countedBy': line.countedBy,
+          'lines.$.countedAt': line.countedAt
+        }
+      }
+    );
+
+    // Approved or cancelled from another device mid-way
+    if (result.matchedCount === 0) {
+      throw new BadRequestError('This stocktake is no longer counting', 'STOCKTAKE_CLOSED');
+    }
+    updated += 1;
+    emitCount(stocktakeId, line);
+  }
+
+  return updated;
+}
+
+/**
+ * Approve a stocktake and post each counted variance as an adjustment
+ * Uncounted parts are left alone.
+ * @param {string} stocktakeId
+ * @param {string} userId - Who approved
+ * @returns {Promise<Object>} Approved stocktake
+ */
+async function approveStocktake(stocktakeId, userId) {
+  // Claim the stocktake first so two approvals can't both post
+  const stocktake = await Stocktake.findOneAndUpdate(
+    { _id: stocktakeId, status: 'counting' },
+    { $set: { status: 'approved', approvedBy: userId, approvedAt: new Date() } },
+    { new: true }
+  );
+
+  if (!stocktake) {
+    const exists = await Stocktake.exists({ _id: stocktakeId });
+    if (!exists) throw new NotFoundError('Stocktake');
+    throw new ConflictError('This stocktake is no longer counting', 'STOCKTAKE_CLOSED');
+  }
+
+  let posted = 0;
+  for (const line of stocktake.lines) {
+    if (line.countedQty === null) continue;
+
+    const variance = line.countedQty - line.expectedQty;
+    line.postedQty = variance;
+    if (variance === 0) continue;
+
+    await adjustStock({
+      partId: line.partId,
+      qtyChange: variance,
+      reason: 'adjustment',
+      createdBy: userId,
+      stocktakeId: stocktake._id,
+      notes: `Stocktake ${stocktake.reference}`
+    });
+    posted += 1;
+  }
+
+  await stocktake.save();
+
+  logger.info(`Approved stocktake ${stocktake.reference}: ${posted} adjustments posted`);
+  return stocktake;
+}
+
+/**
+ * Where stock goes missing: stocktake adjustments per part over a period,
+ * valued at weighted average purchase cost
+ * @param {Object} filters
+ * @param {Date} [filters.from]
+ * @param {Date} [filters.to]
+ * @param {string} [filters.category]
+ * @param {string} [filters.group]
+ * @returns {Promise<{ items: Object[], categories: Object[], totals: Object }>}
+ */
+async function getVarianceReport({ from, to, category, group } = {}) {
+  const match = { stocktakeId: { $exists: true }, reason: 'adjustment' };
+  if (from || to) {
+    match.createdAt = {};
+    if (from) match.createdAt.$gte = from;
+    if (to) match.createdAt.$lte = to;
+  }
+
+  const partMatch = {};
+  if (category) partMatch['part.category'] = category;
+  if (group) partMatch['part.group'] = group;
+
+  const items = await StockLedger.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: '$partId',
+        lostQty: { $sum: { $cond: [{ $lt: ['$qtyChange', 0] }, { $abs: '$qtyChange' }, 0] } },
+        foundQty: { $sum: { $cond: [{ $gt: ['$qtyChange', 0] }, '$qtyChange', 0] } },
+        netQty: { $sum: '$qtyChange' },
+        stocktakes: { $addToSet: '$stocktakeId' },
+        lastCountedAt: { $max: '$createdAt' }
+      }
+    },
+    {
+      $lookup: {
+        from: 'parts',
+        localField: '_id',
+        foreignField: '_id',
+        as: 'part'
+      }
+    },
+    { $unwind: '$part' },
+    { $match: partMatch },
+    ...unitCostStages('$_id'),
+    {
+      $project: {
+        _id: 0,
+        partId: '$_id',
+        name: '$part.name',
+        sku: '$part.sku',
+        category: '$part.category',
+        group: '$part.group',
+        lostQty: 1,
+        foundQty: 1,
+        netQty: 1,
+        stocktakeCount: { $size: '$stocktakes' },
+        lastCountedAt: 1,
+        avgUnitCost: 1,
+        netValue: {
+          $cond: [{ $eq: ['$avgUnitCost', null] }, null, { $multiply: ['$netQty', '$avgUnitCost'] }]
+        }
+      }
+    },
+    // Biggest losses first
+    { $sort: { netQty: 1, name: 1 } }
+  ]);
+
+  const byCategory = new Map();
+  const totals = { lostQty: 0, foundQty: 0, netQty: 0, netValue: 0 };
+
+  items.forEach(item => {
+    const key = item.category || 'Uncategorized';
+    const entry = byCategory.get(key) || { category: key, lostQty: 0, foundQty: 0, netQty: 0, netValue: 0, parts: 0 };
+    entry.lostQty += item.lostQty;
+    entry.foundQty += item.foundQty;
+    entry.netQty += item.netQty;
+    entry.netValue += item.netValue || 0;
+    entry.parts += 1;
+    byCategory.set(key, entry);
+
+    totals.lostQty += item.lostQty;
+    totals.foundQty += item.foundQty;
+    totals.netQty += item.netQty;
+    totals.netValue += item.netValue || 0;
+  });
+
+  return {
+    items,
+    categories: [...byCategory.values()].sort((a, b) => a.netValue - b.netValue || a.netQty - b.netQty),
+    totals
+  };
+}
+
+module.exports = {
+  withVariance,
+  recordCounts,
+  approveStocktake,
+  getVarianceReport
+};
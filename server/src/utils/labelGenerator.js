@@ -0,0 +1,141 @@
+/**
+ * Label Sheet PDF Generator
+ *
+ * Renders QR or Code 128 labels for parts and bins on an A4 sheet,
+ * three columns by eight rows, ready for adhesive label paper
+ */
+
+const PDFDocument = require('pdfkit');
+const bwipjs = require('bwip-js');
+
+// Colors
+const primaryColor = '#003300';
+const borderColor = '#cccccc';
+
+const LABEL_FORMATS = ['qr', 'barcode'];
+
+// A4 in points, 3 x 8 grid
+const PAGE = { width: 595.28, height: 841.89 };
+const GRID = { columns: 3, rows: 8, marginX: 20, marginY: 30 };
+const LABEL = {
+  width: (PAGE.width - GRID.marginX * 2) / GRID.columns,
+  height: (PAGE.height - GRID.marginY * 2) / GRID.rows
+};
+const PADDING = 8;
+
+/**
+ * Render a scan code as a PNG
+ * @param {string} code - Text to encode
+ * @param {string} format - qr | barcode
+ * @returns {Promise<Buffer>}
+ */
+const renderCode = (code, format) => bwipjs.toBuffer(
+  format === 'qr'
+    ? { bcid: 'qrcode', text: code, scale: 3, eclevel: 'M' }
+    : { bcid: 'code128', text: code, scale: 2, height: 10 }
+);
+
+/**
+ * Draw the title, code text and detail line of a label
+ */
+const drawCaptions = (doc, label, x, y, width) => {
+  doc.fontSize(9)
+     .fillColor(primaryColor)
+     .font('Helvetica-Bold')
+     .text(label.title, x, y, { width, height: 22, ellipsis: true });
+
+  doc.fontSize(8)
+     .fillColor('#333')
+     .font('Courier')
+     .text(label.code, x, y + 22, { width, lineBreak: false, ellipsis: true });
+
+  if (label.detail) {
+    doc.fontSize(7)
+       .fillColor('#666')
+       .font('Helvetica')
+       .text(label.detail, x, y + 34, { width, height: 18, ellipsis: true });
+  }
+};
+
+/**
+ * Draw one label with its code and captions
+ * @param {PDFDocument} doc
+ * @param {Object} label
+ * @param {Buffer} image - Rendered code
+ * @param {string} format - qr | barcode
+ * @param {number} x - Left edge of the label
+ * @param {number} y - Top edge of the label
+ */
+const drawLabel = (doc, label, image, format, x, y) => {
+  doc.rect(x, y, LABEL.width, LABEL.height)
+     .lineWidth(0.5)
+     .strokeColor(borderColor)
+     .stroke();
+
+  const innerHeight = LABEL.height - PADDING * 2;
+
+  if (format === 'qr') {
+    // Code on the left, captions beside it
+    const size = innerHeight;
+    doc.image(image, x + PADDING, y + PADDING, { fit: [size, size] });
+
+    const textX = x + PADDING * 2 + size;
+    const textWidth = LABEL.width - size - PADDING * 3;
+    drawCaptions(doc, label, textX, y + PADDING, textWidth);
+    return;
+  }
+
+  // Barcode across the label, captions above it
+  const textWidth = LABEL.width - PADDING * 2;
+  drawCaptions(doc, label, x + PADDING, y + PADDING, textWidth);
+  doc.image(image, x + PADDING, y + PADDING + 34, {
+    fit: [textWidth, innerHeight - 34],
+    align: 'center'
+  });
+};
+
+/**
+ * Generate a label sheet PDF
+ *
+ * @param {Array<Object>} labels - Labels to print
+ * @param {string} labels[].code - Scan code encoded on the label
+ * @param {string} labels[].title - Part name or bin title
+ * @param {string} [labels[].detail] - Extra line, e.g. category
+ * @param {string} format - qr | barcode
+ * @param {WritableStream} output - Stream to write the PDF to (e.g. the response)
+ * @returns {Promise<void>} Resolves once the PDF is written
+ */
+const generateLabelSheet = async (labels, format, output) => {
+  // Render every code first so a bad one fails before anything is streamed
+  const images = await Promise.all(labels.map(label => renderCode(label.code, format)));
+
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({ size: 'A4', margin: 0 });
+      output.on('finish', resolve);
+      output.on('error', reject);
+      doc.pipe(output);
+
+      const perPage = GRID.columns * GRID.rows;
+      labels.forEach((label, index) => {
+        const slot = index % perPage;
+        if (index > 0 && slot === 0) {
+          doc.addPage({ size: 'A4', margin: 0 });
+        }
+
+        const x = GRID.marginX + (slot % GRID.columns) * LABEL.width;
+        const y = GRID.marginY + Math.floor(slot / GRID.columns) * LABEL.height;
+        drawLabel(doc, label, images[index], format, x, y);
+      });
+
+      doc.end();
+    } catch (error) {
+      reject(error);
+    }
+  });
+};
+
+module.exports = {
+  LABEL_FORMATS,
+  generateLabelSheet
+};
@@ -0,0 +1,175 @@
+/**
+ * Pick List PDF Generator
+ *
+ * Renders the parts to hand out on orders as an A4 pick list: one block
+ * per order with its lines in SKU (bin) order, a tick box per line and
+ * a signature line for the student collecting them
+ */
+
+const PDFDocument = require('pdfkit');
+
+// Colors
+const primaryColor = '#003300';
+const borderColor = '#cccccc';
+
+const PAGE = { width: 595.28, height: 841.89, margin: 40 };
+const CONTENT_WIDTH = PAGE.width - PAGE.margin * 2;
+const ROW_HEIGHT = 18;
+
+// Table columns, left to right
+const COLUMNS = [
+  { key: 'check', title: '', width: 24 },
+  { key: 'sku', title: 'SKU / Bin', width: 110 },
+  { key: 'name', title: 'Part', width: 215 },
+  { key: 'qty', title: 'Pick', width: 50, align: 'right' },
+  { key: 'backorderQty', title: 'Backorder', width: 60, align: 'right' },
+  { key: 'picked', title: 'Picked', width: CONTENT_WIDTH - 459, align: 'right' }
+];
+
+const formatDate = (date) => new Date(date).toLocaleDateString('en-GB', {
+  day: '2-digit',
+  month: 'short',
+  year: 'numeric'
+});
+
+/**
+ * Start a new page when the next block won't fit
+ * @returns {number} y to continue at
+ */
+const ensureSpace = (doc, y, needed) => {
+  if (y + needed <= PAGE.height - PAGE.margin) return y;
+  doc.addPage({ size: 'A4', margin: PAGE.margin });
+  return PAGE.margin;
+};
+
+/**
+ * Draw one table row
+ * @param {PDFDocument} doc
+ * @param {Object} cells - Text per column key
+ * @param {number} y
+ * @param {boolean} [header]
+ */
+const drawRow = (doc, cells, y, header = false) => {
+  let x = PAGE.margin;
+  doc.fontSize(header ? 8 : 9)
+     .font(header ? 'Helvetica-Bold' : 'Helvetica')
+     .fillColor(header ? primaryColor : '#333');
+
+  COLUMNS.forEach(column => {
+    if (column.key === 'check' && !header) {
+      doc.rect(x + 6, y + 3, 10, 10).lineWidth(0.75).strokeColor('#666').stroke();
+    } else {
+      doc.text(cells[column.key] ?? '', x + 3, y + 4, {
+        width: column.width - 6,
+        align: column.align || 'left',
+        lineBreak: false,
+        ellipsis: true
+      });
+    }
+    x += column.width;
+  });
+
+  doc.moveTo(PAGE.margin, y + ROW_HEIGHT)
+     .lineTo(PAGE.margin + CONTENT_WIDTH, y + ROW_HEIGHT)
+     .lineWidth(0.5)
+     .strokeColor(borderColor)
+     .stroke();
+};
+
+/**
+ * Draw an order's block: heading, lines and signature
+ * @returns {number} y below the block
+ */
+const drawOrder = (doc, order, y) => {
+  // Keep at least the heading and a couple of lines together
+  y = ensureSpace(doc, y, 40 + ROW_HEIGHT * 3);
+
+  doc.fontSize(12)
+     .font('Helvetica-Bold')
+     .fillColor(primaryColor)
+     .text(`Order #${order.reference}`, PAGE.margin, y);
+
+  const detail = [order.studentName, order.projectTitle, formatDate(order.createdAt)].filter(Boolean).join('  ·  ');
+  doc.fontSize(9)
+     .font('Helvetica')
+     .fillColor('#666')
+     .text(detail, PAGE.margin, y + 16, { width: CONTENT_WIDTH });
+  y += 34;
+
+  drawRow(doc, Object.fromEntries(COLUMNS.map(column => [column.key, column.title])), y, true);
+  y += ROW_HEIGHT;
+
+  order.lines.forEach(line => {
+    if (y + ROW_HEIGHT > PAGE.height - PAGE.margin) {
+      doc.addPage({ size: 'A4', margin: PAGE.margin });
+      y = PAGE.margin;
+      drawRow(doc, Object.fromEntries(COLUMNS.map(column => [column.key, column.title])), y, true);
+      y += ROW_HEIGHT;
+    }
+    drawRow(doc, {
+      sku: line.sku,
+      name: line.note ? `${line.name} (${line.note})` : line.name,
+      qty: String(line.qty),
+      backorderQty: line.backorderQty ? String(line.backorderQty) : '',
+      picked: '______'
+    }, y);
+    y += ROW_HEIGHT;
+  });
+
+  y = ensureSpace(doc, y + 14, 24);
+  doc.fontSize(8)
+     .font('Helvetica')
+     .fillColor('#666')
+     .text('Collected by: ______________________    Handed out by: ______________________    Date: ____________', PAGE.margin, y);
+
+  return y + 30;
+};
+
+/**
+ * Generate a pick list PDF
+ *
+ * @param {Array<Object>} orders - Orders to pick, from buildPickList
+ * @param {string} orders[].reference - Short order number
+ * @param {string} orders[].studentName
+ * @param {string} [orders[].projectTitle]
+ * @param {Date} orders[].createdAt
+ * @param {Array<Object>} orders[].lines - { sku, name, qty, backorderQty, note }
+ * @param {WritableStream} output - Stream to write the PDF to (e.g. the response)
+ * @returns {Promise<void>} Resolves once the PDF is written
+ */
+const generatePickList = (orders, output) => new Promise((resolve, reject) => {
+  try {
+    const doc = new PDFDocument({ size: 'A4', margin: PAGE.margin });
+    output.on('finish', resolve);
+    output.on('error', reject);
+    doc.pipe(output);
+
+    const totalQty = orders.reduce((sum, order) => sum + order.lines.reduce((s, line) => s + line.qty, 0), 0);
+
+    doc.fontSize(18)
+       .font('Helvetica-Bold')
+       .fillColor(primaryColor)
+       .text('Pick List', PAGE.margin, PAGE.margin);
+    doc.fontSize(9)
+       .font('Helvetica')
+       .fillColor('#666')
+       .text(
+         `${orders.length} order${orders.length === 1 ? '' : 's'}, ${totalQty} parts  ·  Printed ${formatDate(new Date())}`,
+         PAGE.margin,
+         PAGE.margin + 24
+       );
+
+    let y = PAGE.margin + 50;
+    orders.forEach(order => {
+      y = drawOrder(doc, order, y);
+    });
+
+    doc.end();
+  } catch (error) {
+    reject(error);
+  }
+});
+
+module.exports = {
+  generatePickList
+};
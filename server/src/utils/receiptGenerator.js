@@ -8,6 +8,45 @@ const PDFDocument = require('pdfkit');
 const fs = require('fs');
 const path = require('path');
 
+// Colors
+const primaryColor = '#003300';
+const accentColor = '#006600';
+const lightGray = '#f5f5f5';
+
+/**
+ * Draw the logo and company details at the top of the page
+ * @param {PDFDocument} doc
+ * @param {number} y - Current Y position
+ * @returns {number} Y position below the letterhead
+ */
+const drawLetterhead = (doc, y) => {
+  const logoPath = path.join(__dirname, '../../public/logo.png');
+
+  // Check if logo exists
+  if (fs.existsSync(logoPath)) {
+    try {
+      doc.image(logoPath, 50, y, { width: 80, height: 80 });
+    } catch (err) {
+      console.warn('Could not load logo:', err.message);
+    }
+  }
+
+  // Company info (right side of logo)
+  doc.fontSize(24)
+     .fillColor(primaryColor)
+     .font('Helvetica-Bold')
+     .text('ROBOTRICK', 150, y, { align: 'left' });
+
+  doc.fontSize(10)
+     .fillColor(accentColor)
+     .font('Helvetica')
+     .text('Aleppo, Syria', 150, y + 30);
+
+  doc.text('Phone: +963-942-060-440', 150, y + 45);
+
+  return y + 100;
+};
+
 /**
  * Generate a payment receipt PDF
  *
@@ -34,39 +73,10 @@ const generateReceipt = async (data, outputPath) => {
       const stream = fs.createWriteStream(outputPath);
       doc.pipe(stream);
 
-      // Colors
-      const primaryColor = '#003300';
-      const accentColor = '#006600';
-      const lightGray = '#f5f5f5';
-
       let y = 50; // Current Y position
 
       // ========== HEADER WITH LOGO ==========
-      const logoPath = path.join(__dirname, '../../public/logo.png');
-
-      // Check if logo exists
-      if (fs.existsSync(logoPath)) {
-        try {
-          doc.image(logoPath, 50, y, { width: 80, height: 80 });
-        } catch (err) {
-          console.warn('Could not load logo:', err.message);
-        }
-      }
-
-      // Company info (right side of logo)
-      doc.fontSize(24)
-         .fillColor(primaryColor)
-         .font('Helvetica-Bold')
-         .text('ROBOTRICK', 150, y, { align: 'left' });
-
-      doc.fontSize(10)
-         .fillColor(accentColor)
-         .font('Helvetica')
-         .text('Aleppo, Syria', 150, y + 30);
-
-      doc.text('Phone: +963-942-060-440', 150, y + 45);
-
-      y += 100;
+      y = drawLetterhead(doc, y);
 
       // ========== TITLE ==========
       doc.fontSize(20)
@@ -288,6 +298,202 @@ const generateReceipt = async (data, outputPath) => {
   });
 };
 
+/**
+ * Generate a credit note PDF for a refunded or voided payment
+ *
+ * @param {Object} data - Credit note data
+ * @param {string} data.creditNoteNumber - Unique credit note number
+ * @param {string} data.type - 'refund' or 'void'
+ * @param {Date} data.date - Issue date
+ * @param {Object} data.student - Student info {name, email}
+ * @param {Object} data.course - Course info {title}
+ * @param {Object} data.original - Original payment {receiptNumber, amount, method, date}
+ * @param {string} data.reason - Why the payment was refunded/voided
+ * @param {Object} data.billing - Billing summary {totalAmount, paidBefore, creditedNow, remainingBalance}
+ * @param {Object} data.issuedBy - Reception staff {name}
+ * @param {string} outputPath - Path to save PDF file
+ * @returns {Promise<string>} Path to generated PDF
+ */
+const generateCreditNote = async (data, outputPath) => {
+  return new Promise((resolve, reject) => {
+    try {
+      const doc = new PDFDocument({
+        size: 'A4',
+        margins: { top: 50, bottom: 50, left: 50, right: 50 }
+      });
+
+      const stream = fs.createWriteStream(outputPath);
+      doc.pipe(stream);
+
+      let y = drawLetterhead(doc, 50);
+
+      // ========== TITLE ==========
+      doc.fontSize(20)
+         .fillColor(primaryColor)
+         .font('Helvetica-Bold')
+         .text(data.type === 'void' ? 'CREDIT NOTE (VOID)' : 'CREDIT NOTE (REFUND)', 50, y, { align: 'center' });
+
+      y += 40;
+
+      // ========== CREDIT NOTE INFO ==========
+      const dateStr = new Date(data.date).toLocaleDateString('en-US', {
+        year: 'numeric',
+        month: 'long',
+        day: 'numeric'
+      });
+
+      doc.fontSize(10)
+         .fillColor('#666')
+         .font('Helvetica')
+         .text(`Credit Note #: ${data.creditNoteNumber}`, 50, y);
+      doc.text(`Date: ${dateStr}`, 350, y, { align: 'right' });
+
+      if (data.original.receiptNumber) {
+        doc.text(`Original Receipt #: ${data.original.receiptNumber}`, 50, y + 15);
+      }
+
+      y += 50;
+
+      doc.strokeColor(primaryColor)
+         .lineWidth(2)
+         .moveTo(50, y)
+         .lineTo(545, y)
+         .stroke();
+
+      y += 30;
+
+      // ========== STUDENT INFORMATION ==========
+      doc.fontSize(12)
+         .fillColor(primaryColor)
+         .font('Helvetica-Bold')
+         .text('STUDENT INFORMATION', 50, y);
+
+      y += 20;
+
+      doc.fontSize(10)
+         .fillColor('#333')
+         .font('Helvetica');
+
+      doc.text(`Name: ${data.student.name}`, 50, y);
+      y += 15;
+      doc.text(`Email: ${data.student.email}`, 50, y);
+      y += 15;
+      doc.text(`Course: ${data.course.title}`, 50, y);
+
+      y += 35;
+
+      // ========== CREDIT DETAILS TABLE ==========
+      doc.fontSize(12)
+         .fillColor(primaryColor)
+         .font('Helvetica-Bold')
+         .text('CREDIT DETAILS', 50, y);
+
+      y += 25;
+
+      const tableLeft = 50;
+      const tableWidth = 495;
+      const col1Width = 350;
+      const col2Width = 145;
+      const rowHeight = 30;
+
+      const drawRow = (desc, amount, bgColor = null, isTotal = false) => {
+        if (bgColor) {
+          doc.rect(tableLeft, y, tableWidth, rowHeight).fill(bgColor);
+        }
+
+        doc.font(isTotal ? 'Helvetica-Bold' : 'Helvetica')
+           .fontSize(isTotal ? 11 : 10)
+           .fillColor(isTotal ? primaryColor : '#333');
+
+        doc.text(desc, tableLeft + 15, y + 10, { width: col1Width - 30 });
+        doc.text(amount, tableLeft + col1Width + 15, y + 10, {
+          width: col2Width - 30,
+          align: 'right'
+        });
+
+        doc.strokeColor(isTotal ? primaryColor : '#ddd')
+           .lineWidth(isTotal ? 2 : 1)
+           .rect(tableLeft, y, tableWidth, rowHeight)
+           .stroke();
+
+        y += rowHeight;
+      };
+
+      // Table header
+      doc.rect(tableLeft, y, tableWidth, rowHeight).fill(primaryColor);
+      doc.fontSize(11)
+         .fillColor('white')
+         .font('Helvetica-Bold')
+         .text('Description', tableLeft + 15, y + 10);
+      doc.text('Amount', tableLeft + col1Width + 15, y + 10, {
+        width: col2Width - 30,
+        align: 'right'
+      });
+      y += rowHeight;
+
+      const methodLabel = data.original.method.replace('_', ' ').toUpperCase();
+      const paidOn = new Date(data.original.date).toLocaleDateString('en-US');
+
+      drawRow(`Original Payment (${methodLabel}, ${paidOn})`, `$${data.original.amount.toFixed(2)}`, lightGray);
+      drawRow('Course Total Fee', `$${data.billing.totalAmount.toFixed(2)}`);
+      drawRow('Paid Before This Credit', `$${data.billing.paidBefore.toFixed(2)}`, lightGray);
+      drawRow(
+        data.type === 'void' ? 'Voided Amount' : 'Refunded Amount',
+        `-$${data.billing.creditedNow.toFixed(2)}`
+      );
+      drawRow('REMAINING BALANCE', `$${data.billing.remainingBalance.toFixed(2)}`, '#e8f5e9', true);
+
+      y += 25;
+
+      // ========== REASON ==========
+      doc.fontSize(10)
+         .fillColor('#666')
+         .font('Helvetica')
+         .text(`Reason: ${data.reason}`, 50, y, { width: 495 });
+
+      y += 50;
+
+      doc.text(`Issued by: ${data.issuedBy.name} (Reception)`, 50, y);
+
+      y += 40;
+
+      // ========== SIGNATURE LINE ==========
+      doc.strokeColor('#999')
+         .lineWidth(1)
+         .moveTo(50, y)
+         .lineTo(250, y)
+         .stroke();
+
+      doc.fontSize(9)
+         .fillColor('#999')
+         .text('Authorized Signature', 50, y + 5);
+
+      // ========== FOOTER ==========
+      doc.fontSize(8)
+         .fillColor('#999')
+         .font('Helvetica')
+         .text('This credit note cancels the amount above from the original receipt.', 50, y + 60, {
+           align: 'center',
+           width: 495
+         });
+
+      doc.end();
+
+      stream.on('finish', () => {
+        resolve(outputPath);
+      });
+
+      stream.on('error', (err) => {
+        reject(err);
+      });
+
+    } catch (error) {
+      reject(error);
+    }
+  });
+};
+
 module.exports = {
-  generateReceipt
+  generateReceipt,
+  generateCreditNote
 };
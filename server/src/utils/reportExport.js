@@ -0,0 +1,83 @@
+/**
+ * Report Export Utility
+ *
+ * Streams tabular report data as a CSV or XLSX download
+ */
+
+const ExcelJS = require('exceljs');
+
+const EXPORT_FORMATS = ['csv', 'xlsx'];
+
+// Text a spreadsheet would run as a formula
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a CSV cell when it contains a delimiter, quote or newline
+ * Text that starts like a formula (names and notes are user-entered) is
+ * prefixed with ' so spreadsheets show it as text; numbers are left alone
+ */
+function toCsvCell(value) {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Build CSV text from columns and rows
+ * @param {Array<{header: string, key: string}>} columns
+ * @param {Array<Object>} rows
+ * @returns {string}
+ */
+function toCsv(columns, rows) {
+  const lines = [columns.map(col => toCsvCell(col.header)).join(',')];
+  rows.forEach(row => {
+    lines.push(columns.map(col => toCsvCell(row[col.key])).join(','));
+  });
+  return lines.join('\r\n');
+}
+
+/**
+ * Send a report as a file download
+ *
+ * @param {Object} res - Express response
+ * @param {Object} report
+ * @param {string} report.format - csv | xlsx
+ * @param {string} report.filename - File name without extension
+ * @param {string} [report.sheetName] - Worksheet name (xlsx only)
+ * @param {Array<{header: string, key: string, width?: number, numFmt?: string}>} report.columns
+ * @param {Array<Object>} report.rows
+ */
+async function sendReport(res, { format, filename, sheetName = 'Report', columns, rows }) {
+  if (format === 'csv') {
+    res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+    res.setHeader('Content-Disposition', `attachment; filename="${filename}.csv"`);
+    // BOM so Excel opens UTF-8 (e.g. Arabic names) correctly
+    return res.send(`\uFEFF${toCsv(columns, rows)}`);
+  }
+
+  const workbook = new ExcelJS.Workbook();
+  const sheet = workbook.addWorksheet(sheetName);
+
+  sheet.columns = columns.map(col => ({
+    header: col.header,
+    key: col.key,
+    width: col.width || Math.max(12, col.header.length + 2),
+    ...(col.numFmt ? { style: { numFmt: col.numFmt } } : {})
+  }));
+  sheet.getRow(1).font = { bold: true };
+  sheet.addRows(rows);
+
+  res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}.xlsx"`);
+  await workbook.xlsx.write(res);
+  return res.end();
+}
+
+module.exports = {
+  EXPORT_FORMATS,
+  toCsv,
+  sendReport
+};
@@ -0,0 +1,131 @@
+/**
+ * Sheet Import Utility
+ *
+ * Reads an uploaded CSV or XLSX file into rows keyed by column header.
+ * The counterpart of reportExport: a sheet exported there can be edited
+ * and read back here.
+ */
+
+const path = require('path');
+const ExcelJS = require('exceljs');
+const { BadRequestError } = require('./errors');
+
+const IMPORT_EXTENSIONS = ['.csv', '.xlsx'];
+
+/**
+ * Split CSV text into cells, honouring quoted cells with delimiters,
+ * escaped quotes and line breaks
+ * @param {string} text
+ * @returns {string[][]}
+ */
+function parseCsv(text) {
+  const lines = [];
+  let line = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      line.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      line.push(cell);
+      lines.push(line);
+      line = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || line.length > 0) {
+    line.push(cell);
+    lines.push(line);
+  }
+  return lines;
+}
+
+/**
+ * Cell grid of the first worksheet, as displayed text
+ * @param {Buffer} buffer
+ * @returns {Promise<string[][]>}
+ */
+async function readXlsx(buffer) {
+  const workbook = new ExcelJS.Workbook();
+  try {
+    await workbook.xlsx.load(buffer);
+  } catch {
+    throw new BadRequestError('The file is not a readable XLSX workbook', 'INVALID_SHEET');
+  }
+
+  const sheet = workbook.worksheets[0];
+  if (!sheet) return [];
+
+  const lines = [];
+  sheet.eachRow({ includeEmpty: true }, (row) => {
+    const line = [];
+    for (let col = 1; col <= sheet.columnCount; col++) {
+      line.push(row.getCell(col).text);
+    }
+    lines.push(line);
+  });
+  return lines;
+}
+
+/**
+ * Read an uploaded sheet into rows
+ *
+ * The first line holds the headers. Blank lines are skipped; every row
+ * keeps its line number in the file so errors can point at it.
+ *
+ * @param {Object} file - Multer file (memory storage)
+ * @returns {Promise<{headers: string[], rows: Array<{line: number, values: Object}>}>}
+ */
+async function readSheet(file) {
+  const ext = path.extname(file.originalname || '').toLowerCase();
+
+  let lines;
+  if (ext === '.csv') {
+    // Strip the BOM reportExport writes for Excel
+    lines = parseCsv(file.buffer.toString('utf8').replace(/^\uFEFF/, ''));
+  } else if (ext === '.xlsx') {
+    lines = await readXlsx(file.buffer);
+  } else {
+    throw new BadRequestError(`Unsupported file type. Use one of: ${IMPORT_EXTENSIONS.join(', ')}`, 'INVALID_SHEET');
+  }
+
+  const [headerLine = [], ...body] = lines;
+  const headers = headerLine.map(header => String(header).trim());
+
+  const rows = [];
+  body.forEach((line, index) => {
+    if (line.every(cell => String(cell).trim() === '')) return;
+    const values = {};
+    headers.forEach((header, col) => {
+      if (header) values[header] = String(line[col] ?? '').trim();
+    });
+    // +2: one for the header line, one for 1-based numbering
+    rows.push({ line: index + 2, values });
+  });
+
+  return { headers: headers.filter(Boolean), rows };
+}
+
+module.exports = {
+  IMPORT_EXTENSIONS,
+  readSheet
+};
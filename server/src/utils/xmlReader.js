@@ -0,0 +1,164 @@
+/**
+ * XML Reader Utility
+ *
+ * A small reader for data files such as Moodle question exports: elements,
+ * attributes, text, CDATA and the predefined and numeric entities.
+ * Comments, processing instructions and DOCTYPEs are skipped; namespaces
+ * are kept as part of the name. Not a validating parser.
+ */
+
+const { BadRequestError } = require('./errors');
+
+const ENTITIES = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ' };
+
+// Code points a character reference may name: no NUL, surrogates or
+// anything past U+10FFFF
+const isValidCodePoint = (code) =>
+  Number.isFinite(code) && code > 0 && code <= 0x10ffff && !(code >= 0xd800 && code <= 0xdfff);
+
+/**
+ * Replace entity references with their characters
+ * References to invalid code points are left as written
+ * @param {string} text
+ * @returns {string}
+ */
+function decodeEntities(text) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+      return isValidCodePoint(code) ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Escape text for an element or attribute value
+ * @param {*} value
+ * @returns {string}
+ */
+function escapeXml(value) {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function readAttributes(source) {
+  const attrs = {};
+  const pattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match;
+  while ((match = pattern.exec(source)) !== null) {
+    attrs[match[1]] = decodeEntities(match[3] ?? match[4]);
+  }
+  return attrs;
+}
+
+/**
+ * Parse XML text into an element tree
+ *
+ * Each element is { name, attrs, children, text } where text is all of
+ * its direct character data joined.
+ *
+ * @param {string} xml
+ * @returns {{name: string, attrs: Object, children: Array<Object>, text: string}} The root element
+ * @throws {BadRequestError} INVALID_XML when the markup is broken
+ */
+function parseXml(xml) {
+  const root = { name: '#document', attrs: {}, children: [], text: '' };
+  const stack = [root];
+  const fail = (message) => { throw new BadRequestError(`Invalid XML: ${message}`, 'INVALID_XML'); };
+  let i = 0;
+
+  while (i < xml.length) {
+    const current = stack[stack.length - 1];
+    const lt = xml.indexOf('<', i);
+    const textEnd = lt === -1 ? xml.length : lt;
+    if (textEnd > i) current.text += decodeEntities(xml.slice(i, textEnd));
+    if (lt === -1) break;
+
+    if (xml.startsWith('<!--', lt)) {
+      const end = xml.indexOf('-->', lt);
+      if (end === -1) fail('unclosed comment');
+      i = end + 3;
+    } else if (xml.startsWith('<![CDATA[', lt)) {
+      const end = xml.indexOf(']]>', lt);
+      if (end === -1) fail('unclosed CDATA section');
+      current.text += xml.slice(lt + 9, end);
+      i = end + 3;
+    } else if (xml.startsWith('<?', lt)) {
+      const end = xml.indexOf('?>', lt);
+      if (end === -1) fail('unclosed processing instruction');
+      i = end + 2;
+    } else if (xml.startsWith('<!', lt)) {
+      const end = xml.indexOf('>', lt);
+      if (end === -1) fail('unclosed declaration');
+      i = end + 1;
+    } else if (xml[lt + 1] === '/') {
+      const end = xml.indexOf('>', lt);
+      if (end === -1) fail('unclosed end tag');
+      const name = xml.slice(lt + 2, end).trim();
+      if (stack.length === 1 || current.name !== name) fail(`unexpected </${name}>`);
+      stack.pop();
+      i = end + 1;
+    } else {
+      // Find the end of the tag, skipping quoted attribute values
+      let end = lt + 1;
+      let quote = null;
+      while (end < xml.length && (quote || xml[end] !== '>')) {
+        if (quote && xml[end] === quote) quote = null;
+        else if (!quote && (xml[end] === '"' || xml[end] === "'")) quote = xml[end];
+        end++;
+      }
+      if (end >= xml.length) fail('unclosed start tag');
+
+      const selfClosing = xml[end - 1] === '/';
+      const body = xml.slice(lt + 1, selfClosing ? end - 1 : end);
+      const name = body.match(/^[^\s/>]+/)?.[0];
+      if (!name) fail('missing tag name');
+
+      const element = { name, attrs: readAttributes(body.slice(name.length)), children: [], text: '' };
+      current.children.push(element);
+      if (!selfClosing) stack.push(element);
+      i = end + 1;
+    }
+  }
+
+  if (stack.length > 1) fail(`<${stack[stack.length - 1].name}> is never closed`);
+  const [element] = root.children;
+  if (!element) fail('no root element');
+  return element;
+}
+
+/**
+ * First child element with the given name
+ * @returns {Object|undefined}
+ */
+const child = (element, name) => element?.children.find(node => node.name === name);
+
+/**
+ * Every child element with the given name
+ * @returns {Array<Object>}
+ */
+const childrenNamed = (element, name) => (element ? element.children.filter(node => node.name === name) : []);
+
+/**
+ * Text of a child element, or of its <text> child as Moodle nests it
+ * @returns {string} Empty when missing
+ */
+function childText(element, name) {
+  const node = child(element, name);
+  if (!node) return '';
+  const text = child(node, 'text');
+  return (text ? text.text : node.text).trim();
+}
+
+module.exports = {
+  decodeEntities,
+  escapeXml,
+  parseXml,
+  child,
+  childrenNamed,
+  childText
+};